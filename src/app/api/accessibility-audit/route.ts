@@ -1,54 +1,25 @@
 import { NextRequest, NextResponse } from "next/server";
+import { describeSafeFetchError, normalizePublicHttpUrl, safeFetch } from "@/lib/safe-fetch";
 
-function isPrivateOrLocalHost(value: string): boolean {
-  const host = value.trim().toLowerCase();
-  if (!host) return true;
-  if (host === "localhost" || host.endsWith(".local")) return true;
-  if (host === "::1") return true;
-  if (host.startsWith("127.")) return true;
-  if (host.startsWith("10.")) return true;
-  if (host.startsWith("192.168.")) return true;
-  if (/^172\.(1[6-9]|2\d|3[0-1])\./.test(host)) return true;
-  if (host.startsWith("169.254.")) return true;
-  if (host.startsWith("fc") || host.startsWith("fd")) return true;
-  return false;
-}
-
-function normalizeAuditUrl(value: string): string | null {
-  const trimmed = value.trim();
-  if (!trimmed) return null;
-  const normalized = /^[a-zA-Z][\w+.-]*:/.test(trimmed) ? trimmed : `https://${trimmed}`;
-  try {
-    const parsed = new URL(normalized);
-    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return null;
-    if (isPrivateOrLocalHost(parsed.hostname)) return null;
-    parsed.hash = "";
-    return parsed.toString();
-  } catch {
-    return null;
-  }
-}
+export const runtime = "nodejs";
 
 export async function POST(request: NextRequest) {
   try {
     const body = (await request.json()) as { url?: string };
-    const normalizedUrl = normalizeAuditUrl(body.url ?? "");
+    const normalizedUrl = normalizePublicHttpUrl(body.url ?? "");
     if (!normalizedUrl) {
       return NextResponse.json({ ok: false, error: "Enter a valid public page URL." }, { status: 400 });
     }
 
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 12000);
-
     try {
-      const response = await fetch(normalizedUrl, {
-        cache: "no-store",
-        redirect: "follow",
-        signal: controller.signal,
+      const response = await safeFetch(normalizedUrl, {
+        timeoutMs: 12000,
+        maxBytes: 800_000,
         headers: {
           "user-agent": "UtilioraAccessibilityAudit/1.0",
           accept: "text/html,application/xhtml+xml",
         },
+        readBody: (contentType) => contentType.includes("text/html") || contentType.includes("application/xhtml+xml"),
       });
 
       const contentType = response.headers.get("content-type")?.toLowerCase() ?? "";
@@ -62,13 +33,8 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      const finalUrl = response.url || normalizedUrl;
-      const finalHost = new URL(finalUrl).hostname;
-      if (isPrivateOrLocalHost(finalHost)) {
-        return NextResponse.json({ ok: false, error: "Redirected to a blocked host." }, { status: 400 });
-      }
-
-      const markup = (await response.text()).slice(0, 800_000);
+      const finalUrl = response.url;
+      const markup = response.body;
       const titleMatch = markup.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
 
       return NextResponse.json({
@@ -80,21 +46,8 @@ export async function POST(request: NextRequest) {
         markup,
       });
     } catch (error) {
-      const isAbort =
-        typeof error === "object" &&
-        error !== null &&
-        "name" in error &&
-        (error as { name?: string }).name === "AbortError";
-
-      return NextResponse.json(
-        {
-          ok: false,
-          error: isAbort ? "The page request timed out." : "Unable to fetch the page for auditing.",
-        },
-        { status: 500 },
-      );
-    } finally {
-      clearTimeout(timeout);
+      const failure = describeSafeFetchError(error, "Unable to fetch the page for auditing.");
+      return NextResponse.json({ ok: false, error: failure.error, code: failure.code }, { status: failure.status });
     }
   } catch {
     return NextResponse.json({ ok: false, error: "Invalid accessibility audit request." }, { status: 400 });
@@ -1,4 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
+import { describeSafeFetchError, normalizePublicHttpUrl, safeFetch } from "@/lib/safe-fetch";
+
+export const runtime = "nodejs";
 
 type CheckSeverity = "critical" | "important" | "info";
 
@@ -29,29 +32,11 @@ interface PageAudit {
 const TRUST_PAGE_PATHS = ["/about", "/contact", "/privacy", "/terms"] as const;
 const ESSENTIAL_ASSET_PATHS = ["/robots.txt", "/sitemap.xml", "/ads.txt"] as const;
 
-function isPrivateOrLocalHost(value: string): boolean {
-  const host = value.trim().toLowerCase();
-  if (!host) return true;
-  if (host === "localhost" || host.endsWith(".local")) return true;
-  if (host === "::1") return true;
-  if (host.startsWith("127.")) return true;
-  if (host.startsWith("10.")) return true;
-  if (host.startsWith("192.168.")) return true;
-  if (/^172\.(1[6-9]|2\d|3[0-1])\./.test(host)) return true;
-  if (host.startsWith("169.254.")) return true;
-  if (host.startsWith("fc") || host.startsWith("fd")) return true;
-  return false;
-}
-
 function normalizeBaseUrl(value: string): string | null {
-  const trimmed = value.trim();
-  if (!trimmed) return null;
-  const normalized = /^[a-zA-Z][\w+.-]*:/.test(trimmed) ? trimmed : `https://${trimmed}`;
+  const normalized = normalizePublicHttpUrl(value);
+  if (!normalized) return null;
   try {
     const parsed = new URL(normalized);
-    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return null;
-    if (isPrivateOrLocalHost(parsed.hostname)) return null;
-    parsed.hash = "";
     parsed.search = "";
     parsed.pathname = "/";
     return parsed.toString().replace(/\/$/, "");
@@ -158,38 +143,20 @@ function summarizePage(
 }
 
 async function fetchPageAudit(url: string, path: string, timeoutMs: number): Promise<{ page: PageAudit; internalPathSet: Set<string> }> {
-  const abortController = new AbortController();
-  const timeout = setTimeout(() => abortController.abort(), timeoutMs);
-
   try {
-    const response = await fetch(url, {
-      cache: "no-store",
-      redirect: "follow",
-      signal: abortController.signal,
+    const response = await safeFetch(url, {
+      timeoutMs,
+      maxBytes: 500_000,
       headers: {
         "user-agent": "UtilioraAdSenseAudit/1.0",
       },
+      readBody: (contentType) =>
+        contentType.includes("text/") || contentType.includes("application/json") || contentType.includes("application/xml"),
     });
 
-    const finalUrl = response.url || url;
-    const finalHost = new URL(finalUrl).hostname;
-    if (isPrivateOrLocalHost(finalHost)) {
-      throw new Error("Redirected to a blocked local/private host.");
-    }
-
     const contentType = response.headers.get("content-type")?.toLowerCase() ?? "";
-    const isTextContent =
-      contentType.includes("text/") || contentType.includes("application/json") || contentType.includes("application/xml");
-    const bodyText = isTextContent ? (await response.text()).slice(0, 500_000) : "";
-
-    return summarizePage(path, url, response.status, response.redirected, finalUrl, contentType, bodyText);
+    return summarizePage(path, url, response.status, response.redirected, response.url, contentType, response.body);
   } catch (error) {
-    const isAbort =
-      typeof error === "object" &&
-      error !== null &&
-      "name" in error &&
-      (error as { name?: string }).name === "AbortError";
-
     return {
       page: {
         path,
@@ -203,12 +170,10 @@ async function fetchPageAudit(url: string, path: string, timeoutMs: number): Pro
         noindex: false,
         wordCount: 0,
         internalLinkCount: 0,
-        error: isAbort ? `Request timed out after ${timeoutMs} ms.` : "Page request failed.",
+        error: describeSafeFetchError(error, "Page request failed.").error,
       },
       internalPathSet: new Set<string>(),
     };
-  } finally {
-    clearTimeout(timeout);
   }
 }
 
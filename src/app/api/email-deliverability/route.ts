@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { normalizeDomainInput, parseMxHost, parseResolver, parseTxtRecordData, queryDns } from "@/lib/dns-over-https";
+import { analyzeEmailDeliverability, normalizeDkimSelectors, type TxtLookupResult } from "@/lib/email-deliverability";
+import { describeSafeFetchError, safeFetch } from "@/lib/safe-fetch";
+
+export const runtime = "nodejs";
+
+const DNS_TIMEOUT_MS = 6000;
+const POLICY_TIMEOUT_MS = 6000;
+const POLICY_MAX_BYTES = 64 * 1024;
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const domain = normalizeDomainInput(params.get("domain"));
+  if (!domain) {
+    return NextResponse.json(
+      {
+        ok: false,
+        error: "Provide a valid domain, for example: example.com",
+      },
+      { status: 400 },
+    );
+  }
+
+  const resolver = parseResolver(params.get("resolver"));
+  const selectors = normalizeDkimSelectors(params.get("selectors") ?? "");
+  const started = Date.now();
+  const txtCache = new Map<string, Promise<TxtLookupResult>>();
+
+  const resolveTxt = (name: string): Promise<TxtLookupResult> => {
+    const key = name.toLowerCase();
+    const cached = txtCache.get(key);
+    if (cached) return cached;
+    const pending = queryDns(key, "TXT", resolver, DNS_TIMEOUT_MS).then((result) => {
+      if (!result.ok && result.status !== 3) {
+        return { records: [], error: result.error ?? `Resolver status ${result.status}.` };
+      }
+      return {
+        records: result.answers.filter((answer) => answer.type === "TXT").map((answer) => parseTxtRecordData(answer.data)),
+      };
+    });
+    txtCache.set(key, pending);
+    return pending;
+  };
+
+  const fetchPolicy = async (url: string) => {
+    try {
+      const response = await safeFetch(url, {
+        timeoutMs: POLICY_TIMEOUT_MS,
+        maxBytes: POLICY_MAX_BYTES,
+        maxRedirects: 0,
+      });
+      return { ok: response.status === 200, status: response.status, body: response.body };
+    } catch (error) {
+      return { ok: false, body: "", error: describeSafeFetchError(error, "Policy request failed.").error };
+    }
+  };
+
+  const mxLookup = await queryDns(domain, "MX", resolver, DNS_TIMEOUT_MS);
+  if (!mxLookup.ok && mxLookup.status !== 3) {
+    return NextResponse.json(
+      { ok: false, error: mxLookup.error ?? `Resolver returned status ${mxLookup.status}.` },
+      { status: 502 },
+    );
+  }
+
+  const report = await analyzeEmailDeliverability({
+    domain,
+    mxHosts: mxLookup.answers.filter((answer) => answer.type === "MX").map((answer) => parseMxHost(answer.data)),
+    selectors,
+    resolveTxt,
+    fetchPolicy,
+  });
+
+  return NextResponse.json(
+    {
+      ok: true,
+      resolver,
+      checkedAt: new Date().toISOString(),
+      durationMs: Date.now() - started,
+      dnsQueries: txtCache.size + 1,
+      report,
+    },
+    { headers: { "Cache-Control": "no-store" } },
+  );
+}
@@ -1,4 +1,27 @@
 import { NextResponse } from "next/server";
+import { gradeSecurityHeaders } from "@/lib/http-security-headers";
+import {
+  describeSafeFetchError,
+  isBlockedHostname,
+  safeFetch,
+  SafeFetchError,
+  type SafeFetchResponse,
+} from "@/lib/safe-fetch";
+
+export const runtime = "nodejs";
+
+const MAX_REDIRECT_HOPS = 10;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+interface RedirectHop {
+  url: string;
+  status: number;
+  statusText: string;
+  location: string | null;
+  timingMs: number;
+  address: string;
+  methodUsed: "HEAD" | "GET";
+}
 
 function isValidHttpUrl(value: string): boolean {
   try {
@@ -9,24 +32,33 @@ function isValidHttpUrl(value: string): boolean {
   }
 }
 
-function isPrivateOrLocalHost(value: string): boolean {
-  const host = value.trim().toLowerCase();
-  if (!host) return true;
-  if (host === "localhost" || host.endsWith(".local")) return true;
-  if (host === "::1") return true;
-  if (host.startsWith("127.")) return true;
-  if (host.startsWith("10.")) return true;
-  if (host.startsWith("192.168.")) return true;
-  if (/^172\.(1[6-9]|2\d|3[0-1])\./.test(host)) return true;
-  if (host.startsWith("169.254.")) return true;
-  if (host.startsWith("fc") || host.startsWith("fd")) return true;
-  return false;
-}
-
 function normalizeMethod(value: string | null): "HEAD" | "GET" {
   return value?.toUpperCase() === "GET" ? "GET" : "HEAD";
 }
 
+async function fetchHop(
+  url: string,
+  method: "HEAD" | "GET",
+  timeoutMs: number,
+  isRedirect: boolean,
+): Promise<{ response: SafeFetchResponse; methodUsed: "HEAD" | "GET" }> {
+  try {
+    const response = await safeFetch(url, { method, timeoutMs, followRedirects: false, readBody: false });
+    if (method === "HEAD" && response.status === 405) {
+      return {
+        response: await safeFetch(url, { method: "GET", timeoutMs, followRedirects: false, readBody: false }),
+        methodUsed: "GET",
+      };
+    }
+    return { response, methodUsed: method };
+  } catch (error) {
+    if (isRedirect && error instanceof SafeFetchError && error.code === "blocked-host") {
+      throw new SafeFetchError("redirect-blocked", "Redirected to a blocked host.");
+    }
+    throw error;
+  }
+}
+
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const targetUrl = searchParams.get("url")?.trim() ?? "";
@@ -47,7 +79,7 @@ export async function GET(request: Request) {
   }
 
   const hostname = new URL(targetUrl).hostname;
-  if (isPrivateOrLocalHost(hostname)) {
+  if (isBlockedHostname(hostname)) {
     return NextResponse.json(
       {
         ok: false,
@@ -57,55 +89,72 @@ export async function GET(request: Request) {
     );
   }
 
-  const start = Date.now();
-  const abort = new AbortController();
-  const timeout = setTimeout(() => abort.abort(), timeoutMs);
+  const started = Date.now();
+  const hops: RedirectHop[] = [];
+  const visited = new Set<string>();
+  let current = targetUrl;
+  let redirectIssue: "loop" | "too-many" | null = null;
+  let final: { response: SafeFetchResponse; methodUsed: "HEAD" | "GET" } | null = null;
 
   try {
-    let response = await fetch(targetUrl, {
-      method: requestedMethod,
-      redirect: "follow",
-      signal: abort.signal,
-    });
-    let methodUsed: "HEAD" | "GET" = requestedMethod;
-
-    if (requestedMethod === "HEAD" && response.status === 405) {
-      response = await fetch(targetUrl, {
-        method: "GET",
-        redirect: "follow",
-        signal: abort.signal,
+    for (;;) {
+      const remainingMs = timeoutMs - (Date.now() - started);
+      if (remainingMs <= 0) throw new SafeFetchError("timeout", `Request timed out after ${timeoutMs} ms.`);
+      visited.add(current);
+      final = await fetchHop(current, requestedMethod, remainingMs, hops.length > 0);
+      const { response, methodUsed } = final;
+      const location = response.hops[0]?.location ?? null;
+      hops.push({
+        url: response.url,
+        status: response.status,
+        statusText: response.statusText,
+        location,
+        timingMs: response.timingMs,
+        address: response.address,
+        methodUsed,
       });
-      methodUsed = "GET";
+
+      if (!REDIRECT_STATUSES.has(response.status) || !location) break;
+      let next: URL;
+      try {
+        next = new URL(location, response.url);
+      } catch {
+        throw new SafeFetchError("redirect-blocked", "Redirected to an invalid location.");
+      }
+      if (next.protocol !== "http:" && next.protocol !== "https:") {
+        throw new SafeFetchError("redirect-blocked", "Redirected to a non-HTTP location.");
+      }
+      if (visited.has(next.toString())) {
+        redirectIssue = "loop";
+        break;
+      }
+      if (hops.length > MAX_REDIRECT_HOPS) {
+        redirectIssue = "too-many";
+        break;
+      }
+      current = next.toString();
     }
 
-    clearTimeout(timeout);
+    const { response, methodUsed } = final;
+    const cookies = response.hops.flatMap((hop) => hop.cookies);
     return NextResponse.json({
       ok: true,
       status: response.status,
       statusText: response.statusText,
-      timingMs: Date.now() - start,
+      timingMs: Date.now() - started,
       methodUsed,
-      redirected: response.redirected,
+      redirected: hops.length > 1,
       finalUrl: response.url,
       contentType: response.headers.get("content-type") ?? undefined,
       contentLength: response.headers.get("content-length") ?? undefined,
+      hops,
+      redirectIssue,
+      headers: [...response.headers.entries()],
+      cookies,
+      security: gradeSecurityHeaders(response.headers, cookies, response.url),
     });
   } catch (error) {
-    clearTimeout(timeout);
-    const isAbort =
-      typeof error === "object" &&
-      error !== null &&
-      "name" in error &&
-      (error as { name?: string }).name === "AbortError";
-
-    return NextResponse.json(
-      {
-        ok: false,
-        error: isAbort
-          ? `Request timed out after ${timeoutMs} ms.`
-          : "Unable to reach URL. It may be blocked or unavailable.",
-      },
-      { status: 502 },
-    );
+    const failure = describeSafeFetchError(error, "Unable to reach URL. It may be blocked or unavailable.");
+    return NextResponse.json({ ok: false, error: failure.error, code: failure.code, hops }, { status: failure.status });
   }
 }
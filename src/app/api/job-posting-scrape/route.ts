@@ -1,4 +1,7 @@
 import { NextResponse } from "next/server";
+import { describeSafeFetchError, normalizePublicHttpUrl, safeFetch, type SafeFetchErrorCode } from "@/lib/safe-fetch";
+
+export const runtime = "nodejs";
 
 interface JobPostingScrapeResult {
   ok: true;
@@ -19,38 +22,11 @@ interface JobPostingScrapeResult {
 interface JobPostingScrapeError {
   ok: false;
   error: string;
+  code?: SafeFetchErrorCode;
 }
 
 type JobPostingRouteResponse = JobPostingScrapeResult | JobPostingScrapeError;
 
-function isPrivateOrLocalHost(value: string): boolean {
-  const host = value.trim().toLowerCase();
-  if (!host) return true;
-  if (host === "localhost" || host.endsWith(".local")) return true;
-  if (host === "::1") return true;
-  if (host.startsWith("127.")) return true;
-  if (host.startsWith("10.")) return true;
-  if (host.startsWith("192.168.")) return true;
-  if (/^172\.(1[6-9]|2\d|3[0-1])\./.test(host)) return true;
-  if (host.startsWith("169.254.")) return true;
-  if (host.startsWith("fc") || host.startsWith("fd")) return true;
-  return false;
-}
-
-function normalizeHttpUrl(value: string): string | null {
-  const trimmed = value.trim();
-  if (!trimmed) return null;
-  const normalized = /^[a-zA-Z][\w+.-]*:/.test(trimmed) ? trimmed : `https://${trimmed}`;
-  try {
-    const parsed = new URL(normalized);
-    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return null;
-    if (isPrivateOrLocalHost(parsed.hostname)) return null;
-    return parsed.toString();
-  } catch {
-    return null;
-  }
-}
-
 function decodeHtmlEntities(value: string): string {
   return value
     .replace(/&nbsp;/gi, " ")
@@ -257,7 +233,7 @@ function buildFormattedJobDescription(options: {
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
-  const targetUrl = normalizeHttpUrl(searchParams.get("url") ?? "");
+  const targetUrl = normalizePublicHttpUrl(searchParams.get("url") ?? "");
   const requestedTimeoutMs = Number.parseInt(searchParams.get("timeoutMs") ?? "", 10);
   const timeoutMs = Number.isFinite(requestedTimeoutMs) ? Math.max(3000, Math.min(20_000, requestedTimeoutMs)) : 12_000;
 
@@ -271,29 +247,18 @@ export async function GET(request: Request) {
     );
   }
 
-  const abortController = new AbortController();
-  const timeout = setTimeout(() => abortController.abort(), timeoutMs);
-
   try {
-    const response = await fetch(targetUrl, {
-      redirect: "follow",
-      cache: "no-store",
-      signal: abortController.signal,
+    const response = await safeFetch(targetUrl, {
+      timeoutMs,
+      maxBytes: 1_200_000,
       headers: {
         "user-agent": "UtilioraJobPostingImporter/1.0",
         accept: "text/html,application/xhtml+xml;q=0.9,*/*;q=0.8",
       },
+      readBody: (contentType) => contentType.includes("text/html") || contentType.includes("application/xhtml+xml"),
     });
 
-    const finalUrl = response.url || targetUrl;
-    const finalHost = new URL(finalUrl).hostname;
-    if (isPrivateOrLocalHost(finalHost)) {
-      return NextResponse.json<JobPostingRouteResponse>(
-        { ok: false, error: "Redirected to a blocked local/private host." },
-        { status: 400 },
-      );
-    }
-
+    const finalUrl = response.url;
     const contentType = (response.headers.get("content-type") ?? "").toLowerCase();
     if (!contentType.includes("text/html") && !contentType.includes("application/xhtml+xml")) {
       return NextResponse.json<JobPostingRouteResponse>(
@@ -302,7 +267,7 @@ export async function GET(request: Request) {
       );
     }
 
-    const markup = (await response.text()).slice(0, 1_200_000);
+    const markup = response.body;
     const parsedJsonLd = parseJobPostingFromJsonLd(markup);
     if (parsedJsonLd) {
       const formatted = buildFormattedJobDescription({
@@ -372,19 +337,10 @@ export async function GET(request: Request) {
       wordCount,
     });
   } catch (error) {
-    const isAbort =
-      typeof error === "object" &&
-      error !== null &&
-      "name" in error &&
-      (error as { name?: string }).name === "AbortError";
+    const failure = describeSafeFetchError(error, "Could not fetch this URL right now.");
     return NextResponse.json<JobPostingRouteResponse>(
-      {
-        ok: false,
-        error: isAbort ? `Request timed out after ${timeoutMs} ms.` : "Could not fetch this URL right now.",
-      },
-      { status: 502 },
+      { ok: false, error: failure.error, code: failure.code },
+      { status: failure.status },
     );
-  } finally {
-    clearTimeout(timeout);
   }
 }
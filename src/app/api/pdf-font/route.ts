@@ -0,0 +1,42 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { NextRequest, NextResponse } from "next/server";
+
+export const runtime = "nodejs";
+
+const PDF_FONT_FILES: Record<string, string> = {
+  regular: "LiberationSans-Regular.ttf",
+  bold: "LiberationSans-Bold.ttf",
+};
+const cachedFonts = new Map<string, Buffer>();
+
+async function loadPdfFont(fileName: string): Promise<Buffer> {
+  const cached = cachedFonts.get(fileName);
+  if (cached) {
+    return cached;
+  }
+  const font = await fs.readFile(path.join(process.cwd(), "node_modules", "pdfjs-dist", "standard_fonts", fileName));
+  cachedFonts.set(fileName, font);
+  return font;
+}
+
+export async function GET(request: NextRequest) {
+  const fileName = PDF_FONT_FILES[request.nextUrl.searchParams.get("weight") ?? "regular"];
+  if (!fileName) {
+    return NextResponse.json({ ok: false, error: "Unknown font weight." }, { status: 400 });
+  }
+  try {
+    const font = await loadPdfFont(fileName);
+    return new NextResponse(new Uint8Array(font), {
+      headers: {
+        "Content-Type": "font/ttf",
+        "Cache-Control": "public, max-age=86400, stale-while-revalidate=86400",
+      },
+    });
+  } catch {
+    return NextResponse.json(
+      { ok: false, error: "Failed to load PDF font." },
+      { status: 500, headers: { "Cache-Control": "no-store" } },
+    );
+  }
+}
@@ -1,7 +1,7 @@
-import { lookup } from "node:dns/promises";
 import net from "node:net";
 import tls from "node:tls";
 import { NextRequest, NextResponse } from "next/server";
+import { describeSafeFetchError, isBlockedHostname, resolvePublicAddress } from "@/lib/safe-fetch";
 
 export const runtime = "nodejs";
 
@@ -48,49 +48,6 @@ function parseTarget(rawValue: string | null): ParsedTarget | null {
   }
 }
 
-function isPrivateIpv4(address: string): boolean {
-  const segments = address.split(".").map((segment) => Number.parseInt(segment, 10));
-  if (segments.length !== 4 || segments.some((value) => !Number.isInteger(value) || value < 0 || value > 255)) {
-    return true;
-  }
-  const [a, b] = segments;
-  if (a === 10) return true;
-  if (a === 127) return true;
-  if (a === 0) return true;
-  if (a === 169 && b === 254) return true;
-  if (a === 172 && b >= 16 && b <= 31) return true;
-  if (a === 192 && b === 168) return true;
-  return false;
-}
-
-function isPrivateIpv6(address: string): boolean {
-  const normalized = address.toLowerCase();
-  if (normalized === "::1") return true;
-  if (normalized.startsWith("fc") || normalized.startsWith("fd")) return true;
-  if (normalized.startsWith("fe8") || normalized.startsWith("fe9") || normalized.startsWith("fea") || normalized.startsWith("feb")) {
-    return true;
-  }
-  return false;
-}
-
-function isPrivateIpAddress(address: string): boolean {
-  const version = net.isIP(address);
-  if (version === 4) return isPrivateIpv4(address);
-  if (version === 6) return isPrivateIpv6(address);
-  return true;
-}
-
-function isPrivateOrLocalHost(host: string): boolean {
-  const normalized = host.trim().toLowerCase();
-  if (!normalized) return true;
-  if (normalized === "localhost" || normalized.endsWith(".local")) return true;
-  if (normalized === "::1") return true;
-
-  const version = net.isIP(normalized);
-  if (version === 4 || version === 6) return isPrivateIpAddress(normalized);
-  return false;
-}
-
 function formatDistinguishedName(value: unknown): string {
   if (!value || typeof value !== "object") return "Unknown";
   const entries = Object.entries(value as Record<string, unknown>)
@@ -195,17 +152,7 @@ function extractChain(root: tls.DetailedPeerCertificate): ChainCertificate[] {
   return chain;
 }
 
-async function resolveHostAddresses(host: string): Promise<string[]> {
-  try {
-    const entries = await lookup(host, { all: true, verbatim: true });
-    const unique = [...new Set(entries.map((entry) => entry.address))];
-    return unique.slice(0, 20);
-  } catch {
-    return [];
-  }
-}
-
-async function inspectTlsCertificate(target: ParsedTarget, timeoutMs: number, includePem: boolean) {
+async function inspectTlsCertificate(target: ParsedTarget, address: string, timeoutMs: number, includePem: boolean) {
   return await new Promise<{
     timingMs: number;
     protocol: string;
@@ -245,7 +192,7 @@ async function inspectTlsCertificate(target: ParsedTarget, timeoutMs: number, in
     };
 
     const socket = tls.connect({
-      host: target.host,
+      host: address,
       port: target.port,
       servername: net.isIP(target.host) ? undefined : target.host,
       rejectUnauthorized: false,
@@ -348,7 +295,7 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  if (isPrivateOrLocalHost(target.host)) {
+  if (isBlockedHostname(target.host)) {
     return NextResponse.json(
       {
         ok: false,
@@ -364,19 +311,17 @@ export async function GET(request: NextRequest) {
     : 9000;
   const includePem = params.get("includePem") === "true";
 
-  const resolvedAddresses = await resolveHostAddresses(target.host);
-  if (resolvedAddresses.some((address) => isPrivateIpAddress(address))) {
-    return NextResponse.json(
-      {
-        ok: false,
-        error: "Resolved target points to a private network address and is blocked.",
-      },
-      { status: 400 },
-    );
+  let resolved: Awaited<ReturnType<typeof resolvePublicAddress>>;
+  try {
+    resolved = await resolvePublicAddress(target.host);
+  } catch (error) {
+    const failure = describeSafeFetchError(error, "Could not resolve the target host.");
+    return NextResponse.json({ ok: false, error: failure.error, code: failure.code }, { status: failure.status });
   }
+  const resolvedAddresses = resolved.addresses.slice(0, 20);
 
   try {
-    const inspection = await inspectTlsCertificate(target, timeoutMs, includePem);
+    const inspection = await inspectTlsCertificate(target, resolved.address, timeoutMs, includePem);
     return NextResponse.json(
       {
         ok: true,
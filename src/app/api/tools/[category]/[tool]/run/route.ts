@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server";
+import { getToolEngineSchema, runToolEngine, TOOL_ENGINE_API_VERSION } from "@/lib/tool-engine";
+import { getToolByCategoryAndSlug } from "@/lib/tools";
+
+interface ToolRunRouteContext {
+  params: {
+    category: string;
+    tool: string;
+  };
+}
+
+const MAX_BODY_BYTES = 2 * 1024 * 1024;
+
+function resolveHeadlessTool(params: ToolRunRouteContext["params"]) {
+  const tool = getToolByCategoryAndSlug(params.category, params.tool);
+  if (!tool) {
+    return {
+      error: NextResponse.json({ ok: false, error: "Tool not found." }, { status: 404 }),
+    };
+  }
+  const schema = getToolEngineSchema(tool);
+  if (!schema) {
+    return {
+      error: NextResponse.json(
+        { ok: false, error: "This tool needs a browser or network access and is not available through the headless API." },
+        { status: 404 },
+      ),
+    };
+  }
+  return { tool, schema };
+}
+
+export async function GET(_request: Request, { params }: ToolRunRouteContext) {
+  const resolved = resolveHeadlessTool(params);
+  if ("error" in resolved) return resolved.error;
+  return NextResponse.json({ ok: true, ...resolved.schema });
+}
+
+export async function POST(request: Request, { params }: ToolRunRouteContext) {
+  const resolved = resolveHeadlessTool(params);
+  if ("error" in resolved) return resolved.error;
+
+  const declaredLength = Number.parseInt(request.headers.get("content-length") ?? "", 10);
+  if (Number.isFinite(declaredLength) && declaredLength > MAX_BODY_BYTES) {
+    return NextResponse.json({ ok: false, error: "Request body is too large." }, { status: 413 });
+  }
+
+  let body: { version?: unknown; input?: unknown };
+  try {
+    const raw = await request.text();
+    if (raw.length > MAX_BODY_BYTES) {
+      return NextResponse.json({ ok: false, error: "Request body is too large." }, { status: 413 });
+    }
+    body = raw.trim() ? (JSON.parse(raw) as typeof body) : {};
+  } catch {
+    return NextResponse.json({ ok: false, error: "Request body must be valid JSON." }, { status: 400 });
+  }
+
+  if (body.version !== undefined && body.version !== TOOL_ENGINE_API_VERSION) {
+    return NextResponse.json(
+      { ok: false, error: `Unsupported API version. Use "${TOOL_ENGINE_API_VERSION}".` },
+      { status: 400 },
+    );
+  }
+
+  const startedAt = Date.now();
+  const outcome = runToolEngine(resolved.tool, body.input ?? {});
+  if (!outcome) {
+    return NextResponse.json({ ok: false, error: "Tool engine unavailable." }, { status: 404 });
+  }
+  if (!outcome.ok) {
+    return NextResponse.json(
+      { ok: false, version: TOOL_ENGINE_API_VERSION, error: "Input validation failed.", issues: outcome.issues },
+      { status: 422 },
+    );
+  }
+
+  return NextResponse.json({
+    ok: true,
+    version: TOOL_ENGINE_API_VERSION,
+    tool: { category: resolved.tool.category, slug: resolved.tool.slug, title: resolved.tool.title },
+    timingMs: Date.now() - startedAt,
+    rows: outcome.result.rows,
+    output: outcome.result.output ?? null,
+  });
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { listHeadlessToolSchemas, TOOL_ENGINE_API_VERSION } from "@/lib/tool-engine";
+
+export async function GET() {
+  const tools = listHeadlessToolSchemas();
+  return NextResponse.json({
+    ok: true,
+    version: TOOL_ENGINE_API_VERSION,
+    count: tools.length,
+    tools: tools.map((schema) => ({
+      ...schema,
+      runUrl: `/api/tools/${schema.category}/${schema.slug}/run`,
+    })),
+  });
+}
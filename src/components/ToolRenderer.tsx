@@ -47,19 +47,31 @@ import {
   type ResultRow,
 } from "@/lib/calculations";
 import { trackEvent } from "@/lib/analytics";
+import { calculatorFields, type CalculatorField } from "@/lib/calculator-fields";
 import { emitShareSignal } from "@/lib/social-share";
 import { convertNumber, convertUnitValue, getUnitsForQuantity } from "@/lib/converters";
 import {
   applyCleanupPreset,
+  applyCsvMappingRecipe,
+  buildCsvRecipeReportCsv,
   buildCsvText,
+  buildCsvValidationIssuesCsv,
   cleanupCsvDataset,
+  createCsvMappingRecipe,
   detectCsvDelimiter,
   mapCsvRows,
+  parseCsvMappingRecipes,
   parseDelimitedText,
   parseTargetSchema,
+  serializeCsvMappingRecipes,
   suggestColumnMappings,
   type CsvCleanupOptions,
+  type CsvCleanupPresetId,
+  type CsvColumnOperation,
+  type CsvColumnRule,
   type CsvDataset,
+  type CsvMappingRecipe,
+  type CsvRecipeFileReport,
 } from "@/lib/csv-cleanup";
 import {
   analyzeAccessibilityMarkup,
@@ -67,11 +79,35 @@ import {
   type AccessibilityAuditIssue,
   type AccessibilityAuditResult,
 } from "@/lib/accessibility-audit";
-import { analyzeBankStatement, type BankStatementAnalysis } from "@/lib/bank-statement";
+import {
+  analyzeBankStatement,
+  analyzeBankStatements,
+  createStatementCategoryRule,
+  parseStatementRules,
+  recategorizeBankStatement,
+  serializeStatementRules,
+  type BankStatementAnalysis,
+  type StatementCategoryBudget,
+  type StatementCategoryRule,
+  type StatementFileInput,
+  type StatementSourceHint,
+} from "@/lib/bank-statement";
 import {
   buildDocumentCompareMarkdown,
+  buildDocumentRedline,
+  buildDocumentRedlineDocxParts,
+  buildThreeWayCompareMarkdown,
   compareDocumentTexts,
+  compareThreeWayDocuments,
+  sanitizeClauseLibrary,
+  THREE_WAY_STATUS_LABELS,
+  type DocumentClauseRule,
   type DocumentCompareResult,
+  type DocumentDiffGranularity,
+  type DocumentDiffSegment,
+  type DocumentRedlineBlock,
+  type DocumentRiskSeverity,
+  type ThreeWayCompareResult,
 } from "@/lib/document-compare";
 import {
   analyzeMessageForScamRisk,
@@ -88,15 +124,87 @@ import {
 } from "@/lib/scam-shield";
 import {
   applyPiiRedactions,
+  assignPseudonyms,
+  createPseudonymVault,
+  decryptPseudonymVault,
   detectPiiFindings,
+  encryptPseudonymVault,
+  PII_COLUMN_POLICY_LABELS,
+  PII_DETECTOR_LABELS,
+  PII_DETECTOR_TYPES,
+  PII_REDACTION_PROFILES,
+  buildPiiLayoutLine,
+  groupPiiLayoutTokens,
+  locatePiiFindingBox,
+  maskPiiValue,
+  reidentifyPseudonymizedText,
+  sanitizeCsvDatasetPii,
+  sanitizeJsonDocumentPii,
+  sanitizePiiRedactionProfiles,
+  scanCsvDatasetPii,
+  scanJsonDocumentPii,
   summarizePiiCounts,
+  type PiiBoundingBox,
+  type PiiColumnPolicy,
+  type PiiDatasetSanitizeSummary,
+  type PiiDatasetScan,
+  type PiiDetectorType,
   type PiiFinding,
+  type PiiLayoutToken,
+  type PiiPseudonymVault,
+  type PiiRedactionLogEntry,
+  type PiiRedactionProfile,
   type PiiReplacementMode,
 } from "@/lib/pii-redaction";
+import {
+  buildFacturXInvoiceXml,
+  buildFacturXMetadata,
+  buildUblInvoiceXml,
+  calculateEInvoiceTotals,
+  E_INVOICE_TAX_CATEGORY_LABELS,
+  validateEInvoice,
+  type EInvoiceAllowanceCharge,
+  type EInvoiceDocument,
+  type EInvoiceTaxCategory,
+  type EInvoiceTotals,
+} from "@/lib/e-invoice";
+import {
+  addDaysToIsoDate,
+  addMonthsToIsoDate,
+  buildInvoiceAgingReport,
+  collectDueRecurrenceDates,
+  daysBetweenIsoDates,
+  deriveInvoiceStatus,
+  findSequenceForClient,
+  formatSequenceNumber,
+  getNextRecurrenceDate,
+  INVOICE_STATUS_LABELS,
+  sanitizeInvoicePayments,
+  sanitizeInvoiceRecurrence,
+  sanitizeInvoiceSequence,
+  sumInvoicePayments,
+  todayIsoDate,
+  type InvoiceLifecycleStatus,
+  type InvoiceNumberSequence,
+  type InvoicePayment,
+  type InvoiceRecurrence,
+  type InvoiceRecurrenceFrequency,
+} from "@/lib/invoice-ledger";
 import {
   analyzeReceiptInvoiceText,
+  buildAccountingExport,
+  buildReceiptLedgerCsv,
+  createDefaultAccountingMapping,
+  RECEIPT_CATEGORY_OPTIONS,
+  reviewReceiptExtraction,
+  sanitizeAccountingMapping,
+  type AccountingDateFormat,
+  type AccountingExportFormat,
+  type AccountingExportMapping,
   type ExtractedBookkeepingRow,
   type ReceiptInvoiceExtraction,
+  type ReceiptReviewFlag,
+  type UblTaxCategory,
 } from "@/lib/receipt-invoice-extractor";
 import {
   compareRemittanceRoutes,
@@ -110,14 +218,40 @@ import {
   buildMeetingMinutes,
   buildSpeakerNotes,
   cuesToTranscript,
+  deriveRetimeFromSyncPoints,
+  detectSubtitleFormat,
   exportSrt,
+  exportSubtitles,
   exportVtt,
+  fixSubtitleCues,
+  formatFrameTimecode,
   formatSubtitleTimestamp,
   generateSubtitleCues,
+  generateSubtitleCuesFromWords,
+  getFrameRateConversionFactor,
+  lintSubtitleCues,
   parseSubtitleFile,
   parseTranscriptSpeakers,
+  retimeSubtitleCues,
+  snapCuesToFrameRate,
+  SUBTITLE_FORMAT_EXTENSIONS,
+  SUBTITLE_FORMAT_LABELS,
+  SUBTITLE_FORMAT_MIME_TYPES,
+  SUBTITLE_FRAME_RATES,
+  SUBTITLE_LINT_RULE_LABELS,
   type SubtitleCue,
+  type SubtitleFormat,
+  type SubtitleFrameRate,
+  type SubtitleLintRule,
+  type SubtitleWordTiming,
 } from "@/lib/transcript-subtitle";
+import {
+  decodeMediaToMonoPcm,
+  SPEECH_LANGUAGE_OPTIONS,
+  SPEECH_MODEL_OPTIONS,
+  type SpeechWorkerRequest,
+  type SpeechWorkerResponse,
+} from "@/lib/speech-transcription";
 import {
   buildDocumentTranslationWordMarkup,
   DOCUMENT_TRANSLATOR_HISTORY_LIMIT,
@@ -129,6 +263,23 @@ import {
   splitDocumentIntoTranslationChunks,
   summarizeProviderCounts,
 } from "@/lib/document-translator";
+import {
+  createDnsSnapshot,
+  diffDnsSnapshots,
+  parseDnsSnapshot,
+  type DnsSnapshot,
+} from "@/lib/dns-snapshot";
+import { describeSignature, type DnssecChainReport, type DnssecStatus } from "@/lib/dnssec";
+import {
+  EMAIL_AUTH_SEVERITY_ORDER,
+  normalizeDkimSelectors,
+  type EmailAuthSeverity,
+  type EmailDeliverabilityReport,
+  type SpfNode,
+} from "@/lib/email-deliverability";
+import type { SecurityHeaderReport } from "@/lib/http-security-headers";
+import type { PdfAssemblyResult, PdfAssemblySource } from "@/lib/pdf-assembly";
+import { parsePdfPageRanges } from "@/lib/pdf-page-ranges";
 import {
   beautifyHtml,
   countCharacters,
@@ -180,601 +331,6 @@ function ResultList({ rows }: { rows: ResultRow[] }) {
   );
 }
 
-interface CalculatorField {
-  name: string;
-  label: string;
-  type?: "number" | "text" | "select" | "date";
-  min?: number;
-  step?: number;
-  defaultValue: string;
-  helper?: string;
-  options?: Array<{ label: string; value: string }>;
-}
-
-const calculatorFields: Record<CalculatorId, CalculatorField[]> = {
-  "loan-emi-calculator": [
-    {
-      name: "principal",
-      label: "Loan amount (USD)",
-      defaultValue: "100000",
-      min: 0,
-      step: 100,
-      type: "number",
-      helper: "Total amount borrowed.",
-    },
-    {
-      name: "annualRate",
-      label: "Annual interest rate (%)",
-      defaultValue: "8.5",
-      min: 0,
-      step: 0.1,
-      type: "number",
-      helper: "Nominal yearly rate from your lender.",
-    },
-    { name: "months", label: "Loan tenure (months)", defaultValue: "60", min: 1, step: 1, type: "number" },
-  ],
-  "auto-loan-calculator": [
-    {
-      name: "vehiclePrice",
-      label: "Vehicle price (USD)",
-      defaultValue: "42000",
-      min: 0,
-      step: 100,
-      type: "number",
-    },
-    {
-      name: "downPayment",
-      label: "Down payment (USD)",
-      defaultValue: "5000",
-      min: 0,
-      step: 50,
-      type: "number",
-    },
-    {
-      name: "tradeInValue",
-      label: "Trade-in value (USD)",
-      defaultValue: "3000",
-      min: 0,
-      step: 50,
-      type: "number",
-    },
-    {
-      name: "salesTaxRate",
-      label: "Sales tax (%)",
-      defaultValue: "7.5",
-      min: 0,
-      step: 0.1,
-      type: "number",
-    },
-    {
-      name: "dealerFees",
-      label: "Dealer fees (USD)",
-      defaultValue: "1200",
-      min: 0,
-      step: 10,
-      type: "number",
-    },
-    {
-      name: "annualRate",
-      label: "APR (%)",
-      defaultValue: "6.2",
-      min: 0,
-      step: 0.1,
-      type: "number",
-    },
-    {
-      name: "months",
-      label: "Loan term",
-      defaultValue: "60",
-      type: "select",
-      options: [
-        { label: "36 months", value: "36" },
-        { label: "48 months", value: "48" },
-        { label: "60 months", value: "60" },
-        { label: "72 months", value: "72" },
-        { label: "84 months", value: "84" },
-      ],
-    },
-  ],
-  "refinance-calculator": [
-    {
-      name: "currentBalance",
-      label: "Current loan balance (USD)",
-      defaultValue: "320000",
-      min: 0,
-      step: 100,
-      type: "number",
-    },
-    {
-      name: "currentRate",
-      label: "Current interest rate (%)",
-      defaultValue: "7.1",
-      min: 0,
-      step: 0.1,
-      type: "number",
-    },
-    {
-      name: "remainingMonths",
-      label: "Remaining term (months)",
-      defaultValue: "324",
-      min: 1,
-      step: 1,
-      type: "number",
-    },
-    {
-      name: "newRate",
-      label: "New refinance rate (%)",
-      defaultValue: "5.9",
-      min: 0,
-      step: 0.1,
-      type: "number",
-    },
-    {
-      name: "newMonths",
-      label: "New term",
-      defaultValue: "360",
-      type: "select",
-      options: [
-        { label: "120 months", value: "120" },
-        { label: "180 months", value: "180" },
-        { label: "240 months", value: "240" },
-        { label: "300 months", value: "300" },
-        { label: "360 months", value: "360" },
-      ],
-    },
-    {
-      name: "closingCosts",
-      label: "Closing costs (USD)",
-      defaultValue: "6500",
-      min: 0,
-      step: 50,
-      type: "number",
-    },
-    {
-      name: "cashOutAmount",
-      label: "Cash-out amount (USD)",
-      defaultValue: "0",
-      min: 0,
-      step: 100,
-      type: "number",
-    },
-    {
-      name: "rollClosingCosts",
-      label: "Roll closing costs into new loan",
-      defaultValue: "yes",
-      type: "select",
-      options: [
-        { label: "Yes (finance costs)", value: "yes" },
-        { label: "No (pay upfront)", value: "no" },
-      ],
-    },
-  ] satisfies CalculatorField[],
-  "mortgage-calculator": [
-    {
-      name: "homePrice",
-      label: "Home price (USD)",
-      defaultValue: "450000",
-      min: 0,
-      step: 1000,
-      type: "number",
-    },
-    {
-      name: "downPayment",
-      label: "Down payment (USD)",
-      defaultValue: "90000",
-      min: 0,
-      step: 500,
-      type: "number",
-    },
-    { name: "annualRate", label: "Interest rate (%)", defaultValue: "6.5", min: 0, step: 0.1, type: "number" },
-    { name: "years", label: "Loan term (years)", defaultValue: "30", min: 1, step: 1, type: "number" },
-    {
-      name: "annualPropertyTaxRate",
-      label: "Property tax rate (%)",
-      defaultValue: "1.2",
-      min: 0,
-      step: 0.1,
-      type: "number",
-    },
-    {
-      name: "annualHomeInsurance",
-      label: "Annual home insurance (USD)",
-      defaultValue: "1800",
-      min: 0,
-      step: 50,
-      type: "number",
-    },
-    { name: "monthlyHoa", label: "Monthly HOA (USD)", defaultValue: "0", min: 0, step: 10, type: "number" },
-  ],
-  "debt-to-income-calculator": [
-    {
-      name: "grossMonthlyIncome",
-      label: "Gross monthly income (USD)",
-      defaultValue: "8500",
-      min: 0,
-      step: 50,
-      type: "number",
-      helper: "Income before tax, from salary/wages.",
-    },
-    {
-      name: "coBorrowerMonthlyIncome",
-      label: "Co-borrower monthly income (USD)",
-      defaultValue: "0",
-      min: 0,
-      step: 50,
-      type: "number",
-    },
-    {
-      name: "otherMonthlyIncome",
-      label: "Other recurring income (USD)",
-      defaultValue: "0",
-      min: 0,
-      step: 50,
-      type: "number",
-      helper: "Only include reliable income you can document.",
-    },
-    {
-      name: "monthlyHousingPayment",
-      label: "Housing payment - rent/mortgage P&I (USD)",
-      defaultValue: "2200",
-      min: 0,
-      step: 10,
-      type: "number",
-    },
-    {
-      name: "monthlyPropertyTax",
-      label: "Monthly property tax (USD)",
-      defaultValue: "350",
-      min: 0,
-      step: 10,
-      type: "number",
-    },
-    {
-      name: "monthlyInsuranceHoa",
-      label: "Monthly insurance + HOA (USD)",
-      defaultValue: "210",
-      min: 0,
-      step: 10,
-      type: "number",
-    },
-    { name: "monthlyCarPayment", label: "Monthly car loans (USD)", defaultValue: "450", min: 0, step: 10, type: "number" },
-    {
-      name: "monthlyStudentLoanPayment",
-      label: "Monthly student loans (USD)",
-      defaultValue: "280",
-      min: 0,
-      step: 10,
-      type: "number",
-    },
-    {
-      name: "monthlyCreditCardPayments",
-      label: "Monthly credit card minimums (USD)",
-      defaultValue: "150",
-      min: 0,
-      step: 10,
-      type: "number",
-    },
-    {
-      name: "monthlyPersonalLoanPayments",
-      label: "Monthly personal loans (USD)",
-      defaultValue: "0",
-      min: 0,
-      step: 10,
-      type: "number",
-    },
-    {
-      name: "monthlyChildSupportAlimony",
-      label: "Child support / alimony (USD)",
-      defaultValue: "0",
-      min: 0,
-      step: 10,
-      type: "number",
-    },
-    { name: "monthlyOtherDebts", label: "Other monthly debt (USD)", defaultValue: "0", min: 0, step: 10, type: "number" },
-    {
-      name: "targetFrontEndDti",
-      label: "Target front-end ratio (%)",
-      defaultValue: "31",
-      type: "select",
-      options: [
-        { label: "25 (Conservative)", value: "25" },
-        { label: "28 (Standard)", value: "28" },
-        { label: "31 (Flexible)", value: "31" },
-        { label: "33 (Aggressive)", value: "33" },
-      ],
-    },
-    {
-      name: "targetBackEndDti",
-      label: "Target back-end ratio (%)",
-      defaultValue: "43",
-      type: "select",
-      options: [
-        { label: "35 (Conservative)", value: "35" },
-        { label: "36 (Standard)", value: "36" },
-        { label: "43 (Flexible)", value: "43" },
-        { label: "50 (Aggressive)", value: "50" },
-      ],
-    },
-  ] satisfies CalculatorField[],
-  "compound-interest-calculator": [
-    { name: "principal", label: "Initial principal (USD)", defaultValue: "10000", min: 0, step: 10, type: "number" },
-    { name: "annualRate", label: "Annual return rate (%)", defaultValue: "7", min: 0, step: 0.1, type: "number" },
-    { name: "years", label: "Years", defaultValue: "10", min: 0, step: 0.5, type: "number" },
-    {
-      name: "compoundsPerYear",
-      label: "Compounds per year",
-      defaultValue: "12",
-      type: "select",
-      options: [
-        { label: "1 (Yearly)", value: "1" },
-        { label: "4 (Quarterly)", value: "4" },
-        { label: "12 (Monthly)", value: "12" },
-        { label: "365 (Daily)", value: "365" },
-      ],
-    },
-  ],
-  "simple-interest-calculator": [
-    { name: "principal", label: "Principal (USD)", defaultValue: "5000", min: 0, step: 10, type: "number" },
-    { name: "annualRate", label: "Annual rate (%)", defaultValue: "5", min: 0, step: 0.1, type: "number" },
-    { name: "years", label: "Years", defaultValue: "3", min: 0, step: 0.5, type: "number" },
-  ],
-  "inflation-calculator": [
-    { name: "amount", label: "Current amount (USD)", defaultValue: "1000", min: 0, step: 10, type: "number" },
-    {
-      name: "annualInflationRate",
-      label: "Annual inflation rate (%)",
-      defaultValue: "3",
-      min: 0,
-      step: 0.1,
-      type: "number",
-    },
-    { name: "years", label: "Years", defaultValue: "10", min: 0, step: 0.5, type: "number" },
-  ],
-  "currency-converter-calculator": [
-    { name: "amount", label: "Amount", defaultValue: "1000", min: 0, step: 0.01, type: "number" },
-    {
-      name: "fromCurrency",
-      label: "From currency",
-      defaultValue: "USD",
-      type: "select",
-      options: [
-        { label: "USD", value: "USD" },
-        { label: "EUR", value: "EUR" },
-        { label: "GBP", value: "GBP" },
-        { label: "JPY", value: "JPY" },
-        { label: "INR", value: "INR" },
-        { label: "CAD", value: "CAD" },
-        { label: "AUD", value: "AUD" },
-      ],
-    },
-    {
-      name: "toCurrency",
-      label: "To currency",
-      defaultValue: "EUR",
-      type: "select",
-      options: [
-        { label: "USD", value: "USD" },
-        { label: "EUR", value: "EUR" },
-        { label: "GBP", value: "GBP" },
-        { label: "JPY", value: "JPY" },
-        { label: "INR", value: "INR" },
-        { label: "CAD", value: "CAD" },
-        { label: "AUD", value: "AUD" },
-      ],
-    },
-    {
-      name: "exchangeRate",
-      label: "Exchange rate (1 from = ? to)",
-      defaultValue: "0.92",
-      min: 0,
-      step: 0.0001,
-      type: "number",
-    },
-    {
-      name: "conversionFeePercent",
-      label: "Conversion fee (%)",
-      defaultValue: "0",
-      min: 0,
-      step: 0.01,
-      type: "number",
-    },
-  ],
-  "crypto-profit-calculator": [
-    { name: "buyPrice", label: "Buy price (USD)", defaultValue: "60000", min: 0, step: 0.01, type: "number" },
-    { name: "sellPrice", label: "Sell price (USD)", defaultValue: "68000", min: 0, step: 0.01, type: "number" },
-    { name: "quantity", label: "Quantity", defaultValue: "0.2", min: 0, step: 0.0001, type: "number" },
-    {
-      name: "tradingFeePercent",
-      label: "Fee per trade (%)",
-      defaultValue: "0.25",
-      min: 0,
-      step: 0.01,
-      type: "number",
-    },
-  ],
-  "credit-card-payoff-calculator": [
-    { name: "balance", label: "Current balance (USD)", defaultValue: "8500", min: 0, step: 10, type: "number" },
-    { name: "apr", label: "APR (%)", defaultValue: "21.9", min: 0, step: 0.1, type: "number" },
-    { name: "monthlyPayment", label: "Monthly payment (USD)", defaultValue: "300", min: 1, step: 1, type: "number" },
-  ],
-  "salary-after-tax-calculator": [
-    {
-      name: "annualSalary",
-      label: "Gross annual salary (USD)",
-      defaultValue: "85000",
-      min: 0,
-      step: 100,
-      type: "number",
-    },
-    {
-      name: "federalTaxRate",
-      label: "Federal tax rate (%)",
-      defaultValue: "18",
-      min: 0,
-      step: 0.1,
-      type: "number",
-    },
-    {
-      name: "stateTaxRate",
-      label: "State tax rate (%)",
-      defaultValue: "6",
-      min: 0,
-      step: 0.1,
-      type: "number",
-    },
-    {
-      name: "retirementPercent",
-      label: "Retirement contribution (%)",
-      defaultValue: "6",
-      min: 0,
-      step: 0.1,
-      type: "number",
-    },
-    {
-      name: "monthlyBenefitsCost",
-      label: "Monthly deductions (USD)",
-      defaultValue: "220",
-      min: 0,
-      step: 1,
-      type: "number",
-    },
-  ],
-  "roi-calculator": [
-    { name: "investment", label: "Initial investment (USD)", defaultValue: "2000", min: 0, step: 10, type: "number" },
-    { name: "returns", label: "Final returns (USD)", defaultValue: "2600", min: 0, step: 10, type: "number" },
-  ],
-  "profit-margin-calculator": [
-    { name: "revenue", label: "Revenue (USD)", defaultValue: "1000", min: 0, step: 1, type: "number" },
-    { name: "cost", label: "Cost (USD)", defaultValue: "650", min: 0, step: 1, type: "number" },
-  ],
-  "markup-calculator": [
-    { name: "cost", label: "Unit cost (USD)", defaultValue: "35", min: 0, step: 0.01, type: "number" },
-    { name: "markupPercent", label: "Target markup (%)", defaultValue: "50", min: 0, step: 0.1, type: "number" },
-  ],
-  "vat-calculator": [
-    { name: "amount", label: "Base amount (USD)", defaultValue: "100", min: 0, step: 0.01, type: "number" },
-    { name: "vatRate", label: "VAT rate (%)", defaultValue: "20", min: 0, step: 0.1, type: "number" },
-  ],
-  "bmi-calculator": [
-    { name: "weightKg", label: "Weight (kg)", defaultValue: "70", min: 1, step: 0.1, type: "number" },
-    { name: "heightCm", label: "Height (cm)", defaultValue: "175", min: 30, step: 0.1, type: "number" },
-  ],
-  "body-fat-calculator": [
-    {
-      name: "sex",
-      label: "Sex",
-      defaultValue: "male",
-      type: "select",
-      options: [
-        { label: "Male", value: "male" },
-        { label: "Female", value: "female" },
-      ],
-    },
-    { name: "weightKg", label: "Weight (kg)", defaultValue: "75", min: 1, step: 0.1, type: "number" },
-    { name: "heightCm", label: "Height (cm)", defaultValue: "178", min: 100, step: 0.1, type: "number" },
-    { name: "neckCm", label: "Neck (cm)", defaultValue: "38", min: 10, step: 0.1, type: "number" },
-    { name: "waistCm", label: "Waist (cm)", defaultValue: "86", min: 20, step: 0.1, type: "number" },
-    { name: "hipCm", label: "Hip (cm, female)", defaultValue: "98", min: 20, step: 0.1, type: "number" },
-  ],
-  "calorie-needs-calculator": [
-    {
-      name: "sex",
-      label: "Sex",
-      defaultValue: "female",
-      type: "select",
-      options: [
-        { label: "Female", value: "female" },
-        { label: "Male", value: "male" },
-      ],
-    },
-    { name: "age", label: "Age", defaultValue: "30", min: 1, step: 1, type: "number" },
-    { name: "weightKg", label: "Weight (kg)", defaultValue: "65", min: 1, step: 0.1, type: "number" },
-    { name: "heightCm", label: "Height (cm)", defaultValue: "168", min: 30, step: 0.1, type: "number" },
-    {
-      name: "activityFactor",
-      label: "Activity level",
-      defaultValue: "1.375",
-      type: "select",
-      options: [
-        { label: "Sedentary", value: "1.2" },
-        { label: "Lightly active", value: "1.375" },
-        { label: "Moderately active", value: "1.55" },
-        { label: "Very active", value: "1.725" },
-      ],
-    },
-  ],
-  "water-intake-calculator": [
-    { name: "weightKg", label: "Weight (kg)", defaultValue: "70", min: 1, step: 0.1, type: "number" },
-    { name: "activityMinutes", label: "Exercise minutes/day", defaultValue: "30", min: 0, step: 1, type: "number" },
-  ],
-  "age-calculator": [
-    { name: "birthDate", label: "Date of birth", defaultValue: "1995-01-15", type: "date" },
-    {
-      name: "asOfDate",
-      label: "As of date (optional)",
-      defaultValue: "",
-      type: "date",
-      helper: "Leave empty to calculate age as of today.",
-    },
-  ],
-  "date-difference-calculator": [
-    { name: "startDate", label: "Start date", defaultValue: "2026-01-01", type: "date" },
-    { name: "endDate", label: "End date", defaultValue: "2026-12-31", type: "date" },
-    {
-      name: "includeEndDate",
-      label: "Count mode",
-      defaultValue: "no",
-      type: "select",
-      options: [
-        { label: "Exclusive (exclude end date)", value: "no" },
-        { label: "Inclusive (include end date)", value: "yes" },
-      ],
-      helper: "Inclusive mode counts both start and end dates.",
-    },
-  ],
-  "pregnancy-due-date-calculator": [
-    { name: "lmpDate", label: "First day of last period", defaultValue: "2026-01-01", type: "date" },
-    { name: "cycleLengthDays", label: "Cycle length (days)", defaultValue: "28", min: 20, step: 1, type: "number" },
-  ],
-  "savings-goal-calculator": [
-    { name: "targetAmount", label: "Target amount (USD)", defaultValue: "50000", min: 1, step: 100, type: "number" },
-    { name: "currentSavings", label: "Current savings (USD)", defaultValue: "5000", min: 0, step: 100, type: "number" },
-    { name: "years", label: "Years to goal", defaultValue: "5", min: 0.1, step: 0.1, type: "number" },
-    { name: "annualReturn", label: "Expected annual return (%)", defaultValue: "5", min: 0, step: 0.1, type: "number" },
-  ],
-  "break-even-calculator": [
-    { name: "fixedCosts", label: "Fixed costs (USD)", defaultValue: "15000", min: 0, step: 100, type: "number" },
-    { name: "variableCostPerUnit", label: "Variable cost/unit (USD)", defaultValue: "20", min: 0, step: 0.01, type: "number" },
-    { name: "unitPrice", label: "Selling price/unit (USD)", defaultValue: "45", min: 0, step: 0.01, type: "number" },
-  ],
-  "startup-cost-estimator": [
-    { name: "oneTimeCosts", label: "One-time setup costs (USD)", defaultValue: "25000", min: 0, step: 100, type: "number" },
-    { name: "monthlyBurn", label: "Monthly operating burn (USD)", defaultValue: "12000", min: 0, step: 100, type: "number" },
-    { name: "runwayMonths", label: "Runway target (months)", defaultValue: "12", min: 1, step: 1, type: "number" },
-    { name: "contingencyPercent", label: "Contingency buffer (%)", defaultValue: "15", min: 0, step: 1, type: "number" },
-  ],
-  "freelance-rate-calculator": [
-    {
-      name: "targetMonthlyIncome",
-      label: "Target monthly income (USD)",
-      defaultValue: "4000",
-      min: 0,
-      step: 50,
-      type: "number",
-    },
-    { name: "monthlyExpenses", label: "Monthly expenses (USD)", defaultValue: "1500", min: 0, step: 50, type: "number" },
-    {
-      name: "billableHoursPerMonth",
-      label: "Billable hours/month",
-      defaultValue: "80",
-      min: 1,
-      step: 1,
-      type: "number",
-    },
-    { name: "desiredProfitPercent", label: "Desired profit (%)", defaultValue: "20", min: 0, step: 1, type: "number" },
-  ],
-};
-
 interface CalculatorPreset {
   label: string;
   values: Record<string, string>;
@@ -1164,6 +720,26 @@ function safeNumberValue(value: unknown): number {
   return Number.isFinite(parsed) ? parsed : 0;
 }
 
+function getRateLimitMessage(response: Response): string | null {
+  if (response.status !== 429) return null;
+  const retryAfter = Number.parseInt(response.headers.get("retry-after") ?? "", 10);
+  return Number.isFinite(retryAfter) && retryAfter > 0
+    ? `Rate limit reached. Try again in ${retryAfter} second${retryAfter === 1 ? "" : "s"}.`
+    : "Rate limit reached. Try again shortly.";
+}
+
+async function fetchWithRateLimitRetry(input: string, init: RequestInit = {}, maxWaitSeconds = 15): Promise<Response> {
+  for (let attempt = 0; ; attempt += 1) {
+    const response = await fetch(input, init);
+    const retryAfter = Number.parseInt(response.headers.get("retry-after") ?? "", 10);
+    if (response.status !== 429 || attempt >= 2 || !Number.isFinite(retryAfter) || retryAfter > maxWaitSeconds) {
+      return response;
+    }
+    await new Promise((resolve) => setTimeout(resolve, retryAfter * 1000));
+    if (init.signal?.aborted) return response;
+  }
+}
+
 function stringifyRows(rows: ResultRow[]): string {
   return rows.map((row) => `${row.label}: ${row.value}`).join("\n");
 }
@@ -18437,6 +18013,16 @@ function CronGeneratorTool() {
   );
 }
 
+interface HttpRedirectHop {
+  url: string;
+  status: number;
+  statusText: string;
+  location: string | null;
+  timingMs: number;
+  address: string;
+  methodUsed: "HEAD" | "GET";
+}
+
 interface HttpStatusCheckResult {
   url: string;
   method: "HEAD" | "GET";
@@ -18448,6 +18034,10 @@ interface HttpStatusCheckResult {
   redirected?: boolean;
   contentType?: string;
   contentLength?: string;
+  hops: HttpRedirectHop[];
+  redirectIssue?: "loop" | "too-many" | null;
+  headers: Array<[string, string]>;
+  security?: SecurityHeaderReport;
   error?: string;
   checkedAt: number;
 }
@@ -18461,6 +18051,8 @@ interface HttpStatusHistoryEntry {
 }
 
 const HTTP_STATUS_EXAMPLES = ["https://example.com", "https://utiliora.com", "https://vercel.com"];
+const HTTP_STATUS_MAX_URLS = 30;
+const HTTP_STATUS_CONCURRENCY = 4;
 
 function getStatusTone(status?: number, error?: string): "ok" | "warn" | "bad" | "info" {
   if (error) return "bad";
@@ -18471,15 +18063,34 @@ function getStatusTone(status?: number, error?: string): "ok" | "warn" | "bad" |
   return "bad";
 }
 
+function getSecurityGradeTone(grade?: string): "ok" | "warn" | "bad" | "info" {
+  if (!grade) return "info";
+  if (grade.startsWith("A")) return "ok";
+  if (grade === "B" || grade === "C") return "warn";
+  return "bad";
+}
+
+function describeRedirectIssue(issue?: "loop" | "too-many" | null): string {
+  if (issue === "loop") return "Redirect loop";
+  if (issue === "too-many") return "Too many redirects";
+  return "";
+}
+
 function HttpStatusCheckerTool() {
   const historyStorageKey = "utiliora-http-status-history-v1";
   const [urlInput, setUrlInput] = useState("https://example.com");
   const [method, setMethod] = useState<"HEAD" | "GET">("HEAD");
   const [results, setResults] = useState<HttpStatusCheckResult[]>([]);
+  const [selectedKey, setSelectedKey] = useState("");
   const [history, setHistory] = useState<HttpStatusHistoryEntry[]>([]);
   const [loading, setLoading] = useState(false);
   const [statusMessage, setStatusMessage] = useState("Enter one URL per line to run checks.");
 
+  const selectedResult = useMemo(
+    () => results.find((result) => `${result.url}-${result.checkedAt}` === selectedKey) ?? results[0] ?? null,
+    [results, selectedKey],
+  );
+
   useEffect(() => {
     try {
       const raw = localStorage.getItem(historyStorageKey);
@@ -18501,12 +18112,73 @@ function HttpStatusCheckerTool() {
     }
   }, [history, historyStorageKey]);
 
+  const checkUrl = useCallback(
+    async (targetUrl: string): Promise<HttpStatusCheckResult> => {
+      try {
+        const response = await fetchWithRateLimitRetry(
+          `/api/http-status?url=${encodeURIComponent(targetUrl)}&method=${encodeURIComponent(method)}`,
+          { cache: "no-store" },
+          30,
+        );
+        const rateLimitMessage = getRateLimitMessage(response);
+        if (rateLimitMessage) {
+          return { url: targetUrl, method, ok: false, hops: [], headers: [], error: rateLimitMessage, checkedAt: Date.now() };
+        }
+        const payload = (await response.json()) as {
+          ok: boolean;
+          status?: number;
+          statusText?: string;
+          error?: string;
+          timingMs?: number;
+          finalUrl?: string;
+          redirected?: boolean;
+          contentType?: string;
+          contentLength?: string;
+          hops?: HttpRedirectHop[];
+          redirectIssue?: "loop" | "too-many" | null;
+          headers?: Array<[string, string]>;
+          security?: SecurityHeaderReport;
+        };
+        return {
+          url: targetUrl,
+          method,
+          ok: payload.ok,
+          status: payload.status,
+          statusText: payload.statusText,
+          error: payload.error,
+          timingMs: payload.timingMs,
+          finalUrl: payload.finalUrl,
+          redirected: payload.redirected,
+          contentType: payload.contentType,
+          contentLength: payload.contentLength,
+          hops: payload.hops ?? [],
+          redirectIssue: payload.redirectIssue,
+          headers: payload.headers ?? [],
+          security: payload.security,
+          checkedAt: Date.now(),
+        };
+      } catch {
+        return {
+          url: targetUrl,
+          method,
+          ok: false,
+          hops: [],
+          headers: [],
+          error: "Request failed before receiving a response.",
+          checkedAt: Date.now(),
+        };
+      }
+    },
+    [method],
+  );
+
   const runChecks = useCallback(
     async (overrideTargets?: string[]) => {
       const targets = (overrideTargets ?? urlInput.split(/\r?\n/g))
         .map((item) => item.trim())
         .filter(Boolean);
-      const deduped = Array.from(new Set(targets)).slice(0, 10);
+      const unique = Array.from(new Set(targets));
+      const deduped = unique.slice(0, HTTP_STATUS_MAX_URLS);
 
       if (deduped.length === 0) {
         setStatusMessage("Enter at least one valid URL.");
@@ -18516,55 +18188,31 @@ function HttpStatusCheckerTool() {
       setLoading(true);
       setStatusMessage(`Checking ${deduped.length} URL${deduped.length === 1 ? "" : "s"}...`);
 
-      const nextResults = await Promise.all(
-        deduped.map(async (targetUrl): Promise<HttpStatusCheckResult> => {
-          try {
-            const response = await fetch(
-              `/api/http-status?url=${encodeURIComponent(targetUrl)}&method=${encodeURIComponent(method)}`,
-              { cache: "no-store" },
-            );
-            const payload = (await response.json()) as {
-              ok: boolean;
-              status?: number;
-              statusText?: string;
-              error?: string;
-              timingMs?: number;
-              finalUrl?: string;
-              redirected?: boolean;
-              contentType?: string;
-              contentLength?: string;
-            };
-            return {
-              url: targetUrl,
-              method,
-              ok: payload.ok,
-              status: payload.status,
-              statusText: payload.statusText,
-              error: payload.error,
-              timingMs: payload.timingMs,
-              finalUrl: payload.finalUrl,
-              redirected: payload.redirected,
-              contentType: payload.contentType,
-              contentLength: payload.contentLength,
-              checkedAt: Date.now(),
-            };
-          } catch {
-            return {
-              url: targetUrl,
-              method,
-              ok: false,
-              error: "Request failed before receiving a response.",
-              checkedAt: Date.now(),
-            };
+      const nextResults: HttpStatusCheckResult[] = new Array(deduped.length);
+      let nextIndex = 0;
+      let completed = 0;
+      await Promise.all(
+        Array.from({ length: Math.min(HTTP_STATUS_CONCURRENCY, deduped.length) }, async () => {
+          while (nextIndex < deduped.length) {
+            const index = nextIndex;
+            nextIndex += 1;
+            nextResults[index] = await checkUrl(deduped[index]);
+            completed += 1;
+            if (deduped.length > 1) setStatusMessage(`Checked ${completed} of ${deduped.length} URLs...`);
           }
         }),
       );
 
       setResults(nextResults);
+      setSelectedKey(nextResults[0] ? `${nextResults[0].url}-${nextResults[0].checkedAt}` : "");
       setLoading(false);
 
       const successes = nextResults.filter((result) => result.ok).length;
-      setStatusMessage(`Completed ${nextResults.length} checks. ${successes} succeeded, ${nextResults.length - successes} failed.`);
+      setStatusMessage(
+        `Completed ${nextResults.length} checks. ${successes} succeeded, ${nextResults.length - successes} failed.${
+          unique.length > deduped.length ? ` Only the first ${HTTP_STATUS_MAX_URLS} URLs were checked.` : ""
+        }`,
+      );
       trackEvent("tool_http_check", { count: nextResults.length, method, successes });
 
       const historyRows = nextResults.map((result) => ({
@@ -18578,18 +18226,58 @@ function HttpStatusCheckerTool() {
       }));
       setHistory((current) => [...historyRows, ...current].slice(0, 30));
     },
-    [method, urlInput],
+    [checkUrl, method, urlInput],
   );
 
+  const exportCsv = useCallback(() => {
+    const rows = results.map((result) => [
+      result.url,
+      result.method,
+      result.status ? `${result.status} ${result.statusText ?? ""}`.trim() : "",
+      result.finalUrl ?? "",
+      String(Math.max(0, result.hops.length - 1)),
+      result.hops.map((hop) => `${hop.status} ${hop.url}`).join(" -> "),
+      describeRedirectIssue(result.redirectIssue),
+      result.security?.grade ?? "",
+      result.security ? String(result.security.score) : "",
+      result.security?.checks.filter((check) => check.status === "fail").map((check) => check.label).join("; ") ?? "",
+      result.timingMs?.toString() ?? "",
+      result.contentType ?? "",
+      result.error ?? "",
+    ]);
+    downloadTextFile(
+      "http-status-results.csv",
+      buildCsvText(
+        [
+          "URL",
+          "Method",
+          "Status",
+          "Final URL",
+          "Redirects",
+          "Redirect chain",
+          "Redirect issue",
+          "Security grade",
+          "Security score",
+          "Failing headers",
+          "Timing (ms)",
+          "Content-Type",
+          "Error",
+        ],
+        rows,
+      ),
+      "text/csv;charset=utf-8;",
+    );
+  }, [results]);
+
   return (
     <section className="tool-surface">
       <ToolHeading
         icon={Link2}
         title="HTTP status checker"
-        subtitle="Run batch URL checks with response timing, redirect insight, and reusable check history."
+        subtitle="Trace redirect chains hop by hop, inspect response headers, and grade security headers for up to 30 URLs."
       />
       <label className="field">
-        <span>URLs (one per line)</span>
+        <span>URLs (one per line, up to {HTTP_STATUS_MAX_URLS})</span>
         <textarea value={urlInput} onChange={(event) => setUrlInput(event.target.value)} rows={5} />
       </label>
       <div className="field-grid">
@@ -18612,26 +18300,7 @@ function HttpStatusCheckerTool() {
         >
           Load examples
         </button>
-        <button
-          className="action-button secondary"
-          type="button"
-          onClick={() =>
-            downloadCsv(
-              "http-status-results.csv",
-              ["URL", "Method", "Status", "Timing (ms)", "Final URL", "Content-Type", "Error"],
-              results.map((result) => [
-                result.url,
-                result.method,
-                result.status ? `${result.status} ${result.statusText ?? ""}`.trim() : "",
-                result.timingMs?.toString() ?? "",
-                result.finalUrl ?? "",
-                result.contentType ?? "",
-                result.error ?? "",
-              ]),
-            )
-          }
-          disabled={results.length === 0}
-        >
+        <button className="action-button secondary" type="button" onClick={exportCsv} disabled={results.length === 0}>
           <Download size={15} />
           CSV
         </button>
@@ -18646,9 +18315,11 @@ function HttpStatusCheckerTool() {
                 <tr>
                   <th>URL</th>
                   <th>Status</th>
+                  <th>Redirects</th>
+                  <th>Security</th>
                   <th>Time</th>
                   <th>Final URL</th>
-                  <th>Type</th>
+                  <th />
                 </tr>
               </thead>
               <tbody>
@@ -18662,9 +18333,35 @@ function HttpStatusCheckerTool() {
                           : result.error ?? "Failed"}
                       </span>
                     </td>
+                    <td>
+                      {Math.max(0, result.hops.length - 1)}
+                      {result.redirectIssue ? (
+                        <>
+                          {" "}
+                          <span className="status-badge bad">{describeRedirectIssue(result.redirectIssue)}</span>
+                        </>
+                      ) : null}
+                    </td>
+                    <td>
+                      {result.security ? (
+                        <span className={`status-badge ${getSecurityGradeTone(result.security.grade)}`}>
+                          {result.security.grade} ({result.security.score})
+                        </span>
+                      ) : (
+                        "-"
+                      )}
+                    </td>
                     <td>{result.timingMs ? `${result.timingMs} ms` : "-"}</td>
                     <td>{result.finalUrl ?? "-"}</td>
-                    <td>{result.contentType ?? "-"}</td>
+                    <td>
+                      <button
+                        className="action-button secondary"
+                        type="button"
+                        onClick={() => setSelectedKey(`${result.url}-${result.checkedAt}`)}
+                      >
+                        Details
+                      </button>
+                    </td>
                   </tr>
                 ))}
               </tbody>
@@ -18672,6 +18369,128 @@ function HttpStatusCheckerTool() {
           </div>
         </div>
       ) : null}
+      {selectedResult ? (
+        <div className="mini-panel">
+          <div className="panel-head">
+            <h3>{selectedResult.url}</h3>
+            {selectedResult.security ? (
+              <span className={`status-badge ${getSecurityGradeTone(selectedResult.security.grade)}`}>
+                Security grade {selectedResult.security.grade} ({selectedResult.security.score}/100)
+              </span>
+            ) : null}
+          </div>
+          <h4>Redirect chain</h4>
+          {selectedResult.hops.length === 0 ? (
+            <p className="supporting-text">{selectedResult.error ?? "No hops recorded."}</p>
+          ) : (
+            <div className="table-scroll">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>#</th>
+                    <th>URL</th>
+                    <th>Status</th>
+                    <th>Location</th>
+                    <th>Time</th>
+                    <th>IP</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {selectedResult.hops.map((hop, index) => (
+                    <tr key={`${hop.url}-${index}`}>
+                      <td>{index + 1}</td>
+                      <td>{hop.url}</td>
+                      <td>
+                        <span className={`status-badge ${getStatusTone(hop.status)}`}>
+                          {`${hop.status} ${hop.statusText}`.trim()}
+                        </span>
+                        {hop.methodUsed !== selectedResult.method ? ` (${hop.methodUsed})` : ""}
+                      </td>
+                      <td>{hop.location ?? "-"}</td>
+                      <td>{hop.timingMs} ms</td>
+                      <td>{hop.address}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {selectedResult.redirectIssue ? (
+            <p className="supporting-text">
+              {selectedResult.redirectIssue === "loop"
+                ? "The chain redirects back to a URL it already visited, so browsers will show a redirect error."
+                : "The chain exceeded 10 redirects and was stopped; most browsers and crawlers give up earlier."}
+            </p>
+          ) : !selectedResult.ok && selectedResult.hops.length > 0 ? (
+            <p className="supporting-text">Stopped: {selectedResult.error ?? "Request failed."}</p>
+          ) : null}
+          {selectedResult.security ? (
+            <>
+              <h4>Security headers</h4>
+              <ul className="plain-list">
+                {selectedResult.security.checks.map((check) => (
+                  <li key={check.id}>
+                    <div className="history-line">
+                      <strong>
+                        <span
+                          className={`status-badge ${check.status === "pass" ? "ok" : check.status === "warn" ? "warn" : "bad"}`}
+                        >
+                          {check.status}
+                        </span>{" "}
+                        {check.label}
+                      </strong>
+                      <span className="supporting-text">{check.detail}</span>
+                      {check.value ? <code>{check.value}</code> : null}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+              {selectedResult.security.recommendations.length > 0 ? (
+                <>
+                  <h4>Recommendations</h4>
+                  <ul className="plain-list">
+                    {selectedResult.security.recommendations.map((recommendation) => (
+                      <li key={recommendation}>{recommendation}</li>
+                    ))}
+                  </ul>
+                </>
+              ) : null}
+            </>
+          ) : null}
+          {selectedResult.headers.length > 0 ? (
+            <>
+              <div className="panel-head">
+                <h4>Response headers ({selectedResult.headers.length})</h4>
+                <button
+                  className="action-button secondary"
+                  type="button"
+                  onClick={async () => {
+                    const ok = await copyTextToClipboard(
+                      selectedResult.headers.map(([name, value]) => `${name}: ${value}`).join("\n"),
+                    );
+                    setStatusMessage(ok ? "Response headers copied." : "Unable to copy headers.");
+                  }}
+                >
+                  <Copy size={15} />
+                  Copy
+                </button>
+              </div>
+              <div className="table-scroll">
+                <table className="table">
+                  <tbody>
+                    {selectedResult.headers.map(([name, value], index) => (
+                      <tr key={`${name}-${index}`}>
+                        <th>{name}</th>
+                        <td>{value}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          ) : null}
+        </div>
+      ) : null}
       <div className="mini-panel">
         <div className="panel-head">
           <h3>Recent checks</h3>
@@ -18715,7 +18534,23 @@ function HttpStatusCheckerTool() {
 
 type DnsResolver = "google" | "cloudflare";
 
-type DnsRecordType = "A" | "AAAA" | "CNAME" | "MX" | "TXT" | "NS" | "SOA" | "CAA";
+type DnsRecordType =
+  | "A"
+  | "AAAA"
+  | "CNAME"
+  | "MX"
+  | "TXT"
+  | "NS"
+  | "SOA"
+  | "CAA"
+  | "DS"
+  | "DNSKEY"
+  | "RRSIG"
+  | "SRV"
+  | "PTR"
+  | "HTTPS"
+  | "SVCB"
+  | "TLSA";
 
 interface DnsAnswerRecord {
   name: string;
@@ -18748,6 +18583,8 @@ interface DnsLookupPayload {
   types?: DnsRecordType[];
   results?: Partial<Record<DnsRecordType, DnsTypeResult>>;
   dmarc?: DnsTypeResult;
+  reverse?: { ip: string; name: string };
+  dnssec?: DnssecChainReport;
   insights?: {
     hasA: boolean;
     hasAAAA: boolean;
@@ -18788,15 +18625,43 @@ interface DnsResolverComparison {
   differences: DnsResolverComparisonRow[];
 }
 
-const DNS_RECORD_TYPE_OPTIONS: DnsRecordType[] = ["A", "AAAA", "CNAME", "MX", "TXT", "NS", "SOA", "CAA"];
+const DNS_RECORD_TYPE_OPTIONS: DnsRecordType[] = [
+  "A",
+  "AAAA",
+  "CNAME",
+  "MX",
+  "TXT",
+  "NS",
+  "SOA",
+  "CAA",
+  "DS",
+  "DNSKEY",
+  "RRSIG",
+  "SRV",
+  "PTR",
+  "HTTPS",
+  "SVCB",
+  "TLSA",
+];
 
 const DNS_PRESETS: Array<{ label: string; types: DnsRecordType[] }> = [
   { label: "All", types: [...DNS_RECORD_TYPE_OPTIONS] },
-  { label: "Web stack", types: ["A", "AAAA", "CNAME", "TXT", "CAA"] },
+  { label: "Web stack", types: ["A", "AAAA", "CNAME", "TXT", "CAA", "HTTPS"] },
   { label: "Email stack", types: ["MX", "TXT", "NS", "SOA", "CAA"] },
   { label: "Routing core", types: ["A", "AAAA", "CNAME", "NS"] },
+  { label: "DNSSEC", types: ["DS", "DNSKEY", "RRSIG", "SOA"] },
+  { label: "Services", types: ["SRV", "HTTPS", "SVCB", "TLSA"] },
 ];
 
+const DNS_SNAPSHOT_STORAGE_KEY = "utiliora-dns-snapshots-v1";
+const DNS_SNAPSHOT_LIMIT = 20;
+
+function getDnssecTone(status: DnssecStatus): "ok" | "warn" | "bad" | "info" {
+  if (status === "secure") return "ok";
+  if (status === "bogus") return "bad";
+  return status === "insecure" ? "warn" : "info";
+}
+
 function getAlternateResolver(resolver: DnsResolver): DnsResolver {
   return resolver === "google" ? "cloudflare" : "google";
 }
@@ -18813,6 +18678,12 @@ function DnsLookupTool() {
   const [result, setResult] = useState<DnsLookupPayload | null>(null);
   const [comparison, setComparison] = useState<DnsResolverComparison | null>(null);
   const [history, setHistory] = useState<DnsLookupHistoryEntry[]>([]);
+  const [validateDnssec, setValidateDnssec] = useState(false);
+  const [snapshots, setSnapshots] = useState<DnsSnapshot[]>([]);
+  const [diffBeforeId, setDiffBeforeId] = useState("");
+  const [diffAfterId, setDiffAfterId] = useState("current");
+  const [ignoreSignatures, setIgnoreSignatures] = useState(true);
+  const [ignoreTtl, setIgnoreTtl] = useState(true);
 
   useEffect(() => {
     try {
@@ -18835,6 +18706,27 @@ function DnsLookupTool() {
     }
   }, [history, historyStorageKey]);
 
+  useEffect(() => {
+    try {
+      const raw = localStorage.getItem(DNS_SNAPSHOT_STORAGE_KEY);
+      if (!raw) return;
+      const parsed = JSON.parse(raw) as DnsSnapshot[];
+      if (Array.isArray(parsed)) {
+        setSnapshots(parsed.slice(0, DNS_SNAPSHOT_LIMIT));
+      }
+    } catch {
+      // Ignore malformed snapshots.
+    }
+  }, []);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(DNS_SNAPSHOT_STORAGE_KEY, JSON.stringify(snapshots.slice(0, DNS_SNAPSHOT_LIMIT)));
+    } catch {
+      // Ignore storage failures.
+    }
+  }, [snapshots]);
+
   const runLookup = useCallback(
     async (override?: { domain?: string; resolver?: DnsResolver; types?: DnsRecordType[] }) => {
       const targetDomain = (override?.domain ?? domain).trim();
@@ -18862,6 +18754,7 @@ function DnsLookupTool() {
             resolver: selectedResolver,
             types: targetTypes.join(","),
             timeoutMs: String(timeoutMs),
+            dnssec: validateDnssec && selectedResolver === targetResolver ? "1" : "0",
           });
           const response = await fetch(`/api/dns-lookup?${params.toString()}`, { cache: "no-store" });
           return (await response.json()) as DnsLookupPayload;
@@ -18950,7 +18843,7 @@ function DnsLookupTool() {
         setLoading(false);
       }
     },
-    [compareResolvers, domain, resolver, selectedTypes, timeoutMs],
+    [compareResolvers, domain, resolver, selectedTypes, timeoutMs, validateDnssec],
   );
 
   const toggleType = (type: DnsRecordType) => {
@@ -18979,17 +18872,100 @@ function DnsLookupTool() {
 
   const renderedTypes = result?.types ?? selectedTypes;
 
+  const currentSnapshot = useMemo(
+    () =>
+      result?.ok && result.results && result.domain
+        ? createDnsSnapshot({
+            id: "current",
+            label: "Current lookup",
+            domain: result.domain,
+            resolver: result.resolver ?? resolver,
+            types: result.types ?? [],
+            results: result.results,
+            takenAt: result.checkedAt ? new Date(result.checkedAt) : undefined,
+          })
+        : null,
+    [resolver, result],
+  );
+
+  const snapshotDiff = useMemo(() => {
+    const findSnapshot = (id: string) =>
+      id === "current" ? currentSnapshot : snapshots.find((entry) => entry.id === id) ?? null;
+    const before = findSnapshot(diffBeforeId);
+    const after = findSnapshot(diffAfterId);
+    if (!before || !after || before === after) return null;
+    return {
+      before,
+      after,
+      diff: diffDnsSnapshots(before, after, { ignoreTypes: ignoreSignatures ? ["RRSIG"] : [], ignoreTtl }),
+    };
+  }, [currentSnapshot, diffAfterId, diffBeforeId, ignoreSignatures, ignoreTtl, snapshots]);
+
+  const saveSnapshot = () => {
+    if (!currentSnapshot) return;
+    const snapshot: DnsSnapshot = {
+      ...currentSnapshot,
+      id: crypto.randomUUID(),
+      label: `${currentSnapshot.domain} ${new Date().toLocaleString("en-US")}`,
+    };
+    setSnapshots((current) => [snapshot, ...current].slice(0, DNS_SNAPSHOT_LIMIT));
+    setDiffBeforeId(snapshot.id);
+    setDiffAfterId("current");
+    setStatus(
+      `Saved snapshot of ${formatNumericValue(snapshot.records.length)} records. Re-run the lookup later to diff against it.`,
+    );
+  };
+
+  const importSnapshot = async (file: File | null) => {
+    if (!file) return;
+    try {
+      const snapshot = parseDnsSnapshot(await readTextFileWithLimit(file));
+      const imported = snapshots.some((entry) => entry.id === snapshot.id)
+        ? { ...snapshot, id: crypto.randomUUID() }
+        : snapshot;
+      setSnapshots((current) => [imported, ...current].slice(0, DNS_SNAPSHOT_LIMIT));
+      setDiffBeforeId(imported.id);
+      setStatus(`Imported snapshot "${imported.label}".`);
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : "Unable to import snapshot.");
+    }
+  };
+
+  const exportDiffCsv = () => {
+    if (!snapshotDiff) return;
+    downloadTextFile(
+      "dns-snapshot-diff.csv",
+      buildCsvText(
+        ["Change", "Type", "Name", "Data", "TTL before", "TTL after"],
+        snapshotDiff.diff.rows.map((row) => [
+          row.change,
+          row.type,
+          row.name,
+          row.data,
+          row.beforeTtl !== null ? String(row.beforeTtl) : "",
+          row.afterTtl !== null ? String(row.afterTtl) : "",
+        ]),
+      ),
+      "text/csv;charset=utf-8;",
+    );
+  };
+
   return (
     <section className="tool-surface">
       <ToolHeading
         icon={Search}
         title="DNS lookup"
-        subtitle="Inspect DNS records with resolver controls, DNSSEC signals, email checks, history, and exports."
+        subtitle="Inspect DNS records, validate the DNSSEC chain of trust, run reverse lookups, and diff zone snapshots."
       />
       <div className="field-grid">
         <label className="field">
-          <span>Domain</span>
-          <input type="text" value={domain} onChange={(event) => setDomain(event.target.value)} placeholder="example.com" />
+          <span>Domain or IP</span>
+          <input
+            type="text"
+            value={domain}
+            onChange={(event) => setDomain(event.target.value)}
+            placeholder="example.com or 8.8.8.8"
+          />
         </label>
         <label className="field">
           <span>Resolver</span>
@@ -19019,6 +18995,14 @@ function DnsLookupTool() {
           />
           Compare with secondary resolver
         </label>
+        <label className="checkbox">
+          <input
+            type="checkbox"
+            checked={validateDnssec}
+            onChange={(event) => setValidateDnssec(event.target.checked)}
+          />
+          Validate DNSSEC chain
+        </label>
       </div>
       <div className="preset-row">
         <span className="supporting-text">Record presets:</span>
@@ -19061,6 +19045,9 @@ function DnsLookupTool() {
           <Download size={15} />
           Export CSV
         </button>
+        <button className="action-button secondary" type="button" onClick={saveSnapshot} disabled={!currentSnapshot}>
+          Save snapshot
+        </button>
       </div>
       {status ? <p className="supporting-text">{status}</p> : null}
       {result?.ok ? (
@@ -19068,6 +19055,8 @@ function DnsLookupTool() {
           <ResultList
             rows={[
               { label: "Checked domain", value: result.domain ?? "-" },
+              ...(result.reverse ? [{ label: "Reverse lookup for", value: result.reverse.ip }] : []),
+              ...(result.dnssec ? [{ label: "DNSSEC chain", value: result.dnssec.status }] : []),
               { label: "Resolver", value: result.resolver ?? "-" },
               { label: "Total answers", value: formatNumericValue(result.insights?.totalAnswers ?? 0) },
               { label: "Response time", value: `${formatNumericValue(result.durationMs ?? 0)} ms` },
@@ -19131,6 +19120,100 @@ function DnsLookupTool() {
               </div>
             ) : null}
           </div>
+          {result.dnssec ? (
+            <div className="mini-panel">
+              <div className="panel-head">
+                <h3>DNSSEC chain of trust</h3>
+                <span className={`status-badge ${getDnssecTone(result.dnssec.status)}`}>{result.dnssec.status}</span>
+              </div>
+              <div className="table-scroll">
+                <table className="table">
+                  <thead>
+                    <tr>
+                      <th>Zone</th>
+                      <th>Status</th>
+                      <th>DNSKEY</th>
+                      <th>DS</th>
+                      <th>Earliest signature expiry</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.dnssec.zones.map((zone) => {
+                      const expiries = zone.signatures
+                        .map((signature) => signature.expiration)
+                        .filter((value): value is string => Boolean(value))
+                        .sort();
+                      return (
+                        <tr key={zone.zone}>
+                          <td>{zone.zone}</td>
+                          <td>
+                            <span className={`status-badge ${getDnssecTone(zone.status)}`}>{zone.status}</span>
+                          </td>
+                          <td>
+                            {zone.keys.length
+                              ? zone.keys
+                                  .map((key) => `${key.keyTag} ${key.role} ${key.algorithmName}${key.revoked ? " (revoked)" : ""}`)
+                                  .join(", ")
+                              : "-"}
+                          </td>
+                          <td>
+                            {zone.delegationSigners.length
+                              ? zone.delegationSigners
+                                  .map(
+                                    (signer) =>
+                                      `${signer.keyTag} digest ${signer.digestType} ${
+                                        signer.matched === null ? "unchecked" : signer.matched ? "matched" : "no match"
+                                      }`,
+                                  )
+                                  .join(", ")
+                              : zone.zone === "." ? "Trust anchor" : "-"}
+                          </td>
+                          <td>{expiries[0] ?? "-"}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              {result.dnssec.zones.some((zone) => zone.messages.length) ? (
+                <ul className="plain-list">
+                  {result.dnssec.zones.flatMap((zone) =>
+                    zone.messages.map((message) => (
+                      <li key={`${zone.zone}-${message}`}>
+                        <strong>{zone.zone}</strong> {message}
+                      </li>
+                    )),
+                  )}
+                </ul>
+              ) : null}
+              {result.dnssec.warnings.length ? (
+                <ul className="plain-list">
+                  {result.dnssec.warnings.map((warning) => (
+                    <li key={warning} className="error-text">
+                      {warning}
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
+              {result.dnssec.recordSignatures.length ? (
+                <>
+                  <p className="supporting-text">Record signatures</p>
+                  <ul className="plain-list">
+                    {result.dnssec.recordSignatures.map((signature, index) => (
+                      <li key={`${signature.owner}-${signature.typeCovered}-${signature.keyTag}-${index}`}>
+                        <span className={`status-badge ${signature.status === "valid" ? "ok" : signature.status === "expiring" ? "warn" : signature.status === "unknown" ? "info" : "bad"}`}>
+                          {signature.status}
+                        </span>{" "}
+                        {describeSignature(signature)} Key tag {signature.keyTag}, signer {signature.signer}.
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              ) : (
+                <p className="supporting-text">No RRSIG records were returned for the queried types.</p>
+              )}
+            </div>
+          ) : null}
           {comparison?.secondaryPayload.ok ? (
             <div className="mini-panel">
               <div className="panel-head">
@@ -19234,6 +19317,183 @@ function DnsLookupTool() {
           })}
         </>
       ) : null}
+      <div className="mini-panel">
+        <div className="panel-head">
+          <h3>Snapshots + diff</h3>
+          <button
+            className="action-button secondary"
+            type="button"
+            onClick={() => {
+              setSnapshots([]);
+              setDiffBeforeId("");
+            }}
+            disabled={!snapshots.length}
+          >
+            Clear snapshots
+          </button>
+        </div>
+        <label className="field">
+          <span>Import snapshot JSON</span>
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={(event) => {
+              void importSnapshot(event.target.files?.[0] ?? null);
+              event.target.value = "";
+            }}
+          />
+        </label>
+        {snapshots.length === 0 ? (
+          <p className="supporting-text">Save a snapshot after a lookup to track record changes over time.</p>
+        ) : (
+          <ul className="plain-list">
+            {snapshots.map((snapshot) => (
+              <li key={snapshot.id}>
+                <div className="history-line">
+                  <strong>{snapshot.label}</strong>
+                  <span className="supporting-text">
+                    {snapshot.domain} | {snapshot.resolver || "-"} | {formatNumericValue(snapshot.records.length)} records |{" "}
+                    {new Date(snapshot.takenAt).toLocaleString("en-US")}
+                  </span>
+                </div>
+                <div className="button-row">
+                  <button
+                    className="action-button secondary"
+                    type="button"
+                    onClick={() =>
+                      downloadTextFile(
+                        `dns-snapshot-${snapshot.domain}.json`,
+                        JSON.stringify(snapshot, null, 2),
+                        "application/json",
+                      )
+                    }
+                  >
+                    <Download size={15} />
+                    Download JSON
+                  </button>
+                  <button
+                    className="action-button secondary"
+                    type="button"
+                    onClick={() => {
+                      setSnapshots((current) => current.filter((entry) => entry.id !== snapshot.id));
+                      if (diffBeforeId === snapshot.id) setDiffBeforeId("");
+                      if (diffAfterId === snapshot.id) setDiffAfterId("current");
+                    }}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="field-grid">
+          <label className="field">
+            <span>Before</span>
+            <select value={diffBeforeId} onChange={(event) => setDiffBeforeId(event.target.value)}>
+              <option value="">Choose snapshot</option>
+              {currentSnapshot ? <option value="current">Current lookup</option> : null}
+              {snapshots.map((snapshot) => (
+                <option key={snapshot.id} value={snapshot.id}>
+                  {snapshot.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="field">
+            <span>After</span>
+            <select value={diffAfterId} onChange={(event) => setDiffAfterId(event.target.value)}>
+              <option value="current">Current lookup</option>
+              {snapshots.map((snapshot) => (
+                <option key={snapshot.id} value={snapshot.id}>
+                  {snapshot.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="checkbox">
+            <input
+              type="checkbox"
+              checked={ignoreSignatures}
+              onChange={(event) => setIgnoreSignatures(event.target.checked)}
+            />
+            Ignore RRSIG churn
+          </label>
+          <label className="checkbox">
+            <input type="checkbox" checked={ignoreTtl} onChange={(event) => setIgnoreTtl(event.target.checked)} />
+            Ignore TTL changes
+          </label>
+        </div>
+        {snapshotDiff ? (
+          <>
+            {snapshotDiff.before.domain !== snapshotDiff.after.domain ? (
+              <p className="error-text">
+                Comparing different names: {snapshotDiff.before.domain} vs {snapshotDiff.after.domain}.
+              </p>
+            ) : null}
+            <ResultList
+              rows={[
+                { label: "Added", value: formatNumericValue(snapshotDiff.diff.added) },
+                { label: "Removed", value: formatNumericValue(snapshotDiff.diff.removed) },
+                { label: "TTL changed", value: formatNumericValue(snapshotDiff.diff.ttlChanged) },
+                { label: "Unchanged", value: formatNumericValue(snapshotDiff.diff.unchanged) },
+                {
+                  label: "Types not in both",
+                  value: snapshotDiff.diff.skippedTypes.length ? snapshotDiff.diff.skippedTypes.join(", ") : "None",
+                },
+              ]}
+            />
+            {snapshotDiff.diff.rows.length ? (
+              <>
+                <div className="table-scroll">
+                  <table className="table">
+                    <thead>
+                      <tr>
+                        <th>Change</th>
+                        <th>Type</th>
+                        <th>Name</th>
+                        <th>Data</th>
+                        <th>TTL</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {snapshotDiff.diff.rows.map((row, index) => (
+                        <tr key={`${row.change}-${row.type}-${row.data}-${index}`}>
+                          <td>
+                            <span
+                              className={`status-badge ${row.change === "added" ? "ok" : row.change === "removed" ? "bad" : "warn"}`}
+                            >
+                              {row.change === "ttl" ? "TTL" : row.change}
+                            </span>
+                          </td>
+                          <td>{row.type}</td>
+                          <td>{row.name || "-"}</td>
+                          <td>{row.data}</td>
+                          <td>
+                            {row.change === "ttl"
+                              ? `${row.beforeTtl ?? "-"} -> ${row.afterTtl ?? "-"}`
+                              : (row.beforeTtl ?? row.afterTtl ?? "-")}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <div className="button-row">
+                  <button className="action-button secondary" type="button" onClick={exportDiffCsv}>
+                    <Download size={15} />
+                    Diff CSV
+                  </button>
+                </div>
+              </>
+            ) : (
+              <p className="supporting-text">No record changes between the selected snapshots.</p>
+            )}
+          </>
+        ) : (
+          <p className="supporting-text">Pick two different snapshots, or a snapshot and the current lookup, to diff.</p>
+        )}
+      </div>
       <div className="mini-panel">
         <div className="panel-head">
           <h3>Recent lookups</h3>
@@ -19277,6 +19537,474 @@ function DnsLookupTool() {
   );
 }
 
+interface EmailDeliverabilityPayload {
+  ok: boolean;
+  error?: string;
+  checkedAt?: string;
+  durationMs?: number;
+  dnsQueries?: number;
+  report?: EmailDeliverabilityReport;
+}
+
+interface EmailDeliverabilityRow {
+  domain: string;
+  ok: boolean;
+  error?: string;
+  report?: EmailDeliverabilityReport;
+  durationMs?: number;
+  checkedAt: number;
+}
+
+const EMAIL_DELIVERABILITY_MAX_DOMAINS = 50;
+const EMAIL_DELIVERABILITY_CONCURRENCY = 3;
+
+function getEmailAuthSeverityTone(severity: EmailAuthSeverity): "bad" | "warn" | "info" {
+  if (severity === "critical" || severity === "high") return "bad";
+  return severity === "medium" ? "warn" : "info";
+}
+
+function getDeliverabilityScoreTone(score: number): "ok" | "warn" | "bad" {
+  if (score >= 85) return "ok";
+  return score >= 60 ? "warn" : "bad";
+}
+
+function describeSpfSummary(report: EmailDeliverabilityReport): string {
+  if (!report.spf.record) return "Missing";
+  if (report.spf.recordCount > 1) return `${report.spf.recordCount} records`;
+  return `${report.spf.lookupCount}/10 lookups, ${report.spf.allQualifier ?? "no "}all`;
+}
+
+function describeDmarcSummary(report: EmailDeliverabilityReport): string {
+  if (!report.dmarc.recordCount) return "Missing";
+  return `p=${report.dmarc.policy ?? "?"}${report.dmarc.pct < 100 ? ` pct=${report.dmarc.pct}` : ""}`;
+}
+
+function SpfTreeView({ node }: { node: SpfNode }) {
+  return (
+    <li>
+      <div className="history-line">
+        <strong>
+          {node.domain}{" "}
+          <span className="supporting-text">
+            {node.lookups} lookup{node.lookups === 1 ? "" : "s"}
+          </span>
+        </strong>
+        {node.error ? <span className="status-badge bad">{node.error}</span> : <code>{node.record}</code>}
+      </div>
+      {node.children.length > 0 ? (
+        <ul className="plain-list">
+          {node.children.map((child, index) => (
+            <SpfTreeView key={`${child.domain}-${index}`} node={child} />
+          ))}
+        </ul>
+      ) : null}
+    </li>
+  );
+}
+
+function EmailDeliverabilityCheckerTool() {
+  const settingsStorageKey = "utiliora-email-deliverability-v1";
+  const [domainInput, setDomainInput] = useState("utiliora.com");
+  const [selectorInput, setSelectorInput] = useState("google, selector1, selector2");
+  const [resolver, setResolver] = useState<DnsResolver>("google");
+  const [rows, setRows] = useState<EmailDeliverabilityRow[]>([]);
+  const [selectedDomain, setSelectedDomain] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [status, setStatus] = useState("Enter one sending domain per line and the DKIM selectors your providers use.");
+
+  const selectedRow = useMemo(
+    () => rows.find((row) => row.domain === selectedDomain) ?? rows.find((row) => row.report) ?? null,
+    [rows, selectedDomain],
+  );
+
+  useEffect(() => {
+    try {
+      const raw = localStorage.getItem(settingsStorageKey);
+      if (!raw) return;
+      const parsed = JSON.parse(raw) as { domains?: string; selectors?: string; resolver?: DnsResolver };
+      if (typeof parsed.domains === "string") setDomainInput(parsed.domains);
+      if (typeof parsed.selectors === "string") setSelectorInput(parsed.selectors);
+      if (parsed.resolver === "google" || parsed.resolver === "cloudflare") setResolver(parsed.resolver);
+    } catch {
+      // Ignore malformed storage.
+    }
+  }, [settingsStorageKey]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(
+        settingsStorageKey,
+        JSON.stringify({ domains: domainInput, selectors: selectorInput, resolver }),
+      );
+    } catch {
+      // Ignore storage failures.
+    }
+  }, [domainInput, resolver, selectorInput, settingsStorageKey]);
+
+  const runChecks = useCallback(async () => {
+    const domains = Array.from(
+      new Set(
+        domainInput
+          .split(/[\r\n,]+/g)
+          .map((entry) => entry.trim().toLowerCase())
+          .filter(Boolean),
+      ),
+    );
+    const targets = domains.slice(0, EMAIL_DELIVERABILITY_MAX_DOMAINS);
+    if (!targets.length) {
+      setStatus("Enter at least one domain.");
+      return;
+    }
+    const selectors = normalizeDkimSelectors(selectorInput);
+
+    setLoading(true);
+    setStatus(`Checking ${targets.length} domain${targets.length === 1 ? "" : "s"}...`);
+    const nextRows: EmailDeliverabilityRow[] = new Array(targets.length);
+    let nextIndex = 0;
+    let completed = 0;
+    await Promise.all(
+      Array.from({ length: Math.min(EMAIL_DELIVERABILITY_CONCURRENCY, targets.length) }, async () => {
+        while (nextIndex < targets.length) {
+          const index = nextIndex;
+          nextIndex += 1;
+          const domain = targets[index];
+          try {
+            const params = new URLSearchParams({ domain, resolver, selectors: selectors.join(",") });
+            const response = await fetchWithRateLimitRetry(
+              `/api/email-deliverability?${params.toString()}`,
+              { cache: "no-store" },
+              30,
+            );
+            const rateLimitMessage = getRateLimitMessage(response);
+            const payload = rateLimitMessage
+              ? { ok: false, error: rateLimitMessage }
+              : ((await response.json()) as EmailDeliverabilityPayload);
+            nextRows[index] = {
+              domain: payload.report?.domain ?? domain,
+              ok: payload.ok && Boolean(payload.report),
+              error: payload.error,
+              report: payload.report,
+              durationMs: payload.durationMs,
+              checkedAt: Date.now(),
+            };
+          } catch {
+            nextRows[index] = { domain, ok: false, error: "Request failed before receiving a response.", checkedAt: Date.now() };
+          }
+          completed += 1;
+          if (targets.length > 1) setStatus(`Checked ${completed} of ${targets.length} domains...`);
+        }
+      }),
+    );
+
+    setRows(nextRows);
+    setSelectedDomain(nextRows.find((row) => row.report)?.domain ?? "");
+    setLoading(false);
+    const failed = nextRows.filter((row) => !row.ok).length;
+    const critical = nextRows.reduce(
+      (sum, row) => sum + (row.report?.issues.filter((issue) => issue.severity === "critical").length ?? 0),
+      0,
+    );
+    setStatus(
+      `Checked ${nextRows.length} domain${nextRows.length === 1 ? "" : "s"}: ${critical} critical issue${
+        critical === 1 ? "" : "s"
+      }${failed ? `, ${failed} failed` : ""}.${
+        domains.length > targets.length ? ` Only the first ${EMAIL_DELIVERABILITY_MAX_DOMAINS} domains were checked.` : ""
+      }`,
+    );
+    trackEvent("tool_email_deliverability_check", { count: nextRows.length, selectors: selectors.length, critical });
+  }, [domainInput, resolver, selectorInput]);
+
+  const exportFixList = useCallback(() => {
+    const csvRows = rows.flatMap((row) =>
+      row.report
+        ? row.report.issues.map((issue) => [row.domain, issue.severity, issue.area.toUpperCase(), issue.message, issue.fix])
+        : [[row.domain, "error", "", row.error ?? "Check failed.", ""]],
+    );
+    downloadTextFile(
+      "email-deliverability-fixes.csv",
+      buildCsvText(["Domain", "Severity", "Area", "Issue", "Fix"], csvRows),
+      "text/csv;charset=utf-8;",
+    );
+  }, [rows]);
+
+  const exportSummary = useCallback(() => {
+    const csvRows = rows.map((row) => {
+      const report = row.report;
+      if (!report) return [row.domain, "", "", "", "", "", "", "", "", "", "", row.error ?? "Check failed."];
+      const counts = EMAIL_AUTH_SEVERITY_ORDER.map((severity) =>
+        String(report.issues.filter((issue) => issue.severity === severity).length),
+      );
+      return [
+        report.domain,
+        String(report.score),
+        describeSpfSummary(report),
+        describeDmarcSummary(report),
+        `${report.dkim.filter((entry) => entry.valid).length}/${report.dkim.length}`,
+        report.mtaSts.policy?.mode ?? (report.mtaSts.record ? "policy error" : "none"),
+        report.tlsRpt.record ? "yes" : "no",
+        report.bimi.record ? "yes" : "no",
+        ...counts,
+        "",
+      ];
+    });
+    downloadTextFile(
+      "email-deliverability-summary.csv",
+      buildCsvText(
+        ["Domain", "Score", "SPF", "DMARC", "DKIM valid", "MTA-STS", "TLS-RPT", "BIMI", "Critical", "High", "Medium", "Low", "Error"],
+        csvRows,
+      ),
+      "text/csv;charset=utf-8;",
+    );
+  }, [rows]);
+
+  const report = selectedRow?.report ?? null;
+
+  return (
+    <section className="tool-surface">
+      <ToolHeading
+        icon={Search}
+        title="Email deliverability checker"
+        subtitle="Audit SPF, DMARC, DKIM, MTA-STS, TLS-RPT, and BIMI across your sending domains with a prioritized fix list."
+      />
+      <div className="field-grid">
+        <label className="field">
+          <span>Domains (one per line, up to {EMAIL_DELIVERABILITY_MAX_DOMAINS})</span>
+          <textarea value={domainInput} onChange={(event) => setDomainInput(event.target.value)} rows={5} />
+        </label>
+        <div>
+          <label className="field">
+            <span>DKIM selectors (comma separated)</span>
+            <input value={selectorInput} onChange={(event) => setSelectorInput(event.target.value)} />
+          </label>
+          <label className="field">
+            <span>Resolver</span>
+            <select value={resolver} onChange={(event) => setResolver(event.target.value as DnsResolver)}>
+              <option value="google">Google DNS</option>
+              <option value="cloudflare">Cloudflare DNS</option>
+            </select>
+          </label>
+        </div>
+      </div>
+      <div className="button-row">
+        <button className="action-button" type="button" onClick={() => void runChecks()} disabled={loading}>
+          {loading ? "Checking..." : "Check domains"}
+        </button>
+        <button className="action-button secondary" type="button" onClick={exportFixList} disabled={!rows.length}>
+          <Download size={15} />
+          Fix list CSV
+        </button>
+        <button className="action-button secondary" type="button" onClick={exportSummary} disabled={!rows.length}>
+          <Download size={15} />
+          Summary CSV
+        </button>
+      </div>
+      <p className="supporting-text">{status}</p>
+      {rows.length > 0 ? (
+        <div className="mini-panel">
+          <h3>Domains</h3>
+          <div className="table-scroll">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Domain</th>
+                  <th>Score</th>
+                  <th>SPF</th>
+                  <th>DMARC</th>
+                  <th>DKIM</th>
+                  <th>MTA-STS</th>
+                  <th>Issues</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.domain}>
+                    <td>{row.domain}</td>
+                    {row.report ? (
+                      <>
+                        <td>
+                          <span className={`status-badge ${getDeliverabilityScoreTone(row.report.score)}`}>
+                            {row.report.score}
+                          </span>
+                        </td>
+                        <td>{describeSpfSummary(row.report)}</td>
+                        <td>{describeDmarcSummary(row.report)}</td>
+                        <td>
+                          {row.report.dkim.filter((entry) => entry.valid).length}/{row.report.dkim.length}
+                        </td>
+                        <td>{row.report.mtaSts.policy?.mode ?? (row.report.mtaSts.record ? "policy error" : "-")}</td>
+                        <td>
+                          {EMAIL_AUTH_SEVERITY_ORDER.filter((severity) =>
+                            row.report?.issues.some((issue) => issue.severity === severity),
+                          ).map((severity) => (
+                            <span key={severity} className={`status-badge ${getEmailAuthSeverityTone(severity)}`}>
+                              {row.report?.issues.filter((issue) => issue.severity === severity).length} {severity}
+                            </span>
+                          ))}
+                        </td>
+                        <td>
+                          <button
+                            className="action-button secondary"
+                            type="button"
+                            onClick={() => setSelectedDomain(row.domain)}
+                          >
+                            Details
+                          </button>
+                        </td>
+                      </>
+                    ) : (
+                      <td colSpan={7}>
+                        <span className="status-badge bad">{row.error ?? "Check failed."}</span>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : null}
+      {report ? (
+        <>
+          <div className="mini-panel">
+            <div className="panel-head">
+              <h3>Fix list for {report.domain}</h3>
+              <span className={`status-badge ${getDeliverabilityScoreTone(report.score)}`}>Score {report.score}/100</span>
+            </div>
+            {report.issues.length === 0 ? (
+              <p className="supporting-text">No issues found. SPF, DMARC, and DKIM are in good shape.</p>
+            ) : (
+              <ol className="plain-list">
+                {report.issues.map((issue, index) => (
+                  <li key={`${issue.area}-${index}`}>
+                    <div className="history-line">
+                      <strong>
+                        <span className={`status-badge ${getEmailAuthSeverityTone(issue.severity)}`}>{issue.severity}</span>{" "}
+                        {issue.area.toUpperCase()}: {issue.message}
+                      </strong>
+                      <span className="supporting-text">{issue.fix}</span>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+          <div className="mini-panel">
+            <h3>SPF</h3>
+            {report.spf.tree ? (
+              <>
+                <p className="supporting-text">
+                  {report.spf.lookupCount} of 10 DNS lookups used, {report.spf.voidLookups} void lookup
+                  {report.spf.voidLookups === 1 ? "" : "s"}.
+                </p>
+                <ul className="plain-list">
+                  <SpfTreeView node={report.spf.tree} />
+                </ul>
+              </>
+            ) : (
+              <p className="supporting-text">{report.spf.record ?? "No SPF record found."}</p>
+            )}
+          </div>
+          <div className="mini-panel">
+            <h3>DMARC</h3>
+            {report.dmarc.record ? (
+              <>
+                <code>{report.dmarc.record}</code>
+                <div className="table-scroll">
+                  <table className="table">
+                    <tbody>
+                      {Object.entries(report.dmarc.tags).map(([tag, value]) => (
+                        <tr key={tag}>
+                          <th>{tag}</th>
+                          <td>{value}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            ) : (
+              <p className="supporting-text">No DMARC record at _dmarc.{report.domain}.</p>
+            )}
+          </div>
+          <div className="mini-panel">
+            <h3>DKIM selectors</h3>
+            {report.dkim.length === 0 ? (
+              <p className="supporting-text">No selectors were checked.</p>
+            ) : (
+              <div className="table-scroll">
+                <table className="table">
+                  <thead>
+                    <tr>
+                      <th>Selector</th>
+                      <th>Status</th>
+                      <th>Key</th>
+                      <th>Record</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.dkim.map((entry) => (
+                      <tr key={entry.selector}>
+                        <td>{entry.name}</td>
+                        <td>
+                          <span className={`status-badge ${entry.valid ? "ok" : "bad"}`}>
+                            {entry.valid ? (entry.testing ? "Valid (testing)" : "Valid") : entry.revoked ? "Revoked" : entry.record ? "Invalid" : "Not found"}
+                          </span>
+                        </td>
+                        <td>{entry.keyBits ? `${entry.keyType.toUpperCase()} ${entry.keyBits}-bit` : "-"}</td>
+                        <td>{entry.record ? `${entry.record.slice(0, 80)}${entry.record.length > 80 ? "..." : ""}` : "-"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+          <div className="mini-panel">
+            <h3>Transport and brand records</h3>
+            <ul className="plain-list">
+              <li>
+                <div className="history-line">
+                  <strong>MX</strong>
+                  <span className="supporting-text">
+                    {report.nullMx ? "Null MX (domain does not receive mail)" : report.mxHosts.join(", ") || "None"}
+                  </span>
+                </div>
+              </li>
+              <li>
+                <div className="history-line">
+                  <strong>MTA-STS</strong>
+                  <span className="supporting-text">{report.mtaSts.record ?? "Not published"}</span>
+                  {report.mtaSts.policy ? (
+                    <span className="supporting-text">
+                      Policy: mode {report.mtaSts.policy.mode || "?"}, max_age {report.mtaSts.policy.maxAge ?? "?"}, mx{" "}
+                      {report.mtaSts.policy.mx.join(", ") || "none"}
+                    </span>
+                  ) : report.mtaSts.policyError ? (
+                    <span className="supporting-text">Policy: {report.mtaSts.policyError}</span>
+                  ) : null}
+                </div>
+              </li>
+              <li>
+                <div className="history-line">
+                  <strong>TLS-RPT</strong>
+                  <span className="supporting-text">{report.tlsRpt.record ?? "Not published"}</span>
+                </div>
+              </li>
+              <li>
+                <div className="history-line">
+                  <strong>BIMI</strong>
+                  <span className="supporting-text">{report.bimi.record ?? "Not published"}</span>
+                </div>
+              </li>
+            </ul>
+          </div>
+        </>
+      ) : null}
+    </section>
+  );
+}
+
 interface SslChainRow {
   depth: number;
   subject: string;
@@ -20731,7 +21459,7 @@ function InternetSpeedTestTool() {
           signal: controller.signal,
         });
         if (!pingResponse.ok) {
-          throw new Error("Latency probe failed.");
+          throw new Error(getRateLimitMessage(pingResponse) ?? "Latency probe failed.");
         }
         await pingResponse.arrayBuffer();
         const latencyMs = performance.now() - pingStart;
@@ -20743,7 +21471,7 @@ function InternetSpeedTestTool() {
           signal: controller.signal,
         });
         if (!response.ok) {
-          throw new Error("Download request failed.");
+          throw new Error(getRateLimitMessage(response) ?? "Download request failed.");
         }
         const buffer = await response.arrayBuffer();
         const durationMs = Math.max(1, performance.now() - downloadStart);
@@ -20795,7 +21523,8 @@ function InternetSpeedTestTool() {
         error !== null &&
         "name" in error &&
         (error as { name?: string }).name === "AbortError";
-      setStatus(aborted ? "Speed test stopped." : "Speed test failed. Try again.");
+      const rateLimited = error instanceof Error && error.message.startsWith("Rate limit reached");
+      setStatus(aborted ? "Speed test stopped." : rateLimited ? error.message : "Speed test failed. Try again.");
       trackEvent("tool_internet_speed_test", { success: false });
       if (!nextSamples.length) {
         setProgress(0);
@@ -21002,6 +21731,8 @@ function DeveloperTool({ id }: { id: DeveloperToolId }) {
       return <HttpStatusCheckerTool />;
     case "dns-lookup":
       return <DnsLookupTool />;
+    case "email-deliverability-checker":
+      return <EmailDeliverabilityCheckerTool />;
     case "ssl-checker":
       return <SslCheckerTool />;
     case "whois-lookup":
@@ -25716,6 +26447,7 @@ interface PdfJpgPagePreview {
 interface PdfJsPageViewport {
   width: number;
   height: number;
+  transform?: number[];
 }
 
 interface PdfJsTextItem {
@@ -25724,10 +26456,12 @@ interface PdfJsTextItem {
   transform?: number[];
   width?: number;
   height?: number;
+  fontName?: string;
 }
 
 interface PdfJsTextContent {
   items: PdfJsTextItem[];
+  styles?: Record<string, { fontFamily?: string }>;
 }
 
 interface PdfJsPage {
@@ -26986,35 +27720,27 @@ interface PdfMergeItem {
   file: File;
   pageCount: number | null;
   sizeBytes: number;
+  pageRange: string;
 }
 
 function PdfMergeTool() {
   const [items, setItems] = useState<PdfMergeItem[]>([]);
   const [outputName, setOutputName] = useState("merged-document");
-  const [renderScalePercent, setRenderScalePercent] = useState(140);
-  const [jpegQuality, setJpegQuality] = useState(0.86);
-  const [fitDpi, setFitDpi] = useState(150);
-  const [maxPages, setMaxPages] = useState(160);
+  const [keepBookmarks, setKeepBookmarks] = useState(true);
+  const [addFileBookmarks, setAddFileBookmarks] = useState(true);
+  const [keepLinks, setKeepLinks] = useState(true);
+  const [keepFormFields, setKeepFormFields] = useState(true);
   const [processing, setProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
   const [status, setStatus] = useState("Upload two or more PDFs to merge.");
-  const [lastOutputSize, setLastOutputSize] = useState<number | null>(null);
-  const [lastOutputPages, setLastOutputPages] = useState(0);
+  const [lastResult, setLastResult] = useState<PdfAssemblyResult | null>(null);
 
   const inspectPdfPageCount = useCallback(async (file: File): Promise<number | null> => {
-    let loadingTask: PdfJsLoadingTask | null = null;
-    let pdfDocument: PdfJsDocument | null = null;
     try {
-      const pdfjs = await loadPdfJsModule();
-      const bytes = await readPdfFileBytes(file);
-      const opened = await openPdfDocumentWithFallback(pdfjs, bytes);
-      loadingTask = opened.loadingTask;
-      pdfDocument = opened.pdfDocument;
-      return pdfDocument.numPages;
+      const { readPdfPageCount } = await import("@/lib/pdf-assembly");
+      return await readPdfPageCount(await readPdfFileBytes(file));
     } catch {
       return null;
-    } finally {
-      await closePdfDocumentResources(loadingTask, pdfDocument);
     }
   }, []);
 
@@ -27039,6 +27765,7 @@ function PdfMergeTool() {
           file,
           pageCount,
           sizeBytes: file.size,
+          pageRange: "all",
         });
       }
 
@@ -27072,11 +27799,14 @@ function PdfMergeTool() {
     setItems((current) => current.filter((item) => item.id !== id));
   }, []);
 
+  const updateItemRange = useCallback((id: string, pageRange: string) => {
+    setItems((current) => current.map((item) => (item.id === id ? { ...item, pageRange } : item)));
+  }, []);
+
   const clearAll = useCallback(() => {
     setItems([]);
     setProgress(0);
-    setLastOutputPages(0);
-    setLastOutputSize(null);
+    setLastResult(null);
     setStatus("Cleared PDF queue.");
   }, []);
 
@@ -27084,10 +27814,17 @@ function PdfMergeTool() {
     () => items.reduce((sum, item) => sum + item.sizeBytes, 0),
     [items],
   );
-  const estimatedSourcePages = useMemo(
-    () => items.reduce((sum, item) => sum + Math.max(0, item.pageCount ?? 0), 0),
+  const selectedPageCounts = useMemo(
+    () =>
+      items.map((item) =>
+        item.pageCount === null ? null : parsePdfPageRanges(item.pageRange, item.pageCount)?.length ?? null,
+      ),
     [items],
   );
+  const estimatedOutputPages = useMemo(
+    () => selectedPageCounts.reduce<number>((sum, count) => sum + (count ?? 0), 0),
+    [selectedPageCounts],
+  );
 
   const mergePdfs = useCallback(async () => {
     if (!items.length) {
@@ -27095,129 +27832,72 @@ function PdfMergeTool() {
       return;
     }
 
+    const invalidItem = items.find(
+      (item) => item.pageCount !== null && !parsePdfPageRanges(item.pageRange, item.pageCount),
+    );
+    if (invalidItem) {
+      setStatus(
+        `Invalid page range for ${invalidItem.file.name}. Use pages 1-${invalidItem.pageCount}, for example 1-3,7,10-`,
+      );
+      return;
+    }
+
     setProcessing(true);
     setProgress(4);
     setStatus("Preparing PDF merge...");
     const startedAt = Date.now();
 
-    let totalProcessedPages = 0;
-    let output: JsPdfType | null = null;
-
     try {
-      const pdfjs = await loadPdfJsModule();
-      const { jsPDF } = await import("jspdf");
-      const safeScale = Math.max(80, Math.min(260, renderScalePercent)) / 100;
-      const safeQuality = Math.max(0.5, Math.min(1, jpegQuality));
-      const safeMaxPages = Math.max(1, Math.min(500, Math.round(maxPages)));
-      const estimatedWorkPages = Math.max(1, Math.min(safeMaxPages, estimatedSourcePages || safeMaxPages));
-
-      let reachedLimit = false;
-
+      const sources: PdfAssemblySource[] = [];
       for (let fileIndex = 0; fileIndex < items.length; fileIndex += 1) {
         const item = items[fileIndex];
-        let loadingTask: PdfJsLoadingTask | null = null;
-        let pdfDocument: PdfJsDocument | null = null;
-        try {
-          setStatus(`Reading ${item.file.name} (${fileIndex + 1}/${items.length})...`);
-          const bytes = await readPdfFileBytes(item.file);
-          const opened = await openPdfDocumentWithFallback(pdfjs, bytes);
-          loadingTask = opened.loadingTask;
-          pdfDocument = opened.pdfDocument;
-          const pages = pdfDocument.numPages;
-
-          for (let pageNumber = 1; pageNumber <= pages; pageNumber += 1) {
-            if (totalProcessedPages >= safeMaxPages) {
-              reachedLimit = true;
-              break;
-            }
-
-            setStatus(
-              `Merging ${item.file.name} page ${pageNumber}/${pages} (${totalProcessedPages + 1}/${safeMaxPages})...`,
-            );
-            const page = await pdfDocument.getPage(pageNumber);
-            const viewport = page.getViewport({ scale: safeScale });
-            const canvas = document.createElement("canvas");
-            canvas.width = Math.max(1, Math.floor(viewport.width));
-            canvas.height = Math.max(1, Math.floor(viewport.height));
-            const context = canvas.getContext("2d");
-            if (!context) {
-              throw new Error("Canvas context unavailable.");
-            }
-            await page.render({ canvasContext: context, viewport }).promise;
-
-            const pageSizeMm = resolvePdfPageSizeMm("fit-image", canvas.width, canvas.height, fitDpi);
-            const landscape = canvas.width > canvas.height;
-            const pageFormat: [number, number] = landscape ? [pageSizeMm[1], pageSizeMm[0]] : pageSizeMm;
-            if (!output) {
-              output = new jsPDF({
-                unit: "mm",
-                format: pageFormat,
-                compress: true,
-              });
-            } else {
-              output.addPage(pageFormat);
-            }
-
-            const pageWidth = output.internal.pageSize.getWidth();
-            const pageHeight = output.internal.pageSize.getHeight();
-            const imageData = canvas.toDataURL("image/jpeg", safeQuality);
-            output.addImage(imageData, "JPEG", 0, 0, pageWidth, pageHeight, undefined, "FAST");
-
-            totalProcessedPages += 1;
-            const progressRatio = Math.min(0.98, totalProcessedPages / estimatedWorkPages);
-            setProgress(Math.round(progressRatio * 100));
-          }
-        } finally {
-          await closePdfDocumentResources(loadingTask, pdfDocument);
-        }
-
-        if (reachedLimit) {
-          break;
-        }
+        setStatus(`Reading ${item.file.name} (${fileIndex + 1}/${items.length})...`);
+        sources.push({
+          name: stripFileExtension(item.file.name) || item.file.name,
+          bytes: await readPdfFileBytes(item.file),
+          pages: item.pageCount === null ? undefined : parsePdfPageRanges(item.pageRange, item.pageCount) ?? undefined,
+        });
+        setProgress(Math.round(((fileIndex + 1) / items.length) * 60));
       }
 
-      if (!output || totalProcessedPages === 0) {
-        setStatus("Could not merge PDFs. Please verify your files.");
-        return;
-      }
+      setStatus("Copying pages, bookmarks and form fields...");
+      const { assemblePdfDocument } = await import("@/lib/pdf-assembly");
+      const filenameBase = stripFileExtension(outputName.trim()) || "merged-document";
+      const result = await assemblePdfDocument(sources, {
+        keepBookmarks,
+        addFileBookmarks,
+        keepLinks,
+        keepFormFields,
+        dedupeResources: true,
+        title: filenameBase,
+      });
 
-      setStatus("Finalizing merged PDF...");
       setProgress(99);
-      const blob = output.output("blob");
-      const filenameBase = stripFileExtension(outputName.trim()) || "merged-document";
       const filename = `${filenameBase}.pdf`;
-      const outputUrl = URL.createObjectURL(blob);
-      const anchor = document.createElement("a");
-      anchor.href = outputUrl;
-      anchor.download = filename;
-      document.body.appendChild(anchor);
-      anchor.click();
-      document.body.removeChild(anchor);
-      URL.revokeObjectURL(outputUrl);
+      downloadBlobFile(filename, new Blob([result.bytes], { type: "application/pdf" }));
 
       const elapsed = ((Date.now() - startedAt) / 1000).toFixed(1);
-      setLastOutputPages(totalProcessedPages);
-      setLastOutputSize(blob.size);
+      setLastResult(result);
       setProgress(100);
-      setStatus(`Merged ${totalProcessedPages} page(s) in ${elapsed}s. Downloaded ${filename}.`);
+      setStatus(`Merged ${result.pageCount} page(s) in ${elapsed}s. Downloaded ${filename}.`);
       trackEvent("tool_pdf_merge_generate", {
         files: items.length,
-        pages: totalProcessedPages,
-        scalePercent: renderScalePercent,
+        pages: result.pageCount,
+        bookmarks: result.bookmarkCount,
       });
-    } catch {
-      setStatus("PDF merge failed. Try fewer/smaller files or lower render scale.");
+    } catch (error) {
+      setStatus(error instanceof Error && error.message ? error.message : "PDF merge failed. Please verify your files.");
     } finally {
       setProcessing(false);
     }
-  }, [estimatedSourcePages, fitDpi, items, jpegQuality, maxPages, outputName, renderScalePercent]);
+  }, [addFileBookmarks, items, keepBookmarks, keepFormFields, keepLinks, outputName]);
 
   return (
     <section className="tool-surface">
       <ToolHeading
         icon={FileText}
         title="PDF merge"
-        subtitle="Combine multiple PDFs in order, then download a single merged file."
+        subtitle="Combine PDFs in order while keeping selectable text, links, bookmarks, and form fields."
       />
 
       <label className="field">
@@ -27230,44 +27910,25 @@ function PdfMergeTool() {
           <span>Output filename</span>
           <input type="text" value={outputName} onChange={(event) => setOutputName(event.target.value)} />
         </label>
-        <label className="field">
-          <span>Render scale ({renderScalePercent}%)</span>
-          <input
-            type="range"
-            min={80}
-            max={260}
-            step={10}
-            value={renderScalePercent}
-            onChange={(event) => setRenderScalePercent(Number(event.target.value))}
-          />
-        </label>
-        <label className="field">
-          <span>JPEG quality ({jpegQuality.toFixed(2)})</span>
-          <input
-            type="range"
-            min={0.5}
-            max={1}
-            step={0.02}
-            value={jpegQuality}
-            onChange={(event) => setJpegQuality(Number(event.target.value))}
-          />
-        </label>
-        <label className="field">
-          <span>Fit DPI ({fitDpi})</span>
-          <input type="range" min={90} max={240} step={5} value={fitDpi} onChange={(event) => setFitDpi(Number(event.target.value))} />
-        </label>
-        <label className="field">
-          <span>Max output pages</span>
-          <input
-            type="number"
-            min={1}
-            max={500}
-            value={maxPages}
-            onChange={(event) => setMaxPages(Number(event.target.value))}
-          />
-        </label>
       </div>
 
+      <label className="checkbox">
+        <input type="checkbox" checked={keepBookmarks} onChange={(event) => setKeepBookmarks(event.target.checked)} />
+        Keep bookmarks from source files
+      </label>
+      <label className="checkbox">
+        <input type="checkbox" checked={addFileBookmarks} onChange={(event) => setAddFileBookmarks(event.target.checked)} />
+        Add one top-level bookmark per file
+      </label>
+      <label className="checkbox">
+        <input type="checkbox" checked={keepLinks} onChange={(event) => setKeepLinks(event.target.checked)} />
+        Keep links (internal links are re-pointed to merged pages)
+      </label>
+      <label className="checkbox">
+        <input type="checkbox" checked={keepFormFields} onChange={(event) => setKeepFormFields(event.target.checked)} />
+        Keep fillable form fields
+      </label>
+
       <div className="button-row">
         <button className="action-button" type="button" onClick={() => void mergePdfs()} disabled={!items.length || processing}>
           {processing ? "Merging..." : "Merge PDFs"}
@@ -27289,10 +27950,14 @@ function PdfMergeTool() {
       <ResultList
         rows={[
           { label: "PDF files loaded", value: formatNumericValue(items.length) },
-          { label: "Estimated source pages", value: formatNumericValue(estimatedSourcePages) },
+          { label: "Selected output pages", value: formatNumericValue(estimatedOutputPages) },
           { label: "Source size total", value: formatBytes(totalInputBytes) },
-          { label: "Last output pages", value: lastOutputPages ? formatNumericValue(lastOutputPages) : "-" },
-          { label: "Last output size", value: lastOutputSize ? formatBytes(lastOutputSize) : "-" },
+          { label: "Last output pages", value: lastResult ? formatNumericValue(lastResult.pageCount) : "-" },
+          { label: "Last output size", value: lastResult ? formatBytes(lastResult.bytes.byteLength) : "-" },
+          { label: "Bookmarks written", value: lastResult ? formatNumericValue(lastResult.bookmarkCount) : "-" },
+          { label: "Links kept", value: lastResult ? formatNumericValue(lastResult.linkCount) : "-" },
+          { label: "Form fields kept", value: lastResult ? formatNumericValue(lastResult.formFieldCount) : "-" },
+          { label: "Shared resources deduplicated", value: lastResult ? formatNumericValue(lastResult.dedupedObjects) : "-" },
         ]}
       />
 
@@ -27306,6 +27971,7 @@ function PdfMergeTool() {
                   <th>#</th>
                   <th>File</th>
                   <th>Pages</th>
+                  <th>Page range</th>
                   <th>Size</th>
                   <th>Actions</th>
                 </tr>
@@ -27315,7 +27981,23 @@ function PdfMergeTool() {
                   <tr key={item.id}>
                     <td>{index + 1}</td>
                     <td>{item.file.name}</td>
-                    <td>{item.pageCount === null ? "Unknown" : formatNumericValue(item.pageCount)}</td>
+                    <td>
+                      {item.pageCount === null
+                        ? "Unknown"
+                        : selectedPageCounts[index] === null
+                          ? `Invalid range / ${formatNumericValue(item.pageCount)}`
+                          : `${formatNumericValue(selectedPageCounts[index] ?? 0)} / ${formatNumericValue(item.pageCount)}`}
+                    </td>
+                    <td>
+                      <input
+                        type="text"
+                        value={item.pageRange}
+                        onChange={(event) => updateItemRange(item.id, event.target.value)}
+                        placeholder="all, 1-3,7,10-"
+                        aria-label={`Page range for ${item.file.name}`}
+                        disabled={processing}
+                      />
+                    </td>
                     <td>{formatBytes(item.sizeBytes)}</td>
                     <td>
                       <div className="button-row">
@@ -27356,10 +28038,11 @@ function PdfMergeTool() {
   );
 }
 
-type PdfSplitMode = "range" | "single-pages" | "fixed-chunk";
+type PdfSplitMode = "range" | "reorder" | "single-pages" | "fixed-chunk";
 
 const PDF_SPLIT_MODE_OPTIONS: Array<{ value: PdfSplitMode; label: string; hint: string }> = [
   { value: "range", label: "Custom range", hint: "Export one PDF from selected pages" },
+  { value: "reorder", label: "Reorder pages", hint: "Export all pages in a new order" },
   { value: "single-pages", label: "Single-page files", hint: "Create one PDF per page" },
   { value: "fixed-chunk", label: "Fixed chunk size", hint: "Split into equal page groups" },
 ];
@@ -27370,11 +28053,10 @@ function PdfSplitTool() {
   const [pageCount, setPageCount] = useState(0);
   const [splitMode, setSplitMode] = useState<PdfSplitMode>("range");
   const [pageRangeInput, setPageRangeInput] = useState("1-3");
+  const [pageOrderInput, setPageOrderInput] = useState("");
   const [chunkSize, setChunkSize] = useState(5);
-  const [renderScalePercent, setRenderScalePercent] = useState(140);
-  const [jpegQuality, setJpegQuality] = useState(0.86);
-  const [fitDpi, setFitDpi] = useState(150);
-  const [maxOutputPages, setMaxOutputPages] = useState(160);
+  const [keepBookmarks, setKeepBookmarks] = useState(true);
+  const [keepLinks, setKeepLinks] = useState(true);
   const [processing, setProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
   const [status, setStatus] = useState("Upload a PDF to split into smaller files.");
@@ -27383,22 +28065,16 @@ function PdfSplitTool() {
   const [lastOutputBytes, setLastOutputBytes] = useState(0);
 
   const inspectPdfMeta = useCallback(async (nextFile: File) => {
-    let loadingTask: PdfJsLoadingTask | null = null;
-    let pdfDocument: PdfJsDocument | null = null;
     try {
       setStatus("Reading PDF metadata...");
-      const pdfjs = await loadPdfJsModule();
-      const bytes = await readPdfFileBytes(nextFile);
-      const opened = await openPdfDocumentWithFallback(pdfjs, bytes);
-      loadingTask = opened.loadingTask;
-      pdfDocument = opened.pdfDocument;
-      setPageCount(pdfDocument.numPages);
-      setStatus(`PDF loaded with ${pdfDocument.numPages} page(s).`);
+      const { readPdfPageCount } = await import("@/lib/pdf-assembly");
+      const nextPageCount = await readPdfPageCount(await readPdfFileBytes(nextFile));
+      setPageCount(nextPageCount);
+      setPageOrderInput(nextPageCount > 1 ? `${nextPageCount}-1` : "1");
+      setStatus(`PDF loaded with ${nextPageCount} page(s).`);
     } catch {
       setPageCount(0);
       setStatus("Could not read PDF metadata.");
-    } finally {
-      await closePdfDocumentResources(loadingTask, pdfDocument);
     }
   }, []);
 
@@ -27439,31 +28115,27 @@ function PdfSplitTool() {
       return;
     }
 
-    const safeMaxOutputPages = Math.max(1, Math.min(500, Math.round(maxOutputPages)));
-    const safeScale = Math.max(80, Math.min(260, renderScalePercent)) / 100;
-    const safeQuality = Math.max(0.5, Math.min(1, jpegQuality));
     const safeChunkSize = Math.max(1, Math.min(200, Math.round(chunkSize || 1)));
+    const allPages = Array.from({ length: pageCount }, (_item, index) => index + 1);
 
     let groups: number[][] = [];
-    if (splitMode === "range") {
-      const pages = parsePageRangeInput(pageRangeInput, pageCount);
+    if (splitMode === "range" || splitMode === "reorder") {
+      const pages = parsePdfPageRanges(splitMode === "range" ? pageRangeInput : pageOrderInput, pageCount);
       if (!pages?.length) {
-        setStatus("Invalid page range. Example: 1-3,5,8");
+        setStatus(`Invalid page range. Use pages 1-${pageCount}, for example 1-3,7,10- or 5-1 for reverse order.`);
         return;
       }
-      groups = [pages.slice(0, safeMaxOutputPages)];
+      groups = [pages];
     } else if (splitMode === "single-pages") {
-      const pages = Array.from({ length: Math.min(pageCount, safeMaxOutputPages) }, (_item, index) => index + 1);
-      groups = pages.map((page) => [page]);
+      groups = allPages.map((page) => [page]);
     } else {
-      const allPages = Array.from({ length: Math.min(pageCount, safeMaxOutputPages) }, (_item, index) => index + 1);
       for (let index = 0; index < allPages.length; index += safeChunkSize) {
         groups.push(allPages.slice(index, index + safeChunkSize));
       }
     }
 
-    const pagesToProcess = groups.flat().slice(0, safeMaxOutputPages);
-    if (!pagesToProcess.length) {
+    const pagesToProcess = groups.reduce((sum, group) => sum + group.length, 0);
+    if (!pagesToProcess) {
       setStatus("No pages selected for split output.");
       return;
     }
@@ -27472,87 +28144,43 @@ function PdfSplitTool() {
     setProgress(3);
     setStatus("Preparing split output...");
 
-    let loadingTask: PdfJsLoadingTask | null = null;
-    let pdfDocument: PdfJsDocument | null = null;
     let processedPages = 0;
     let outputBytes = 0;
 
     try {
-      const pdfjs = await loadPdfJsModule();
-      const { jsPDF } = await import("jspdf");
-      const bytes = await readPdfFileBytes(file);
-      const opened = await openPdfDocumentWithFallback(pdfjs, bytes);
-      loadingTask = opened.loadingTask;
-      pdfDocument = opened.pdfDocument;
+      const { assemblePdfDocument, loadPdfSource } = await import("@/lib/pdf-assembly");
+      const loaded = await loadPdfSource(await readPdfFileBytes(file));
+      const baseName = stripFileExtension(pdfName.trim()) || "split-document";
 
       for (let groupIndex = 0; groupIndex < groups.length; groupIndex += 1) {
         const pages = groups[groupIndex];
         if (!pages.length) continue;
+        setStatus(`Writing split file ${groupIndex + 1}/${groups.length}...`);
+
+        const result = await assemblePdfDocument([{ name: baseName, pages, loaded }], {
+          keepBookmarks,
+          addFileBookmarks: false,
+          keepLinks,
+          keepFormFields: true,
+          dedupeResources: false,
+          title: baseName,
+        });
+        outputBytes += result.bytes.byteLength;
+        processedPages += result.pageCount;
 
-        let outputDoc: JsPdfType | null = null;
-        for (let pageIndex = 0; pageIndex < pages.length; pageIndex += 1) {
-          const pageNumber = pages[pageIndex];
-          setStatus(
-            `Rendering page ${pageNumber} (${processedPages + 1}/${pagesToProcess.length}) for split file ${groupIndex + 1}/${groups.length}...`,
-          );
-
-          const page = await pdfDocument.getPage(pageNumber);
-          const viewport = page.getViewport({ scale: safeScale });
-          const canvas = document.createElement("canvas");
-          canvas.width = Math.max(1, Math.floor(viewport.width));
-          canvas.height = Math.max(1, Math.floor(viewport.height));
-          const context = canvas.getContext("2d");
-          if (!context) {
-            throw new Error("Canvas context unavailable.");
-          }
-          await page.render({ canvasContext: context, viewport }).promise;
-
-          const pageSizeMm = resolvePdfPageSizeMm("fit-image", canvas.width, canvas.height, fitDpi);
-          const landscape = canvas.width > canvas.height;
-          const pageFormat: [number, number] = landscape ? [pageSizeMm[1], pageSizeMm[0]] : pageSizeMm;
-
-          if (!outputDoc) {
-            outputDoc = new jsPDF({
-              unit: "mm",
-              format: pageFormat,
-              compress: true,
-            });
-          } else {
-            outputDoc.addPage(pageFormat);
-          }
-
-          const pageWidth = outputDoc.internal.pageSize.getWidth();
-          const pageHeight = outputDoc.internal.pageSize.getHeight();
-          const imageData = canvas.toDataURL("image/jpeg", safeQuality);
-          outputDoc.addImage(imageData, "JPEG", 0, 0, pageWidth, pageHeight, undefined, "FAST");
-
-          processedPages += 1;
-          const progressRatio = Math.min(0.97, processedPages / Math.max(1, pagesToProcess.length));
-          setProgress(Math.round(progressRatio * 100));
-        }
-
-        if (!outputDoc) continue;
-        const blob = outputDoc.output("blob");
-        outputBytes += blob.size;
-
-        const baseName = stripFileExtension(pdfName.trim()) || "split-document";
         let filename = `${baseName}-part-${groupIndex + 1}.pdf`;
         if (splitMode === "single-pages") {
           filename = `${baseName}-page-${pages[0]}.pdf`;
-        } else if (splitMode === "range" && pages.length) {
+        } else if (splitMode === "reorder") {
+          filename = `${baseName}-reordered.pdf`;
+        } else if (splitMode === "range") {
           const firstPage = pages[0];
           const lastPage = pages[pages.length - 1];
           filename = `${baseName}-pages-${firstPage}${lastPage !== firstPage ? `-${lastPage}` : ""}.pdf`;
         }
 
-        const outputUrl = URL.createObjectURL(blob);
-        const anchor = document.createElement("a");
-        anchor.href = outputUrl;
-        anchor.download = filename;
-        document.body.appendChild(anchor);
-        anchor.click();
-        document.body.removeChild(anchor);
-        URL.revokeObjectURL(outputUrl);
+        downloadBlobFile(filename, new Blob([result.bytes], { type: "application/pdf" }));
+        setProgress(Math.round(Math.min(0.97, processedPages / pagesToProcess) * 100));
         await new Promise((resolve) => setTimeout(resolve, 70));
       }
 
@@ -27566,31 +28194,19 @@ function PdfSplitTool() {
         files: groups.length,
         pages: processedPages,
       });
-    } catch {
-      setStatus("PDF split failed. Try lower scale or fewer pages.");
+    } catch (error) {
+      setStatus(error instanceof Error && error.message ? error.message : "PDF split failed. Please verify your file.");
     } finally {
       setProcessing(false);
-      await closePdfDocumentResources(loadingTask, pdfDocument);
     }
-  }, [
-    chunkSize,
-    file,
-    fitDpi,
-    jpegQuality,
-    maxOutputPages,
-    pageCount,
-    pageRangeInput,
-    pdfName,
-    renderScalePercent,
-    splitMode,
-  ]);
+  }, [chunkSize, file, keepBookmarks, keepLinks, pageCount, pageOrderInput, pageRangeInput, pdfName, splitMode]);
 
   return (
     <section className="tool-surface">
       <ToolHeading
         icon={FileText}
         title="PDF split"
-        subtitle="Split PDFs by custom range, fixed chunk size, or single-page export mode."
+        subtitle="Split or reorder PDFs by page range without flattening text, links, or bookmarks."
       />
 
       <label className="field">
@@ -27616,8 +28232,15 @@ function PdfSplitTool() {
         {splitMode === "range" ? (
           <label className="field">
             <span>Page range</span>
-            <input type="text" value={pageRangeInput} onChange={(event) => setPageRangeInput(event.target.value)} placeholder="1-3,5,8" />
-            <small className="supporting-text">Use commas and ranges. Example: 1-3,5,8</small>
+            <input type="text" value={pageRangeInput} onChange={(event) => setPageRangeInput(event.target.value)} placeholder="1-3,7,10-" />
+            <small className="supporting-text">Use commas and ranges. Open ranges run to the end. Example: 1-3,7,10-</small>
+          </label>
+        ) : null}
+        {splitMode === "reorder" ? (
+          <label className="field">
+            <span>New page order</span>
+            <input type="text" value={pageOrderInput} onChange={(event) => setPageOrderInput(event.target.value)} placeholder="3,1,2,4-" />
+            <small className="supporting-text">Pages are written in the order listed. Example: 3,1,2,4- or 10-1 to reverse.</small>
           </label>
         ) : null}
         {splitMode === "fixed-chunk" ? (
@@ -27628,28 +28251,18 @@ function PdfSplitTool() {
         ) : null}
       </div>
 
-      <div className="field-grid">
-        <label className="field">
-          <span>Render scale ({renderScalePercent}%)</span>
-          <input type="range" min={80} max={260} step={10} value={renderScalePercent} onChange={(event) => setRenderScalePercent(Number(event.target.value))} />
-        </label>
-        <label className="field">
-          <span>JPEG quality ({jpegQuality.toFixed(2)})</span>
-          <input type="range" min={0.5} max={1} step={0.02} value={jpegQuality} onChange={(event) => setJpegQuality(Number(event.target.value))} />
-        </label>
-        <label className="field">
-          <span>Fit DPI ({fitDpi})</span>
-          <input type="range" min={90} max={240} step={5} value={fitDpi} onChange={(event) => setFitDpi(Number(event.target.value))} />
-        </label>
-        <label className="field">
-          <span>Max output pages</span>
-          <input type="number" min={1} max={500} value={maxOutputPages} onChange={(event) => setMaxOutputPages(Number(event.target.value))} />
-        </label>
-      </div>
+      <label className="checkbox">
+        <input type="checkbox" checked={keepBookmarks} onChange={(event) => setKeepBookmarks(event.target.checked)} />
+        Keep bookmarks that point to exported pages
+      </label>
+      <label className="checkbox">
+        <input type="checkbox" checked={keepLinks} onChange={(event) => setKeepLinks(event.target.checked)} />
+        Keep links (links to removed pages are dropped)
+      </label>
 
       <div className="button-row">
         <button className="action-button" type="button" disabled={!file || processing || !pageCount} onClick={() => void splitPdf()}>
-          {processing ? "Splitting..." : "Split PDF"}
+          {processing ? "Splitting..." : splitMode === "reorder" ? "Reorder PDF" : "Split PDF"}
         </button>
       </div>
 
@@ -31921,7 +32534,7 @@ function DocumentTranslatorTool() {
       let resolvedDetectedSource = "";
 
       for (let index = 0; index < chunks.length; index += 1) {
-        const response = await fetch("/api/text-translate", {
+        const response = await fetchWithRateLimitRetry("/api/text-translate", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({ text: chunks[index], sourceLanguage, targetLanguage }),
@@ -37327,6 +37940,7 @@ interface InvoiceLineItem {
   description: string;
   quantity: string;
   unitPrice: string;
+  taxCategory: EInvoiceTaxCategory;
 }
 
 interface InvoiceData {
@@ -37337,9 +37951,14 @@ interface InvoiceData {
   businessName: string;
   businessEmail: string;
   businessAddress: string;
+  businessCountry: string;
+  businessVatId: string;
   clientName: string;
   clientEmail: string;
   clientAddress: string;
+  clientCountry: string;
+  clientVatId: string;
+  buyerReference: string;
   taxPercent: string;
   discountType: "percent" | "fixed";
   discountValue: string;
@@ -37431,11 +38050,16 @@ interface InvoiceWorkspace {
   label: string;
   updatedAt: number;
   invoice: InvoiceData;
+  sentAt: string;
+  payments: InvoicePayment[];
+  recurrence: InvoiceRecurrence | null;
+  recurringSourceId: string;
 }
 
 interface InvoiceWorkspaceStorage {
   activeWorkspaceId: string;
   workspaces: InvoiceWorkspace[];
+  sequences?: InvoiceNumberSequence[];
 }
 
 function createInvoiceWorkspace(label: string, invoice?: InvoiceData): InvoiceWorkspace {
@@ -37444,6 +38068,10 @@ function createInvoiceWorkspace(label: string, invoice?: InvoiceData): InvoiceWo
     label,
     updatedAt: Date.now(),
     invoice: invoice ?? createDefaultInvoiceData(),
+    sentAt: "",
+    payments: [],
+    recurrence: null,
+    recurringSourceId: "",
   };
 }
 
@@ -37468,9 +38096,75 @@ function sanitizeInvoiceWorkspace(raw: unknown): InvoiceWorkspace | null {
         : deriveWorkspaceLabel(sanitizedInvoice),
     updatedAt: typeof candidate.updatedAt === "number" ? candidate.updatedAt : Date.now(),
     invoice: sanitizedInvoice,
+    sentAt: typeof candidate.sentAt === "string" ? candidate.sentAt : "",
+    payments: sanitizeInvoicePayments(candidate.payments),
+    recurrence: sanitizeInvoiceRecurrence(candidate.recurrence),
+    recurringSourceId: typeof candidate.recurringSourceId === "string" ? candidate.recurringSourceId : "",
   };
 }
 
+function createRandomInvoiceNumber(date = new Date()): string {
+  return `INV-${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${Math.floor(Math.random() * 900 + 100)}`;
+}
+
+function getInvoiceWorkspaceTotal(invoice: InvoiceData): number {
+  return calculateEInvoiceTotals(buildInvoiceEDocument(invoice)).taxInclusive;
+}
+
+function getInvoiceWorkspaceStatus(workspace: InvoiceWorkspace, today: string): InvoiceLifecycleStatus {
+  return deriveInvoiceStatus(
+    {
+      sentAt: workspace.sentAt,
+      dueDate: workspace.invoice.dueDate,
+      total: getInvoiceWorkspaceTotal(workspace.invoice),
+      payments: workspace.payments,
+    },
+    today,
+  );
+}
+
+function spawnDueRecurringInvoices(
+  workspaces: InvoiceWorkspace[],
+  sequences: InvoiceNumberSequence[],
+  today: string,
+): { workspaces: InvoiceWorkspace[]; sequences: InvoiceNumberSequence[]; created: number } {
+  let nextSequences = sequences;
+  const spawned: InvoiceWorkspace[] = [];
+  const updated = workspaces.map((workspace) => {
+    if (!workspace.recurrence) return workspace;
+    const dueDates = collectDueRecurrenceDates(workspace.recurrence, today);
+    if (!dueDates.length) return workspace;
+    const template = workspace.invoice;
+    const termDays = Math.max(0, daysBetweenIsoDates(template.issueDate, template.dueDate));
+    dueDates.forEach((issueDate) => {
+      const sequence = findSequenceForClient(nextSequences, template.clientName);
+      let invoiceNumber = createRandomInvoiceNumber(new Date(`${issueDate}T00:00:00`));
+      if (sequence) {
+        invoiceNumber = formatSequenceNumber(sequence, issueDate);
+        nextSequences = nextSequences.map((entry) =>
+          entry.id === sequence.id ? { ...entry, nextNumber: entry.nextNumber + 1 } : entry,
+        );
+      }
+      const invoice: InvoiceData = {
+        ...template,
+        invoiceNumber,
+        issueDate,
+        dueDate: addDaysToIsoDate(issueDate, termDays),
+        items: template.items.map((item) => ({ ...item, id: crypto.randomUUID() })),
+      };
+      spawned.push({
+        ...createInvoiceWorkspace(deriveWorkspaceLabel(invoice), invoice),
+        recurringSourceId: workspace.id,
+      });
+    });
+    return {
+      ...workspace,
+      recurrence: { ...workspace.recurrence, generatedCount: workspace.recurrence.generatedCount + dueDates.length },
+    };
+  });
+  return { workspaces: [...updated, ...spawned], sequences: nextSequences, created: spawned.length };
+}
+
 const INVOICE_LOCAL_CURRENCIES = getInvoiceClientFallbackCurrencies();
 
 function createDefaultInvoiceData(): InvoiceData {
@@ -37486,9 +38180,14 @@ function createDefaultInvoiceData(): InvoiceData {
     businessName: "",
     businessEmail: "",
     businessAddress: "",
+    businessCountry: "",
+    businessVatId: "",
     clientName: "",
     clientEmail: "",
     clientAddress: "",
+    clientCountry: "",
+    clientVatId: "",
+    buyerReference: "",
     taxPercent: "0",
     discountType: "percent",
     discountValue: "0",
@@ -37497,7 +38196,7 @@ function createDefaultInvoiceData(): InvoiceData {
     paymentTerms: "Payment due within 14 days.",
     logoDataUrl: "",
     logoFileName: "",
-    items: [{ id: crypto.randomUUID(), description: "Service work", quantity: "1", unitPrice: "0" }],
+    items: [{ id: crypto.randomUUID(), description: "Service work", quantity: "1", unitPrice: "0", taxCategory: "S" }],
   };
 }
 
@@ -37515,6 +38214,10 @@ function sanitizeInvoiceData(raw: unknown): InvoiceData | null {
         description: typeof entry.description === "string" ? entry.description : "",
         quantity: typeof entry.quantity === "string" ? entry.quantity : "1",
         unitPrice: typeof entry.unitPrice === "string" ? entry.unitPrice : "0",
+        taxCategory:
+          typeof entry.taxCategory === "string" && entry.taxCategory in E_INVOICE_TAX_CATEGORY_LABELS
+            ? entry.taxCategory
+            : ("S" as const),
       };
     })
     .slice(0, 40);
@@ -37526,9 +38229,14 @@ function sanitizeInvoiceData(raw: unknown): InvoiceData | null {
     businessName: typeof candidate.businessName === "string" ? candidate.businessName : defaults.businessName,
     businessEmail: typeof candidate.businessEmail === "string" ? candidate.businessEmail : defaults.businessEmail,
     businessAddress: typeof candidate.businessAddress === "string" ? candidate.businessAddress : defaults.businessAddress,
+    businessCountry: typeof candidate.businessCountry === "string" ? candidate.businessCountry : defaults.businessCountry,
+    businessVatId: typeof candidate.businessVatId === "string" ? candidate.businessVatId : defaults.businessVatId,
     clientName: typeof candidate.clientName === "string" ? candidate.clientName : defaults.clientName,
     clientEmail: typeof candidate.clientEmail === "string" ? candidate.clientEmail : defaults.clientEmail,
     clientAddress: typeof candidate.clientAddress === "string" ? candidate.clientAddress : defaults.clientAddress,
+    clientCountry: typeof candidate.clientCountry === "string" ? candidate.clientCountry : defaults.clientCountry,
+    clientVatId: typeof candidate.clientVatId === "string" ? candidate.clientVatId : defaults.clientVatId,
+    buyerReference: typeof candidate.buyerReference === "string" ? candidate.buyerReference : defaults.buyerReference,
     taxPercent: typeof candidate.taxPercent === "string" ? candidate.taxPercent : defaults.taxPercent,
     discountType: candidate.discountType === "fixed" ? "fixed" : "percent",
     discountValue: typeof candidate.discountValue === "string" ? candidate.discountValue : defaults.discountValue,
@@ -37541,6 +38249,206 @@ function sanitizeInvoiceData(raw: unknown): InvoiceData | null {
   };
 }
 
+const INVOICE_TAX_CATEGORIES = Object.keys(E_INVOICE_TAX_CATEGORY_LABELS) as EInvoiceTaxCategory[];
+
+function buildInvoiceEDocument(invoice: InvoiceData): EInvoiceDocument {
+  const taxPercent = Math.max(0, safeNumberValue(invoice.taxPercent));
+  const rateFor = (category: EInvoiceTaxCategory) => (category === "S" ? taxPercent : 0);
+  const lines = invoice.items.map((item) => ({
+    description: item.description.trim(),
+    quantity: Math.max(0, safeNumberValue(item.quantity)),
+    unitPrice: Math.max(0, safeNumberValue(item.unitPrice)),
+    taxCategory: item.taxCategory,
+    taxPercent: rateFor(item.taxCategory),
+  }));
+
+  const categoryTotals = new Map<EInvoiceTaxCategory, number>();
+  lines.forEach((line) => {
+    categoryTotals.set(line.taxCategory, (categoryTotals.get(line.taxCategory) ?? 0) + line.quantity * line.unitPrice);
+  });
+  const subtotal = [...categoryTotals.values()].reduce((sum, amount) => sum + amount, 0);
+  const discountValue = Math.max(0, safeNumberValue(invoice.discountValue));
+  const discount =
+    Math.round(
+      (invoice.discountType === "percent" ? (subtotal * Math.min(100, discountValue)) / 100 : Math.min(discountValue, subtotal)) * 100,
+    ) / 100;
+  const weightedCategories = [...categoryTotals.entries()].filter(([, amount]) => amount > 0);
+
+  const allowances: EInvoiceAllowanceCharge[] = [];
+  let allocated = 0;
+  weightedCategories.forEach(([category, amount], index) => {
+    if (discount <= 0) return;
+    const share =
+      index === weightedCategories.length - 1
+        ? Math.round((discount - allocated) * 100) / 100
+        : Math.round(((discount * amount) / subtotal) * 100) / 100;
+    allocated += share;
+    allowances.push({ amount: share, reason: "Discount", taxCategory: category, taxPercent: rateFor(category) });
+  });
+
+  const shipping = Math.max(0, safeNumberValue(invoice.shipping));
+  const dominantCategory = [...weightedCategories].sort((left, right) => right[1] - left[1])[0]?.[0] ?? lines[0]?.taxCategory ?? "S";
+  const charges: EInvoiceAllowanceCharge[] = shipping
+    ? [{ amount: shipping, reason: "Shipping", taxCategory: dominantCategory, taxPercent: rateFor(dominantCategory) }]
+    : [];
+
+  return {
+    invoiceNumber: invoice.invoiceNumber.trim(),
+    issueDate: invoice.issueDate,
+    dueDate: invoice.dueDate,
+    currency: invoice.currency,
+    buyerReference: invoice.buyerReference.trim(),
+    paymentTerms: invoice.paymentTerms.trim(),
+    notes: invoice.notes.trim(),
+    seller: {
+      name: invoice.businessName.trim(),
+      email: invoice.businessEmail.trim(),
+      address: invoice.businessAddress,
+      countryCode: invoice.businessCountry.trim().toUpperCase(),
+      vatId: invoice.businessVatId.trim(),
+    },
+    buyer: {
+      name: invoice.clientName.trim(),
+      email: invoice.clientEmail.trim(),
+      address: invoice.clientAddress,
+      countryCode: invoice.clientCountry.trim().toUpperCase(),
+      vatId: invoice.clientVatId.trim(),
+    },
+    lines,
+    allowances,
+    charges,
+  };
+}
+
+const INVOICE_PDF_FONT = "LiberationSans";
+
+async function loadInvoicePdfFont(weight: "regular" | "bold"): Promise<string> {
+  const response = await fetch(`/api/pdf-font?weight=${weight}`);
+  if (!response.ok) throw new Error("Could not load the invoice font for the PDF/A export.");
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+async function renderInvoicePdfBytes(invoice: InvoiceData, document: EInvoiceDocument, totals: EInvoiceTotals): Promise<Uint8Array> {
+  const [{ jsPDF }, regularFont, boldFont] = await Promise.all([
+    import("jspdf"),
+    loadInvoicePdfFont("regular"),
+    loadInvoicePdfFont("bold"),
+  ]);
+  const pdf = new jsPDF({ unit: "mm", format: "a4", compress: true, putOnlyUsedFonts: true });
+  pdf.addFileToVFS(`${INVOICE_PDF_FONT}-Regular.ttf`, regularFont);
+  pdf.addFileToVFS(`${INVOICE_PDF_FONT}-Bold.ttf`, boldFont);
+  pdf.addFont(`${INVOICE_PDF_FONT}-Regular.ttf`, INVOICE_PDF_FONT, "normal");
+  pdf.addFont(`${INVOICE_PDF_FONT}-Bold.ttf`, INVOICE_PDF_FONT, "bold");
+  pdf.setFont(INVOICE_PDF_FONT, "normal");
+  const margin = 16;
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const right = pageWidth - margin;
+  const money = (value: number) => formatCurrencyWithCode(value, document.currency);
+  let y = margin;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - margin) {
+      pdf.addPage();
+      y = margin;
+    }
+  };
+
+  if (invoice.logoDataUrl) {
+    try {
+      pdf.addImage(invoice.logoDataUrl, margin, y, 40, 14, undefined, "FAST");
+      y += 18;
+    } catch {
+      // Skip logos jsPDF cannot decode.
+    }
+  }
+
+  pdf.setFont(INVOICE_PDF_FONT, "bold");
+  pdf.setFontSize(18);
+  pdf.text(`Invoice ${document.invoiceNumber}`, margin, y + 6);
+  pdf.setFont(INVOICE_PDF_FONT, "normal");
+  pdf.setFontSize(9);
+  pdf.text(`Issue date: ${document.issueDate || "-"}   Due date: ${document.dueDate || "-"}`, margin, y + 12);
+  y += 20;
+
+  const partyBlock = (title: string, party: EInvoiceDocument["seller"], x: number) => {
+    const lines = [
+      party.name,
+      ...party.address.split(/\r?\n/).map((line) => line.trim()).filter(Boolean),
+      party.countryCode,
+      party.vatId ? `VAT ID: ${party.vatId}` : "",
+      party.email,
+    ].filter(Boolean);
+    pdf.setFont(INVOICE_PDF_FONT, "bold");
+    pdf.text(title, x, y);
+    pdf.setFont(INVOICE_PDF_FONT, "normal");
+    lines.forEach((line, index) => pdf.text(line, x, y + 5 + index * 4.5));
+    return lines.length * 4.5 + 5;
+  };
+  y += Math.max(partyBlock("From", document.seller, margin), partyBlock("Bill to", document.buyer, pageWidth / 2)) + 4;
+  if (document.buyerReference) {
+    pdf.text(`Buyer reference: ${document.buyerReference}`, margin, y);
+    y += 6;
+  }
+
+  const columns = [margin, right - 80, right - 58, right - 30];
+  pdf.setFont(INVOICE_PDF_FONT, "bold");
+  pdf.text("Description", columns[0], y);
+  pdf.text("Qty", columns[1], y);
+  pdf.text("VAT", columns[2], y);
+  pdf.text("Unit price", columns[3] - 4, y, { align: "right" });
+  pdf.text("Total", right, y, { align: "right" });
+  pdf.line(margin, y + 2, right, y + 2);
+  pdf.setFont(INVOICE_PDF_FONT, "normal");
+  y += 7;
+
+  document.lines.forEach((line) => {
+    const description = pdf.splitTextToSize(line.description || "-", columns[1] - margin - 4) as string[];
+    ensureSpace(description.length * 4.5 + 2);
+    pdf.text(description, columns[0], y);
+    pdf.text(formatNumericValue(line.quantity), columns[1], y);
+    pdf.text(line.taxCategory === "S" ? `${line.taxPercent}%` : line.taxCategory, columns[2], y);
+    pdf.text(money(line.unitPrice), columns[3] - 4, y, { align: "right" });
+    pdf.text(money(line.quantity * line.unitPrice), right, y, { align: "right" });
+    y += description.length * 4.5 + 2;
+  });
+
+  ensureSpace(40 + totals.breakdown.length * 5);
+  pdf.line(margin, y, right, y);
+  y += 6;
+  const totalRow = (label: string, value: number, bold = false) => {
+    pdf.setFont(INVOICE_PDF_FONT, bold ? "bold" : "normal");
+    pdf.text(label, right - 60, y);
+    pdf.text(money(value), right, y, { align: "right" });
+    y += 5;
+  };
+  totalRow("Subtotal", totals.lineTotal);
+  if (totals.allowanceTotal) totalRow("Discount", -totals.allowanceTotal);
+  if (totals.chargeTotal) totalRow("Shipping", totals.chargeTotal);
+  totals.breakdown.forEach((group) => {
+    totalRow(group.category === "S" ? `VAT ${group.percent}%` : `VAT ${group.category} (${group.exemptionReason || "0%"})`, group.taxAmount);
+  });
+  totalRow("Amount due", totals.taxInclusive, true);
+  pdf.setFont(INVOICE_PDF_FONT, "normal");
+  y += 4;
+
+  [document.paymentTerms ? `Terms: ${document.paymentTerms}` : "", document.notes ? `Notes: ${document.notes}` : ""]
+    .filter(Boolean)
+    .forEach((paragraph) => {
+      const wrapped = pdf.splitTextToSize(paragraph, right - margin) as string[];
+      ensureSpace(wrapped.length * 4.5);
+      pdf.text(wrapped, margin, y);
+      y += wrapped.length * 4.5 + 2;
+    });
+
+  return new Uint8Array(pdf.output("arraybuffer"));
+}
+
 function InvoiceGeneratorTool() {
   const { t } = useLocale();
   const storageKey = "utiliora-invoice-workspaces-v1";
@@ -37549,11 +38457,14 @@ function InvoiceGeneratorTool() {
   const [invoice, setInvoice] = useState<InvoiceData>(() => createDefaultInvoiceData());
   const [workspaces, setWorkspaces] = useState<InvoiceWorkspace[]>([]);
   const [activeWorkspaceId, setActiveWorkspaceId] = useState("");
+  const [sequences, setSequences] = useState<InvoiceNumberSequence[]>([]);
+  const [paymentDraft, setPaymentDraft] = useState({ date: todayIsoDate(), amount: "", method: "" });
   const [status, setStatus] = useState("");
   const [currencyOptions, setCurrencyOptions] = useState<CurrencyOption[]>(INVOICE_LOCAL_CURRENCIES);
   const [currencySource, setCurrencySource] = useState("local-fallback");
   const [currencySearch, setCurrencySearch] = useState("");
   const activeIndex = Math.max(0, workspaces.findIndex((workspace) => workspace.id === activeWorkspaceId));
+  const activeWorkspace = workspaces.find((workspace) => workspace.id === activeWorkspaceId) ?? null;
 
   useEffect(() => {
     try {
@@ -37565,7 +38476,13 @@ function InvoiceGeneratorTool() {
               .map((item) => sanitizeInvoiceWorkspace(item))
               .filter((item): item is InvoiceWorkspace => Boolean(item))
           : [];
+        const storedSequences = Array.isArray(parsed.sequences)
+          ? parsed.sequences
+              .map((item) => sanitizeInvoiceSequence(item))
+              .filter((item): item is InvoiceNumberSequence => Boolean(item))
+          : [];
         if (normalizedWorkspaces.length) {
+          const recurring = spawnDueRecurringInvoices(normalizedWorkspaces, storedSequences, todayIsoDate());
           const selectedId =
             typeof parsed.activeWorkspaceId === "string" &&
             normalizedWorkspaces.some((workspace) => workspace.id === parsed.activeWorkspaceId)
@@ -37573,9 +38490,13 @@ function InvoiceGeneratorTool() {
               : normalizedWorkspaces[0].id;
           const selected =
             normalizedWorkspaces.find((workspace) => workspace.id === selectedId) ?? normalizedWorkspaces[0];
-          setWorkspaces(normalizedWorkspaces);
+          setWorkspaces(recurring.workspaces);
+          setSequences(recurring.sequences);
           setActiveWorkspaceId(selected.id);
           setInvoice(selected.invoice);
+          if (recurring.created) {
+            setStatus(`Created ${recurring.created} recurring draft${recurring.created === 1 ? "" : "s"} that came due.`);
+          }
           return;
         }
       }
@@ -37609,12 +38530,13 @@ function InvoiceGeneratorTool() {
             ? activeWorkspaceId
             : workspaces[0].id,
         workspaces,
+        sequences,
       };
       localStorage.setItem(storageKey, JSON.stringify(payload));
     } catch {
       // Ignore storage failures.
     }
-  }, [activeWorkspaceId, storageKey, workspaces]);
+  }, [activeWorkspaceId, sequences, storageKey, workspaces]);
 
   useEffect(() => {
     if (!activeWorkspaceId) return;
@@ -37701,11 +38623,7 @@ function InvoiceGeneratorTool() {
 
   const createWorkspaceFromCurrent = useCallback(
     (mode: "new" | "duplicate") => {
-      const duplicateNumber = (() => {
-        const now = new Date();
-        return `INV-${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${Math.floor(Math.random() * 900 + 100)}`;
-      })();
-      const nextInvoice = mode === "new" ? createDefaultInvoiceData() : { ...invoice, invoiceNumber: duplicateNumber };
+      const nextInvoice = mode === "new" ? createDefaultInvoiceData() : { ...invoice, invoiceNumber: createRandomInvoiceNumber() };
       const nextWorkspace = createInvoiceWorkspace(
         mode === "new" ? "Draft invoice" : `${deriveWorkspaceLabel(invoice)} copy`,
         nextInvoice,
@@ -37743,23 +38661,169 @@ function InvoiceGeneratorTool() {
     }
   }, [activeWorkspaceId, t, workspaces]);
 
-  const financials = useMemo(() => {
-    const subtotal = invoice.items.reduce((sum, item) => {
-      const quantity = Math.max(0, safeNumberValue(item.quantity));
-      const unitPrice = Math.max(0, safeNumberValue(item.unitPrice));
-      return sum + quantity * unitPrice;
-    }, 0);
-    const shipping = Math.max(0, safeNumberValue(invoice.shipping));
-    const discountValue = Math.max(0, safeNumberValue(invoice.discountValue));
-    const discount =
-      invoice.discountType === "percent"
-        ? (subtotal * Math.min(100, discountValue)) / 100
-        : Math.min(discountValue, subtotal);
-    const taxableBase = Math.max(0, subtotal - discount + shipping);
-    const tax = (taxableBase * Math.max(0, safeNumberValue(invoice.taxPercent))) / 100;
-    const total = taxableBase + tax;
-    return { subtotal, shipping, discount, taxableBase, tax, total };
-  }, [invoice.discountType, invoice.discountValue, invoice.items, invoice.shipping, invoice.taxPercent]);
+  const updateActiveWorkspaceMeta = useCallback(
+    (patch: Partial<Pick<InvoiceWorkspace, "sentAt" | "payments" | "recurrence">>) => {
+      if (!activeWorkspaceId) return;
+      setWorkspaces((current) =>
+        current.map((workspace) =>
+          workspace.id === activeWorkspaceId ? { ...workspace, ...patch, updatedAt: Date.now() } : workspace,
+        ),
+      );
+    },
+    [activeWorkspaceId],
+  );
+
+  const generateRecurringDrafts = useCallback(() => {
+    const result = spawnDueRecurringInvoices(
+      workspaces.map((workspace) => (workspace.id === activeWorkspaceId ? { ...workspace, invoice } : workspace)),
+      sequences,
+      todayIsoDate(),
+    );
+    if (!result.created) {
+      setStatus("No recurring invoices are due yet.");
+      return;
+    }
+    setWorkspaces(result.workspaces);
+    setSequences(result.sequences);
+    setStatus(`Created ${result.created} recurring draft${result.created === 1 ? "" : "s"}.`);
+    trackEvent("invoice_recurring_generate", { created: result.created });
+  }, [activeWorkspaceId, invoice, sequences, workspaces]);
+
+  const assignSequenceNumber = useCallback(() => {
+    const sequence = findSequenceForClient(sequences, invoice.clientName);
+    if (!sequence) {
+      setInvoice((current) => ({ ...current, invoiceNumber: createRandomInvoiceNumber() }));
+      setStatus(t("invoice_generator.status.generated_number", undefined, "Generated a new invoice number."));
+      return;
+    }
+    setInvoice((current) => ({ ...current, invoiceNumber: formatSequenceNumber(sequence, current.issueDate) }));
+    setSequences((current) =>
+      current.map((entry) => (entry.id === sequence.id ? { ...entry, nextNumber: entry.nextNumber + 1 } : entry)),
+    );
+    setStatus(`Assigned the next number from ${sequence.label || sequence.prefix || "the sequence"}.`);
+  }, [invoice.clientName, sequences, t]);
+
+  const updateSequence = (id: string, patch: Partial<InvoiceNumberSequence>) => {
+    setSequences((current) => current.map((sequence) => (sequence.id === id ? { ...sequence, ...patch } : sequence)));
+  };
+
+  const eInvoiceDocument = useMemo(() => buildInvoiceEDocument(invoice), [invoice]);
+  const eInvoiceTotals = useMemo(() => calculateEInvoiceTotals(eInvoiceDocument), [eInvoiceDocument]);
+  const eInvoiceIssues = useMemo(() => validateEInvoice(eInvoiceDocument), [eInvoiceDocument]);
+  const eInvoiceErrorCount = eInvoiceIssues.filter((issue) => issue.severity === "error").length;
+  const [exportingEInvoice, setExportingEInvoice] = useState(false);
+
+  const financials = useMemo(
+    () => ({
+      subtotal: eInvoiceTotals.lineTotal,
+      shipping: eInvoiceTotals.chargeTotal,
+      discount: eInvoiceTotals.allowanceTotal,
+      taxableBase: eInvoiceTotals.taxExclusive,
+      tax: eInvoiceTotals.taxTotal,
+      total: eInvoiceTotals.taxInclusive,
+    }),
+    [eInvoiceTotals],
+  );
+
+  const exportEInvoice = async (format: "ubl" | "factur-x") => {
+    if (eInvoiceErrorCount) {
+      setStatus(`Fix ${eInvoiceErrorCount} e-invoice error${eInvoiceErrorCount === 1 ? "" : "s"} before exporting.`);
+      return;
+    }
+    const fileBase = (eInvoiceDocument.invoiceNumber || "invoice").replace(/[^A-Za-z0-9-_]+/g, "-");
+    if (format === "ubl") {
+      downloadTextFile(`${fileBase}-ubl.xml`, buildUblInvoiceXml(eInvoiceDocument), "application/xml;charset=utf-8;");
+      setStatus("UBL 2.1 invoice XML exported.");
+      trackEvent("invoice_einvoice_export", { format, lines: eInvoiceDocument.lines.length });
+      return;
+    }
+
+    setExportingEInvoice(true);
+    try {
+      const createdAt = new Date();
+      const title = `Invoice ${eInvoiceDocument.invoiceNumber}`;
+      const pdfBytes = await renderInvoicePdfBytes(invoice, eInvoiceDocument, eInvoiceTotals);
+      const { embedFacturXAttachment } = await import("@/lib/pdf-assembly");
+      const bytes = await embedFacturXAttachment(pdfBytes, {
+        xml: buildFacturXInvoiceXml(eInvoiceDocument),
+        metadataXml: buildFacturXMetadata({ title, producer: "Utiliora", createdAt }),
+        title,
+        createdAt,
+      });
+      downloadBlobFile(`${fileBase}-factur-x.pdf`, new Blob([bytes], { type: "application/pdf" }));
+      setStatus("Factur-X PDF/A-3 exported with the embedded factur-x.xml.");
+      trackEvent("invoice_einvoice_export", { format, lines: eInvoiceDocument.lines.length });
+    } catch (error) {
+      setStatus(error instanceof Error && error.message ? error.message : "Could not build the Factur-X PDF.");
+    } finally {
+      setExportingEInvoice(false);
+    }
+  };
+
+  const paidAmount = sumInvoicePayments(activeWorkspace?.payments ?? []);
+  const outstandingAmount = Math.max(0, Math.round((financials.total - paidAmount) * 100) / 100);
+  const lifecycleStatus = deriveInvoiceStatus(
+    {
+      sentAt: activeWorkspace?.sentAt ?? "",
+      dueDate: invoice.dueDate,
+      total: financials.total,
+      payments: activeWorkspace?.payments ?? [],
+    },
+    todayIsoDate(),
+  );
+
+  const workspaceStatuses = useMemo(() => {
+    const today = todayIsoDate();
+    return new Map(
+      workspaces.map((workspace) => [
+        workspace.id,
+        getInvoiceWorkspaceStatus(workspace.id === activeWorkspaceId ? { ...workspace, invoice } : workspace, today),
+      ]),
+    );
+  }, [activeWorkspaceId, invoice, workspaces]);
+
+  const agingReport = useMemo(
+    () =>
+      buildInvoiceAgingReport(
+        workspaces.map((workspace) => {
+          const source = workspace.id === activeWorkspaceId ? invoice : workspace.invoice;
+          return {
+            id: workspace.id,
+            label: workspace.label,
+            clientName: source.clientName,
+            currency: source.currency,
+            sentAt: workspace.sentAt,
+            dueDate: source.dueDate,
+            total: getInvoiceWorkspaceTotal(source),
+            payments: workspace.payments,
+          };
+        }),
+        todayIsoDate(),
+      ),
+    [activeWorkspaceId, invoice, workspaces],
+  );
+
+  const recordPayment = () => {
+    const amount = Math.round(safeNumberValue(paymentDraft.amount || String(outstandingAmount)) * 100) / 100;
+    if (amount <= 0) {
+      setStatus("Enter a payment amount greater than zero.");
+      return;
+    }
+    const payment: InvoicePayment = {
+      id: crypto.randomUUID(),
+      date: paymentDraft.date || todayIsoDate(),
+      amount,
+      method: paymentDraft.method.trim(),
+      note: "",
+    };
+    updateActiveWorkspaceMeta({
+      payments: [...(activeWorkspace?.payments ?? []), payment],
+      sentAt: activeWorkspace?.sentAt || payment.date,
+    });
+    setPaymentDraft((current) => ({ ...current, amount: "" }));
+    setStatus(`Recorded a payment of ${formatCurrencyWithCode(amount, invoice.currency)}.`);
+    trackEvent("invoice_payment_record", { currency: invoice.currency });
+  };
 
   const dueStatus = useMemo(() => {
     if (!invoice.dueDate) return "No due date";
@@ -37773,11 +38837,6 @@ function InvoiceGeneratorTool() {
     return `Due in ${diffDays} day${diffDays === 1 ? "" : "s"}`;
   }, [invoice.dueDate]);
 
-  const buildInvoiceNumber = useCallback(() => {
-    const now = new Date();
-    return `INV-${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${Math.floor(Math.random() * 900 + 100)}`;
-  }, []);
-
   const reminderMessage = useMemo(() => {
     return `Hi ${invoice.clientName || "there"}, this is a friendly reminder that invoice ${
       invoice.invoiceNumber || ""
@@ -37926,7 +38985,7 @@ ${invoice.notes ? `<p><strong>Notes:</strong> ${escapeHtml(invoice.notes)}</p>`
               onClick={() => activateWorkspace(workspace.id)}
               aria-pressed={workspace.id === activeWorkspaceId}
             >
-              {workspace.label}
+              {workspace.label} · {INVOICE_STATUS_LABELS[workspaceStatuses.get(workspace.id) ?? "draft"]}
             </button>
           ))}
         </div>
@@ -37984,15 +39043,415 @@ ${invoice.notes ? `<p><strong>Notes:</strong> ${escapeHtml(invoice.notes)}</p>`
         <button
           className="action-button secondary"
           type="button"
-          onClick={() => {
-            updateInvoice("invoiceNumber", buildInvoiceNumber());
-            setStatus(t("invoice_generator.status.generated_number", undefined, "Generated a new invoice number."));
-          }}
+          onClick={assignSequenceNumber}
         >
           <RefreshCw size={15} />
           {t("invoice_generator.button.new_number", undefined, "New number")}
         </button>
       </div>
+      <div className="mini-panel">
+        <div className="panel-head">
+          <h3>E-invoice export</h3>
+          <span className={`status-badge ${eInvoiceErrorCount ? "bad" : eInvoiceIssues.length ? "warn" : "ok"}`}>
+            {eInvoiceErrorCount
+              ? `${eInvoiceErrorCount} error${eInvoiceErrorCount === 1 ? "" : "s"}`
+              : eInvoiceIssues.length
+                ? `${eInvoiceIssues.length} warning${eInvoiceIssues.length === 1 ? "" : "s"}`
+                : "Ready"}
+          </span>
+        </div>
+        <p className="supporting-text">
+          UBL 2.1 follows Peppol BIS Billing 3.0. Factur-X/ZUGFeRD embeds an EN 16931 CII XML in a PDF/A-3b invoice with embedded
+          fonts and an sRGB output intent.
+        </p>
+        <div className="button-row">
+          <button className="action-button secondary" type="button" disabled={eInvoiceErrorCount > 0} onClick={() => void exportEInvoice("ubl")}>
+            <Download size={15} />
+            UBL XML
+          </button>
+          <button
+            className="action-button secondary"
+            type="button"
+            disabled={eInvoiceErrorCount > 0 || exportingEInvoice}
+            onClick={() => void exportEInvoice("factur-x")}
+          >
+            <Download size={15} />
+            {exportingEInvoice ? "Building..." : "Factur-X PDF"}
+          </button>
+        </div>
+        {eInvoiceIssues.length ? (
+          <ul className="plain-list">
+            {eInvoiceIssues.map((issue) => (
+              <li key={`${issue.field}-${issue.message}`}>
+                <span className={`status-badge ${issue.severity === "error" ? "bad" : "warn"}`}>{issue.severity}</span> {issue.message}
+              </li>
+            ))}
+          </ul>
+        ) : null}
+      </div>
+      <div className="mini-panel">
+        <div className="panel-head">
+          <h3>Status and payments</h3>
+          <span
+            className={`status-badge ${
+              lifecycleStatus === "paid" ? "ok" : lifecycleStatus === "overdue" ? "bad" : lifecycleStatus === "partially-paid" ? "warn" : "info"
+            }`}
+          >
+            {INVOICE_STATUS_LABELS[lifecycleStatus]}
+          </span>
+        </div>
+        <p className="supporting-text">
+          Paid {formatCurrencyWithCode(paidAmount, invoice.currency)} of {formatCurrencyWithCode(financials.total, invoice.currency)} ·
+          Outstanding {formatCurrencyWithCode(outstandingAmount, invoice.currency)}
+          {activeWorkspace?.sentAt ? ` · Sent ${activeWorkspace.sentAt}` : ""}
+        </p>
+        <div className="button-row">
+          {activeWorkspace?.sentAt ? (
+            <button className="action-button secondary" type="button" onClick={() => updateActiveWorkspaceMeta({ sentAt: "" })}>
+              Back to draft
+            </button>
+          ) : (
+            <button
+              className="action-button secondary"
+              type="button"
+              onClick={() => {
+                updateActiveWorkspaceMeta({ sentAt: todayIsoDate() });
+                setStatus("Invoice marked as sent.");
+              }}
+            >
+              Mark as sent
+            </button>
+          )}
+        </div>
+        <div className="field-grid">
+          <label className="field">
+            <span>Payment date</span>
+            <input
+              type="date"
+              value={paymentDraft.date}
+              onChange={(event) => setPaymentDraft((current) => ({ ...current, date: event.target.value }))}
+            />
+          </label>
+          <label className="field">
+            <span>Amount</span>
+            <input
+              type="number"
+              min={0}
+              step={0.01}
+              value={paymentDraft.amount}
+              placeholder={outstandingAmount.toFixed(2)}
+              onChange={(event) => setPaymentDraft((current) => ({ ...current, amount: event.target.value }))}
+            />
+          </label>
+          <label className="field">
+            <span>Method</span>
+            <input
+              type="text"
+              value={paymentDraft.method}
+              placeholder="Bank transfer"
+              onChange={(event) => setPaymentDraft((current) => ({ ...current, method: event.target.value }))}
+            />
+          </label>
+        </div>
+        <div className="button-row">
+          <button className="action-button secondary" type="button" onClick={recordPayment} disabled={!activeWorkspace}>
+            <Plus size={15} />
+            Record payment
+          </button>
+        </div>
+        {activeWorkspace?.payments.length ? (
+          <ul className="plain-list">
+            {activeWorkspace.payments.map((payment) => (
+              <li key={payment.id}>
+                <div className="history-line">
+                  <span>
+                    {payment.date} · {formatCurrencyWithCode(payment.amount, invoice.currency)}
+                    {payment.method ? ` · ${payment.method}` : ""}
+                  </span>
+                  <button
+                    className="chip-button"
+                    type="button"
+                    onClick={() =>
+                      updateActiveWorkspaceMeta({
+                        payments: activeWorkspace.payments.filter((entry) => entry.id !== payment.id),
+                      })
+                    }
+                  >
+                    Remove
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : null}
+      </div>
+      <div className="mini-panel">
+        <div className="panel-head">
+          <h3>Recurring schedule</h3>
+          {activeWorkspace?.recurrence?.active ? (
+            <span className="supporting-text">Next draft {getNextRecurrenceDate(activeWorkspace.recurrence)}</span>
+          ) : null}
+        </div>
+        <label className="checkbox">
+          <input
+            type="checkbox"
+            checked={Boolean(activeWorkspace?.recurrence?.active)}
+            onChange={(event) => {
+              const existing = activeWorkspace?.recurrence;
+              if (existing) {
+                updateActiveWorkspaceMeta({ recurrence: { ...existing, active: event.target.checked } });
+                return;
+              }
+              if (!event.target.checked) return;
+              updateActiveWorkspaceMeta({
+                recurrence: {
+                  frequency: "monthly",
+                  startDate: addMonthsToIsoDate(invoice.issueDate || todayIsoDate(), 1),
+                  endDate: "",
+                  generatedCount: 0,
+                  active: true,
+                },
+              });
+            }}
+          />
+          Use this invoice as a recurring template
+        </label>
+        {activeWorkspace?.recurrence ? (
+          <div className="field-grid">
+            <label className="field">
+              <span>Frequency</span>
+              <select
+                value={activeWorkspace.recurrence.frequency}
+                onChange={(event) =>
+                  activeWorkspace.recurrence &&
+                  updateActiveWorkspaceMeta({
+                    recurrence: {
+                      ...activeWorkspace.recurrence,
+                      frequency: event.target.value as InvoiceRecurrenceFrequency,
+                      startDate: getNextRecurrenceDate(activeWorkspace.recurrence),
+                      generatedCount: 0,
+                    },
+                  })
+                }
+              >
+                <option value="monthly">Monthly</option>
+                <option value="quarterly">Quarterly</option>
+              </select>
+            </label>
+            <label className="field">
+              <span>First recurring issue date</span>
+              <input
+                type="date"
+                value={activeWorkspace.recurrence.startDate}
+                onChange={(event) =>
+                  activeWorkspace.recurrence &&
+                  event.target.value &&
+                  updateActiveWorkspaceMeta({
+                    recurrence: { ...activeWorkspace.recurrence, startDate: event.target.value, generatedCount: 0 },
+                  })
+                }
+              />
+            </label>
+            <label className="field">
+              <span>End date (optional)</span>
+              <input
+                type="date"
+                value={activeWorkspace.recurrence.endDate}
+                onChange={(event) =>
+                  activeWorkspace.recurrence &&
+                  updateActiveWorkspaceMeta({ recurrence: { ...activeWorkspace.recurrence, endDate: event.target.value } })
+                }
+              />
+            </label>
+          </div>
+        ) : null}
+        <p className="supporting-text">
+          Due drafts are created when the tool opens or on demand. Each draft copies this invoice, keeps its payment window and takes
+          the next number from the matching sequence.
+        </p>
+        <div className="button-row">
+          <button className="action-button secondary" type="button" onClick={generateRecurringDrafts}>
+            <RefreshCw size={15} />
+            Generate due drafts
+          </button>
+        </div>
+      </div>
+      <div className="mini-panel">
+        <div className="panel-head">
+          <h3>Numbering sequences</h3>
+          <button
+            className="action-button secondary"
+            type="button"
+            onClick={() =>
+              setSequences((current) => [
+                ...current,
+                {
+                  id: crypto.randomUUID(),
+                  label: current.length ? `Sequence ${current.length + 1}` : "Default",
+                  prefix: "INV-",
+                  clientName: current.length ? invoice.clientName : "",
+                  nextNumber: 1,
+                  padding: 4,
+                  includeYear: true,
+                },
+              ])
+            }
+          >
+            <Plus size={15} />
+            Add sequence
+          </button>
+        </div>
+        <p className="supporting-text">
+          New number uses the sequence whose client matches this invoice, falling back to the sequence with no client.
+        </p>
+        {sequences.length ? (
+          <div className="table-scroll">
+            <table>
+              <thead>
+                <tr>
+                  <th>Label</th>
+                  <th>Prefix</th>
+                  <th>Client</th>
+                  <th>Next</th>
+                  <th>Digits</th>
+                  <th>Year</th>
+                  <th>Preview</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {sequences.map((sequence) => (
+                  <tr key={sequence.id}>
+                    <td>
+                      <input type="text" value={sequence.label} onChange={(event) => updateSequence(sequence.id, { label: event.target.value })} />
+                    </td>
+                    <td>
+                      <input type="text" value={sequence.prefix} onChange={(event) => updateSequence(sequence.id, { prefix: event.target.value })} />
+                    </td>
+                    <td>
+                      <input
+                        type="text"
+                        value={sequence.clientName}
+                        placeholder="Any client"
+                        onChange={(event) => updateSequence(sequence.id, { clientName: event.target.value })}
+                      />
+                    </td>
+                    <td>
+                      <input
+                        type="number"
+                        min={1}
+                        value={sequence.nextNumber}
+                        onChange={(event) => updateSequence(sequence.id, { nextNumber: Math.max(1, Math.floor(safeNumberValue(event.target.value))) })}
+                      />
+                    </td>
+                    <td>
+                      <input
+                        type="number"
+                        min={1}
+                        max={10}
+                        value={sequence.padding}
+                        onChange={(event) =>
+                          updateSequence(sequence.id, { padding: Math.min(10, Math.max(1, Math.floor(safeNumberValue(event.target.value)))) })
+                        }
+                      />
+                    </td>
+                    <td>
+                      <input
+                        type="checkbox"
+                        checked={sequence.includeYear}
+                        onChange={(event) => updateSequence(sequence.id, { includeYear: event.target.checked })}
+                      />
+                    </td>
+                    <td>{formatSequenceNumber(sequence, invoice.issueDate)}</td>
+                    <td>
+                      <button
+                        className="chip-button"
+                        type="button"
+                        onClick={() => setSequences((current) => current.filter((entry) => entry.id !== sequence.id))}
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : null}
+      </div>
+      <div className="mini-panel">
+        <div className="panel-head">
+          <h3>Receivables aging</h3>
+          <button
+            className="action-button secondary"
+            type="button"
+            disabled={!agingReport.entries.length}
+            onClick={() => {
+              downloadCsv(
+                "invoice-aging.csv",
+                ["Invoice", "Client", "Due Date", "Days Overdue", "Bucket", "Currency", "Outstanding"],
+                agingReport.entries.map((entry) => [
+                  entry.label,
+                  entry.clientName,
+                  entry.dueDate,
+                  String(entry.daysOverdue),
+                  entry.bucket,
+                  entry.currency,
+                  entry.outstanding.toFixed(2),
+                ]),
+              );
+              setStatus("Aging report CSV exported.");
+            }}
+          >
+            <Download size={15} />
+            CSV
+          </button>
+        </div>
+        <div className="table-scroll">
+          <table>
+            <thead>
+              <tr>
+                <th>Bucket</th>
+                <th>Invoices</th>
+                <th>Outstanding</th>
+              </tr>
+            </thead>
+            <tbody>
+              {agingReport.buckets.map((bucket) => (
+                <tr key={bucket.key}>
+                  <td>{bucket.label}</td>
+                  <td>{formatNumericValue(bucket.count)}</td>
+                  <td>
+                    {Object.entries(bucket.totals)
+                      .map(([currency, amount]) => formatCurrencyWithCode(amount, currency))
+                      .join(" + ") || "-"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {agingReport.entries.length ? (
+          <ul className="plain-list">
+            {agingReport.entries.map((entry) => (
+              <li key={entry.id}>
+                <div className="history-line">
+                  <span>
+                    {entry.label}
+                    {entry.clientName ? ` · ${entry.clientName}` : ""} · {formatCurrencyWithCode(entry.outstanding, entry.currency)}
+                    {entry.daysOverdue ? ` · ${entry.daysOverdue} days overdue` : ` · due ${entry.dueDate || "-"}`}
+                  </span>
+                  <button className="chip-button" type="button" onClick={() => activateWorkspace(entry.id)}>
+                    Open
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="supporting-text">No sent invoices with an outstanding balance.</p>
+        )}
+      </div>
       <div className="split-panel">
         <div className="invoice-editor">
           <div className="field-grid">
@@ -38064,6 +39523,40 @@ ${invoice.notes ? `<p><strong>Notes:</strong> ${escapeHtml(invoice.notes)}</p>`
               <textarea rows={3} value={invoice.clientAddress} onChange={(event) => updateInvoice("clientAddress", event.target.value)} />
             </label>
           </div>
+          <div className="field-grid">
+            <label className="field">
+              <span>Business country (ISO)</span>
+              <input
+                type="text"
+                maxLength={2}
+                value={invoice.businessCountry}
+                placeholder="DE"
+                onChange={(event) => updateInvoice("businessCountry", event.target.value.toUpperCase())}
+              />
+            </label>
+            <label className="field">
+              <span>Business VAT ID</span>
+              <input type="text" value={invoice.businessVatId} placeholder="DE123456789" onChange={(event) => updateInvoice("businessVatId", event.target.value)} />
+            </label>
+            <label className="field">
+              <span>Client country (ISO)</span>
+              <input
+                type="text"
+                maxLength={2}
+                value={invoice.clientCountry}
+                placeholder="FR"
+                onChange={(event) => updateInvoice("clientCountry", event.target.value.toUpperCase())}
+              />
+            </label>
+            <label className="field">
+              <span>Client VAT ID</span>
+              <input type="text" value={invoice.clientVatId} onChange={(event) => updateInvoice("clientVatId", event.target.value)} />
+            </label>
+            <label className="field">
+              <span>Buyer reference / PO</span>
+              <input type="text" value={invoice.buyerReference} onChange={(event) => updateInvoice("buyerReference", event.target.value)} />
+            </label>
+          </div>
           <div className="mini-panel">
             <div className="panel-head">
               <h3>{t("invoice_generator.branding.title", undefined, "Branding")}</h3>
@@ -38144,7 +39637,10 @@ ${invoice.notes ? `<p><strong>Notes:</strong> ${escapeHtml(invoice.notes)}</p>`
                 onClick={() =>
                   setInvoice((current) => ({
                     ...current,
-                    items: [...current.items, { id: crypto.randomUUID(), description: "", quantity: "1", unitPrice: "0" }],
+                    items: [
+                      ...current.items,
+                      { id: crypto.randomUUID(), description: "", quantity: "1", unitPrice: "0", taxCategory: "S" },
+                    ],
                   }))
                 }
               >
@@ -38167,6 +39663,19 @@ ${invoice.notes ? `<p><strong>Notes:</strong> ${escapeHtml(invoice.notes)}</p>`
                     <span>Unit price</span>
                     <input type="number" min={0} step={0.01} value={item.unitPrice} onChange={(event) => updateItem(item.id, { unitPrice: event.target.value })} />
                   </label>
+                  <label className="field">
+                    <span>VAT category</span>
+                    <select
+                      value={item.taxCategory}
+                      onChange={(event) => updateItem(item.id, { taxCategory: event.target.value as EInvoiceTaxCategory })}
+                    >
+                      {INVOICE_TAX_CATEGORIES.map((category) => (
+                        <option key={category} value={category}>
+                          {category} - {E_INVOICE_TAX_CATEGORY_LABELS[category]}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
                 </div>
                 <button
                   className="icon-button"
@@ -38187,7 +39696,7 @@ ${invoice.notes ? `<p><strong>Notes:</strong> ${escapeHtml(invoice.notes)}</p>`
           </div>
           <div className="field-grid">
             <label className="field">
-              <span>Tax (%)</span>
+              <span>VAT rate for standard-rated lines (%)</span>
               <input type="number" min={0} step={0.01} value={invoice.taxPercent} onChange={(event) => updateInvoice("taxPercent", event.target.value)} />
             </label>
             <label className="field">
@@ -38287,10 +39796,12 @@ ${invoice.notes ? `<p><strong>Notes:</strong> ${escapeHtml(invoice.notes)}</p>`
               <span>Shipping</span>
               <strong>{formatCurrencyWithCode(financials.shipping, invoice.currency)}</strong>
             </p>
-            <p>
-              <span>Tax</span>
-              <strong>{formatCurrencyWithCode(financials.tax, invoice.currency)}</strong>
-            </p>
+            {eInvoiceTotals.breakdown.map((group) => (
+              <p key={`${group.category}-${group.percent}`}>
+                <span>{group.category === "S" ? `Tax ${group.percent}%` : `Tax ${group.category} (${E_INVOICE_TAX_CATEGORY_LABELS[group.category]})`}</span>
+                <strong>{formatCurrencyWithCode(group.taxAmount, invoice.currency)}</strong>
+              </p>
+            ))}
             <p className="invoice-total-final">
               <span>Amount due</span>
               <strong>{formatCurrencyWithCode(financials.total, invoice.currency)}</strong>
@@ -39891,6 +41402,7 @@ interface OcrRecognitionWord {
 interface OcrRecognitionLine {
   text?: string;
   confidence?: number;
+  words?: OcrRecognitionWord[];
   bbox?: {
     x0?: number;
     y0?: number;
@@ -40288,11 +41800,167 @@ function OcrWorkbenchTool() {
   );
 }
 
-type ReceiptInvoiceSourceMode = "file" | "text";
+type ReceiptInvoiceSourceMode = "file" | "text" | "batch";
 
 const RECEIPT_INVOICE_UPLOAD_ACCEPT =
   "image/*,application/pdf,.txt,.md,.csv,.tsv,.json,.html,.htm,.xml,.doc,.docx,.rtf,.odt,.ods,.xlsx,.xls,.ppt,.pptx";
 
+const ACCOUNTING_MAPPING_STORAGE_KEY = "utiliora-receipt-accounting-mapping-v1";
+
+const ACCOUNTING_EXPORT_FORMAT_OPTIONS: Array<{ value: AccountingExportFormat; label: string }> = [
+  { value: "quickbooks-iif", label: "QuickBooks Desktop (IIF)" },
+  { value: "xero-bill-csv", label: "Xero bill import (CSV)" },
+  { value: "ubl-invoice", label: "UBL 2.1 / Peppol BIS 3.0 (XML)" },
+];
+
+const UBL_TAX_CATEGORY_OPTIONS: Array<{ value: UblTaxCategory; label: string }> = [
+  { value: "S", label: "S - Standard rate" },
+  { value: "Z", label: "Z - Zero rated" },
+  { value: "E", label: "E - Exempt" },
+  { value: "AE", label: "AE - Reverse charge" },
+  { value: "O", label: "O - Outside scope" },
+];
+
+function readAccountingMapping(): AccountingExportMapping {
+  if (typeof window === "undefined" || typeof localStorage === "undefined") return createDefaultAccountingMapping();
+  try {
+    const raw = localStorage.getItem(ACCOUNTING_MAPPING_STORAGE_KEY);
+    if (!raw) return createDefaultAccountingMapping();
+    return sanitizeAccountingMapping(JSON.parse(raw));
+  } catch {
+    return createDefaultAccountingMapping();
+  }
+}
+
+function writeAccountingMapping(mapping: AccountingExportMapping): void {
+  if (typeof window === "undefined" || typeof localStorage === "undefined") return;
+  try {
+    localStorage.setItem(ACCOUNTING_MAPPING_STORAGE_KEY, JSON.stringify(mapping));
+  } catch {
+    // Ignore storage failures.
+  }
+}
+
+type ReceiptBatchStatus = "queued" | "processing" | "done" | "failed";
+
+interface ReceiptBatchItem {
+  id: string;
+  file: File;
+  status: ReceiptBatchStatus;
+  method: string;
+  text: string;
+  analysis: ReceiptInvoiceExtraction | null;
+  flags: ReceiptReviewFlag[];
+  pageResults: OcrPageResult[];
+  error: string;
+  reviewed: boolean;
+}
+
+const RECEIPT_BATCH_LIMIT = 60;
+const RECEIPT_FILE_SIZE_LIMIT = 12 * 1024 * 1024;
+
+function summarizeOcrPage(label: string, data: OcrRecognitionData | undefined): OcrPageResult {
+  const words = Array.isArray(data?.words) ? data.words : [];
+  return {
+    label,
+    text: data?.text ?? "",
+    confidence: Number.isFinite(data?.confidence ?? Number.NaN) ? Number(data?.confidence) : 0,
+    lowConfidenceWords: words
+      .filter((word) => (word.confidence ?? 0) > 0 && (word.confidence ?? 0) < 65)
+      .map((word) => word.text?.trim() ?? "")
+      .filter(Boolean)
+      .slice(0, 12),
+  };
+}
+
+async function recognizeReceiptSource(
+  worker: OcrWorkerLike,
+  sourceFile: File,
+  maxPdfPages: number,
+  onPage?: (pageIndex: number, totalPages: number) => void,
+): Promise<{ text: string; pageResults: OcrPageResult[] }> {
+  const results: OcrPageResult[] = [];
+
+  if (sourceFile.type.startsWith("image/")) {
+    onPage?.(0, 1);
+    const recognition = await worker.recognize(sourceFile);
+    results.push(summarizeOcrPage(sourceFile.name, recognition?.data));
+    return {
+      text: normalizeOcrText(results.map((entry) => entry.text).join("\n\n"), true),
+      pageResults: results,
+    };
+  }
+
+  let loadingTask: PdfJsLoadingTask | null = null;
+  let pdfDocument: PdfJsDocument | null = null;
+  try {
+    const pdfjs = await loadPdfJsModule();
+    const bytes = await readPdfFileBytes(sourceFile);
+    const opened = await openPdfDocumentWithFallback(pdfjs, bytes);
+    loadingTask = opened.loadingTask;
+    pdfDocument = opened.pdfDocument;
+    const totalPages = Math.max(1, Math.min(pdfDocument.numPages, maxPdfPages));
+
+    for (let pageIndex = 0; pageIndex < totalPages; pageIndex += 1) {
+      const pageNumber = pageIndex + 1;
+      const page = await pdfDocument.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 2 });
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.max(1, Math.floor(viewport.width));
+      canvas.height = Math.max(1, Math.floor(viewport.height));
+      const context = canvas.getContext("2d");
+      if (!context) throw new Error("Canvas unavailable for OCR.");
+      await page.render({ canvasContext: context, viewport }).promise;
+      onPage?.(pageIndex, totalPages);
+      const recognition = await worker.recognize(canvas);
+      results.push(summarizeOcrPage(`Page ${pageNumber}`, recognition?.data));
+    }
+
+    return {
+      text: normalizeOcrText(results.map((entry) => entry.text).join("\n\n"), true),
+      pageResults: results,
+    };
+  } finally {
+    await closePdfDocumentResources(loadingTask, pdfDocument);
+  }
+}
+
+async function extractReceiptBatchText(
+  file: File,
+  getWorker: () => Promise<OcrWorkerLike>,
+  maxPdfPages: number,
+): Promise<{ text: string; method: string; pageResults: OcrPageResult[] }> {
+  if (file.size > RECEIPT_FILE_SIZE_LIMIT) {
+    throw new Error(`File is too large. Limit is ${formatBytes(RECEIPT_FILE_SIZE_LIMIT)}.`);
+  }
+
+  if (file.type.startsWith("image/")) {
+    const ocrResult = await recognizeReceiptSource(await getWorker(), file, maxPdfPages);
+    return { text: ocrResult.text, method: "Image OCR", pageResults: ocrResult.pageResults };
+  }
+
+  if (file.type === "application/pdf" || getFileExtension(file.name) === "pdf") {
+    let layerText = "";
+    try {
+      layerText = (await extractTextFromPdfDocument(file, { maxPages: maxPdfPages, includePageMarkers: false })).text;
+    } catch {
+      layerText = "";
+    }
+    const layerAnalysis = layerText ? analyzeReceiptInvoiceText(layerText) : null;
+    if (layerAnalysis && (layerAnalysis.confidenceScore >= 60 || (layerAnalysis.merchantName && layerAnalysis.total.amount !== null))) {
+      return { text: layerText, method: "PDF text layer", pageResults: [] };
+    }
+    const ocrResult = await recognizeReceiptSource(await getWorker(), file, maxPdfPages);
+    const ocrScore = ocrResult.text ? analyzeReceiptInvoiceText(ocrResult.text).confidenceScore : -1;
+    return layerAnalysis && layerAnalysis.confidenceScore > ocrScore
+      ? { text: layerText, method: "PDF text layer", pageResults: [] }
+      : { text: ocrResult.text, method: "PDF OCR", pageResults: ocrResult.pageResults };
+  }
+
+  const extracted = await extractTextFromDocumentFile(file, { convertHtmlToText: true });
+  return { text: extracted.text, method: extracted.source, pageResults: [] };
+}
+
 function ReceiptInvoiceExtractorTool() {
   const [sourceMode, setSourceMode] = useState<ReceiptInvoiceSourceMode>("file");
   const [file, setFile] = useState<File | null>(null);
@@ -40307,7 +41975,41 @@ function ReceiptInvoiceExtractorTool() {
   const [status, setStatus] = useState("Upload a receipt, invoice, or paste raw text to start extraction.");
   const [pageResults, setPageResults] = useState<OcrPageResult[]>([]);
   const [extractionMethod, setExtractionMethod] = useState("");
+  const [accountingFormat, setAccountingFormat] = useState<AccountingExportFormat>("quickbooks-iif");
+  const [accountingMapping, setAccountingMapping] = useState<AccountingExportMapping>(() => createDefaultAccountingMapping());
+  const [accountingWarnings, setAccountingWarnings] = useState<string[]>([]);
+  const [batchItems, setBatchItems] = useState<ReceiptBatchItem[]>([]);
+  const [batchRunning, setBatchRunning] = useState(false);
+  const [batchFlaggedOnly, setBatchFlaggedOnly] = useState(false);
+  const [activeBatchItemId, setActiveBatchItemId] = useState("");
   const progressBaseRef = useRef(0);
+  const batchCancelRef = useRef(false);
+
+  useEffect(() => {
+    setAccountingMapping(readAccountingMapping());
+  }, []);
+
+  const updateAccountingMapping = useCallback((patch: Partial<AccountingExportMapping>) => {
+    setAccountingMapping((current) => {
+      const next = { ...current, ...patch };
+      writeAccountingMapping(next);
+      return next;
+    });
+  }, []);
+
+  const exportAccountingFile = useCallback(() => {
+    if (!analysis) return;
+    try {
+      const result = buildAccountingExport(analysis, accountingFormat, accountingMapping);
+      downloadTextFile(result.filename, result.content, result.mimeType);
+      setAccountingWarnings(result.warnings);
+      setStatus(`Exported ${result.filename}.`);
+      trackEvent("receipt_accounting_export", { format: accountingFormat });
+    } catch (error) {
+      setAccountingWarnings([]);
+      setStatus(error instanceof Error ? error.message : "Could not build the accounting export.");
+    }
+  }, [accountingFormat, accountingMapping, analysis]);
 
   useEffect(() => {
     return () => {
@@ -40334,6 +42036,7 @@ function ReceiptInvoiceExtractorTool() {
     setPageResults([]);
     setProgress(0);
     setExtractionMethod("");
+    setActiveBatchItemId("");
 
     if (!nextFile) {
       setStatus("Upload a receipt, invoice, or paste raw text to start extraction.");
@@ -40383,8 +42086,6 @@ function ReceiptInvoiceExtractorTool() {
   const runOcrExtraction = useCallback(
     async (sourceFile: File): Promise<{ text: string; pageResults: OcrPageResult[] }> => {
       let worker: OcrWorkerLike | null = null;
-      let loadingTask: PdfJsLoadingTask | null = null;
-      let pdfDocument: PdfJsDocument | null = null;
 
       try {
         const tesseractModule = (await import("tesseract.js")) as unknown as OcrModuleLike;
@@ -40397,73 +42098,15 @@ function ReceiptInvoiceExtractorTool() {
           },
         });
 
-        const results: OcrPageResult[] = [];
-
-        if (sourceFile.type.startsWith("image/")) {
-          setStatus("Running OCR on the uploaded image...");
-          progressBaseRef.current = 0;
-          const recognition = await worker.recognize(sourceFile);
-          const data = recognition?.data as OcrRecognitionData | undefined;
-          const words = Array.isArray(data?.words) ? data.words : [];
-          results.push({
-            label: sourceFile.name,
-            text: data?.text ?? "",
-            confidence: Number.isFinite(data?.confidence ?? Number.NaN) ? Number(data?.confidence) : 0,
-            lowConfidenceWords: words
-              .filter((word) => (word.confidence ?? 0) > 0 && (word.confidence ?? 0) < 65)
-              .map((word) => word.text?.trim() ?? "")
-              .filter(Boolean)
-              .slice(0, 12),
-          });
-          setProgress(100);
-          return {
-            text: normalizeOcrText(results.map((entry) => entry.text).join("\n\n"), true),
-            pageResults: results,
-          };
-        }
-
-        setStatus("Rendering PDF pages and running OCR...");
-        const pdfjs = await loadPdfJsModule();
-        const bytes = await readPdfFileBytes(sourceFile);
-        const opened = await openPdfDocumentWithFallback(pdfjs, bytes);
-        loadingTask = opened.loadingTask;
-        pdfDocument = opened.pdfDocument;
-        const totalPages = Math.max(1, Math.min(pdfDocument.numPages, maxPdfPages));
-        const stepSize = 100 / totalPages;
-
-        for (let pageIndex = 0; pageIndex < totalPages; pageIndex += 1) {
-          const pageNumber = pageIndex + 1;
-          setStatus(`Running OCR on PDF page ${pageNumber}/${totalPages}...`);
-          const page = await pdfDocument.getPage(pageNumber);
-          const viewport = page.getViewport({ scale: 2 });
-          const canvas = document.createElement("canvas");
-          canvas.width = Math.max(1, Math.floor(viewport.width));
-          canvas.height = Math.max(1, Math.floor(viewport.height));
-          const context = canvas.getContext("2d");
-          if (!context) throw new Error("Canvas unavailable for OCR.");
-          await page.render({ canvasContext: context, viewport }).promise;
-          progressBaseRef.current = pageIndex * stepSize;
-
-          const recognition = await worker.recognize(canvas);
-          const data = recognition?.data as OcrRecognitionData | undefined;
-          const words = Array.isArray(data?.words) ? data.words : [];
-          results.push({
-            label: `Page ${pageNumber}`,
-            text: data?.text ?? "",
-            confidence: Number.isFinite(data?.confidence ?? Number.NaN) ? Number(data?.confidence) : 0,
-            lowConfidenceWords: words
-              .filter((word) => (word.confidence ?? 0) > 0 && (word.confidence ?? 0) < 65)
-              .map((word) => word.text?.trim() ?? "")
-              .filter(Boolean)
-              .slice(0, 12),
-          });
-          setProgress(Math.round((pageIndex + 1) * stepSize));
-        }
-
-        return {
-          text: normalizeOcrText(results.map((entry) => entry.text).join("\n\n"), true),
-          pageResults: results,
-        };
+        const isImage = sourceFile.type.startsWith("image/");
+        setStatus(isImage ? "Running OCR on the uploaded image..." : "Rendering PDF pages and running OCR...");
+        const result = await recognizeReceiptSource(worker, sourceFile, maxPdfPages, (pageIndex, totalPages) => {
+          progressBaseRef.current = pageIndex * (100 / totalPages);
+          setProgress(Math.round(progressBaseRef.current));
+          if (!isImage) setStatus(`Running OCR on PDF page ${pageIndex + 1}/${totalPages}...`);
+        });
+        setProgress(100);
+        return result;
       } finally {
         if (worker) {
           try {
@@ -40472,7 +42115,6 @@ function ReceiptInvoiceExtractorTool() {
             // Ignore OCR worker cleanup failures.
           }
         }
-        await closePdfDocumentResources(loadingTask, pdfDocument);
       }
     },
     [language, maxPdfPages],
@@ -40606,6 +42248,7 @@ function ReceiptInvoiceExtractorTool() {
       return;
     }
     setProgress(100);
+    setActiveBatchItemId("");
     finalizeExtraction(normalized, "Pasted text", []);
   }, [finalizeExtraction, inputText]);
 
@@ -40616,7 +42259,151 @@ function ReceiptInvoiceExtractorTool() {
       return;
     }
     finalizeExtraction(normalized, extractionMethod || "Edited extracted text", pageResults);
-  }, [extractedText, extractionMethod, finalizeExtraction, pageResults]);
+    if (activeBatchItemId) {
+      const nextAnalysis = analyzeReceiptInvoiceText(normalized);
+      setBatchItems((current) =>
+        current.map((item) =>
+          item.id === activeBatchItemId
+            ? { ...item, text: normalized, analysis: nextAnalysis, flags: reviewReceiptExtraction(nextAnalysis) }
+            : item,
+        ),
+      );
+    }
+  }, [activeBatchItemId, extractedText, extractionMethod, finalizeExtraction, pageResults]);
+
+  const addBatchFiles = useCallback(
+    (files: File[]) => {
+      if (!files.length) return;
+      const room = Math.max(0, RECEIPT_BATCH_LIMIT - batchItems.length);
+      const accepted = files.slice(0, room).filter((entry) => entry.size <= RECEIPT_FILE_SIZE_LIMIT);
+      const skipped = files.length - accepted.length;
+      setBatchItems((current) => [
+        ...current,
+        ...accepted.map((entry) => ({
+          id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+          file: entry,
+          status: "queued" as const,
+          method: "",
+          text: "",
+          analysis: null,
+          flags: [],
+          pageResults: [],
+          error: "",
+          reviewed: false,
+        })),
+      ]);
+      setStatus(
+        skipped
+          ? `Queued ${accepted.length} file${accepted.length === 1 ? "" : "s"}. Skipped ${skipped} over the ${RECEIPT_BATCH_LIMIT}-file or ${formatBytes(RECEIPT_FILE_SIZE_LIMIT)} limit.`
+          : `Queued ${accepted.length} file${accepted.length === 1 ? "" : "s"}.`,
+      );
+    },
+    [batchItems.length],
+  );
+
+  const runBatchQueue = useCallback(async () => {
+    const queue = batchItems.filter((item) => item.status === "queued" || item.status === "failed");
+    if (!queue.length) {
+      setStatus("There are no queued files to process.");
+      return;
+    }
+
+    const updateItem = (id: string, patch: Partial<ReceiptBatchItem>) => {
+      setBatchItems((current) => current.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+    };
+    const workerRef: { current: OcrWorkerLike | null } = { current: null };
+    const getWorker = async () => {
+      if (!workerRef.current) {
+        const tesseractModule = (await import("tesseract.js")) as unknown as OcrModuleLike;
+        workerRef.current = await tesseractModule.createWorker(language, 1);
+      }
+      return workerRef.current;
+    };
+
+    batchCancelRef.current = false;
+    setBatchRunning(true);
+    setProgress(0);
+    let processed = 0;
+    let failed = 0;
+    try {
+      for (const item of queue) {
+        if (batchCancelRef.current) break;
+        updateItem(item.id, { status: "processing", error: "" });
+        setStatus(`Processing ${item.file.name} (${processed + 1}/${queue.length})...`);
+        try {
+          const extracted = await extractReceiptBatchText(item.file, getWorker, maxPdfPages);
+          const text = normalizeUploadedText(extracted.text).trim();
+          if (!text) throw new Error("No readable text was extracted.");
+          const nextAnalysis = analyzeReceiptInvoiceText(text);
+          updateItem(item.id, {
+            status: "done",
+            method: extracted.method,
+            text,
+            analysis: nextAnalysis,
+            flags: reviewReceiptExtraction(nextAnalysis),
+            pageResults: extracted.pageResults,
+          });
+        } catch (error) {
+          failed += 1;
+          updateItem(item.id, {
+            status: "failed",
+            error: error instanceof Error && error.message ? error.message : "Could not extract this file.",
+          });
+        }
+        processed += 1;
+        setProgress(Math.round((processed / queue.length) * 100));
+      }
+    } finally {
+      if (workerRef.current) {
+        try {
+          await workerRef.current.terminate();
+        } catch {
+          // Ignore OCR worker cleanup failures.
+        }
+      }
+      setBatchRunning(false);
+    }
+
+    setStatus(
+      batchCancelRef.current
+        ? `Stopped after ${processed} of ${queue.length} files.`
+        : `Processed ${processed} file${processed === 1 ? "" : "s"}${failed ? `, ${failed} failed` : ""}.`,
+    );
+    trackEvent("receipt_batch_run", { files: processed, failed });
+  }, [batchItems, language, maxPdfPages]);
+
+  const openBatchItem = useCallback((item: ReceiptBatchItem) => {
+    if (!item.analysis) return;
+    setActiveBatchItemId(item.id);
+    setAnalysis(item.analysis);
+    setExtractedText(item.text);
+    setPageResults(item.pageResults);
+    setExtractionMethod(item.method);
+    setStatus(`Reviewing ${item.file.name}. Edit the extracted text and re-analyze to update the inbox.`);
+  }, []);
+
+  const batchSummary = useMemo(() => {
+    const done = batchItems.filter((item) => item.status === "done");
+    return {
+      queued: batchItems.filter((item) => item.status === "queued").length,
+      done: done.length,
+      failed: batchItems.filter((item) => item.status === "failed").length,
+      flagged: done.filter((item) => item.flags.length && !item.reviewed).length,
+    };
+  }, [batchItems]);
+
+  const visibleBatchItems = useMemo(
+    () => (batchFlaggedOnly ? batchItems.filter((item) => item.status === "failed" || (item.flags.length && !item.reviewed)) : batchItems),
+    [batchFlaggedOnly, batchItems],
+  );
+
+  const exportBatchLedger = useCallback(() => {
+    const entries = batchItems.flatMap((item) =>
+      item.analysis ? [{ source: item.file.name, extraction: item.analysis, flags: item.flags, reviewed: item.reviewed }] : [],
+    );
+    if (!entries.length) return;
+    downloadTextFile("receipt-ledger.csv", buildReceiptLedgerCsv(entries), "text/csv;charset=utf-8;");
+  }, [batchItems]);
 
   const bookkeepingCsvRows = useMemo(() => {
     if (!analysis) return [];
@@ -40699,16 +42486,32 @@ function ReceiptInvoiceExtractorTool() {
         >
           Paste text
         </button>
+        <button
+          className={`chip-button${sourceMode === "batch" ? " active" : ""}`}
+          type="button"
+          onClick={() => setSourceMode("batch")}
+          aria-pressed={sourceMode === "batch"}
+        >
+          Batch inbox
+        </button>
       </div>
 
-      {sourceMode === "file" ? (
+      {sourceMode !== "text" ? (
         <div className="field-grid">
           <label className="field">
-            <span>Source file</span>
+            <span>{sourceMode === "batch" ? "Add files to the inbox" : "Source file"}</span>
             <input
               type="file"
               accept={RECEIPT_INVOICE_UPLOAD_ACCEPT}
-              onChange={(event) => setPickedFile(event.target.files?.[0] ?? null)}
+              multiple={sourceMode === "batch"}
+              onChange={(event) => {
+                if (sourceMode === "batch") {
+                  addBatchFiles(Array.from(event.target.files ?? []));
+                  event.target.value = "";
+                } else {
+                  setPickedFile(event.target.files?.[0] ?? null);
+                }
+              }}
             />
           </label>
           <label className="field">
@@ -40751,21 +42554,179 @@ function ReceiptInvoiceExtractorTool() {
         </label>
       )}
 
+      {sourceMode === "batch" ? (
+        <div className="mini-panel">
+          <div className="panel-head">
+            <h3>Batch inbox</h3>
+            <span className="supporting-text">
+              Files are processed one at a time with a shared OCR worker. Rows whose totals do not reconcile or that contain
+              low-confidence line items are flagged for review.
+            </span>
+          </div>
+          <ResultList
+            rows={[
+              { label: "Files", value: formatNumericValue(batchItems.length) },
+              { label: "Queued", value: formatNumericValue(batchSummary.queued) },
+              { label: "Extracted", value: formatNumericValue(batchSummary.done) },
+              { label: "Needs review", value: formatNumericValue(batchSummary.flagged) },
+              { label: "Failed", value: formatNumericValue(batchSummary.failed) },
+            ]}
+          />
+          <div className="button-row">
+            <button
+              className="action-button"
+              type="button"
+              disabled={batchRunning || processing || !(batchSummary.queued || batchSummary.failed)}
+              onClick={() => void runBatchQueue()}
+            >
+              {batchRunning ? "Processing..." : "Process inbox"}
+            </button>
+            <button
+              className="action-button secondary"
+              type="button"
+              disabled={!batchRunning}
+              onClick={() => {
+                batchCancelRef.current = true;
+              }}
+            >
+              Stop after current file
+            </button>
+            <button className="action-button secondary" type="button" disabled={!batchSummary.done} onClick={exportBatchLedger}>
+              <Download size={15} />
+              Ledger CSV
+            </button>
+            <button
+              className="action-button secondary"
+              type="button"
+              disabled={batchRunning || !batchItems.length}
+              onClick={() => {
+                setBatchItems([]);
+                setActiveBatchItemId("");
+              }}
+            >
+              <Trash2 size={15} />
+              Clear inbox
+            </button>
+            <label className="checkbox">
+              <input type="checkbox" checked={batchFlaggedOnly} onChange={(event) => setBatchFlaggedOnly(event.target.checked)} />
+              Show only items needing review
+            </label>
+          </div>
+          {visibleBatchItems.length ? (
+            <div className="table-scroll">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>File</th>
+                    <th>Status</th>
+                    <th>Merchant</th>
+                    <th>Date</th>
+                    <th>Total</th>
+                    <th>Confidence</th>
+                    <th>Flags</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleBatchItems.map((item) => (
+                    <tr key={item.id}>
+                      <td>
+                        {item.file.name}
+                        {item.id === activeBatchItemId ? <span className="status-badge info">Open</span> : null}
+                      </td>
+                      <td>
+                        <span
+                          className={`status-badge ${
+                            item.status === "done" ? "ok" : item.status === "failed" ? "bad" : item.status === "processing" ? "warn" : "info"
+                          }`}
+                        >
+                          {item.status}
+                        </span>
+                        {item.error ? <small className="supporting-text">{item.error}</small> : null}
+                      </td>
+                      <td>{item.analysis?.merchantName || "-"}</td>
+                      <td>{item.analysis?.purchaseDate || "-"}</td>
+                      <td>
+                        {!item.analysis || item.analysis.total.amount === null
+                          ? "-"
+                          : formatCurrencyWithCode(item.analysis.total.amount, item.analysis.total.currency || item.analysis.currency)}
+                      </td>
+                      <td>{item.analysis ? `${item.analysis.confidenceScore}%` : "-"}</td>
+                      <td>
+                        {item.status !== "done" ? (
+                          "-"
+                        ) : item.reviewed ? (
+                          <span className="status-badge ok">Reviewed</span>
+                        ) : item.flags.length ? (
+                          <>
+                            <span className="status-badge warn">{item.flags.length}</span>
+                            {item.flags.slice(0, 2).map((flag) => (
+                              <small key={`${flag.kind}-${flag.lineItemId}`} className="supporting-text">
+                                {flag.message}
+                              </small>
+                            ))}
+                          </>
+                        ) : (
+                          <span className="status-badge ok">OK</span>
+                        )}
+                      </td>
+                      <td>
+                        <div className="button-row">
+                          <button className="chip-button" type="button" disabled={!item.analysis} onClick={() => openBatchItem(item)}>
+                            Review
+                          </button>
+                          <button
+                            className="chip-button"
+                            type="button"
+                            disabled={item.status !== "done"}
+                            onClick={() =>
+                              setBatchItems((current) =>
+                                current.map((entry) => (entry.id === item.id ? { ...entry, reviewed: !entry.reviewed } : entry)),
+                              )
+                            }
+                          >
+                            {item.reviewed ? "Unmark" : "Mark reviewed"}
+                          </button>
+                          <button
+                            className="chip-button"
+                            type="button"
+                            disabled={item.status === "processing"}
+                            onClick={() => setBatchItems((current) => current.filter((entry) => entry.id !== item.id))}
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="supporting-text">
+              {batchItems.length ? "No items need review." : `Add up to ${RECEIPT_BATCH_LIMIT} images, PDFs, or documents.`}
+            </p>
+          )}
+        </div>
+      ) : null}
+
       <div className="button-row">
-        <button
-          className="action-button"
-          type="button"
-          disabled={processing || (sourceMode === "file" ? !file : !inputText.trim())}
-          onClick={() => {
-            if (sourceMode === "file") {
-              void extractFromFile();
-            } else {
-              analyzePastedText();
-            }
-          }}
-        >
-          {processing ? "Extracting..." : "Extract fields"}
-        </button>
+        {sourceMode !== "batch" ? (
+          <button
+            className="action-button"
+            type="button"
+            disabled={processing || (sourceMode === "file" ? !file : !inputText.trim())}
+            onClick={() => {
+              if (sourceMode === "file") {
+                void extractFromFile();
+              } else {
+                analyzePastedText();
+              }
+            }}
+          >
+            {processing ? "Extracting..." : "Extract fields"}
+          </button>
+        ) : null}
         <button
           className="action-button secondary"
           type="button"
@@ -40846,7 +42807,7 @@ function ReceiptInvoiceExtractorTool() {
       </div>
 
       {status ? <p className="supporting-text">{status}</p> : null}
-      {processing ? (
+      {processing || batchRunning ? (
         <div className="progress-panel">
           <p>Extraction progress: {progress}%</p>
           <div className="limit-meter">
@@ -40997,6 +42958,230 @@ function ReceiptInvoiceExtractorTool() {
         </div>
       ) : null}
 
+      {analysis ? (
+        <div className="mini-panel">
+          <div className="panel-head">
+            <h3>Accounting export</h3>
+            <span className="supporting-text">
+              Map categories to your chart of accounts and tax codes once; the mapping is remembered in this browser. Use account names
+              for QuickBooks and account codes for Xero.
+            </span>
+          </div>
+          <div className="field-grid">
+            <label className="field">
+              <span>Format</span>
+              <select value={accountingFormat} onChange={(event) => setAccountingFormat(event.target.value as AccountingExportFormat)}>
+                {ACCOUNTING_EXPORT_FORMAT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="field">
+              <span>Default expense account</span>
+              <input
+                type="text"
+                value={accountingMapping.defaultExpenseAccount}
+                onChange={(event) => updateAccountingMapping({ defaultExpenseAccount: event.target.value })}
+              />
+            </label>
+            <label className="field">
+              <span>Tax rate override (%)</span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                step={0.01}
+                value={accountingMapping.taxRatePercent ?? ""}
+                placeholder="Derived from tax / net"
+                onChange={(event) =>
+                  updateAccountingMapping({
+                    taxRatePercent: event.target.value === "" ? null : Math.max(0, Math.min(100, Number(event.target.value) || 0)),
+                  })
+                }
+              />
+            </label>
+            {accountingFormat === "quickbooks-iif" ? (
+              <>
+                <label className="field">
+                  <span>Accounts payable account</span>
+                  <input
+                    type="text"
+                    value={accountingMapping.payableAccount}
+                    onChange={(event) => updateAccountingMapping({ payableAccount: event.target.value })}
+                  />
+                </label>
+                <label className="field">
+                  <span>Tax account</span>
+                  <input
+                    type="text"
+                    value={accountingMapping.taxAccount}
+                    onChange={(event) => updateAccountingMapping({ taxAccount: event.target.value })}
+                  />
+                </label>
+              </>
+            ) : null}
+            {accountingFormat === "xero-bill-csv" ? (
+              <>
+                <label className="field">
+                  <span>Xero tax type</span>
+                  <input
+                    type="text"
+                    value={accountingMapping.taxCode}
+                    onChange={(event) => updateAccountingMapping({ taxCode: event.target.value })}
+                  />
+                </label>
+                <label className="field">
+                  <span>Date format</span>
+                  <select
+                    value={accountingMapping.xeroDateFormat}
+                    onChange={(event) => updateAccountingMapping({ xeroDateFormat: event.target.value as AccountingDateFormat })}
+                  >
+                    <option value="dmy">DD/MM/YYYY</option>
+                    <option value="mdy">MM/DD/YYYY</option>
+                    <option value="iso">YYYY-MM-DD</option>
+                  </select>
+                </label>
+              </>
+            ) : null}
+            {accountingFormat === "ubl-invoice" ? (
+              <>
+                <label className="field">
+                  <span>Tax category</span>
+                  <select
+                    value={accountingMapping.ublTaxCategory}
+                    onChange={(event) => updateAccountingMapping({ ublTaxCategory: event.target.value as UblTaxCategory })}
+                  >
+                    {UBL_TAX_CATEGORY_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="field">
+                  <span>Supplier country (ISO)</span>
+                  <input
+                    type="text"
+                    maxLength={2}
+                    value={accountingMapping.supplierCountry}
+                    onChange={(event) => updateAccountingMapping({ supplierCountry: event.target.value.toUpperCase() })}
+                  />
+                </label>
+                <label className="field">
+                  <span>Supplier Peppol ID</span>
+                  <input
+                    type="text"
+                    value={accountingMapping.supplierEndpointId}
+                    onChange={(event) => updateAccountingMapping({ supplierEndpointId: event.target.value })}
+                  />
+                </label>
+                <label className="field">
+                  <span>Buyer name</span>
+                  <input
+                    type="text"
+                    value={accountingMapping.buyerName}
+                    onChange={(event) => updateAccountingMapping({ buyerName: event.target.value })}
+                  />
+                </label>
+                <label className="field">
+                  <span>Buyer VAT ID</span>
+                  <input
+                    type="text"
+                    value={accountingMapping.buyerTaxId}
+                    onChange={(event) => updateAccountingMapping({ buyerTaxId: event.target.value })}
+                  />
+                </label>
+                <label className="field">
+                  <span>Buyer country (ISO)</span>
+                  <input
+                    type="text"
+                    maxLength={2}
+                    value={accountingMapping.buyerCountry}
+                    onChange={(event) => updateAccountingMapping({ buyerCountry: event.target.value.toUpperCase() })}
+                  />
+                </label>
+                <label className="field">
+                  <span>Buyer Peppol ID</span>
+                  <input
+                    type="text"
+                    value={accountingMapping.buyerEndpointId}
+                    onChange={(event) => updateAccountingMapping({ buyerEndpointId: event.target.value })}
+                  />
+                </label>
+                <label className="field">
+                  <span>Endpoint scheme</span>
+                  <input
+                    type="text"
+                    value={accountingMapping.endpointScheme}
+                    onChange={(event) => updateAccountingMapping({ endpointScheme: event.target.value })}
+                  />
+                </label>
+              </>
+            ) : null}
+          </div>
+          <div className="table-scroll">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Category</th>
+                  <th>Expense account</th>
+                </tr>
+              </thead>
+              <tbody>
+                {RECEIPT_CATEGORY_OPTIONS.map((category) => (
+                  <tr key={category}>
+                    <td>
+                      {category}
+                      {category === analysis.categorySuggestion ? <span className="status-badge info">This document</span> : null}
+                    </td>
+                    <td>
+                      <input
+                        type="text"
+                        value={accountingMapping.categoryAccounts[category] ?? ""}
+                        placeholder={accountingMapping.defaultExpenseAccount}
+                        onChange={(event) =>
+                          updateAccountingMapping({
+                            categoryAccounts: { ...accountingMapping.categoryAccounts, [category]: event.target.value },
+                          })
+                        }
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="button-row">
+            <button className="action-button" type="button" onClick={exportAccountingFile}>
+              <Download size={15} />
+              Export for accounting
+            </button>
+            <button
+              className="action-button secondary"
+              type="button"
+              onClick={() => {
+                const defaults = createDefaultAccountingMapping();
+                setAccountingMapping(defaults);
+                writeAccountingMapping(defaults);
+              }}
+            >
+              Reset mapping
+            </button>
+          </div>
+          {accountingWarnings.length ? (
+            <ul className="plain-list">
+              {accountingWarnings.map((warning) => (
+                <li key={warning} className="supporting-text">
+                  {warning}
+                </li>
+              ))}
+            </ul>
+          ) : null}
+        </div>
+      ) : null}
+
       <label className="field">
         <span>Extracted text</span>
         <textarea
@@ -41551,6 +43736,22 @@ function RemittanceFxComparatorTool() {
   );
 }
 
+const SUBTITLE_IMPORT_EXTENSIONS = ["srt", "vtt", "ass", "ssa", "ttml", "dfxp", "xml", "sbv", "scc"];
+
+function parseTimingInputMs(value: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) return Math.round(Number.parseFloat(trimmed) * 1000);
+  const match = trimmed.match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return null;
+  return (
+    Number(match[1] ?? 0) * 3_600_000 +
+    Number(match[2]) * 60_000 +
+    Number(match[3]) * 1000 +
+    Number((match[4] ?? "0").padEnd(3, "0"))
+  );
+}
+
 function TranscriptSubtitleStudioTool() {
   const [mediaFile, setMediaFile] = useState<File | null>(null);
   const [mediaUrl, setMediaUrl] = useState("");
@@ -41565,6 +43766,28 @@ function TranscriptSubtitleStudioTool() {
   const [translationSourceLanguage, setTranslationSourceLanguage] = useState(TRANSLATION_AUTO_LANGUAGE_CODE);
   const [translating, setTranslating] = useState(false);
   const [translationProgress, setTranslationProgress] = useState(0);
+  const [exportFormat, setExportFormat] = useState<SubtitleFormat>("ass");
+  const [frameRate, setFrameRate] = useState<SubtitleFrameRate>("25");
+  const [shiftSeconds, setShiftSeconds] = useState("0");
+  const [stretchFactor, setStretchFactor] = useState("1");
+  const [sourceFrameRate, setSourceFrameRate] = useState<SubtitleFrameRate>("23.976");
+  const [syncPoints, setSyncPoints] = useState({ firstSource: "", firstTarget: "", secondSource: "", secondTarget: "" });
+  const [lintSettings, setLintSettings] = useState({ maxCharsPerSecond: "17", maxLineLength: "42", maxLines: "2", minGapMs: "83" });
+  const [speechModel, setSpeechModel] = useState(SPEECH_MODEL_OPTIONS[0].id);
+  const [speechLanguage, setSpeechLanguage] = useState("");
+  const [transcribing, setTranscribing] = useState(false);
+  const [speechStatus, setSpeechStatus] = useState("");
+  const [wordTimings, setWordTimings] = useState<SubtitleWordTiming[]>([]);
+  const [timedTranscript, setTimedTranscript] = useState("");
+  const speechWorkerRef = useRef<Worker | null>(null);
+  const cancelSpeechRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    return () => {
+      speechWorkerRef.current?.terminate();
+      speechWorkerRef.current = null;
+    };
+  }, []);
 
   useEffect(() => {
     return () => {
@@ -41594,11 +43817,14 @@ function TranscriptSubtitleStudioTool() {
     try {
       const raw = await readTextFileWithLimit(file, 4 * 1024 * 1024);
       const extension = getFileExtension(file.name);
-      if (extension === "srt" || extension === "vtt") {
-        const parsed = parseSubtitleFile(raw);
+      if (SUBTITLE_IMPORT_EXTENSIONS.includes(extension)) {
+        const format = detectSubtitleFormat(raw, file.name);
+        const parsed = parseSubtitleFile(raw, format);
         setCues(parsed);
         setTranscriptText(cuesToTranscript(parsed));
-        setStatus(`Imported ${parsed.length} subtitle cue${parsed.length === 1 ? "" : "s"} from ${file.name}.`);
+        setStatus(
+          `Imported ${parsed.length} subtitle cue${parsed.length === 1 ? "" : "s"} from ${file.name} (${SUBTITLE_FORMAT_LABELS[format]}).`,
+        );
         return;
       }
       const normalized = normalizeUploadedText(raw);
@@ -41615,20 +43841,109 @@ function TranscriptSubtitleStudioTool() {
       setStatus("Paste or import transcript text first.");
       return;
     }
-    const generated = generateSubtitleCues(normalized, {
-      mediaDurationSeconds: mediaDurationSeconds || undefined,
+    const groupingOptions = {
       targetCharsPerCue: Math.max(28, safeNumberValue(targetCharsPerCue)),
       minCueSeconds: Math.max(1.2, safeNumberValue(minCueSeconds)),
       maxCueSeconds: Math.max(1.5, safeNumberValue(maxCueSeconds)),
-    });
+    };
+    const useWordTimings = wordTimings.length > 0 && normalized === timedTranscript;
+    const generated = useWordTimings
+      ? generateSubtitleCuesFromWords(wordTimings, groupingOptions)
+      : generateSubtitleCues(normalized, { ...groupingOptions, mediaDurationSeconds: mediaDurationSeconds || undefined });
     setCues(generated);
-    setStatus(`Generated ${generated.length} subtitle cue${generated.length === 1 ? "" : "s"} from the transcript.`);
+    setStatus(
+      `Generated ${generated.length} subtitle cue${generated.length === 1 ? "" : "s"} from the transcript${
+        useWordTimings ? " using recognized word timings" : ""
+      }.`,
+    );
     trackEvent("tool_transcript_subtitle_generate", {
       cues: generated.length,
       hasMediaDuration: mediaDurationSeconds > 0,
+      wordTimings: useWordTimings,
     });
     emitShareSignal({ action: "success", context: "transcript-subtitle-studio" });
-  }, [maxCueSeconds, mediaDurationSeconds, minCueSeconds, targetCharsPerCue, transcriptText]);
+  }, [maxCueSeconds, mediaDurationSeconds, minCueSeconds, targetCharsPerCue, timedTranscript, transcriptText, wordTimings]);
+
+  const transcribeMedia = useCallback(async () => {
+    if (!mediaFile) {
+      setStatus("Upload an audio or video file to transcribe.");
+      return;
+    }
+    setTranscribing(true);
+    setSpeechStatus("Decoding audio in the browser...");
+    try {
+      const audio = await decodeMediaToMonoPcm(mediaFile);
+      const worker =
+        speechWorkerRef.current ?? new Worker(new URL("../workers/speech-to-text.worker.ts", import.meta.url), { type: "module" });
+      speechWorkerRef.current = worker;
+      const requestId = crypto.randomUUID();
+      const result = await new Promise<{ text: string; words: SubtitleWordTiming[] }>((resolve, reject) => {
+        const cleanup = () => {
+          worker.removeEventListener("message", handleMessage);
+          worker.removeEventListener("error", handleError);
+          cancelSpeechRef.current = null;
+        };
+        const handleMessage = (event: MessageEvent<SpeechWorkerResponse>) => {
+          const message = event.data;
+          if (message.requestId !== requestId) return;
+          if (message.type === "download") {
+            setSpeechStatus(`Downloading ${message.file.split("/").pop()} (${message.progress}%)...`);
+          } else if (message.type === "status") {
+            setSpeechStatus(message.message);
+          } else if (message.type === "result") {
+            cleanup();
+            resolve({ text: message.text, words: message.words });
+          } else {
+            cleanup();
+            reject(new Error(message.message));
+          }
+        };
+        const handleError = () => {
+          cleanup();
+          speechWorkerRef.current = null;
+          reject(new Error("The speech worker stopped unexpectedly."));
+        };
+        cancelSpeechRef.current = () => {
+          cleanup();
+          reject(new Error("Transcription cancelled."));
+        };
+        worker.addEventListener("message", handleMessage);
+        worker.addEventListener("error", handleError);
+        const request: SpeechWorkerRequest = { type: "transcribe", requestId, model: speechModel, language: speechLanguage, audio };
+        worker.postMessage(request, [audio.buffer]);
+      });
+
+      if (!result.words.length) {
+        setStatus("No speech was recognized in this file.");
+        return;
+      }
+      const generated = generateSubtitleCuesFromWords(result.words, {
+        targetCharsPerCue: Math.max(28, safeNumberValue(targetCharsPerCue)),
+        minCueSeconds: Math.max(1.2, safeNumberValue(minCueSeconds)),
+        maxCueSeconds: Math.max(1.5, safeNumberValue(maxCueSeconds)),
+      });
+      const transcript = cuesToTranscript(generated);
+      setWordTimings(result.words);
+      setTimedTranscript(transcript);
+      setTranscriptText(transcript);
+      setCues(generated);
+      setStatus(
+        `Transcribed ${formatNumericValue(result.words.length)} words into ${generated.length} timed cue${generated.length === 1 ? "" : "s"}.`,
+      );
+      trackEvent("tool_transcript_subtitle_transcribe", { model: speechModel, words: result.words.length });
+    } catch (error) {
+      setStatus(error instanceof Error && error.message ? error.message : "Could not transcribe this file.");
+    } finally {
+      setTranscribing(false);
+      setSpeechStatus("");
+    }
+  }, [maxCueSeconds, mediaFile, minCueSeconds, speechLanguage, speechModel, targetCharsPerCue]);
+
+  const cancelTranscription = useCallback(() => {
+    speechWorkerRef.current?.terminate();
+    speechWorkerRef.current = null;
+    cancelSpeechRef.current?.();
+  }, []);
 
   const speakerNotes = useMemo(
     () => (cues.length ? buildSpeakerNotes(cues) : parseTranscriptSpeakers(transcriptText)),
@@ -41651,7 +43966,7 @@ function TranscriptSubtitleStudioTool() {
       const translated: SubtitleCue[] = [];
       for (let index = 0; index < cues.length; index += 1) {
         const cue = cues[index];
-        const response = await fetch("/api/text-translate", {
+        const response = await fetchWithRateLimitRetry("/api/text-translate", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
@@ -41715,12 +44030,93 @@ function TranscriptSubtitleStudioTool() {
     setCues((current) => current.filter((cue) => cue.id !== id));
   }, []);
 
+  const applyShiftStretch = useCallback(() => {
+    const factor = safeNumberValue(stretchFactor);
+    if (factor <= 0) {
+      setStatus("Stretch factor must be greater than zero.");
+      return;
+    }
+    setCues((current) => retimeSubtitleCues(current, { offsetMs: Math.round(safeNumberValue(shiftSeconds) * 1000), factor }));
+    setStatus(`Shifted cues by ${formatNumericValue(safeNumberValue(shiftSeconds))} sec with stretch ${formatNumericValue(factor)}.`);
+  }, [shiftSeconds, stretchFactor]);
+
+  const applyFrameRateConversion = useCallback(() => {
+    const factor = getFrameRateConversionFactor(sourceFrameRate, frameRate);
+    setCues((current) => snapCuesToFrameRate(retimeSubtitleCues(current, { factor }), frameRate));
+    setStatus(
+      `Converted timing from ${SUBTITLE_FRAME_RATES[sourceFrameRate].label} to ${SUBTITLE_FRAME_RATES[frameRate].label} (x${factor.toFixed(5)}).`,
+    );
+  }, [frameRate, sourceFrameRate]);
+
+  const applySyncPoints = useCallback(() => {
+    const firstSource = parseTimingInputMs(syncPoints.firstSource);
+    const firstTarget = parseTimingInputMs(syncPoints.firstTarget);
+    if (firstSource === null || firstTarget === null) {
+      setStatus("Enter at least the first cue time and where it should appear.");
+      return;
+    }
+    const secondSource = parseTimingInputMs(syncPoints.secondSource);
+    const secondTarget = parseTimingInputMs(syncPoints.secondTarget);
+    const options =
+      secondSource === null || secondTarget === null
+        ? { offsetMs: firstTarget - firstSource }
+        : deriveRetimeFromSyncPoints({ sourceMs: firstSource, targetMs: firstTarget }, { sourceMs: secondSource, targetMs: secondTarget });
+    if (options.factor !== undefined && options.factor <= 0) {
+      setStatus("Sync points must keep the cues in the same order.");
+      return;
+    }
+    setCues((current) => retimeSubtitleCues(current, options));
+    setStatus(
+      `Resynced cues: offset ${formatNumericValue((options.offsetMs ?? 0) / 1000)} sec, stretch ${formatNumericValue(options.factor ?? 1)}.`,
+    );
+  }, [syncPoints]);
+
+  const lintOptions = useMemo(
+    () => ({
+      maxCharsPerSecond: safeNumberValue(lintSettings.maxCharsPerSecond) || 17,
+      maxLineLength: safeNumberValue(lintSettings.maxLineLength) || 42,
+      maxLines: safeNumberValue(lintSettings.maxLines) || 2,
+      minGapMs: Math.max(0, safeNumberValue(lintSettings.minGapMs)),
+    }),
+    [lintSettings],
+  );
+  const lintIssues = useMemo(() => lintSubtitleCues(cues, lintOptions), [cues, lintOptions]);
+  const lintRuleCounts = useMemo(() => {
+    const counts = new Map<SubtitleLintRule, number>();
+    lintIssues.forEach((issue) => counts.set(issue.rule, (counts.get(issue.rule) ?? 0) + 1));
+    return counts;
+  }, [lintIssues]);
+
+  const applyLintFixes = useCallback(
+    (rules?: SubtitleLintRule[]) => {
+      const fixed = fixSubtitleCues(cues, lintOptions, rules);
+      const remaining = lintSubtitleCues(fixed, lintOptions).length;
+      setCues(fixed);
+      setStatus(
+        `Auto-fix resolved ${Math.max(0, lintIssues.length - remaining)} of ${lintIssues.length} issue${
+          lintIssues.length === 1 ? "" : "s"
+        }${remaining ? `; ${remaining} need manual edits` : ""}.`,
+      );
+      trackEvent("tool_transcript_subtitle_lint_fix", { issues: lintIssues.length, remaining });
+    },
+    [cues, lintIssues.length, lintOptions],
+  );
+
+  const downloadSubtitleExport = useCallback(() => {
+    downloadTextFile(
+      `captions.${SUBTITLE_FORMAT_EXTENSIONS[exportFormat]}`,
+      exportSubtitles(cues, exportFormat, { title: mediaFile?.name }),
+      SUBTITLE_FORMAT_MIME_TYPES[exportFormat],
+    );
+    trackEvent("tool_transcript_subtitle_export", { format: exportFormat, cues: cues.length });
+  }, [cues, exportFormat, mediaFile]);
+
   return (
     <section className="tool-surface">
       <ToolHeading
         icon={Volume2}
         title="Transcript & subtitle studio"
-        subtitle="Import transcript text, generate subtitle cues, translate tracks, and export SRT/VTT with media preview support."
+        subtitle="Transcribe media in the browser or import transcript text and SRT/VTT/ASS/TTML/SBV/SCC subtitles, generate and resync cues, translate tracks, and export to broadcast and web formats."
       />
 
       <div className="field-grid">
@@ -41730,7 +44126,11 @@ function TranscriptSubtitleStudioTool() {
         </label>
         <label className="field">
           <span>Transcript / subtitle import</span>
-          <input type="file" accept=".txt,.md,.srt,.vtt,text/plain,text/markdown" onChange={(event) => void importTranscriptFile(event.target.files?.[0] ?? null)} />
+          <input
+            type="file"
+            accept=".txt,.md,.srt,.vtt,.ass,.ssa,.ttml,.dfxp,.xml,.sbv,.scc,text/plain,text/markdown"
+            onChange={(event) => void importTranscriptFile(event.target.files?.[0] ?? null)}
+          />
         </label>
         <div className="mini-panel">
           <h3>First version scope</h3>
@@ -41766,6 +44166,61 @@ function TranscriptSubtitleStudioTool() {
         </div>
       ) : null}
 
+      <div className="mini-panel">
+        <div className="panel-head">
+          <h3>Speech to text</h3>
+          <span className="supporting-text">Runs on this device. Audio never leaves the browser.</span>
+        </div>
+        <div className="field-grid">
+          <label className="field">
+            <span>Speech model</span>
+            <select value={speechModel} onChange={(event) => setSpeechModel(event.target.value)} disabled={transcribing}>
+              {SPEECH_MODEL_OPTIONS.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.label} (~{option.approxDownloadMb} MB)
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="field">
+            <span>Spoken language</span>
+            <select
+              value={speechLanguage}
+              onChange={(event) => setSpeechLanguage(event.target.value)}
+              disabled={transcribing || !SPEECH_MODEL_OPTIONS.find((option) => option.id === speechModel)?.multilingual}
+            >
+              <option value="">Auto detect</option>
+              {SPEECH_LANGUAGE_OPTIONS.map((option) => (
+                <option key={`stt-${option.code}`} value={option.code}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <p className="supporting-text">
+          The model is downloaded once and cached by the browser. Long recordings can take several minutes on slower devices.
+        </p>
+        <div className="button-row">
+          <button className="action-button" type="button" onClick={() => void transcribeMedia()} disabled={!mediaFile || transcribing}>
+            <Volume2 size={15} />
+            {transcribing ? "Transcribing..." : "Transcribe media"}
+          </button>
+          {transcribing ? (
+            <button className="action-button secondary" type="button" onClick={cancelTranscription}>
+              Cancel
+            </button>
+          ) : null}
+        </div>
+        {speechStatus ? <p className="supporting-text">{speechStatus}</p> : null}
+        {wordTimings.length ? (
+          <p className="supporting-text">
+            {formatNumericValue(wordTimings.length)} recognized words with timings. Regenerating subtitles keeps these timings until the transcript
+            text is edited.
+          </p>
+        ) : null}
+      </div>
+
       <label className="field">
         <span>Transcript text</span>
         <textarea
@@ -41920,7 +44375,10 @@ function TranscriptSubtitleStudioTool() {
                 </label>
                 <div className="history-line">
                   <small className="supporting-text">
-                    {`${formatSubtitleTimestamp(cue.startMs, "vtt")} --> ${formatSubtitleTimestamp(cue.endMs, "vtt")}`}
+                    {`${formatSubtitleTimestamp(cue.startMs, "vtt")} --> ${formatSubtitleTimestamp(cue.endMs, "vtt")} | ${formatFrameTimecode(
+                      cue.startMs,
+                      frameRate,
+                    )} - ${formatFrameTimecode(cue.endMs, frameRate)}`}
                   </small>
                   <button className="chip-button" type="button" onClick={() => removeCue(cue.id)}>
                     Remove
@@ -41932,6 +44390,235 @@ function TranscriptSubtitleStudioTool() {
         </div>
       ) : null}
 
+      {cues.length ? (
+        <div className="mini-panel">
+          <div className="panel-head">
+            <h3>Quality check</h3>
+            <span className={`status-badge ${lintIssues.some((issue) => issue.severity === "error") ? "bad" : lintIssues.length ? "warn" : "ok"}`}>
+              {lintIssues.length ? `${lintIssues.length} issue${lintIssues.length === 1 ? "" : "s"}` : "No issues"}
+            </span>
+          </div>
+          <div className="field-grid">
+            <label className="field">
+              <span>Max characters / second</span>
+              <input
+                type="number"
+                min={5}
+                max={40}
+                step={1}
+                value={lintSettings.maxCharsPerSecond}
+                onChange={(event) => setLintSettings((current) => ({ ...current, maxCharsPerSecond: event.target.value }))}
+              />
+            </label>
+            <label className="field">
+              <span>Max line length</span>
+              <input
+                type="number"
+                min={16}
+                max={80}
+                step={1}
+                value={lintSettings.maxLineLength}
+                onChange={(event) => setLintSettings((current) => ({ ...current, maxLineLength: event.target.value }))}
+              />
+            </label>
+            <label className="field">
+              <span>Max lines per cue</span>
+              <input
+                type="number"
+                min={1}
+                max={4}
+                step={1}
+                value={lintSettings.maxLines}
+                onChange={(event) => setLintSettings((current) => ({ ...current, maxLines: event.target.value }))}
+              />
+            </label>
+            <label className="field">
+              <span>Min gap between cues (ms)</span>
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={lintSettings.minGapMs}
+                onChange={(event) => setLintSettings((current) => ({ ...current, minGapMs: event.target.value }))}
+              />
+            </label>
+          </div>
+          {lintRuleCounts.size ? (
+            <div className="chip-list">
+              {[...lintRuleCounts.entries()].map(([rule, count]) => (
+                <span key={rule} className="status-badge info">
+                  {SUBTITLE_LINT_RULE_LABELS[rule]}: {formatNumericValue(count)}
+                </span>
+              ))}
+            </div>
+          ) : null}
+          <div className="button-row">
+            <button className="action-button secondary" type="button" disabled={!lintIssues.length} onClick={() => applyLintFixes()}>
+              Fix all
+            </button>
+            <button
+              className="action-button secondary"
+              type="button"
+              disabled={!lintRuleCounts.has("line-length") && !lintRuleCounts.has("line-count")}
+              onClick={() => applyLintFixes(["line-length", "line-count"])}
+            >
+              Rebalance line breaks
+            </button>
+            <button
+              className="action-button secondary"
+              type="button"
+              disabled={!lintRuleCounts.has("reading-speed") && !lintRuleCounts.has("zero-length")}
+              onClick={() => applyLintFixes(["zero-length", "reading-speed"])}
+            >
+              Extend / merge cues
+            </button>
+            <button
+              className="action-button secondary"
+              type="button"
+              disabled={!lintRuleCounts.has("overlap") && !lintRuleCounts.has("short-gap")}
+              onClick={() => applyLintFixes(["overlap", "short-gap"])}
+            >
+              Fix overlaps and gaps
+            </button>
+          </div>
+          {lintIssues.length ? (
+            <ul className="plain-list">
+              {lintIssues.slice(0, 200).map((issue) => (
+                <li key={`${issue.cueId}-${issue.rule}`}>
+                  <div className="history-line">
+                    <span>
+                      <strong>Cue {issue.cueIndex + 1}</strong> {formatSubtitleTimestamp(cues[issue.cueIndex]?.startMs ?? 0, "vtt")} ·{" "}
+                      {issue.message}
+                    </span>
+                    <span className={`status-badge ${issue.severity === "error" ? "bad" : "warn"}`}>{SUBTITLE_LINT_RULE_LABELS[issue.rule]}</span>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : null}
+          {lintIssues.length > 200 ? <p className="supporting-text">Showing the first 200 issues.</p> : null}
+        </div>
+      ) : null}
+
+      {cues.length ? (
+        <div className="mini-panel">
+          <div className="panel-head">
+            <h3>Timing and resync</h3>
+            <span className="supporting-text">Shift, stretch or snap every cue at once.</span>
+          </div>
+          <div className="field-grid">
+            <label className="field">
+              <span>Video frame rate</span>
+              <select value={frameRate} onChange={(event) => setFrameRate(event.target.value as SubtitleFrameRate)}>
+                {(Object.keys(SUBTITLE_FRAME_RATES) as SubtitleFrameRate[]).map((rate) => (
+                  <option key={rate} value={rate}>
+                    {SUBTITLE_FRAME_RATES[rate].label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="field">
+              <span>Shift (seconds, negative = earlier)</span>
+              <input type="number" step={0.1} value={shiftSeconds} onChange={(event) => setShiftSeconds(event.target.value)} />
+            </label>
+            <label className="field">
+              <span>Stretch factor</span>
+              <input type="number" min={0.5} max={2} step={0.0001} value={stretchFactor} onChange={(event) => setStretchFactor(event.target.value)} />
+            </label>
+            <label className="field">
+              <span>Cues were timed for</span>
+              <select value={sourceFrameRate} onChange={(event) => setSourceFrameRate(event.target.value as SubtitleFrameRate)}>
+                {(Object.keys(SUBTITLE_FRAME_RATES) as SubtitleFrameRate[]).map((rate) => (
+                  <option key={rate} value={rate}>
+                    {SUBTITLE_FRAME_RATES[rate].label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="button-row">
+            <button className="action-button secondary" type="button" onClick={applyShiftStretch}>
+              Apply shift / stretch
+            </button>
+            <button className="action-button secondary" type="button" onClick={applyFrameRateConversion}>
+              Convert frame rate
+            </button>
+            <button
+              className="action-button secondary"
+              type="button"
+              onClick={() => {
+                setCues((current) => snapCuesToFrameRate(current, frameRate));
+                setStatus(`Snapped cue timing to ${SUBTITLE_FRAME_RATES[frameRate].label} frame boundaries.`);
+              }}
+            >
+              Snap to frames
+            </button>
+          </div>
+          <div className="field-grid">
+            <label className="field">
+              <span>Sync point 1: cue time</span>
+              <input
+                type="text"
+                value={syncPoints.firstSource}
+                placeholder="00:01:02.500"
+                onChange={(event) => setSyncPoints((current) => ({ ...current, firstSource: event.target.value }))}
+              />
+            </label>
+            <label className="field">
+              <span>Sync point 1: actual time</span>
+              <input
+                type="text"
+                value={syncPoints.firstTarget}
+                placeholder="00:01:04.000"
+                onChange={(event) => setSyncPoints((current) => ({ ...current, firstTarget: event.target.value }))}
+              />
+            </label>
+            <label className="field">
+              <span>Sync point 2: cue time</span>
+              <input
+                type="text"
+                value={syncPoints.secondSource}
+                placeholder="Optional"
+                onChange={(event) => setSyncPoints((current) => ({ ...current, secondSource: event.target.value }))}
+              />
+            </label>
+            <label className="field">
+              <span>Sync point 2: actual time</span>
+              <input
+                type="text"
+                value={syncPoints.secondTarget}
+                placeholder="Optional"
+                onChange={(event) => setSyncPoints((current) => ({ ...current, secondTarget: event.target.value }))}
+              />
+            </label>
+          </div>
+          <div className="button-row">
+            <button className="action-button secondary" type="button" onClick={applySyncPoints}>
+              Resync from points
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      <div className="field-grid">
+        <label className="field">
+          <span>Export format</span>
+          <select value={exportFormat} onChange={(event) => setExportFormat(event.target.value as SubtitleFormat)}>
+            {(Object.keys(SUBTITLE_FORMAT_LABELS) as SubtitleFormat[]).map((format) => (
+              <option key={format} value={format}>
+                {SUBTITLE_FORMAT_LABELS[format]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="button-row">
+          <button className="action-button secondary" type="button" disabled={!cues.length} onClick={downloadSubtitleExport}>
+            <Download size={15} />
+            Export {SUBTITLE_FORMAT_EXTENSIONS[exportFormat].toUpperCase()}
+          </button>
+        </div>
+      </div>
+
       <div className="button-row">
         <button className="action-button secondary" type="button" disabled={!cues.length} onClick={() => downloadTextFile("captions.srt", exportSrt(cues))}>
           <Download size={15} />
@@ -41954,6 +44641,30 @@ function TranscriptSubtitleStudioTool() {
   );
 }
 
+const CSV_MAPPING_RECIPES_STORAGE_KEY = "utiliora-csv-mapping-recipes-v1";
+const CSV_MAPPING_RECIPES_LIMIT = 40;
+const CSV_BATCH_FILE_LIMIT = 60;
+
+function readCsvMappingRecipes(): CsvMappingRecipe[] {
+  if (typeof window === "undefined" || typeof localStorage === "undefined") return [];
+  try {
+    const raw = localStorage.getItem(CSV_MAPPING_RECIPES_STORAGE_KEY);
+    if (!raw) return [];
+    return parseCsvMappingRecipes(raw);
+  } catch {
+    return [];
+  }
+}
+
+function writeCsvMappingRecipes(next: CsvMappingRecipe[]): void {
+  if (typeof window === "undefined" || typeof localStorage === "undefined") return;
+  try {
+    localStorage.setItem(CSV_MAPPING_RECIPES_STORAGE_KEY, serializeCsvMappingRecipes(next.slice(0, CSV_MAPPING_RECIPES_LIMIT)));
+  } catch {
+    // Ignore storage failures.
+  }
+}
+
 function CsvCleanupMappingStudioTool() {
   const [sourceText, setSourceText] = useState("");
   const [targetSchemaText, setTargetSchemaText] = useState("");
@@ -41968,6 +44679,30 @@ function CsvCleanupMappingStudioTool() {
     changedCells: 0,
   });
   const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [activePreset, setActivePreset] = useState<CsvCleanupPresetId | null>("normalize-ecommerce-exports");
+  const [recipes, setRecipes] = useState<CsvMappingRecipe[]>([]);
+  const [recipeName, setRecipeName] = useState("");
+  const [selectedRecipeId, setSelectedRecipeId] = useState("");
+  const [batchFiles, setBatchFiles] = useState<File[]>([]);
+  const [batchReports, setBatchReports] = useState<CsvRecipeFileReport[]>([]);
+  const [batchProcessing, setBatchProcessing] = useState(false);
+  const [batchDropActive, setBatchDropActive] = useState(false);
+  const [operationKind, setOperationKind] = useState<CsvColumnOperation["kind"]>("split");
+  const [operationColumns, setOperationColumns] = useState("");
+  const [operationSeparator, setOperationSeparator] = useState(" ");
+  const [operationInto, setOperationInto] = useState("");
+  const [operationTemplate, setOperationTemplate] = useState("");
+
+  useEffect(() => {
+    const stored = readCsvMappingRecipes();
+    setRecipes(stored);
+    if (stored[0]) setSelectedRecipeId(stored[0].id);
+  }, []);
+
+  const persistRecipes = useCallback((next: CsvMappingRecipe[]) => {
+    setRecipes(next);
+    writeCsvMappingRecipes(next);
+  }, []);
 
   const loadSourceText = useCallback((raw: string, label: string) => {
     const normalized = normalizeUploadedText(raw);
@@ -42050,11 +44785,207 @@ function CsvCleanupMappingStudioTool() {
   const sourcePreviewRows = useMemo(() => cleanedDataset?.rows.slice(0, 8) ?? [], [cleanedDataset]);
   const mappedPreviewRows = useMemo(() => mappedRows.slice(0, 8), [mappedRows]);
 
-  const applyPreset = useCallback((preset: Parameters<typeof applyCleanupPreset>[0]) => {
-    setCleanupOptions(applyCleanupPreset(preset));
+  const applyPreset = useCallback((preset: CsvCleanupPresetId) => {
+    setCleanupOptions((current) => ({ ...current, ...applyCleanupPreset(preset) }));
+    setActivePreset(preset);
     setStatus(`Applied ${preset.replace(/-/g, " ")} preset.`);
   }, []);
 
+  const updateColumnRule = useCallback((column: string, patch: Partial<CsvColumnRule>) => {
+    setCleanupOptions((current) => {
+      const rules = current.columnRules ?? [];
+      const existing = rules.find((rule) => rule.column === column);
+      const nextRule: CsvColumnRule = {
+        ...(existing ?? { column, type: "auto", normalize: true, required: false, unique: false }),
+        ...patch,
+      };
+      return {
+        ...current,
+        columnRules: existing ? rules.map((rule) => (rule.column === column ? nextRule : rule)) : [...rules, nextRule],
+      };
+    });
+  }, []);
+
+  const addColumnOperation = useCallback(() => {
+    const columns = operationColumns
+      .split(",")
+      .map((column) => column.trim())
+      .filter(Boolean);
+    const into = operationInto.trim();
+    let operation: CsvColumnOperation | null = null;
+    if (operationKind === "split" && columns[0]) {
+      operation = {
+        kind: "split",
+        column: columns[0],
+        separator: operationSeparator,
+        into: into.split(",").map((name) => name.trim()).filter(Boolean),
+        keepSource: false,
+      };
+    } else if (operationKind === "merge" && columns.length >= 2) {
+      operation = { kind: "merge", columns, separator: operationSeparator, into: into || columns.join(" "), keepSources: false };
+    } else if (operationKind === "derive" && operationTemplate.trim()) {
+      operation = { kind: "derive", into: into || "Derived", template: operationTemplate.trim() };
+    }
+    if (!operation) {
+      setStatus(
+        operationKind === "split"
+          ? "Pick a column to split."
+          : operationKind === "merge"
+            ? "List at least two columns to merge, separated by commas."
+            : "Enter a template such as {first_name} {last_name|upper}.",
+      );
+      return;
+    }
+    const nextOperation = operation;
+    setCleanupOptions((current) => ({ ...current, columnOperations: [...(current.columnOperations ?? []), nextOperation] }));
+    setOperationColumns("");
+    setOperationInto("");
+    setOperationTemplate("");
+    setStatus(`Added ${operation.kind} column step.`);
+  }, [operationColumns, operationInto, operationKind, operationSeparator, operationTemplate]);
+
+  const removeColumnOperation = useCallback((index: number) => {
+    setCleanupOptions((current) => ({
+      ...current,
+      columnOperations: (current.columnOperations ?? []).filter((_, operationIndex) => operationIndex !== index),
+    }));
+  }, []);
+
+  const validation = cleanedDataset?.validation ?? null;
+  const validationPreviewIssues = useMemo(() => validation?.issues.slice(0, 100) ?? [], [validation]);
+
+  const selectedRecipe = useMemo(
+    () => recipes.find((recipe) => recipe.id === selectedRecipeId) ?? null,
+    [recipes, selectedRecipeId],
+  );
+
+  const saveRecipe = useCallback(() => {
+    const name = recipeName.trim() || (targetHeaders.length ? `Map to ${targetHeaders.slice(0, 3).join(", ")}` : "Cleanup only");
+    const existing = recipes.find((recipe) => recipe.name.toLowerCase() === name.toLowerCase());
+    const created = createCsvMappingRecipe({
+      name,
+      preset: activePreset,
+      cleanupOptions,
+      targetHeaders,
+      mapping,
+    });
+    const nextRecipe = existing ? { ...created, id: existing.id, createdAt: existing.createdAt } : created;
+    persistRecipes([nextRecipe, ...recipes.filter((recipe) => recipe.id !== nextRecipe.id)]);
+    setSelectedRecipeId(nextRecipe.id);
+    setRecipeName(name);
+    setStatus(existing ? `Updated recipe "${name}".` : `Saved recipe "${name}".`);
+    trackEvent("tool_csv_recipe_save", { targets: targetHeaders.length });
+  }, [activePreset, cleanupOptions, mapping, persistRecipes, recipeName, recipes, targetHeaders]);
+
+  const loadRecipe = useCallback((recipe: CsvMappingRecipe) => {
+    setCleanupOptions({ ...recipe.cleanupOptions });
+    setActivePreset(recipe.preset);
+    setTargetSchemaText(recipe.targetHeaders.join("\n"));
+    setTargetFileLabel(`Recipe: ${recipe.name}`);
+    setMapping({ ...recipe.mapping });
+    setRecipeName(recipe.name);
+    setSelectedRecipeId(recipe.id);
+    setStatus(`Loaded recipe "${recipe.name}" into the studio.`);
+  }, []);
+
+  const deleteRecipe = useCallback((id: string) => {
+    const next = recipes.filter((recipe) => recipe.id !== id);
+    persistRecipes(next);
+    if (selectedRecipeId === id) setSelectedRecipeId(next[0]?.id ?? "");
+    setStatus("Recipe deleted.");
+  }, [persistRecipes, recipes, selectedRecipeId]);
+
+  const importRecipesFile = useCallback(async (file: File | null) => {
+    if (!file) return;
+    try {
+      const imported = parseCsvMappingRecipes(await readTextFileWithLimit(file, 1024 * 1024));
+      if (!imported.length) {
+        setStatus("No valid recipes found in this file.");
+        return;
+      }
+      const importedIds = new Set(imported.map((recipe) => recipe.id));
+      persistRecipes([...imported, ...recipes.filter((recipe) => !importedIds.has(recipe.id))]);
+      setSelectedRecipeId(imported[0].id);
+      setStatus(`Imported ${imported.length} recipe${imported.length === 1 ? "" : "s"}.`);
+    } catch {
+      setStatus("Could not read this recipe file. Use a JSON export from this studio.");
+    }
+  }, [persistRecipes, recipes]);
+
+  const addBatchFiles = useCallback((files: File[]) => {
+    const csvFiles = files.filter((file) => /\.(csv|tsv|txt)$/i.test(file.name) || file.type.startsWith("text/"));
+    if (!csvFiles.length) {
+      setStatus("Drop CSV, TSV, or TXT exports to run a batch.");
+      return;
+    }
+    setBatchFiles((current) => [...current, ...csvFiles].slice(0, CSV_BATCH_FILE_LIMIT));
+    setBatchReports([]);
+    setStatus(`Queued ${csvFiles.length} file${csvFiles.length === 1 ? "" : "s"} for batch processing.`);
+  }, []);
+
+  const runBatch = useCallback(async () => {
+    if (!selectedRecipe) {
+      setStatus("Save or import a recipe before running a batch.");
+      return;
+    }
+    if (!batchFiles.length) {
+      setStatus("Add files to the batch queue first.");
+      return;
+    }
+
+    setBatchProcessing(true);
+    try {
+      const JSZip = await loadJsZipModule();
+      const zip = new JSZip();
+      const reports: CsvRecipeFileReport[] = [];
+      const usedNames = new Set<string>();
+
+      for (let index = 0; index < batchFiles.length; index += 1) {
+        const file = batchFiles[index];
+        setStatus(`Processing ${file.name} (${index + 1}/${batchFiles.length})...`);
+        let raw = "";
+        try {
+          raw = normalizeUploadedText(await readTextFileWithLimit(file, 8 * 1024 * 1024));
+        } catch {
+          reports.push({
+            ...applyCsvMappingRecipe("", file.name, selectedRecipe).report,
+            message: "Could not read this file (over 8 MB or not text).",
+          });
+          continue;
+        }
+
+        const result = applyCsvMappingRecipe(raw, file.name, selectedRecipe);
+        let outputFileName = result.report.outputFileName;
+        let suffix = 2;
+        while (usedNames.has(outputFileName.toLowerCase())) {
+          outputFileName = result.report.outputFileName.replace(/\.csv$/i, `-${suffix}.csv`);
+          suffix += 1;
+        }
+        usedNames.add(outputFileName.toLowerCase());
+        const report = { ...result.report, outputFileName };
+        reports.push(report);
+        if (report.status !== "error") zip.file(outputFileName, result.outputText);
+      }
+
+      zip.file("batch-report.csv", buildCsvRecipeReportCsv(reports));
+      zip.file("recipe.json", serializeCsvMappingRecipes([selectedRecipe]));
+      const blob = await zip.generateAsync({ type: "blob" });
+      const zipStem = selectedRecipe.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "csv-batch";
+      downloadBlobFile(`${zipStem}-batch.zip`, blob);
+
+      const failed = reports.filter((report) => report.status === "error").length;
+      setBatchReports(reports);
+      setStatus(
+        `Batch complete: ${reports.length - failed} of ${reports.length} file${reports.length === 1 ? "" : "s"} normalized${failed ? `, ${failed} failed` : ""}.`,
+      );
+      trackEvent("tool_csv_batch_run", { files: reports.length, failed });
+    } catch {
+      setStatus("Batch processing failed. Try fewer or smaller files.");
+    } finally {
+      setBatchProcessing(false);
+    }
+  }, [batchFiles, selectedRecipe]);
+
   const mappedCsvText = useMemo(() => {
     if (!targetHeaders.length || !mappedRows.length) return "";
     return buildCsvText(targetHeaders, mappedRows, ",");
@@ -42212,6 +45143,39 @@ function CsvCleanupMappingStudioTool() {
             <option value="title">Title Case</option>
           </select>
         </label>
+        <label className="checkbox">
+          <input
+            type="checkbox"
+            checked={Boolean(cleanupOptions.normalizeDetectedTypes)}
+            onChange={(event) => setCleanupOptions((current) => ({ ...current, normalizeDetectedTypes: event.target.checked }))}
+          />
+          Normalize detected formats
+        </label>
+        <label className="field">
+          <span>Date order</span>
+          <select
+            value={cleanupOptions.dateOrder ?? "auto"}
+            onChange={(event) => setCleanupOptions((current) => ({ ...current, dateOrder: event.target.value as CsvCleanupOptions["dateOrder"] }))}
+          >
+            <option value="auto">Detect per column</option>
+            <option value="dmy">Day/Month/Year</option>
+            <option value="mdy">Month/Day/Year</option>
+            <option value="ymd">Year/Month/Day</option>
+          </select>
+        </label>
+        <label className="field">
+          <span>Decimal separator</span>
+          <select
+            value={cleanupOptions.decimalSeparator ?? "auto"}
+            onChange={(event) =>
+              setCleanupOptions((current) => ({ ...current, decimalSeparator: event.target.value as CsvCleanupOptions["decimalSeparator"] }))
+            }
+          >
+            <option value="auto">Detect per column</option>
+            <option value=".">Dot (1,234.56)</option>
+            <option value=",">Comma (1.234,56)</option>
+          </select>
+        </label>
       </div>
 
       {status ? <p className="supporting-text">{status}</p> : null}
@@ -42224,6 +45188,8 @@ function CsvCleanupMappingStudioTool() {
           { label: "Duplicates removed", value: formatNumericValue(cleanupStats.duplicateRowsRemoved) },
           { label: "Empty rows removed", value: formatNumericValue(cleanupStats.emptyRowsRemoved) },
           { label: "Changed cells", value: formatNumericValue(cleanupStats.changedCells) },
+          { label: "Normalized cells", value: formatNumericValue(validation?.normalizedCells ?? 0) },
+          { label: "Validation issues", value: formatNumericValue(validation?.issueCount ?? 0) },
         ]}
       />
 
@@ -42256,6 +45222,262 @@ function CsvCleanupMappingStudioTool() {
         </div>
       ) : null}
 
+      <div className="mini-panel">
+        <div className="panel-head">
+          <h3>Split, merge &amp; derived columns</h3>
+          <span className="supporting-text">Steps run in order after cell cleanup. Templates use {"{column}"} with optional |upper, |lower, |title, |digits, |domain, |first, |last.</span>
+        </div>
+        <div className="field-grid">
+          <label className="field">
+            <span>Step</span>
+            <select value={operationKind} onChange={(event) => setOperationKind(event.target.value as CsvColumnOperation["kind"])}>
+              <option value="split">Split a column</option>
+              <option value="merge">Merge columns</option>
+              <option value="derive">Derived column</option>
+            </select>
+          </label>
+          {operationKind !== "derive" ? (
+            <label className="field">
+              <span>{operationKind === "split" ? "Column to split" : "Columns to merge (comma separated)"}</span>
+              <input
+                type="text"
+                list="csv-studio-columns"
+                value={operationColumns}
+                onChange={(event) => setOperationColumns(event.target.value)}
+                placeholder={operationKind === "split" ? "Full name" : "First name, Last name"}
+              />
+            </label>
+          ) : (
+            <label className="field">
+              <span>Template</span>
+              <input
+                type="text"
+                value={operationTemplate}
+                onChange={(event) => setOperationTemplate(event.target.value)}
+                placeholder="{First name} {Last name|upper}"
+              />
+            </label>
+          )}
+          {operationKind !== "derive" ? (
+            <label className="field">
+              <span>Separator</span>
+              <input type="text" value={operationSeparator} onChange={(event) => setOperationSeparator(event.target.value)} />
+            </label>
+          ) : null}
+          <label className="field">
+            <span>{operationKind === "split" ? "New column names (comma separated)" : "New column name"}</span>
+            <input
+              type="text"
+              value={operationInto}
+              onChange={(event) => setOperationInto(event.target.value)}
+              placeholder={operationKind === "split" ? "First name, Last name" : operationKind === "merge" ? "Full name" : "Email domain"}
+            />
+          </label>
+        </div>
+        <datalist id="csv-studio-columns">
+          {(cleanedDataset?.headers ?? []).map((header) => (
+            <option key={`column-option-${header}`} value={header} />
+          ))}
+        </datalist>
+        <div className="button-row">
+          <button className="action-button secondary" type="button" onClick={addColumnOperation}>
+            Add step
+          </button>
+        </div>
+        {cleanupOptions.columnOperations?.length ? (
+          <ul className="plain-list">
+            {cleanupOptions.columnOperations.map((operation, index) => (
+              <li key={`csv-operation-${index}`}>
+                <div className="history-line">
+                  <strong>
+                    {index + 1}.{" "}
+                    {operation.kind === "split"
+                      ? `Split ${operation.column} on "${operation.separator}"${operation.into.length ? ` into ${operation.into.join(", ")}` : ""}`
+                      : operation.kind === "merge"
+                        ? `Merge ${operation.columns.join(" + ")} into ${operation.into}`
+                        : `${operation.into} = ${operation.template}`}
+                  </strong>
+                  <button className="chip-button" type="button" onClick={() => removeColumnOperation(index)}>
+                    Remove
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : null}
+      </div>
+
+      {cleanedDataset?.columnProfiles.length ? (
+        <div className="mini-panel">
+          <div className="panel-head">
+            <h3>Column types &amp; validation rules</h3>
+            <span className="supporting-text">Types are inferred from the data. Override a type or add rules to validate each row.</span>
+          </div>
+          <div className="table-scroll">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Column</th>
+                  <th>Detected</th>
+                  <th>Type</th>
+                  <th>Normalize</th>
+                  <th>Required</th>
+                  <th>Unique</th>
+                  <th>Min</th>
+                  <th>Max</th>
+                  <th>Pattern</th>
+                  <th>Allowed values</th>
+                </tr>
+              </thead>
+              <tbody>
+                {cleanedDataset.columnProfiles.map((profile) => {
+                  const rule = cleanupOptions.columnRules?.find((entry) => entry.column === profile.header);
+                  return (
+                    <tr key={`column-rule-${profile.header}`}>
+                      <td>{profile.header || "(empty header)"}</td>
+                      <td>
+                        {profile.inferredType} ({Math.round(profile.confidence * 100)}%)
+                        {validation?.issuesByColumn[profile.header] ? ` | ${validation.issuesByColumn[profile.header]} issue(s)` : ""}
+                      </td>
+                      <td>
+                        <select
+                          value={rule?.type ?? "auto"}
+                          onChange={(event) => updateColumnRule(profile.header, { type: event.target.value as CsvColumnRule["type"] })}
+                        >
+                          <option value="auto">Auto</option>
+                          <option value="text">Text</option>
+                          <option value="date">Date</option>
+                          <option value="number">Number</option>
+                          <option value="currency">Currency</option>
+                          <option value="email">Email</option>
+                          <option value="phone">Phone</option>
+                          <option value="boolean">Boolean</option>
+                        </select>
+                      </td>
+                      <td>
+                        <input
+                          type="checkbox"
+                          checked={rule ? rule.normalize : Boolean(cleanupOptions.normalizeDetectedTypes)}
+                          onChange={(event) => updateColumnRule(profile.header, { normalize: event.target.checked })}
+                        />
+                      </td>
+                      <td>
+                        <input
+                          type="checkbox"
+                          checked={Boolean(rule?.required)}
+                          onChange={(event) => updateColumnRule(profile.header, { required: event.target.checked })}
+                        />
+                      </td>
+                      <td>
+                        <input
+                          type="checkbox"
+                          checked={Boolean(rule?.unique)}
+                          onChange={(event) => updateColumnRule(profile.header, { unique: event.target.checked })}
+                        />
+                      </td>
+                      <td>
+                        <input
+                          type="number"
+                          value={rule?.min ?? ""}
+                          onChange={(event) =>
+                            updateColumnRule(profile.header, { min: event.target.value === "" ? null : Number(event.target.value) })
+                          }
+                          style={{ width: "6rem" }}
+                        />
+                      </td>
+                      <td>
+                        <input
+                          type="number"
+                          value={rule?.max ?? ""}
+                          onChange={(event) =>
+                            updateColumnRule(profile.header, { max: event.target.value === "" ? null : Number(event.target.value) })
+                          }
+                          style={{ width: "6rem" }}
+                        />
+                      </td>
+                      <td>
+                        <input
+                          type="text"
+                          value={rule?.pattern ?? ""}
+                          onChange={(event) => updateColumnRule(profile.header, { pattern: event.target.value })}
+                          placeholder="^[A-Z]{2}-\d+$"
+                        />
+                      </td>
+                      <td>
+                        <input
+                          type="text"
+                          value={(rule?.allowedValues ?? []).join(", ")}
+                          onChange={(event) =>
+                            updateColumnRule(profile.header, {
+                              allowedValues: event.target.value
+                                .split(",")
+                                .map((value) => value.trim())
+                                .filter(Boolean),
+                            })
+                          }
+                          placeholder="paid, pending"
+                        />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : null}
+
+      {validation?.issueCount ? (
+        <div className="mini-panel">
+          <div className="panel-head">
+            <h3>Validation report</h3>
+            <span className="supporting-text">
+              {formatNumericValue(validation.issueCount)} issue{validation.issueCount === 1 ? "" : "s"} across{" "}
+              {formatNumericValue(validation.invalidRows)} row{validation.invalidRows === 1 ? "" : "s"};{" "}
+              {formatNumericValue(validation.validRows)} row{validation.validRows === 1 ? "" : "s"} passed.
+              {validation.truncated ? ` Report capped at ${formatNumericValue(validation.issues.length)} issues.` : ""}
+            </span>
+          </div>
+          <div className="button-row">
+            <button
+              className="action-button secondary"
+              type="button"
+              onClick={() => downloadTextFile("validation-report.csv", buildCsvValidationIssuesCsv(validation.issues), "text/csv;charset=utf-8;")}
+            >
+              <Download size={15} />
+              Validation report CSV
+            </button>
+          </div>
+          <div className="table-scroll">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Row</th>
+                  <th>Column</th>
+                  <th>Rule</th>
+                  <th>Value</th>
+                  <th>Message</th>
+                </tr>
+              </thead>
+              <tbody>
+                {validationPreviewIssues.map((issue, index) => (
+                  <tr key={`validation-${issue.row}-${issue.column}-${issue.rule}-${index}`}>
+                    <td>{issue.row}</td>
+                    <td>{issue.column}</td>
+                    <td>{issue.rule}</td>
+                    <td>{issue.value}</td>
+                    <td>{issue.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {validation.issues.length > validationPreviewIssues.length ? (
+            <p className="supporting-text">Showing the first {validationPreviewIssues.length} issues. Download the report for the full list.</p>
+          ) : null}
+        </div>
+      ) : null}
+
       {targetHeaders.length && cleanedDataset ? (
         <div className="mini-panel">
           <div className="panel-head">
@@ -42352,36 +45574,263 @@ function CsvCleanupMappingStudioTool() {
           </div>
         </div>
       ) : null}
+
+      <div className="mini-panel">
+        <div className="panel-head">
+          <h3>Saved recipes</h3>
+          <span className="supporting-text">A recipe stores cleanup options, the target schema, and the column mapping.</span>
+        </div>
+        <div className="field-grid">
+          <label className="field">
+            <span>Recipe name</span>
+            <input type="text" value={recipeName} onChange={(event) => setRecipeName(event.target.value)} placeholder="Monthly vendor export" />
+          </label>
+          <label className="field">
+            <span>Import recipes (JSON)</span>
+            <input type="file" accept=".json,application/json" onChange={(event) => void importRecipesFile(event.target.files?.[0] ?? null)} />
+          </label>
+        </div>
+        <div className="button-row">
+          <button className="action-button" type="button" onClick={saveRecipe}>
+            Save current setup as recipe
+          </button>
+          <button
+            className="action-button secondary"
+            type="button"
+            onClick={() => downloadTextFile("csv-recipes.json", serializeCsvMappingRecipes(recipes), "application/json;charset=utf-8;")}
+            disabled={!recipes.length}
+          >
+            <Download size={15} />
+            Export recipes
+          </button>
+        </div>
+        {recipes.length ? (
+          <ul className="plain-list">
+            {recipes.map((recipe) => (
+              <li key={recipe.id}>
+                <div className="history-line">
+                  <label className="checkbox">
+                    <input
+                      type="radio"
+                      name="csv-recipe"
+                      checked={recipe.id === selectedRecipeId}
+                      onChange={() => setSelectedRecipeId(recipe.id)}
+                    />
+                    <strong>{recipe.name}</strong>
+                  </label>
+                  <small className="supporting-text">
+                    {recipe.targetHeaders.length
+                      ? `${recipe.targetHeaders.length} target column${recipe.targetHeaders.length === 1 ? "" : "s"}`
+                      : "Cleanup only"}
+                    {recipe.preset ? ` | ${recipe.preset.replace(/-/g, " ")}` : ""}
+                  </small>
+                  <button className="chip-button" type="button" onClick={() => loadRecipe(recipe)}>
+                    Load
+                  </button>
+                  <button className="chip-button" type="button" onClick={() => deleteRecipe(recipe.id)}>
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="supporting-text">No recipes saved yet.</p>
+        )}
+      </div>
+
+      <div
+        className="mini-panel"
+        onDragOver={(event) => {
+          event.preventDefault();
+          if (!batchDropActive) setBatchDropActive(true);
+        }}
+        onDragLeave={() => setBatchDropActive(false)}
+        onDrop={(event) => {
+          event.preventDefault();
+          setBatchDropActive(false);
+          addBatchFiles(Array.from(event.dataTransfer.files ?? []));
+        }}
+        style={batchDropActive ? { outline: "2px dashed currentColor" } : undefined}
+      >
+        <div className="panel-head">
+          <h3>Batch mode</h3>
+          <span className="supporting-text">
+            Drop files here or pick them below, then apply the selected recipe to all of them and download a ZIP.
+          </span>
+        </div>
+        <label className="field">
+          <span>Batch files ({formatNumericValue(batchFiles.length)}/{CSV_BATCH_FILE_LIMIT})</span>
+          <input
+            type="file"
+            multiple
+            accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values,text/plain"
+            onChange={(event) => addBatchFiles(Array.from(event.target.files ?? []))}
+          />
+        </label>
+        <div className="button-row">
+          <button
+            className="action-button"
+            type="button"
+            onClick={() => void runBatch()}
+            disabled={!selectedRecipe || !batchFiles.length || batchProcessing}
+          >
+            {batchProcessing ? "Processing..." : `Run ${selectedRecipe ? `"${selectedRecipe.name}"` : "recipe"} on batch`}
+          </button>
+          <button
+            className="action-button secondary"
+            type="button"
+            onClick={() => {
+              setBatchFiles([]);
+              setBatchReports([]);
+            }}
+            disabled={!batchFiles.length || batchProcessing}
+          >
+            <Trash2 size={15} />
+            Clear batch
+          </button>
+          <button
+            className="action-button secondary"
+            type="button"
+            onClick={() => downloadTextFile("batch-report.csv", buildCsvRecipeReportCsv(batchReports), "text/csv;charset=utf-8;")}
+            disabled={!batchReports.length}
+          >
+            <Download size={15} />
+            Report CSV
+          </button>
+        </div>
+        {batchReports.length ? (
+          <div className="table-scroll">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>File</th>
+                  <th>Status</th>
+                  <th>Rows in</th>
+                  <th>Rows out</th>
+                  <th>Duplicates</th>
+                  <th>Issues</th>
+                  <th>Notes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {batchReports.map((report, index) => (
+                  <tr key={`${report.fileName}-${index}`}>
+                    <td>{report.fileName}</td>
+                    <td>{report.status}</td>
+                    <td>{formatNumericValue(report.sourceRows)}</td>
+                    <td>{formatNumericValue(report.outputRows)}</td>
+                    <td>{formatNumericValue(report.duplicateRowsRemoved)}</td>
+                    <td>{formatNumericValue(report.validationIssues)}</td>
+                    <td>{report.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : batchFiles.length ? (
+          <p className="supporting-text">{batchFiles.map((file) => file.name).join(", ")}</p>
+        ) : null}
+      </div>
     </section>
   );
 }
 
+const STATEMENT_FORMAT_LABELS: Record<BankStatementAnalysis["format"], string> = {
+  csv: "CSV",
+  text: "Free text",
+  ofx: "OFX/QFX",
+  camt053: "CAMT.053",
+  mt940: "MT940",
+};
+
+const STATEMENT_RULES_STORAGE_KEY = "utiliora-statement-rules-v1";
+const STATEMENT_SET_LIMIT = 24;
+
+interface StatementRuleDraft {
+  name: string;
+  merchantContains: string;
+  merchantPattern: string;
+  minAmount: string;
+  maxAmount: string;
+  direction: StatementCategoryRule["direction"];
+  accountId: string;
+  dateFrom: string;
+  dateTo: string;
+  category: string;
+  tags: string;
+}
+
+const EMPTY_STATEMENT_RULE_DRAFT: StatementRuleDraft = {
+  name: "",
+  merchantContains: "",
+  merchantPattern: "",
+  minAmount: "",
+  maxAmount: "",
+  direction: "any",
+  accountId: "",
+  dateFrom: "",
+  dateTo: "",
+  category: "",
+  tags: "",
+};
+
+function readStatementRules(): { rules: StatementCategoryRule[]; budgets: StatementCategoryBudget[] } {
+  if (typeof window === "undefined" || typeof localStorage === "undefined") return { rules: [], budgets: [] };
+  try {
+    const raw = localStorage.getItem(STATEMENT_RULES_STORAGE_KEY);
+    if (!raw) return { rules: [], budgets: [] };
+    return parseStatementRules(raw);
+  } catch {
+    return { rules: [], budgets: [] };
+  }
+}
+
+function writeStatementRules(rules: StatementCategoryRule[], budgets: StatementCategoryBudget[]): void {
+  if (typeof window === "undefined" || typeof localStorage === "undefined") return;
+  try {
+    localStorage.setItem(STATEMENT_RULES_STORAGE_KEY, serializeStatementRules(rules, budgets));
+  } catch {
+    // Ignore storage failures.
+  }
+}
+
 function BankStatementNormalizerExpenseIntelligenceTool() {
   const [inputText, setInputText] = useState("");
   const [sourceLabel, setSourceLabel] = useState("");
-  const [analysis, setAnalysis] = useState<BankStatementAnalysis | null>(null);
+  const [baseAnalysis, setBaseAnalysis] = useState<BankStatementAnalysis | null>(null);
+  const [rules, setRules] = useState<StatementCategoryRule[]>([]);
+  const [budgets, setBudgets] = useState<StatementCategoryBudget[]>([]);
+  const [ruleDraft, setRuleDraft] = useState<StatementRuleDraft>(EMPTY_STATEMENT_RULE_DRAFT);
+  const [budgetCategory, setBudgetCategory] = useState("");
+  const [budgetLimit, setBudgetLimit] = useState("");
+  const [budgetCurrency, setBudgetCurrency] = useState("");
+  const [statementSet, setStatementSet] = useState<StatementFileInput[]>([]);
+  const [summaryCurrency, setSummaryCurrency] = useState("");
   const [status, setStatus] = useState("Import a statement file or paste statement text to normalize transactions and surface spending insights.");
   const [processing, setProcessing] = useState(false);
   const [maxPdfPages, setMaxPdfPages] = useState(6);
+  const [formatHint, setFormatHint] = useState<StatementSourceHint>("auto");
 
-  const loadStatementText = useCallback((raw: string, label: string, sourceHint: Parameters<typeof analyzeBankStatement>[1]) => {
+  const loadStatementText = useCallback((raw: string, label: string, sourceHint: StatementSourceHint) => {
     const normalized = normalizeUploadedText(raw);
     if (!normalized.trim()) {
-      setAnalysis(null);
+      setBaseAnalysis(null);
       setStatus("The statement content is empty.");
       return;
     }
     const nextAnalysis = analyzeBankStatement(normalized, sourceHint);
     setInputText(normalized);
-    setAnalysis(nextAnalysis);
+    setBaseAnalysis(nextAnalysis);
     setSourceLabel(label);
     setStatus(
       nextAnalysis.transactions.length
-        ? `Normalized ${nextAnalysis.transactions.length} transaction row${nextAnalysis.transactions.length === 1 ? "" : "s"} from ${label}.`
+        ? `Normalized ${nextAnalysis.transactions.length} transaction row${nextAnalysis.transactions.length === 1 ? "" : "s"} from ${label} (${STATEMENT_FORMAT_LABELS[nextAnalysis.format]}).`
         : `No transaction rows were detected in ${label}.`,
     );
     trackEvent("tool_bank_statement_normalizer_run", {
       sourceHint,
+      format: nextAnalysis.format,
       transactions: nextAnalysis.transactions.length,
       recurringCharges: nextAnalysis.recurringCharges.length,
       hiddenFees: nextAnalysis.hiddenFees.length,
@@ -42389,37 +45838,193 @@ function BankStatementNormalizerExpenseIntelligenceTool() {
     emitShareSignal({ action: "success", context: "bank-statement-normalizer" });
   }, []);
 
+  const readStatementFile = useCallback(async (file: File): Promise<StatementFileInput> => {
+    const extension = getFileExtension(file.name);
+    if (extension === "csv" || extension === "tsv") {
+      return { label: file.name, raw: await readTextFileWithLimit(file, 10 * 1024 * 1024), sourceHint: "csv" };
+    }
+
+    if (["ofx", "qfx", "xml", "sta", "mt940", "940"].includes(extension)) {
+      return {
+        label: file.name,
+        raw: await readTextFileWithLimit(file, 10 * 1024 * 1024),
+        sourceHint: extension === "ofx" || extension === "qfx" ? "ofx" : extension === "xml" ? "auto" : "mt940",
+      };
+    }
+
+    if (file.type === "application/pdf" || extension === "pdf") {
+      setStatus(`Extracting readable text from ${file.name}...`);
+      const extracted = await extractTextFromPdfDocument(file, {
+        maxPages: maxPdfPages,
+        includePageMarkers: false,
+      });
+      return {
+        label: `${file.name} (${extracted.selectedPages.length} page${extracted.selectedPages.length === 1 ? "" : "s"})`,
+        raw: extracted.text,
+        sourceHint: "text",
+      };
+    }
+
+    const extracted = await extractTextFromDocumentFile(file, { convertHtmlToText: true });
+    return {
+      label: `${file.name} (${extracted.source})`,
+      raw: extracted.text,
+      sourceHint: extension === "txt" || extension === "md" ? "text" : "auto",
+    };
+  }, [maxPdfPages]);
+
   const importStatementFile = useCallback(async (file: File | null) => {
     if (!file) return;
     setProcessing(true);
     try {
-      const extension = getFileExtension(file.name);
-      if (extension === "csv" || extension === "tsv") {
-        const raw = await readTextFileWithLimit(file, 10 * 1024 * 1024);
-        loadStatementText(raw, file.name, "csv");
-        return;
-      }
-
-      if (file.type === "application/pdf" || extension === "pdf") {
-        setStatus("Extracting readable text from PDF statement...");
-        const extracted = await extractTextFromPdfDocument(file, {
-          maxPages: maxPdfPages,
-          includePageMarkers: false,
-        });
-        loadStatementText(extracted.text, `${file.name} (${extracted.selectedPages.length} page${extracted.selectedPages.length === 1 ? "" : "s"})`, "text");
-        return;
-      }
-
-      const extracted = await extractTextFromDocumentFile(file, { convertHtmlToText: true });
-      loadStatementText(extracted.text, `${file.name} (${extracted.source})`, extension === "txt" || extension === "md" ? "text" : "auto");
+      const input = await readStatementFile(file);
+      loadStatementText(input.raw, input.label, input.sourceHint ?? "auto");
     } catch (error) {
       const message = error instanceof Error && error.message ? error.message : "Could not import this statement file.";
       setStatus(message);
-      setAnalysis(null);
+      setBaseAnalysis(null);
     } finally {
       setProcessing(false);
     }
-  }, [loadStatementText, maxPdfPages]);
+  }, [loadStatementText, readStatementFile]);
+
+  const addStatementFiles = useCallback(async (files: File[]) => {
+    if (!files.length) return;
+    setProcessing(true);
+    const added: StatementFileInput[] = [];
+    const failed: string[] = [];
+    for (const file of files.slice(0, STATEMENT_SET_LIMIT)) {
+      try {
+        const input = await readStatementFile(file);
+        if (normalizeUploadedText(input.raw).trim()) {
+          added.push({ ...input, raw: normalizeUploadedText(input.raw) });
+        } else {
+          failed.push(file.name);
+        }
+      } catch {
+        failed.push(file.name);
+      }
+    }
+    setStatementSet((current) => [...current, ...added].slice(0, STATEMENT_SET_LIMIT));
+    setStatus(
+      `Added ${added.length} statement${added.length === 1 ? "" : "s"} to the set${failed.length ? `; could not read ${failed.join(", ")}` : ""}.`,
+    );
+    trackEvent("tool_bank_statement_set_add", { files: added.length, failed: failed.length });
+    setProcessing(false);
+  }, [readStatementFile]);
+
+  useEffect(() => {
+    const stored = readStatementRules();
+    setRules(stored.rules);
+    setBudgets(stored.budgets);
+  }, []);
+
+  const persistRules = useCallback((nextRules: StatementCategoryRule[], nextBudgets: StatementCategoryBudget[]) => {
+    setRules(nextRules);
+    setBudgets(nextBudgets);
+    writeStatementRules(nextRules, nextBudgets);
+  }, []);
+
+  const combinedAnalysis = useMemo(
+    () => (statementSet.length ? analyzeBankStatements(statementSet, { rules, budgets }) : null),
+    [budgets, rules, statementSet],
+  );
+
+  const analysis = useMemo(
+    () => combinedAnalysis ?? (baseAnalysis ? recategorizeBankStatement(baseAnalysis, { rules, budgets }) : null),
+    [baseAnalysis, budgets, combinedAnalysis, rules],
+  );
+
+  const currencySummary =
+    combinedAnalysis?.currencySummaries.find((summary) => summary.currency === summaryCurrency) ??
+    combinedAnalysis?.currencySummaries[0] ??
+    null;
+  const formatStatementTotal = (key: "incomeTotal" | "expenseTotal" | "netCashflow") => {
+    if (!analysis) return "0";
+    if (combinedAnalysis && combinedAnalysis.currencySummaries.length > 1) {
+      return combinedAnalysis.currencySummaries
+        .map((summary) => formatCurrencyWithCode(summary[key], summary.currency))
+        .join(" | ");
+    }
+    return formatCurrencyWithCode(analysis[key], analysis.currencies[0] ?? "USD");
+  };
+
+  const categoryOptions = useMemo(
+    () =>
+      Array.from(
+        new Set([
+          ...(analysis?.transactions.map((transaction) => transaction.category) ?? []),
+          ...rules.map((rule) => rule.category),
+          ...budgets.map((budget) => budget.category),
+        ]),
+      ).sort((left, right) => left.localeCompare(right)),
+    [analysis, budgets, rules],
+  );
+
+  const addRule = useCallback(() => {
+    if (!ruleDraft.category.trim()) {
+      setStatus("Choose the category a rule should assign.");
+      return;
+    }
+    const parseLimit = (value: string) => (value.trim() && Number.isFinite(Number(value)) ? Number(value) : null);
+    const rule = createStatementCategoryRule({
+      ...ruleDraft,
+      minAmount: parseLimit(ruleDraft.minAmount),
+      maxAmount: parseLimit(ruleDraft.maxAmount),
+      tags: ruleDraft.tags.split(","),
+    });
+    persistRules([...rules, rule], budgets);
+    setRuleDraft(EMPTY_STATEMENT_RULE_DRAFT);
+    setStatus(`Added rule "${rule.name}". Rules run top to bottom and the first match wins.`);
+    trackEvent("tool_bank_statement_rule_add", { rules: rules.length + 1 });
+  }, [budgets, persistRules, ruleDraft, rules]);
+
+  const moveRule = useCallback((index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    persistRules(next, budgets);
+  }, [budgets, persistRules, rules]);
+
+  const addBudget = useCallback(() => {
+    const limit = Number(budgetLimit);
+    if (!budgetCategory.trim() || !Number.isFinite(limit) || limit <= 0) {
+      setStatus("Enter a category and a positive monthly limit.");
+      return;
+    }
+    const category = budgetCategory.trim();
+    const currency = budgetCurrency.trim().toUpperCase();
+    persistRules(rules, [
+      ...budgets.filter(
+        (budget) => budget.category.toLowerCase() !== category.toLowerCase() || (budget.currency ?? "") !== currency,
+      ),
+      currency ? { category, monthlyLimit: limit, currency } : { category, monthlyLimit: limit },
+    ]);
+    setBudgetCategory("");
+    setBudgetLimit("");
+    setStatus(`Set a monthly ${currency ? `${currency} ` : ""}budget for ${category}.`);
+  }, [budgetCategory, budgetCurrency, budgetLimit, budgets, persistRules, rules]);
+
+  const importRulesFile = useCallback(async (file: File | null) => {
+    if (!file) return;
+    try {
+      const imported = parseStatementRules(await readTextFileWithLimit(file, 1024 * 1024));
+      if (!imported.rules.length && !imported.budgets.length) {
+        setStatus("No rules or budgets found in this file.");
+        return;
+      }
+      const importedIds = new Set(imported.rules.map((rule) => rule.id));
+      const importedCategories = new Set(imported.budgets.map((budget) => budget.category.toLowerCase()));
+      persistRules(
+        [...rules.filter((rule) => !importedIds.has(rule.id)), ...imported.rules],
+        [...budgets.filter((budget) => !importedCategories.has(budget.category.toLowerCase())), ...imported.budgets],
+      );
+      setStatus(`Imported ${imported.rules.length} rule${imported.rules.length === 1 ? "" : "s"} and ${imported.budgets.length} budget${imported.budgets.length === 1 ? "" : "s"}.`);
+    } catch {
+      setStatus("Could not read this rules file. Use a JSON export from this tool.");
+    }
+  }, [budgets, persistRules, rules]);
 
   const normalizedTransactionRows = useMemo(() => {
     if (!analysis) return [];
@@ -42433,6 +46038,10 @@ function BankStatementNormalizerExpenseIntelligenceTool() {
       String(transaction.amount),
       transaction.balance === null ? "" : String(transaction.balance),
       transaction.currency,
+      transaction.reference ?? "",
+      transaction.accountId ?? "",
+      transaction.tags.join(" | "),
+      transaction.matchedRuleName,
       transaction.source,
     ]);
   }, [analysis]);
@@ -42452,10 +46061,21 @@ function BankStatementNormalizerExpenseIntelligenceTool() {
           <span>Statement file</span>
           <input
             type="file"
-            accept=".csv,.tsv,.txt,.md,.pdf,.html,.htm,.xml,.json"
+            accept=".csv,.tsv,.txt,.md,.pdf,.html,.htm,.xml,.json,.ofx,.qfx,.sta,.mt940,.940"
             onChange={(event) => void importStatementFile(event.target.files?.[0] ?? null)}
           />
         </label>
+        <label className="field">
+          <span>Pasted text format</span>
+          <select value={formatHint} onChange={(event) => setFormatHint(event.target.value as StatementSourceHint)}>
+            <option value="auto">Detect automatically</option>
+            <option value="csv">CSV / TSV</option>
+            <option value="ofx">OFX / QFX</option>
+            <option value="camt053">CAMT.053 XML</option>
+            <option value="mt940">SWIFT MT940</option>
+            <option value="text">Free text</option>
+          </select>
+        </label>
         <label className="field">
           <span>Max PDF pages ({maxPdfPages})</span>
           <input
@@ -42470,7 +46090,8 @@ function BankStatementNormalizerExpenseIntelligenceTool() {
         <div className="mini-panel">
           <h3>Supported inputs</h3>
           <p className="supporting-text">
-            CSV and TSV statements work best. PDF and text statements are parsed with heuristics and may need manual review before export.
+            OFX/QFX, CAMT.053 and MT940 files keep balances, currencies and bank references. CSV and TSV statements also work well. PDF and
+            text statements are parsed with heuristics and may need manual review before export.
           </p>
         </div>
       </div>
@@ -42490,7 +46111,7 @@ function BankStatementNormalizerExpenseIntelligenceTool() {
           className="action-button"
           type="button"
           disabled={processing || !inputText.trim()}
-          onClick={() => loadStatementText(inputText, sourceLabel || "Pasted statement", "auto")}
+          onClick={() => loadStatementText(inputText, sourceLabel || "Pasted statement", formatHint)}
         >
           {processing ? "Analyzing..." : "Analyze statement"}
         </button>
@@ -42513,7 +46134,22 @@ function BankStatementNormalizerExpenseIntelligenceTool() {
           onClick={() =>
             downloadCsv(
               "normalized-bank-statement.csv",
-              ["Date", "Merchant", "Normalized Merchant", "Category", "Debit", "Credit", "Net Amount", "Balance", "Currency", "Source"],
+              [
+                "Date",
+                "Merchant",
+                "Normalized Merchant",
+                "Category",
+                "Debit",
+                "Credit",
+                "Net Amount",
+                "Balance",
+                "Currency",
+                "Reference",
+                "Account",
+                "Tags",
+                "Rule",
+                "Source",
+              ],
               normalizedTransactionRows,
             )
           }
@@ -42532,29 +46168,523 @@ function BankStatementNormalizerExpenseIntelligenceTool() {
         </button>
       </div>
 
+      <div className="mini-panel">
+        <div className="panel-head">
+          <h3>Statement set</h3>
+          <span className="supporting-text">
+            Combine several statements or accounts. Overlapping transactions are removed and month-over-month trends are calculated.
+          </span>
+        </div>
+        <label className="field">
+          <span>Add statement files</span>
+          <input
+            type="file"
+            multiple
+            accept=".csv,.tsv,.txt,.md,.pdf,.html,.htm,.xml,.json,.ofx,.qfx,.sta,.mt940,.940"
+            onChange={(event) => void addStatementFiles(Array.from(event.target.files ?? []))}
+          />
+        </label>
+        <div className="button-row">
+          <button
+            className="action-button secondary"
+            type="button"
+            disabled={!inputText.trim() || statementSet.length >= STATEMENT_SET_LIMIT}
+            onClick={() => {
+              setStatementSet((current) => [...current, { label: sourceLabel || `Pasted statement ${current.length + 1}`, raw: inputText, sourceHint: formatHint }]);
+              setStatus("Added the statement text to the set.");
+            }}
+          >
+            Add current text to set
+          </button>
+          <button className="action-button secondary" type="button" disabled={!statementSet.length} onClick={() => setStatementSet([])}>
+            <Trash2 size={15} />
+            Clear set
+          </button>
+        </div>
+        {combinedAnalysis ? (
+          <div className="table-scroll">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Statement</th>
+                  <th>Format</th>
+                  <th>Period</th>
+                  <th>Accounts</th>
+                  <th>Transactions</th>
+                  <th>Overlaps removed</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {combinedAnalysis.sources.map((source, index) => (
+                  <tr key={`${source.label}-${index}`}>
+                    <td>{source.label}</td>
+                    <td>{STATEMENT_FORMAT_LABELS[source.format]}</td>
+                    <td>{source.dateFrom ? `${source.dateFrom} to ${source.dateTo}` : "-"}</td>
+                    <td>{source.accounts.join(", ") || "-"}</td>
+                    <td>{formatNumericValue(source.transactionCount)}</td>
+                    <td>{formatNumericValue(source.duplicatesRemoved)}</td>
+                    <td>
+                      <button
+                        className="chip-button"
+                        type="button"
+                        onClick={() => setStatementSet((current) => current.filter((_, entryIndex) => entryIndex !== index))}
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="supporting-text">The set is empty, so results below describe the single statement above.</p>
+        )}
+      </div>
+
       {status ? <p className="supporting-text">{status}</p> : null}
 
       <ResultList
         rows={[
           { label: "Transactions", value: formatNumericValue(analysis?.transactions.length ?? 0) },
+          { label: "Income", value: formatStatementTotal("incomeTotal") },
+          { label: "Expenses", value: formatStatementTotal("expenseTotal") },
+          { label: "Net cashflow", value: formatStatementTotal("netCashflow") },
+          { label: "Recurring charges", value: formatNumericValue(analysis?.recurringCharges.length ?? 0) },
+          { label: "Duplicate charges", value: formatNumericValue(analysis?.duplicateCharges.length ?? 0) },
+          { label: "Currencies", value: analysis?.currencies.join(", ") || "Not detected" },
           {
-            label: "Income",
-            value: analysis ? formatCurrencyWithCode(analysis.incomeTotal, analysis.currencies[0] ?? "USD") : "0",
-          },
-          {
-            label: "Expenses",
-            value: analysis ? formatCurrencyWithCode(analysis.expenseTotal, analysis.currencies[0] ?? "USD") : "0",
+            label: "Format",
+            value: combinedAnalysis
+              ? `${combinedAnalysis.sources.length} statements`
+              : analysis
+                ? STATEMENT_FORMAT_LABELS[analysis.format]
+                : "Not parsed",
           },
+          { label: "Overlapping rows removed", value: formatNumericValue(combinedAnalysis?.duplicatesRemoved ?? 0) },
           {
-            label: "Net cashflow",
-            value: analysis ? formatCurrencyWithCode(analysis.netCashflow, analysis.currencies[0] ?? "USD") : "0",
+            label: "Over-budget months",
+            value: formatNumericValue(analysis?.budgetInsights.filter((insight) => insight.status === "over").length ?? 0),
           },
-          { label: "Recurring charges", value: formatNumericValue(analysis?.recurringCharges.length ?? 0) },
-          { label: "Duplicate charges", value: formatNumericValue(analysis?.duplicateCharges.length ?? 0) },
-          { label: "Currencies", value: analysis?.currencies.join(", ") || "Not detected" },
         ]}
       />
 
+      {analysis?.balances.length ? (
+        <div className="mini-panel">
+          <div className="panel-head">
+            <h3>Statement balances</h3>
+            <span className="supporting-text">Opening and closing balances from the file, checked against the booked transactions.</span>
+          </div>
+          <div className="table-scroll">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Account</th>
+                  <th>Opening</th>
+                  <th>Closing</th>
+                  <th>Computed closing</th>
+                  <th>Transactions</th>
+                  <th>Check</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analysis.balances.map((balance, index) => (
+                  <tr key={`${balance.accountId}-${index}`}>
+                    <td>{balance.accountId || "Unknown account"}</td>
+                    <td>
+                      {balance.openingBalance === null ? "-" : formatCurrencyWithCode(balance.openingBalance, balance.currency)}
+                      {balance.openingDate ? ` (${balance.openingDate})` : ""}
+                    </td>
+                    <td>
+                      {balance.closingBalance === null ? "-" : formatCurrencyWithCode(balance.closingBalance, balance.currency)}
+                      {balance.closingDate ? ` (${balance.closingDate})` : ""}
+                    </td>
+                    <td>
+                      {balance.computedClosingBalance === null ? "-" : formatCurrencyWithCode(balance.computedClosingBalance, balance.currency)}
+                    </td>
+                    <td>{formatNumericValue(balance.transactionCount)}</td>
+                    <td>
+                      {balance.reconciled === null ? (
+                        <span className="status-badge info">Not checked</span>
+                      ) : balance.reconciled ? (
+                        <span className="status-badge ok">Balanced</span>
+                      ) : (
+                        <span className="status-badge warn">Mismatch</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : null}
+
+      {combinedAnalysis && combinedAnalysis.currencySummaries.length > 1 ? (
+        <div className="mini-panel">
+          <div className="panel-head">
+            <h3>Currencies</h3>
+            <span className="supporting-text">
+              The set mixes currencies, so totals, trends and the forecast are kept separate per currency and never added together.
+            </span>
+          </div>
+          <label className="field">
+            <span>Show trends and forecast for</span>
+            <select value={currencySummary?.currency ?? ""} onChange={(event) => setSummaryCurrency(event.target.value)}>
+              {combinedAnalysis.currencySummaries.map((summary) => (
+                <option key={summary.currency} value={summary.currency}>
+                  {summary.currency} ({formatNumericValue(summary.transactionCount)} transactions
+                  {summary.accounts.length ? `, ${summary.accounts.join(", ")}` : ""})
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      ) : null}
+
+      {currencySummary && currencySummary.months.length > 1 ? (
+        <div className="mini-panel">
+          <div className="panel-head">
+            <h3>Month-over-month category trends</h3>
+            <span className="supporting-text">
+              {currencySummary.currency} spending per category across {currencySummary.months.length} months. The last column compares the latest month with the one
+              before it.
+            </span>
+          </div>
+          <div className="table-scroll">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Category</th>
+                  {currencySummary.months.slice(-6).map((month) => (
+                    <th key={month}>{month}</th>
+                  ))}
+                  <th>Avg / month</th>
+                  <th>Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {currencySummary.categoryTrends.map((trend) => (
+                  <tr key={trend.category}>
+                    <td>{trend.category}</td>
+                    {trend.months.slice(-6).map((point) => (
+                      <td key={`${trend.category}-${point.month}`}>{formatNumericValue(point.spent)}</td>
+                    ))}
+                    <td>{formatNumericValue(trend.averageMonthly)}</td>
+                    <td>{trend.latestChangePercent === null ? "-" : `${trend.latestChangePercent > 0 ? "+" : ""}${trend.latestChangePercent}%`}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : null}
+
+      {currencySummary ? (
+        <div className="split-panel">
+          <div className="mini-panel">
+            <div className="panel-head">
+              <h3>Subscription price changes</h3>
+              <span className="supporting-text">Monthly charges whose amount changed and stayed at the new level.</span>
+            </div>
+            <ul className="plain-list">
+              {currencySummary.priceChanges.map((change) => (
+                <li key={`${change.merchant}-${change.changedOn}`}>
+                  <strong>{change.merchant}</strong>
+                  <small className="supporting-text">
+                    {formatCurrencyWithCode(change.previousAmount, currencySummary.currency)} to{" "}
+                    {formatCurrencyWithCode(change.currentAmount, currencySummary.currency)} (
+                    {change.changePercent > 0 ? "+" : ""}
+                    {change.changePercent}%) from {change.changedOn}
+                  </small>
+                </li>
+              ))}
+              {!currencySummary.priceChanges.length ? <li className="supporting-text">No subscription price changes detected.</li> : null}
+            </ul>
+          </div>
+          <div className="mini-panel">
+            <div className="panel-head">
+              <h3>Cashflow forecast</h3>
+              <span className="supporting-text">Average income and variable spend plus the recurring charges expected in each month.</span>
+            </div>
+            <ul className="plain-list">
+              {currencySummary.forecast.map((month) => (
+                <li key={month.month}>
+                  <div className="history-line">
+                    <strong>{month.month}</strong>
+                    <span className={`status-badge ${month.projectedNet < 0 ? "bad" : "ok"}`}>
+                      Net {formatCurrencyWithCode(month.projectedNet, currencySummary.currency)}
+                    </span>
+                  </div>
+                  <small className="supporting-text">
+                    Income {formatCurrencyWithCode(month.expectedIncome, currencySummary.currency)} | Recurring{" "}
+                    {formatCurrencyWithCode(month.recurringCharges, currencySummary.currency)} ({month.charges.length}{" "}
+                    charge{month.charges.length === 1 ? "" : "s"}) | Variable{" "}
+                    {formatCurrencyWithCode(month.variableSpending, currencySummary.currency)}
+                    {month.projectedBalance === null
+                      ? ""
+                      : ` | Balance ${formatCurrencyWithCode(month.projectedBalance, currencySummary.currency)}`}
+                  </small>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      ) : null}
+
+      <div className="mini-panel">
+        <div className="panel-head">
+          <h3>Categorization rules</h3>
+          <span className="supporting-text">Rules run top to bottom and the first match sets the category and tags. Leave a condition blank to skip it.</span>
+        </div>
+        <div className="field-grid">
+          <label className="field">
+            <span>Rule name</span>
+            <input type="text" value={ruleDraft.name} onChange={(event) => setRuleDraft((current) => ({ ...current, name: event.target.value }))} placeholder="Cloud hosting" />
+          </label>
+          <label className="field">
+            <span>Merchant contains (comma separated)</span>
+            <input
+              type="text"
+              value={ruleDraft.merchantContains}
+              onChange={(event) => setRuleDraft((current) => ({ ...current, merchantContains: event.target.value }))}
+              placeholder="aws, digitalocean"
+            />
+          </label>
+          <label className="field">
+            <span>Merchant regex</span>
+            <input
+              type="text"
+              value={ruleDraft.merchantPattern}
+              onChange={(event) => setRuleDraft((current) => ({ ...current, merchantPattern: event.target.value }))}
+              placeholder="^UBER\s*\*?TRIP"
+            />
+          </label>
+          <label className="field">
+            <span>Direction</span>
+            <select
+              value={ruleDraft.direction}
+              onChange={(event) => setRuleDraft((current) => ({ ...current, direction: event.target.value as StatementCategoryRule["direction"] }))}
+            >
+              <option value="any">Debits and credits</option>
+              <option value="debit">Debits only</option>
+              <option value="credit">Credits only</option>
+            </select>
+          </label>
+          <label className="field">
+            <span>Min amount</span>
+            <input type="number" min={0} value={ruleDraft.minAmount} onChange={(event) => setRuleDraft((current) => ({ ...current, minAmount: event.target.value }))} />
+          </label>
+          <label className="field">
+            <span>Max amount</span>
+            <input type="number" min={0} value={ruleDraft.maxAmount} onChange={(event) => setRuleDraft((current) => ({ ...current, maxAmount: event.target.value }))} />
+          </label>
+          <label className="field">
+            <span>Account contains</span>
+            <input type="text" value={ruleDraft.accountId} onChange={(event) => setRuleDraft((current) => ({ ...current, accountId: event.target.value }))} />
+          </label>
+          <label className="field">
+            <span>From date</span>
+            <input type="date" value={ruleDraft.dateFrom} onChange={(event) => setRuleDraft((current) => ({ ...current, dateFrom: event.target.value }))} />
+          </label>
+          <label className="field">
+            <span>To date</span>
+            <input type="date" value={ruleDraft.dateTo} onChange={(event) => setRuleDraft((current) => ({ ...current, dateTo: event.target.value }))} />
+          </label>
+          <label className="field">
+            <span>Assign category</span>
+            <input
+              type="text"
+              list="statement-category-options"
+              value={ruleDraft.category}
+              onChange={(event) => setRuleDraft((current) => ({ ...current, category: event.target.value }))}
+              placeholder="Software & SaaS"
+            />
+          </label>
+          <label className="field">
+            <span>Tags (comma separated)</span>
+            <input type="text" value={ruleDraft.tags} onChange={(event) => setRuleDraft((current) => ({ ...current, tags: event.target.value }))} placeholder="infra, billable" />
+          </label>
+        </div>
+        <datalist id="statement-category-options">
+          {categoryOptions.map((category) => (
+            <option key={category} value={category} />
+          ))}
+        </datalist>
+        <div className="button-row">
+          <button className="action-button" type="button" onClick={addRule}>
+            Add rule
+          </button>
+          <button
+            className="action-button secondary"
+            type="button"
+            disabled={!rules.length && !budgets.length}
+            onClick={() => downloadTextFile("statement-rules.json", serializeStatementRules(rules, budgets), "application/json;charset=utf-8;")}
+          >
+            <Download size={15} />
+            Export rules
+          </button>
+        </div>
+        <label className="field">
+          <span>Import rules and budgets (JSON)</span>
+          <input type="file" accept=".json,application/json" onChange={(event) => void importRulesFile(event.target.files?.[0] ?? null)} />
+        </label>
+        {rules.length ? (
+          <ul className="plain-list">
+            {rules.map((rule, index) => {
+              const match = analysis?.ruleMatches.find((entry) => entry.ruleId === rule.id);
+              return (
+                <li key={rule.id}>
+                  <div className="history-line">
+                    <label className="checkbox">
+                      <input
+                        type="checkbox"
+                        checked={rule.enabled}
+                        onChange={(event) =>
+                          persistRules(
+                            rules.map((entry) => (entry.id === rule.id ? { ...entry, enabled: event.target.checked } : entry)),
+                            budgets,
+                          )
+                        }
+                      />
+                      <strong>
+                        {index + 1}. {rule.name}
+                      </strong>
+                    </label>
+                    <span className="status-badge info">{rule.category}</span>
+                    <button className="chip-button" type="button" onClick={() => moveRule(index, -1)} disabled={index === 0}>
+                      Up
+                    </button>
+                    <button className="chip-button" type="button" onClick={() => moveRule(index, 1)} disabled={index === rules.length - 1}>
+                      Down
+                    </button>
+                    <button
+                      className="chip-button"
+                      type="button"
+                      onClick={() => persistRules(rules.filter((entry) => entry.id !== rule.id), budgets)}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                  <small className="supporting-text">
+                    {[
+                      rule.merchantContains ? `contains "${rule.merchantContains}"` : "",
+                      rule.merchantPattern ? `matches /${rule.merchantPattern}/` : "",
+                      rule.direction !== "any" ? `${rule.direction}s only` : "",
+                      rule.minAmount !== null ? `>= ${rule.minAmount}` : "",
+                      rule.maxAmount !== null ? `<= ${rule.maxAmount}` : "",
+                      rule.accountId ? `account ${rule.accountId}` : "",
+                      rule.dateFrom || rule.dateTo ? `${rule.dateFrom || "start"} to ${rule.dateTo || "end"}` : "",
+                      rule.tags.length ? `tags ${rule.tags.join(", ")}` : "",
+                    ]
+                      .filter(Boolean)
+                      .join(" | ") || "Matches every transaction"}
+                    {analysis ? ` | fired ${match?.count ?? 0} time${match?.count === 1 ? "" : "s"}` : ""}
+                  </small>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <p className="supporting-text">No custom rules yet. Built-in categories are used.</p>
+        )}
+      </div>
+
+      <div className="mini-panel">
+        <div className="panel-head">
+          <h3>Monthly budgets</h3>
+          <span className="supporting-text">
+            Spending per category is compared with its limit for every month in the statement, separately for each currency.
+          </span>
+        </div>
+        <div className="field-grid">
+          <label className="field">
+            <span>Category</span>
+            <input
+              type="text"
+              list="statement-category-options"
+              value={budgetCategory}
+              onChange={(event) => setBudgetCategory(event.target.value)}
+              placeholder="Food & Dining"
+            />
+          </label>
+          <label className="field">
+            <span>Monthly limit</span>
+            <input type="number" min={0} value={budgetLimit} onChange={(event) => setBudgetLimit(event.target.value)} />
+          </label>
+          <label className="field">
+            <span>Currency</span>
+            <select value={budgetCurrency} onChange={(event) => setBudgetCurrency(event.target.value)}>
+              <option value="">Each currency</option>
+              {Array.from(new Set([...(analysis?.currencies ?? []), ...(budgetCurrency ? [budgetCurrency] : [])])).map((currency) => (
+                <option key={currency} value={currency}>
+                  {currency}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div className="button-row">
+          <button className="action-button secondary" type="button" onClick={addBudget}>
+            Save budget
+          </button>
+        </div>
+        {budgets.length ? (
+          <div className="chip-list">
+            {budgets.map((budget) => (
+              <button
+                key={`${budget.category}-${budget.currency ?? ""}`}
+                className="chip-button"
+                type="button"
+                title="Remove budget"
+                onClick={() => persistRules(rules, budgets.filter((entry) => entry !== budget))}
+              >
+                {budget.category}: {budget.currency ? formatCurrencyWithCode(budget.monthlyLimit, budget.currency) : formatNumericValue(budget.monthlyLimit)} x
+              </button>
+            ))}
+          </div>
+        ) : null}
+        {analysis?.budgetInsights.length ? (
+          <div className="table-scroll">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Month</th>
+                  <th>Category</th>
+                  <th>Currency</th>
+                  <th>Spent</th>
+                  <th>Limit</th>
+                  <th>Used</th>
+                  <th>Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analysis.budgetInsights.map((insight) => (
+                  <tr key={`${insight.category}-${insight.currency}-${insight.month}`}>
+                    <td>{insight.month}</td>
+                    <td>{insight.category}</td>
+                    <td>{insight.currency}</td>
+                    <td>{formatCurrencyWithCode(insight.spent, insight.currency)}</td>
+                    <td>{formatCurrencyWithCode(insight.limit, insight.currency)}</td>
+                    <td>{formatNumericValue(insight.percentUsed)}%</td>
+                    <td>
+                      <span className={`status-badge ${insight.status === "over" ? "bad" : insight.status === "warning" ? "warn" : "ok"}`}>
+                        {insight.status === "over"
+                          ? `Over by ${formatCurrencyWithCode(Math.abs(insight.remaining), insight.currency)}`
+                          : insight.status === "warning"
+                            ? "Close to limit"
+                            : "On track"}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : null}
+      </div>
+
       {analysis?.merchantClusters.length ? (
         <div className="mini-panel">
           <div className="panel-head">
@@ -42656,6 +46786,7 @@ function BankStatementNormalizerExpenseIntelligenceTool() {
                   <th>Date</th>
                   <th>Merchant</th>
                   <th>Category</th>
+                  <th>Rule</th>
                   <th>Debit</th>
                   <th>Credit</th>
                   <th>Balance</th>
@@ -42666,7 +46797,11 @@ function BankStatementNormalizerExpenseIntelligenceTool() {
                   <tr key={transaction.id}>
                     <td>{transaction.date}</td>
                     <td>{transaction.merchant}</td>
-                    <td>{transaction.category}</td>
+                    <td>
+                      {transaction.category}
+                      {transaction.tags.length ? ` (${transaction.tags.join(", ")})` : ""}
+                    </td>
+                    <td>{transaction.matchedRuleName || "Built-in"}</td>
                     <td>{transaction.debit ? formatCurrencyWithCode(transaction.debit, transaction.currency) : ""}</td>
                     <td>{transaction.credit ? formatCurrencyWithCode(transaction.credit, transaction.currency) : ""}</td>
                     <td>{transaction.balance === null ? "" : formatCurrencyWithCode(transaction.balance, transaction.currency)}</td>
@@ -42681,7 +46816,128 @@ function BankStatementNormalizerExpenseIntelligenceTool() {
   );
 }
 
+function RedlineSegments({ segments }: { segments: DocumentDiffSegment[] }) {
+  return (
+    <p className="redline-text">
+      {segments.map((segment, index) => {
+        if (segment.kind === "equal") return <span key={index}>{segment.text}</span>;
+        if (segment.kind === "insert") return <ins key={index} className="redline-insert">{segment.text}</ins>;
+        if (segment.kind === "delete") return <del key={index} className="redline-delete">{segment.text}</del>;
+        return segment.kind === "move-from" ? (
+          <del key={index} className="redline-move" title={`Moved text (${segment.moveId})`}>
+            {segment.text}
+          </del>
+        ) : (
+          <ins key={index} className="redline-move" title={`Moved text (${segment.moveId})`}>
+            {segment.text}
+          </ins>
+        );
+      })}
+    </p>
+  );
+}
+
+const REDLINE_PDF_COLORS: Record<DocumentDiffSegment["kind"], [number, number, number]> = {
+  equal: [20, 22, 26],
+  insert: [26, 110, 52],
+  delete: [155, 31, 31],
+  "move-from": [31, 91, 153],
+  "move-to": [31, 91, 153],
+};
+
+async function renderDocumentRedlinePdf(blocks: DocumentRedlineBlock[], title: string): Promise<Blob> {
+  const { jsPDF } = await import("jspdf");
+  const pdf = new jsPDF({ unit: "mm", format: "a4", compress: true });
+  const margin = 18;
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const right = pageWidth - margin;
+  const lineHeight = 5.2;
+  let x = margin;
+  let y = margin;
+
+  const newLine = () => {
+    x = margin;
+    y += lineHeight;
+    if (y > pageHeight - margin) {
+      pdf.addPage();
+      y = margin;
+    }
+  };
+
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(15);
+  pdf.text(title, margin, y);
+  y += 6;
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(8.5);
+  pdf.setTextColor(90, 96, 104);
+  pdf.text("Green underlined text was inserted, red struck text was deleted, blue text was moved.", margin, y);
+  y += 9;
+  pdf.setFontSize(10.5);
+
+  blocks.forEach((block) => {
+    block.segments.forEach((segment) => {
+      const [red, green, blue] = REDLINE_PDF_COLORS[segment.kind];
+      pdf.setTextColor(red, green, blue);
+      pdf.setDrawColor(red, green, blue);
+      const pieces = segment.text.split(/(\n|\s+)/).filter(Boolean);
+      pieces.forEach((piece) => {
+        if (piece === "\n") {
+          newLine();
+          return;
+        }
+        const text = /^\s+$/.test(piece) ? " " : piece;
+        const width = pdf.getTextWidth(text);
+        if (text === " " && x === margin) return;
+        if (x + width > right && x > margin) {
+          newLine();
+          if (text === " ") return;
+        }
+        pdf.text(text, x, y);
+        if (segment.kind !== "equal") {
+          const lineY = segment.kind === "delete" || segment.kind === "move-from" ? y - 1.2 : y + 0.8;
+          pdf.setLineWidth(0.25);
+          pdf.line(x, lineY, x + width, lineY);
+        }
+        x += width;
+      });
+    });
+    newLine();
+    y += 2.4;
+  });
+
+  return pdf.output("blob");
+}
+
+const CLAUSE_LIBRARY_STORAGE_KEY = "utiliora-document-clause-library-v1";
+
+function readClauseLibrary(): DocumentClauseRule[] {
+  if (typeof window === "undefined" || typeof localStorage === "undefined") return [];
+  try {
+    const raw = localStorage.getItem(CLAUSE_LIBRARY_STORAGE_KEY);
+    if (!raw) return [];
+    return sanitizeClauseLibrary(JSON.parse(raw));
+  } catch {
+    return [];
+  }
+}
+
+function writeClauseLibrary(next: DocumentClauseRule[]): void {
+  if (typeof window === "undefined" || typeof localStorage === "undefined") return;
+  try {
+    localStorage.setItem(CLAUSE_LIBRARY_STORAGE_KEY, JSON.stringify(next));
+  } catch {
+    // Ignore storage failures.
+  }
+}
+
+function createClauseRule(): DocumentClauseRule {
+  return { id: crypto.randomUUID(), label: "", expectedText: "", keywords: [], severity: "medium", minSimilarity: 0.85 };
+}
+
 function DocumentCompareRedlineTool() {
+  const [compareMode, setCompareMode] = useState<"two-way" | "three-way">("two-way");
   const [beforeText, setBeforeText] = useState("");
   const [afterText, setAfterText] = useState("");
   const [beforeLabel, setBeforeLabel] = useState("");
@@ -42690,9 +46946,61 @@ function DocumentCompareRedlineTool() {
   const [status, setStatus] = useState("Import two documents or paste text to compare changes and review risk-heavy edits.");
   const [processing, setProcessing] = useState(false);
   const [maxPdfPages, setMaxPdfPages] = useState(8);
+  const [granularity, setGranularity] = useState<DocumentDiffGranularity>("word");
+  const [detectMoves, setDetectMoves] = useState(true);
+  const [reviewerName, setReviewerName] = useState("");
+  const [exportingRedline, setExportingRedline] = useState(false);
+  const [finalText, setFinalText] = useState("");
+  const [finalLabel, setFinalLabel] = useState("");
+  const [threeWayResult, setThreeWayResult] = useState<ThreeWayCompareResult | null>(null);
+  const [clauseLibrary, setClauseLibrary] = useState<DocumentClauseRule[]>([]);
+  const [includeKeywordRules, setIncludeKeywordRules] = useState(true);
+  const threeWay = compareMode === "three-way";
+  const sideLabels = useMemo(
+    () =>
+      threeWay
+        ? { before: "Our template", after: "Their markup (agreed)", final: "Final version" }
+        : { before: "Original", after: "Revised", final: "Final" },
+    [threeWay],
+  );
+
+  useEffect(() => {
+    setClauseLibrary(readClauseLibrary());
+  }, []);
+
+  const persistClauseLibrary = useCallback((next: DocumentClauseRule[]) => {
+    setClauseLibrary(next);
+    writeClauseLibrary(next);
+  }, []);
+
+  const updateClauseRule = useCallback(
+    (id: string, patch: Partial<DocumentClauseRule>) => {
+      persistClauseLibrary(clauseLibrary.map((rule) => (rule.id === id ? { ...rule, ...patch } : rule)));
+    },
+    [clauseLibrary, persistClauseLibrary],
+  );
+
+  const importClauseLibrary = useCallback(
+    async (file: File | null) => {
+      if (!file) return;
+      try {
+        const imported = sanitizeClauseLibrary(JSON.parse(await readTextFileWithLimit(file, 2 * 1024 * 1024)));
+        if (!imported.length) {
+          setStatus("No clause rules were found in this file.");
+          return;
+        }
+        const known = new Set(clauseLibrary.map((rule) => rule.id));
+        persistClauseLibrary([...clauseLibrary, ...imported.filter((rule) => !known.has(rule.id))]);
+        setStatus(`Imported ${imported.length} clause rule${imported.length === 1 ? "" : "s"}.`);
+      } catch {
+        setStatus("Could not read this clause library file.");
+      }
+    },
+    [clauseLibrary, persistClauseLibrary],
+  );
 
   const importSide = useCallback(
-    async (file: File | null, side: "before" | "after") => {
+    async (file: File | null, side: "before" | "after" | "final") => {
       if (!file) return;
       setProcessing(true);
       try {
@@ -42719,11 +47027,14 @@ function DocumentCompareRedlineTool() {
         if (side === "before") {
           setBeforeText(normalized);
           setBeforeLabel(label);
-        } else {
+        } else if (side === "after") {
           setAfterText(normalized);
           setAfterLabel(label);
+        } else {
+          setFinalText(normalized);
+          setFinalLabel(label);
         }
-        setStatus(`Loaded ${label} into the ${side === "before" ? "original" : "revised"} side.`);
+        setStatus(`Loaded ${label} into the ${sideLabels[side].toLowerCase()} side.`);
       } catch (error) {
         const message = error instanceof Error && error.message ? error.message : "Could not import this document.";
         setStatus(message);
@@ -42731,19 +47042,43 @@ function DocumentCompareRedlineTool() {
         setProcessing(false);
       }
     },
-    [maxPdfPages],
+    [maxPdfPages, sideLabels],
   );
 
   const runCompare = useCallback(() => {
     const left = normalizeUploadedText(beforeText).trim();
     const right = normalizeUploadedText(afterText).trim();
+    const options = { granularity, detectMoves, clauseLibrary, includeKeywordRules };
+    if (threeWay) {
+      const final = normalizeUploadedText(finalText).trim();
+      if (!left || !right || !final) {
+        setStatus("Template, markup, and final text are all required for a three-way compare.");
+        setThreeWayResult(null);
+        return;
+      }
+      const nextThreeWay = compareThreeWayDocuments(left, right, final, options);
+      setThreeWayResult(nextThreeWay);
+      setResult(null);
+      setStatus(
+        `Three-way compare finished: ${nextThreeWay.counts["slipped-in"]} changed after agreement, ${nextThreeWay.counts.reverted} reverted, ${nextThreeWay.counts.dropped} removed.`,
+      );
+      trackEvent("tool_document_compare_three_way_run", {
+        slippedIn: nextThreeWay.counts["slipped-in"],
+        reverted: nextThreeWay.counts.reverted,
+        dropped: nextThreeWay.counts.dropped,
+        clauseRules: clauseLibrary.length,
+      });
+      emitShareSignal({ action: "success", context: "document-compare-redline" });
+      return;
+    }
     if (!left || !right) {
       setStatus("Both original and revised text are required.");
       setResult(null);
       return;
     }
-    const nextResult = compareDocumentTexts(left, right);
+    const nextResult = compareDocumentTexts(left, right, options);
     setResult(nextResult);
+    setThreeWayResult(null);
     setStatus(
       `Comparison finished: ${nextResult.counts.modified} modified, ${nextResult.counts.added} added, ${nextResult.counts.removed} removed block${nextResult.changes.length === 1 ? "" : "s"}.`,
     );
@@ -42751,28 +47086,80 @@ function DocumentCompareRedlineTool() {
       modified: nextResult.counts.modified,
       added: nextResult.counts.added,
       removed: nextResult.counts.removed,
+      moved: nextResult.counts.moved,
       riskFlags: nextResult.riskFlags.length,
+      granularity,
+      clauseRules: clauseLibrary.length,
     });
     emitShareSignal({ action: "success", context: "document-compare-redline" });
-  }, [afterText, beforeText]);
+  }, [afterText, beforeText, clauseLibrary, detectMoves, finalText, granularity, includeKeywordRules, threeWay]);
 
-  const reportMarkdown = useMemo(() => (result ? buildDocumentCompareMarkdown(result) : ""), [result]);
+  const reportMarkdown = useMemo(
+    () => (threeWayResult ? buildThreeWayCompareMarkdown(threeWayResult) : result ? buildDocumentCompareMarkdown(result) : ""),
+    [result, threeWayResult],
+  );
+  const riskFlags = threeWayResult?.riskFlags ?? result?.riskFlags ?? [];
+  const threeWayChanges = useMemo(
+    () => (threeWayResult ? threeWayResult.entries.filter((entry) => entry.status !== "unchanged").slice(0, 40) : []),
+    [threeWayResult],
+  );
+  const redlineBlocks = useMemo(() => (result ? buildDocumentRedline(result) : []), [result]);
   const importantChanges = useMemo(
-    () => (result ? result.changes.filter((change) => change.kind !== "unchanged").slice(0, 20) : []),
+    () => (result ? result.changes.filter((change) => change.kind !== "unchanged" || change.moved).slice(0, 20) : []),
     [result],
   );
 
+  const exportRedline = useCallback(
+    async (format: "docx" | "pdf") => {
+      if (!redlineBlocks.length) return;
+      setExportingRedline(true);
+      try {
+        const title = afterLabel ? `Redline: ${afterLabel}` : "Document redline";
+        if (format === "docx") {
+          const JSZip = await loadJsZipModule();
+          const zip = new JSZip();
+          const parts = buildDocumentRedlineDocxParts(redlineBlocks, { title, author: reviewerName, date: new Date() });
+          Object.entries(parts).forEach(([path, content]) => zip.file(path, content));
+          const blob = await zip.generateAsync({
+            type: "blob",
+            mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+            compression: "DEFLATE",
+          });
+          downloadBlobFile("document-redline.docx", blob);
+        } else {
+          downloadBlobFile("document-redline.pdf", await renderDocumentRedlinePdf(redlineBlocks, title));
+        }
+        setStatus(`Redline exported as ${format.toUpperCase()}.`);
+        trackEvent("tool_document_compare_redline_export", { format, blocks: redlineBlocks.length });
+      } catch (error) {
+        setStatus(error instanceof Error && error.message ? error.message : "Could not export the redline.");
+      } finally {
+        setExportingRedline(false);
+      }
+    },
+    [afterLabel, redlineBlocks, reviewerName],
+  );
+
   return (
     <section className="tool-surface">
       <ToolHeading
         icon={FileText}
         title="Document compare & redline"
-        subtitle="Compare two texts or files, summarize changes, and flag risky edits to payment, deadlines, cancellation, and obligation language."
+        subtitle="Compare two texts or files with word-level redlines, export tracked changes, and flag risky edits to payment, deadlines, cancellation, and obligation language."
       />
 
+      <div className="chip-list">
+        <button className={`chip-button${!threeWay ? " active" : ""}`} type="button" onClick={() => setCompareMode("two-way")}>
+          Two-way compare
+        </button>
+        <button className={`chip-button${threeWay ? " active" : ""}`} type="button" onClick={() => setCompareMode("three-way")}>
+          Three-way (template, markup, final)
+        </button>
+      </div>
+
       <div className="field-grid">
         <label className="field">
-          <span>Original file</span>
+          <span>{sideLabels.before} file</span>
           <input
             type="file"
             accept=".txt,.md,.pdf,.doc,.docx,.rtf,.odt,.html,.htm,.xml,.json"
@@ -42780,13 +47167,23 @@ function DocumentCompareRedlineTool() {
           />
         </label>
         <label className="field">
-          <span>Revised file</span>
+          <span>{sideLabels.after} file</span>
           <input
             type="file"
             accept=".txt,.md,.pdf,.doc,.docx,.rtf,.odt,.html,.htm,.xml,.json"
             onChange={(event) => void importSide(event.target.files?.[0] ?? null, "after")}
           />
         </label>
+        {threeWay ? (
+          <label className="field">
+            <span>{sideLabels.final} file</span>
+            <input
+              type="file"
+              accept=".txt,.md,.pdf,.doc,.docx,.rtf,.odt,.html,.htm,.xml,.json"
+              onChange={(event) => void importSide(event.target.files?.[0] ?? null, "final")}
+            />
+          </label>
+        ) : null}
         <label className="field">
           <span>Max PDF pages ({maxPdfPages})</span>
           <input
@@ -42798,11 +47195,32 @@ function DocumentCompareRedlineTool() {
             onChange={(event) => setMaxPdfPages(Math.max(1, Math.min(20, Number(event.target.value))))}
           />
         </label>
+        <label className="field">
+          <span>Redline detail</span>
+          <select value={granularity} onChange={(event) => setGranularity(event.target.value as DocumentDiffGranularity)}>
+            <option value="word">Word level</option>
+            <option value="character">Character level</option>
+          </select>
+        </label>
+        <label className="field">
+          <span>Reviewer name (tracked changes author)</span>
+          <input value={reviewerName} onChange={(event) => setReviewerName(event.target.value)} placeholder="Document compare" />
+        </label>
+        <label className="checkbox">
+          <input type="checkbox" checked={detectMoves} onChange={(event) => setDetectMoves(event.target.checked)} />
+          Detect moved paragraphs and sentences
+        </label>
+        <label className="checkbox">
+          <input type="checkbox" checked={includeKeywordRules} onChange={(event) => setIncludeKeywordRules(event.target.checked)} />
+          Include built-in keyword risk rules
+        </label>
       </div>
 
       <div className="split-panel">
         <label className="field">
-          <span>Original text {beforeLabel ? `(${beforeLabel})` : ""}</span>
+          <span>
+            {sideLabels.before} text {beforeLabel ? `(${beforeLabel})` : ""}
+          </span>
           <textarea
             rows={16}
             value={beforeText}
@@ -42811,19 +47229,144 @@ function DocumentCompareRedlineTool() {
           />
         </label>
         <label className="field">
-          <span>Revised text {afterLabel ? `(${afterLabel})` : ""}</span>
+          <span>
+            {sideLabels.after} text {afterLabel ? `(${afterLabel})` : ""}
+          </span>
           <textarea
             rows={16}
             value={afterText}
             onChange={(event) => setAfterText(event.target.value)}
-            placeholder="Paste the revised version here."
+            placeholder={threeWay ? "Paste the counterparty markup you agreed to here." : "Paste the revised version here."}
+          />
+        </label>
+      </div>
+
+      {threeWay ? (
+        <label className="field">
+          <span>
+            {sideLabels.final} text {finalLabel ? `(${finalLabel})` : ""}
+          </span>
+          <textarea
+            rows={12}
+            value={finalText}
+            onChange={(event) => setFinalText(event.target.value)}
+            placeholder="Paste the final version sent for signature."
+          />
+        </label>
+      ) : null}
+
+      <div className="mini-panel">
+        <div className="panel-head">
+          <h3>Clause library</h3>
+          <span className="supporting-text">
+            Expected wording per clause. Missing or deviating clauses in the {threeWay ? "final" : "revised"} text become risk flags.
+          </span>
+        </div>
+        {clauseLibrary.length ? (
+          <ul className="plain-list">
+            {clauseLibrary.map((rule) => (
+              <li key={rule.id}>
+                <div className="field-grid">
+                  <label className="field">
+                    <span>Clause name</span>
+                    <input
+                      value={rule.label}
+                      onChange={(event) => updateClauseRule(rule.id, { label: event.target.value })}
+                      placeholder="Governing law"
+                    />
+                  </label>
+                  <label className="field">
+                    <span>Locate by keywords (comma separated)</span>
+                    <input
+                      value={rule.keywords.join(", ")}
+                      onChange={(event) => updateClauseRule(rule.id, { keywords: event.target.value.split(",").map((keyword) => keyword.trimStart()) })}
+                      placeholder="governed by, jurisdiction"
+                    />
+                  </label>
+                  <label className="field">
+                    <span>Severity</span>
+                    <select
+                      value={rule.severity}
+                      onChange={(event) => updateClauseRule(rule.id, { severity: event.target.value as DocumentRiskSeverity })}
+                    >
+                      <option value="high">High</option>
+                      <option value="medium">Medium</option>
+                      <option value="low">Low</option>
+                    </select>
+                  </label>
+                  <label className="field">
+                    <span>Minimum match ({Math.round(rule.minSimilarity * 100)}%)</span>
+                    <input
+                      type="range"
+                      min={0.5}
+                      max={1}
+                      step={0.05}
+                      value={rule.minSimilarity}
+                      onChange={(event) => updateClauseRule(rule.id, { minSimilarity: Number(event.target.value) })}
+                    />
+                  </label>
+                </div>
+                <label className="field">
+                  <span>Expected wording</span>
+                  <textarea
+                    rows={3}
+                    value={rule.expectedText}
+                    onChange={(event) => updateClauseRule(rule.id, { expectedText: event.target.value })}
+                    placeholder="This Agreement is governed by the laws of England and Wales."
+                  />
+                </label>
+                <div className="button-row">
+                  <button
+                    className="action-button secondary"
+                    type="button"
+                    onClick={() => persistClauseLibrary(clauseLibrary.filter((entry) => entry.id !== rule.id))}
+                  >
+                    Remove clause
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="supporting-text">No playbook clauses yet. Built-in keyword rules are used until you add some.</p>
+        )}
+        <div className="button-row">
+          <button className="action-button secondary" type="button" onClick={() => persistClauseLibrary([...clauseLibrary, createClauseRule()])}>
+            Add clause
+          </button>
+          <button
+            className="action-button secondary"
+            type="button"
+            disabled={!clauseLibrary.length}
+            onClick={() =>
+              downloadTextFile("clause-library.json", JSON.stringify(clauseLibrary, null, 2), "application/json;charset=utf-8;")
+            }
+          >
+            <Download size={15} />
+            Export library
+          </button>
+        </div>
+        <label className="field">
+          <span>Import clause library (JSON)</span>
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={(event) => {
+              void importClauseLibrary(event.target.files?.[0] ?? null);
+              event.target.value = "";
+            }}
           />
         </label>
       </div>
 
       <div className="button-row">
-        <button className="action-button" type="button" onClick={runCompare} disabled={processing || !beforeText.trim() || !afterText.trim()}>
-          {processing ? "Loading..." : "Compare documents"}
+        <button
+          className="action-button"
+          type="button"
+          onClick={runCompare}
+          disabled={processing || !beforeText.trim() || !afterText.trim() || (threeWay && !finalText.trim())}
+        >
+          {processing ? "Loading..." : threeWay ? "Run three-way compare" : "Compare documents"}
         </button>
         <button
           className="action-button secondary"
@@ -42837,12 +47380,36 @@ function DocumentCompareRedlineTool() {
         <button
           className="action-button secondary"
           type="button"
-          disabled={!result}
-          onClick={() => downloadTextFile("document-compare-report.json", JSON.stringify(result, null, 2), "application/json;charset=utf-8;")}
+          disabled={!result && !threeWayResult}
+          onClick={() =>
+            downloadTextFile(
+              "document-compare-report.json",
+              JSON.stringify(threeWayResult ?? result, null, 2),
+              "application/json;charset=utf-8;",
+            )
+          }
         >
           <Download size={15} />
           JSON
         </button>
+        <button
+          className="action-button secondary"
+          type="button"
+          disabled={!redlineBlocks.length || exportingRedline}
+          onClick={() => void exportRedline("docx")}
+        >
+          <Download size={15} />
+          DOCX (tracked changes)
+        </button>
+        <button
+          className="action-button secondary"
+          type="button"
+          disabled={!redlineBlocks.length || exportingRedline}
+          onClick={() => void exportRedline("pdf")}
+        >
+          <Download size={15} />
+          Redline PDF
+        </button>
         <button
           className="action-button secondary"
           type="button"
@@ -42864,7 +47431,8 @@ function DocumentCompareRedlineTool() {
           { label: "Modified blocks", value: formatNumericValue(result?.counts.modified ?? 0) },
           { label: "Added blocks", value: formatNumericValue(result?.counts.added ?? 0) },
           { label: "Removed blocks", value: formatNumericValue(result?.counts.removed ?? 0) },
-          { label: "Risk flags", value: formatNumericValue(result?.riskFlags.length ?? 0) },
+          { label: "Moved blocks", value: formatNumericValue(result?.counts.moved ?? 0) },
+          { label: "Risk flags", value: formatNumericValue(riskFlags.length) },
           { label: "Original blocks", value: formatNumericValue(result?.beforeBlocks.length ?? 0) },
           { label: "Revised blocks", value: formatNumericValue(result?.afterBlocks.length ?? 0) },
         ]}
@@ -42884,14 +47452,50 @@ function DocumentCompareRedlineTool() {
         </div>
       ) : null}
 
-      {result?.riskFlags.length ? (
+      {threeWayResult ? (
+        <div className="mini-panel">
+          <div className="panel-head">
+            <h3>Three-way review</h3>
+            <span className="supporting-text">Final version against the agreed markup, checked against your template.</span>
+          </div>
+          <div className="chip-list">
+            {(Object.keys(THREE_WAY_STATUS_LABELS) as Array<keyof typeof THREE_WAY_STATUS_LABELS>).map((key) => (
+              <span key={key} className="chip-button">
+                {THREE_WAY_STATUS_LABELS[key]}: {formatNumericValue(threeWayResult.counts[key])}
+              </span>
+            ))}
+          </div>
+          {threeWayChanges.length ? (
+            <ul className="plain-list">
+              {threeWayChanges.map((entry) => (
+                <li key={entry.id}>
+                  <div className="history-line">
+                    <strong>{THREE_WAY_STATUS_LABELS[entry.status]}</strong>
+                    <span className={`status-badge ${entry.status === "negotiated" ? "ok" : entry.status === "dropped" ? "warn" : "bad"}`}>
+                      {entry.status}
+                    </span>
+                  </div>
+                  {entry.templateText && entry.status !== "reverted" ? (
+                    <small className="supporting-text">Template: {entry.templateText}</small>
+                  ) : null}
+                  <RedlineSegments segments={entry.segments} />
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="supporting-text">The final version matches the agreed markup.</p>
+          )}
+        </div>
+      ) : null}
+
+      {riskFlags.length ? (
         <div className="mini-panel">
           <div className="panel-head">
             <h3>Risk flags</h3>
-            <span className="supporting-text">Payment, deadline, cancellation, renewal, and obligation changes to review first.</span>
+            <span className="supporting-text">Playbook clauses, late changes, and payment, deadline, cancellation, renewal, and obligation edits.</span>
           </div>
           <ul className="plain-list">
-            {result.riskFlags.map((flag, index) => (
+            {riskFlags.map((flag, index) => (
               <li key={`${flag.label}-${index}`}>
                 <div className="history-line">
                   <strong>{flag.label}</strong>
@@ -42911,19 +47515,23 @@ function DocumentCompareRedlineTool() {
         <div className="mini-panel">
           <div className="panel-head">
             <h3>Redline review</h3>
-            <span className="supporting-text">Block-level additions, removals, and modifications.</span>
+            <span className="supporting-text">
+              {granularity === "character" ? "Character" : "Word"}-level insertions, deletions, and moved text in each changed block.
+            </span>
           </div>
           <ul className="plain-list">
             {importantChanges.map((change) => (
               <li key={change.id}>
                 <div className="history-line">
-                  <strong>{change.kind.toUpperCase()}</strong>
+                  <strong>
+                    {change.kind.toUpperCase()}
+                    {change.moved ? " + MOVED" : ""}
+                  </strong>
                   <span className={`status-badge ${change.kind === "added" ? "ok" : change.kind === "removed" ? "bad" : "warn"}`}>
                     {formatNumericValue(Math.round(change.similarity * 100))}%
                   </span>
                 </div>
-                {change.beforeText ? <small className="supporting-text">Before: {change.beforeText}</small> : null}
-                {change.afterText ? <small className="supporting-text">After: {change.afterText}</small> : null}
+                <RedlineSegments segments={change.segments} />
               </li>
             ))}
           </ul>
@@ -44010,13 +48618,18 @@ function PdfFormFillerSignaturePackTool() {
   );
 }
 
-type PiiStudioSourceMode = "text" | "file";
+type PiiStudioSourceMode = "text" | "file" | "dataset";
+
+type PiiDatasetSource =
+  | { kind: "csv"; name: string; dataset: CsvDataset }
+  | { kind: "json"; name: string; document: unknown };
 
 interface PiiVisualLineEntry {
   id: string;
   text: string;
-  bbox: { x: number; y: number; width: number; height: number };
+  bbox: PiiBoundingBox;
   findings: PiiFinding[];
+  regions: Record<string, PiiBoundingBox>;
 }
 
 interface PiiVisualPageEntry {
@@ -44025,6 +48638,9 @@ interface PiiVisualPageEntry {
   imageDataUrl: string;
   width: number;
   height: number;
+  pointWidth: number;
+  pointHeight: number;
+  source: "ocr" | "pdf-text";
   lines: PiiVisualLineEntry[];
 }
 
@@ -44039,6 +48655,11 @@ interface PiiHistoryEntry {
 
 const PII_REDACTION_HISTORY_KEY = "utiliora-pii-redaction-history-v1";
 const PII_REDACTION_HISTORY_LIMIT = 12;
+const PII_REDACTION_PROFILES_KEY = "utiliora-pii-redaction-profiles-v1";
+const PII_PDF_RENDER_SCALE = 2;
+const PII_PDF_MIN_TEXT_TOKENS = 5;
+const PII_REDACTION_BOX_PADDING = 3;
+const PII_DATASET_UPLOAD_ACCEPT = ".csv,.tsv,.json,text/csv,text/tab-separated-values,application/json";
 const PII_TEXT_UPLOAD_ACCEPT = ".txt,.md,.markdown,.csv,.tsv,.json,.html,.htm,.xml,text/plain,text/csv,text/markdown,application/json,text/html,application/xml,image/*,application/pdf";
 
 function parseCustomTerms(value: string): string[] {
@@ -44077,11 +48698,16 @@ async function loadImageFromDataUrl(dataUrl: string): Promise<HTMLImageElement>
   });
 }
 
-function buildVisualRedactedText(pages: PiiVisualPageEntry[], selectedIds: string[], mode: PiiReplacementMode): string {
+function buildVisualRedactedText(
+  pages: PiiVisualPageEntry[],
+  selectedIds: string[],
+  mode: PiiReplacementMode,
+  vault: PiiPseudonymVault,
+): string {
   return pages
     .map((page) =>
       page.lines
-        .map((line) => applyPiiRedactions(line.text, line.findings, selectedIds, mode))
+        .map((line) => applyPiiRedactions(line.text, line.findings, selectedIds, mode, vault))
         .join("\n"),
     )
     .filter(Boolean)
@@ -44098,21 +48724,121 @@ async function renderRedactedVisualPreview(page: PiiVisualPageEntry, selectedIds
     throw new Error("Canvas unavailable for preview rendering.");
   }
   context.drawImage(image, 0, 0, page.width, page.height);
-  context.fillStyle = "#0b0f14";
+  context.fillStyle = "#000000";
   page.lines.forEach((line) => {
-    if (!line.findings.some((finding) => selectedIds.includes(finding.id))) return;
-    context.fillRect(
-      Math.max(0, line.bbox.x - 2),
-      Math.max(0, line.bbox.y - 2),
-      Math.min(page.width, line.bbox.width + 4),
-      Math.min(page.height, line.bbox.height + 4),
-    );
+    line.findings
+      .filter((finding) => selectedIds.includes(finding.id))
+      .forEach((finding) => {
+        const box = line.regions[finding.id] ?? line.bbox;
+        context.fillRect(
+          Math.max(0, box.x - PII_REDACTION_BOX_PADDING),
+          Math.max(0, box.y - PII_REDACTION_BOX_PADDING),
+          Math.min(page.width, box.width + PII_REDACTION_BOX_PADDING * 2),
+          Math.min(page.height, box.height + PII_REDACTION_BOX_PADDING * 2),
+        );
+      });
   });
   return canvas.toDataURL("image/png");
 }
 
-function createVisualLineFindings(lineId: string, text: string, customTerms: string[]): PiiFinding[] {
-  return detectPiiFindings(text, customTerms).map((finding) => ({
+function ocrBoxToLayoutToken(
+  text: string | undefined,
+  bbox: OcrRecognitionWord["bbox"],
+): PiiLayoutToken | null {
+  const value = (text ?? "").trim();
+  if (!value || !bbox) return null;
+  const x = Math.max(0, Number(bbox.x0 ?? 0));
+  const y = Math.max(0, Number(bbox.y0 ?? 0));
+  return {
+    text: value,
+    bbox: { x, y, width: Math.max(4, Number(bbox.x1 ?? 0) - x), height: Math.max(4, Number(bbox.y1 ?? 0) - y) },
+  };
+}
+
+function collectOcrLayoutLines(data: OcrRecognitionData | undefined): PiiLayoutToken[][] {
+  const lines = Array.isArray(data?.lines) ? data.lines : [];
+  return lines.map((line) => {
+    const words = Array.isArray(line.words) && line.words.length ? line.words : [line];
+    return words
+      .map((word) => ocrBoxToLayoutToken(word.text, word.bbox))
+      .filter((token): token is PiiLayoutToken => Boolean(token));
+  });
+}
+
+function collectPdfTextLayoutTokens(
+  items: PdfJsTextItem[],
+  viewportTransform: number[],
+  styles: PdfJsTextContent["styles"] = {},
+): PiiLayoutToken[] {
+  const [va, vb, vc, vd, ve, vf] = viewportTransform;
+  const scale = Math.hypot(va, vb);
+  const measure = document.createElement("canvas").getContext("2d");
+  return items.flatMap((item) => {
+    const text = item.str ?? "";
+    if (!text.trim() || !item.transform) return [];
+    const [, , c, d, e, f] = item.transform;
+    const x = va * e + vc * f + ve;
+    const baseline = vb * e + vd * f + vf;
+    const fontHeight = Math.max(Math.hypot(c, d), item.height ?? 0) * scale;
+    const itemWidth = (item.width ?? 0) * scale;
+    if (measure) {
+      const family = styles[item.fontName ?? ""]?.fontFamily ?? "sans-serif";
+      measure.font = item.fontName ? `100px "${item.fontName}", ${family}` : `100px ${family}`;
+    }
+    const measuredWidth = measure?.measureText(text).width ?? 0;
+    const offsetAt = (index: number) =>
+      measure && measuredWidth > 0
+        ? (measure.measureText(text.slice(0, index)).width / measuredWidth) * itemWidth
+        : (index / Math.max(1, text.length)) * itemWidth;
+    return Array.from(text.matchAll(/\S+/g)).map((match) => {
+      const start = offsetAt(match.index ?? 0);
+      return {
+        text: match[0],
+        bbox: {
+          x: x + start,
+          y: baseline - fontHeight,
+          width: Math.max(1, offsetAt((match.index ?? 0) + match[0].length) - start),
+          height: fontHeight * 1.25,
+        },
+      };
+    });
+  });
+}
+
+function buildPiiVisualLines(
+  prefix: string,
+  tokenLines: PiiLayoutToken[][],
+  customTerms: string[],
+  enabledDetectors: PiiDetectorType[],
+): PiiVisualLineEntry[] {
+  return tokenLines
+    .filter((tokens) => tokens.length > 0)
+    .map((tokens, index) => {
+      const lineId = `${prefix}-line-${index}`;
+      const layout = buildPiiLayoutLine(tokens);
+      const findings = createVisualLineFindings(lineId, layout.text, customTerms, enabledDetectors);
+      const regions: Record<string, PiiBoundingBox> = {};
+      findings.forEach((finding) => {
+        const box = locatePiiFindingBox(layout, finding);
+        if (box) regions[finding.id] = box;
+      });
+      return {
+        id: lineId,
+        text: layout.text,
+        bbox: locatePiiFindingBox(layout, { start: 0, end: layout.text.length }) ?? tokens[0].bbox,
+        findings,
+        regions,
+      };
+    });
+}
+
+function createVisualLineFindings(
+  lineId: string,
+  text: string,
+  customTerms: string[],
+  enabledDetectors: PiiDetectorType[],
+): PiiFinding[] {
+  return detectPiiFindings(text, customTerms, enabledDetectors).map((finding) => ({
     ...finding,
     id: `${lineId}-${finding.id}`,
   }));
@@ -44134,6 +48860,63 @@ function PiiRedactionStudioTool() {
   const [history, setHistory] = useState<PiiHistoryEntry[]>([]);
   const [uploadedLabel, setUploadedLabel] = useState("");
   const [maxPdfPages, setMaxPdfPages] = useState(4);
+  const [profileId, setProfileId] = useState(PII_REDACTION_PROFILES[0].id);
+  const [enabledDetectors, setEnabledDetectors] = useState<PiiDetectorType[]>(PII_REDACTION_PROFILES[0].types);
+  const [customProfiles, setCustomProfiles] = useState<PiiRedactionProfile[]>([]);
+  const [profileName, setProfileName] = useState("");
+  const [vault, setVault] = useState<PiiPseudonymVault>(() => createPseudonymVault());
+  const [vaultPassword, setVaultPassword] = useState("");
+  const [vaultBusy, setVaultBusy] = useState(false);
+  const [reidentifyInput, setReidentifyInput] = useState("");
+  const [reidentifyOutput, setReidentifyOutput] = useState("");
+  const [datasetSource, setDatasetSource] = useState<PiiDatasetSource | null>(null);
+  const [datasetScan, setDatasetScan] = useState<PiiDatasetScan | null>(null);
+  const [columnPolicies, setColumnPolicies] = useState<Record<string, PiiColumnPolicy>>({});
+  const [datasetSalt, setDatasetSalt] = useState("");
+  const [datasetSummary, setDatasetSummary] = useState<PiiDatasetSanitizeSummary | null>(null);
+  const [datasetBusy, setDatasetBusy] = useState(false);
+
+  useEffect(() => {
+    try {
+      const raw = window.localStorage.getItem(PII_REDACTION_PROFILES_KEY);
+      if (raw) setCustomProfiles(sanitizePiiRedactionProfiles(JSON.parse(raw)));
+    } catch {
+      // Ignore malformed saved profiles.
+    }
+  }, []);
+
+  const persistCustomProfiles = useCallback((next: PiiRedactionProfile[]) => {
+    setCustomProfiles(next);
+    try {
+      window.localStorage.setItem(PII_REDACTION_PROFILES_KEY, JSON.stringify(next));
+    } catch {
+      // Ignore storage failures.
+    }
+  }, []);
+
+  const applyProfile = useCallback(
+    (id: string) => {
+      const profile = [...PII_REDACTION_PROFILES, ...customProfiles].find((entry) => entry.id === id);
+      if (!profile) return;
+      setProfileId(profile.id);
+      setEnabledDetectors(profile.types);
+    },
+    [customProfiles],
+  );
+
+  const saveCurrentProfile = useCallback(() => {
+    const label = profileName.trim();
+    if (!label || !enabledDetectors.length) {
+      setStatus("Name the profile and enable at least one detector before saving.");
+      return;
+    }
+    const existing = customProfiles.find((entry) => entry.label.toLowerCase() === label.toLowerCase());
+    const profile: PiiRedactionProfile = { id: existing?.id ?? crypto.randomUUID(), label, types: enabledDetectors };
+    persistCustomProfiles(existing ? customProfiles.map((entry) => (entry.id === profile.id ? profile : entry)) : [...customProfiles, profile]);
+    setProfileId(profile.id);
+    setProfileName("");
+    setStatus(`Saved redaction profile "${label}".`);
+  }, [customProfiles, enabledDetectors, persistCustomProfiles, profileName]);
 
   useEffect(() => {
     try {
@@ -44170,9 +48953,48 @@ function PiiRedactionStudioTool() {
     [findings, selectedFindingIds],
   );
 
+  useEffect(() => {
+    if (replacementMode !== "pseudonym" || !selectedFindings.length) return;
+    setVault((current) => assignPseudonyms(current, selectedFindings));
+  }, [replacementMode, selectedFindings]);
+
+  const vaultEntryCount = useMemo(() => Object.keys(vault.entries).length, [vault]);
+
+  const downloadVault = useCallback(async () => {
+    setVaultBusy(true);
+    try {
+      const payload = await encryptPseudonymVault(vault, vaultPassword);
+      downloadTextFile("pii-pseudonym-vault.json", payload, "application/json;charset=utf-8;");
+      setStatus(`Downloaded an encrypted vault with ${vaultEntryCount} pseudonym${vaultEntryCount === 1 ? "" : "s"}. Keep the password separately.`);
+      trackEvent("tool_pii_redaction_vault_export", { entries: vaultEntryCount });
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : "Could not encrypt the vault.");
+    } finally {
+      setVaultBusy(false);
+    }
+  }, [vault, vaultEntryCount, vaultPassword]);
+
+  const openVaultFile = useCallback(
+    async (file: File | null) => {
+      if (!file) return;
+      setVaultBusy(true);
+      try {
+        const opened = await decryptPseudonymVault(await readTextFileWithLimit(file, 20 * 1024 * 1024), vaultPassword);
+        setVault(opened);
+        const count = Object.keys(opened.entries).length;
+        setStatus(`Opened vault ${file.name} with ${count} pseudonym${count === 1 ? "" : "s"}. New values will continue its numbering.`);
+      } catch (error) {
+        setStatus(error instanceof Error ? error.message : "Could not open the vault file.");
+      } finally {
+        setVaultBusy(false);
+      }
+    },
+    [vaultPassword],
+  );
+
   useEffect(() => {
     if (visualPages.length > 0) {
-      setRedactedText(buildVisualRedactedText(visualPages, selectedFindingIds, replacementMode));
+      setRedactedText(buildVisualRedactedText(visualPages, selectedFindingIds, replacementMode, vault));
       let cancelled = false;
       void (async () => {
         const next: Record<string, string> = {};
@@ -44186,9 +49008,9 @@ function PiiRedactionStudioTool() {
       };
     }
 
-    setRedactedText(applyPiiRedactions(inputText, findings, selectedFindingIds, replacementMode));
+    setRedactedText(applyPiiRedactions(inputText, findings, selectedFindingIds, replacementMode, vault));
     return undefined;
-  }, [findings, inputText, replacementMode, selectedFindingIds, visualPages]);
+  }, [findings, inputText, replacementMode, selectedFindingIds, vault, visualPages]);
 
   const completeScan = useCallback(
     (nextFindings: PiiFinding[], label: string, sourceType: string, nextVisualPages: PiiVisualPageEntry[] = []) => {
@@ -44225,9 +49047,9 @@ function PiiRedactionStudioTool() {
       setStatus("Paste text before running a PII scan.");
       return;
     }
-    const nextFindings = detectPiiFindings(normalized, customTerms);
+    const nextFindings = detectPiiFindings(normalized, customTerms, enabledDetectors);
     completeScan(nextFindings, uploadedLabel || "Pasted text", "text");
-  }, [completeScan, customTerms, inputText, uploadedLabel]);
+  }, [completeScan, customTerms, enabledDetectors, inputText, uploadedLabel]);
 
   const processUploadedFile = useCallback(
     async (file: File | null) => {
@@ -44254,7 +49076,7 @@ function PiiRedactionStudioTool() {
           const rawText = await readTextFileWithLimit(file, 6 * 1024 * 1024);
           const normalized = normalizeUploadedText(rawText);
           setInputText(normalized);
-          const nextFindings = detectPiiFindings(normalized, customTerms);
+          const nextFindings = detectPiiFindings(normalized, customTerms, enabledDetectors);
           completeScan(nextFindings, file.name, "text-file");
           setProgress(100);
           return;
@@ -44263,8 +49085,8 @@ function PiiRedactionStudioTool() {
         let worker: OcrWorkerLike | null = null;
         let loadingTask: PdfJsLoadingTask | null = null;
         let pdfDocument: PdfJsDocument | null = null;
-
-        try {
+        const ensureWorker = async () => {
+          if (worker) return worker;
           const tesseractModule = (await import("tesseract.js")) as unknown as OcrModuleLike;
           worker = await tesseractModule.createWorker("eng", 1, {
             logger: (message) => {
@@ -44274,46 +49096,33 @@ function PiiRedactionStudioTool() {
               }
             },
           });
+          return worker;
+        };
 
+        try {
           if (isImage) {
-            setStatus("Running OCR and building image redaction preview...");
+            setStatus("Running OCR and locating sensitive words in the image...");
             const dataUrl = await readFileAsDataUrl(file);
             const image = await loadImageFromDataUrl(dataUrl);
-            const recognition = await worker.recognize(file);
-            const data = recognition.data as OcrRecognitionData | undefined;
-            const lines = Array.isArray(data?.lines) ? data.lines : [];
-
-            const visualLines = lines
-              .map((line, index) => {
-                const text = (line.text ?? "").trim();
-                const bbox = line.bbox;
-                if (!text || !bbox) return null;
-                const width = Math.max(8, Number(bbox.x1 ?? 0) - Number(bbox.x0 ?? 0));
-                const height = Math.max(8, Number(bbox.y1 ?? 0) - Number(bbox.y0 ?? 0));
-                const lineId = `image-line-${index}`;
-                const lineFindings = createVisualLineFindings(lineId, text, customTerms);
-                return {
-                  id: lineId,
-                  text,
-                  bbox: {
-                    x: Math.max(0, Number(bbox.x0 ?? 0)),
-                    y: Math.max(0, Number(bbox.y0 ?? 0)),
-                    width,
-                    height,
-                  },
-                  findings: lineFindings,
-                } satisfies PiiVisualLineEntry;
-              })
-              .filter((entry): entry is PiiVisualLineEntry => Boolean(entry));
-
-            const flattened = visualLines.flatMap((line) => line.findings);
-            completeScan(flattened, file.name, "image", [
+            const recognition = await (await ensureWorker()).recognize(file);
+            const visualLines = buildPiiVisualLines(
+              "image",
+              collectOcrLayoutLines(recognition.data as OcrRecognitionData | undefined),
+              customTerms,
+              enabledDetectors,
+            );
+            const width = image.naturalWidth || image.width;
+            const height = image.naturalHeight || image.height;
+            completeScan(visualLines.flatMap((line) => line.findings), file.name, "image", [
               {
                 id: "image-page-1",
                 label: file.name,
                 imageDataUrl: dataUrl,
-                width: image.naturalWidth || image.width,
-                height: image.naturalHeight || image.height,
+                width,
+                height,
+                pointWidth: width,
+                pointHeight: height,
+                source: "ocr",
                 lines: visualLines,
               },
             ]);
@@ -44322,7 +49131,7 @@ function PiiRedactionStudioTool() {
           }
 
           if (isPdf) {
-            setStatus("Rendering PDF pages for OCR redaction...");
+            setStatus("Rendering PDF pages for redaction...");
             const pdfjs = await loadPdfJsModule();
             const bytes = await readPdfFileBytes(file);
             const opened = await openPdfDocumentWithFallback(pdfjs, bytes);
@@ -44335,7 +49144,7 @@ function PiiRedactionStudioTool() {
             for (let pageIndex = 0; pageIndex < totalPages; pageIndex += 1) {
               setStatus(`Scanning PDF page ${pageIndex + 1}/${totalPages}...`);
               const page = await pdfDocument.getPage(pageIndex + 1);
-              const viewport = page.getViewport({ scale: 2 });
+              const viewport = page.getViewport({ scale: PII_PDF_RENDER_SCALE });
               const canvas = document.createElement("canvas");
               canvas.width = Math.max(1, Math.floor(viewport.width));
               canvas.height = Math.max(1, Math.floor(viewport.height));
@@ -44344,31 +49153,17 @@ function PiiRedactionStudioTool() {
                 throw new Error("Canvas unavailable for PDF rendering.");
               }
               await page.render({ canvasContext: context, viewport }).promise;
-              const recognition = await worker.recognize(canvas);
-              const data = recognition.data as OcrRecognitionData | undefined;
-              const lines = Array.isArray(data?.lines) ? data.lines : [];
-              const visualLines = lines
-                .map((line, index) => {
-                  const text = (line.text ?? "").trim();
-                  const bbox = line.bbox;
-                  if (!text || !bbox) return null;
-                  const width = Math.max(8, Number(bbox.x1 ?? 0) - Number(bbox.x0 ?? 0));
-                  const height = Math.max(8, Number(bbox.y1 ?? 0) - Number(bbox.y0 ?? 0));
-                  const lineId = `pdf-${pageIndex + 1}-line-${index}`;
-                  const lineFindings = createVisualLineFindings(lineId, text, customTerms);
-                  return {
-                    id: lineId,
-                    text,
-                    bbox: {
-                      x: Math.max(0, Number(bbox.x0 ?? 0)),
-                      y: Math.max(0, Number(bbox.y0 ?? 0)),
-                      width,
-                      height,
-                    },
-                    findings: lineFindings,
-                  } satisfies PiiVisualLineEntry;
-                })
-                .filter((entry): entry is PiiVisualLineEntry => Boolean(entry));
+
+              const textContent = page.getTextContent && viewport.transform ? await page.getTextContent() : null;
+              const textTokens =
+                textContent && viewport.transform
+                  ? collectPdfTextLayoutTokens(textContent.items ?? [], viewport.transform, textContent.styles)
+                  : [];
+              const useTextLayer = textTokens.length >= PII_PDF_MIN_TEXT_TOKENS;
+              const tokenLines = useTextLayer
+                ? groupPiiLayoutTokens(textTokens)
+                : collectOcrLayoutLines((await (await ensureWorker()).recognize(canvas)).data as OcrRecognitionData | undefined);
+              const visualLines = buildPiiVisualLines(`pdf-${pageIndex + 1}`, tokenLines, customTerms, enabledDetectors);
 
               visualLines.forEach((line) => flattenedFindings.push(...line.findings));
               pages.push({
@@ -44377,6 +49172,9 @@ function PiiRedactionStudioTool() {
                 imageDataUrl: canvas.toDataURL("image/png"),
                 width: canvas.width,
                 height: canvas.height,
+                pointWidth: canvas.width / PII_PDF_RENDER_SCALE,
+                pointHeight: canvas.height / PII_PDF_RENDER_SCALE,
+                source: useTextLayer ? "pdf-text" : "ocr",
                 lines: visualLines,
               });
               setProgress(Math.round(((pageIndex + 1) / totalPages) * 100));
@@ -44388,9 +49186,10 @@ function PiiRedactionStudioTool() {
 
           setStatus("Unsupported file type. Use text, image, or PDF files.");
         } finally {
-          if (worker) {
+          const activeWorker = worker as OcrWorkerLike | null;
+          if (activeWorker) {
             try {
-              await worker.terminate();
+              await activeWorker.terminate();
             } catch {
               // Ignore OCR worker cleanup failures.
             }
@@ -44403,29 +49202,140 @@ function PiiRedactionStudioTool() {
         setProcessing(false);
       }
     },
-    [completeScan, customTerms, maxPdfPages],
+    [completeScan, customTerms, enabledDetectors, maxPdfPages],
   );
 
-  const exportRedactedPdf = useCallback(async () => {
-    if (!visualPages.length) return;
-    const { jsPDF } = await import("jspdf");
-    let output: JsPdfType | null = null;
-    for (const page of visualPages) {
-      const preview = visualPreviews[page.id];
-      if (!preview) continue;
-      if (!output) {
-        output = new jsPDF({
-          orientation: page.width >= page.height ? "landscape" : "portrait",
-          unit: "pt",
-          format: [page.width, page.height],
-        });
+  const scanDataset = useCallback(
+    (source: PiiDatasetSource) => {
+      const options = { customTerms, enabledTypes: enabledDetectors };
+      const scan = source.kind === "csv" ? scanCsvDatasetPii(source.dataset, options) : scanJsonDocumentPii(source.document, options);
+      setDatasetScan(scan);
+      setDatasetSummary(null);
+      setColumnPolicies(Object.fromEntries(scan.columns.map((column) => [column.path, column.suggestedPolicy])));
+      const piiColumns = scan.columns.filter((column) => column.piiCells > 0).length;
+      setStatus(
+        `Scanned ${formatNumericValue(scan.scannedRecords)} of ${formatNumericValue(scan.records)} record${scan.records === 1 ? "" : "s"}: ${piiColumns} of ${scan.columns.length} ${source.kind === "csv" ? "columns" : "paths"} contain PII. Review the suggested policies before sanitizing.`,
+      );
+      trackEvent("tool_pii_redaction_dataset_scan", { kind: source.kind, columns: scan.columns.length, piiColumns });
+    },
+    [customTerms, enabledDetectors],
+  );
+
+  const loadDatasetFile = useCallback(
+    async (file: File | null) => {
+      if (!file) return;
+      try {
+        const raw = normalizeUploadedText(await readTextFileWithLimit(file, 20 * 1024 * 1024));
+        let source: PiiDatasetSource;
+        if (getFileExtension(file.name) === "json" || file.type === "application/json") {
+          try {
+            source = { kind: "json", name: file.name, document: JSON.parse(raw) };
+          } catch {
+            setStatus("This JSON file could not be parsed.");
+            return;
+          }
+        } else {
+          const dataset = parseDelimitedText(raw);
+          if (!dataset.headers.length) {
+            setStatus("This CSV file has no header row.");
+            return;
+          }
+          source = { kind: "csv", name: file.name, dataset };
+        }
+        setDatasetSource(source);
+        setUploadedLabel(file.name);
+        scanDataset(source);
+      } catch (error) {
+        setStatus(error instanceof Error ? error.message : "Could not read this dataset.");
+      }
+    },
+    [scanDataset],
+  );
+
+  const sanitizeDataset = useCallback(async () => {
+    if (!datasetSource) return;
+    setDatasetBusy(true);
+    try {
+      const options = { policies: columnPolicies, salt: datasetSalt, vault, customTerms, enabledTypes: enabledDetectors };
+      const baseName = datasetSource.name.replace(/\.[^.]+$/, "") || "dataset";
+      let summary: PiiDatasetSanitizeSummary;
+      if (datasetSource.kind === "csv") {
+        const result = await sanitizeCsvDatasetPii(datasetSource.dataset, options);
+        downloadTextFile(
+          `${baseName}-sanitized.csv`,
+          buildCsvText(result.dataset.headers, result.dataset.rows, result.dataset.delimiter),
+          "text/csv;charset=utf-8;",
+        );
+        setVault(result.vault);
+        summary = result.summary;
       } else {
-        output.addPage([page.width, page.height], page.width >= page.height ? "landscape" : "portrait");
+        const result = await sanitizeJsonDocumentPii(datasetSource.document, options);
+        downloadTextFile(`${baseName}-sanitized.json`, JSON.stringify(result.document, null, 2), "application/json;charset=utf-8;");
+        setVault(result.vault);
+        summary = result.summary;
       }
-      output.addImage(preview, "PNG", 0, 0, page.width, page.height);
+      setDatasetSummary(summary);
+      const changed = summary.columns.reduce((sum, column) => sum + column.changedCells, 0);
+      setStatus(
+        `Sanitized ${formatNumericValue(summary.records)} record${summary.records === 1 ? "" : "s"}: ${formatNumericValue(changed)} value${changed === 1 ? "" : "s"} changed and ${summary.droppedPaths.length} ${datasetSource.kind === "csv" ? "column" : "path"}${summary.droppedPaths.length === 1 ? "" : "s"} dropped.`,
+      );
+      trackEvent("tool_pii_redaction_dataset_sanitize", { kind: summary.kind, records: summary.records, changed });
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : "Could not sanitize this dataset.");
+    } finally {
+      setDatasetBusy(false);
+    }
+  }, [columnPolicies, customTerms, datasetSalt, datasetSource, enabledDetectors, vault]);
+
+  const redactionLog = useMemo<PiiRedactionLogEntry[]>(
+    () =>
+      visualPages.flatMap((page) =>
+        page.lines.flatMap((line) =>
+          line.findings
+            .filter((finding) => selectedFindingIds.includes(finding.id))
+            .map((finding) => {
+              const box = line.regions[finding.id] ?? line.bbox;
+              const ratio = page.pointWidth / page.width;
+              return {
+                page: page.label,
+                type: finding.type,
+                label: finding.label,
+                maskedValue: maskPiiValue(finding),
+                bbox: {
+                  x: Math.round(box.x * ratio),
+                  y: Math.round(box.y * ratio),
+                  width: Math.round(box.width * ratio),
+                  height: Math.round(box.height * ratio),
+                },
+              };
+            }),
+        ),
+      ),
+    [selectedFindingIds, visualPages],
+  );
+
+  const exportRedactedPdf = useCallback(async () => {
+    if (!visualPages.length || visualPages.some((page) => !visualPreviews[page.id])) {
+      setStatus("Wait for the redacted previews to finish rendering before exporting.");
+      return;
+    }
+    try {
+      const { buildImageOnlyPdf } = await import("@/lib/pdf-assembly");
+      const pages = await Promise.all(
+        visualPages.map(async (page) => ({
+          pngBytes: new Uint8Array(await (await fetch(visualPreviews[page.id])).arrayBuffer()),
+          width: page.pointWidth,
+          height: page.pointHeight,
+        })),
+      );
+      const bytes = await buildImageOnlyPdf(pages);
+      downloadBlobFile("pii-redacted-document.pdf", new Blob([bytes], { type: "application/pdf" }));
+      setStatus(`Exported ${pages.length} flattened page${pages.length === 1 ? "" : "s"} with ${redactionLog.length} burned-in redaction${redactionLog.length === 1 ? "" : "s"} and no document metadata.`);
+      trackEvent("tool_pii_redaction_export_pdf", { pages: pages.length, redactions: redactionLog.length });
+    } catch {
+      setStatus("Could not build the redacted PDF.");
     }
-    output?.save("pii-redacted-document.pdf");
-  }, [visualPages, visualPreviews]);
+  }, [redactionLog.length, visualPages, visualPreviews]);
 
   const findingsCsvRows = useMemo(
     () =>
@@ -44453,6 +49363,7 @@ function PiiRedactionStudioTool() {
           <select value={sourceMode} onChange={(event) => setSourceMode(event.target.value as PiiStudioSourceMode)}>
             <option value="text">Pasted text</option>
             <option value="file">Uploaded file</option>
+            <option value="dataset">CSV / JSON dataset</option>
           </select>
         </label>
         <label className="field">
@@ -44461,6 +49372,7 @@ function PiiRedactionStudioTool() {
             <option value="block">Block token</option>
             <option value="label">Field label</option>
             <option value="partial">Partial mask</option>
+            <option value="pseudonym">Consistent pseudonym (reversible)</option>
           </select>
         </label>
         <label className="field">
@@ -44476,7 +49388,22 @@ function PiiRedactionStudioTool() {
         </label>
       </div>
 
-      {sourceMode === "text" ? (
+      {sourceMode === "dataset" ? (
+        <label className="field">
+          <span>Upload a CSV or JSON export</span>
+          <input
+            type="file"
+            accept={PII_DATASET_UPLOAD_ACCEPT}
+            onChange={(event) => {
+              void loadDatasetFile(event.target.files?.[0] ?? null);
+              event.target.value = "";
+            }}
+          />
+          <small className="supporting-text">
+            Every column (or JSON path) is scanned with its name as context, so a &quot;dob&quot; column is recognised as dates of birth.
+          </small>
+        </label>
+      ) : sourceMode === "text" ? (
         <label className="field">
           <span>Paste text, logs, messages, or document content</span>
           <textarea
@@ -44498,6 +49425,69 @@ function PiiRedactionStudioTool() {
         </label>
       )}
 
+      <div className="mini-panel">
+        <div className="panel-head">
+          <h3>Redaction profile</h3>
+          <span className="supporting-text">Choose which detectors run. Names and addresses are heuristic; national IDs are checksum or format validated.</span>
+        </div>
+        <div className="field-grid">
+          <label className="field">
+            <span>Profile</span>
+            <select value={profileId} onChange={(event) => applyProfile(event.target.value)}>
+              {PII_REDACTION_PROFILES.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.label}
+                </option>
+              ))}
+              {customProfiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.label} (saved)
+                </option>
+              ))}
+              {profileId === "custom" ? <option value="custom">Custom selection</option> : null}
+            </select>
+          </label>
+          <label className="field">
+            <span>Save current selection as</span>
+            <input value={profileName} onChange={(event) => setProfileName(event.target.value)} placeholder="Kenya HR files" />
+          </label>
+        </div>
+        <div className="chip-list">
+          {PII_DETECTOR_TYPES.map((type) => (
+            <label key={type} className="checkbox">
+              <input
+                type="checkbox"
+                checked={enabledDetectors.includes(type)}
+                onChange={(event) => {
+                  setProfileId("custom");
+                  setEnabledDetectors((current) =>
+                    event.target.checked ? [...current, type] : current.filter((entry) => entry !== type),
+                  );
+                }}
+              />
+              {PII_DETECTOR_LABELS[type]}
+            </label>
+          ))}
+        </div>
+        <div className="button-row">
+          <button className="action-button secondary" type="button" onClick={saveCurrentProfile} disabled={!profileName.trim()}>
+            Save profile
+          </button>
+          {customProfiles.some((profile) => profile.id === profileId) ? (
+            <button
+              className="action-button secondary"
+              type="button"
+              onClick={() => {
+                persistCustomProfiles(customProfiles.filter((profile) => profile.id !== profileId));
+                applyProfile(PII_REDACTION_PROFILES[0].id);
+              }}
+            >
+              Delete saved profile
+            </button>
+          ) : null}
+        </div>
+      </div>
+
       <label className="field">
         <span>Custom phrases to always redact</span>
         <textarea
@@ -44523,7 +49513,7 @@ function PiiRedactionStudioTool() {
           onClick={() => {
             setSourceMode("text");
             setInputText(
-              "Customer: Jane Doe\nEmail: jane.doe@example.com\nPhone: +1 202 555 0184\nCard: 4242 4242 4242 4242\nPortal: https://portal.example.com/reset\nOffice IP: 192.168.1.42",
+              "Customer: Jane Doe\nEmail: jane.doe@example.com\nPhone: +1 202 555 0184\nCard: 4242 4242 4242 4242\nPortal: https://portal.example.com/reset\nOffice IP: 192.168.1.42\nDate of birth: 14/02/1988\nAddress: 221B Baker Street, London NW1 6XE\nNI number: AB 12 34 56 C\nCPF: 529.982.247-25",
             );
             setCustomTermsText("Jane Doe\nCustomer");
             setStatus("Loaded a redaction sample.");
@@ -44669,7 +49659,7 @@ function PiiRedactionStudioTool() {
             <h3>Share-safe visual preview</h3>
             <div className="button-row">
               <button className="action-button secondary" type="button" onClick={() => void exportRedactedPdf()}>
-                Export PDF
+                Export flattened PDF
               </button>
               {visualPages.length === 1 && visualPreviews[visualPages[0].id] ? (
                 <button
@@ -44692,6 +49682,271 @@ function PiiRedactionStudioTool() {
               )}
             </div>
           ))}
+          <p className="supporting-text">
+            Exports are rebuilt from the redacted page images, so covered text is removed rather than hidden under a box. Text layers,
+            fonts, and metadata from the source file are not carried over.
+          </p>
+        </div>
+      ) : null}
+
+      {visualPages.length ? (
+        <div className="mini-panel">
+          <div className="panel-head">
+            <h3>Redaction log</h3>
+            <div className="button-row">
+              <button
+                className="action-button secondary"
+                type="button"
+                disabled={!redactionLog.length}
+                onClick={() =>
+                  downloadCsv(
+                    "pii-redaction-log.csv",
+                    ["Page", "Type", "Label", "Masked value", "X", "Y", "Width", "Height"],
+                    redactionLog.map((entry) => [
+                      entry.page,
+                      entry.type,
+                      entry.label,
+                      entry.maskedValue,
+                      String(entry.bbox.x),
+                      String(entry.bbox.y),
+                      String(entry.bbox.width),
+                      String(entry.bbox.height),
+                    ]),
+                  )
+                }
+              >
+                <Download size={15} />
+                Log CSV
+              </button>
+              <button
+                className="action-button secondary"
+                type="button"
+                disabled={!redactionLog.length}
+                onClick={() =>
+                  downloadTextFile(
+                    "pii-redaction-log.json",
+                    JSON.stringify({ source: uploadedLabel, redactedAt: new Date().toISOString(), entries: redactionLog }, null, 2),
+                    "application/json;charset=utf-8;",
+                  )
+                }
+              >
+                <Download size={15} />
+                Log JSON
+              </button>
+            </div>
+          </div>
+          {redactionLog.length ? (
+            <ul className="plain-list">
+              {redactionLog.slice(0, 60).map((entry, index) => (
+                <li key={`${entry.page}-${index}`} className="history-line">
+                  <strong>{entry.page}</strong>
+                  <span>
+                    {entry.label}: {entry.maskedValue}
+                  </span>
+                  <span className="supporting-text">
+                    at {entry.bbox.x},{entry.bbox.y} ({entry.bbox.width}x{entry.bbox.height} pt)
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="supporting-text">No detections are selected for redaction.</p>
+          )}
+          <small className="supporting-text">
+            {visualPages.map((page) => `${page.label}: ${page.source === "pdf-text" ? "text layer positions" : "OCR word boxes"}`).join(" | ")}
+          </small>
+        </div>
+      ) : null}
+
+      {sourceMode === "dataset" && datasetScan && datasetSource ? (
+        <div className="mini-panel">
+          <div className="panel-head">
+            <h3>PII density by {datasetScan.kind === "csv" ? "column" : "path"}</h3>
+            <span className="supporting-text">
+              {datasetSource.name} | {formatNumericValue(datasetScan.records)} record{datasetScan.records === 1 ? "" : "s"}
+              {datasetScan.scannedRecords < datasetScan.records ? ` (first ${formatNumericValue(datasetScan.scannedRecords)} sampled)` : ""}
+            </span>
+          </div>
+          <ul className="plain-list">
+            {datasetScan.columns.map((column) => (
+              <li key={column.path}>
+                <div className="history-line">
+                  <strong>{column.path}</strong>
+                  <span className={`status-badge ${column.severity === "high" ? "bad" : column.severity === "medium" ? "warn" : "ok"}`}>
+                    {Math.round(column.density * 100)}% PII
+                  </span>
+                  <select
+                    value={columnPolicies[column.path] ?? "keep"}
+                    onChange={(event) =>
+                      setColumnPolicies((current) => ({ ...current, [column.path]: event.target.value as PiiColumnPolicy }))
+                    }
+                    aria-label={`Policy for ${column.path}`}
+                  >
+                    {(Object.keys(PII_COLUMN_POLICY_LABELS) as PiiColumnPolicy[]).map((policy) => (
+                      <option key={policy} value={policy}>
+                        {PII_COLUMN_POLICY_LABELS[policy]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <small className="supporting-text">
+                  {formatNumericValue(column.piiCells)} of {formatNumericValue(column.filledCells)} filled cells
+                  {column.counts.length ? ` | ${column.counts.map((entry) => `${entry.label}: ${entry.count}`).join(", ")}` : ""}
+                </small>
+              </li>
+            ))}
+          </ul>
+          <div className="field-grid">
+            <label className="field">
+              <span>Hash salt</span>
+              <input value={datasetSalt} onChange={(event) => setDatasetSalt(event.target.value)} placeholder="Required for salted hash columns" />
+            </label>
+          </div>
+          <div className="button-row">
+            <button
+              className="action-button secondary"
+              type="button"
+              onClick={() => {
+                const bytes = crypto.getRandomValues(new Uint8Array(16));
+                setDatasetSalt([...bytes].map((byte) => byte.toString(16).padStart(2, "0")).join(""));
+              }}
+            >
+              Generate salt
+            </button>
+            <button className="action-button secondary" type="button" onClick={() => scanDataset(datasetSource)} disabled={datasetBusy}>
+              <RefreshCw size={15} />
+              Rescan
+            </button>
+            <button className="action-button" type="button" onClick={() => void sanitizeDataset()} disabled={datasetBusy}>
+              <Download size={15} />
+              {datasetBusy ? "Sanitizing..." : `Sanitize and download ${datasetScan.kind.toUpperCase()}`}
+            </button>
+            <button
+              className="action-button secondary"
+              type="button"
+              disabled={!datasetSummary}
+              onClick={() =>
+                datasetSummary &&
+                downloadTextFile(
+                  "pii-dataset-summary.json",
+                  JSON.stringify({ source: datasetSource.name, ...datasetSummary }, null, 2),
+                  "application/json;charset=utf-8;",
+                )
+              }
+            >
+              <Download size={15} />
+              Summary JSON
+            </button>
+          </div>
+          {datasetSummary ? (
+            <ResultList
+              rows={[
+                ...datasetSummary.detected.map((entry) => ({ label: entry.label, value: formatNumericValue(entry.count) })),
+                {
+                  label: "Values changed",
+                  value: formatNumericValue(datasetSummary.columns.reduce((sum, column) => sum + column.changedCells, 0)),
+                },
+                { label: "Dropped", value: datasetSummary.droppedPaths.join(", ") || "None" },
+              ]}
+            />
+          ) : null}
+          <small className="supporting-text">
+            Salted hashes keep joins working without revealing values; keep the salt private. Vault pseudonyms reuse the tokens from the
+            pseudonym vault below, so the same person maps to the same token in text and dataset exports.
+          </small>
+        </div>
+      ) : null}
+
+      {replacementMode === "pseudonym" || vaultEntryCount || Object.values(columnPolicies).includes("pseudonym") ? (
+        <div className="mini-panel">
+          <div className="panel-head">
+            <h3>Pseudonym vault</h3>
+            <span className="supporting-text">
+              {formatNumericValue(vaultEntryCount)} value{vaultEntryCount === 1 ? "" : "s"} mapped. The same value keeps the same token
+              across every scan in this session.
+            </span>
+          </div>
+          <div className="field-grid">
+            <label className="field">
+              <span>Vault password</span>
+              <input
+                type="password"
+                value={vaultPassword}
+                onChange={(event) => setVaultPassword(event.target.value)}
+                autoComplete="new-password"
+                placeholder="At least 8 characters"
+              />
+            </label>
+            <label className="field">
+              <span>Open encrypted vault</span>
+              <input
+                type="file"
+                accept=".json,application/json"
+                disabled={vaultBusy || !vaultPassword}
+                onChange={(event) => {
+                  void openVaultFile(event.target.files?.[0] ?? null);
+                  event.target.value = "";
+                }}
+              />
+            </label>
+          </div>
+          <div className="button-row">
+            <button
+              className="action-button secondary"
+              type="button"
+              disabled={vaultBusy || !vaultEntryCount || !vaultPassword}
+              onClick={() => void downloadVault()}
+            >
+              <Download size={15} />
+              {vaultBusy ? "Working..." : "Download encrypted vault"}
+            </button>
+            <button
+              className="action-button secondary"
+              type="button"
+              disabled={!vaultEntryCount}
+              onClick={() => {
+                setVault(createPseudonymVault());
+                setReidentifyOutput("");
+                setStatus("Cleared the pseudonym vault. New scans will start numbering from 1.");
+              }}
+            >
+              Clear vault
+            </button>
+          </div>
+          <label className="field">
+            <span>Re-identify pseudonymized text</span>
+            <textarea
+              value={reidentifyInput}
+              onChange={(event) => setReidentifyInput(event.target.value)}
+              rows={5}
+              placeholder="Paste text containing tokens such as PERSON_004 or email_7f3a@example.invalid"
+            />
+          </label>
+          <div className="button-row">
+            <button
+              className="action-button secondary"
+              type="button"
+              disabled={!reidentifyInput.trim() || !vaultEntryCount}
+              onClick={() => {
+                const result = reidentifyPseudonymizedText(reidentifyInput, vault);
+                setReidentifyOutput(result.text);
+                setStatus(`Restored ${result.replaced} pseudonym${result.replaced === 1 ? "" : "s"} from the vault.`);
+                trackEvent("tool_pii_redaction_reidentify", { replaced: result.replaced });
+              }}
+            >
+              Re-identify
+            </button>
+          </div>
+          {reidentifyOutput ? (
+            <label className="field">
+              <span>Re-identified text</span>
+              <textarea value={reidentifyOutput} readOnly rows={5} />
+            </label>
+          ) : null}
+          <small className="supporting-text">
+            The vault holds the original values, so it is never saved in this browser. It is encrypted with AES-GCM using a key derived from
+            your password; without the password the mapping cannot be recovered.
+          </small>
         </div>
       ) : null}
 
@@ -1,4 +1,7 @@
-import { detectCsvDelimiter, parseDelimitedText } from "@/lib/csv-cleanup";
+import { compileRulePattern, detectCsvDelimiter, parseDelimitedText } from "@/lib/csv-cleanup";
+
+export type StatementSourceFormat = "csv" | "text" | "ofx" | "camt053" | "mt940";
+export type StatementSourceHint = StatementSourceFormat | "auto";
 
 export interface StatementTransaction {
   id: string;
@@ -12,8 +15,26 @@ export interface StatementTransaction {
   balance: number | null;
   currency: string;
   category: string;
-  source: "csv" | "text";
+  baseCategory: string;
+  tags: string[];
+  matchedRuleId: string | null;
+  matchedRuleName: string;
+  source: StatementSourceFormat;
   sourceLine: string;
+  reference?: string;
+  accountId?: string;
+}
+
+export interface StatementBalance {
+  accountId: string;
+  currency: string;
+  openingBalance: number | null;
+  openingDate: string;
+  closingBalance: number | null;
+  closingDate: string;
+  computedClosingBalance: number | null;
+  reconciled: boolean | null;
+  transactionCount: number;
 }
 
 export interface MerchantCluster {
@@ -30,6 +51,8 @@ export interface RecurringChargeInsight {
   averageAmount: number;
   averageIntervalDays: number;
   category: string;
+  lastDate: string;
+  lastAmount: number;
 }
 
 export interface DuplicateChargeInsight {
@@ -46,8 +69,99 @@ export interface SpikeInsight {
   category: string;
 }
 
+export interface StatementCategoryRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  merchantContains: string;
+  merchantPattern: string;
+  minAmount: number | null;
+  maxAmount: number | null;
+  direction: "any" | "debit" | "credit";
+  accountId: string;
+  dateFrom: string;
+  dateTo: string;
+  category: string;
+  tags: string[];
+}
+
+export interface StatementCategoryBudget {
+  category: string;
+  monthlyLimit: number;
+  currency?: string;
+}
+
+export interface StatementAnalysisOptions {
+  rules?: StatementCategoryRule[];
+  budgets?: StatementCategoryBudget[];
+}
+
+export interface BudgetInsight {
+  category: string;
+  currency: string;
+  month: string;
+  limit: number;
+  spent: number;
+  remaining: number;
+  percentUsed: number;
+  status: "ok" | "warning" | "over";
+}
+
+export interface StatementRuleMatch {
+  ruleId: string;
+  ruleName: string;
+  category: string;
+  count: number;
+  total: number;
+}
+
+export interface StatementFileInput {
+  label: string;
+  raw: string;
+  sourceHint?: StatementSourceHint;
+}
+
+export interface StatementSourceSummary {
+  label: string;
+  format: StatementSourceFormat;
+  transactionCount: number;
+  duplicatesRemoved: number;
+  accounts: string[];
+  dateFrom: string;
+  dateTo: string;
+}
+
+export interface CategoryTrend {
+  category: string;
+  months: Array<{ month: string; spent: number }>;
+  total: number;
+  averageMonthly: number;
+  latestChangePercent: number | null;
+}
+
+export interface SubscriptionPriceChange {
+  merchant: string;
+  category: string;
+  previousAmount: number;
+  currentAmount: number;
+  changePercent: number;
+  changedOn: string;
+}
+
+export interface CashflowForecastMonth {
+  month: string;
+  expectedIncome: number;
+  recurringCharges: number;
+  variableSpending: number;
+  projectedNet: number;
+  projectedBalance: number | null;
+  charges: Array<{ merchant: string; amount: number; expectedDate: string }>;
+}
+
 export interface BankStatementAnalysis {
+  format: StatementSourceFormat;
   transactions: StatementTransaction[];
+  balances: StatementBalance[];
   incomeTotal: number;
   expenseTotal: number;
   netCashflow: number;
@@ -58,6 +172,42 @@ export interface BankStatementAnalysis {
   merchantClusters: MerchantCluster[];
   subscriptions: MerchantCluster[];
   currencies: string[];
+  budgetInsights: BudgetInsight[];
+  ruleMatches: StatementRuleMatch[];
+}
+
+export interface StatementCurrencySummary {
+  currency: string;
+  accounts: string[];
+  transactionCount: number;
+  incomeTotal: number;
+  expenseTotal: number;
+  netCashflow: number;
+  months: string[];
+  categoryTrends: CategoryTrend[];
+  priceChanges: SubscriptionPriceChange[];
+  forecast: CashflowForecastMonth[];
+}
+
+export interface MultiStatementAnalysis extends BankStatementAnalysis {
+  sources: StatementSourceSummary[];
+  duplicatesRemoved: number;
+  months: string[];
+  categoryTrends: CategoryTrend[];
+  priceChanges: SubscriptionPriceChange[];
+  forecast: CashflowForecastMonth[];
+  currencySummaries: StatementCurrencySummary[];
+}
+
+type StatementEntryDraft = Omit<
+  StatementTransaction,
+  "merchant" | "normalizedMerchant" | "category" | "baseCategory" | "tags" | "matchedRuleId" | "matchedRuleName"
+>;
+
+interface ParsedStatementDocument {
+  format: StatementSourceFormat;
+  transactions: StatementTransaction[];
+  balances: StatementBalance[];
 }
 
 const DEFAULT_CURRENCY = "USD";
@@ -170,16 +320,19 @@ function daysBetween(left: string, right: string): number {
   return Math.round(Math.abs(a.getTime() - b.getTime()) / 86_400_000);
 }
 
-function makeTransaction(
-  entry: Omit<StatementTransaction, "merchant" | "normalizedMerchant" | "category">,
-): StatementTransaction {
+function makeTransaction(entry: StatementEntryDraft): StatementTransaction {
   const merchant = entry.description.trim() || "Unknown";
   const normalizedMerchant = normalizeMerchantName(merchant) || merchant.toUpperCase();
+  const category = categorizeTransaction(merchant, entry.amount);
   return {
     ...entry,
     merchant,
     normalizedMerchant,
-    category: categorizeTransaction(merchant, entry.amount),
+    category,
+    baseCategory: category,
+    tags: [],
+    matchedRuleId: null,
+    matchedRuleName: "",
   };
 }
 
@@ -197,6 +350,8 @@ function parseStatementCsv(raw: string): StatementTransaction[] {
   const balanceIndex = findIndex(/\b(balance|running balance|available balance)\b/);
   const currencyIndex = findIndex(/\b(currency|ccy)\b/);
   const typeIndex = findIndex(/\b(type|direction|dr cr|drcr)\b/);
+  const accountIndex = findIndex(/\b(account|account number|iban)\b/);
+  const referenceIndex = findIndex(/\b(reference|ref|transaction id)\b/);
 
   return dataset.rows
     .map((row, index) => {
@@ -234,6 +389,8 @@ function parseStatementCsv(raw: string): StatementTransaction[] {
         currency,
         source: "csv",
         sourceLine: row.join(" | "),
+        reference: referenceIndex >= 0 ? row[referenceIndex]?.trim() ?? "" : "",
+        accountId: accountIndex >= 0 ? row[accountIndex]?.trim() ?? "" : "",
       });
     })
     .filter((item): item is StatementTransaction => Boolean(item));
@@ -285,6 +442,382 @@ function parseStatementText(raw: string): StatementTransaction[] {
   return transactions;
 }
 
+function decodeMarkupEntities(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number.parseInt(code, 10)))
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function compactSourceLine(value: string): string {
+  return value.replace(/<[^>]+>/g, " ").replace(/\s+/g, " ").trim().slice(0, 240);
+}
+
+function parseCompactDate(value: string): string {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value.trim());
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : parseDateValue(value);
+}
+
+function fillRunningBalances(entries: StatementEntryDraft[], balance: StatementBalance): void {
+  if (!entries.length) return;
+  const total = entries.reduce((sum, entry) => sum + entry.amount, 0);
+  let running = balance.openingBalance ?? (balance.closingBalance !== null ? balance.closingBalance - total : null);
+  if (running === null) return;
+  [...entries]
+    .sort((left, right) => left.date.localeCompare(right.date))
+    .forEach((entry) => {
+      running = roundMoney((running as number) + entry.amount);
+      if (entry.balance === null) entry.balance = running;
+    });
+}
+
+function finalizeStatementBalance(balance: StatementBalance, entries: StatementEntryDraft[]): StatementBalance {
+  const total = entries.reduce((sum, entry) => sum + entry.amount, 0);
+  const openingBalance =
+    balance.openingBalance ?? (balance.closingBalance !== null ? roundMoney(balance.closingBalance - total) : null);
+  const computedClosingBalance = openingBalance === null ? null : roundMoney(openingBalance + total);
+  return {
+    ...balance,
+    openingBalance,
+    computedClosingBalance,
+    reconciled:
+      balance.openingBalance !== null && balance.closingBalance !== null && computedClosingBalance !== null
+        ? Math.abs(balance.closingBalance - computedClosingBalance) < 0.005
+        : null,
+    transactionCount: entries.length,
+  };
+}
+
+function readOfxValue(block: string, tag: string): string {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, "i").exec(block);
+  return match ? decodeMarkupEntities(match[1]) : "";
+}
+
+function readOfxBlocks(block: string, tag: string): string[] {
+  return Array.from(block.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, "gi")), (match) => match[1]);
+}
+
+function parseStatementOfx(raw: string): ParsedStatementDocument {
+  const body = raw.slice(Math.max(0, raw.search(/<OFX>/i)));
+  const statementBlocks = Array.from(body.matchAll(/<(STMTRS|CCSTMTRS)>([\s\S]*?)<\/\1>/gi), (match) => match[2]);
+  const blocks = statementBlocks.length ? statementBlocks : [body];
+  const transactions: StatementTransaction[] = [];
+  const balances: StatementBalance[] = [];
+
+  blocks.forEach((block, statementIndex) => {
+    const currency = (readOfxValue(block, "CURDEF") || DEFAULT_CURRENCY).toUpperCase();
+    const accountId = readOfxValue(block, "ACCTID");
+    const ledger = readOfxBlocks(block, "LEDGERBAL")[0] ?? "";
+    const closingBalance = ledger ? parseMoney(readOfxValue(ledger, "BALAMT")) : null;
+    const tranList = readOfxBlocks(block, "BANKTRANLIST")[0] ?? block;
+    const entries: StatementEntryDraft[] = [];
+
+    readOfxBlocks(tranList, "STMTTRN").forEach((entry, entryIndex) => {
+      const amount = parseMoney(readOfxValue(entry, "TRNAMT"));
+      const date = parseCompactDate(readOfxValue(entry, "DTPOSTED") || readOfxValue(entry, "DTUSER"));
+      if (amount === null || amount === 0 || !date) return;
+      const name = readOfxValue(entry, "NAME") || readOfxValue(readOfxBlocks(entry, "PAYEE")[0] ?? "", "NAME");
+      const memo = readOfxValue(entry, "MEMO");
+      const description = [name, memo && memo !== name ? memo : ""].filter(Boolean).join(" - ") || readOfxValue(entry, "TRNTYPE");
+      const entryCurrency = readOfxValue(readOfxBlocks(entry, "CURRENCY")[0] ?? "", "CURSYM").toUpperCase();
+      entries.push({
+        id: `ofx-${statementIndex + 1}-${entryIndex + 1}`,
+        date,
+        description,
+        amount,
+        debit: amount < 0 ? Math.abs(amount) : 0,
+        credit: amount > 0 ? amount : 0,
+        balance: null,
+        currency: entryCurrency || currency,
+        source: "ofx",
+        sourceLine: compactSourceLine(entry),
+        reference: readOfxValue(entry, "FITID") || readOfxValue(entry, "CHECKNUM"),
+        accountId,
+      });
+    });
+
+    const balance: StatementBalance = {
+      accountId,
+      currency,
+      openingBalance: null,
+      openingDate: parseCompactDate(readOfxValue(tranList, "DTSTART")),
+      closingBalance,
+      closingDate: parseCompactDate(readOfxValue(ledger, "DTASOF") || readOfxValue(tranList, "DTEND")),
+      computedClosingBalance: null,
+      reconciled: null,
+      transactionCount: 0,
+    };
+    fillRunningBalances(entries, balance);
+    balances.push(finalizeStatementBalance(balance, entries));
+    transactions.push(...entries.map(makeTransaction));
+  });
+
+  return { format: "ofx", transactions, balances };
+}
+
+function stripXmlNamespaces(xml: string): string {
+  return xml.replace(/<(\/?)[\w.-]+:([\w.-]+)/g, "<$1$2");
+}
+
+function readXmlBlocks(xml: string, tag: string): string[] {
+  return Array.from(xml.matchAll(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "g")), (match) => match[1]);
+}
+
+function readXmlText(xml: string, tag: string): string {
+  const match = new RegExp(`<${tag}(?:\\s[^>]*)?>([^<]*)</${tag}>`).exec(xml);
+  return match ? decodeMarkupEntities(match[1]) : "";
+}
+
+function readXmlAttribute(xml: string, tag: string, attribute: string): string {
+  const match = new RegExp(`<${tag}\\s[^>]*\\b${attribute}="([^"]*)"`).exec(xml);
+  return match ? decodeMarkupEntities(match[1]) : "";
+}
+
+function readCamtDate(xml: string, tag: string): string {
+  const block = readXmlBlocks(xml, tag)[0];
+  if (!block) return "";
+  return parseDateValue(readXmlText(block, "Dt") || readXmlText(block, "DtTm"));
+}
+
+function readCamtSignedAmount(xml: string): number | null {
+  const amount = parseMoney(readXmlText(xml, "Amt"));
+  if (amount === null) return null;
+  const direction = readXmlText(xml, "CdtDbtInd").toUpperCase();
+  return direction === "DBIT" ? -Math.abs(amount) : Math.abs(amount);
+}
+
+function parseStatementCamt053(raw: string): ParsedStatementDocument {
+  const xml = stripXmlNamespaces(raw);
+  const transactions: StatementTransaction[] = [];
+  const balances: StatementBalance[] = [];
+
+  readXmlBlocks(xml, "Stmt").forEach((statement, statementIndex) => {
+    const account = readXmlBlocks(statement, "Acct")[0] ?? "";
+    const accountId = readXmlText(account, "IBAN") || readXmlText(account, "Id");
+    const statementCurrency = (readXmlText(account, "Ccy") || readXmlAttribute(statement, "Amt", "Ccy") || DEFAULT_CURRENCY).toUpperCase();
+    const balance: StatementBalance = {
+      accountId,
+      currency: statementCurrency,
+      openingBalance: null,
+      openingDate: "",
+      closingBalance: null,
+      closingDate: "",
+      computedClosingBalance: null,
+      reconciled: null,
+      transactionCount: 0,
+    };
+
+    readXmlBlocks(statement, "Bal").forEach((entry) => {
+      const code = readXmlText(entry, "Cd").toUpperCase();
+      const amount = readCamtSignedAmount(entry);
+      const date = readCamtDate(entry, "Dt") || parseDateValue(readXmlText(entry, "Dt"));
+      if ((code === "OPBD" || code === "PRCD") && balance.openingBalance === null) {
+        balance.openingBalance = amount;
+        balance.openingDate = date;
+      }
+      if (code === "CLBD") {
+        balance.closingBalance = amount;
+        balance.closingDate = date;
+      }
+    });
+
+    const entries: StatementEntryDraft[] = [];
+    readXmlBlocks(statement, "Ntry").forEach((entry, entryIndex) => {
+      const statusBlock = readXmlBlocks(entry, "Sts")[0] ?? "";
+      const status = readXmlText(statusBlock, "Cd") || statusBlock.trim();
+      if (status && status.toUpperCase() !== "BOOK") return;
+      let amount = readCamtSignedAmount(entry.replace(/<NtryDtls>[\s\S]*<\/NtryDtls>/, ""));
+      if (amount === null || amount === 0) return;
+      if (readXmlText(entry, "RvslInd").toLowerCase() === "true") amount = -amount;
+      const date = readCamtDate(entry, "BookgDt") || readCamtDate(entry, "ValDt");
+      if (!date) return;
+
+      const details = readXmlBlocks(entry, "TxDtls")[0] ?? "";
+      const parties = readXmlBlocks(details, "RltdPties")[0] ?? "";
+      const counterpartyBlock = readXmlBlocks(parties, amount < 0 ? "Cdtr" : "Dbtr")[0] ?? "";
+      const counterparty = readXmlText(counterpartyBlock, "Nm");
+      const remittance = readXmlBlocks(details, "RmtInf")
+        .flatMap((block) => readXmlBlocks(block, "Ustrd"))
+        .map(decodeMarkupEntities)
+        .join(" ");
+      const additional = readXmlText(entry, "AddtlNtryInf") || readXmlText(details, "AddtlTxInf");
+      const description = [counterparty, remittance || additional].filter(Boolean).join(" - ") || "Bank entry";
+
+      entries.push({
+        id: `camt-${statementIndex + 1}-${entryIndex + 1}`,
+        date,
+        description,
+        amount,
+        debit: amount < 0 ? Math.abs(amount) : 0,
+        credit: amount > 0 ? amount : 0,
+        balance: null,
+        currency: (readXmlAttribute(entry, "Amt", "Ccy") || statementCurrency).toUpperCase(),
+        source: "camt053",
+        sourceLine: compactSourceLine(entry),
+        reference: readXmlText(entry, "AcctSvcrRef") || readXmlText(entry, "NtryRef") || readXmlText(details, "EndToEndId"),
+        accountId,
+      });
+    });
+
+    fillRunningBalances(entries, balance);
+    balances.push(finalizeStatementBalance(balance, entries));
+    transactions.push(...entries.map(makeTransaction));
+  });
+
+  return { format: "camt053", transactions, balances };
+}
+
+function parseMt940Amount(value: string): number | null {
+  return parseMoney(value.replace(",", "."));
+}
+
+function parseMt940Date(value: string): string {
+  const match = /^(\d{2})(\d{2})(\d{2})$/.exec(value);
+  if (!match) return "";
+  const year = Number.parseInt(match[1], 10);
+  return `${year >= 70 ? 1900 + year : 2000 + year}-${match[2]}-${match[3]}`;
+}
+
+function parseMt940Balance(value: string): { amount: number | null; date: string; currency: string } {
+  const match = /^([CD])(\d{6})([A-Z]{3})([\d,]+)/.exec(value.replace(/\s+/g, ""));
+  if (!match) return { amount: null, date: "", currency: "" };
+  const amount = parseMt940Amount(match[4]);
+  return {
+    amount: amount === null ? null : match[1] === "D" ? -amount : amount,
+    date: parseMt940Date(match[2]),
+    currency: match[3],
+  };
+}
+
+function describeMt940Information(value: string): string {
+  const text = value.replace(/\n/g, "");
+  if (!/^\d{3}\?/.test(text) && !/^\?\d{2}/.test(text)) return value.replace(/\s+/g, " ").trim();
+  const fields = new Map<string, string>();
+  Array.from(text.matchAll(/\?(\d{2})([^?]*)/g)).forEach((match) => {
+    fields.set(match[1], `${fields.get(match[1]) ?? ""}${match[2]}`);
+  });
+  const name = ["32", "33"].map((key) => fields.get(key) ?? "").join("").trim();
+  const purpose = ["20", "21", "22", "23", "24", "25", "26", "27", "28", "29", "60", "61", "62", "63"]
+    .map((key) => fields.get(key) ?? "")
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim();
+  const postingText = (fields.get("00") ?? "").trim();
+  return [name, purpose || postingText].filter(Boolean).join(" - ");
+}
+
+function parseStatementMt940(raw: string): ParsedStatementDocument {
+  const transactions: StatementTransaction[] = [];
+  const balances: StatementBalance[] = [];
+  const messages = raw
+    .split(/\n-\}?\s*(?:\n|$)|(?=\n:20:)/)
+    .map((message) => message.trim())
+    .filter((message) => /:61:/.test(message) || /:6[02][FM]:/.test(message));
+
+  messages.forEach((message, messageIndex) => {
+    const fields: Array<{ tag: string; value: string }> = [];
+    message.split("\n").forEach((line) => {
+      const match = /^:(\d{2}[A-Z]?):(.*)$/.exec(line);
+      if (match) {
+        fields.push({ tag: match[1], value: match[2] });
+      } else if (fields.length) {
+        fields[fields.length - 1].value += `\n${line}`;
+      }
+    });
+
+    const accountId = fields.find((field) => field.tag === "25")?.value.trim() ?? "";
+    const opening = parseMt940Balance(fields.find((field) => field.tag === "60F" || field.tag === "60M")?.value ?? "");
+    const closingField = [...fields].reverse().find((field) => field.tag === "62F" || field.tag === "62M");
+    const closing = parseMt940Balance(closingField?.value ?? "");
+    const currency = opening.currency || closing.currency || DEFAULT_CURRENCY;
+    const entries: StatementEntryDraft[] = [];
+
+    fields.forEach((field, fieldIndex) => {
+      if (field.tag !== "61") return;
+      const [statementLine, ...supplementary] = field.value.split("\n");
+      const match = /^(\d{6})(\d{4})?(R?[CD])([A-Z])?([\d,]+)([A-Z][A-Z0-9]{3})?([^/]*)(?:\/\/(.*))?$/.exec(statementLine.trim());
+      if (!match) return;
+      const value = parseMt940Amount(match[5]);
+      if (value === null || value === 0) return;
+      const mark = match[3];
+      const amount = mark === "D" || mark === "RC" ? -value : value;
+      const next = fields[fieldIndex + 1];
+      const information = next?.tag === "86" ? describeMt940Information(next.value) : "";
+      const customerReference = match[7].trim();
+      const description =
+        information ||
+        supplementary.join(" ").trim() ||
+        (customerReference && customerReference !== "NONREF" ? customerReference : match[6] ?? "Bank entry");
+
+      entries.push({
+        id: `mt940-${messageIndex + 1}-${entries.length + 1}`,
+        date: parseMt940Date(match[1]),
+        description,
+        amount,
+        debit: amount < 0 ? Math.abs(amount) : 0,
+        credit: amount > 0 ? amount : 0,
+        balance: null,
+        currency,
+        source: "mt940",
+        sourceLine: compactSourceLine(`:61:${statementLine}${information ? ` :86:${information}` : ""}`),
+        reference: (match[8] ?? "").trim() || (customerReference !== "NONREF" ? customerReference : ""),
+        accountId,
+      });
+    });
+
+    const balance: StatementBalance = {
+      accountId,
+      currency,
+      openingBalance: opening.amount,
+      openingDate: opening.date,
+      closingBalance: closing.amount,
+      closingDate: closing.date,
+      computedClosingBalance: null,
+      reconciled: null,
+      transactionCount: 0,
+    };
+    fillRunningBalances(entries, balance);
+    balances.push(finalizeStatementBalance(balance, entries));
+    transactions.push(...entries.map(makeTransaction));
+  });
+
+  return { format: "mt940", transactions, balances };
+}
+
+function detectStructuredStatementFormat(raw: string): "ofx" | "camt053" | "mt940" | null {
+  const head = raw.slice(0, 4000);
+  if (/OFXHEADER\s*:|<OFX>|<\?OFX\b/i.test(head)) return "ofx";
+  if (/camt\.053|<(?:\w+:)?BkToCstmrStmt\b/.test(head)) return "camt053";
+  if (/^:20:/m.test(raw) && /^:(?:60[FM]|61):/m.test(raw)) return "mt940";
+  return null;
+}
+
+export function detectStatementFormat(raw: string): StatementSourceFormat {
+  const normalized = normalizeText(raw);
+  return detectStructuredStatementFormat(normalized) ?? (parseStatementCsv(normalized).length >= 2 ? "csv" : "text");
+}
+
+function parseStatementDocument(raw: string, sourceHint: StatementSourceHint): ParsedStatementDocument {
+  const format = sourceHint === "auto" ? detectStructuredStatementFormat(raw) : sourceHint;
+  if (format === "ofx") return parseStatementOfx(raw);
+  if (format === "camt053") return parseStatementCamt053(raw);
+  if (format === "mt940") return parseStatementMt940(raw);
+  if (format === "csv") return { format, transactions: parseStatementCsv(raw), balances: [] };
+  if (format === "text") return { format, transactions: parseStatementText(raw), balances: [] };
+  const csvTransactions = parseStatementCsv(raw);
+  if (csvTransactions.length >= 2) return { format: "csv", transactions: csvTransactions, balances: [] };
+  return { format: "text", transactions: parseStatementText(raw), balances: [] };
+}
+
 function detectRecurringCharges(transactions: StatementTransaction[]): RecurringChargeInsight[] {
   const spending = transactions.filter((transaction) => transaction.amount < 0);
   const grouped = new Map<string, StatementTransaction[]>();
@@ -311,6 +844,8 @@ function detectRecurringCharges(transactions: StatementTransaction[]): Recurring
         averageAmount: Math.round(averageAmount * 100) / 100,
         averageIntervalDays: Math.round(averageIntervalDays * 10) / 10,
         category: sorted[0].category,
+        lastDate: sorted[sorted.length - 1].date,
+        lastAmount: Math.abs(sorted[sorted.length - 1].amount),
       } satisfies RecurringChargeInsight;
     })
     .filter((item): item is RecurringChargeInsight => Boolean(item))
@@ -400,20 +935,166 @@ function buildMerchantClusters(transactions: StatementTransaction[]): MerchantCl
     .slice(0, 20);
 }
 
-export function analyzeBankStatement(raw: string, sourceHint: "csv" | "text" | "auto" = "auto"): BankStatementAnalysis {
-  const normalized = normalizeText(raw);
-  const transactions =
-    sourceHint === "csv"
-      ? parseStatementCsv(normalized)
-      : sourceHint === "text"
-        ? parseStatementText(normalized)
-        : (() => {
-            const csvTransactions = parseStatementCsv(normalized);
-            if (csvTransactions.length >= 2) return csvTransactions;
-            return parseStatementText(normalized);
-          })();
-
-  const sortedTransactions = [...transactions].sort((left, right) => left.date.localeCompare(right.date));
+const BUDGET_WARNING_RATIO = 0.85;
+const STATEMENT_RULE_DIRECTIONS: StatementCategoryRule["direction"][] = ["any", "debit", "credit"];
+
+export function createStatementCategoryRule(input: Partial<StatementCategoryRule> & { category: string }): StatementCategoryRule {
+  return {
+    id: input.id || `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name: input.name?.trim() || input.merchantContains?.trim() || input.category,
+    enabled: input.enabled ?? true,
+    merchantContains: input.merchantContains ?? "",
+    merchantPattern: input.merchantPattern ?? "",
+    minAmount: typeof input.minAmount === "number" && Number.isFinite(input.minAmount) ? input.minAmount : null,
+    maxAmount: typeof input.maxAmount === "number" && Number.isFinite(input.maxAmount) ? input.maxAmount : null,
+    direction: STATEMENT_RULE_DIRECTIONS.includes(input.direction as StatementCategoryRule["direction"])
+      ? (input.direction as StatementCategoryRule["direction"])
+      : "any",
+    accountId: input.accountId ?? "",
+    dateFrom: input.dateFrom ?? "",
+    dateTo: input.dateTo ?? "",
+    category: input.category.trim(),
+    tags: (input.tags ?? []).map((tag) => tag.trim()).filter(Boolean),
+  };
+}
+
+function buildRuleMatcher(rule: StatementCategoryRule): (transaction: StatementTransaction) => boolean {
+  const terms = rule.merchantContains
+    .split(",")
+    .map((term) => term.trim().toLowerCase())
+    .filter(Boolean);
+  const pattern = compileRulePattern(rule.merchantPattern, "i");
+  const invalidPattern = Boolean(rule.merchantPattern.trim()) && !pattern;
+  const account = rule.accountId.trim().toLowerCase();
+
+  return (transaction) => {
+    if (invalidPattern) return false;
+    const haystack = `${transaction.description} ${transaction.normalizedMerchant}`.toLowerCase();
+    if (terms.length && !terms.some((term) => haystack.includes(term))) return false;
+    if (pattern && !pattern.test(transaction.description) && !pattern.test(transaction.normalizedMerchant)) return false;
+    const size = Math.abs(transaction.amount);
+    if (rule.minAmount !== null && size < rule.minAmount) return false;
+    if (rule.maxAmount !== null && size > rule.maxAmount) return false;
+    if (rule.direction === "debit" && transaction.amount >= 0) return false;
+    if (rule.direction === "credit" && transaction.amount <= 0) return false;
+    if (account && !(transaction.accountId ?? "").toLowerCase().includes(account)) return false;
+    if (rule.dateFrom && transaction.date < rule.dateFrom) return false;
+    if (rule.dateTo && transaction.date > rule.dateTo) return false;
+    return true;
+  };
+}
+
+function applyCategoryRules(
+  transactions: StatementTransaction[],
+  rules: StatementCategoryRule[],
+): { transactions: StatementTransaction[]; ruleMatches: StatementRuleMatch[] } {
+  const activeRules = rules
+    .filter((rule) => rule.enabled && rule.category.trim())
+    .map((rule) => ({ rule, matches: buildRuleMatcher(rule) }));
+  const matchesById = new Map<string, StatementRuleMatch>();
+
+  const categorized = transactions.map((transaction) => {
+    const reset: StatementTransaction = {
+      ...transaction,
+      category: transaction.baseCategory,
+      tags: [],
+      matchedRuleId: null,
+      matchedRuleName: "",
+    };
+    const fired = activeRules.find((entry) => entry.matches(reset));
+    if (!fired) return reset;
+
+    const match = matchesById.get(fired.rule.id) ?? {
+      ruleId: fired.rule.id,
+      ruleName: fired.rule.name,
+      category: fired.rule.category,
+      count: 0,
+      total: 0,
+    };
+    match.count += 1;
+    match.total = Math.round((match.total + Math.abs(reset.amount)) * 100) / 100;
+    matchesById.set(fired.rule.id, match);
+
+    return {
+      ...reset,
+      category: fired.rule.category.trim(),
+      tags: [...fired.rule.tags],
+      matchedRuleId: fired.rule.id,
+      matchedRuleName: fired.rule.name,
+    };
+  });
+
+  return {
+    transactions: categorized,
+    ruleMatches: activeRules
+      .map((entry) => matchesById.get(entry.rule.id))
+      .filter((entry): entry is StatementRuleMatch => Boolean(entry)),
+  };
+}
+
+function buildBudgetInsights(transactions: StatementTransaction[], budgets: StatementCategoryBudget[]): BudgetInsight[] {
+  const activeBudgets = budgets.filter((budget) => budget.category.trim() && budget.monthlyLimit > 0);
+  if (!activeBudgets.length) return [];
+  const monthsByCurrency = new Map<string, Set<string>>();
+  transactions.forEach((entry) => {
+    const month = entry.date.slice(0, 7);
+    if (!month) return;
+    const currency = entry.currency || DEFAULT_CURRENCY;
+    const months = monthsByCurrency.get(currency) ?? new Set<string>();
+    months.add(month);
+    monthsByCurrency.set(currency, months);
+  });
+  const periods = Array.from(monthsByCurrency.entries())
+    .flatMap(([currency, months]) => Array.from(months).map((month) => ({ currency, month })))
+    .sort((left, right) => left.month.localeCompare(right.month) || left.currency.localeCompare(right.currency));
+  const currencyBudgetKeys = new Set(
+    activeBudgets
+      .filter((budget) => budget.currency?.trim())
+      .map((budget) => `${budget.category.trim().toLowerCase()}|${budget.currency?.trim().toUpperCase()}`),
+  );
+
+  return activeBudgets
+    .flatMap((budget) => {
+      const category = budget.category.trim().toLowerCase();
+      const budgetCurrency = budget.currency?.trim().toUpperCase();
+      return periods
+        .filter((period) =>
+          budgetCurrency ? period.currency === budgetCurrency : !currencyBudgetKeys.has(`${category}|${period.currency}`),
+        )
+        .map(({ currency, month }) => {
+          const spent = transactions
+            .filter(
+              (entry) =>
+                entry.amount < 0 &&
+                (entry.currency || DEFAULT_CURRENCY) === currency &&
+                entry.date.startsWith(month) &&
+                entry.category.toLowerCase() === category,
+            )
+            .reduce((sum, entry) => sum + Math.abs(entry.amount), 0);
+          const ratio = spent / budget.monthlyLimit;
+          return {
+            category: budget.category.trim(),
+            currency,
+            month,
+            limit: budget.monthlyLimit,
+            spent: Math.round(spent * 100) / 100,
+            remaining: Math.round((budget.monthlyLimit - spent) * 100) / 100,
+            percentUsed: Math.round(ratio * 1000) / 10,
+            status: ratio > 1 ? "over" : ratio >= BUDGET_WARNING_RATIO ? "warning" : "ok",
+          } satisfies BudgetInsight;
+        });
+    })
+    .sort((left, right) => right.percentUsed - left.percentUsed || left.month.localeCompare(right.month));
+}
+
+function buildStatementAnalysis(
+  format: StatementSourceFormat,
+  transactions: StatementTransaction[],
+  balances: StatementBalance[],
+  options: StatementAnalysisOptions,
+): BankStatementAnalysis {
+  const { transactions: categorized, ruleMatches } = applyCategoryRules(transactions, options.rules ?? []);
+  const sortedTransactions = [...categorized].sort((left, right) => left.date.localeCompare(right.date));
   const incomeTotal = sortedTransactions.filter((entry) => entry.amount > 0).reduce((sum, entry) => sum + entry.amount, 0);
   const expenseTotal = sortedTransactions.filter((entry) => entry.amount < 0).reduce((sum, entry) => sum + Math.abs(entry.amount), 0);
   const netCashflow = incomeTotal - expenseTotal;
@@ -425,10 +1106,14 @@ export function analyzeBankStatement(raw: string, sourceHint: "csv" | "text" | "
   const subscriptions = recurringCharges
     .map((entry) => merchantClusters.find((cluster) => cluster.merchant === entry.merchant))
     .filter((entry): entry is MerchantCluster => Boolean(entry));
-  const currencies = Array.from(new Set(sortedTransactions.map((entry) => entry.currency).filter(Boolean)));
+  const currencies = Array.from(
+    new Set([...sortedTransactions.map((entry) => entry.currency), ...balances.map((entry) => entry.currency)].filter(Boolean)),
+  );
 
   return {
+    format,
     transactions: sortedTransactions,
+    balances,
     incomeTotal: Math.round(incomeTotal * 100) / 100,
     expenseTotal: Math.round(expenseTotal * 100) / 100,
     netCashflow: Math.round(netCashflow * 100) / 100,
@@ -439,5 +1124,311 @@ export function analyzeBankStatement(raw: string, sourceHint: "csv" | "text" | "
     merchantClusters,
     subscriptions,
     currencies,
+    budgetInsights: buildBudgetInsights(sortedTransactions, options.budgets ?? []),
+    ruleMatches,
+  };
+}
+
+export function analyzeBankStatement(
+  raw: string,
+  sourceHint: StatementSourceHint = "auto",
+  options: StatementAnalysisOptions = {},
+): BankStatementAnalysis {
+  const normalized = normalizeText(raw);
+  const { format, transactions, balances } = parseStatementDocument(normalized, sourceHint);
+  return buildStatementAnalysis(format, transactions, balances, options);
+}
+
+export function recategorizeBankStatement(analysis: BankStatementAnalysis, options: StatementAnalysisOptions): BankStatementAnalysis {
+  return buildStatementAnalysis(analysis.format, analysis.transactions, analysis.balances, options);
+}
+
+const STATEMENT_FORECAST_MONTHS = 3;
+const PRICE_CHANGE_MIN_RATIO = 0.02;
+
+function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+function addMonths(month: string, offset: number): string {
+  const [year, monthIndex] = month.split("-").map((part) => Number.parseInt(part, 10));
+  const next = new Date(Date.UTC(year, monthIndex - 1 + offset, 1));
+  return next.toISOString().slice(0, 7);
+}
+
+function listStatementMonths(transactions: StatementTransaction[]): string[] {
+  const known = transactions.map((entry) => entry.date.slice(0, 7)).filter(Boolean).sort();
+  if (!known.length) return [];
+  const months: string[] = [];
+  for (let month = known[0]; month <= known[known.length - 1]; month = addMonths(month, 1)) {
+    months.push(month);
+  }
+  return months;
+}
+
+function buildTransactionOverlapKey(transaction: StatementTransaction): string {
+  const identity = transaction.reference?.trim() || transaction.normalizedMerchant;
+  return [transaction.accountId?.trim().toLowerCase() ?? "", transaction.date, transaction.amount.toFixed(2), identity].join("|");
+}
+
+function buildCategoryTrends(transactions: StatementTransaction[], months: string[]): CategoryTrend[] {
+  const totals = new Map<string, Map<string, number>>();
+  transactions
+    .filter((entry) => entry.amount < 0)
+    .forEach((entry) => {
+      const byMonth = totals.get(entry.category) ?? new Map<string, number>();
+      const month = entry.date.slice(0, 7);
+      byMonth.set(month, (byMonth.get(month) ?? 0) + Math.abs(entry.amount));
+      totals.set(entry.category, byMonth);
+    });
+
+  return [...totals.entries()]
+    .map(([category, byMonth]) => {
+      const series = months.map((month) => ({ month, spent: Math.round((byMonth.get(month) ?? 0) * 100) / 100 }));
+      const total = series.reduce((sum, point) => sum + point.spent, 0);
+      const latest = series[series.length - 1]?.spent ?? 0;
+      const previous = series[series.length - 2]?.spent ?? 0;
+      return {
+        category,
+        months: series,
+        total: Math.round(total * 100) / 100,
+        averageMonthly: Math.round((total / Math.max(1, series.length)) * 100) / 100,
+        latestChangePercent: series.length > 1 && previous > 0 ? Math.round(((latest - previous) / previous) * 1000) / 10 : null,
+      } satisfies CategoryTrend;
+    })
+    .sort((left, right) => right.total - left.total)
+    .slice(0, 15);
+}
+
+function detectSubscriptionPriceChanges(transactions: StatementTransaction[]): SubscriptionPriceChange[] {
+  const grouped = new Map<string, StatementTransaction[]>();
+  transactions
+    .filter((entry) => entry.amount < 0)
+    .forEach((entry) => {
+      const list = grouped.get(entry.normalizedMerchant) ?? [];
+      list.push(entry);
+      grouped.set(entry.normalizedMerchant, list);
+    });
+
+  return [...grouped.entries()]
+    .map(([merchant, entries]) => {
+      const sorted = [...entries].sort((left, right) => left.date.localeCompare(right.date));
+      if (sorted.length < 3) return null;
+      const intervals = sorted.slice(1).map((entry, index) => daysBetween(entry.date, sorted[index].date));
+      const averageIntervalDays = intervals.reduce((sum, value) => sum + value, 0) / intervals.length;
+      if (averageIntervalDays < 20 || averageIntervalDays > 40) return null;
+
+      let change: SubscriptionPriceChange | null = null;
+      for (let index = 1; index < sorted.length; index += 1) {
+        const previousAmount = Math.abs(sorted[index - 1].amount);
+        const currentAmount = Math.abs(sorted[index].amount);
+        const ratio = (currentAmount - previousAmount) / previousAmount;
+        const settled = sorted.slice(index + 1).every((entry) => Math.abs(Math.abs(entry.amount) - currentAmount) <= currentAmount * 0.01);
+        if (Math.abs(ratio) >= PRICE_CHANGE_MIN_RATIO && Math.abs(ratio) < 1 && settled) {
+          change = {
+            merchant,
+            category: sorted[index].category,
+            previousAmount,
+            currentAmount,
+            changePercent: Math.round(ratio * 1000) / 10,
+            changedOn: sorted[index].date,
+          };
+        }
+      }
+      return change;
+    })
+    .filter((item): item is SubscriptionPriceChange => Boolean(item))
+    .sort((left, right) => right.changePercent - left.changePercent);
+}
+
+function buildCashflowForecast(
+  transactions: StatementTransaction[],
+  months: string[],
+  recurringCharges: RecurringChargeInsight[],
+): CashflowForecastMonth[] {
+  if (!months.length) return [];
+  const completeMonths = months.length > 2 ? months.slice(1, -1) : months;
+  const inWindow = transactions.filter((entry) => completeMonths.includes(entry.date.slice(0, 7)));
+  const recurringMerchants = new Set(recurringCharges.map((entry) => entry.merchant));
+  const income = inWindow.filter((entry) => entry.amount > 0).reduce((sum, entry) => sum + entry.amount, 0);
+  const variable = inWindow
+    .filter((entry) => entry.amount < 0 && !recurringMerchants.has(entry.normalizedMerchant))
+    .reduce((sum, entry) => sum + Math.abs(entry.amount), 0);
+  const expectedIncome = Math.round((income / completeMonths.length) * 100) / 100;
+  const variableSpending = Math.round((variable / completeMonths.length) * 100) / 100;
+  const latestBalances = new Map<string, number>();
+  [...transactions]
+    .sort((left, right) => left.date.localeCompare(right.date))
+    .forEach((entry) => {
+      if (entry.balance !== null) latestBalances.set(entry.accountId?.trim().toLowerCase() ?? "", entry.balance);
+    });
+  let balance = latestBalances.size ? [...latestBalances.values()].reduce((sum, value) => sum + value, 0) : null;
+
+  return Array.from({ length: STATEMENT_FORECAST_MONTHS }, (_, index) => {
+    const month = addMonths(months[months.length - 1], index + 1);
+    const charges = recurringCharges.flatMap((charge) => {
+      const interval = Math.max(1, Math.round(charge.averageIntervalDays));
+      const dates: string[] = [];
+      for (let next = addDays(charge.lastDate, interval); next.slice(0, 7) <= month; next = addDays(next, interval)) {
+        if (next.slice(0, 7) === month) dates.push(next);
+      }
+      return dates.map((expectedDate) => ({ merchant: charge.merchant, amount: charge.lastAmount, expectedDate }));
+    });
+    const recurringTotal = Math.round(charges.reduce((sum, charge) => sum + charge.amount, 0) * 100) / 100;
+    const projectedNet = Math.round((expectedIncome - recurringTotal - variableSpending) * 100) / 100;
+    balance = balance === null ? null : Math.round((balance + projectedNet) * 100) / 100;
+    return {
+      month,
+      expectedIncome,
+      recurringCharges: recurringTotal,
+      variableSpending,
+      projectedNet,
+      projectedBalance: balance,
+      charges: charges.sort((left, right) => left.expectedDate.localeCompare(right.expectedDate)),
+    } satisfies CashflowForecastMonth;
+  });
+}
+
+function buildCurrencySummaries(transactions: StatementTransaction[]): StatementCurrencySummary[] {
+  const grouped = new Map<string, StatementTransaction[]>();
+  transactions.forEach((entry) => {
+    const currency = entry.currency || DEFAULT_CURRENCY;
+    const list = grouped.get(currency) ?? [];
+    list.push(entry);
+    grouped.set(currency, list);
+  });
+
+  return [...grouped.entries()]
+    .map(([currency, scoped]) => {
+      const months = listStatementMonths(scoped);
+      const incomeTotal = scoped.filter((entry) => entry.amount > 0).reduce((sum, entry) => sum + entry.amount, 0);
+      const expenseTotal = scoped.filter((entry) => entry.amount < 0).reduce((sum, entry) => sum + Math.abs(entry.amount), 0);
+      return {
+        currency,
+        accounts: Array.from(new Set(scoped.map((entry) => entry.accountId ?? "").filter(Boolean))),
+        transactionCount: scoped.length,
+        incomeTotal: Math.round(incomeTotal * 100) / 100,
+        expenseTotal: Math.round(expenseTotal * 100) / 100,
+        netCashflow: Math.round((incomeTotal - expenseTotal) * 100) / 100,
+        months,
+        categoryTrends: buildCategoryTrends(scoped, months),
+        priceChanges: detectSubscriptionPriceChanges(scoped),
+        forecast: buildCashflowForecast(scoped, months, detectRecurringCharges(scoped)),
+      } satisfies StatementCurrencySummary;
+    })
+    .sort((left, right) => right.transactionCount - left.transactionCount);
+}
+
+export function analyzeBankStatements(files: StatementFileInput[], options: StatementAnalysisOptions = {}): MultiStatementAnalysis {
+  const keptCounts = new Map<string, number>();
+  const sources: StatementSourceSummary[] = [];
+  const transactions: StatementTransaction[] = [];
+  const balances: StatementBalance[] = [];
+
+  files.forEach((file, fileIndex) => {
+    const document = parseStatementDocument(normalizeText(file.raw), file.sourceHint ?? "auto");
+    const localCounts = new Map<string, number>();
+    let duplicatesRemoved = 0;
+    const kept = document.transactions.filter((transaction) => {
+      const key = buildTransactionOverlapKey(transaction);
+      const seenInFile = (localCounts.get(key) ?? 0) + 1;
+      localCounts.set(key, seenInFile);
+      if (seenInFile <= (keptCounts.get(key) ?? 0)) {
+        duplicatesRemoved += 1;
+        return false;
+      }
+      return true;
+    });
+    localCounts.forEach((count, key) => keptCounts.set(key, Math.max(count, keptCounts.get(key) ?? 0)));
+
+    const dates = kept.map((entry) => entry.date).sort();
+    sources.push({
+      label: file.label,
+      format: document.format,
+      transactionCount: kept.length,
+      duplicatesRemoved,
+      accounts: Array.from(
+        new Set([...kept.map((entry) => entry.accountId ?? ""), ...document.balances.map((entry) => entry.accountId)].filter(Boolean)),
+      ),
+      dateFrom: dates[0] ?? "",
+      dateTo: dates[dates.length - 1] ?? "",
+    });
+    transactions.push(...kept.map((entry) => ({ ...entry, id: `f${fileIndex + 1}-${entry.id}` })));
+    balances.push(...document.balances);
+  });
+
+  const format = [...sources].sort((left, right) => right.transactionCount - left.transactionCount)[0]?.format ?? "csv";
+  const analysis = buildStatementAnalysis(format, transactions, balances, options);
+  const currencySummaries = buildCurrencySummaries(analysis.transactions);
+  const primary = currencySummaries[0];
+
+  return {
+    ...analysis,
+    incomeTotal: primary?.incomeTotal ?? 0,
+    expenseTotal: primary?.expenseTotal ?? 0,
+    netCashflow: primary?.netCashflow ?? 0,
+    currencies: primary
+      ? [primary.currency, ...analysis.currencies.filter((currency) => currency !== primary.currency)]
+      : analysis.currencies,
+    sources,
+    duplicatesRemoved: sources.reduce((sum, source) => sum + source.duplicatesRemoved, 0),
+    months: primary?.months ?? [],
+    categoryTrends: primary?.categoryTrends ?? [],
+    priceChanges: primary?.priceChanges ?? [],
+    forecast: primary?.forecast ?? [],
+    currencySummaries,
   };
 }
+
+export function serializeStatementRules(rules: StatementCategoryRule[], budgets: StatementCategoryBudget[]): string {
+  return JSON.stringify({ kind: "utiliora-statement-rules", version: 1, rules, budgets }, null, 2);
+}
+
+export function parseStatementRules(raw: string): { rules: StatementCategoryRule[]; budgets: StatementCategoryBudget[] } {
+  const parsed = JSON.parse(raw) as unknown;
+  const payload = (Array.isArray(parsed) ? { rules: parsed } : parsed) as { rules?: unknown; budgets?: unknown } | null;
+  if (!payload || typeof payload !== "object") return { rules: [], budgets: [] };
+
+  const rules = (Array.isArray(payload.rules) ? payload.rules : [])
+    .map((value): StatementCategoryRule | null => {
+      if (!value || typeof value !== "object") return null;
+      const candidate = value as Record<string, unknown>;
+      if (typeof candidate.category !== "string" || !candidate.category.trim()) return null;
+      const readText = (key: string) => (typeof candidate[key] === "string" ? (candidate[key] as string) : "");
+      const readNumber = (key: string) => (typeof candidate[key] === "number" ? (candidate[key] as number) : null);
+      return createStatementCategoryRule({
+        id: readText("id"),
+        name: readText("name"),
+        enabled: candidate.enabled !== false,
+        merchantContains: readText("merchantContains"),
+        merchantPattern: readText("merchantPattern"),
+        minAmount: readNumber("minAmount"),
+        maxAmount: readNumber("maxAmount"),
+        direction: readText("direction") as StatementCategoryRule["direction"],
+        accountId: readText("accountId"),
+        dateFrom: parseDateValue(readText("dateFrom")),
+        dateTo: parseDateValue(readText("dateTo")),
+        category: candidate.category,
+        tags: Array.isArray(candidate.tags) ? candidate.tags.filter((tag): tag is string => typeof tag === "string") : [],
+      });
+    })
+    .filter((rule): rule is StatementCategoryRule => rule !== null);
+
+  const budgets = (Array.isArray(payload.budgets) ? payload.budgets : [])
+    .map((value): StatementCategoryBudget | null => {
+      if (!value || typeof value !== "object") return null;
+      const candidate = value as Partial<StatementCategoryBudget>;
+      if (typeof candidate.category !== "string" || !candidate.category.trim()) return null;
+      const limit = Number(candidate.monthlyLimit);
+      if (!Number.isFinite(limit) || limit <= 0) return null;
+      const currency = typeof candidate.currency === "string" ? candidate.currency.trim().toUpperCase() : "";
+      return currency
+        ? { category: candidate.category.trim(), monthlyLimit: limit, currency }
+        : { category: candidate.category.trim(), monthlyLimit: limit };
+    })
+    .filter((budget): budget is StatementCategoryBudget => budget !== null);
+
+  return { rules, budgets };
+}
@@ -0,0 +1,596 @@
+import type { CalculatorId } from "@/lib/types";
+
+export interface CalculatorField {
+  name: string;
+  label: string;
+  type?: "number" | "text" | "select" | "date";
+  min?: number;
+  step?: number;
+  defaultValue: string;
+  helper?: string;
+  options?: Array<{ label: string; value: string }>;
+}
+
+export const calculatorFields: Record<CalculatorId, CalculatorField[]> = {
+  "loan-emi-calculator": [
+    {
+      name: "principal",
+      label: "Loan amount (USD)",
+      defaultValue: "100000",
+      min: 0,
+      step: 100,
+      type: "number",
+      helper: "Total amount borrowed.",
+    },
+    {
+      name: "annualRate",
+      label: "Annual interest rate (%)",
+      defaultValue: "8.5",
+      min: 0,
+      step: 0.1,
+      type: "number",
+      helper: "Nominal yearly rate from your lender.",
+    },
+    { name: "months", label: "Loan tenure (months)", defaultValue: "60", min: 1, step: 1, type: "number" },
+  ],
+  "auto-loan-calculator": [
+    {
+      name: "vehiclePrice",
+      label: "Vehicle price (USD)",
+      defaultValue: "42000",
+      min: 0,
+      step: 100,
+      type: "number",
+    },
+    {
+      name: "downPayment",
+      label: "Down payment (USD)",
+      defaultValue: "5000",
+      min: 0,
+      step: 50,
+      type: "number",
+    },
+    {
+      name: "tradeInValue",
+      label: "Trade-in value (USD)",
+      defaultValue: "3000",
+      min: 0,
+      step: 50,
+      type: "number",
+    },
+    {
+      name: "salesTaxRate",
+      label: "Sales tax (%)",
+      defaultValue: "7.5",
+      min: 0,
+      step: 0.1,
+      type: "number",
+    },
+    {
+      name: "dealerFees",
+      label: "Dealer fees (USD)",
+      defaultValue: "1200",
+      min: 0,
+      step: 10,
+      type: "number",
+    },
+    {
+      name: "annualRate",
+      label: "APR (%)",
+      defaultValue: "6.2",
+      min: 0,
+      step: 0.1,
+      type: "number",
+    },
+    {
+      name: "months",
+      label: "Loan term",
+      defaultValue: "60",
+      type: "select",
+      options: [
+        { label: "36 months", value: "36" },
+        { label: "48 months", value: "48" },
+        { label: "60 months", value: "60" },
+        { label: "72 months", value: "72" },
+        { label: "84 months", value: "84" },
+      ],
+    },
+  ],
+  "refinance-calculator": [
+    {
+      name: "currentBalance",
+      label: "Current loan balance (USD)",
+      defaultValue: "320000",
+      min: 0,
+      step: 100,
+      type: "number",
+    },
+    {
+      name: "currentRate",
+      label: "Current interest rate (%)",
+      defaultValue: "7.1",
+      min: 0,
+      step: 0.1,
+      type: "number",
+    },
+    {
+      name: "remainingMonths",
+      label: "Remaining term (months)",
+      defaultValue: "324",
+      min: 1,
+      step: 1,
+      type: "number",
+    },
+    {
+      name: "newRate",
+      label: "New refinance rate (%)",
+      defaultValue: "5.9",
+      min: 0,
+      step: 0.1,
+      type: "number",
+    },
+    {
+      name: "newMonths",
+      label: "New term",
+      defaultValue: "360",
+      type: "select",
+      options: [
+        { label: "120 months", value: "120" },
+        { label: "180 months", value: "180" },
+        { label: "240 months", value: "240" },
+        { label: "300 months", value: "300" },
+        { label: "360 months", value: "360" },
+      ],
+    },
+    {
+      name: "closingCosts",
+      label: "Closing costs (USD)",
+      defaultValue: "6500",
+      min: 0,
+      step: 50,
+      type: "number",
+    },
+    {
+      name: "cashOutAmount",
+      label: "Cash-out amount (USD)",
+      defaultValue: "0",
+      min: 0,
+      step: 100,
+      type: "number",
+    },
+    {
+      name: "rollClosingCosts",
+      label: "Roll closing costs into new loan",
+      defaultValue: "yes",
+      type: "select",
+      options: [
+        { label: "Yes (finance costs)", value: "yes" },
+        { label: "No (pay upfront)", value: "no" },
+      ],
+    },
+  ] satisfies CalculatorField[],
+  "mortgage-calculator": [
+    {
+      name: "homePrice",
+      label: "Home price (USD)",
+      defaultValue: "450000",
+      min: 0,
+      step: 1000,
+      type: "number",
+    },
+    {
+      name: "downPayment",
+      label: "Down payment (USD)",
+      defaultValue: "90000",
+      min: 0,
+      step: 500,
+      type: "number",
+    },
+    { name: "annualRate", label: "Interest rate (%)", defaultValue: "6.5", min: 0, step: 0.1, type: "number" },
+    { name: "years", label: "Loan term (years)", defaultValue: "30", min: 1, step: 1, type: "number" },
+    {
+      name: "annualPropertyTaxRate",
+      label: "Property tax rate (%)",
+      defaultValue: "1.2",
+      min: 0,
+      step: 0.1,
+      type: "number",
+    },
+    {
+      name: "annualHomeInsurance",
+      label: "Annual home insurance (USD)",
+      defaultValue: "1800",
+      min: 0,
+      step: 50,
+      type: "number",
+    },
+    { name: "monthlyHoa", label: "Monthly HOA (USD)", defaultValue: "0", min: 0, step: 10, type: "number" },
+  ],
+  "debt-to-income-calculator": [
+    {
+      name: "grossMonthlyIncome",
+      label: "Gross monthly income (USD)",
+      defaultValue: "8500",
+      min: 0,
+      step: 50,
+      type: "number",
+      helper: "Income before tax, from salary/wages.",
+    },
+    {
+      name: "coBorrowerMonthlyIncome",
+      label: "Co-borrower monthly income (USD)",
+      defaultValue: "0",
+      min: 0,
+      step: 50,
+      type: "number",
+    },
+    {
+      name: "otherMonthlyIncome",
+      label: "Other recurring income (USD)",
+      defaultValue: "0",
+      min: 0,
+      step: 50,
+      type: "number",
+      helper: "Only include reliable income you can document.",
+    },
+    {
+      name: "monthlyHousingPayment",
+      label: "Housing payment - rent/mortgage P&I (USD)",
+      defaultValue: "2200",
+      min: 0,
+      step: 10,
+      type: "number",
+    },
+    {
+      name: "monthlyPropertyTax",
+      label: "Monthly property tax (USD)",
+      defaultValue: "350",
+      min: 0,
+      step: 10,
+      type: "number",
+    },
+    {
+      name: "monthlyInsuranceHoa",
+      label: "Monthly insurance + HOA (USD)",
+      defaultValue: "210",
+      min: 0,
+      step: 10,
+      type: "number",
+    },
+    { name: "monthlyCarPayment", label: "Monthly car loans (USD)", defaultValue: "450", min: 0, step: 10, type: "number" },
+    {
+      name: "monthlyStudentLoanPayment",
+      label: "Monthly student loans (USD)",
+      defaultValue: "280",
+      min: 0,
+      step: 10,
+      type: "number",
+    },
+    {
+      name: "monthlyCreditCardPayments",
+      label: "Monthly credit card minimums (USD)",
+      defaultValue: "150",
+      min: 0,
+      step: 10,
+      type: "number",
+    },
+    {
+      name: "monthlyPersonalLoanPayments",
+      label: "Monthly personal loans (USD)",
+      defaultValue: "0",
+      min: 0,
+      step: 10,
+      type: "number",
+    },
+    {
+      name: "monthlyChildSupportAlimony",
+      label: "Child support / alimony (USD)",
+      defaultValue: "0",
+      min: 0,
+      step: 10,
+      type: "number",
+    },
+    { name: "monthlyOtherDebts", label: "Other monthly debt (USD)", defaultValue: "0", min: 0, step: 10, type: "number" },
+    {
+      name: "targetFrontEndDti",
+      label: "Target front-end ratio (%)",
+      defaultValue: "31",
+      type: "select",
+      options: [
+        { label: "25 (Conservative)", value: "25" },
+        { label: "28 (Standard)", value: "28" },
+        { label: "31 (Flexible)", value: "31" },
+        { label: "33 (Aggressive)", value: "33" },
+      ],
+    },
+    {
+      name: "targetBackEndDti",
+      label: "Target back-end ratio (%)",
+      defaultValue: "43",
+      type: "select",
+      options: [
+        { label: "35 (Conservative)", value: "35" },
+        { label: "36 (Standard)", value: "36" },
+        { label: "43 (Flexible)", value: "43" },
+        { label: "50 (Aggressive)", value: "50" },
+      ],
+    },
+  ] satisfies CalculatorField[],
+  "compound-interest-calculator": [
+    { name: "principal", label: "Initial principal (USD)", defaultValue: "10000", min: 0, step: 10, type: "number" },
+    { name: "annualRate", label: "Annual return rate (%)", defaultValue: "7", min: 0, step: 0.1, type: "number" },
+    { name: "years", label: "Years", defaultValue: "10", min: 0, step: 0.5, type: "number" },
+    {
+      name: "compoundsPerYear",
+      label: "Compounds per year",
+      defaultValue: "12",
+      type: "select",
+      options: [
+        { label: "1 (Yearly)", value: "1" },
+        { label: "4 (Quarterly)", value: "4" },
+        { label: "12 (Monthly)", value: "12" },
+        { label: "365 (Daily)", value: "365" },
+      ],
+    },
+  ],
+  "simple-interest-calculator": [
+    { name: "principal", label: "Principal (USD)", defaultValue: "5000", min: 0, step: 10, type: "number" },
+    { name: "annualRate", label: "Annual rate (%)", defaultValue: "5", min: 0, step: 0.1, type: "number" },
+    { name: "years", label: "Years", defaultValue: "3", min: 0, step: 0.5, type: "number" },
+  ],
+  "inflation-calculator": [
+    { name: "amount", label: "Current amount (USD)", defaultValue: "1000", min: 0, step: 10, type: "number" },
+    {
+      name: "annualInflationRate",
+      label: "Annual inflation rate (%)",
+      defaultValue: "3",
+      min: 0,
+      step: 0.1,
+      type: "number",
+    },
+    { name: "years", label: "Years", defaultValue: "10", min: 0, step: 0.5, type: "number" },
+  ],
+  "currency-converter-calculator": [
+    { name: "amount", label: "Amount", defaultValue: "1000", min: 0, step: 0.01, type: "number" },
+    {
+      name: "fromCurrency",
+      label: "From currency",
+      defaultValue: "USD",
+      type: "select",
+      options: [
+        { label: "USD", value: "USD" },
+        { label: "EUR", value: "EUR" },
+        { label: "GBP", value: "GBP" },
+        { label: "JPY", value: "JPY" },
+        { label: "INR", value: "INR" },
+        { label: "CAD", value: "CAD" },
+        { label: "AUD", value: "AUD" },
+      ],
+    },
+    {
+      name: "toCurrency",
+      label: "To currency",
+      defaultValue: "EUR",
+      type: "select",
+      options: [
+        { label: "USD", value: "USD" },
+        { label: "EUR", value: "EUR" },
+        { label: "GBP", value: "GBP" },
+        { label: "JPY", value: "JPY" },
+        { label: "INR", value: "INR" },
+        { label: "CAD", value: "CAD" },
+        { label: "AUD", value: "AUD" },
+      ],
+    },
+    {
+      name: "exchangeRate",
+      label: "Exchange rate (1 from = ? to)",
+      defaultValue: "0.92",
+      min: 0,
+      step: 0.0001,
+      type: "number",
+    },
+    {
+      name: "conversionFeePercent",
+      label: "Conversion fee (%)",
+      defaultValue: "0",
+      min: 0,
+      step: 0.01,
+      type: "number",
+    },
+  ],
+  "crypto-profit-calculator": [
+    { name: "buyPrice", label: "Buy price (USD)", defaultValue: "60000", min: 0, step: 0.01, type: "number" },
+    { name: "sellPrice", label: "Sell price (USD)", defaultValue: "68000", min: 0, step: 0.01, type: "number" },
+    { name: "quantity", label: "Quantity", defaultValue: "0.2", min: 0, step: 0.0001, type: "number" },
+    {
+      name: "tradingFeePercent",
+      label: "Fee per trade (%)",
+      defaultValue: "0.25",
+      min: 0,
+      step: 0.01,
+      type: "number",
+    },
+  ],
+  "credit-card-payoff-calculator": [
+    { name: "balance", label: "Current balance (USD)", defaultValue: "8500", min: 0, step: 10, type: "number" },
+    { name: "apr", label: "APR (%)", defaultValue: "21.9", min: 0, step: 0.1, type: "number" },
+    { name: "monthlyPayment", label: "Monthly payment (USD)", defaultValue: "300", min: 1, step: 1, type: "number" },
+  ],
+  "salary-after-tax-calculator": [
+    {
+      name: "annualSalary",
+      label: "Gross annual salary (USD)",
+      defaultValue: "85000",
+      min: 0,
+      step: 100,
+      type: "number",
+    },
+    {
+      name: "federalTaxRate",
+      label: "Federal tax rate (%)",
+      defaultValue: "18",
+      min: 0,
+      step: 0.1,
+      type: "number",
+    },
+    {
+      name: "stateTaxRate",
+      label: "State tax rate (%)",
+      defaultValue: "6",
+      min: 0,
+      step: 0.1,
+      type: "number",
+    },
+    {
+      name: "retirementPercent",
+      label: "Retirement contribution (%)",
+      defaultValue: "6",
+      min: 0,
+      step: 0.1,
+      type: "number",
+    },
+    {
+      name: "monthlyBenefitsCost",
+      label: "Monthly deductions (USD)",
+      defaultValue: "220",
+      min: 0,
+      step: 1,
+      type: "number",
+    },
+  ],
+  "roi-calculator": [
+    { name: "investment", label: "Initial investment (USD)", defaultValue: "2000", min: 0, step: 10, type: "number" },
+    { name: "returns", label: "Final returns (USD)", defaultValue: "2600", min: 0, step: 10, type: "number" },
+  ],
+  "profit-margin-calculator": [
+    { name: "revenue", label: "Revenue (USD)", defaultValue: "1000", min: 0, step: 1, type: "number" },
+    { name: "cost", label: "Cost (USD)", defaultValue: "650", min: 0, step: 1, type: "number" },
+  ],
+  "markup-calculator": [
+    { name: "cost", label: "Unit cost (USD)", defaultValue: "35", min: 0, step: 0.01, type: "number" },
+    { name: "markupPercent", label: "Target markup (%)", defaultValue: "50", min: 0, step: 0.1, type: "number" },
+  ],
+  "vat-calculator": [
+    { name: "amount", label: "Base amount (USD)", defaultValue: "100", min: 0, step: 0.01, type: "number" },
+    { name: "vatRate", label: "VAT rate (%)", defaultValue: "20", min: 0, step: 0.1, type: "number" },
+  ],
+  "bmi-calculator": [
+    { name: "weightKg", label: "Weight (kg)", defaultValue: "70", min: 1, step: 0.1, type: "number" },
+    { name: "heightCm", label: "Height (cm)", defaultValue: "175", min: 30, step: 0.1, type: "number" },
+  ],
+  "body-fat-calculator": [
+    {
+      name: "sex",
+      label: "Sex",
+      defaultValue: "male",
+      type: "select",
+      options: [
+        { label: "Male", value: "male" },
+        { label: "Female", value: "female" },
+      ],
+    },
+    { name: "weightKg", label: "Weight (kg)", defaultValue: "75", min: 1, step: 0.1, type: "number" },
+    { name: "heightCm", label: "Height (cm)", defaultValue: "178", min: 100, step: 0.1, type: "number" },
+    { name: "neckCm", label: "Neck (cm)", defaultValue: "38", min: 10, step: 0.1, type: "number" },
+    { name: "waistCm", label: "Waist (cm)", defaultValue: "86", min: 20, step: 0.1, type: "number" },
+    { name: "hipCm", label: "Hip (cm, female)", defaultValue: "98", min: 20, step: 0.1, type: "number" },
+  ],
+  "calorie-needs-calculator": [
+    {
+      name: "sex",
+      label: "Sex",
+      defaultValue: "female",
+      type: "select",
+      options: [
+        { label: "Female", value: "female" },
+        { label: "Male", value: "male" },
+      ],
+    },
+    { name: "age", label: "Age", defaultValue: "30", min: 1, step: 1, type: "number" },
+    { name: "weightKg", label: "Weight (kg)", defaultValue: "65", min: 1, step: 0.1, type: "number" },
+    { name: "heightCm", label: "Height (cm)", defaultValue: "168", min: 30, step: 0.1, type: "number" },
+    {
+      name: "activityFactor",
+      label: "Activity level",
+      defaultValue: "1.375",
+      type: "select",
+      options: [
+        { label: "Sedentary", value: "1.2" },
+        { label: "Lightly active", value: "1.375" },
+        { label: "Moderately active", value: "1.55" },
+        { label: "Very active", value: "1.725" },
+      ],
+    },
+  ],
+  "water-intake-calculator": [
+    { name: "weightKg", label: "Weight (kg)", defaultValue: "70", min: 1, step: 0.1, type: "number" },
+    { name: "activityMinutes", label: "Exercise minutes/day", defaultValue: "30", min: 0, step: 1, type: "number" },
+  ],
+  "age-calculator": [
+    { name: "birthDate", label: "Date of birth", defaultValue: "1995-01-15", type: "date" },
+    {
+      name: "asOfDate",
+      label: "As of date (optional)",
+      defaultValue: "",
+      type: "date",
+      helper: "Leave empty to calculate age as of today.",
+    },
+  ],
+  "date-difference-calculator": [
+    { name: "startDate", label: "Start date", defaultValue: "2026-01-01", type: "date" },
+    { name: "endDate", label: "End date", defaultValue: "2026-12-31", type: "date" },
+    {
+      name: "includeEndDate",
+      label: "Count mode",
+      defaultValue: "no",
+      type: "select",
+      options: [
+        { label: "Exclusive (exclude end date)", value: "no" },
+        { label: "Inclusive (include end date)", value: "yes" },
+      ],
+      helper: "Inclusive mode counts both start and end dates.",
+    },
+  ],
+  "pregnancy-due-date-calculator": [
+    { name: "lmpDate", label: "First day of last period", defaultValue: "2026-01-01", type: "date" },
+    { name: "cycleLengthDays", label: "Cycle length (days)", defaultValue: "28", min: 20, step: 1, type: "number" },
+  ],
+  "savings-goal-calculator": [
+    { name: "targetAmount", label: "Target amount (USD)", defaultValue: "50000", min: 1, step: 100, type: "number" },
+    { name: "currentSavings", label: "Current savings (USD)", defaultValue: "5000", min: 0, step: 100, type: "number" },
+    { name: "years", label: "Years to goal", defaultValue: "5", min: 0.1, step: 0.1, type: "number" },
+    { name: "annualReturn", label: "Expected annual return (%)", defaultValue: "5", min: 0, step: 0.1, type: "number" },
+  ],
+  "break-even-calculator": [
+    { name: "fixedCosts", label: "Fixed costs (USD)", defaultValue: "15000", min: 0, step: 100, type: "number" },
+    { name: "variableCostPerUnit", label: "Variable cost/unit (USD)", defaultValue: "20", min: 0, step: 0.01, type: "number" },
+    { name: "unitPrice", label: "Selling price/unit (USD)", defaultValue: "45", min: 0, step: 0.01, type: "number" },
+  ],
+  "startup-cost-estimator": [
+    { name: "oneTimeCosts", label: "One-time setup costs (USD)", defaultValue: "25000", min: 0, step: 100, type: "number" },
+    { name: "monthlyBurn", label: "Monthly operating burn (USD)", defaultValue: "12000", min: 0, step: 100, type: "number" },
+    { name: "runwayMonths", label: "Runway target (months)", defaultValue: "12", min: 1, step: 1, type: "number" },
+    { name: "contingencyPercent", label: "Contingency buffer (%)", defaultValue: "15", min: 0, step: 1, type: "number" },
+  ],
+  "freelance-rate-calculator": [
+    {
+      name: "targetMonthlyIncome",
+      label: "Target monthly income (USD)",
+      defaultValue: "4000",
+      min: 0,
+      step: 50,
+      type: "number",
+    },
+    { name: "monthlyExpenses", label: "Monthly expenses (USD)", defaultValue: "1500", min: 0, step: 50, type: "number" },
+    {
+      name: "billableHoursPerMonth",
+      label: "Billable hours/month",
+      defaultValue: "80",
+      min: 1,
+      step: 1,
+      type: "number",
+    },
+    { name: "desiredProfitPercent", label: "Desired profit (%)", defaultValue: "20", min: 0, step: 1, type: "number" },
+  ],
+};
@@ -1,5 +1,27 @@
 export type CsvDelimiter = "," | "\t" | ";" | "|";
 export type CsvTextCase = "keep" | "lower" | "upper" | "title";
+export type CsvCleanupPresetId = "merchant-name-cleanup" | "dedupe-contacts" | "normalize-ecommerce-exports";
+export type CsvColumnType = "text" | "date" | "number" | "currency" | "email" | "phone" | "boolean";
+export type CsvDateOrder = "auto" | "dmy" | "mdy" | "ymd";
+export type CsvDecimalSeparator = "auto" | "." | ",";
+export type CsvValidationRuleKind = "required" | "type" | "pattern" | "min" | "max" | "unique" | "allowed";
+
+export interface CsvColumnRule {
+  column: string;
+  type: CsvColumnType | "auto";
+  normalize: boolean;
+  required: boolean;
+  unique: boolean;
+  pattern?: string;
+  min?: number | null;
+  max?: number | null;
+  allowedValues?: string[];
+}
+
+export type CsvColumnOperation =
+  | { kind: "split"; column: string; separator: string; into: string[]; keepSource: boolean }
+  | { kind: "merge"; columns: string[]; separator: string; into: string; keepSources: boolean }
+  | { kind: "derive"; into: string; template: string };
 
 export interface CsvDataset {
   delimiter: CsvDelimiter;
@@ -15,6 +37,41 @@ export interface CsvCleanupOptions {
   dropEmptyRows: boolean;
   dedupeRows: boolean;
   textCase: CsvTextCase;
+  normalizeDetectedTypes?: boolean;
+  dateOrder?: CsvDateOrder;
+  decimalSeparator?: CsvDecimalSeparator;
+  columnOperations?: CsvColumnOperation[];
+  columnRules?: CsvColumnRule[];
+}
+
+export interface CsvColumnProfile {
+  header: string;
+  inferredType: CsvColumnType;
+  confidence: number;
+  filledCells: number;
+  emptyCells: number;
+  distinctValues: number;
+  dateOrder: Exclude<CsvDateOrder, "auto"> | null;
+  decimalSeparator: "." | "," | null;
+}
+
+export interface CsvValidationIssue {
+  row: number;
+  column: string;
+  value: string;
+  rule: CsvValidationRuleKind;
+  message: string;
+}
+
+export interface CsvValidationReport {
+  issues: CsvValidationIssue[];
+  issueCount: number;
+  truncated: boolean;
+  invalidRows: number;
+  validRows: number;
+  normalizedCells: number;
+  issuesByColumn: Record<string, number>;
+  issuesByRule: Partial<Record<CsvValidationRuleKind, number>>;
 }
 
 export interface CsvCleanupResult {
@@ -23,6 +80,8 @@ export interface CsvCleanupResult {
   duplicateRowsRemoved: number;
   emptyRowsRemoved: number;
   changedCells: number;
+  columnProfiles: CsvColumnProfile[];
+  validation: CsvValidationReport;
 }
 
 export interface CsvMappingSuggestion {
@@ -31,6 +90,41 @@ export interface CsvMappingSuggestion {
   confidence: "high" | "medium" | "low";
 }
 
+export interface CsvMappingRecipe {
+  id: string;
+  name: string;
+  preset: CsvCleanupPresetId | null;
+  cleanupOptions: CsvCleanupOptions;
+  targetHeaders: string[];
+  mapping: Record<string, string>;
+  outputDelimiter: CsvDelimiter;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CsvRecipeFileReport {
+  fileName: string;
+  outputFileName: string;
+  status: "ok" | "warning" | "error";
+  message: string;
+  delimiter: CsvDelimiter | null;
+  sourceRows: number;
+  outputRows: number;
+  outputColumns: number;
+  duplicateRowsRemoved: number;
+  emptyRowsRemoved: number;
+  changedCells: number;
+  validationIssues: number;
+  invalidRows: number;
+  autoMappedTargets: string[];
+  unmappedTargets: string[];
+}
+
+export interface CsvRecipeFileResult {
+  report: CsvRecipeFileReport;
+  outputText: string;
+}
+
 const COMMON_HEADER_SYNONYMS: Record<string, string[]> = {
   email: ["email address", "e-mail", "mail"],
   phone: ["telephone", "mobile", "phone number", "tel"],
@@ -172,13 +266,515 @@ function cleanupCell(value: string, options: CsvCleanupOptions): string {
   return next;
 }
 
+const CSV_TYPE_INFERENCE_ORDER: CsvColumnType[] = ["boolean", "email", "date", "currency", "phone", "number"];
+const CSV_TYPE_INFERENCE_SAMPLE = 1000;
+const CSV_TYPE_INFERENCE_THRESHOLD = 0.8;
+const CSV_VALIDATION_ISSUE_LIMIT = 5000;
+
+const MONTH_INDEX: Record<string, number> = {
+  jan: 1,
+  feb: 2,
+  mar: 3,
+  apr: 4,
+  may: 5,
+  jun: 6,
+  jul: 7,
+  aug: 8,
+  sep: 9,
+  sept: 9,
+  oct: 10,
+  nov: 11,
+  dec: 12,
+};
+const BOOLEAN_TRUE_VALUES = new Set(["true", "yes", "y", "on", "1"]);
+const BOOLEAN_FALSE_VALUES = new Set(["false", "no", "n", "off", "0"]);
+const CURRENCY_MARKER_PATTERN =
+  /[$€£¥₹₦₩₽₱]|\b(?:USD|EUR|GBP|JPY|INR|NGN|KES|UGX|TZS|RWF|ZAR|CAD|AUD|NZD|CHF|CNY|SEK|NOK|DKK|BRL|MXN)\b/gi;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+
+interface CsvTypeContext {
+  dateOrder: Exclude<CsvDateOrder, "auto">;
+  decimalSeparator: CsvDecimalSeparator;
+}
+
+function guessDecimalSeparator(text: string): "." | "," {
+  const lastDot = text.lastIndexOf(".");
+  const lastComma = text.lastIndexOf(",");
+  if (lastDot >= 0 && lastComma >= 0) return lastDot > lastComma ? "." : ",";
+  if (lastComma >= 0) return /^\d{1,3}(,\d{3})+$/.test(text) ? "." : ",";
+  if (lastDot >= 0) return /^\d{1,3}(\.\d{3}){2,}$/.test(text) ? "," : ".";
+  return ".";
+}
+
+function parseLocaleNumber(value: string, separator: CsvDecimalSeparator): number | null {
+  let text = value.trim().replace(/[\s\u00a0\u202f']/g, "");
+  if (!text) return null;
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.startsWith("-")) {
+    negative = !negative;
+    text = text.slice(1);
+  } else if (text.startsWith("+")) {
+    text = text.slice(1);
+  }
+  if (text.endsWith("-")) {
+    negative = !negative;
+    text = text.slice(0, -1);
+  }
+  if (!/^(\d[\d.,]*|[.,]\d+)$/.test(text)) return null;
+
+  const decimal = separator === "auto" ? guessDecimalSeparator(text) : separator;
+  const thousands = decimal === "," ? "." : ",";
+  const [integerPart, ...fraction] = text.split(decimal);
+  if (fraction.length > 1 || (fraction[0] ?? "").includes(thousands)) return null;
+  const groups = integerPart.split(thousands);
+  if (groups.length > 1 && (!groups[0] || groups[0].length > 3 || groups.slice(1).some((group) => group.length !== 3))) {
+    return null;
+  }
+  const parsed = Number(`${groups.join("")}${fraction.length ? `.${fraction[0]}` : ""}`);
+  if (!Number.isFinite(parsed)) return null;
+  return negative ? -parsed : parsed;
+}
+
+function stripCurrencyMarkers(value: string): { rest: string; hadMarker: boolean } {
+  let hadMarker = false;
+  const rest = value.replace(CURRENCY_MARKER_PATTERN, () => {
+    hadMarker = true;
+    return "";
+  });
+  return { rest: rest.trim(), hadMarker };
+}
+
+function decimalSeparatorEvidence(value: string): "." | "," | null {
+  const text = value.replace(/[^\d.,]/g, "");
+  if (text.split(".").length > 2) return ",";
+  if (text.split(",").length > 2) return ".";
+  const lastDot = text.lastIndexOf(".");
+  const lastComma = text.lastIndexOf(",");
+  if (lastDot >= 0 && lastComma >= 0) return lastDot > lastComma ? "." : ",";
+  if (lastComma >= 0) return /,\d{3}$/.test(text) && !/^0,/.test(text) ? null : ",";
+  if (lastDot >= 0) return /\.\d{3}$/.test(text) && !/^0\./.test(text) ? null : ".";
+  return null;
+}
+
+function inferDecimalSeparator(values: string[]): "." | "," {
+  let dot = 0;
+  let comma = 0;
+  values.forEach((value) => {
+    const evidence = decimalSeparatorEvidence(value);
+    if (evidence === ".") dot += 1;
+    if (evidence === ",") comma += 1;
+  });
+  return comma > dot ? "," : ".";
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function expandYear(value: string): number {
+  const year = Number(value);
+  if (value.length > 2) return year;
+  return year < 50 ? 2000 + year : 1900 + year;
+}
+
+function formatIsoDate(year: number, month: number, day: number, time = ""): string | null {
+  if (!Number.isInteger(year) || year < 1000 || year > 9999) return null;
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) return null;
+  const date = `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+  if (!time) return date;
+  const [hours, minutes, rest = ""] = time.split(":");
+  if (Number(hours) > 23 || Number(minutes) > 59) return null;
+  return `${date}T${hours.padStart(2, "0")}:${minutes}${rest ? `:${rest}` : ""}`;
+}
+
+function parseDateValue(value: string, order: Exclude<CsvDateOrder, "auto">): string | null {
+  const text = value
+    .trim()
+    .replace(/^(?:mon|tue|tues|wed|thu|thur|thurs|fri|sat|sun)[a-z]*\.?,?\s+/i, "")
+    .replace(/(\d)(?:st|nd|rd|th)\b/gi, "$1");
+  if (!text) return null;
+
+  const timePattern = "(?:[T\\s]+(\\d{1,2}:\\d{2}(?::\\d{2}(?:\\.\\d+)?)?)(?:\\s*(?:Z|[+-]\\d{2}:?\\d{2}))?)?";
+  const numeric = new RegExp(`^(\\d{1,4})[-/.](\\d{1,2})[-/.](\\d{1,4})${timePattern}$`, "i").exec(text);
+  if (numeric) {
+    const [, first, second, third, time = ""] = numeric;
+    if (first.length === 4) return formatIsoDate(Number(first), Number(second), Number(third), time);
+    if (third.length !== 2 && third.length !== 4) return null;
+    if (order === "ymd") return formatIsoDate(expandYear(first), Number(second), Number(third), time);
+    const year = expandYear(third);
+    return order === "mdy"
+      ? formatIsoDate(year, Number(first), Number(second), time)
+      : formatIsoDate(year, Number(second), Number(first), time);
+  }
+
+  const dayFirst = new RegExp(`^(\\d{1,2})[\\s-]+([a-z]{3,9})\\.?,?[\\s-]+(\\d{2}|\\d{4})${timePattern}$`, "i").exec(text);
+  if (dayFirst) {
+    const month = MONTH_INDEX[dayFirst[2].toLowerCase().slice(0, 4)] ?? MONTH_INDEX[dayFirst[2].toLowerCase().slice(0, 3)];
+    if (!month) return null;
+    return formatIsoDate(expandYear(dayFirst[3]), month, Number(dayFirst[1]), dayFirst[4] ?? "");
+  }
+
+  const monthFirst = new RegExp(`^([a-z]{3,9})\\.?[\\s-]+(\\d{1,2}),?[\\s-]+(\\d{4})${timePattern}$`, "i").exec(text);
+  if (monthFirst) {
+    const month = MONTH_INDEX[monthFirst[1].toLowerCase().slice(0, 4)] ?? MONTH_INDEX[monthFirst[1].toLowerCase().slice(0, 3)];
+    if (!month) return null;
+    return formatIsoDate(Number(monthFirst[3]), month, Number(monthFirst[2]), monthFirst[4] ?? "");
+  }
+
+  return null;
+}
+
+function inferDateOrder(values: string[]): Exclude<CsvDateOrder, "auto"> {
+  let dayFirst = 0;
+  let monthFirst = 0;
+  let yearFirst = 0;
+  values.forEach((value) => {
+    const match = /^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})/.exec(value.trim());
+    if (!match) return;
+    if (match[1].length === 4) {
+      yearFirst += 1;
+      return;
+    }
+    if (Number(match[1]) > 12) dayFirst += 1;
+    else if (Number(match[2]) > 12) monthFirst += 1;
+  });
+  if (monthFirst > dayFirst) return "mdy";
+  if (!dayFirst && yearFirst) return "ymd";
+  return "dmy";
+}
+
+function normalizePhoneValue(value: string): string | null {
+  const text = value.trim().replace(/\s*(?:ext\.?|x|#)\s*\d+$/i, "");
+  if (!/^\+?[\d\s().\-/]+$/.test(text)) return null;
+  const digits = text.replace(/\D/g, "");
+  if (digits.length < 7 || digits.length > 15) return null;
+  if (text.startsWith("+")) return `+${digits}`;
+  if (digits.startsWith("00")) return `+${digits.slice(2)}`;
+  return digits;
+}
+
+function isGroupedNumber(text: string): boolean {
+  return /^-?\d{1,3}(?:([.,\s\u00a0\u202f'])\d{3})(?:\1\d{3})*(?:[.,]\d+)?$/.test(text);
+}
+
+function isIdentifierLikeNumber(text: string): boolean {
+  return /^[-(]?0\d/.test(text) || text.startsWith("+") || (/\d[\s\u00a0\u202f]+\d/.test(text) && !isGroupedNumber(text));
+}
+
+function formatNormalizedNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : String(Number(value.toFixed(10)));
+}
+
+function normalizeTypedValue(value: string, type: CsvColumnType, context: CsvTypeContext): string | null {
+  const text = value.trim();
+  if (type === "text") return value;
+  if (type === "boolean") {
+    const key = text.toLowerCase();
+    if (BOOLEAN_TRUE_VALUES.has(key)) return "true";
+    if (BOOLEAN_FALSE_VALUES.has(key)) return "false";
+    return null;
+  }
+  if (type === "email") {
+    const email = text.replace(/^mailto:/i, "").toLowerCase();
+    return EMAIL_PATTERN.test(email) ? email : null;
+  }
+  if (type === "phone") return normalizePhoneValue(text);
+  if (type === "date") return parseDateValue(text, context.dateOrder);
+  if (type === "currency") {
+    const parsed = parseLocaleNumber(stripCurrencyMarkers(text).rest, context.decimalSeparator);
+    return parsed === null ? null : parsed.toFixed(2);
+  }
+  const parsed = parseLocaleNumber(text.replace(/%$/, ""), context.decimalSeparator);
+  if (parsed === null) return null;
+  return isIdentifierLikeNumber(text) ? text : formatNormalizedNumber(parsed);
+}
+
+function detectsAsType(value: string, type: CsvColumnType, context: CsvTypeContext): boolean {
+  const text = value.trim();
+  if (type === "boolean") return text !== "1" && text !== "0" && normalizeTypedValue(text, "boolean", context) !== null;
+  if (type === "currency") return stripCurrencyMarkers(text).hadMarker && normalizeTypedValue(text, "currency", context) !== null;
+  if (type === "phone") {
+    const digits = text.replace(/\D/g, "");
+    const formatted = /^\+|^00|^\(|\d[\s().\-/]+\d/.test(text) || (digits.startsWith("0") && digits.length >= 9);
+    return formatted && !isGroupedNumber(text) && !/^\d+[.,]\d+$/.test(text) && normalizePhoneValue(text) !== null;
+  }
+  if (type === "number" && isIdentifierLikeNumber(text)) return false;
+  return normalizeTypedValue(text, type, context) !== null;
+}
+
+function resolveColumnIndex(headers: string[], column: string): number {
+  const exact = headers.indexOf(column);
+  if (exact >= 0) return exact;
+  const key = makeHeaderKey(column);
+  return key ? headers.findIndex((header) => makeHeaderKey(header) === key) : -1;
+}
+
+function makeUniqueHeader(headers: string[], wanted: string): string {
+  const base = wanted.trim() || `Column ${headers.length + 1}`;
+  const used = new Set(headers.map((header) => header.toLowerCase()));
+  if (!used.has(base.toLowerCase())) return base;
+  let suffix = 2;
+  while (used.has(`${base} ${suffix}`.toLowerCase())) suffix += 1;
+  return `${base} ${suffix}`;
+}
+
+function applyTemplateFilter(value: string, filter: string): string {
+  const name = filter.trim().toLowerCase();
+  if (name === "upper") return value.toUpperCase();
+  if (name === "lower") return value.toLowerCase();
+  if (name === "title") return toTitleCase(value);
+  if (name === "trim") return value.trim();
+  if (name === "digits") return value.replace(/\D/g, "");
+  if (name === "domain") return value.includes("@") ? value.split("@").pop()?.trim().toLowerCase() ?? "" : "";
+  if (name === "first") return value.trim().split(/\s+/)[0] ?? "";
+  if (name === "last") return value.trim().split(/\s+/).pop() ?? "";
+  return value;
+}
+
+function renderDerivedValue(template: string, headers: string[], row: string[]): string {
+  return template
+    .replace(/\{([^{}|]+)((?:\|[a-z]+)*)\}/gi, (token, column: string, filters: string) => {
+      const index = resolveColumnIndex(headers, column.trim());
+      if (index < 0) return token;
+      return filters
+        .split("|")
+        .filter(Boolean)
+        .reduce((value, filter) => applyTemplateFilter(value, filter), row[index] ?? "");
+    })
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function applyColumnOperations(
+  headers: string[],
+  rows: string[][],
+  operations: CsvColumnOperation[],
+): { headers: string[]; rows: string[][] } {
+  let nextHeaders = [...headers];
+  let nextRows = rows.map((row) => [...row]);
+
+  operations.forEach((operation) => {
+    if (operation.kind === "split") {
+      const sourceIndex = resolveColumnIndex(nextHeaders, operation.column);
+      if (sourceIndex < 0) return;
+      const separator = operation.separator || " ";
+      const targets = operation.into.map((name) => name.trim()).filter(Boolean);
+      const partCount = targets.length || Math.max(2, ...nextRows.map((row) => (row[sourceIndex] ?? "").split(separator).length));
+      const remaining = nextHeaders.filter((_, index) => operation.keepSource || index !== sourceIndex);
+      const newHeaders: string[] = [];
+      for (let index = 0; index < partCount; index += 1) {
+        newHeaders.push(makeUniqueHeader([...remaining, ...newHeaders], targets[index] ?? `${nextHeaders[sourceIndex]} ${index + 1}`));
+      }
+      const insertAt = sourceIndex + (operation.keepSource ? 1 : 0);
+      const sourceHeaders = nextHeaders;
+      nextHeaders = [...sourceHeaders.slice(0, insertAt), ...newHeaders, ...sourceHeaders.slice(sourceIndex + 1)];
+      nextRows = nextRows.map((row) => {
+        const parts = (row[sourceIndex] ?? "").split(separator).map((part) => part.trim());
+        const values = newHeaders.map((_, index) =>
+          index === partCount - 1 ? parts.slice(index).join(separator).trim() : parts[index] ?? "",
+        );
+        return [...row.slice(0, insertAt), ...values, ...row.slice(sourceIndex + 1)];
+      });
+      return;
+    }
+
+    if (operation.kind === "merge") {
+      const indexes = operation.columns.map((column) => resolveColumnIndex(nextHeaders, column)).filter((index) => index >= 0);
+      if (!indexes.length) return;
+      const removed = new Set(operation.keepSources ? [] : indexes);
+      const insertAt = Math.min(...indexes);
+      const merged = nextRows.map((row) =>
+        indexes
+          .map((index) => (row[index] ?? "").trim())
+          .filter(Boolean)
+          .join(operation.separator),
+      );
+      const keptHeaders = nextHeaders.filter((_, index) => !removed.has(index));
+      const mergedHeader = makeUniqueHeader(keptHeaders, operation.into || "Merged");
+      const keepBefore = (index: number) => index < insertAt && !removed.has(index);
+      const keepAfter = (index: number) => index >= insertAt && !removed.has(index);
+      nextHeaders = [
+        ...nextHeaders.filter((_, index) => keepBefore(index)),
+        mergedHeader,
+        ...nextHeaders.filter((_, index) => keepAfter(index)),
+      ];
+      nextRows = nextRows.map((row, rowIndex) => [
+        ...row.filter((_, index) => keepBefore(index)),
+        merged[rowIndex],
+        ...row.filter((_, index) => keepAfter(index)),
+      ]);
+      return;
+    }
+
+    if (!operation.template.trim()) return;
+    const existing = resolveColumnIndex(nextHeaders, operation.into);
+    const derived = nextRows.map((row) => renderDerivedValue(operation.template, nextHeaders, row));
+    if (existing >= 0 && operation.into.trim()) {
+      nextRows = nextRows.map((row, rowIndex) => row.map((cell, index) => (index === existing ? derived[rowIndex] : cell)));
+      return;
+    }
+    nextHeaders = [...nextHeaders, makeUniqueHeader(nextHeaders, operation.into || "Derived")];
+    nextRows = nextRows.map((row, rowIndex) => [...row, derived[rowIndex]]);
+  });
+
+  return { headers: nextHeaders, rows: nextRows };
+}
+
+function profileCsvColumn(header: string, values: string[], options: CsvCleanupOptions): CsvColumnProfile {
+  const filled = values.filter((value) => value.trim());
+  const sample = filled.slice(0, CSV_TYPE_INFERENCE_SAMPLE);
+  const context: CsvTypeContext = {
+    dateOrder: options.dateOrder && options.dateOrder !== "auto" ? options.dateOrder : inferDateOrder(sample),
+    decimalSeparator:
+      options.decimalSeparator && options.decimalSeparator !== "auto" ? options.decimalSeparator : inferDecimalSeparator(sample),
+  };
+
+  let inferredType: CsvColumnType = "text";
+  let confidence = sample.length ? 1 : 0;
+  for (const type of CSV_TYPE_INFERENCE_ORDER) {
+    if (!sample.length) break;
+    const ratio = sample.filter((value) => detectsAsType(value, type, context)).length / sample.length;
+    if (ratio >= CSV_TYPE_INFERENCE_THRESHOLD) {
+      inferredType = type;
+      confidence = ratio;
+      break;
+    }
+  }
+
+  return {
+    header,
+    inferredType,
+    confidence: Math.round(confidence * 100) / 100,
+    filledCells: filled.length,
+    emptyCells: values.length - filled.length,
+    distinctValues: new Set(filled.map((value) => value.trim().toLowerCase())).size,
+    dateOrder: inferredType === "date" ? context.dateOrder : null,
+    decimalSeparator:
+      inferredType === "number" || inferredType === "currency" ? (context.decimalSeparator as "." | ",") : null,
+  };
+}
+
+function buildProfileContext(profile: CsvColumnProfile, options: CsvCleanupOptions): CsvTypeContext {
+  return {
+    dateOrder: profile.dateOrder ?? (options.dateOrder && options.dateOrder !== "auto" ? options.dateOrder : "dmy"),
+    decimalSeparator: profile.decimalSeparator ?? options.decimalSeparator ?? "auto",
+  };
+}
+
+function findColumnRule(rules: CsvColumnRule[], header: string): CsvColumnRule | undefined {
+  const key = makeHeaderKey(header);
+  return rules.find((rule) => rule.column === header) ?? rules.find((rule) => makeHeaderKey(rule.column) === key);
+}
+
+export function compileRulePattern(pattern: string | undefined, flags = ""): RegExp | null {
+  if (!pattern?.trim()) return null;
+  try {
+    return new RegExp(pattern.trim(), flags);
+  } catch {
+    return null;
+  }
+}
+
+function validateCsvRows(
+  headers: string[],
+  rows: string[][],
+  rules: CsvColumnRule[],
+  types: CsvColumnType[],
+  contexts: CsvTypeContext[],
+): Omit<CsvValidationReport, "normalizedCells"> {
+  const issues: CsvValidationIssue[] = [];
+  const issuesByColumn: Record<string, number> = {};
+  const issuesByRule: Partial<Record<CsvValidationRuleKind, number>> = {};
+  const invalidRowIndexes = new Set<number>();
+  let issueCount = 0;
+
+  const report = (rowIndex: number, column: string, value: string, rule: CsvValidationRuleKind, message: string) => {
+    issueCount += 1;
+    invalidRowIndexes.add(rowIndex);
+    issuesByColumn[column] = (issuesByColumn[column] ?? 0) + 1;
+    issuesByRule[rule] = (issuesByRule[rule] ?? 0) + 1;
+    if (issues.length < CSV_VALIDATION_ISSUE_LIMIT) {
+      issues.push({ row: rowIndex + 1, column, value, rule, message });
+    }
+  };
+
+  headers.forEach((header, columnIndex) => {
+    const rule = findColumnRule(rules, header);
+    if (!rule) return;
+    const type = types[columnIndex];
+    const context = contexts[columnIndex];
+    const pattern = compileRulePattern(rule.pattern);
+    const allowed = (rule.allowedValues ?? []).map((value) => value.trim().toLowerCase()).filter(Boolean);
+    const seen = new Map<string, number>();
+    const hasMin = typeof rule.min === "number" && Number.isFinite(rule.min);
+    const hasMax = typeof rule.max === "number" && Number.isFinite(rule.max);
+
+    rows.forEach((row, rowIndex) => {
+      const value = row[columnIndex] ?? "";
+      const text = value.trim();
+      if (!text) {
+        if (rule.required) report(rowIndex, header, value, "required", `${header} is required.`);
+        return;
+      }
+
+      const typed = normalizeTypedValue(text, type, context);
+      if (typed === null) {
+        report(rowIndex, header, value, "type", `Expected ${type === "email" ? "an email" : `a ${type}`} value.`);
+      }
+      if (pattern && !pattern.test(text)) {
+        report(rowIndex, header, value, "pattern", `Does not match pattern ${rule.pattern}.`);
+      }
+      if (allowed.length && !allowed.includes(text.toLowerCase())) {
+        report(rowIndex, header, value, "allowed", `Not one of: ${(rule.allowedValues ?? []).join(", ")}.`);
+      }
+      if ((hasMin || hasMax) && type !== "date") {
+        const numeric = type === "number" || type === "currency";
+        const measure = numeric ? (typed === null ? null : Number(typed)) : text.length;
+        const unit = numeric ? "" : " characters";
+        if (measure !== null && hasMin && measure < (rule.min as number)) {
+          report(rowIndex, header, value, "min", `Below minimum of ${rule.min}${unit}.`);
+        }
+        if (measure !== null && hasMax && measure > (rule.max as number)) {
+          report(rowIndex, header, value, "max", `Above maximum of ${rule.max}${unit}.`);
+        }
+      }
+      if (rule.unique) {
+        const key = (typed ?? text).toLowerCase();
+        const firstRow = seen.get(key);
+        if (typeof firstRow === "number") {
+          report(rowIndex, header, value, "unique", `Duplicate of row ${firstRow + 1}.`);
+        } else {
+          seen.set(key, rowIndex);
+        }
+      }
+    });
+  });
+
+  issues.sort((left, right) => left.row - right.row || headers.indexOf(left.column) - headers.indexOf(right.column));
+
+  return {
+    issues,
+    issueCount,
+    truncated: issueCount > issues.length,
+    invalidRows: invalidRowIndexes.size,
+    validRows: rows.length - invalidRowIndexes.size,
+    issuesByColumn,
+    issuesByRule,
+  };
+}
+
 export function cleanupCsvDataset(dataset: CsvDataset, options: CsvCleanupOptions): CsvCleanupResult {
   let duplicateRowsRemoved = 0;
   let emptyRowsRemoved = 0;
   let changedCells = 0;
+  let normalizedCells = 0;
 
   const usedHeaders = new Set<string>();
-  const headers = dataset.headers.map((header, index) => {
+  const cleanedHeaders = dataset.headers.map((header, index) => {
     let next = options.normalizeHeaders ? normalizeHeaderLabel(header) : header;
     if (options.trimCells) next = next.trim();
     if (!next && options.fillMissingHeaders) {
@@ -195,12 +791,44 @@ export function cleanupCsvDataset(dataset: CsvDataset, options: CsvCleanupOption
     return next;
   });
 
-  const seen = new Set<string>();
-  const rows = dataset.rows.reduce<string[][]>((acc, row) => {
-    const nextRow = row.map((cell) => {
+  const cleanedRows = dataset.rows.map((row) =>
+    row.map((cell) => {
       const cleaned = cleanupCell(cell, options);
       if (cleaned !== cell) changedCells += 1;
       return cleaned;
+    }),
+  );
+
+  const { headers, rows: transformedRows } = options.columnOperations?.length
+    ? applyColumnOperations(cleanedHeaders, cleanedRows, options.columnOperations)
+    : { headers: cleanedHeaders, rows: cleanedRows };
+
+  const rules = options.columnRules ?? [];
+  const columnProfiles = headers.map((header, columnIndex) =>
+    profileCsvColumn(
+      header,
+      transformedRows.map((row) => row[columnIndex] ?? ""),
+      options,
+    ),
+  );
+  const columnTypes = columnProfiles.map((profile) => {
+    const rule = findColumnRule(rules, profile.header);
+    return rule && rule.type !== "auto" ? rule.type : profile.inferredType;
+  });
+  const columnContexts = columnProfiles.map((profile) => buildProfileContext(profile, options));
+  const normalizeColumns = columnProfiles.map((profile, columnIndex) => {
+    const rule = findColumnRule(rules, profile.header);
+    return columnTypes[columnIndex] !== "text" && (rule ? rule.normalize : Boolean(options.normalizeDetectedTypes));
+  });
+
+  const seen = new Set<string>();
+  const rows = transformedRows.reduce<string[][]>((acc, row) => {
+    const nextRow = row.map((cell, columnIndex) => {
+      if (!normalizeColumns[columnIndex] || !cell.trim()) return cell;
+      const normalized = normalizeTypedValue(cell, columnTypes[columnIndex], columnContexts[columnIndex]);
+      if (normalized === null || normalized === cell) return cell;
+      normalizedCells += 1;
+      return normalized;
     });
 
     const isEmpty = nextRow.every((cell) => !cell.trim());
@@ -220,12 +848,21 @@ export function cleanupCsvDataset(dataset: CsvDataset, options: CsvCleanupOption
     return acc;
   }, []);
 
+  const validationContexts = columnContexts.map((context, columnIndex) =>
+    normalizeColumns[columnIndex] ? { dateOrder: "ymd" as const, decimalSeparator: "." as const } : context,
+  );
+
   return {
     headers,
     rows,
     duplicateRowsRemoved,
     emptyRowsRemoved,
     changedCells,
+    columnProfiles,
+    validation: {
+      ...validateCsvRows(headers, rows, rules, columnTypes, validationContexts),
+      normalizedCells,
+    },
   };
 }
 
@@ -305,9 +942,7 @@ export function parseTargetSchema(raw: string): string[] {
     .filter(Boolean);
 }
 
-export function applyCleanupPreset(
-  preset: "merchant-name-cleanup" | "dedupe-contacts" | "normalize-ecommerce-exports",
-): CsvCleanupOptions {
+export function applyCleanupPreset(preset: CsvCleanupPresetId): CsvCleanupOptions {
   if (preset === "merchant-name-cleanup") {
     return {
       trimCells: true,
@@ -340,3 +975,300 @@ export function applyCleanupPreset(
     textCase: "keep",
   };
 }
+
+const CSV_RECIPE_PRESETS: CsvCleanupPresetId[] = ["merchant-name-cleanup", "dedupe-contacts", "normalize-ecommerce-exports"];
+const CSV_DELIMITERS: CsvDelimiter[] = [",", "\t", ";", "|"];
+const CSV_TEXT_CASES: CsvTextCase[] = ["keep", "lower", "upper", "title"];
+const CSV_DATE_ORDERS: CsvDateOrder[] = ["auto", "dmy", "mdy", "ymd"];
+const CSV_DECIMAL_SEPARATORS: CsvDecimalSeparator[] = ["auto", ".", ","];
+const CSV_COLUMN_TYPES: CsvColumnType[] = ["text", "date", "number", "currency", "email", "phone", "boolean"];
+
+type CsvCleanupFlag = "trimCells" | "collapseWhitespace" | "normalizeHeaders" | "fillMissingHeaders" | "dropEmptyRows" | "dedupeRows";
+
+function readStringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === "string" && entry.trim().length > 0) : [];
+}
+
+function sanitizeCsvColumnRule(value: unknown): CsvColumnRule | null {
+  if (!value || typeof value !== "object") return null;
+  const candidate = value as Partial<CsvColumnRule>;
+  if (typeof candidate.column !== "string" || !candidate.column.trim()) return null;
+  const readBound = (bound: unknown) => (typeof bound === "number" && Number.isFinite(bound) ? bound : null);
+  return {
+    column: candidate.column,
+    type: candidate.type === "auto" || CSV_COLUMN_TYPES.includes(candidate.type as CsvColumnType) ? (candidate.type as CsvColumnRule["type"]) : "auto",
+    normalize: candidate.normalize !== false,
+    required: candidate.required === true,
+    unique: candidate.unique === true,
+    pattern: typeof candidate.pattern === "string" ? candidate.pattern : "",
+    min: readBound(candidate.min),
+    max: readBound(candidate.max),
+    allowedValues: readStringList(candidate.allowedValues),
+  };
+}
+
+function sanitizeCsvColumnOperation(value: unknown): CsvColumnOperation | null {
+  if (!value || typeof value !== "object") return null;
+  const candidate = value as Record<string, unknown>;
+  const separator = typeof candidate.separator === "string" ? candidate.separator : " ";
+  if (candidate.kind === "split" && typeof candidate.column === "string") {
+    return { kind: "split", column: candidate.column, separator, into: readStringList(candidate.into), keepSource: candidate.keepSource === true };
+  }
+  if (candidate.kind === "merge" && typeof candidate.into === "string") {
+    return {
+      kind: "merge",
+      columns: readStringList(candidate.columns),
+      separator,
+      into: candidate.into,
+      keepSources: candidate.keepSources === true,
+    };
+  }
+  if (candidate.kind === "derive" && typeof candidate.into === "string" && typeof candidate.template === "string") {
+    return { kind: "derive", into: candidate.into, template: candidate.template };
+  }
+  return null;
+}
+
+export function createCsvMappingRecipe(input: {
+  name: string;
+  preset?: CsvCleanupPresetId | null;
+  cleanupOptions: CsvCleanupOptions;
+  targetHeaders: string[];
+  mapping: Record<string, string>;
+  outputDelimiter?: CsvDelimiter;
+}): CsvMappingRecipe {
+  const now = new Date().toISOString();
+  return {
+    id: `recipe-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name: input.name.trim() || "Untitled recipe",
+    preset: input.preset ?? null,
+    cleanupOptions: { ...input.cleanupOptions },
+    targetHeaders: [...input.targetHeaders],
+    mapping: Object.fromEntries(input.targetHeaders.map((header) => [header, input.mapping[header] ?? ""])),
+    outputDelimiter: input.outputDelimiter ?? ",",
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+function sanitizeCsvMappingRecipe(value: unknown): CsvMappingRecipe | null {
+  if (!value || typeof value !== "object") return null;
+  const candidate = value as Partial<CsvMappingRecipe>;
+  if (typeof candidate.name !== "string" || !candidate.cleanupOptions || typeof candidate.cleanupOptions !== "object") {
+    return null;
+  }
+  const defaults = applyCleanupPreset("normalize-ecommerce-exports");
+  const rawOptions = candidate.cleanupOptions as Partial<CsvCleanupOptions>;
+  const readFlag = (key: CsvCleanupFlag) => (typeof rawOptions[key] === "boolean" ? (rawOptions[key] as boolean) : defaults[key]);
+  const targetHeaders = Array.isArray(candidate.targetHeaders)
+    ? candidate.targetHeaders.filter((header): header is string => typeof header === "string" && header.trim().length > 0)
+    : [];
+  const rawMapping = candidate.mapping && typeof candidate.mapping === "object" ? candidate.mapping : {};
+
+  return {
+    id: typeof candidate.id === "string" && candidate.id ? candidate.id : `recipe-${Math.random().toString(36).slice(2, 10)}`,
+    name: candidate.name.trim() || "Untitled recipe",
+    preset: CSV_RECIPE_PRESETS.includes(candidate.preset as CsvCleanupPresetId) ? (candidate.preset as CsvCleanupPresetId) : null,
+    cleanupOptions: {
+      trimCells: readFlag("trimCells"),
+      collapseWhitespace: readFlag("collapseWhitespace"),
+      normalizeHeaders: readFlag("normalizeHeaders"),
+      fillMissingHeaders: readFlag("fillMissingHeaders"),
+      dropEmptyRows: readFlag("dropEmptyRows"),
+      dedupeRows: readFlag("dedupeRows"),
+      textCase: CSV_TEXT_CASES.includes(rawOptions.textCase as CsvTextCase) ? (rawOptions.textCase as CsvTextCase) : defaults.textCase,
+      normalizeDetectedTypes: rawOptions.normalizeDetectedTypes === true,
+      dateOrder: CSV_DATE_ORDERS.includes(rawOptions.dateOrder as CsvDateOrder) ? (rawOptions.dateOrder as CsvDateOrder) : "auto",
+      decimalSeparator: CSV_DECIMAL_SEPARATORS.includes(rawOptions.decimalSeparator as CsvDecimalSeparator)
+        ? (rawOptions.decimalSeparator as CsvDecimalSeparator)
+        : "auto",
+      columnOperations: Array.isArray(rawOptions.columnOperations)
+        ? rawOptions.columnOperations.map(sanitizeCsvColumnOperation).filter((operation): operation is CsvColumnOperation => operation !== null)
+        : [],
+      columnRules: Array.isArray(rawOptions.columnRules)
+        ? rawOptions.columnRules.map(sanitizeCsvColumnRule).filter((rule): rule is CsvColumnRule => rule !== null)
+        : [],
+    },
+    targetHeaders,
+    mapping: Object.fromEntries(
+      targetHeaders.map((header) => {
+        const source = (rawMapping as Record<string, unknown>)[header];
+        return [header, typeof source === "string" ? source : ""];
+      }),
+    ),
+    outputDelimiter: CSV_DELIMITERS.includes(candidate.outputDelimiter as CsvDelimiter)
+      ? (candidate.outputDelimiter as CsvDelimiter)
+      : ",",
+    createdAt: typeof candidate.createdAt === "string" ? candidate.createdAt : new Date().toISOString(),
+    updatedAt: typeof candidate.updatedAt === "string" ? candidate.updatedAt : new Date().toISOString(),
+  };
+}
+
+export function serializeCsvMappingRecipes(recipes: CsvMappingRecipe[]): string {
+  return JSON.stringify({ kind: "utiliora-csv-recipes", version: 1, recipes }, null, 2);
+}
+
+export function parseCsvMappingRecipes(raw: string): CsvMappingRecipe[] {
+  const parsed = JSON.parse(raw) as unknown;
+  const list = Array.isArray(parsed)
+    ? parsed
+    : parsed && typeof parsed === "object" && Array.isArray((parsed as { recipes?: unknown }).recipes)
+      ? (parsed as { recipes: unknown[] }).recipes
+      : [parsed];
+  return list.map(sanitizeCsvMappingRecipe).filter((recipe): recipe is CsvMappingRecipe => recipe !== null);
+}
+
+function resolveRecipeSourceHeader(headers: string[], wanted: string): string {
+  if (!wanted) return "";
+  if (headers.includes(wanted)) return wanted;
+  const wantedKey = makeHeaderKey(wanted);
+  return headers.find((header) => makeHeaderKey(header) === wantedKey) ?? "";
+}
+
+function buildRecipeOutputFileName(fileName: string): string {
+  const stem = fileName.replace(/\.[^.]+$/, "").trim() || "file";
+  return `${stem}-normalized.csv`;
+}
+
+export function applyCsvMappingRecipe(raw: string, fileName: string, recipe: CsvMappingRecipe): CsvRecipeFileResult {
+  const outputFileName = buildRecipeOutputFileName(fileName);
+  const emptyReport: CsvRecipeFileReport = {
+    fileName,
+    outputFileName,
+    status: "error",
+    message: "",
+    delimiter: null,
+    sourceRows: 0,
+    outputRows: 0,
+    outputColumns: 0,
+    duplicateRowsRemoved: 0,
+    emptyRowsRemoved: 0,
+    changedCells: 0,
+    validationIssues: 0,
+    invalidRows: 0,
+    autoMappedTargets: [],
+    unmappedTargets: [],
+  };
+
+  const normalized = normalizeLineEndings(raw);
+  if (!normalized.trim()) {
+    return { report: { ...emptyReport, message: "File is empty." }, outputText: "" };
+  }
+
+  const dataset = parseDelimitedText(normalized, detectCsvDelimiter(normalized));
+  if (!dataset.headers.length) {
+    return { report: { ...emptyReport, message: "No header row detected." }, outputText: "" };
+  }
+
+  const cleaned = cleanupCsvDataset(dataset, recipe.cleanupOptions);
+  const baseReport: CsvRecipeFileReport = {
+    ...emptyReport,
+    delimiter: dataset.delimiter,
+    sourceRows: dataset.rows.length,
+    duplicateRowsRemoved: cleaned.duplicateRowsRemoved,
+    emptyRowsRemoved: cleaned.emptyRowsRemoved,
+    changedCells: cleaned.changedCells,
+    validationIssues: cleaned.validation.issueCount,
+    invalidRows: cleaned.validation.invalidRows,
+  };
+  const validationNote = cleaned.validation.issueCount
+    ? `${cleaned.validation.issueCount} validation issue${cleaned.validation.issueCount === 1 ? "" : "s"} in ${cleaned.validation.invalidRows} row${cleaned.validation.invalidRows === 1 ? "" : "s"}`
+    : "";
+
+  if (!recipe.targetHeaders.length) {
+    return {
+      report: {
+        ...baseReport,
+        status: validationNote ? "warning" : "ok",
+        message: validationNote ? `Cleaned without schema mapping; ${validationNote}.` : "Cleaned without schema mapping.",
+        outputRows: cleaned.rows.length,
+        outputColumns: cleaned.headers.length,
+      },
+      outputText: buildCsvText(cleaned.headers, cleaned.rows, recipe.outputDelimiter),
+    };
+  }
+
+  const suggestions = suggestColumnMappings(cleaned.headers, recipe.targetHeaders);
+  const autoMappedTargets: string[] = [];
+  const unmappedTargets: string[] = [];
+  const mapping: Record<string, string> = {};
+  recipe.targetHeaders.forEach((targetHeader) => {
+    const saved = recipe.mapping[targetHeader] ?? "";
+    const resolved = resolveRecipeSourceHeader(cleaned.headers, saved);
+    if (resolved) {
+      mapping[targetHeader] = resolved;
+      return;
+    }
+    const suggestion = suggestions.find((entry) => entry.targetHeader === targetHeader);
+    if (suggestion?.sourceHeader && suggestion.confidence !== "low") {
+      mapping[targetHeader] = suggestion.sourceHeader;
+      autoMappedTargets.push(targetHeader);
+      return;
+    }
+    mapping[targetHeader] = "";
+    unmappedTargets.push(targetHeader);
+  });
+
+  const rows = mapCsvRows(cleaned.headers, cleaned.rows, mapping, recipe.targetHeaders);
+  const notes: string[] = [];
+  if (autoMappedTargets.length) notes.push(`auto-mapped ${autoMappedTargets.join(", ")}`);
+  if (unmappedTargets.length) notes.push(`left blank ${unmappedTargets.join(", ")}`);
+  if (validationNote) notes.push(validationNote);
+
+  return {
+    report: {
+      ...baseReport,
+      status: unmappedTargets.length === recipe.targetHeaders.length ? "error" : notes.length ? "warning" : "ok",
+      message: notes.length ? `Mapped with changes: ${notes.join("; ")}.` : "Mapped with saved recipe.",
+      outputRows: rows.length,
+      outputColumns: recipe.targetHeaders.length,
+      autoMappedTargets,
+      unmappedTargets,
+    },
+    outputText: buildCsvText(recipe.targetHeaders, rows, recipe.outputDelimiter),
+  };
+}
+
+export function buildCsvRecipeReportCsv(reports: CsvRecipeFileReport[]): string {
+  return buildCsvText(
+    [
+      "file",
+      "output_file",
+      "status",
+      "message",
+      "source_rows",
+      "output_rows",
+      "output_columns",
+      "duplicates_removed",
+      "empty_rows_removed",
+      "changed_cells",
+      "validation_issues",
+      "invalid_rows",
+      "auto_mapped",
+      "unmapped",
+    ],
+    reports.map((report) => [
+      report.fileName,
+      report.status === "error" ? "" : report.outputFileName,
+      report.status,
+      report.message,
+      String(report.sourceRows),
+      String(report.outputRows),
+      String(report.outputColumns),
+      String(report.duplicateRowsRemoved),
+      String(report.emptyRowsRemoved),
+      String(report.changedCells),
+      String(report.validationIssues),
+      String(report.invalidRows),
+      report.autoMappedTargets.join(" | "),
+      report.unmappedTargets.join(" | "),
+    ]),
+  );
+}
+
+export function buildCsvValidationIssuesCsv(issues: CsvValidationIssue[]): string {
+  return buildCsvText(
+    ["row", "column", "rule", "value", "message"],
+    issues.map((issue) => [String(issue.row), issue.column, issue.rule, issue.value, issue.message]),
+  );
+}
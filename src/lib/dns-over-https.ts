@@ -0,0 +1,238 @@
+export type DnsResolverProvider = "google" | "cloudflare";
+
+interface DnsWireRecord {
+  name?: string;
+  type?: number;
+  TTL?: number;
+  data?: string;
+}
+
+interface DnsWirePayload {
+  Status?: number;
+  TC?: boolean;
+  RD?: boolean;
+  RA?: boolean;
+  AD?: boolean;
+  CD?: boolean;
+  Comment?: string;
+  Answer?: DnsWireRecord[];
+  Authority?: DnsWireRecord[];
+}
+
+export interface DnsAnswerRow {
+  name: string;
+  type: string;
+  ttl: number | null;
+  data: string;
+}
+
+export interface DnsTypeLookupResult {
+  ok: boolean;
+  status: number;
+  rd: boolean;
+  ra: boolean;
+  ad: boolean;
+  tc: boolean;
+  comment?: string;
+  responseTimeMs: number;
+  answers: DnsAnswerRow[];
+  authorities: DnsAnswerRow[];
+  error?: string;
+}
+
+const TYPE_CODE_TO_NAME: Record<number, string> = {
+  1: "A",
+  2: "NS",
+  5: "CNAME",
+  6: "SOA",
+  12: "PTR",
+  15: "MX",
+  16: "TXT",
+  28: "AAAA",
+  33: "SRV",
+  43: "DS",
+  46: "RRSIG",
+  47: "NSEC",
+  48: "DNSKEY",
+  50: "NSEC3",
+  52: "TLSA",
+  64: "SVCB",
+  65: "HTTPS",
+  257: "CAA",
+};
+
+export function normalizeHostToken(value: string): string {
+  return value.trim().replace(/\.$/, "");
+}
+
+export function normalizeDomainInput(rawValue: string | null): string | null {
+  if (!rawValue) return null;
+  const trimmed = rawValue.trim();
+  if (!trimmed) return null;
+
+  let candidate = trimmed;
+  if (/^https?:\/\//i.test(candidate)) {
+    try {
+      candidate = new URL(candidate).hostname;
+    } catch {
+      return null;
+    }
+  } else {
+    candidate = candidate.split("/")[0] ?? candidate;
+  }
+
+  const normalized = normalizeHostToken(candidate.toLowerCase());
+  if (!normalized || normalized.length > 253) return null;
+  if (!normalized.includes(".")) return null;
+
+  const labels = normalized.split(".");
+  const valid = labels.every(
+    (label) =>
+      label.length > 0 &&
+      label.length <= 63 &&
+      /^_?[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/i.test(label),
+  );
+  return valid ? normalized : null;
+}
+
+function expandIpv6(value: string): number[] | null {
+  const address = value.toLowerCase().replace(/^\[|\]$/g, "").split("%")[0];
+  const embedded = address.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  let text = address;
+  if (embedded) {
+    const octets = embedded[2].split(".").map(Number);
+    if (octets.some((octet) => octet > 255)) return null;
+    text = `${embedded[1]}${((octets[0] << 8) | octets[1]).toString(16)}:${((octets[2] << 8) | octets[3]).toString(16)}`;
+  }
+  if ((text.match(/::/g) ?? []).length > 1) return null;
+  const [head, tail] = text.includes("::") ? text.split("::") : [text, null];
+  const headParts = head ? head.split(":") : [];
+  const tailParts = tail ? tail.split(":") : [];
+  const missing = 8 - headParts.length - tailParts.length;
+  if (tail === null ? missing !== 0 : missing < 1) return null;
+  const parts = [...headParts, ...new Array<string>(tail === null ? 0 : missing).fill("0"), ...tailParts];
+  if (parts.some((part) => !/^[0-9a-f]{1,4}$/.test(part))) return null;
+  return parts.map((part) => Number.parseInt(part, 16));
+}
+
+export function getReverseDnsName(value: string): string | null {
+  const trimmed = value.trim();
+  const ipv4 = trimmed.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+  if (ipv4) {
+    const octets = ipv4.slice(1).map(Number);
+    return octets.every((octet) => octet <= 255) ? `${octets.reverse().join(".")}.in-addr.arpa` : null;
+  }
+  if (!trimmed.includes(":")) return null;
+  const groups = expandIpv6(trimmed);
+  if (!groups) return null;
+  const nibbles = groups.map((group) => group.toString(16).padStart(4, "0")).join("").split("");
+  return `${nibbles.reverse().join(".")}.ip6.arpa`;
+}
+
+export function parseResolver(rawResolver: string | null): DnsResolverProvider {
+  return rawResolver?.toLowerCase() === "cloudflare" ? "cloudflare" : "google";
+}
+
+export function parseMxHost(recordData: string): string {
+  const parts = recordData.trim().split(/\s+/);
+  if (parts.length < 2) return normalizeHostToken(recordData);
+  return normalizeHostToken(parts.slice(1).join(" "));
+}
+
+export function parseTxtRecordData(recordData: string): string {
+  const trimmed = recordData.trim();
+  if (!trimmed.startsWith('"')) return trimmed;
+  const segments = [...trimmed.matchAll(/"((?:[^"\\]|\\.)*)"/g)].map((match) => match[1]);
+  return segments.join("").replace(/\\(["\\])/g, "$1");
+}
+
+function mapRecord(record: DnsWireRecord): DnsAnswerRow | null {
+  const data = (record.data ?? "").trim();
+  if (!data) return null;
+  return {
+    name: normalizeHostToken(record.name ?? ""),
+    type: TYPE_CODE_TO_NAME[record.type ?? -1] ?? String(record.type ?? "UNKNOWN"),
+    ttl: Number.isFinite(record.TTL) ? Number(record.TTL) : null,
+    data,
+  };
+}
+
+export async function queryDns(
+  domain: string,
+  type: string,
+  resolver: DnsResolverProvider,
+  timeoutMs: number,
+): Promise<DnsTypeLookupResult> {
+  const startedAt = Date.now();
+  const abort = new AbortController();
+  const timeout = setTimeout(() => abort.abort(), timeoutMs);
+
+  try {
+    const requestUrl =
+      resolver === "cloudflare"
+        ? `https://cloudflare-dns.com/dns-query?name=${encodeURIComponent(domain)}&type=${encodeURIComponent(type)}&do=1`
+        : `https://dns.google/resolve?name=${encodeURIComponent(domain)}&type=${encodeURIComponent(type)}&cd=0&do=1`;
+
+    const response = await fetch(requestUrl, {
+      cache: "no-store",
+      signal: abort.signal,
+      headers: resolver === "cloudflare" ? { Accept: "application/dns-json" } : undefined,
+    });
+
+    if (!response.ok) {
+      return {
+        ok: false,
+        status: response.status,
+        rd: false,
+        ra: false,
+        ad: false,
+        tc: false,
+        responseTimeMs: Date.now() - startedAt,
+        answers: [],
+        authorities: [],
+        error: `Resolver returned status ${response.status}.`,
+      };
+    }
+
+    const payload = (await response.json()) as DnsWirePayload;
+    const answers = (payload.Answer ?? []).map(mapRecord).filter((row): row is DnsAnswerRow => Boolean(row));
+    const authorities = (payload.Authority ?? [])
+      .map(mapRecord)
+      .filter((row): row is DnsAnswerRow => Boolean(row));
+    const status = Number.isInteger(payload.Status) ? Number(payload.Status) : -1;
+
+    return {
+      ok: status === 0,
+      status,
+      rd: Boolean(payload.RD),
+      ra: Boolean(payload.RA),
+      ad: Boolean(payload.AD),
+      tc: Boolean(payload.TC),
+      comment: typeof payload.Comment === "string" ? payload.Comment : undefined,
+      responseTimeMs: Date.now() - startedAt,
+      answers,
+      authorities,
+    };
+  } catch (error) {
+    const aborted =
+      typeof error === "object" &&
+      error !== null &&
+      "name" in error &&
+      (error as { name?: string }).name === "AbortError";
+
+    return {
+      ok: false,
+      status: -1,
+      rd: false,
+      ra: false,
+      ad: false,
+      tc: false,
+      responseTimeMs: Date.now() - startedAt,
+      answers: [],
+      authorities: [],
+      error: aborted ? `Resolver timeout after ${timeoutMs} ms.` : "Resolver request failed.",
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
@@ -0,0 +1,165 @@
+export interface DnsSnapshotRecord {
+  type: string;
+  name: string;
+  ttl: number | null;
+  data: string;
+}
+
+export interface DnsSnapshot {
+  id: string;
+  label: string;
+  domain: string;
+  resolver: string;
+  takenAt: string;
+  types: string[];
+  records: DnsSnapshotRecord[];
+}
+
+export type DnsSnapshotChange = "added" | "removed" | "ttl";
+
+export interface DnsSnapshotDiffRow {
+  change: DnsSnapshotChange;
+  type: string;
+  name: string;
+  data: string;
+  beforeTtl: number | null;
+  afterTtl: number | null;
+}
+
+export interface DnsSnapshotDiff {
+  rows: DnsSnapshotDiffRow[];
+  added: number;
+  removed: number;
+  ttlChanged: number;
+  unchanged: number;
+  comparedTypes: string[];
+  skippedTypes: string[];
+}
+
+export interface DnsSnapshotDiffOptions {
+  ignoreTypes?: string[];
+  ignoreTtl?: boolean;
+}
+
+function normalizeRecordName(value: string): string {
+  return value.trim().toLowerCase().replace(/\.$/, "");
+}
+
+function normalizeRecordData(type: string, value: string): string {
+  const collapsed = value.trim().replace(/\s+/g, " ");
+  return ["TXT", "CAA"].includes(type) ? collapsed : collapsed.toLowerCase().replace(/\.$/, "");
+}
+
+function getRecordKey(record: DnsSnapshotRecord): string {
+  return `${record.type}|${normalizeRecordName(record.name)}|${normalizeRecordData(record.type, record.data)}`;
+}
+
+export function createDnsSnapshot(input: {
+  id: string;
+  label?: string;
+  domain: string;
+  resolver: string;
+  types: string[];
+  results: Record<string, { answers: DnsSnapshotRecord[] } | undefined>;
+  takenAt?: Date;
+}): DnsSnapshot {
+  const records = new Map<string, DnsSnapshotRecord>();
+  Object.values(input.results).forEach((bucket) => {
+    bucket?.answers.forEach((answer) => {
+      const record = { type: answer.type, name: normalizeRecordName(answer.name), ttl: answer.ttl, data: answer.data };
+      records.set(getRecordKey(record), record);
+    });
+  });
+  const takenAt = input.takenAt ?? new Date();
+  return {
+    id: input.id,
+    label: input.label?.trim() || `${input.domain} ${takenAt.toISOString().slice(0, 16).replace("T", " ")}`,
+    domain: input.domain,
+    resolver: input.resolver,
+    takenAt: takenAt.toISOString(),
+    types: [...input.types],
+    records: [...records.values()].sort(
+      (left, right) => left.type.localeCompare(right.type) || left.name.localeCompare(right.name) || left.data.localeCompare(right.data),
+    ),
+  };
+}
+
+export function diffDnsSnapshots(
+  before: DnsSnapshot,
+  after: DnsSnapshot,
+  options: DnsSnapshotDiffOptions = {},
+): DnsSnapshotDiff {
+  const ignored = new Set((options.ignoreTypes ?? []).map((type) => type.toUpperCase()));
+  const comparedTypes = before.types.filter((type) => after.types.includes(type) && !ignored.has(type));
+  const skippedTypes = [...new Set([...before.types, ...after.types])].filter(
+    (type) => !comparedTypes.includes(type) && !ignored.has(type),
+  );
+  const include = (record: DnsSnapshotRecord) =>
+    !ignored.has(record.type.toUpperCase()) && !skippedTypes.includes(record.type);
+  const beforeMap = new Map(before.records.filter(include).map((record) => [getRecordKey(record), record]));
+  const afterMap = new Map(after.records.filter(include).map((record) => [getRecordKey(record), record]));
+  const rows: DnsSnapshotDiffRow[] = [];
+  let unchanged = 0;
+
+  beforeMap.forEach((record, key) => {
+    const next = afterMap.get(key);
+    if (!next) {
+      rows.push({ change: "removed", type: record.type, name: record.name, data: record.data, beforeTtl: record.ttl, afterTtl: null });
+    } else if (!options.ignoreTtl && record.ttl !== next.ttl) {
+      rows.push({ change: "ttl", type: record.type, name: record.name, data: record.data, beforeTtl: record.ttl, afterTtl: next.ttl });
+    } else {
+      unchanged += 1;
+    }
+  });
+  afterMap.forEach((record, key) => {
+    if (!beforeMap.has(key)) {
+      rows.push({ change: "added", type: record.type, name: record.name, data: record.data, beforeTtl: null, afterTtl: record.ttl });
+    }
+  });
+
+  rows.sort((left, right) => left.type.localeCompare(right.type) || left.name.localeCompare(right.name) || left.change.localeCompare(right.change));
+  return {
+    rows,
+    added: rows.filter((row) => row.change === "added").length,
+    removed: rows.filter((row) => row.change === "removed").length,
+    ttlChanged: rows.filter((row) => row.change === "ttl").length,
+    unchanged,
+    comparedTypes,
+    skippedTypes,
+  };
+}
+
+export function parseDnsSnapshot(raw: string): DnsSnapshot {
+  let parsed: Partial<DnsSnapshot>;
+  try {
+    parsed = JSON.parse(raw) as Partial<DnsSnapshot>;
+  } catch {
+    throw new Error("Snapshot file is not valid JSON.");
+  }
+  if (
+    !parsed ||
+    typeof parsed.domain !== "string" ||
+    typeof parsed.takenAt !== "string" ||
+    !Array.isArray(parsed.types) ||
+    !Array.isArray(parsed.records)
+  ) {
+    throw new Error("File is not a DNS snapshot export.");
+  }
+  const records = parsed.records.filter(
+    (record): record is DnsSnapshotRecord =>
+      Boolean(record) &&
+      typeof record.type === "string" &&
+      typeof record.name === "string" &&
+      typeof record.data === "string" &&
+      (record.ttl === null || typeof record.ttl === "number"),
+  );
+  return {
+    id: typeof parsed.id === "string" && parsed.id ? parsed.id : `${parsed.domain}-${parsed.takenAt}`,
+    label: typeof parsed.label === "string" && parsed.label ? parsed.label : `${parsed.domain} ${parsed.takenAt}`,
+    domain: parsed.domain,
+    resolver: typeof parsed.resolver === "string" ? parsed.resolver : "",
+    takenAt: parsed.takenAt,
+    types: parsed.types.filter((type): type is string => typeof type === "string"),
+    records,
+  };
+}
@@ -0,0 +1,530 @@
+import type { DnsAnswerRow, DnsTypeLookupResult } from "@/lib/dns-over-https";
+
+export type DnssecStatus = "secure" | "insecure" | "bogus" | "indeterminate";
+export type DnssecSignatureStatus = "valid" | "expiring" | "expired" | "not-yet-valid" | "unknown";
+
+export interface DnssecKey {
+  keyTag: number;
+  flags: number;
+  algorithm: number;
+  algorithmName: string;
+  role: "KSK" | "ZSK" | "other";
+  revoked: boolean;
+}
+
+export interface DnssecDelegationSigner {
+  keyTag: number;
+  algorithm: number;
+  digestType: number;
+  digest: string;
+  matched: boolean | null;
+}
+
+export interface DnssecSignature {
+  owner: string;
+  typeCovered: string;
+  algorithm: number;
+  keyTag: number;
+  signer: string;
+  inception: string | null;
+  expiration: string | null;
+  hoursRemaining: number | null;
+  status: DnssecSignatureStatus;
+}
+
+export interface DnssecZoneLink {
+  zone: string;
+  status: DnssecStatus;
+  keys: DnssecKey[];
+  delegationSigners: DnssecDelegationSigner[];
+  signatures: DnssecSignature[];
+  messages: string[];
+}
+
+export interface DnssecChainReport {
+  domain: string;
+  status: DnssecStatus;
+  zones: DnssecZoneLink[];
+  recordSignatures: DnssecSignature[];
+  warnings: string[];
+}
+
+export type DnssecLookup = (name: string, type: "DNSKEY" | "DS") => Promise<DnsTypeLookupResult>;
+
+export const ROOT_TRUST_ANCHORS: Array<Omit<DnssecDelegationSigner, "matched">> = [
+  { keyTag: 20326, algorithm: 8, digestType: 2, digest: "e06d44b80b8f1d39a95c0b0d7c65d08458e880409bbc683457104237c7f8ec8d" },
+  { keyTag: 38696, algorithm: 8, digestType: 2, digest: "683d2d0acb8c9b712a1948b27f741219298d0a450d612c483af444a4c0fb2b16" },
+];
+
+export const MAX_DNSSEC_ZONE_DEPTH = 8;
+
+const SIGNATURE_WARNING_HOURS = 7 * 24;
+
+const DNSSEC_ALGORITHM_NAMES: Record<number, string> = {
+  5: "RSASHA1",
+  7: "RSASHA1-NSEC3-SHA1",
+  8: "RSASHA256",
+  10: "RSASHA512",
+  13: "ECDSAP256SHA256",
+  14: "ECDSAP384SHA384",
+  15: "ED25519",
+  16: "ED448",
+};
+
+const RRSIG_VERIFY_ALGORITHMS: Record<number, { kind: "rsa" | "ecdsa"; hash: string; curve?: string }> = {
+  8: { kind: "rsa", hash: "SHA-256" },
+  10: { kind: "rsa", hash: "SHA-512" },
+  13: { kind: "ecdsa", hash: "SHA-256", curve: "P-256" },
+  14: { kind: "ecdsa", hash: "SHA-384", curve: "P-384" },
+};
+
+const RR_TYPE_CODES: Record<string, number> = { DS: 43, DNSKEY: 48 };
+
+type SignedKey = DnssecKey & { rdata: Uint8Array };
+type RrsetVerification = "valid" | "invalid" | "missing" | "unsupported";
+
+const DS_DIGEST_ALGORITHMS: Record<number, string> = {
+  1: "SHA-1",
+  2: "SHA-256",
+  4: "SHA-384",
+};
+
+function normalizeZoneName(value: string): string {
+  const trimmed = value.trim().toLowerCase().replace(/\.$/, "");
+  return trimmed || ".";
+}
+
+function decodeBase64(value: string): Uint8Array<ArrayBuffer> | null {
+  try {
+    const binary = atob(value.replace(/\s+/g, ""));
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+function toHex(bytes: ArrayBuffer): string {
+  return [...new Uint8Array(bytes)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function encodeOwnerName(zone: string): Uint8Array {
+  const labels = zone === "." ? [] : zone.split(".");
+  const bytes: number[] = [];
+  labels.forEach((label) => {
+    bytes.push(label.length, ...[...label].map((char) => char.charCodeAt(0)));
+  });
+  bytes.push(0);
+  return Uint8Array.from(bytes);
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach((part) => {
+    output.set(part, offset);
+    offset += part.length;
+  });
+  return output;
+}
+
+function compareBytes(left: Uint8Array, right: Uint8Array): number {
+  for (let index = 0; index < Math.min(left.length, right.length); index += 1) {
+    if (left[index] !== right[index]) return left[index] - right[index];
+  }
+  return left.length - right.length;
+}
+
+function buildDnskeyRdata(flags: number, protocol: number, algorithm: number, publicKey: Uint8Array): Uint8Array {
+  const rdata = new Uint8Array(4 + publicKey.length);
+  rdata[0] = flags >> 8;
+  rdata[1] = flags & 0xff;
+  rdata[2] = protocol;
+  rdata[3] = algorithm;
+  rdata.set(publicKey, 4);
+  return rdata;
+}
+
+export function computeKeyTag(rdata: Uint8Array): number {
+  let accumulator = 0;
+  rdata.forEach((byte, index) => {
+    accumulator += index & 1 ? byte : byte << 8;
+  });
+  accumulator += (accumulator >> 16) & 0xffff;
+  return accumulator & 0xffff;
+}
+
+export function getDnssecAlgorithmName(algorithm: number): string {
+  return DNSSEC_ALGORITHM_NAMES[algorithm] ?? `Algorithm ${algorithm}`;
+}
+
+function parseDnskeyRecord(data: string): (DnssecKey & { rdata: Uint8Array }) | null {
+  const [flagsText, protocolText, algorithmText, ...keyParts] = data.trim().split(/\s+/);
+  const flags = Number.parseInt(flagsText ?? "", 10);
+  const protocol = Number.parseInt(protocolText ?? "", 10);
+  const algorithm = Number.parseInt(algorithmText ?? "", 10);
+  const publicKey = decodeBase64(keyParts.join(""));
+  if (!Number.isFinite(flags) || !Number.isFinite(protocol) || !Number.isFinite(algorithm) || !publicKey) return null;
+  const rdata = buildDnskeyRdata(flags, protocol, algorithm, publicKey);
+  return {
+    keyTag: computeKeyTag(rdata),
+    flags,
+    algorithm,
+    algorithmName: getDnssecAlgorithmName(algorithm),
+    role: flags & 0x0100 ? (flags & 0x0001 ? "KSK" : "ZSK") : "other",
+    revoked: Boolean(flags & 0x0080),
+    rdata,
+  };
+}
+
+function parseDsRecord(data: string): DnssecDelegationSigner | null {
+  const [keyTagText, algorithmText, digestTypeText, ...digestParts] = data.trim().split(/\s+/);
+  const keyTag = Number.parseInt(keyTagText ?? "", 10);
+  const algorithm = Number.parseInt(algorithmText ?? "", 10);
+  const digestType = Number.parseInt(digestTypeText ?? "", 10);
+  const digest = digestParts.join("").toLowerCase();
+  if (!Number.isFinite(keyTag) || !Number.isFinite(algorithm) || !Number.isFinite(digestType) || !digest) return null;
+  return { keyTag, algorithm, digestType, digest, matched: null };
+}
+
+function buildDsRdata(ds: DnssecDelegationSigner): Uint8Array {
+  const digest = (ds.digest.match(/[0-9a-f]{2}/g) ?? []).map((pair) => Number.parseInt(pair, 16));
+  return Uint8Array.from([ds.keyTag >> 8, ds.keyTag & 0xff, ds.algorithm, ds.digestType, ...digest]);
+}
+
+function parseSignatureTime(value: string): Date | null {
+  if (/^\d{14}$/.test(value)) {
+    const iso = `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}T${value.slice(8, 10)}:${value.slice(10, 12)}:${value.slice(12, 14)}Z`;
+    const parsed = new Date(iso);
+    return Number.isNaN(parsed.getTime()) ? null : parsed;
+  }
+  if (/^\d{1,10}$/.test(value)) return new Date(Number(value) * 1000);
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+export function parseRrsigRecord(record: DnsAnswerRow, now = Date.now()): DnssecSignature | null {
+  const parts = record.data.trim().split(/\s+/);
+  if (parts.length < 8) return null;
+  const [typeCovered, algorithmText, , , expirationText, inceptionText, keyTagText, signer] = parts;
+  const expiration = parseSignatureTime(expirationText);
+  const inception = parseSignatureTime(inceptionText);
+  const hoursRemaining = expiration ? Math.floor((expiration.getTime() - now) / 3_600_000) : null;
+  let status: DnssecSignatureStatus = "unknown";
+  if (expiration && inception) {
+    if (inception.getTime() > now) status = "not-yet-valid";
+    else if (expiration.getTime() <= now) status = "expired";
+    else if ((hoursRemaining ?? 0) < SIGNATURE_WARNING_HOURS) status = "expiring";
+    else status = "valid";
+  }
+  return {
+    owner: normalizeZoneName(record.name),
+    typeCovered: /^\d+$/.test(typeCovered) ? typeCovered : typeCovered.toUpperCase(),
+    algorithm: Number.parseInt(algorithmText, 10),
+    keyTag: Number.parseInt(keyTagText, 10),
+    signer: normalizeZoneName(signer),
+    inception: inception?.toISOString() ?? null,
+    expiration: expiration?.toISOString() ?? null,
+    hoursRemaining,
+    status,
+  };
+}
+
+async function importDnskey(key: SignedKey): Promise<CryptoKey | null> {
+  const algorithm = RRSIG_VERIFY_ALGORITHMS[key.algorithm];
+  const publicKey = key.rdata.slice(4);
+  if (!algorithm || !publicKey.length) return null;
+  try {
+    if (algorithm.kind === "ecdsa") {
+      return await crypto.subtle.importKey(
+        "raw",
+        concatBytes([Uint8Array.of(4), publicKey]),
+        { name: "ECDSA", namedCurve: algorithm.curve },
+        false,
+        ["verify"],
+      );
+    }
+    const exponentLength = publicKey[0] || (publicKey[1] << 8) | publicKey[2];
+    const exponentStart = publicKey[0] ? 1 : 3;
+    const exponent = publicKey.slice(exponentStart, exponentStart + exponentLength);
+    let modulus = publicKey.slice(exponentStart + exponentLength);
+    while (modulus.length > 1 && modulus[0] === 0) modulus = modulus.slice(1);
+    return await crypto.subtle.importKey(
+      "jwk",
+      { kty: "RSA", n: toBase64Url(modulus), e: toBase64Url(exponent), ext: true },
+      { name: "RSASSA-PKCS1-v1_5", hash: algorithm.hash },
+      false,
+      ["verify"],
+    );
+  } catch {
+    return null;
+  }
+}
+
+async function verifyRrsetSignatures(
+  owner: string,
+  type: "DNSKEY" | "DS",
+  rdatas: Uint8Array[],
+  answers: DnsAnswerRow[],
+  signer: string,
+  signingKeys: SignedKey[],
+): Promise<RrsetVerification> {
+  const sorted = rdatas
+    .slice()
+    .sort(compareBytes)
+    .filter((rdata, index, list) => index === 0 || compareBytes(rdata, list[index - 1]) !== 0);
+  let result: RrsetVerification = "missing";
+
+  for (const answer of answers) {
+    if (answer.type !== "RRSIG" || normalizeZoneName(answer.name) !== owner) continue;
+    const [typeCovered, algorithmText, labelsText, ttlText, expirationText, inceptionText, keyTagText, signerName, ...signatureParts] =
+      answer.data.trim().split(/\s+/);
+    const typeCode = /^\d+$/.test(typeCovered ?? "") ? Number(typeCovered) : RR_TYPE_CODES[(typeCovered ?? "").toUpperCase()];
+    if (typeCode !== RR_TYPE_CODES[type] || normalizeZoneName(signerName ?? "") !== signer) continue;
+    const algorithm = Number.parseInt(algorithmText ?? "", 10);
+    const keyTag = Number.parseInt(keyTagText ?? "", 10);
+    const originalTtl = Number.parseInt(ttlText ?? "", 10);
+    const expiration = parseSignatureTime(expirationText ?? "");
+    const inception = parseSignatureTime(inceptionText ?? "");
+    const signature = decodeBase64(signatureParts.join(""));
+    if (!expiration || !inception || !signature || !Number.isFinite(originalTtl)) continue;
+    if (!RRSIG_VERIFY_ALGORITHMS[algorithm]) {
+      if (result === "missing") result = "unsupported";
+      continue;
+    }
+
+    for (const key of signingKeys.filter((entry) => entry.keyTag === keyTag && entry.algorithm === algorithm)) {
+      const cryptoKey = await importDnskey(key);
+      if (!cryptoKey) continue;
+      const header = new Uint8Array(18);
+      const view = new DataView(header.buffer);
+      view.setUint16(0, typeCode);
+      view.setUint8(2, algorithm);
+      view.setUint8(3, Number.parseInt(labelsText ?? "", 10));
+      view.setUint32(4, originalTtl);
+      view.setUint32(8, Math.floor(expiration.getTime() / 1000));
+      view.setUint32(12, Math.floor(inception.getTime() / 1000));
+      view.setUint16(16, keyTag);
+      const ownerName = encodeOwnerName(owner);
+      const records = sorted.map((rdata) => {
+        const fixed = new Uint8Array(10);
+        const fixedView = new DataView(fixed.buffer);
+        fixedView.setUint16(0, typeCode);
+        fixedView.setUint16(2, 1);
+        fixedView.setUint32(4, originalTtl);
+        fixedView.setUint16(8, rdata.length);
+        return concatBytes([ownerName, fixed, rdata]);
+      });
+      const signedData = concatBytes([header, encodeOwnerName(signer), ...records]);
+      const params =
+        RRSIG_VERIFY_ALGORITHMS[algorithm].kind === "ecdsa"
+          ? { name: "ECDSA", hash: RRSIG_VERIFY_ALGORITHMS[algorithm].hash }
+          : { name: "RSASSA-PKCS1-v1_5" };
+      if (await crypto.subtle.verify(params, cryptoKey, signature, signedData)) return "valid";
+    }
+    result = "invalid";
+  }
+  return result;
+}
+
+export function getZoneCandidates(domain: string): string[] {
+  const labels = normalizeZoneName(domain).split(".").filter(Boolean);
+  return [".", ...labels.map((_, index) => labels.slice(labels.length - index - 1).join("."))];
+}
+
+async function digestDnskey(zone: string, rdata: Uint8Array, digestType: number): Promise<string | null> {
+  const algorithm = DS_DIGEST_ALGORITHMS[digestType];
+  if (!algorithm) return null;
+  const owner = encodeOwnerName(zone);
+  const input = new Uint8Array(owner.length + rdata.length);
+  input.set(owner);
+  input.set(rdata, owner.length);
+  return toHex(await crypto.subtle.digest(algorithm, input));
+}
+
+export function describeSignature(signature: DnssecSignature): string {
+  if (signature.status === "expired") return `${signature.typeCovered} signature on ${signature.owner} expired ${signature.expiration}.`;
+  if (signature.status === "not-yet-valid") return `${signature.typeCovered} signature on ${signature.owner} is not valid until ${signature.inception}.`;
+  const days = Math.max(0, Math.floor((signature.hoursRemaining ?? 0) / 24));
+  return `${signature.typeCovered} signature on ${signature.owner} expires in ${days} day${days === 1 ? "" : "s"} (${signature.expiration}).`;
+}
+
+function isSignatureProblem(signature: DnssecSignature): boolean {
+  return signature.status === "expired" || signature.status === "not-yet-valid" || signature.status === "expiring";
+}
+
+export async function buildDnssecChain(
+  domain: string,
+  lookup: DnssecLookup,
+  recordAnswers: DnsAnswerRow[] = [],
+  now = Date.now(),
+): Promise<DnssecChainReport> {
+  const zones: DnssecZoneLink[] = [];
+  const warnings: string[] = [];
+  let parentZone = ".";
+  let parentKeys: SignedKey[] = [];
+  const candidates = getZoneCandidates(domain);
+  const truncated = candidates.length > MAX_DNSSEC_ZONE_DEPTH + 1;
+  if (truncated) {
+    warnings.push(`Only the top ${MAX_DNSSEC_ZONE_DEPTH} labels were walked; zones below them were not validated.`);
+  }
+
+  for (const candidate of candidates.slice(0, MAX_DNSSEC_ZONE_DEPTH + 1)) {
+    const [dnskeyLookup, dsLookup] = await Promise.all([
+      lookup(candidate, "DNSKEY"),
+      candidate === "." ? Promise.resolve(null) : lookup(candidate, "DS"),
+    ]);
+    const keys = dnskeyLookup.answers
+      .filter((answer) => answer.type === "DNSKEY" && normalizeZoneName(answer.name) === candidate)
+      .map((answer) => parseDnskeyRecord(answer.data))
+      .filter((key): key is SignedKey => Boolean(key));
+    const delegationSigners = (dsLookup?.answers ?? [])
+      .filter((answer) => answer.type === "DS" && normalizeZoneName(answer.name) === candidate)
+      .map((answer) => parseDsRecord(answer.data))
+      .filter((ds): ds is DnssecDelegationSigner => Boolean(ds));
+    const isZoneApex =
+      candidate === "." ||
+      keys.length > 0 ||
+      delegationSigners.length > 0 ||
+      dnskeyLookup.authorities.some((row) => row.type === "SOA" && normalizeZoneName(row.name) === candidate);
+    if (!isZoneApex) continue;
+
+    const signatures = [...dnskeyLookup.answers, ...(dsLookup?.answers ?? [])]
+      .filter((answer) => answer.type === "RRSIG")
+      .map((answer) => parseRrsigRecord(answer, now))
+      .filter((signature): signature is DnssecSignature => Boolean(signature));
+    const messages: string[] = [];
+    let trustedKeys: SignedKey[] = [];
+
+    for (const ds of delegationSigners) {
+      const key = keys.find((entry) => entry.keyTag === ds.keyTag && entry.algorithm === ds.algorithm);
+      if (!key) {
+        ds.matched = false;
+        continue;
+      }
+      const digest = await digestDnskey(candidate, key.rdata, ds.digestType);
+      ds.matched = digest === null ? null : digest === ds.digest;
+    }
+
+    let status: DnssecStatus;
+    if (dnskeyLookup.error || dsLookup?.error) {
+      status = "indeterminate";
+      messages.push(dnskeyLookup.error ?? dsLookup?.error ?? "Lookup failed.");
+    } else if (candidate === ".") {
+      for (const anchor of ROOT_TRUST_ANCHORS) {
+        const key = keys.find((entry) => entry.role === "KSK" && entry.keyTag === anchor.keyTag && entry.algorithm === anchor.algorithm);
+        if (key && (await digestDnskey(candidate, key.rdata, anchor.digestType)) === anchor.digest) trustedKeys.push(key);
+      }
+      status = trustedKeys.length ? "secure" : "bogus";
+      messages.push(trustedKeys.length ? "Root KSK digest matches the IANA trust anchor." : "Root DNSKEY set does not contain a trusted KSK.");
+    } else if (!delegationSigners.length) {
+      status = "insecure";
+      messages.push(
+        keys.length
+          ? "The zone publishes DNSKEY records but the parent has no DS record, so it is an unlinked island of trust."
+          : "The zone is unsigned (no DS at the parent and no DNSKEY).",
+      );
+    } else if (!keys.length) {
+      status = "bogus";
+      messages.push("The parent publishes DS records but the zone returns no DNSKEY; validating resolvers will fail.");
+    } else if (delegationSigners.some((ds) => ds.matched === true)) {
+      status = "secure";
+      trustedKeys = keys.filter((key) =>
+        delegationSigners.some((ds) => ds.matched === true && ds.keyTag === key.keyTag && ds.algorithm === key.algorithm),
+      );
+      const stale = delegationSigners.filter((ds) => ds.matched === false);
+      if (stale.length) messages.push(`DS key tag${stale.length === 1 ? "" : "s"} ${stale.map((ds) => ds.keyTag).join(", ")} match no DNSKEY (stale after a rollover?).`);
+    } else if (delegationSigners.every((ds) => ds.matched === null)) {
+      status = "indeterminate";
+      messages.push("DS records use digest types this checker cannot verify.");
+    } else {
+      status = "bogus";
+      messages.push("No DS record at the parent matches a DNSKEY in the zone.");
+    }
+
+    if (status === "secure") {
+      const [keyCheck, dsCheck] = await Promise.all([
+        verifyRrsetSignatures(candidate, "DNSKEY", keys.map((key) => key.rdata), dnskeyLookup.answers, candidate, trustedKeys),
+        candidate === "."
+          ? Promise.resolve<RrsetVerification>("valid")
+          : verifyRrsetSignatures(candidate, "DS", delegationSigners.map(buildDsRdata), dsLookup?.answers ?? [], parentZone, parentKeys),
+      ]);
+      if (keyCheck === "invalid" || keyCheck === "missing") {
+        status = "bogus";
+        messages.push(`No RRSIG over the DNSKEY set verifies with a ${candidate === "." ? "trust anchor" : "DS-linked"} key.`);
+      }
+      if (dsCheck === "invalid" || dsCheck === "missing") {
+        status = "bogus";
+        messages.push(`No RRSIG over the DS set verifies with a ${parentZone} zone key.`);
+      }
+      if (status === "secure" && (keyCheck === "unsupported" || dsCheck === "unsupported")) {
+        status = "indeterminate";
+        messages.push("Signatures use an algorithm this checker cannot verify.");
+      } else if (status === "secure") {
+        messages.push(candidate === "." ? "DNSKEY set signature verified." : "DS and DNSKEY set signatures verified.");
+      }
+    }
+
+    if (keys.some((key) => key.algorithm === 5 || key.algorithm === 7)) {
+      warnings.push(`${candidate} signs with SHA-1 based ${keys.find((key) => key.algorithm === 5 || key.algorithm === 7)?.algorithmName}; move to algorithm 13 or 8.`);
+    }
+    if (delegationSigners.length && delegationSigners.every((ds) => ds.digestType === 1)) {
+      warnings.push(`${candidate} DS records only use SHA-1 digests; publish a SHA-256 (type 2) DS.`);
+    }
+    if (keys.some((key) => key.revoked)) messages.push("A revoked key is still published.");
+    signatures.filter(isSignatureProblem).forEach((signature) => warnings.push(describeSignature(signature)));
+    if (signatures.some((signature) => signature.status === "expired" || signature.status === "not-yet-valid")) {
+      status = "bogus";
+    }
+
+    zones.push({
+      zone: candidate,
+      status,
+      keys: keys.map((key) => ({
+        keyTag: key.keyTag,
+        flags: key.flags,
+        algorithm: key.algorithm,
+        algorithmName: key.algorithmName,
+        role: key.role,
+        revoked: key.revoked,
+      })),
+      delegationSigners,
+      signatures,
+      messages,
+    });
+    if (status !== "secure") break;
+    parentZone = candidate;
+    parentKeys = keys;
+  }
+
+  const recordSignatures = [
+    ...new Map(
+      recordAnswers
+        .filter((answer) => answer.type === "RRSIG")
+        .map((answer) => parseRrsigRecord(answer, now))
+        .filter((signature): signature is DnssecSignature => Boolean(signature))
+        .map((signature) => [`${signature.owner}|${signature.typeCovered}|${signature.keyTag}|${signature.expiration}`, signature]),
+    ).values(),
+  ];
+  recordSignatures.filter(isSignatureProblem).forEach((signature) => warnings.push(describeSignature(signature)));
+
+  const statuses = zones.map((zone) => zone.status);
+  const status: DnssecStatus = statuses.includes("bogus")
+    ? "bogus"
+    : statuses.includes("indeterminate")
+      ? "indeterminate"
+      : statuses.includes("insecure")
+        ? "insecure"
+        : truncated
+          ? "indeterminate"
+          : "secure";
+
+  return { domain: normalizeZoneName(domain), status, zones, recordSignatures, warnings: [...new Set(warnings)] };
+}
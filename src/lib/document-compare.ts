@@ -1,4 +1,14 @@
+import { escapeXml } from "@/lib/xml";
+
 export type DocumentChangeKind = "added" | "removed" | "modified" | "unchanged";
+export type DocumentDiffGranularity = "word" | "character";
+export type DocumentDiffSegmentKind = "equal" | "insert" | "delete" | "move-from" | "move-to";
+
+export interface DocumentDiffSegment {
+  kind: DocumentDiffSegmentKind;
+  text: string;
+  moveId?: string;
+}
 
 export interface DocumentChange {
   id: string;
@@ -6,13 +16,66 @@ export interface DocumentChange {
   beforeText: string;
   afterText: string;
   similarity: number;
+  beforeIndex: number;
+  afterIndex: number;
+  moved: boolean;
+  segments: DocumentDiffSegment[];
+}
+
+export interface DocumentCompareOptions {
+  granularity?: DocumentDiffGranularity;
+  detectMoves?: boolean;
+  clauseLibrary?: DocumentClauseRule[];
+  includeKeywordRules?: boolean;
+}
+
+export interface DocumentRedlineBlock {
+  id: string;
+  kind: DocumentChangeKind | "moved-from" | "moved-to";
+  segments: DocumentDiffSegment[];
+}
+
+export interface DocumentRedlineDocxOptions {
+  title: string;
+  author: string;
+  date: Date;
 }
 
+export type DocumentRiskSeverity = "high" | "medium" | "low";
+export type DocumentRiskSource = "keyword" | "clause" | "three-way";
+export type ThreeWayBlockStatus = "unchanged" | "negotiated" | "slipped-in" | "reverted" | "dropped";
+
 export interface DocumentRiskFlag {
   label: string;
-  severity: "high" | "medium" | "low";
+  severity: DocumentRiskSeverity;
   explanation: string;
   afterText: string;
+  source: DocumentRiskSource;
+  clauseId?: string;
+}
+
+export interface DocumentClauseRule {
+  id: string;
+  label: string;
+  expectedText: string;
+  keywords: string[];
+  severity: DocumentRiskSeverity;
+  minSimilarity: number;
+}
+
+export interface ThreeWayCompareEntry {
+  id: string;
+  status: ThreeWayBlockStatus;
+  templateText: string;
+  markupText: string;
+  finalText: string;
+  segments: DocumentDiffSegment[];
+}
+
+export interface ThreeWayCompareResult {
+  entries: ThreeWayCompareEntry[];
+  riskFlags: DocumentRiskFlag[];
+  counts: Record<ThreeWayBlockStatus, number>;
 }
 
 export interface DocumentCompareResult {
@@ -26,9 +89,23 @@ export interface DocumentCompareResult {
     removed: number;
     modified: number;
     unchanged: number;
+    moved: number;
   };
 }
 
+const DIFF_WORD_PATTERN = /\s+|[A-Za-z0-9\u00c0-\u024f]+(?:['\u2019][A-Za-z\u00c0-\u024f]+)*|[^\sA-Za-z0-9\u00c0-\u024f]/g;
+const MAX_DIFF_CELLS = 4_000_000;
+const MIN_MOVED_WORDS = 4;
+const CLAUSE_LOCATE_THRESHOLD = 0.3;
+
+export const THREE_WAY_STATUS_LABELS: Record<ThreeWayBlockStatus, string> = {
+  unchanged: "Unchanged from template",
+  negotiated: "Agreed in markup",
+  "slipped-in": "Changed after agreement",
+  reverted: "Agreed change reverted",
+  dropped: "Removed after agreement",
+};
+
 function normalizeText(value: string): string {
   return value
     .replace(/\u0000/g, "")
@@ -81,6 +158,10 @@ function jaccardSimilarity(left: string, right: string): number {
   return union > 0 ? intersection / union : 0;
 }
 
+function isSameText(left: string, right: string): boolean {
+  return left.replace(/\s+/g, " ") === right.replace(/\s+/g, " ");
+}
+
 function classifyChanges(beforeBlocks: string[], afterBlocks: string[]): DocumentChange[] {
   const usedAfter = new Set<number>();
   const changes: DocumentChange[] = [];
@@ -102,10 +183,14 @@ function classifyChanges(beforeBlocks: string[], afterBlocks: string[]): Documen
       usedAfter.add(bestIndex);
       changes.push({
         id: `change-${beforeIndex + 1}`,
-        kind: "unchanged",
+        kind: isSameText(beforeText, afterBlocks[bestIndex]) ? "unchanged" : "modified",
         beforeText,
         afterText: afterBlocks[bestIndex],
         similarity: bestScore,
+        beforeIndex,
+        afterIndex: bestIndex,
+        moved: false,
+        segments: [],
       });
       return;
     }
@@ -118,6 +203,10 @@ function classifyChanges(beforeBlocks: string[], afterBlocks: string[]): Documen
         beforeText,
         afterText: afterBlocks[bestIndex],
         similarity: bestScore,
+        beforeIndex,
+        afterIndex: bestIndex,
+        moved: false,
+        segments: [],
       });
       return;
     }
@@ -128,6 +217,10 @@ function classifyChanges(beforeBlocks: string[], afterBlocks: string[]): Documen
       beforeText,
       afterText: "",
       similarity: 0,
+      beforeIndex,
+      afterIndex: -1,
+      moved: false,
+      segments: [],
     });
   });
 
@@ -139,12 +232,179 @@ function classifyChanges(beforeBlocks: string[], afterBlocks: string[]): Documen
       beforeText: "",
       afterText,
       similarity: 0,
+      beforeIndex: -1,
+      afterIndex,
+      moved: false,
+      segments: [],
     });
   });
 
   return changes;
 }
 
+function splitDiffTokens(value: string, granularity: DocumentDiffGranularity): string[] {
+  if (granularity === "character") return Array.from(value);
+  return value.match(DIFF_WORD_PATTERN) ?? [];
+}
+
+function appendSegment(segments: DocumentDiffSegment[], kind: DocumentDiffSegmentKind, text: string) {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last && last.kind === kind) {
+    last.text += text;
+    return;
+  }
+  segments.push({ kind, text });
+}
+
+function diffTokenSequences(before: string[], after: string[]): DocumentDiffSegment[] {
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) prefix += 1;
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const left = before.slice(prefix, before.length - suffix);
+  const right = after.slice(prefix, after.length - suffix);
+  const segments: DocumentDiffSegment[] = [];
+  appendSegment(segments, "equal", before.slice(0, prefix).join(""));
+
+  if (left.length * right.length > MAX_DIFF_CELLS) {
+    appendSegment(segments, "delete", left.join(""));
+    appendSegment(segments, "insert", right.join(""));
+  } else {
+    const width = right.length + 1;
+    const table = new Uint32Array((left.length + 1) * width);
+    for (let i = left.length - 1; i >= 0; i -= 1) {
+      for (let j = right.length - 1; j >= 0; j -= 1) {
+        table[i * width + j] =
+          left[i] === right[j]
+            ? table[(i + 1) * width + j + 1] + 1
+            : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < left.length && j < right.length) {
+      if (left[i] === right[j]) {
+        appendSegment(segments, "equal", left[i]);
+        i += 1;
+        j += 1;
+      } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+        appendSegment(segments, "delete", left[i]);
+        i += 1;
+      } else {
+        appendSegment(segments, "insert", right[j]);
+        j += 1;
+      }
+    }
+    appendSegment(segments, "delete", left.slice(i).join(""));
+    appendSegment(segments, "insert", right.slice(j).join(""));
+  }
+
+  appendSegment(segments, "equal", before.slice(before.length - suffix).join(""));
+  return segments;
+}
+
+function groupDiffSegments(segments: DocumentDiffSegment[]): DocumentDiffSegment[] {
+  const grouped: DocumentDiffSegment[] = [];
+  let deleted = "";
+  let inserted = "";
+  const flush = () => {
+    appendSegment(grouped, "delete", deleted);
+    appendSegment(grouped, "insert", inserted);
+    deleted = "";
+    inserted = "";
+  };
+
+  segments.forEach((segment, index) => {
+    if (segment.kind === "equal") {
+      if (deleted && inserted && index < segments.length - 1 && !segment.text.trim()) {
+        deleted += segment.text;
+        inserted += segment.text;
+        return;
+      }
+      flush();
+      appendSegment(grouped, "equal", segment.text);
+      return;
+    }
+    if (segment.kind === "delete") deleted += segment.text;
+    else inserted += segment.text;
+  });
+  flush();
+  return grouped;
+}
+
+export function diffDocumentText(
+  beforeText: string,
+  afterText: string,
+  granularity: DocumentDiffGranularity = "word",
+): DocumentDiffSegment[] {
+  return groupDiffSegments(diffTokenSequences(splitDiffTokens(beforeText, granularity), splitDiffTokens(afterText, granularity)));
+}
+
+function buildChangeSegments(change: DocumentChange, granularity: DocumentDiffGranularity): DocumentDiffSegment[] {
+  if (change.kind === "added") return [{ kind: "insert", text: change.afterText }];
+  if (change.kind === "removed") return [{ kind: "delete", text: change.beforeText }];
+  if (change.beforeText === change.afterText) return [{ kind: "equal", text: change.afterText }];
+  return diffDocumentText(change.beforeText, change.afterText, granularity);
+}
+
+function markMovedBlocks(changes: DocumentChange[]) {
+  const matched = changes.filter((change) => change.beforeIndex >= 0 && change.afterIndex >= 0);
+  const lengths = matched.map(() => 1);
+  const previous = matched.map(() => -1);
+  let bestEnd = -1;
+  matched.forEach((change, index) => {
+    for (let earlier = 0; earlier < index; earlier += 1) {
+      if (matched[earlier].afterIndex < change.afterIndex && lengths[earlier] + 1 > lengths[index]) {
+        lengths[index] = lengths[earlier] + 1;
+        previous[index] = earlier;
+      }
+    }
+    if (bestEnd < 0 || lengths[index] > lengths[bestEnd]) bestEnd = index;
+  });
+
+  const inOrder = new Set<number>();
+  for (let index = bestEnd; index >= 0; index = previous[index]) inOrder.add(index);
+  matched.forEach((change, index) => {
+    change.moved = !inOrder.has(index);
+  });
+}
+
+function normalizeMoveKey(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9\u00c0-\u024f]+/g, " ")
+    .trim();
+}
+
+function markMovedText(changes: DocumentChange[]) {
+  const segments = changes.filter((change) => !change.moved).flatMap((change) => change.segments);
+  const insertions = segments.filter((segment) => segment.kind === "insert");
+  let moveCount = 0;
+
+  segments
+    .filter((segment) => segment.kind === "delete")
+    .forEach((deleted) => {
+      const key = normalizeMoveKey(deleted.text);
+      if (key.split(" ").length < MIN_MOVED_WORDS) return;
+      const match = insertions.find((inserted) => inserted.kind === "insert" && normalizeMoveKey(inserted.text) === key);
+      if (!match) return;
+      moveCount += 1;
+      const moveId = `move-${moveCount}`;
+      deleted.kind = "move-from";
+      deleted.moveId = moveId;
+      match.kind = "move-to";
+      match.moveId = moveId;
+    });
+}
+
 const RISK_PATTERNS: Array<{
   label: string;
   severity: "high" | "medium" | "low";
@@ -183,7 +443,7 @@ const RISK_PATTERNS: Array<{
   },
 ];
 
-function buildRiskFlags(changes: DocumentChange[]): DocumentRiskFlag[] {
+function buildKeywordRiskFlags(changes: DocumentChange[]): DocumentRiskFlag[] {
   return changes
     .filter((change) => change.kind === "added" || change.kind === "modified")
     .flatMap((change) =>
@@ -192,11 +452,86 @@ function buildRiskFlags(changes: DocumentChange[]): DocumentRiskFlag[] {
         severity: rule.severity,
         explanation: rule.explanation,
         afterText: change.afterText,
+        source: "keyword" as const,
       })),
     )
     .slice(0, 20);
 }
 
+function findBestBlockMatch(text: string, blocks: string[]): { index: number; score: number } {
+  let best = { index: -1, score: 0 };
+  blocks.forEach((block, index) => {
+    const score = block === text ? 1 : jaccardSimilarity(text, block);
+    if (score > best.score) best = { index, score };
+  });
+  return best;
+}
+
+export function checkClauseLibrary(blocks: string[], library: DocumentClauseRule[]): DocumentRiskFlag[] {
+  return library
+    .filter((rule) => rule.expectedText.trim())
+    .flatMap((rule): DocumentRiskFlag[] => {
+      const keywords = rule.keywords.map((keyword) => keyword.trim().toLowerCase()).filter(Boolean);
+      const candidates = blocks
+        .map((block, index) => ({ block, index }))
+        .filter(({ block }) => !keywords.length || keywords.some((keyword) => block.toLowerCase().includes(keyword)));
+      const best = findBestBlockMatch(
+        rule.expectedText,
+        candidates.map(({ block }) => block),
+      );
+      const located = candidates.length > 0 && (keywords.length > 0 || best.score >= CLAUSE_LOCATE_THRESHOLD);
+
+      if (!located) {
+        return [
+          {
+            label: `${rule.label || "Clause"} missing`,
+            severity: rule.severity,
+            explanation: "No block in the document matches this playbook clause.",
+            afterText: "",
+            source: "clause",
+            clauseId: rule.id,
+          },
+        ];
+      }
+      if (best.score >= rule.minSimilarity) return [];
+      return [
+        {
+          label: `${rule.label || "Clause"} deviates from playbook`,
+          severity: rule.severity,
+          explanation: `Wording matches the expected clause at ${Math.round(best.score * 100)}% (playbook minimum ${Math.round(
+            rule.minSimilarity * 100,
+          )}%).`,
+          afterText: candidates[Math.max(0, best.index)].block,
+          source: "clause",
+          clauseId: rule.id,
+        },
+      ];
+    });
+}
+
+export function sanitizeClauseLibrary(value: unknown): DocumentClauseRule[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((entry): entry is Partial<DocumentClauseRule> => Boolean(entry) && typeof entry === "object")
+    .map((entry) => ({
+      id: typeof entry.id === "string" && entry.id ? entry.id : crypto.randomUUID(),
+      label: typeof entry.label === "string" ? entry.label : "",
+      expectedText: typeof entry.expectedText === "string" ? entry.expectedText : "",
+      keywords: Array.isArray(entry.keywords) ? entry.keywords.filter((keyword): keyword is string => typeof keyword === "string") : [],
+      severity: entry.severity === "high" || entry.severity === "low" ? entry.severity : "medium",
+      minSimilarity:
+        typeof entry.minSimilarity === "number" && Number.isFinite(entry.minSimilarity)
+          ? Math.min(1, Math.max(0.1, entry.minSimilarity))
+          : 0.85,
+    }));
+}
+
+function buildRiskFlags(changes: DocumentChange[], afterBlocks: string[], options: DocumentCompareOptions): DocumentRiskFlag[] {
+  const clauseFlags = checkClauseLibrary(afterBlocks, options.clauseLibrary ?? []);
+  const keywordFlags = options.includeKeywordRules === false ? [] : buildKeywordRiskFlags(changes);
+  return [...clauseFlags, ...keywordFlags];
+}
+
 function buildSummary(changes: DocumentChange[]): string[] {
   const added = changes.filter((change) => change.kind === "added");
   const removed = changes.filter((change) => change.kind === "removed");
@@ -220,16 +555,29 @@ function buildSummary(changes: DocumentChange[]): string[] {
   return lines;
 }
 
-export function compareDocumentTexts(beforeText: string, afterText: string): DocumentCompareResult {
+export function compareDocumentTexts(
+  beforeText: string,
+  afterText: string,
+  options: DocumentCompareOptions = {},
+): DocumentCompareResult {
   const beforeBlocks = splitIntoBlocks(beforeText);
   const afterBlocks = splitIntoBlocks(afterText);
   const changes = classifyChanges(beforeBlocks, afterBlocks);
-  const riskFlags = buildRiskFlags(changes);
+  const granularity = options.granularity ?? "word";
+  changes.forEach((change) => {
+    change.segments = buildChangeSegments(change, granularity);
+  });
+  if (options.detectMoves !== false) {
+    markMovedBlocks(changes);
+    markMovedText(changes);
+  }
+  const riskFlags = buildRiskFlags(changes, afterBlocks, options);
   const counts = {
     added: changes.filter((change) => change.kind === "added").length,
     removed: changes.filter((change) => change.kind === "removed").length,
     modified: changes.filter((change) => change.kind === "modified").length,
     unchanged: changes.filter((change) => change.kind === "unchanged").length,
+    moved: changes.filter((change) => change.moved).length,
   };
 
   return {
@@ -242,6 +590,96 @@ export function compareDocumentTexts(beforeText: string, afterText: string): Doc
   };
 }
 
+function classifyThreeWayChange(change: DocumentChange, templateBlocks: string[]): ThreeWayBlockStatus {
+  if (change.kind === "removed") return "dropped";
+  const matchesTemplate = templateBlocks.some((block) => isSameText(block, change.afterText));
+  if (change.kind === "unchanged") return matchesTemplate ? "unchanged" : "negotiated";
+  return matchesTemplate ? "reverted" : "slipped-in";
+}
+
+export function compareThreeWayDocuments(
+  templateText: string,
+  markupText: string,
+  finalText: string,
+  options: DocumentCompareOptions = {},
+): ThreeWayCompareResult {
+  const templateBlocks = splitIntoBlocks(templateText);
+  const markupToFinal = compareDocumentTexts(markupText, finalText, {
+    ...options,
+    detectMoves: false,
+  });
+  const entries = markupToFinal.changes.map((change): ThreeWayCompareEntry => {
+    const status = classifyThreeWayChange(change, templateBlocks);
+    const templateMatch = findBestBlockMatch(change.afterText || change.beforeText, templateBlocks);
+    return {
+      id: change.id,
+      status,
+      templateText: templateMatch.score >= CLAUSE_LOCATE_THRESHOLD ? templateBlocks[templateMatch.index] : "",
+      markupText: change.beforeText,
+      finalText: change.afterText,
+      segments: change.segments,
+    };
+  });
+
+  const counts: Record<ThreeWayBlockStatus, number> = { unchanged: 0, negotiated: 0, "slipped-in": 0, reverted: 0, dropped: 0 };
+  entries.forEach((entry) => {
+    counts[entry.status] += 1;
+  });
+
+  const threeWayFlags = entries
+    .filter((entry) => entry.status === "slipped-in" || entry.status === "reverted" || entry.status === "dropped")
+    .map(
+      (entry): DocumentRiskFlag => ({
+        label: THREE_WAY_STATUS_LABELS[entry.status],
+        severity: entry.status === "dropped" ? "medium" : "high",
+        explanation:
+          entry.status === "slipped-in"
+            ? "The final version differs from both the agreed markup and the template."
+            : entry.status === "reverted"
+              ? "The final version restores template wording that was changed in the agreed markup."
+              : "A block from the agreed markup is missing from the final version.",
+        afterText: entry.finalText || entry.markupText,
+        source: "three-way",
+      }),
+    );
+
+  return {
+    entries,
+    riskFlags: [...threeWayFlags, ...markupToFinal.riskFlags],
+    counts,
+  };
+}
+
+export function buildThreeWayCompareMarkdown(result: ThreeWayCompareResult): string {
+  const sections: string[] = ["# Three-Way Compare Report", ""];
+  (Object.keys(THREE_WAY_STATUS_LABELS) as ThreeWayBlockStatus[]).forEach((status) => {
+    sections.push(`${THREE_WAY_STATUS_LABELS[status]}: ${result.counts[status]}`);
+  });
+  sections.push("");
+  if (result.riskFlags.length) {
+    sections.push("## Risk Flags");
+    result.riskFlags.forEach((flag) => {
+      sections.push(`- [${flag.severity.toUpperCase()}] ${flag.label}: ${flag.explanation}`);
+      if (flag.afterText) sections.push(`  ${flag.afterText}`);
+    });
+    sections.push("");
+  }
+  sections.push("## Blocks");
+  result.entries
+    .filter((entry) => entry.status !== "unchanged")
+    .forEach((entry) => {
+      sections.push(`### ${THREE_WAY_STATUS_LABELS[entry.status]}`);
+      if (entry.templateText) sections.push(`Template: ${entry.templateText}`);
+      if (entry.markupText) sections.push(`Markup: ${entry.markupText}`);
+      if (entry.finalText) sections.push(`Final: ${entry.finalText}`);
+      if (entry.markupText && entry.finalText && entry.markupText !== entry.finalText) {
+        sections.push(`Redline: ${formatSegmentsAsMarkdown(entry.segments)}`);
+      }
+      sections.push("");
+    });
+  return sections.join("\n").trim();
+}
+
 export function buildDocumentCompareMarkdown(result: DocumentCompareResult): string {
   const sections: string[] = [];
   sections.push("# Document Compare Report");
@@ -250,6 +688,7 @@ export function buildDocumentCompareMarkdown(result: DocumentCompareResult): str
   sections.push(`Removed: ${result.counts.removed}`);
   sections.push(`Modified: ${result.counts.modified}`);
   sections.push(`Unchanged: ${result.counts.unchanged}`);
+  sections.push(`Moved: ${result.counts.moved}`);
   sections.push("");
   sections.push("## Summary");
   result.summary.forEach((line) => sections.push(`- ${line}`));
@@ -258,16 +697,148 @@ export function buildDocumentCompareMarkdown(result: DocumentCompareResult): str
     sections.push("## Risk Flags");
     result.riskFlags.forEach((flag) => {
       sections.push(`- [${flag.severity.toUpperCase()}] ${flag.label}: ${flag.explanation}`);
-      sections.push(`  ${flag.afterText}`);
+      if (flag.afterText) sections.push(`  ${flag.afterText}`);
     });
     sections.push("");
   }
   sections.push("## Changes");
   result.changes.forEach((change) => {
-    sections.push(`### ${change.kind.toUpperCase()} (${Math.round(change.similarity * 100)}%)`);
+    sections.push(`### ${change.kind.toUpperCase()}${change.moved ? " + MOVED" : ""} (${Math.round(change.similarity * 100)}%)`);
     if (change.beforeText) sections.push(`Before: ${change.beforeText}`);
     if (change.afterText) sections.push(`After: ${change.afterText}`);
+    if (change.kind === "modified") sections.push(`Redline: ${formatSegmentsAsMarkdown(change.segments)}`);
     sections.push("");
   });
   return sections.join("\n").trim();
 }
+
+function formatSegmentsAsMarkdown(segments: DocumentDiffSegment[]): string {
+  return segments
+    .map((segment) => {
+      const text = segment.text.replace(/\s+/g, " ");
+      if (!text.trim() || segment.kind === "equal") return text;
+      const leading = text.match(/^\s*/)?.[0] ?? "";
+      const trailing = text.match(/\s*$/)?.[0] ?? "";
+      const core = text.trim();
+      if (segment.kind === "insert") return `${leading}**${core}**${trailing}`;
+      if (segment.kind === "delete") return `${leading}~~${core}~~${trailing}`;
+      if (segment.kind === "move-from") return `${leading}~~${core}~~ [moved ${segment.moveId}]${trailing}`;
+      return `${leading}**${core}** [moved ${segment.moveId}]${trailing}`;
+    })
+    .join("");
+}
+
+export function buildDocumentRedline(result: DocumentCompareResult): DocumentRedlineBlock[] {
+  const entries: Array<{ order: number; block: DocumentRedlineBlock }> = [];
+  let lastAfterIndex = -1;
+
+  result.changes.forEach((change) => {
+    if (change.kind === "added") {
+      entries.push({ order: change.afterIndex, block: { id: change.id, kind: "added", segments: change.segments } });
+      return;
+    }
+    if (change.kind === "removed") {
+      entries.push({ order: lastAfterIndex + 0.5, block: { id: change.id, kind: "removed", segments: change.segments } });
+      return;
+    }
+    if (change.moved) {
+      entries.push({
+        order: lastAfterIndex + 0.5,
+        block: { id: `${change.id}-from`, kind: "moved-from", segments: [{ kind: "move-from", text: change.beforeText, moveId: change.id }] },
+      });
+      const movedSegments: DocumentDiffSegment[] =
+        change.beforeText === change.afterText
+          ? [{ kind: "move-to", text: change.afterText, moveId: change.id }]
+          : change.segments.map((segment) =>
+              segment.kind === "equal" ? { kind: "move-to", text: segment.text, moveId: change.id } : segment,
+            );
+      entries.push({ order: change.afterIndex, block: { id: `${change.id}-to`, kind: "moved-to", segments: movedSegments } });
+      return;
+    }
+    lastAfterIndex = change.afterIndex;
+    entries.push({ order: change.afterIndex, block: { id: change.id, kind: change.kind, segments: change.segments } });
+  });
+
+  return entries.sort((left, right) => left.order - right.order).map((entry) => entry.block);
+}
+
+function buildDocxRun(text: string, deleted: boolean): string {
+  const tag = deleted ? "w:delText" : "w:t";
+  const body = text
+    .split("\n")
+    .map((line) => `<${tag} xml:space="preserve">${escapeXml(line)}</${tag}>`)
+    .join("<w:br/>");
+  return `<w:r>${body}</w:r>`;
+}
+
+export function buildDocumentRedlineDocxParts(
+  blocks: DocumentRedlineBlock[],
+  options: DocumentRedlineDocxOptions,
+): Record<string, string> {
+  const author = escapeXml(options.author.trim() || "Document compare");
+  const date = options.date.toISOString().replace(/\.\d{3}Z$/, "Z");
+  let revisionId = 0;
+  const revision = (tag: "w:ins" | "w:del") => {
+    revisionId += 1;
+    return `<${tag} w:id="${revisionId}" w:author="${author}" w:date="${date}"`;
+  };
+
+  const paragraphs = blocks.map((block) => {
+    const paragraphMark =
+      block.kind === "added" || block.kind === "moved-to"
+        ? `<w:pPr><w:rPr>${revision("w:ins")}/></w:rPr></w:pPr>`
+        : block.kind === "removed" || block.kind === "moved-from"
+          ? `<w:pPr><w:rPr>${revision("w:del")}/></w:rPr></w:pPr>`
+          : "";
+    const runs = block.segments
+      .map((segment) => {
+        if (segment.kind === "equal") return buildDocxRun(segment.text, false);
+        if (segment.kind === "insert" || segment.kind === "move-to") {
+          return `${revision("w:ins")}>${buildDocxRun(segment.text, false)}</w:ins>`;
+        }
+        return `${revision("w:del")}>${buildDocxRun(segment.text, true)}</w:del>`;
+      })
+      .join("");
+    return `<w:p>${paragraphMark}${runs}</w:p>`;
+  });
+
+  const title = escapeXml(options.title);
+  const documentXml = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">',
+    "<w:body>",
+    `<w:p><w:r><w:rPr><w:b/><w:sz w:val="32"/></w:rPr><w:t xml:space="preserve">${title}</w:t></w:r></w:p>`,
+    ...paragraphs,
+    '<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>',
+    "</w:body>",
+    "</w:document>",
+  ].join("");
+
+  return {
+    "[Content_Types].xml": [
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+      '<Default Extension="xml" ContentType="application/xml"/>',
+      '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>',
+      '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>',
+      "</Types>",
+    ].join(""),
+    "_rels/.rels": [
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>',
+      '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>',
+      "</Relationships>",
+    ].join(""),
+    "docProps/core.xml": [
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+      '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+      `<dc:title>${title}</dc:title>`,
+      `<dc:creator>${author}</dc:creator>`,
+      `<dcterms:created xsi:type="dcterms:W3CDTF">${date}</dcterms:created>`,
+      "</cp:coreProperties>",
+    ].join(""),
+    "word/document.xml": documentXml,
+  };
+}
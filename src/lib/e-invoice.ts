@@ -0,0 +1,484 @@
+import { buildUblInvoiceDocument, type UblParty } from "@/lib/ubl-invoice";
+import { escapeXml } from "@/lib/xml";
+
+export type EInvoiceTaxCategory = "S" | "Z" | "E" | "AE" | "K" | "G" | "O";
+export type EInvoiceIssueSeverity = "error" | "warning";
+
+export interface EInvoiceParty {
+  name: string;
+  email: string;
+  address: string;
+  countryCode: string;
+  vatId: string;
+}
+
+export interface EInvoiceLine {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  taxCategory: EInvoiceTaxCategory;
+  taxPercent: number;
+}
+
+export interface EInvoiceAllowanceCharge {
+  amount: number;
+  reason: string;
+  taxCategory: EInvoiceTaxCategory;
+  taxPercent: number;
+}
+
+export interface EInvoiceDocument {
+  invoiceNumber: string;
+  issueDate: string;
+  dueDate: string;
+  currency: string;
+  buyerReference: string;
+  paymentTerms: string;
+  notes: string;
+  seller: EInvoiceParty;
+  buyer: EInvoiceParty;
+  lines: EInvoiceLine[];
+  allowances: EInvoiceAllowanceCharge[];
+  charges: EInvoiceAllowanceCharge[];
+}
+
+export interface EInvoiceIssue {
+  field: string;
+  message: string;
+  severity: EInvoiceIssueSeverity;
+}
+
+export interface EInvoiceTaxBreakdown {
+  category: EInvoiceTaxCategory;
+  percent: number;
+  taxableAmount: number;
+  taxAmount: number;
+  exemptionReason: string;
+}
+
+export interface EInvoiceTotals {
+  lineTotal: number;
+  allowanceTotal: number;
+  chargeTotal: number;
+  taxExclusive: number;
+  taxTotal: number;
+  taxInclusive: number;
+  breakdown: EInvoiceTaxBreakdown[];
+}
+
+export const E_INVOICE_TAX_CATEGORY_LABELS: Record<EInvoiceTaxCategory, string> = {
+  S: "Standard rate",
+  Z: "Zero rated",
+  E: "Exempt",
+  AE: "Reverse charge",
+  K: "Intra-community supply",
+  G: "Export outside the EU",
+  O: "Outside the scope of VAT",
+};
+
+const EXEMPTION_REASONS: Record<EInvoiceTaxCategory, string> = {
+  S: "",
+  Z: "",
+  E: "Exempt from VAT",
+  AE: "Reverse charge",
+  K: "Intra-community supply",
+  G: "Export outside the EU",
+  O: "Not subject to VAT",
+};
+
+const VAT_ID_PATTERN = /^[A-Z]{2}[A-Z0-9+*.]{2,13}$/;
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatAmount(value: number): string {
+  return roundAmount(value).toFixed(2);
+}
+
+function splitAddress(address: string): string[] {
+  return address
+    .split(/\r?\n|,/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+function lineNetAmount(line: EInvoiceLine): number {
+  return roundAmount(line.quantity * line.unitPrice);
+}
+
+export function calculateEInvoiceTotals(document: EInvoiceDocument): EInvoiceTotals {
+  const groups = new Map<string, EInvoiceTaxBreakdown>();
+  const addToGroup = (category: EInvoiceTaxCategory, percent: number, amount: number) => {
+    const key = `${category}:${percent}`;
+    const group = groups.get(key) ?? { category, percent, taxableAmount: 0, taxAmount: 0, exemptionReason: EXEMPTION_REASONS[category] };
+    group.taxableAmount = roundAmount(group.taxableAmount + amount);
+    groups.set(key, group);
+  };
+
+  document.lines.forEach((line) => addToGroup(line.taxCategory, line.taxPercent, lineNetAmount(line)));
+  document.allowances.forEach((entry) => addToGroup(entry.taxCategory, entry.taxPercent, -roundAmount(entry.amount)));
+  document.charges.forEach((entry) => addToGroup(entry.taxCategory, entry.taxPercent, roundAmount(entry.amount)));
+
+  const breakdown = [...groups.values()].map((group) => ({
+    ...group,
+    taxAmount: roundAmount((group.taxableAmount * group.percent) / 100),
+  }));
+  const lineTotal = roundAmount(document.lines.reduce((sum, line) => sum + lineNetAmount(line), 0));
+  const allowanceTotal = roundAmount(document.allowances.reduce((sum, entry) => sum + entry.amount, 0));
+  const chargeTotal = roundAmount(document.charges.reduce((sum, entry) => sum + entry.amount, 0));
+  const taxExclusive = roundAmount(lineTotal - allowanceTotal + chargeTotal);
+  const taxTotal = roundAmount(breakdown.reduce((sum, group) => sum + group.taxAmount, 0));
+
+  return {
+    lineTotal,
+    allowanceTotal,
+    chargeTotal,
+    taxExclusive,
+    taxTotal,
+    taxInclusive: roundAmount(taxExclusive + taxTotal),
+    breakdown,
+  };
+}
+
+export function validateEInvoice(document: EInvoiceDocument): EInvoiceIssue[] {
+  const issues: EInvoiceIssue[] = [];
+  const error = (field: string, message: string) => issues.push({ field, message, severity: "error" });
+  const warning = (field: string, message: string) => issues.push({ field, message, severity: "warning" });
+  const categories = new Set<EInvoiceTaxCategory>([
+    ...document.lines.map((line) => line.taxCategory),
+    ...document.allowances.map((entry) => entry.taxCategory),
+    ...document.charges.map((entry) => entry.taxCategory),
+  ]);
+
+  if (!document.invoiceNumber.trim()) error("invoiceNumber", "Invoice number is required.");
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(document.issueDate)) error("issueDate", "Issue date is required.");
+  if (!/^[A-Z]{3}$/.test(document.currency)) error("currency", "Currency must be a three-letter ISO 4217 code.");
+  if (!document.seller.name.trim()) error("seller.name", "Seller name is required.");
+  if (!document.buyer.name.trim()) error("buyer.name", "Buyer name is required.");
+  if (!/^[A-Z]{2}$/.test(document.seller.countryCode)) error("seller.countryCode", "Seller country must be a two-letter ISO code.");
+  if (!/^[A-Z]{2}$/.test(document.buyer.countryCode)) error("buyer.countryCode", "Buyer country must be a two-letter ISO code.");
+
+  const sellerVatId = document.seller.vatId.replace(/\s+/g, "").toUpperCase();
+  if (!sellerVatId && [...categories].some((category) => category !== "O")) {
+    error("seller.vatId", "Seller VAT ID is required when any line carries a VAT category other than O.");
+  } else if (sellerVatId && !VAT_ID_PATTERN.test(sellerVatId)) {
+    warning("seller.vatId", "Seller VAT ID should start with a two-letter country prefix, for example DE123456789.");
+  }
+  if ((categories.has("AE") || categories.has("K")) && !document.buyer.vatId.trim()) {
+    error("buyer.vatId", "Buyer VAT ID is required for reverse-charge and intra-community supplies.");
+  }
+  if (categories.has("O") && categories.size > 1) {
+    error("lines", "An invoice with lines outside the scope of VAT (O) cannot contain other VAT categories.");
+  }
+
+  if (!document.lines.length) error("lines", "At least one invoice line is required.");
+  document.lines.forEach((line, index) => {
+    const label = `Line ${index + 1}`;
+    if (!line.description.trim()) error(`lines.${index}.description`, `${label} needs a description.`);
+    if (!line.taxCategory) error(`lines.${index}.taxCategory`, `${label} needs a VAT category.`);
+    if (line.taxCategory === "S" && line.taxPercent <= 0) {
+      error(`lines.${index}.taxPercent`, `${label} is standard rated, so its VAT rate must be above 0%.`);
+    }
+    if (line.taxCategory !== "S" && line.taxPercent !== 0) {
+      error(`lines.${index}.taxPercent`, `${label} uses category ${line.taxCategory}, which requires a 0% VAT rate.`);
+    }
+    if (line.quantity <= 0) warning(`lines.${index}.quantity`, `${label} has a zero or negative quantity.`);
+  });
+
+  const totals = calculateEInvoiceTotals(document);
+  if (totals.taxInclusive > 0 && !document.paymentTerms.trim() && !document.dueDate) {
+    error("paymentTerms", "Payment terms or a due date are required when an amount is due.");
+  }
+  if (document.dueDate && document.issueDate && document.dueDate < document.issueDate) {
+    warning("dueDate", "Due date is before the issue date.");
+  }
+  if (!document.seller.email.trim() || !document.buyer.email.trim()) {
+    warning("email", "Peppol delivery uses the seller and buyer email addresses as electronic addresses.");
+  }
+
+  return issues;
+}
+
+function toUblParty(party: EInvoiceParty): UblParty {
+  const [streetName = "", ...rest] = splitAddress(party.address);
+  return {
+    name: party.name,
+    endpointId: party.email,
+    endpointScheme: "EM",
+    streetName,
+    additionalStreetName: rest.join(", "),
+    countryCode: party.countryCode,
+    vatId: party.vatId.replace(/\s+/g, "").toUpperCase(),
+    email: party.email,
+  };
+}
+
+export function buildUblInvoiceXml(document: EInvoiceDocument): string {
+  const totals = calculateEInvoiceTotals(document);
+  return buildUblInvoiceDocument({
+    id: document.invoiceNumber,
+    issueDate: document.issueDate,
+    dueDate: document.dueDate,
+    note: document.notes,
+    currency: document.currency,
+    buyerReference: document.buyerReference || document.invoiceNumber,
+    supplier: toUblParty(document.seller),
+    customer: toUblParty(document.buyer),
+    paymentTerms: document.paymentTerms,
+    allowanceCharges: [
+      ...document.charges.map((entry) => ({ ...entry, charge: true })),
+      ...document.allowances.map((entry) => ({ ...entry, charge: false })),
+    ].map((entry) => ({
+      charge: entry.charge,
+      reason: entry.reason,
+      amount: entry.amount,
+      taxCategory: { id: entry.taxCategory, percent: entry.taxPercent },
+    })),
+    taxTotal: totals.taxTotal,
+    taxSubtotals: totals.breakdown.map((group) => ({
+      taxableAmount: group.taxableAmount,
+      taxAmount: group.taxAmount,
+      taxCategory: { id: group.category, percent: group.percent, exemptionReason: group.exemptionReason },
+    })),
+    lineExtensionAmount: totals.lineTotal,
+    taxExclusiveAmount: totals.taxExclusive,
+    taxInclusiveAmount: totals.taxInclusive,
+    allowanceTotalAmount: totals.allowanceTotal,
+    chargeTotalAmount: totals.chargeTotal,
+    payableAmount: totals.taxInclusive,
+    lines: document.lines.map((line) => ({
+      quantity: line.quantity,
+      lineExtensionAmount: lineNetAmount(line),
+      priceAmount: line.unitPrice,
+      name: line.description,
+      taxCategory: { id: line.taxCategory, percent: line.taxPercent },
+    })),
+  });
+}
+
+function formatCiiDate(isoDate: string): string {
+  return isoDate.replace(/-/g, "");
+}
+
+function buildCiiParty(party: EInvoiceParty, tag: string): string[] {
+  const [lineOne = "", ...rest] = splitAddress(party.address);
+  const vatId = party.vatId.replace(/\s+/g, "").toUpperCase();
+  return [
+    `      <ram:${tag}>`,
+    `        <ram:Name>${escapeXml(party.name)}</ram:Name>`,
+    "        <ram:PostalTradeAddress>",
+    ...(lineOne ? [`          <ram:LineOne>${escapeXml(lineOne)}</ram:LineOne>`] : []),
+    ...(rest.length ? [`          <ram:LineTwo>${escapeXml(rest.join(", "))}</ram:LineTwo>`] : []),
+    `          <ram:CountryID>${escapeXml(party.countryCode)}</ram:CountryID>`,
+    "        </ram:PostalTradeAddress>",
+    ...(party.email
+      ? [
+          "        <ram:URIUniversalCommunication>",
+          `          <ram:URIID schemeID="EM">${escapeXml(party.email)}</ram:URIID>`,
+          "        </ram:URIUniversalCommunication>",
+        ]
+      : []),
+    ...(vatId
+      ? [
+          "        <ram:SpecifiedTaxRegistration>",
+          `          <ram:ID schemeID="VA">${escapeXml(vatId)}</ram:ID>`,
+          "        </ram:SpecifiedTaxRegistration>",
+        ]
+      : []),
+    `      </ram:${tag}>`,
+  ];
+}
+
+function buildCiiTradeTax(
+  tag: string,
+  category: EInvoiceTaxCategory,
+  percent: number,
+  indent: string,
+  amounts?: { calculated: number; basis: number; reason: string },
+): string[] {
+  return [
+    `${indent}<ram:${tag}>`,
+    ...(amounts ? [`${indent}  <ram:CalculatedAmount>${formatAmount(amounts.calculated)}</ram:CalculatedAmount>`] : []),
+    `${indent}  <ram:TypeCode>VAT</ram:TypeCode>`,
+    ...(amounts?.reason ? [`${indent}  <ram:ExemptionReason>${escapeXml(amounts.reason)}</ram:ExemptionReason>`] : []),
+    ...(amounts ? [`${indent}  <ram:BasisAmount>${formatAmount(amounts.basis)}</ram:BasisAmount>`] : []),
+    `${indent}  <ram:CategoryCode>${category}</ram:CategoryCode>`,
+    ...(category === "O" ? [] : [`${indent}  <ram:RateApplicablePercent>${percent}</ram:RateApplicablePercent>`]),
+    `${indent}</ram:${tag}>`,
+  ];
+}
+
+export function buildFacturXInvoiceXml(document: EInvoiceDocument): string {
+  const totals = calculateEInvoiceTotals(document);
+  const currency = escapeXml(document.currency);
+  const allowanceCharges = [
+    ...document.charges.map((entry) => ({ ...entry, charge: true })),
+    ...document.allowances.map((entry) => ({ ...entry, charge: false })),
+  ];
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rsm:CrossIndustryInvoice xmlns:rsm="urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100"',
+    '  xmlns:ram="urn:un:unece:uncefact:data:standard:ReusableAggregateBusinessInformationEntity:100"',
+    '  xmlns:qdt="urn:un:unece:uncefact:data:standard:QualifiedDataType:100"',
+    '  xmlns:udt="urn:un:unece:uncefact:data:standard:UnqualifiedDataType:100">',
+    "  <rsm:ExchangedDocumentContext>",
+    "    <ram:GuidelineSpecifiedDocumentContextParameter>",
+    "      <ram:ID>urn:cen.eu:en16931:2017</ram:ID>",
+    "    </ram:GuidelineSpecifiedDocumentContextParameter>",
+    "  </rsm:ExchangedDocumentContext>",
+    "  <rsm:ExchangedDocument>",
+    `    <ram:ID>${escapeXml(document.invoiceNumber)}</ram:ID>`,
+    "    <ram:TypeCode>380</ram:TypeCode>",
+    "    <ram:IssueDateTime>",
+    `      <udt:DateTimeString format="102">${formatCiiDate(document.issueDate)}</udt:DateTimeString>`,
+    "    </ram:IssueDateTime>",
+    ...(document.notes
+      ? ["    <ram:IncludedNote>", `      <ram:Content>${escapeXml(document.notes)}</ram:Content>`, "    </ram:IncludedNote>"]
+      : []),
+    "  </rsm:ExchangedDocument>",
+    "  <rsm:SupplyChainTradeTransaction>",
+    ...document.lines.flatMap((line, index) => [
+      "    <ram:IncludedSupplyChainTradeLineItem>",
+      "      <ram:AssociatedDocumentLineDocument>",
+      `        <ram:LineID>${index + 1}</ram:LineID>`,
+      "      </ram:AssociatedDocumentLineDocument>",
+      "      <ram:SpecifiedTradeProduct>",
+      `        <ram:Name>${escapeXml(line.description)}</ram:Name>`,
+      "      </ram:SpecifiedTradeProduct>",
+      "      <ram:SpecifiedLineTradeAgreement>",
+      "        <ram:NetPriceProductTradePrice>",
+      `          <ram:ChargeAmount>${formatAmount(line.unitPrice)}</ram:ChargeAmount>`,
+      "        </ram:NetPriceProductTradePrice>",
+      "      </ram:SpecifiedLineTradeAgreement>",
+      "      <ram:SpecifiedLineTradeDelivery>",
+      `        <ram:BilledQuantity unitCode="C62">${line.quantity}</ram:BilledQuantity>`,
+      "      </ram:SpecifiedLineTradeDelivery>",
+      "      <ram:SpecifiedLineTradeSettlement>",
+      ...buildCiiTradeTax("ApplicableTradeTax", line.taxCategory, line.taxPercent, "        "),
+      "        <ram:SpecifiedTradeSettlementLineMonetarySummation>",
+      `          <ram:LineTotalAmount>${formatAmount(lineNetAmount(line))}</ram:LineTotalAmount>`,
+      "        </ram:SpecifiedTradeSettlementLineMonetarySummation>",
+      "      </ram:SpecifiedLineTradeSettlement>",
+      "    </ram:IncludedSupplyChainTradeLineItem>",
+    ]),
+    "    <ram:ApplicableHeaderTradeAgreement>",
+    `      <ram:BuyerReference>${escapeXml(document.buyerReference || document.invoiceNumber)}</ram:BuyerReference>`,
+    ...buildCiiParty(document.seller, "SellerTradeParty"),
+    ...buildCiiParty(document.buyer, "BuyerTradeParty"),
+    "    </ram:ApplicableHeaderTradeAgreement>",
+    "    <ram:ApplicableHeaderTradeDelivery />",
+    "    <ram:ApplicableHeaderTradeSettlement>",
+    `      <ram:InvoiceCurrencyCode>${currency}</ram:InvoiceCurrencyCode>`,
+    ...totals.breakdown.flatMap((group) =>
+      buildCiiTradeTax("ApplicableTradeTax", group.category, group.percent, "      ", {
+        calculated: group.taxAmount,
+        basis: group.taxableAmount,
+        reason: group.exemptionReason,
+      }),
+    ),
+    ...allowanceCharges.flatMap((entry) => [
+      "      <ram:SpecifiedTradeAllowanceCharge>",
+      "        <ram:ChargeIndicator>",
+      `          <udt:Indicator>${entry.charge}</udt:Indicator>`,
+      "        </ram:ChargeIndicator>",
+      `        <ram:ActualAmount>${formatAmount(entry.amount)}</ram:ActualAmount>`,
+      `        <ram:Reason>${escapeXml(entry.reason)}</ram:Reason>`,
+      ...buildCiiTradeTax("CategoryTradeTax", entry.taxCategory, entry.taxPercent, "        "),
+      "      </ram:SpecifiedTradeAllowanceCharge>",
+    ]),
+    ...(document.paymentTerms || document.dueDate
+      ? [
+          "      <ram:SpecifiedTradePaymentTerms>",
+          ...(document.paymentTerms ? [`        <ram:Description>${escapeXml(document.paymentTerms)}</ram:Description>`] : []),
+          ...(document.dueDate
+            ? [
+                "        <ram:DueDateDateTime>",
+                `          <udt:DateTimeString format="102">${formatCiiDate(document.dueDate)}</udt:DateTimeString>`,
+                "        </ram:DueDateDateTime>",
+              ]
+            : []),
+          "      </ram:SpecifiedTradePaymentTerms>",
+        ]
+      : []),
+    "      <ram:SpecifiedTradeSettlementHeaderMonetarySummation>",
+    `        <ram:LineTotalAmount>${formatAmount(totals.lineTotal)}</ram:LineTotalAmount>`,
+    `        <ram:ChargeTotalAmount>${formatAmount(totals.chargeTotal)}</ram:ChargeTotalAmount>`,
+    `        <ram:AllowanceTotalAmount>${formatAmount(totals.allowanceTotal)}</ram:AllowanceTotalAmount>`,
+    `        <ram:TaxBasisTotalAmount>${formatAmount(totals.taxExclusive)}</ram:TaxBasisTotalAmount>`,
+    `        <ram:TaxTotalAmount currencyID="${currency}">${formatAmount(totals.taxTotal)}</ram:TaxTotalAmount>`,
+    `        <ram:GrandTotalAmount>${formatAmount(totals.taxInclusive)}</ram:GrandTotalAmount>`,
+    `        <ram:DuePayableAmount>${formatAmount(totals.taxInclusive)}</ram:DuePayableAmount>`,
+    "      </ram:SpecifiedTradeSettlementHeaderMonetarySummation>",
+    "    </ram:ApplicableHeaderTradeSettlement>",
+    "  </rsm:SupplyChainTradeTransaction>",
+    "</rsm:CrossIndustryInvoice>",
+  ];
+  return `${lines.join("\n")}\n`;
+}
+
+export function buildFacturXMetadata(input: { title: string; producer: string; createdAt: Date }): string {
+  const timestamp = input.createdAt.toISOString().replace(/\.\d{3}Z$/, "Z");
+  const title = escapeXml(input.title);
+  const producer = escapeXml(input.producer);
+  const extensionProperty = (name: string, description: string) => [
+    "              <rdf:li rdf:parseType=\"Resource\">",
+    `                <pdfaProperty:name>${name}</pdfaProperty:name>`,
+    "                <pdfaProperty:valueType>Text</pdfaProperty:valueType>",
+    "                <pdfaProperty:category>external</pdfaProperty:category>",
+    `                <pdfaProperty:description>${description}</pdfaProperty:description>`,
+    "              </rdf:li>",
+  ];
+
+  return [
+    `<?xpacket begin="\ufeff" id="W5M0MpCehiHzreSzNTczkc9d"?>`,
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '    <rdf:Description rdf:about="" xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/">',
+    "      <pdfaid:part>3</pdfaid:part>",
+    "      <pdfaid:conformance>B</pdfaid:conformance>",
+    "    </rdf:Description>",
+    '    <rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    "      <dc:format>application/pdf</dc:format>",
+    `      <dc:title><rdf:Alt><rdf:li xml:lang="x-default">${title}</rdf:li></rdf:Alt></dc:title>`,
+    "    </rdf:Description>",
+    '    <rdf:Description rdf:about="" xmlns:pdf="http://ns.adobe.com/pdf/1.3/">',
+    `      <pdf:Producer>${producer}</pdf:Producer>`,
+    "    </rdf:Description>",
+    '    <rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/">',
+    `      <xmp:CreatorTool>${producer}</xmp:CreatorTool>`,
+    `      <xmp:CreateDate>${timestamp}</xmp:CreateDate>`,
+    `      <xmp:ModifyDate>${timestamp}</xmp:ModifyDate>`,
+    "    </rdf:Description>",
+    '    <rdf:Description rdf:about="" xmlns:pdfaExtension="http://www.aiim.org/pdfa/ns/extension/"',
+    '      xmlns:pdfaSchema="http://www.aiim.org/pdfa/ns/schema#" xmlns:pdfaProperty="http://www.aiim.org/pdfa/ns/property#">',
+    "      <pdfaExtension:schemas>",
+    "        <rdf:Bag>",
+    '          <rdf:li rdf:parseType="Resource">',
+    "            <pdfaSchema:schema>Factur-X PDFA Extension Schema</pdfaSchema:schema>",
+    "            <pdfaSchema:namespaceURI>urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#</pdfaSchema:namespaceURI>",
+    "            <pdfaSchema:prefix>fx</pdfaSchema:prefix>",
+    "            <pdfaSchema:property>",
+    "              <rdf:Seq>",
+    ...extensionProperty("DocumentFileName", "The name of the embedded XML document"),
+    ...extensionProperty("DocumentType", "The type of the hybrid document in capital letters, e.g. INVOICE or ORDER"),
+    ...extensionProperty("Version", "The actual version of the standard applying to the embedded XML document"),
+    ...extensionProperty("ConformanceLevel", "The conformance level of the embedded XML document"),
+    "              </rdf:Seq>",
+    "            </pdfaSchema:property>",
+    "          </rdf:li>",
+    "        </rdf:Bag>",
+    "      </pdfaExtension:schemas>",
+    "    </rdf:Description>",
+    '    <rdf:Description rdf:about="" xmlns:fx="urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#">',
+    "      <fx:DocumentType>INVOICE</fx:DocumentType>",
+    "      <fx:DocumentFileName>factur-x.xml</fx:DocumentFileName>",
+    "      <fx:Version>1.0</fx:Version>",
+    "      <fx:ConformanceLevel>EN 16931</fx:ConformanceLevel>",
+    "    </rdf:Description>",
+    "  </rdf:RDF>",
+    "</x:xmpmeta>",
+    '<?xpacket end="w"?>',
+  ].join("\n");
+}
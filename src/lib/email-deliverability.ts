@@ -0,0 +1,912 @@
+export type EmailAuthArea = "spf" | "dmarc" | "dkim" | "mta-sts" | "tls-rpt" | "bimi" | "mx";
+export type EmailAuthSeverity = "critical" | "high" | "medium" | "low";
+
+export interface EmailAuthIssue {
+  area: EmailAuthArea;
+  severity: EmailAuthSeverity;
+  message: string;
+  fix: string;
+}
+
+export interface TxtLookupResult {
+  records: string[];
+  error?: string;
+}
+
+export type TxtResolver = (name: string) => Promise<TxtLookupResult>;
+export type PolicyFetcher = (url: string) => Promise<{ ok: boolean; status?: number; body: string; error?: string }>;
+
+export interface SpfTerm {
+  raw: string;
+  qualifier: "+" | "-" | "~" | "?";
+  name: string;
+  value: string;
+  countsLookup: boolean;
+}
+
+export interface SpfNode {
+  domain: string;
+  record: string | null;
+  terms: SpfTerm[];
+  lookups: number;
+  children: SpfNode[];
+  error?: string;
+}
+
+export interface SpfAnalysis {
+  record: string | null;
+  recordCount: number;
+  tree: SpfNode | null;
+  lookupCount: number;
+  voidLookups: number;
+  allQualifier: SpfTerm["qualifier"] | null;
+}
+
+export interface DmarcAnalysis {
+  record: string | null;
+  recordCount: number;
+  tags: Record<string, string>;
+  policy: string | null;
+  subdomainPolicy: string | null;
+  pct: number;
+  rua: string[];
+  ruf: string[];
+}
+
+export interface DkimSelectorAnalysis {
+  selector: string;
+  name: string;
+  record: string | null;
+  keyType: string;
+  keyBits: number | null;
+  testing: boolean;
+  revoked: boolean;
+  valid: boolean;
+}
+
+export interface MtaStsPolicy {
+  version: string;
+  mode: string;
+  mx: string[];
+  maxAge: number | null;
+}
+
+export interface MtaStsAnalysis {
+  record: string | null;
+  id: string | null;
+  policyUrl: string;
+  policy: MtaStsPolicy | null;
+  policyError?: string;
+  uncoveredMx: string[];
+}
+
+export interface TlsRptAnalysis {
+  record: string | null;
+  rua: string[];
+}
+
+export interface BimiAnalysis {
+  record: string | null;
+  logoUrl: string | null;
+  authorityUrl: string | null;
+}
+
+export interface EmailDeliverabilityReport {
+  domain: string;
+  mxHosts: string[];
+  nullMx: boolean;
+  spf: SpfAnalysis;
+  dmarc: DmarcAnalysis;
+  dkim: DkimSelectorAnalysis[];
+  mtaSts: MtaStsAnalysis;
+  tlsRpt: TlsRptAnalysis;
+  bimi: BimiAnalysis;
+  issues: EmailAuthIssue[];
+  score: number;
+}
+
+export interface EmailDeliverabilityInput {
+  domain: string;
+  mxHosts: string[];
+  selectors: string[];
+  resolveTxt: TxtResolver;
+  fetchPolicy: PolicyFetcher;
+}
+
+export const EMAIL_AUTH_SEVERITY_ORDER: EmailAuthSeverity[] = ["critical", "high", "medium", "low"];
+
+const SPF_LOOKUP_LIMIT = 10;
+const SPF_VOID_LOOKUP_LIMIT = 2;
+const SPF_MAX_DEPTH = 10;
+const SPF_LOOKUP_MECHANISMS = new Set(["include", "a", "mx", "ptr", "exists"]);
+const SPF_KNOWN_MECHANISMS = new Set(["all", "include", "a", "mx", "ptr", "ip4", "ip6", "exists"]);
+const SEVERITY_PENALTY: Record<EmailAuthSeverity, number> = { critical: 25, high: 15, medium: 8, low: 3 };
+
+export function normalizeDkimSelectors(value: string): string[] {
+  return [
+    ...new Set(
+      value
+        .split(/[\s,;]+/)
+        .map((entry) => entry.trim().toLowerCase().replace(/\._domainkey.*$/, ""))
+        .filter((entry) => /^[a-z0-9](?:[a-z0-9._-]{0,62})$/.test(entry)),
+    ),
+  ].slice(0, 10);
+}
+
+export function parseTagList(record: string): Record<string, string> {
+  const tags: Record<string, string> = {};
+  record.split(";").forEach((part) => {
+    const separator = part.indexOf("=");
+    if (separator <= 0) return;
+    const key = part.slice(0, separator).trim().toLowerCase();
+    if (key && !(key in tags)) tags[key] = part.slice(separator + 1).trim();
+  });
+  return tags;
+}
+
+function findRecords(records: string[], pattern: RegExp): string[] {
+  return records.filter((record) => pattern.test(record.trim()));
+}
+
+export function parseSpfTerms(record: string): SpfTerm[] {
+  return record
+    .trim()
+    .split(/\s+/)
+    .slice(1)
+    .filter(Boolean)
+    .map((raw) => {
+      const modifier = raw.match(/^([a-z][a-z0-9_.-]*)=(.*)$/i);
+      if (modifier) {
+        const name = modifier[1].toLowerCase();
+        return { raw, qualifier: "+", name, value: modifier[2], countsLookup: name === "redirect" };
+      }
+      const qualifier = /^[+\-~?]/.test(raw) ? (raw[0] as SpfTerm["qualifier"]) : "+";
+      const body = qualifier === raw[0] ? raw.slice(1) : raw;
+      const match = body.match(/^([a-z0-9]+)(?:[:/](.*))?$/i);
+      const name = (match?.[1] ?? body).toLowerCase();
+      return { raw, qualifier, name, value: match?.[2] ?? "", countsLookup: SPF_LOOKUP_MECHANISMS.has(name) };
+    });
+}
+
+async function resolveSpfNode(
+  domain: string,
+  resolveTxt: TxtResolver,
+  state: { lookups: number; voidLookups: number; stack: string[] },
+): Promise<SpfNode> {
+  const lookup = await resolveTxt(domain);
+  const records = findRecords(lookup.records, /^v=spf1(\s|$)/i);
+  if (lookup.error) return { domain, record: null, terms: [], lookups: 0, children: [], error: lookup.error };
+  if (!lookup.records.length) state.voidLookups += 1;
+  if (records.length !== 1) {
+    return {
+      domain,
+      record: records[0] ?? null,
+      terms: [],
+      lookups: 0,
+      children: [],
+      error: records.length ? "Multiple SPF records (permerror)." : "No SPF record (permerror).",
+    };
+  }
+
+  const terms = parseSpfTerms(records[0]);
+  const node: SpfNode = { domain, record: records[0], terms, lookups: 0, children: [] };
+  for (const term of terms) {
+    if (!term.countsLookup) continue;
+    if (term.name === "redirect" && terms.some((entry) => entry.name === "all")) continue;
+    node.lookups += 1;
+    state.lookups += 1;
+    if (term.name !== "include" && term.name !== "redirect") continue;
+    const target = term.value.toLowerCase().replace(/\.$/, "");
+    if (!target || target.includes("%{")) continue;
+    if (state.stack.includes(target)) {
+      node.children.push({ domain: target, record: null, terms: [], lookups: 0, children: [], error: "Include loop." });
+      continue;
+    }
+    if (state.stack.length >= SPF_MAX_DEPTH || state.lookups > SPF_LOOKUP_LIMIT * 3) continue;
+    state.stack.push(target);
+    node.children.push(await resolveSpfNode(target, resolveTxt, state));
+    state.stack.pop();
+  }
+  return node;
+}
+
+function collectSpfErrors(node: SpfNode, isRoot: boolean): SpfNode[] {
+  return [...(!isRoot && node.error ? [node] : []), ...node.children.flatMap((child) => collectSpfErrors(child, false))];
+}
+
+async function analyzeSpf(
+  domain: string,
+  rootRecords: string[],
+  resolveTxt: TxtResolver,
+  issues: EmailAuthIssue[],
+): Promise<SpfAnalysis> {
+  const records = findRecords(rootRecords, /^v=spf1(\s|$)/i);
+  const analysis: SpfAnalysis = {
+    record: records[0] ?? null,
+    recordCount: records.length,
+    tree: null,
+    lookupCount: 0,
+    voidLookups: 0,
+    allQualifier: null,
+  };
+  if (!records.length) {
+    issues.push({
+      area: "spf",
+      severity: "high",
+      message: "No SPF record is published.",
+      fix: `Publish a TXT record on ${domain} such as "v=spf1 include:<your provider> -all" listing every service that sends as this domain.`,
+    });
+    return analysis;
+  }
+  if (records.length > 1) {
+    issues.push({
+      area: "spf",
+      severity: "critical",
+      message: `${records.length} SPF records are published, so receivers return permerror.`,
+      fix: "Merge all v=spf1 TXT records into a single record.",
+    });
+    return analysis;
+  }
+
+  const state = { lookups: 0, voidLookups: 0, stack: [domain] };
+  analysis.tree = await resolveSpfNode(domain, resolveTxt, state);
+  analysis.lookupCount = state.lookups;
+  analysis.voidLookups = state.voidLookups;
+  const terms = analysis.tree.terms;
+  const all = terms.find((term) => term.name === "all");
+  analysis.allQualifier = all?.qualifier ?? null;
+
+  if (state.lookups > SPF_LOOKUP_LIMIT) {
+    issues.push({
+      area: "spf",
+      severity: "critical",
+      message: `SPF needs ${state.lookups} DNS lookups; the limit is ${SPF_LOOKUP_LIMIT}, so receivers return permerror.`,
+      fix: "Remove unused includes, replace a/mx mechanisms with ip4/ip6 ranges, or move some senders to a subdomain.",
+    });
+  } else if (state.lookups >= SPF_LOOKUP_LIMIT - 1) {
+    issues.push({
+      area: "spf",
+      severity: "medium",
+      message: `SPF uses ${state.lookups} of ${SPF_LOOKUP_LIMIT} DNS lookups; one provider change can break it.`,
+      fix: "Trim includes you no longer use before adding new senders.",
+    });
+  }
+  if (state.voidLookups > SPF_VOID_LOOKUP_LIMIT) {
+    issues.push({
+      area: "spf",
+      severity: "high",
+      message: `${state.voidLookups} SPF lookups return no records; more than ${SPF_VOID_LOOKUP_LIMIT} is a permerror.`,
+      fix: "Remove includes that point at domains without SPF records.",
+    });
+  }
+  collectSpfErrors(analysis.tree, true).forEach((node) => {
+    issues.push({
+      area: "spf",
+      severity: "high",
+      message: `Included domain ${node.domain}: ${node.error}`,
+      fix: `Fix or remove the include for ${node.domain}.`,
+    });
+  });
+
+  const unknown = terms.filter(
+    (term) => !SPF_KNOWN_MECHANISMS.has(term.name) && !term.raw.includes("=") && term.name !== "v",
+  );
+  if (unknown.length) {
+    issues.push({
+      area: "spf",
+      severity: "high",
+      message: `Unknown SPF mechanisms: ${unknown.map((term) => term.raw).join(", ")}.`,
+      fix: "Correct the typo; unknown mechanisms make the whole record a permerror.",
+    });
+  }
+  if (all?.qualifier === "+") {
+    issues.push({
+      area: "spf",
+      severity: "critical",
+      message: "SPF ends in +all, which authorizes every server on the internet.",
+      fix: "Replace +all with -all (or ~all while you verify senders).",
+    });
+  } else if (all?.qualifier === "?" || (!all && !terms.some((term) => term.name === "redirect"))) {
+    issues.push({
+      area: "spf",
+      severity: "medium",
+      message: all ? "SPF ends in ?all (neutral), so unauthorized senders are not flagged." : "SPF has no all mechanism or redirect.",
+      fix: "End the record with -all or ~all.",
+    });
+  } else if (all?.qualifier === "~") {
+    issues.push({
+      area: "spf",
+      severity: "low",
+      message: "SPF ends in ~all (softfail).",
+      fix: "Switch to -all once DMARC reports show every legitimate sender passing.",
+    });
+  }
+  if (terms.some((term) => term.name === "ptr")) {
+    issues.push({
+      area: "spf",
+      severity: "medium",
+      message: "SPF uses the deprecated ptr mechanism.",
+      fix: "Replace ptr with explicit ip4/ip6 ranges or includes.",
+    });
+  }
+  if (terms.some((term) => term.value.includes("%{"))) {
+    issues.push({
+      area: "spf",
+      severity: "low",
+      message: "SPF uses macros, which were not expanded in this check.",
+      fix: "Confirm the macro targets resolve for your real sending IPs.",
+    });
+  }
+  if (all && terms.some((term) => term.name === "redirect")) {
+    issues.push({
+      area: "spf",
+      severity: "low",
+      message: "SPF has both all and redirect; redirect is ignored.",
+      fix: "Remove either the redirect modifier or the all mechanism.",
+    });
+  }
+  return analysis;
+}
+
+function parseMailtoList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+function getMailtoDomain(uri: string): string | null {
+  const match = uri.match(/^mailto:[^@\s]+@([^!\s]+)/i);
+  return match ? match[1].toLowerCase().replace(/\.$/, "") : null;
+}
+
+function isSameOrganization(domain: string, other: string): boolean {
+  const base = domain.split(".").slice(-2).join(".");
+  return other === base || other.endsWith(`.${base}`);
+}
+
+async function analyzeDmarc(
+  domain: string,
+  resolveTxt: TxtResolver,
+  issues: EmailAuthIssue[],
+): Promise<DmarcAnalysis> {
+  const lookup = await resolveTxt(`_dmarc.${domain}`);
+  const records = findRecords(lookup.records, /^v\s*=\s*dmarc1/i);
+  const candidates = lookup.records.filter((record) => /dmarc1/i.test(record));
+  const analysis: DmarcAnalysis = {
+    record: records[0] ?? candidates[0] ?? null,
+    recordCount: records.length,
+    tags: {},
+    policy: null,
+    subdomainPolicy: null,
+    pct: 100,
+    rua: [],
+    ruf: [],
+  };
+
+  if (!records.length) {
+    issues.push({
+      area: "dmarc",
+      severity: "critical",
+      message: candidates.length
+        ? "The DMARC record does not start with v=DMARC1, so receivers ignore it."
+        : "No DMARC record is published. Gmail and Yahoo require DMARC for bulk senders.",
+      fix: `Publish TXT _dmarc.${domain} with "v=DMARC1; p=none; rua=mailto:dmarc@${domain}", then move to quarantine and reject as reports come in.`,
+    });
+    return analysis;
+  }
+  if (records.length > 1) {
+    issues.push({
+      area: "dmarc",
+      severity: "critical",
+      message: `${records.length} DMARC records are published, so receivers ignore DMARC entirely.`,
+      fix: `Keep a single TXT record at _dmarc.${domain}.`,
+    });
+  }
+
+  const tags = parseTagList(records[0]);
+  analysis.tags = tags;
+  analysis.policy = tags.p?.toLowerCase() ?? null;
+  analysis.subdomainPolicy = tags.sp?.toLowerCase() ?? null;
+  const pct = Number.parseInt(tags.pct ?? "100", 10);
+  analysis.pct = Number.isFinite(pct) ? Math.max(0, Math.min(100, pct)) : 100;
+  analysis.rua = parseMailtoList(tags.rua);
+  analysis.ruf = parseMailtoList(tags.ruf);
+
+  if (!analysis.policy || !["none", "quarantine", "reject"].includes(analysis.policy)) {
+    issues.push({
+      area: "dmarc",
+      severity: "critical",
+      message: analysis.policy ? `DMARC policy p=${analysis.policy} is not valid.` : "DMARC record has no p= policy tag.",
+      fix: "Set p=none, p=quarantine, or p=reject.",
+    });
+  } else if (analysis.policy === "none") {
+    issues.push({
+      area: "dmarc",
+      severity: "high",
+      message: "DMARC is in monitoring mode (p=none), so spoofed mail is still delivered.",
+      fix: "Review aggregate reports, then move to p=quarantine and finally p=reject.",
+    });
+  } else if (analysis.pct < 100) {
+    issues.push({
+      area: "dmarc",
+      severity: "medium",
+      message: `DMARC applies p=${analysis.policy} to only ${analysis.pct}% of failing mail.`,
+      fix: "Raise pct to 100 (or remove the tag) once reports look clean.",
+    });
+  }
+  if (analysis.subdomainPolicy === "none" && analysis.policy && analysis.policy !== "none") {
+    issues.push({
+      area: "dmarc",
+      severity: "medium",
+      message: "Subdomains are left unprotected with sp=none.",
+      fix: "Remove sp=none or set it to quarantine or reject.",
+    });
+  }
+  if (!analysis.rua.length) {
+    issues.push({
+      area: "dmarc",
+      severity: "medium",
+      message: "DMARC has no rua= address, so you receive no aggregate reports.",
+      fix: `Add rua=mailto:dmarc@${domain} (or your DMARC reporting provider).`,
+    });
+  }
+  const badUris = [...analysis.rua, ...analysis.ruf].filter((uri) => !getMailtoDomain(uri));
+  if (badUris.length) {
+    issues.push({
+      area: "dmarc",
+      severity: "medium",
+      message: `Report addresses are not valid mailto: URIs: ${badUris.join(", ")}.`,
+      fix: "Use the form rua=mailto:reports@example.com.",
+    });
+  }
+  const externalDomains = [
+    ...new Set(
+      [...analysis.rua, ...analysis.ruf]
+        .map(getMailtoDomain)
+        .filter((entry): entry is string => Boolean(entry) && !isSameOrganization(domain, entry as string)),
+    ),
+  ];
+  for (const reportDomain of externalDomains) {
+    const authorization = await resolveTxt(`${domain}._report._dmarc.${reportDomain}`);
+    if (!authorization.error && !findRecords(authorization.records, /^v\s*=\s*dmarc1/i).length) {
+      issues.push({
+        area: "dmarc",
+        severity: "high",
+        message: `${reportDomain} has not authorized receiving DMARC reports for ${domain}; receivers will drop them.`,
+        fix: `Ask the owner of ${reportDomain} to publish TXT ${domain}._report._dmarc.${reportDomain} "v=DMARC1".`,
+      });
+    }
+  }
+  if (analysis.ruf.length) {
+    issues.push({
+      area: "dmarc",
+      severity: "low",
+      message: "Forensic (ruf) reports are requested; most large receivers never send them and they can contain message content.",
+      fix: "Keep ruf only if you process it; rely on rua for monitoring.",
+    });
+  }
+  return analysis;
+}
+
+function decodeBase64(value: string): Uint8Array | null {
+  try {
+    const binary = atob(value.replace(/\s+/g, ""));
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+function readDerElement(bytes: Uint8Array, offset: number): { tag: number; start: number; end: number } | null {
+  if (offset + 2 > bytes.length) return null;
+  const tag = bytes[offset];
+  let length = bytes[offset + 1];
+  let start = offset + 2;
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    if (count < 1 || count > 4 || start + count > bytes.length) return null;
+    length = 0;
+    for (let index = 0; index < count; index += 1) length = length * 256 + bytes[start + index];
+    start += count;
+  }
+  return start + length <= bytes.length ? { tag, start, end: start + length } : null;
+}
+
+export function getRsaKeyBits(base64Key: string): number | null {
+  const bytes = decodeBase64(base64Key);
+  if (!bytes) return null;
+  let outer = readDerElement(bytes, 0);
+  if (!outer || outer.tag !== 0x30) return null;
+  let cursor = readDerElement(bytes, outer.start);
+  if (cursor?.tag === 0x30) {
+    const bitString = readDerElement(bytes, cursor.end);
+    if (!bitString || bitString.tag !== 0x03) return null;
+    outer = readDerElement(bytes, bitString.start + 1);
+    if (!outer || outer.tag !== 0x30) return null;
+    cursor = readDerElement(bytes, outer.start);
+  }
+  if (!cursor || cursor.tag !== 0x02) return null;
+  let start = cursor.start;
+  while (start < cursor.end && bytes[start] === 0) start += 1;
+  if (start >= cursor.end) return null;
+  return (cursor.end - start - 1) * 8 + Math.floor(Math.log2(bytes[start])) + 1;
+}
+
+async function analyzeDkimSelector(
+  domain: string,
+  selector: string,
+  resolveTxt: TxtResolver,
+  issues: EmailAuthIssue[],
+): Promise<DkimSelectorAnalysis> {
+  const name = `${selector}._domainkey.${domain}`;
+  const lookup = await resolveTxt(name);
+  const record = lookup.records.find((entry) => /(^|;)\s*(v=dkim1|p=|k=)/i.test(entry)) ?? null;
+  const analysis: DkimSelectorAnalysis = {
+    selector,
+    name,
+    record,
+    keyType: "rsa",
+    keyBits: null,
+    testing: false,
+    revoked: false,
+    valid: false,
+  };
+  if (!record) {
+    issues.push({
+      area: "dkim",
+      severity: "high",
+      message: lookup.error ? `DKIM selector ${selector} could not be resolved: ${lookup.error}` : `No DKIM key at ${name}.`,
+      fix: `Publish the public key from your sending provider at ${name}, or check the selector in a message's DKIM-Signature s= tag.`,
+    });
+    return analysis;
+  }
+
+  const tags = parseTagList(record);
+  analysis.keyType = (tags.k ?? "rsa").toLowerCase();
+  analysis.testing = (tags.t ?? "").split(":").some((flag) => flag.trim().toLowerCase() === "y");
+  analysis.revoked = !tags.p?.trim();
+  if (tags.v && tags.v.toUpperCase() !== "DKIM1") {
+    issues.push({
+      area: "dkim",
+      severity: "high",
+      message: `DKIM selector ${selector} has v=${tags.v}; only DKIM1 is valid.`,
+      fix: "Set v=DKIM1 or remove the tag.",
+    });
+    return analysis;
+  }
+  if (analysis.revoked) {
+    issues.push({
+      area: "dkim",
+      severity: "high",
+      message: `DKIM selector ${selector} has an empty p= tag (revoked key).`,
+      fix: "Stop signing with this selector or publish its current public key.",
+    });
+    return analysis;
+  }
+
+  if (analysis.keyType === "ed25519") {
+    analysis.keyBits = 256;
+  } else if (analysis.keyType === "rsa") {
+    analysis.keyBits = getRsaKeyBits(tags.p);
+    if (analysis.keyBits === null) {
+      issues.push({
+        area: "dkim",
+        severity: "high",
+        message: `DKIM selector ${selector} has a p= value that is not a valid RSA public key.`,
+        fix: "Re-copy the key from your provider; TXT records split across strings are a common cause.",
+      });
+      return analysis;
+    }
+    if (analysis.keyBits < 1024) {
+      issues.push({
+        area: "dkim",
+        severity: "critical",
+        message: `DKIM selector ${selector} uses a ${analysis.keyBits}-bit RSA key, which receivers reject.`,
+        fix: "Rotate to a 2048-bit key.",
+      });
+    } else if (analysis.keyBits < 2048) {
+      issues.push({
+        area: "dkim",
+        severity: "medium",
+        message: `DKIM selector ${selector} uses a ${analysis.keyBits}-bit RSA key.`,
+        fix: "Rotate to a 2048-bit key with a new selector.",
+      });
+    }
+  } else {
+    issues.push({
+      area: "dkim",
+      severity: "high",
+      message: `DKIM selector ${selector} uses unknown key type k=${analysis.keyType}.`,
+      fix: "Use k=rsa or k=ed25519.",
+    });
+    return analysis;
+  }
+  if (analysis.testing) {
+    issues.push({
+      area: "dkim",
+      severity: "low",
+      message: `DKIM selector ${selector} is flagged as testing (t=y).`,
+      fix: "Remove t=y once signing is verified.",
+    });
+  }
+  analysis.valid = true;
+  return analysis;
+}
+
+export function parseMtaStsPolicy(body: string): MtaStsPolicy {
+  const policy: MtaStsPolicy = { version: "", mode: "", mx: [], maxAge: null };
+  body.split(/\r?\n/).forEach((line) => {
+    const separator = line.indexOf(":");
+    if (separator <= 0) return;
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+    if (key === "version") policy.version = value;
+    if (key === "mode") policy.mode = value.toLowerCase();
+    if (key === "mx") policy.mx.push(value.toLowerCase().replace(/\.$/, ""));
+    if (key === "max_age") {
+      const maxAge = Number.parseInt(value, 10);
+      policy.maxAge = Number.isFinite(maxAge) ? maxAge : null;
+    }
+  });
+  return policy;
+}
+
+function matchesMtaStsPattern(host: string, pattern: string): boolean {
+  if (pattern.startsWith("*.")) {
+    const suffix = pattern.slice(1);
+    return host.endsWith(suffix) && !host.slice(0, -suffix.length).includes(".");
+  }
+  return host === pattern;
+}
+
+async function analyzeMtaSts(
+  domain: string,
+  mxHosts: string[],
+  resolveTxt: TxtResolver,
+  fetchPolicy: PolicyFetcher,
+  issues: EmailAuthIssue[],
+): Promise<MtaStsAnalysis> {
+  const lookup = await resolveTxt(`_mta-sts.${domain}`);
+  const record = lookup.records.find((entry) => /^v=stsv1/i.test(entry.trim())) ?? null;
+  const analysis: MtaStsAnalysis = {
+    record,
+    id: null,
+    policyUrl: `https://mta-sts.${domain}/.well-known/mta-sts.txt`,
+    policy: null,
+    uncoveredMx: [],
+  };
+  if (!record) {
+    if (mxHosts.length) {
+      issues.push({
+        area: "mta-sts",
+        severity: "low",
+        message: "MTA-STS is not configured, so inbound TLS can be downgraded.",
+        fix: `Publish TXT _mta-sts.${domain} "v=STSv1; id=<date>" and host a policy at ${analysis.policyUrl}, starting in mode: testing.`,
+      });
+    }
+    return analysis;
+  }
+
+  analysis.id = parseTagList(record).id ?? null;
+  if (!analysis.id || !/^[a-z0-9]{1,32}$/i.test(analysis.id)) {
+    issues.push({
+      area: "mta-sts",
+      severity: "high",
+      message: "The MTA-STS TXT record needs an id= of 1-32 letters or digits.",
+      fix: "Set id= to a value such as the policy's last-changed date (20260101).",
+    });
+  }
+
+  const response = await fetchPolicy(analysis.policyUrl);
+  if (!response.ok) {
+    analysis.policyError = response.error ?? `Policy request returned HTTP ${response.status ?? "error"}.`;
+    issues.push({
+      area: "mta-sts",
+      severity: "high",
+      message: `MTA-STS is advertised but the policy file is unavailable: ${analysis.policyError}`,
+      fix: `Serve ${analysis.policyUrl} over HTTPS with a valid certificate for mta-sts.${domain}.`,
+    });
+    return analysis;
+  }
+
+  const policy = parseMtaStsPolicy(response.body);
+  analysis.policy = policy;
+  if (policy.version !== "STSv1" || !["enforce", "testing", "none"].includes(policy.mode) || policy.maxAge === null) {
+    issues.push({
+      area: "mta-sts",
+      severity: "high",
+      message: "The MTA-STS policy is missing version: STSv1, a valid mode, or max_age.",
+      fix: "Include version, mode, mx, and max_age lines in the policy file.",
+    });
+  }
+  analysis.uncoveredMx = mxHosts.filter((host) => !policy.mx.some((pattern) => matchesMtaStsPattern(host, pattern)));
+  if (analysis.uncoveredMx.length) {
+    issues.push({
+      area: "mta-sts",
+      severity: policy.mode === "enforce" ? "critical" : "high",
+      message: `MX hosts not covered by the MTA-STS policy: ${analysis.uncoveredMx.join(", ")}.`,
+      fix: "Add matching mx: lines; in enforce mode, senders refuse to deliver to uncovered hosts.",
+    });
+  }
+  if (policy.mode === "testing") {
+    issues.push({
+      area: "mta-sts",
+      severity: "low",
+      message: "MTA-STS is in testing mode, so failures are reported but not enforced.",
+      fix: "Switch to mode: enforce once TLS-RPT reports are clean, and bump the TXT id.",
+    });
+  } else if (policy.mode === "none") {
+    issues.push({
+      area: "mta-sts",
+      severity: "medium",
+      message: "MTA-STS policy mode is none, which disables protection.",
+      fix: "Use mode: testing or mode: enforce.",
+    });
+  }
+  if (policy.maxAge !== null && policy.maxAge < 86_400) {
+    issues.push({
+      area: "mta-sts",
+      severity: "low",
+      message: `MTA-STS max_age is ${policy.maxAge} seconds, so senders re-fetch the policy constantly.`,
+      fix: "Use max_age of at least 604800 (one week) in enforce mode.",
+    });
+  }
+  return analysis;
+}
+
+async function analyzeTlsRpt(
+  domain: string,
+  hasMtaSts: boolean,
+  mxHosts: string[],
+  resolveTxt: TxtResolver,
+  issues: EmailAuthIssue[],
+): Promise<TlsRptAnalysis> {
+  const lookup = await resolveTxt(`_smtp._tls.${domain}`);
+  const record = lookup.records.find((entry) => /^v=tlsrptv1/i.test(entry.trim())) ?? null;
+  const analysis: TlsRptAnalysis = { record, rua: [] };
+  if (!record) {
+    if (mxHosts.length) {
+      issues.push({
+        area: "tls-rpt",
+        severity: hasMtaSts ? "medium" : "low",
+        message: "TLS-RPT is not configured, so you get no reports about failed TLS delivery.",
+        fix: `Publish TXT _smtp._tls.${domain} "v=TLSRPTv1; rua=mailto:tls-reports@${domain}".`,
+      });
+    }
+    return analysis;
+  }
+  analysis.rua = parseMailtoList(parseTagList(record).rua);
+  const invalid = analysis.rua.filter((uri) => !/^(mailto:[^@\s]+@\S+|https:\/\/\S+)$/i.test(uri));
+  if (!analysis.rua.length || invalid.length) {
+    issues.push({
+      area: "tls-rpt",
+      severity: "medium",
+      message: analysis.rua.length
+        ? `TLS-RPT rua has invalid destinations: ${invalid.join(", ")}.`
+        : "TLS-RPT record has no rua= destination.",
+      fix: "Use rua=mailto:address or rua=https://endpoint.",
+    });
+  }
+  return analysis;
+}
+
+async function analyzeBimi(
+  domain: string,
+  dmarc: DmarcAnalysis,
+  resolveTxt: TxtResolver,
+  issues: EmailAuthIssue[],
+): Promise<BimiAnalysis> {
+  const lookup = await resolveTxt(`default._bimi.${domain}`);
+  const record = lookup.records.find((entry) => /^v=bimi1/i.test(entry.trim())) ?? null;
+  const enforcing = (dmarc.policy === "quarantine" || dmarc.policy === "reject") && dmarc.pct === 100;
+  if (!record) {
+    if (enforcing) {
+      issues.push({
+        area: "bimi",
+        severity: "low",
+        message: "No BIMI record; your DMARC policy already qualifies for a brand logo in supporting inboxes.",
+        fix: `Publish TXT default._bimi.${domain} "v=BIMI1; l=https://.../logo.svg; a=https://.../vmc.pem".`,
+      });
+    }
+    return { record: null, logoUrl: null, authorityUrl: null };
+  }
+
+  const tags = parseTagList(record);
+  const analysis: BimiAnalysis = { record, logoUrl: tags.l || null, authorityUrl: tags.a || null };
+  if (!enforcing) {
+    issues.push({
+      area: "bimi",
+      severity: "high",
+      message: "BIMI is published but DMARC is not enforced at pct=100, so no inbox will show the logo.",
+      fix: "Move DMARC to p=quarantine or p=reject with pct=100.",
+    });
+  }
+  if (!analysis.logoUrl || !/^https:\/\/\S+\.svg(\?\S*)?$/i.test(analysis.logoUrl)) {
+    issues.push({
+      area: "bimi",
+      severity: "high",
+      message: "BIMI l= must be an HTTPS URL to an SVG logo.",
+      fix: "Host an SVG Tiny PS logo over HTTPS and reference it in l=.",
+    });
+  }
+  if (!analysis.authorityUrl) {
+    issues.push({
+      area: "bimi",
+      severity: "low",
+      message: "BIMI has no a= certificate, so Gmail and Apple Mail will not display the logo.",
+      fix: "Obtain a Verified Mark Certificate (VMC) or Common Mark Certificate and reference its PEM in a=.",
+    });
+  } else if (!/^https:\/\/\S+$/i.test(analysis.authorityUrl)) {
+    issues.push({
+      area: "bimi",
+      severity: "medium",
+      message: "BIMI a= must be an HTTPS URL.",
+      fix: "Serve the certificate PEM over HTTPS.",
+    });
+  }
+  return analysis;
+}
+
+export function sortEmailAuthIssues(issues: EmailAuthIssue[]): EmailAuthIssue[] {
+  return [...issues].sort(
+    (left, right) => EMAIL_AUTH_SEVERITY_ORDER.indexOf(left.severity) - EMAIL_AUTH_SEVERITY_ORDER.indexOf(right.severity),
+  );
+}
+
+export async function analyzeEmailDeliverability(input: EmailDeliverabilityInput): Promise<EmailDeliverabilityReport> {
+  const { domain, resolveTxt, fetchPolicy } = input;
+  const issues: EmailAuthIssue[] = [];
+  const nullMx = input.mxHosts.length === 1 && (input.mxHosts[0] === "" || input.mxHosts[0] === ".");
+  const mxHosts = nullMx ? [] : input.mxHosts.map((host) => host.toLowerCase());
+
+  if (!input.mxHosts.length) {
+    issues.push({
+      area: "mx",
+      severity: "medium",
+      message: "No MX records, so replies and bounces to this domain cannot be delivered.",
+      fix: "Add MX records, or publish a null MX (0 .) if the domain never receives mail.",
+    });
+  }
+
+  const rootTxt = await resolveTxt(domain);
+  const spf = await analyzeSpf(domain, rootTxt.records, resolveTxt, issues);
+  const dmarc = await analyzeDmarc(domain, resolveTxt, issues);
+  const dkim: DkimSelectorAnalysis[] = [];
+  for (const selector of input.selectors) {
+    dkim.push(await analyzeDkimSelector(domain, selector, resolveTxt, issues));
+  }
+  if (!input.selectors.length) {
+    issues.push({
+      area: "dkim",
+      severity: "low",
+      message: "No DKIM selectors were checked.",
+      fix: "Enter the selectors your providers sign with (the s= tag in a message's DKIM-Signature header).",
+    });
+  } else if (!dkim.some((entry) => entry.valid)) {
+    issues.push({
+      area: "dkim",
+      severity: "critical",
+      message: "None of the supplied DKIM selectors has a usable key, so DMARC can only pass through SPF.",
+      fix: "Enable DKIM signing with your provider and publish its key.",
+    });
+  }
+  const mtaSts = await analyzeMtaSts(domain, mxHosts, resolveTxt, fetchPolicy, issues);
+  const tlsRpt = await analyzeTlsRpt(domain, Boolean(mtaSts.record), mxHosts, resolveTxt, issues);
+  const bimi = await analyzeBimi(domain, dmarc, resolveTxt, issues);
+
+  const sorted = sortEmailAuthIssues(issues);
+  return {
+    domain,
+    mxHosts,
+    nullMx,
+    spf,
+    dmarc,
+    dkim,
+    mtaSts,
+    tlsRpt,
+    bimi,
+    issues: sorted,
+    score: Math.max(0, 100 - sorted.reduce((sum, issue) => sum + SEVERITY_PENALTY[issue.severity], 0)),
+  };
+}
@@ -0,0 +1,219 @@
+export type SecurityHeaderCheckStatus = "pass" | "warn" | "fail";
+export type SecurityHeaderGrade = "A+" | "A" | "B" | "C" | "D" | "F";
+
+export interface SecurityHeaderCheck {
+  id: string;
+  label: string;
+  status: SecurityHeaderCheckStatus;
+  value: string;
+  detail: string;
+  recommendation: string;
+  weight: number;
+}
+
+export interface SecurityHeaderReport {
+  grade: SecurityHeaderGrade;
+  score: number;
+  checks: SecurityHeaderCheck[];
+  recommendations: string[];
+}
+
+const HSTS_MIN_MAX_AGE = 15_552_000;
+const STRICT_REFERRER_POLICIES = new Set([
+  "no-referrer",
+  "same-origin",
+  "strict-origin",
+  "strict-origin-when-cross-origin",
+]);
+
+function buildCheck(
+  id: string,
+  label: string,
+  weight: number,
+  status: SecurityHeaderCheckStatus,
+  value: string,
+  detail: string,
+  recommendation = "",
+): SecurityHeaderCheck {
+  return { id, label, weight, status, value, detail, recommendation: status === "pass" ? "" : recommendation };
+}
+
+function parseCspDirectives(policy: string): Map<string, string[]> {
+  const directives = new Map<string, string[]>();
+  policy
+    .split(";")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .forEach((entry) => {
+      const [name, ...values] = entry.split(/\s+/);
+      if (!directives.has(name.toLowerCase())) directives.set(name.toLowerCase(), values);
+    });
+  return directives;
+}
+
+function checkHsts(headers: Headers, isHttps: boolean): SecurityHeaderCheck {
+  const value = headers.get("strict-transport-security") ?? "";
+  const label = "Strict-Transport-Security";
+  const recommendation = "Serve the site over HTTPS and send Strict-Transport-Security: max-age=31536000; includeSubDomains.";
+  if (!isHttps) return buildCheck("hsts", label, 25, "fail", value, "The final URL is not served over HTTPS.", recommendation);
+  if (!value) return buildCheck("hsts", label, 25, "fail", value, "HSTS header is missing.", recommendation);
+  const maxAge = Number.parseInt(value.match(/max-age=["']?(\d+)/i)?.[1] ?? "", 10);
+  if (!Number.isFinite(maxAge) || maxAge < HSTS_MIN_MAX_AGE) {
+    return buildCheck("hsts", label, 25, "warn", value, "max-age is shorter than 180 days.", recommendation);
+  }
+  return buildCheck(
+    "hsts",
+    label,
+    25,
+    "pass",
+    value,
+    /includesubdomains/i.test(value) ? "Long-lived HSTS covering subdomains." : "Long-lived HSTS (subdomains not included).",
+  );
+}
+
+function checkCsp(headers: Headers): SecurityHeaderCheck {
+  const value = headers.get("content-security-policy") ?? "";
+  const label = "Content-Security-Policy";
+  if (!value) {
+    const reportOnly = headers.get("content-security-policy-report-only");
+    return reportOnly
+      ? buildCheck("csp", label, 25, "warn", reportOnly, "Only a report-only policy is sent, so nothing is enforced.", "Enforce the policy once reports are clean.")
+      : buildCheck("csp", label, 25, "fail", "", "No Content-Security-Policy header.", "Add a Content-Security-Policy that restricts script-src and object-src.");
+  }
+  const directives = parseCspDirectives(value);
+  const scriptSources = directives.get("script-src") ?? directives.get("default-src") ?? [];
+  const hasNonceOrHash = scriptSources.some((source) => /^'(?:nonce|sha256|sha384|sha512)-/i.test(source));
+  const weaknesses = [
+    !scriptSources.length ? "no script-src or default-src" : "",
+    scriptSources.includes("'unsafe-inline'") && !hasNonceOrHash ? "'unsafe-inline' scripts" : "",
+    scriptSources.includes("'unsafe-eval'") ? "'unsafe-eval'" : "",
+    scriptSources.some((source) => source === "*" || /^(?:https?|data):$/i.test(source)) ? "wildcard script sources" : "",
+  ].filter(Boolean);
+  return weaknesses.length
+    ? buildCheck("csp", label, 25, "warn", value, `Policy allows ${weaknesses.join(", ")}.`, "Tighten script-src with nonces or hashes and drop unsafe-inline, unsafe-eval and wildcards.")
+    : buildCheck("csp", label, 25, "pass", value, "Script sources are restricted.");
+}
+
+function checkFrameOptions(headers: Headers): SecurityHeaderCheck {
+  const value = headers.get("x-frame-options") ?? "";
+  const label = "X-Frame-Options";
+  const frameAncestors = parseCspDirectives(headers.get("content-security-policy") ?? "").get("frame-ancestors");
+  if (/^(deny|sameorigin)$/i.test(value.trim())) return buildCheck("frame-options", label, 15, "pass", value, "Framing is restricted.");
+  if (frameAncestors?.length && !frameAncestors.includes("*")) {
+    return buildCheck("frame-options", label, 15, "pass", value, `CSP frame-ancestors ${frameAncestors.join(" ")} restricts framing.`);
+  }
+  return buildCheck(
+    "frame-options",
+    label,
+    15,
+    value ? "warn" : "fail",
+    value,
+    value ? "Unrecognised X-Frame-Options value." : "The page can be framed by any site (clickjacking).",
+    "Send X-Frame-Options: DENY or a CSP frame-ancestors directive.",
+  );
+}
+
+function checkContentTypeOptions(headers: Headers): SecurityHeaderCheck {
+  const value = headers.get("x-content-type-options") ?? "";
+  return /^nosniff$/i.test(value.trim())
+    ? buildCheck("content-type-options", "X-Content-Type-Options", 10, "pass", value, "MIME sniffing is disabled.")
+    : buildCheck(
+        "content-type-options",
+        "X-Content-Type-Options",
+        10,
+        "fail",
+        value,
+        "Browsers may MIME-sniff responses.",
+        "Send X-Content-Type-Options: nosniff.",
+      );
+}
+
+function checkReferrerPolicy(headers: Headers): SecurityHeaderCheck {
+  const value = headers.get("referrer-policy") ?? "";
+  const label = "Referrer-Policy";
+  const effective = value.split(",").map((entry) => entry.trim().toLowerCase()).filter(Boolean).pop() ?? "";
+  if (STRICT_REFERRER_POLICIES.has(effective)) return buildCheck("referrer-policy", label, 10, "pass", value, `Uses ${effective}.`);
+  return buildCheck(
+    "referrer-policy",
+    label,
+    10,
+    effective === "unsafe-url" ? "fail" : "warn",
+    value,
+    value ? `${effective} can leak full URLs to other sites.` : "Missing; browsers fall back to their default policy.",
+    "Send Referrer-Policy: strict-origin-when-cross-origin.",
+  );
+}
+
+function checkPermissionsPolicy(headers: Headers): SecurityHeaderCheck {
+  const value = headers.get("permissions-policy") ?? "";
+  return value
+    ? buildCheck("permissions-policy", "Permissions-Policy", 5, "pass", value, "Powerful browser features are scoped.")
+    : buildCheck(
+        "permissions-policy",
+        "Permissions-Policy",
+        5,
+        "warn",
+        "",
+        "No Permissions-Policy header.",
+        "Disable unused features, e.g. Permissions-Policy: camera=(), microphone=(), geolocation=().",
+      );
+}
+
+function checkCookies(cookies: string[], isHttps: boolean): SecurityHeaderCheck {
+  const label = "Cookie flags";
+  if (!cookies.length) return buildCheck("cookies", label, 10, "pass", "", "No cookies are set on this response.");
+  const issues = cookies.flatMap((cookie) => {
+    const name = cookie.split("=")[0]?.trim() || "cookie";
+    const attributes = cookie.split(";").slice(1).map((entry) => entry.trim().toLowerCase());
+    const missing = [
+      isHttps && !attributes.includes("secure") ? "Secure" : "",
+      !attributes.includes("httponly") ? "HttpOnly" : "",
+      !attributes.some((entry) => entry.startsWith("samesite=")) ? "SameSite" : "",
+    ].filter(Boolean);
+    return missing.length ? [`${name} lacks ${missing.join(", ")}`] : [];
+  });
+  if (!issues.length) return buildCheck("cookies", label, 10, "pass", `${cookies.length} cookie(s)`, "All cookies set Secure, HttpOnly and SameSite.");
+  return buildCheck(
+    "cookies",
+    label,
+    10,
+    issues.some((issue) => issue.includes("Secure")) ? "fail" : "warn",
+    `${cookies.length} cookie(s)`,
+    issues.join("; "),
+    "Set Secure, HttpOnly and SameSite=Lax (or Strict) on session cookies.",
+  );
+}
+
+function toGrade(score: number, hasFailures: boolean): SecurityHeaderGrade {
+  if (score >= 95 && !hasFailures) return "A+";
+  if (score >= 85) return "A";
+  if (score >= 70) return "B";
+  if (score >= 55) return "C";
+  if (score >= 40) return "D";
+  return "F";
+}
+
+export function gradeSecurityHeaders(headers: Headers, cookies: string[], finalUrl: string): SecurityHeaderReport {
+  const isHttps = finalUrl.startsWith("https:");
+  const checks = [
+    checkHsts(headers, isHttps),
+    checkCsp(headers),
+    checkFrameOptions(headers),
+    checkContentTypeOptions(headers),
+    checkReferrerPolicy(headers),
+    checkPermissionsPolicy(headers),
+    checkCookies(cookies, isHttps),
+  ];
+  const totalWeight = checks.reduce((sum, check) => sum + check.weight, 0);
+  const earned = checks.reduce((sum, check) => sum + check.weight * (check.status === "pass" ? 1 : check.status === "warn" ? 0.5 : 0), 0);
+  const score = Math.round((earned / totalWeight) * 100);
+  return {
+    grade: toGrade(score, checks.some((check) => check.status === "fail")),
+    score,
+    checks,
+    recommendations: checks
+      .filter((check) => check.status !== "pass")
+      .sort((left, right) => right.weight - left.weight)
+      .map((check) => check.recommendation),
+  };
+}
@@ -0,0 +1,271 @@
+export type InvoiceLifecycleStatus = "draft" | "sent" | "partially-paid" | "paid" | "overdue";
+export type InvoiceRecurrenceFrequency = "monthly" | "quarterly";
+export type InvoiceAgingBucketKey = "current" | "0-30" | "31-60" | "61-90" | "90+";
+
+export interface InvoicePayment {
+  id: string;
+  date: string;
+  amount: number;
+  method: string;
+  note: string;
+}
+
+export interface InvoiceNumberSequence {
+  id: string;
+  label: string;
+  prefix: string;
+  clientName: string;
+  nextNumber: number;
+  padding: number;
+  includeYear: boolean;
+}
+
+export interface InvoiceRecurrence {
+  frequency: InvoiceRecurrenceFrequency;
+  startDate: string;
+  endDate: string;
+  generatedCount: number;
+  active: boolean;
+}
+
+export interface InvoiceLedgerState {
+  sentAt: string;
+  dueDate: string;
+  total: number;
+  payments: InvoicePayment[];
+}
+
+export interface InvoiceAgingEntry {
+  id: string;
+  label: string;
+  clientName: string;
+  currency: string;
+  dueDate: string;
+  outstanding: number;
+  daysOverdue: number;
+  bucket: InvoiceAgingBucketKey;
+}
+
+export interface InvoiceAgingBucket {
+  key: InvoiceAgingBucketKey;
+  label: string;
+  count: number;
+  totals: Record<string, number>;
+}
+
+export interface InvoiceAgingReport {
+  buckets: InvoiceAgingBucket[];
+  entries: InvoiceAgingEntry[];
+  outstandingByCurrency: Record<string, number>;
+}
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceLifecycleStatus, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  "partially-paid": "Partially paid",
+  paid: "Paid",
+  overdue: "Overdue",
+};
+
+export const INVOICE_AGING_BUCKETS: Array<{ key: InvoiceAgingBucketKey; label: string }> = [
+  { key: "current", label: "Not yet due" },
+  { key: "0-30", label: "0-30 days" },
+  { key: "31-60", label: "31-60 days" },
+  { key: "61-90", label: "61-90 days" },
+  { key: "90+", label: "90+ days" },
+];
+
+const RECURRENCE_MONTHS: Record<InvoiceRecurrenceFrequency, number> = {
+  monthly: 1,
+  quarterly: 3,
+};
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function parseIsoDate(value: string): Date | null {
+  if (!ISO_DATE_PATTERN.test(value)) return null;
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+function toIsoDate(value: Date): string {
+  return value.toISOString().slice(0, 10);
+}
+
+export function todayIsoDate(now = new Date()): string {
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+}
+
+export function daysBetweenIsoDates(from: string, to: string): number {
+  const start = parseIsoDate(from);
+  const end = parseIsoDate(to);
+  if (!start || !end) return 0;
+  return Math.round((end.getTime() - start.getTime()) / 86400000);
+}
+
+export function addDaysToIsoDate(value: string, days: number): string {
+  const parsed = parseIsoDate(value);
+  if (!parsed) return value;
+  parsed.setUTCDate(parsed.getUTCDate() + days);
+  return toIsoDate(parsed);
+}
+
+export function addMonthsToIsoDate(value: string, months: number): string {
+  const parsed = parseIsoDate(value);
+  if (!parsed) return value;
+  const day = parsed.getUTCDate();
+  const target = new Date(Date.UTC(parsed.getUTCFullYear(), parsed.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return toIsoDate(target);
+}
+
+export function formatSequenceNumber(sequence: InvoiceNumberSequence, issueDate: string): string {
+  const year = parseIsoDate(issueDate)?.getUTCFullYear() ?? new Date().getFullYear();
+  const counter = String(Math.max(1, Math.floor(sequence.nextNumber))).padStart(Math.min(10, Math.max(1, sequence.padding)), "0");
+  return `${sequence.prefix}${sequence.includeYear ? `${year}-` : ""}${counter}`;
+}
+
+export function findSequenceForClient(
+  sequences: InvoiceNumberSequence[],
+  clientName: string,
+): InvoiceNumberSequence | null {
+  const normalizedClient = clientName.trim().toLowerCase();
+  if (normalizedClient) {
+    const clientMatch = sequences.find((sequence) => sequence.clientName.trim().toLowerCase() === normalizedClient);
+    if (clientMatch) return clientMatch;
+  }
+  return sequences.find((sequence) => !sequence.clientName.trim()) ?? null;
+}
+
+export function sanitizeInvoiceSequence(value: unknown): InvoiceNumberSequence | null {
+  if (!value || typeof value !== "object") return null;
+  const candidate = value as Partial<InvoiceNumberSequence>;
+  if (typeof candidate.id !== "string" || !candidate.id) return null;
+  return {
+    id: candidate.id,
+    label: typeof candidate.label === "string" ? candidate.label : "",
+    prefix: typeof candidate.prefix === "string" ? candidate.prefix : "INV-",
+    clientName: typeof candidate.clientName === "string" ? candidate.clientName : "",
+    nextNumber:
+      typeof candidate.nextNumber === "number" && Number.isFinite(candidate.nextNumber)
+        ? Math.max(1, Math.floor(candidate.nextNumber))
+        : 1,
+    padding:
+      typeof candidate.padding === "number" && Number.isFinite(candidate.padding)
+        ? Math.min(10, Math.max(1, Math.floor(candidate.padding)))
+        : 4,
+    includeYear: candidate.includeYear !== false,
+  };
+}
+
+export function sanitizeInvoicePayments(value: unknown): InvoicePayment[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((entry): entry is Partial<InvoicePayment> => Boolean(entry) && typeof entry === "object")
+    .map((entry) => ({
+      id: typeof entry.id === "string" && entry.id ? entry.id : crypto.randomUUID(),
+      date: typeof entry.date === "string" ? entry.date : "",
+      amount: typeof entry.amount === "number" && Number.isFinite(entry.amount) ? roundMoney(entry.amount) : 0,
+      method: typeof entry.method === "string" ? entry.method : "",
+      note: typeof entry.note === "string" ? entry.note : "",
+    }))
+    .filter((entry) => entry.amount > 0);
+}
+
+export function sanitizeInvoiceRecurrence(value: unknown): InvoiceRecurrence | null {
+  if (!value || typeof value !== "object") return null;
+  const candidate = value as Partial<InvoiceRecurrence>;
+  if (typeof candidate.startDate !== "string" || !parseIsoDate(candidate.startDate)) return null;
+  return {
+    frequency: candidate.frequency === "quarterly" ? "quarterly" : "monthly",
+    startDate: candidate.startDate,
+    endDate: typeof candidate.endDate === "string" && parseIsoDate(candidate.endDate) ? candidate.endDate : "",
+    generatedCount:
+      typeof candidate.generatedCount === "number" && Number.isFinite(candidate.generatedCount)
+        ? Math.max(0, Math.floor(candidate.generatedCount))
+        : 0,
+    active: candidate.active !== false,
+  };
+}
+
+export function getRecurrenceOccurrence(recurrence: InvoiceRecurrence, index: number): string {
+  return addMonthsToIsoDate(recurrence.startDate, RECURRENCE_MONTHS[recurrence.frequency] * index);
+}
+
+export function getNextRecurrenceDate(recurrence: InvoiceRecurrence): string {
+  return getRecurrenceOccurrence(recurrence, recurrence.generatedCount);
+}
+
+export function collectDueRecurrenceDates(recurrence: InvoiceRecurrence, today: string, limit = 24): string[] {
+  if (!recurrence.active) return [];
+  const dates: string[] = [];
+  for (let index = recurrence.generatedCount; dates.length < limit; index += 1) {
+    const occurrence = getRecurrenceOccurrence(recurrence, index);
+    if (occurrence > today) break;
+    if (recurrence.endDate && occurrence > recurrence.endDate) break;
+    dates.push(occurrence);
+  }
+  return dates;
+}
+
+export function sumInvoicePayments(payments: InvoicePayment[]): number {
+  return roundMoney(payments.reduce((sum, payment) => sum + payment.amount, 0));
+}
+
+export function deriveInvoiceStatus(state: InvoiceLedgerState, today: string): InvoiceLifecycleStatus {
+  const paid = sumInvoicePayments(state.payments);
+  if (state.total > 0 && paid >= roundMoney(state.total)) return "paid";
+  if (!state.sentAt && !paid) return "draft";
+  if (state.dueDate && state.dueDate < today) return "overdue";
+  return paid > 0 ? "partially-paid" : "sent";
+}
+
+export function getAgingBucket(daysOverdue: number): InvoiceAgingBucketKey {
+  if (daysOverdue <= 0) return "current";
+  if (daysOverdue <= 30) return "0-30";
+  if (daysOverdue <= 60) return "31-60";
+  if (daysOverdue <= 90) return "61-90";
+  return "90+";
+}
+
+export function buildInvoiceAgingReport(
+  invoices: Array<InvoiceLedgerState & { id: string; label: string; clientName: string; currency: string }>,
+  today: string,
+): InvoiceAgingReport {
+  const buckets = INVOICE_AGING_BUCKETS.map((bucket) => ({ ...bucket, count: 0, totals: {} as Record<string, number> }));
+  const outstandingByCurrency: Record<string, number> = {};
+  const entries: InvoiceAgingEntry[] = [];
+
+  invoices.forEach((invoice) => {
+    const status = deriveInvoiceStatus(invoice, today);
+    if (status === "draft" || status === "paid") return;
+    const outstanding = roundMoney(invoice.total - sumInvoicePayments(invoice.payments));
+    if (outstanding <= 0) return;
+    const daysOverdue = invoice.dueDate ? Math.max(0, daysBetweenIsoDates(invoice.dueDate, today)) : 0;
+    const bucketKey = getAgingBucket(daysOverdue);
+    const bucket = buckets.find((item) => item.key === bucketKey);
+    if (bucket) {
+      bucket.count += 1;
+      bucket.totals[invoice.currency] = roundMoney((bucket.totals[invoice.currency] ?? 0) + outstanding);
+    }
+    outstandingByCurrency[invoice.currency] = roundMoney((outstandingByCurrency[invoice.currency] ?? 0) + outstanding);
+    entries.push({
+      id: invoice.id,
+      label: invoice.label,
+      clientName: invoice.clientName,
+      currency: invoice.currency,
+      dueDate: invoice.dueDate,
+      outstanding,
+      daysOverdue,
+      bucket: bucketKey,
+    });
+  });
+
+  entries.sort((left, right) => right.daysOverdue - left.daysOverdue || right.outstanding - left.outstanding);
+  return { buckets, entries, outstandingByCurrency };
+}
@@ -0,0 +1,749 @@
+import {
+  AFRelationship,
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNull,
+  PDFNumber,
+  PDFObjectCopier,
+  PDFRawStream,
+  PDFRef,
+  PDFString,
+  type PDFObject,
+  type PDFPage,
+} from "pdf-lib";
+
+export interface PdfAssemblySource {
+  name: string;
+  bytes: Uint8Array;
+  pages?: number[];
+}
+
+export interface PdfAssemblyOptions {
+  keepBookmarks: boolean;
+  addFileBookmarks: boolean;
+  keepLinks: boolean;
+  keepFormFields: boolean;
+  dedupeResources: boolean;
+  title?: string;
+}
+
+export interface PdfAssemblyResult {
+  bytes: Uint8Array<ArrayBuffer>;
+  pageCount: number;
+  bookmarkCount: number;
+  linkCount: number;
+  formFieldCount: number;
+  dedupedObjects: number;
+}
+
+export const DEFAULT_PDF_ASSEMBLY_OPTIONS: PdfAssemblyOptions = {
+  keepBookmarks: true,
+  addFileBookmarks: false,
+  keepLinks: true,
+  keepFormFields: true,
+  dedupeResources: true,
+};
+
+interface PdfOutlineNode {
+  title: string;
+  pageIndex: number | null;
+  view: PDFObject[];
+  open: boolean;
+  children: PdfOutlineNode[];
+}
+
+interface ResolvedOutlineNode {
+  title: string;
+  pageRef: PDFRef | null;
+  view: PDFObject[];
+  open: boolean;
+  children: ResolvedOutlineNode[];
+}
+
+export interface LoadedPdfSource {
+  document: PDFDocument;
+  outline: PdfOutlineNode[];
+}
+
+const MAX_OUTLINE_DEPTH = 24;
+const MAX_OUTLINE_ITEMS = 5000;
+
+const NAME = {
+  A: PDFName.of("A"),
+  AcroForm: PDFName.of("AcroForm"),
+  Annots: PDFName.of("Annots"),
+  Count: PDFName.of("Count"),
+  D: PDFName.of("D"),
+  DA: PDFName.of("DA"),
+  DR: PDFName.of("DR"),
+  Dest: PDFName.of("Dest"),
+  Dests: PDFName.of("Dests"),
+  Fields: PDFName.of("Fields"),
+  First: PDFName.of("First"),
+  Fit: PDFName.of("Fit"),
+  GoTo: PDFName.of("GoTo"),
+  Kids: PDFName.of("Kids"),
+  Last: PDFName.of("Last"),
+  Link: PDFName.of("Link"),
+  Metadata: PDFName.of("Metadata"),
+  OutputIntents: PDFName.of("OutputIntents"),
+  Names: PDFName.of("Names"),
+  Next: PDFName.of("Next"),
+  Outlines: PDFName.of("Outlines"),
+  P: PDFName.of("P"),
+  PageMode: PDFName.of("PageMode"),
+  Parent: PDFName.of("Parent"),
+  Prev: PDFName.of("Prev"),
+  S: PDFName.of("S"),
+  Subtype: PDFName.of("Subtype"),
+  T: PDFName.of("T"),
+  Title: PDFName.of("Title"),
+  Type: PDFName.of("Type"),
+  UseOutlines: PDFName.of("UseOutlines"),
+  Widget: PDFName.of("Widget"),
+};
+
+function decodePdfText(value: PDFObject | undefined): string {
+  if (value instanceof PDFString || value instanceof PDFHexString) {
+    return value.decodeText().replace(/\u0000/g, "").trim();
+  }
+  return "";
+}
+
+function readNameTreeEntries(
+  document: PDFDocument,
+  node: PDFDict,
+  target: Map<string, PDFObject>,
+  depth = 0,
+): void {
+  if (depth > MAX_OUTLINE_DEPTH) return;
+  const names = document.context.lookup(node.get(NAME.Names));
+  if (names instanceof PDFArray) {
+    for (let index = 0; index + 1 < names.size(); index += 2) {
+      const key = decodePdfText(document.context.lookup(names.get(index)));
+      const value = document.context.lookup(names.get(index + 1));
+      if (key && value) target.set(key, value);
+    }
+  }
+  const kids = document.context.lookup(node.get(NAME.Kids));
+  if (kids instanceof PDFArray) {
+    for (let index = 0; index < kids.size(); index += 1) {
+      const kid = document.context.lookup(kids.get(index));
+      if (kid instanceof PDFDict) readNameTreeEntries(document, kid, target, depth + 1);
+    }
+  }
+}
+
+function buildNamedDestinationIndex(document: PDFDocument): Map<string, PDFObject> {
+  const index = new Map<string, PDFObject>();
+  const catalog = document.catalog;
+
+  const legacyDests = document.context.lookup(catalog.get(NAME.Dests));
+  if (legacyDests instanceof PDFDict) {
+    for (const [key, value] of legacyDests.entries()) {
+      const resolved = document.context.lookup(value);
+      if (resolved) index.set(key.decodeText(), resolved);
+    }
+  }
+
+  const names = document.context.lookup(catalog.get(NAME.Names));
+  if (names instanceof PDFDict) {
+    const destsTree = document.context.lookup(names.get(NAME.Dests));
+    if (destsTree instanceof PDFDict) readNameTreeEntries(document, destsTree, index);
+  }
+
+  return index;
+}
+
+function resolveExplicitDestination(
+  document: PDFDocument,
+  destination: PDFObject | undefined,
+  namedDestinations: Map<string, PDFObject>,
+): PDFArray | null {
+  let current = destination instanceof PDFRef ? document.context.lookup(destination) : destination;
+  for (let hop = 0; hop < 4 && current; hop += 1) {
+    if (current instanceof PDFArray) return current;
+    if (current instanceof PDFDict) {
+      current = document.context.lookup(current.get(NAME.D));
+      continue;
+    }
+    const key =
+      current instanceof PDFName ? current.decodeText() : decodePdfText(current);
+    current = key ? namedDestinations.get(key) : undefined;
+  }
+  return null;
+}
+
+function readDestinationFromItem(dict: PDFDict, document: PDFDocument): PDFObject | undefined {
+  const dest = dict.get(NAME.Dest);
+  if (dest) return dest;
+  const action = document.context.lookup(dict.get(NAME.A));
+  if (action instanceof PDFDict && action.get(NAME.S) === NAME.GoTo) {
+    return action.get(NAME.D);
+  }
+  return undefined;
+}
+
+function sanitizeDestinationView(destination: PDFArray): PDFObject[] {
+  const view: PDFObject[] = [];
+  for (let index = 1; index < destination.size(); index += 1) {
+    const entry = destination.get(index);
+    if (entry instanceof PDFName || entry instanceof PDFNumber || entry === PDFNull) {
+      view.push(entry);
+    } else {
+      return [NAME.Fit];
+    }
+  }
+  return view.length ? view : [NAME.Fit];
+}
+
+function readOutlineTree(
+  document: PDFDocument,
+  pageIndexByRef: Map<string, number>,
+  namedDestinations: Map<string, PDFObject>,
+): PdfOutlineNode[] {
+  const root = document.context.lookup(document.catalog.get(NAME.Outlines));
+  if (!(root instanceof PDFDict)) return [];
+
+  const visited = new Set<PDFDict>();
+  let budget = MAX_OUTLINE_ITEMS;
+
+  const readLevel = (parent: PDFDict, depth: number): PdfOutlineNode[] => {
+    const nodes: PdfOutlineNode[] = [];
+    if (depth > MAX_OUTLINE_DEPTH) return nodes;
+    let cursor = document.context.lookup(parent.get(NAME.First));
+    while (cursor instanceof PDFDict && !visited.has(cursor) && budget > 0) {
+      visited.add(cursor);
+      budget -= 1;
+
+      const destination = resolveExplicitDestination(
+        document,
+        readDestinationFromItem(cursor, document),
+        namedDestinations,
+      );
+      const target = destination?.get(0);
+      let pageIndex: number | null = null;
+      if (target instanceof PDFRef) {
+        pageIndex = pageIndexByRef.get(target.toString()) ?? null;
+      } else if (target instanceof PDFNumber) {
+        pageIndex = target.asNumber();
+      }
+      const count = document.context.lookup(cursor.get(NAME.Count));
+
+      nodes.push({
+        title: decodePdfText(document.context.lookup(cursor.get(NAME.Title))) || "Untitled",
+        pageIndex,
+        view: destination ? sanitizeDestinationView(destination) : [NAME.Fit],
+        open: count instanceof PDFNumber ? count.asNumber() > 0 : false,
+        children: readLevel(cursor, depth + 1),
+      });
+      cursor = document.context.lookup(cursor.get(NAME.Next));
+    }
+    return nodes;
+  };
+
+  return readLevel(root, 0);
+}
+
+function rewriteDestinationToPlaceholder(
+  document: PDFDocument,
+  holder: PDFDict,
+  key: PDFName,
+  pageIndexByRef: Map<string, number>,
+  namedDestinations: Map<string, PDFObject>,
+): void {
+  const destination = resolveExplicitDestination(document, holder.get(key), namedDestinations);
+  if (!destination) return;
+  const target = destination.get(0);
+  if (!(target instanceof PDFRef)) return;
+  const pageIndex = pageIndexByRef.get(target.toString());
+  if (pageIndex === undefined) {
+    holder.delete(key);
+    return;
+  }
+  holder.set(key, document.context.obj([pageIndex, ...sanitizeDestinationView(destination)]));
+}
+
+// Page references inside annotations would drag whole donor pages into the copy, so internal
+// link targets are swapped for page-index placeholders before copying and re-linked afterwards.
+function prepareSourceDocument(document: PDFDocument): LoadedPdfSource {
+  const pages = document.getPages();
+  const pageIndexByRef = new Map(pages.map((page, index) => [page.ref.toString(), index]));
+  const namedDestinations = buildNamedDestinationIndex(document);
+
+  pages.forEach((page) => {
+    const annots = document.context.lookup(page.node.get(NAME.Annots));
+    if (!(annots instanceof PDFArray)) return;
+    for (let index = 0; index < annots.size(); index += 1) {
+      const annot = document.context.lookup(annots.get(index));
+      if (!(annot instanceof PDFDict)) continue;
+      annot.delete(NAME.P);
+      if (annot.get(NAME.Subtype) !== NAME.Link) continue;
+      if (annot.has(NAME.Dest)) {
+        rewriteDestinationToPlaceholder(document, annot, NAME.Dest, pageIndexByRef, namedDestinations);
+      }
+      const action = document.context.lookup(annot.get(NAME.A));
+      if (action instanceof PDFDict && action.get(NAME.S) === NAME.GoTo) {
+        rewriteDestinationToPlaceholder(document, action, NAME.D, pageIndexByRef, namedDestinations);
+      }
+    }
+  });
+
+  return {
+    document,
+    outline: readOutlineTree(document, pageIndexByRef, namedDestinations),
+  };
+}
+
+export async function loadPdfSource(bytes: Uint8Array): Promise<LoadedPdfSource> {
+  let document: PDFDocument;
+  try {
+    document = await PDFDocument.load(bytes, { updateMetadata: false });
+  } catch (error) {
+    if (error instanceof Error && /encrypt/i.test(error.message)) {
+      throw new Error("This PDF is password-protected. Unlock it before merging or splitting.");
+    }
+    throw new Error("Could not parse this PDF file.");
+  }
+  return prepareSourceDocument(document);
+}
+
+export async function readPdfPageCount(bytes: Uint8Array): Promise<number> {
+  const document = await PDFDocument.load(bytes, { updateMetadata: false, ignoreEncryption: true });
+  return document.getPageCount();
+}
+
+function relinkCopiedAnnotations(
+  output: PDFDocument,
+  page: PDFPage,
+  targetRefBySourceIndex: Map<number, PDFRef>,
+  keepLinks: boolean,
+): number {
+  const annots = output.context.lookup(page.node.get(NAME.Annots));
+  if (!(annots instanceof PDFArray)) return 0;
+
+  let linkCount = 0;
+  for (let index = annots.size() - 1; index >= 0; index -= 1) {
+    const annotRef = annots.get(index);
+    const annot = output.context.lookup(annotRef);
+    if (!(annot instanceof PDFDict)) continue;
+    if (annot.get(NAME.Subtype) === NAME.Widget) {
+      annot.set(NAME.P, page.ref);
+      continue;
+    }
+    if (annot.get(NAME.Subtype) !== NAME.Link) continue;
+
+    const action = output.context.lookup(annot.get(NAME.A));
+    const holder =
+      action instanceof PDFDict && action.get(NAME.S) === NAME.GoTo ? action : annot.has(NAME.Dest) ? annot : null;
+    if (!holder) {
+      if (!keepLinks) annots.remove(index);
+      else linkCount += 1;
+      continue;
+    }
+
+    const key = holder === annot ? NAME.Dest : NAME.D;
+    const destination = output.context.lookup(holder.get(key));
+    const placeholder = destination instanceof PDFArray ? destination.get(0) : undefined;
+    const targetRef =
+      placeholder instanceof PDFNumber ? targetRefBySourceIndex.get(placeholder.asNumber()) : undefined;
+    if (!keepLinks || !(destination instanceof PDFArray) || !targetRef) {
+      annots.remove(index);
+      continue;
+    }
+    destination.set(0, targetRef);
+    linkCount += 1;
+  }
+  return linkCount;
+}
+
+function collectFormFields(
+  output: PDFDocument,
+  pages: PDFPage[],
+  usedNames: Set<string>,
+  fields: PDFArray,
+  seenRoots: Set<string>,
+  sourceNumber: number,
+): number {
+  let added = 0;
+  pages.forEach((page) => {
+    const annots = output.context.lookup(page.node.get(NAME.Annots));
+    if (!(annots instanceof PDFArray)) return;
+    for (let index = 0; index < annots.size(); index += 1) {
+      const annotRef = annots.get(index);
+      const annot = output.context.lookup(annotRef);
+      if (!(annot instanceof PDFDict) || annot.get(NAME.Subtype) !== NAME.Widget) continue;
+
+      let rootRef: PDFObject = annotRef;
+      let root: PDFDict = annot;
+      for (let depth = 0; depth < MAX_OUTLINE_DEPTH; depth += 1) {
+        const parentRef = root.get(NAME.Parent);
+        const parent = output.context.lookup(parentRef);
+        if (!(parentRef instanceof PDFRef) || !(parent instanceof PDFDict)) break;
+        rootRef = parentRef;
+        root = parent;
+      }
+      if (!(rootRef instanceof PDFRef) || seenRoots.has(rootRef.toString())) continue;
+      seenRoots.add(rootRef.toString());
+
+      const baseName = decodePdfText(output.context.lookup(root.get(NAME.T)));
+      if (baseName) {
+        let nextName = baseName;
+        if (usedNames.has(nextName)) {
+          nextName = `${baseName}_${sourceNumber}`;
+          let suffix = 2;
+          while (usedNames.has(nextName)) {
+            nextName = `${baseName}_${sourceNumber}_${suffix}`;
+            suffix += 1;
+          }
+          root.set(NAME.T, PDFHexString.fromText(nextName));
+        }
+        usedNames.add(nextName);
+      }
+      fields.push(rootRef);
+      added += 1;
+    }
+  });
+  return added;
+}
+
+function resolveOutlineNodes(
+  nodes: PdfOutlineNode[],
+  targetRefBySourceIndex: Map<number, PDFRef>,
+): ResolvedOutlineNode[] {
+  const resolved: ResolvedOutlineNode[] = [];
+  nodes.forEach((node) => {
+    const children = resolveOutlineNodes(node.children, targetRefBySourceIndex);
+    const pageRef = node.pageIndex === null ? null : targetRefBySourceIndex.get(node.pageIndex) ?? null;
+    if (!pageRef && !children.length) return;
+    resolved.push({
+      title: node.title,
+      pageRef: pageRef ?? children[0].pageRef,
+      view: pageRef ? node.view : [NAME.Fit],
+      open: node.open,
+      children,
+    });
+  });
+  return resolved;
+}
+
+function writeOutlineTree(output: PDFDocument, nodes: ResolvedOutlineNode[]): number {
+  if (!nodes.length) return 0;
+  const context = output.context;
+  const rootRef = context.nextRef();
+  let written = 0;
+
+  const writeLevel = (parentRef: PDFRef, level: ResolvedOutlineNode[]): { first: PDFRef; last: PDFRef; visible: number } => {
+    const refs = level.map(() => context.nextRef());
+    let visible = 0;
+    level.forEach((node, index) => {
+      const item = context.obj({}) as PDFDict;
+      item.set(NAME.Title, PDFHexString.fromText(node.title));
+      item.set(NAME.Parent, parentRef);
+      if (index > 0) item.set(NAME.Prev, refs[index - 1]);
+      if (index < level.length - 1) item.set(NAME.Next, refs[index + 1]);
+      if (node.pageRef) {
+        item.set(NAME.Dest, context.obj([node.pageRef, ...node.view]));
+      }
+      visible += 1;
+      if (node.children.length) {
+        const child = writeLevel(refs[index], node.children);
+        item.set(NAME.First, child.first);
+        item.set(NAME.Last, child.last);
+        item.set(NAME.Count, PDFNumber.of(node.open ? child.visible : -child.visible));
+        if (node.open) visible += child.visible;
+      }
+      context.assign(refs[index], item);
+      written += 1;
+    });
+    return { first: refs[0], last: refs[refs.length - 1], visible };
+  };
+
+  const top = writeLevel(rootRef, nodes);
+  const root = context.obj({}) as PDFDict;
+  root.set(NAME.Type, NAME.Outlines);
+  root.set(NAME.First, top.first);
+  root.set(NAME.Last, top.last);
+  root.set(NAME.Count, PDFNumber.of(top.visible));
+  context.assign(rootRef, root);
+  output.catalog.set(NAME.Outlines, rootRef);
+  output.catalog.set(NAME.PageMode, NAME.UseOutlines);
+  return written;
+}
+
+function hashBytes(bytes: Uint8Array): string {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < bytes.length; index += 1) {
+    hash ^= bytes[index];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(16)}:${bytes.length}`;
+}
+
+function bytesEqual(left: Uint8Array, right: Uint8Array): boolean {
+  if (left.length !== right.length) return false;
+  for (let index = 0; index < left.length; index += 1) {
+    if (left[index] !== right[index]) return false;
+  }
+  return true;
+}
+
+function replaceReferences(value: PDFObject, replacements: Map<string, PDFRef>): PDFObject {
+  if (value instanceof PDFRef) return replacements.get(value.toString()) ?? value;
+  if (value instanceof PDFDict) {
+    value.entries().forEach(([key, entry]) => value.set(key, replaceReferences(entry, replacements)));
+  } else if (value instanceof PDFArray) {
+    for (let index = 0; index < value.size(); index += 1) {
+      value.set(index, replaceReferences(value.get(index), replacements));
+    }
+  } else if (value instanceof PDFRawStream) {
+    replaceReferences(value.dict, replacements);
+  }
+  return value;
+}
+
+// Fonts, images and ICC profiles repeated across merged files become one shared object.
+function deduplicateStreams(output: PDFDocument): number {
+  const canonicalByKey = new Map<string, Array<{ ref: PDFRef; stream: PDFRawStream }>>();
+  const replacements = new Map<string, PDFRef>();
+  const duplicates: PDFRef[] = [];
+
+  output.context.enumerateIndirectObjects().forEach(([ref, object]) => {
+    if (!(object instanceof PDFRawStream)) return;
+    const key = `${object.dict.toString()}|${hashBytes(object.contents)}`;
+    const candidates = canonicalByKey.get(key) ?? [];
+    const match = candidates.find((candidate) => bytesEqual(candidate.stream.contents, object.contents));
+    if (match) {
+      replacements.set(ref.toString(), match.ref);
+      duplicates.push(ref);
+      return;
+    }
+    candidates.push({ ref, stream: object });
+    canonicalByKey.set(key, candidates);
+  });
+
+  if (!replacements.size) return 0;
+  output.context.enumerateIndirectObjects().forEach(([, object]) => replaceReferences(object, replacements));
+  replaceReferences(output.catalog, replacements);
+  duplicates.forEach((ref) => output.context.delete(ref));
+  return duplicates.length;
+}
+
+export async function assemblePdfDocument(
+  sources: Array<PdfAssemblySource | (Omit<PdfAssemblySource, "bytes"> & { loaded: LoadedPdfSource })>,
+  options: PdfAssemblyOptions = DEFAULT_PDF_ASSEMBLY_OPTIONS,
+): Promise<PdfAssemblyResult> {
+  const output = await PDFDocument.create();
+  const outline: ResolvedOutlineNode[] = [];
+  const fields = output.context.obj([]) as PDFArray;
+  const usedFieldNames = new Set<string>();
+  const seenFieldRoots = new Set<string>();
+  let firstAcroForm: PDFDict | null = null;
+  let firstAcroFormSource: PDFDocument | null = null;
+  let linkCount = 0;
+  let formFieldCount = 0;
+
+  for (let sourceIndex = 0; sourceIndex < sources.length; sourceIndex += 1) {
+    const source = sources[sourceIndex];
+    const loaded = "loaded" in source ? source.loaded : await loadPdfSource(source.bytes);
+    const totalPages = loaded.document.getPageCount();
+    const requested = (source.pages?.length ? source.pages : Array.from({ length: totalPages }, (_, i) => i + 1))
+      .filter((page) => Number.isInteger(page) && page >= 1 && page <= totalPages)
+      .map((page) => page - 1);
+    if (!requested.length) continue;
+
+    const copied = await output.copyPages(loaded.document, requested);
+    const targetRefBySourceIndex = new Map<number, PDFRef>();
+    copied.forEach((page, index) => {
+      output.addPage(page);
+      if (!targetRefBySourceIndex.has(requested[index])) {
+        targetRefBySourceIndex.set(requested[index], page.ref);
+      }
+    });
+    copied.forEach((page) => {
+      linkCount += relinkCopiedAnnotations(output, page, targetRefBySourceIndex, options.keepLinks);
+    });
+
+    if (options.keepFormFields) {
+      formFieldCount += collectFormFields(output, copied, usedFieldNames, fields, seenFieldRoots, sourceIndex + 1);
+      const acroForm = loaded.document.context.lookup(loaded.document.catalog.get(NAME.AcroForm));
+      if (!firstAcroForm && acroForm instanceof PDFDict) {
+        firstAcroForm = acroForm;
+        firstAcroFormSource = loaded.document;
+      }
+    }
+
+    const sourceOutline = options.keepBookmarks ? resolveOutlineNodes(loaded.outline, targetRefBySourceIndex) : [];
+    if (options.addFileBookmarks) {
+      outline.push({
+        title: source.name,
+        pageRef: copied[0].ref,
+        view: [NAME.Fit],
+        open: false,
+        children: sourceOutline,
+      });
+    } else {
+      outline.push(...sourceOutline);
+    }
+  }
+
+  const pageCount = output.getPageCount();
+  if (!pageCount) {
+    throw new Error("No pages were selected for the output PDF.");
+  }
+
+  if (options.keepFormFields && fields.size()) {
+    const acroForm = output.context.obj({}) as PDFDict;
+    acroForm.set(NAME.Fields, fields);
+    if (firstAcroForm && firstAcroFormSource) {
+      const copier = PDFObjectCopier.for(firstAcroFormSource.context, output.context);
+      const defaultAppearance = firstAcroForm.get(NAME.DA);
+      const defaultResources = firstAcroForm.get(NAME.DR);
+      if (defaultAppearance) acroForm.set(NAME.DA, copier.copy(defaultAppearance));
+      if (defaultResources) acroForm.set(NAME.DR, copier.copy(defaultResources));
+    }
+    output.catalog.set(NAME.AcroForm, output.context.register(acroForm));
+  }
+
+  const bookmarkCount = writeOutlineTree(output, outline);
+  const dedupedObjects = options.dedupeResources ? deduplicateStreams(output) : 0;
+
+  if (options.title) output.setTitle(options.title);
+  output.setProducer("Utiliora");
+  output.setCreator("Utiliora PDF tools");
+
+  const bytes = new Uint8Array(await output.save({ useObjectStreams: true }));
+  return { bytes, pageCount, bookmarkCount, linkCount, formFieldCount, dedupedObjects };
+}
+
+const SRGB_PROFILE_NAME = "sRGB IEC61966-2.1";
+
+function buildSrgbIccProfile(): Uint8Array {
+  const encoder = new TextEncoder();
+  const xyz = (x: number, y: number, z: number) => {
+    const bytes = new Uint8Array(20);
+    const view = new DataView(bytes.buffer);
+    bytes.set(encoder.encode("XYZ "));
+    [x, y, z].forEach((value, index) => view.setInt32(8 + index * 4, Math.round(value * 65536)));
+    return bytes;
+  };
+  const text = (value: string) => {
+    const bytes = new Uint8Array(8 + value.length + 1);
+    bytes.set(encoder.encode("text"));
+    bytes.set(encoder.encode(value), 8);
+    return bytes;
+  };
+  const description = (value: string) => {
+    const bytes = new Uint8Array(12 + value.length + 1 + 8 + 3 + 67);
+    bytes.set(encoder.encode("desc"));
+    new DataView(bytes.buffer).setUint32(8, value.length + 1);
+    bytes.set(encoder.encode(value), 12);
+    return bytes;
+  };
+  const curve = () => {
+    const points = 1024;
+    const bytes = new Uint8Array(12 + points * 2);
+    const view = new DataView(bytes.buffer);
+    bytes.set(encoder.encode("curv"));
+    view.setUint32(8, points);
+    for (let index = 0; index < points; index += 1) {
+      const value = index / (points - 1);
+      const linear = value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+      view.setUint16(12 + index * 2, Math.round(linear * 65535));
+    }
+    return bytes;
+  };
+
+  const trc = curve();
+  const tags: Array<[string, Uint8Array]> = [
+    ["desc", description(SRGB_PROFILE_NAME)],
+    ["cprt", text("No copyright, use freely")],
+    ["wtpt", xyz(0.9505, 1, 1.089)],
+    ["rXYZ", xyz(0.4361, 0.2225, 0.0139)],
+    ["gXYZ", xyz(0.3851, 0.7169, 0.0971)],
+    ["bXYZ", xyz(0.1431, 0.0606, 0.7141)],
+    ["rTRC", trc],
+    ["gTRC", trc],
+    ["bTRC", trc],
+  ];
+  const align = (value: number) => Math.ceil(value / 4) * 4;
+  const offsets = new Map<Uint8Array, number>();
+  let size = 128 + 4 + tags.length * 12;
+  tags.forEach(([, data]) => {
+    if (offsets.has(data)) return;
+    offsets.set(data, size);
+    size = align(size + data.length);
+  });
+
+  const profile = new Uint8Array(size);
+  const view = new DataView(profile.buffer);
+  view.setUint32(0, size);
+  view.setUint32(8, 0x02100000);
+  profile.set(encoder.encode("mntrRGB XYZ "), 12);
+  [2024, 1, 1, 0, 0, 0].forEach((value, index) => view.setUint16(24 + index * 2, value));
+  profile.set(encoder.encode("acsp"), 36);
+  [0.9642, 1, 0.8249].forEach((value, index) => view.setInt32(68 + index * 4, Math.round(value * 65536)));
+  view.setUint32(128, tags.length);
+  tags.forEach(([signature, data], index) => {
+    const entry = 132 + index * 12;
+    profile.set(encoder.encode(signature), entry);
+    view.setUint32(entry + 4, offsets.get(data) ?? 0);
+    view.setUint32(entry + 8, data.length);
+  });
+  offsets.forEach((offset, data) => profile.set(data, offset));
+  return profile;
+}
+
+function addSrgbOutputIntent(document: PDFDocument): void {
+  const profile = document.context.flateStream(buildSrgbIccProfile(), { N: 3 });
+  const outputIntent = document.context.obj({
+    Type: "OutputIntent",
+    S: "GTS_PDFA1",
+    OutputConditionIdentifier: PDFString.of(SRGB_PROFILE_NAME),
+    Info: PDFString.of(SRGB_PROFILE_NAME),
+    DestOutputProfile: document.context.register(profile),
+  });
+  document.catalog.set(NAME.OutputIntents, document.context.obj([document.context.register(outputIntent)]));
+}
+
+export async function embedFacturXAttachment(
+  pdfBytes: Uint8Array,
+  options: { xml: string; metadataXml: string; title: string; createdAt: Date },
+): Promise<Uint8Array<ArrayBuffer>> {
+  const document = await PDFDocument.load(pdfBytes, { updateMetadata: false });
+  const encoder = new TextEncoder();
+
+  await document.attach(encoder.encode(options.xml), "factur-x.xml", {
+    mimeType: "text/xml",
+    description: "Factur-X invoice",
+    creationDate: options.createdAt,
+    modificationDate: options.createdAt,
+    afRelationship: AFRelationship.Alternative,
+  });
+
+  const metadata = document.context.stream(encoder.encode(options.metadataXml), { Type: "Metadata", Subtype: "XML" });
+  document.catalog.set(NAME.Metadata, document.context.register(metadata));
+  addSrgbOutputIntent(document);
+  document.setTitle(options.title);
+  document.setProducer("Utiliora");
+  document.setCreator("Utiliora");
+  document.setCreationDate(options.createdAt);
+  document.setModificationDate(options.createdAt);
+
+  return new Uint8Array(await document.save({ useObjectStreams: false }));
+}
+
+export async function buildImageOnlyPdf(
+  pages: Array<{ pngBytes: Uint8Array; width: number; height: number }>,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const document = await PDFDocument.create({ updateMetadata: false });
+  for (const page of pages) {
+    const image = await document.embedPng(page.pngBytes);
+    const pdfPage = document.addPage([page.width, page.height]);
+    pdfPage.drawImage(image, { x: 0, y: 0, width: page.width, height: page.height });
+  }
+  return new Uint8Array(await document.save({ useObjectStreams: true }));
+}
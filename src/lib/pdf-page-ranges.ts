@@ -0,0 +1,41 @@
+export function parsePdfPageRanges(input: string, totalPages: number): number[] | null {
+  const trimmed = input.trim().toLowerCase();
+  if (totalPages < 1) return null;
+  if (!trimmed || trimmed === "all") {
+    return Array.from({ length: totalPages }, (_, index) => index + 1);
+  }
+
+  const resolveBound = (value: string, fallback: number): number | null => {
+    const token = value.trim();
+    if (!token) return fallback;
+    if (token === "end" || token === "last" || token === "z") return totalPages;
+    if (!/^\d+$/.test(token)) return null;
+    return Number.parseInt(token, 10);
+  };
+
+  const pages: number[] = [];
+  for (const rawChunk of trimmed.replace(/\s*-\s*/g, "-").split(/[,;\s]+/)) {
+    const chunk = rawChunk.trim();
+    if (!chunk) continue;
+    if (chunk === "-") return null;
+
+    const dashIndex = chunk.indexOf("-");
+    if (dashIndex === -1) {
+      const page = resolveBound(chunk, Number.NaN);
+      if (page === null || !Number.isFinite(page) || page < 1 || page > totalPages) return null;
+      pages.push(page);
+      continue;
+    }
+
+    const start = resolveBound(chunk.slice(0, dashIndex), 1);
+    const end = resolveBound(chunk.slice(dashIndex + 1), totalPages);
+    if (start === null || end === null || start < 1 || end < 1) return null;
+    if (start > totalPages || end > totalPages) return null;
+    const step = start <= end ? 1 : -1;
+    for (let page = start; step > 0 ? page <= end : page >= end; page += step) {
+      pages.push(page);
+    }
+  }
+
+  return pages.length ? pages : null;
+}
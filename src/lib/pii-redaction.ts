@@ -1,3 +1,5 @@
+import type { CsvDataset } from "@/lib/csv-cleanup";
+
 export type PiiFindingType =
   | "email"
   | "phone"
@@ -6,9 +8,23 @@ export type PiiFindingType =
   | "ssn"
   | "ip-address"
   | "url"
+  | "person-name"
+  | "postal-address"
+  | "date-of-birth"
+  | "passport"
+  | "uk-nino"
+  | "in-aadhaar"
+  | "in-pan"
+  | "ke-nin"
+  | "ug-nin"
+  | "br-cpf"
+  | "eu-vat"
   | "custom-term";
 
-export type PiiReplacementMode = "block" | "label" | "partial";
+export type PiiDetectorType = Exclude<PiiFindingType, "custom-term">;
+
+export type PiiReplacementMode = "block" | "label" | "partial" | "pseudonym";
+export type PiiColumnPolicy = "keep" | "drop" | "redact" | "mask" | "hash" | "pseudonym" | "year" | "age-bucket";
 
 export interface PiiFinding {
   id: string;
@@ -20,14 +36,440 @@ export interface PiiFinding {
   severity: "high" | "medium";
 }
 
-interface PiiPatternDefinition {
+export interface PiiBoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PiiLayoutToken {
+  text: string;
+  bbox: PiiBoundingBox;
+}
+
+export interface PiiLayoutLine {
+  text: string;
+  tokens: PiiLayoutToken[];
+  spans: Array<[number, number]>;
+}
+
+export interface PiiRedactionLogEntry {
+  page: string;
   type: PiiFindingType;
   label: string;
+  maskedValue: string;
+  bbox: PiiBoundingBox;
+}
+
+export interface PiiPseudonymEntry {
+  token: string;
+  value: string;
+  type: PiiFindingType;
+}
+
+export interface PiiPseudonymVault {
+  version: 1;
+  createdAt: string;
+  entries: Record<string, PiiPseudonymEntry>;
+  counters: Partial<Record<PiiFindingType, number>>;
+}
+
+export interface PiiDatasetScanOptions {
+  customTerms?: string[];
+  enabledTypes?: PiiDetectorType[];
+  sampleRows?: number;
+}
+
+export interface PiiDatasetColumnReport {
+  path: string;
+  filledCells: number;
+  piiCells: number;
+  density: number;
+  severity: PiiFinding["severity"] | null;
+  primaryType: PiiFindingType | null;
+  counts: Array<{ label: string; count: number }>;
+  numeric: boolean;
+  suggestedPolicy: PiiColumnPolicy;
+}
+
+export interface PiiDatasetScan {
+  kind: "csv" | "json";
+  records: number;
+  scannedRecords: number;
+  columns: PiiDatasetColumnReport[];
+  summary: Array<{ label: string; count: number }>;
+}
+
+export interface PiiDatasetSanitizeOptions {
+  policies: Record<string, PiiColumnPolicy>;
+  salt?: string;
+  vault?: PiiPseudonymVault;
+  customTerms?: string[];
+  enabledTypes?: PiiDetectorType[];
+}
+
+export interface PiiDatasetSanitizeSummary {
+  kind: "csv" | "json";
+  records: number;
+  sanitizedAt: string;
+  detected: Array<{ label: string; count: number }>;
+  columns: Array<{ path: string; policy: PiiColumnPolicy; piiCells: number; changedCells: number }>;
+  droppedPaths: string[];
+}
+
+export interface PiiRedactionProfile {
+  id: string;
+  label: string;
+  types: PiiDetectorType[];
+}
+
+interface PiiPatternDefinition {
+  type: PiiDetectorType;
+  label: string;
   severity: "high" | "medium";
   regex: RegExp;
+  group?: number;
+  checksum?: boolean;
   validate?: (value: string) => boolean;
 }
 
+export const PII_DETECTOR_LABELS: Record<PiiDetectorType, string> = {
+  email: "Email address",
+  phone: "Phone number",
+  "credit-card": "Card number",
+  iban: "IBAN / bank account",
+  ssn: "US SSN",
+  "ip-address": "IP address",
+  url: "URL",
+  "person-name": "Person name",
+  "postal-address": "Postal address",
+  "date-of-birth": "Date of birth",
+  passport: "Passport number",
+  "uk-nino": "UK National Insurance number",
+  "in-aadhaar": "Indian Aadhaar number",
+  "in-pan": "Indian PAN",
+  "ke-nin": "Kenyan national ID",
+  "ug-nin": "Ugandan NIN",
+  "br-cpf": "Brazilian CPF",
+  "eu-vat": "EU VAT ID",
+};
+
+export const PII_DETECTOR_TYPES = Object.keys(PII_DETECTOR_LABELS) as PiiDetectorType[];
+
+export const PII_COLUMN_POLICY_LABELS: Record<PiiColumnPolicy, string> = {
+  keep: "Keep as is",
+  drop: "Drop column",
+  redact: "Redact detected values",
+  mask: "Partial mask",
+  hash: "Salted hash",
+  pseudonym: "Vault pseudonym",
+  year: "Generalize date to year",
+  "age-bucket": "Bucket ages (10 years)",
+};
+
+const CONTACT_DETECTORS: PiiDetectorType[] = ["email", "phone", "person-name", "postal-address", "date-of-birth"];
+
+export const PII_REDACTION_PROFILES: PiiRedactionProfile[] = [
+  { id: "all", label: "All detectors", types: PII_DETECTOR_TYPES },
+  { id: "contact", label: "Contact details only", types: ["email", "phone", "person-name", "postal-address", "url"] },
+  { id: "financial", label: "Financial", types: ["credit-card", "iban", "eu-vat", "in-pan", "email", "phone"] },
+  { id: "us", label: "United States", types: [...CONTACT_DETECTORS, "ssn", "passport", "credit-card", "iban", "ip-address"] },
+  { id: "uk", label: "United Kingdom", types: [...CONTACT_DETECTORS, "uk-nino", "passport", "credit-card", "iban"] },
+  { id: "eu", label: "European Union", types: [...CONTACT_DETECTORS, "eu-vat", "passport", "credit-card", "iban"] },
+  { id: "india", label: "India", types: [...CONTACT_DETECTORS, "in-aadhaar", "in-pan", "passport", "credit-card"] },
+  { id: "east-africa", label: "Kenya & Uganda", types: [...CONTACT_DETECTORS, "ke-nin", "ug-nin", "passport", "credit-card"] },
+  { id: "brazil", label: "Brazil", types: [...CONTACT_DETECTORS, "br-cpf", "passport", "credit-card", "iban"] },
+];
+
+const NAME_TITLES = "Mr|Mrs|Ms|Miss|Mx|Dr|Prof|Sir|Dame|Madam|Sr|Sra|Srta|Herr|Frau|Mme|Mlle";
+const NAME_WORD = "[A-Z][a-z\u00e0-\u00ff'\u2019-]+";
+const COMMON_FIRST_NAMES = [
+  "James", "John", "Robert", "Michael", "William", "David", "Richard", "Joseph", "Thomas", "Charles", "Daniel", "Matthew",
+  "Anthony", "Steven", "Paul", "Andrew", "Joshua", "Kevin", "Brian", "George", "Edward", "Peter", "Samuel", "Benjamin",
+  "Mary", "Patricia", "Jennifer", "Linda", "Elizabeth", "Barbara", "Susan", "Jessica", "Sarah", "Karen", "Nancy", "Lisa",
+  "Margaret", "Sandra", "Ashley", "Emily", "Michelle", "Amanda", "Melissa", "Rebecca", "Laura", "Emma", "Olivia", "Sophia",
+  "Jane", "Anna", "Maria", "Ana", "Jose", "Juan", "Carlos", "Luis", "Pedro", "Miguel", "Javier", "Lucia", "Carmen",
+  "Joao", "Jo\u00e3o", "Paulo", "Lucas", "Gabriel", "Rafael", "Mateus", "Fernanda", "Juliana", "Camila", "Beatriz",
+  "Pierre", "Jean", "Marie", "Sophie", "Hans", "J\u00fcrgen", "Klaus", "Stefan", "Giuseppe", "Giovanni", "Francesca",
+  "Rahul", "Amit", "Priya", "Anil", "Sunil", "Ravi", "Vijay", "Suresh", "Ramesh", "Deepak", "Pooja", "Anjali", "Neha",
+  "Sanjay", "Arjun", "Lakshmi", "Mohammed", "Muhammad", "Ahmed", "Ali", "Fatima", "Aisha", "Omar", "Hassan", "Ibrahim",
+  "Wanjiru", "Wanjiku", "Kamau", "Otieno", "Achieng", "Akinyi", "Njeri", "Mwangi", "Kipchoge", "Chebet", "Auma",
+  "Nakato", "Babirye", "Mukasa", "Okello", "Namubiru", "Ssempala", "Nansubuga", "Musoke", "Kato", "Wasswa",
+];
+
+const EU_VAT_FORMATS: Record<string, RegExp> = {
+  AT: /^U\d{8}$/,
+  BE: /^[01]\d{9}$/,
+  BG: /^\d{9,10}$/,
+  CY: /^\d{8}[A-Z]$/,
+  CZ: /^\d{8,10}$/,
+  DE: /^\d{9}$/,
+  DK: /^\d{8}$/,
+  EE: /^\d{9}$/,
+  EL: /^\d{9}$/,
+  ES: /^[0-9A-Z]\d{7}[0-9A-Z]$/,
+  FI: /^\d{8}$/,
+  FR: /^[0-9A-HJ-NP-Z]{2}\d{9}$/,
+  HR: /^\d{11}$/,
+  HU: /^\d{8}$/,
+  IE: /^(?:\d{7}[A-W][A-I]?|\d[A-Z+*]\d{5}[A-W])$/,
+  IT: /^\d{11}$/,
+  LT: /^(?:\d{9}|\d{12})$/,
+  LU: /^\d{8}$/,
+  LV: /^\d{11}$/,
+  MT: /^\d{8}$/,
+  NL: /^\d{9}B\d{2}$/,
+  PL: /^\d{10}$/,
+  PT: /^\d{9}$/,
+  RO: /^\d{2,10}$/,
+  SE: /^\d{10}01$/,
+  SI: /^\d{8}$/,
+  SK: /^\d{10}$/,
+};
+
+const MONTH_NAMES = [
+  "jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec",
+];
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  let shouldDouble = false;
+  for (let index = digits.length - 1; index >= 0; index -= 1) {
+    let digit = Number(digits[index]);
+    if (shouldDouble) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+    shouldDouble = !shouldDouble;
+  }
+  return sum % 10 === 0;
+}
+
+const VERHOEFF_MULTIPLY = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+
+const VERHOEFF_PERMUTE = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+function passesVerhoeff(digits: string): boolean {
+  let check = 0;
+  digits
+    .split("")
+    .reverse()
+    .forEach((digit, index) => {
+      check = VERHOEFF_MULTIPLY[check][VERHOEFF_PERMUTE[index % 8][Number(digit)]];
+    });
+  return check === 0;
+}
+
+function isValidCpf(value: string): boolean {
+  const digits = value.replace(/\D/g, "");
+  if (digits.length !== 11 || /^(\d)\1{10}$/.test(digits)) return false;
+  const checkDigit = (length: number) => {
+    let sum = 0;
+    for (let index = 0; index < length; index += 1) sum += Number(digits[index]) * (length + 1 - index);
+    const remainder = (sum * 10) % 11;
+    return remainder === 10 ? 0 : remainder;
+  };
+  return checkDigit(9) === Number(digits[9]) && checkDigit(10) === Number(digits[10]);
+}
+
+function mod97(value: string): number {
+  let remainder = 0;
+  for (const character of value) remainder = (remainder * 10 + Number(character)) % 97;
+  return remainder;
+}
+
+function passesIso7064Mod1110(digits: string): boolean {
+  let product = 10;
+  for (let index = 0; index < digits.length - 1; index += 1) {
+    const sum = (Number(digits[index]) + product) % 10 || 10;
+    product = (2 * sum) % 11;
+  }
+  return (11 - product) % 10 === Number(digits[digits.length - 1]);
+}
+
+function weightedSum(digits: string, weights: number[]): number {
+  return weights.reduce((sum, weight, index) => sum + weight * Number(digits[index]), 0);
+}
+
+function luhnCheckDigit(digits: string): number {
+  return [0, 1, 2, 3, 4, 5, 6, 7, 8, 9].find((digit) => passesLuhn(`${digits}${digit}`)) ?? 0;
+}
+
+const EU_VAT_REGEX = /\b(?:AT|BE|BG|CY|CZ|DE|DK|EE|EL|ES|FI|FR|HR|HU|IE|IT|LT|LU|LV|MT|NL|PL|PT|RO|SE|SI|SK) ?[0-9A-Z][0-9A-Z+*]{1,12}\b/g;
+const SPANISH_ID_LETTERS = "TRWAGMYFPDXBNJZSQVHLCKE";
+const IRISH_VAT_LETTERS = "WABCDEFGHIJKLMNOPQRSTUV";
+
+// null marks ID forms that carry no check digit, so only their format can be confirmed.
+const EU_VAT_CHECKS: Record<string, (body: string) => boolean | null> = {
+  AT: (body) => {
+    const sum = body
+      .slice(1, 8)
+      .split("")
+      .reduce((total, digit, index) => {
+        const value = Number(digit) * (index % 2 ? 2 : 1);
+        return total + Math.floor(value / 10) + (value % 10);
+      }, 0);
+    return (10 - ((sum + 4) % 10)) % 10 === Number(body[8]);
+  },
+  BE: (body) => 97 - (Number(body.slice(0, 8)) % 97) === Number(body.slice(8)),
+  BG: (body) => {
+    if (body.length === 9) {
+      let check = weightedSum(body, [1, 2, 3, 4, 5, 6, 7, 8]) % 11;
+      if (check === 10) check = weightedSum(body, [3, 4, 5, 6, 7, 8, 9, 10]) % 11;
+      return check % 10 === Number(body[8]);
+    }
+    const last = Number(body[9]);
+    const other = 11 - (weightedSum(body, [4, 3, 2, 7, 6, 5, 4, 3, 2]) % 11);
+    return (
+      (weightedSum(body, [2, 4, 8, 5, 10, 9, 7, 3, 6]) % 11) % 10 === last ||
+      weightedSum(body, [21, 19, 17, 13, 11, 9, 7, 3, 1]) % 10 === last ||
+      (other !== 10 && other % 11 === last)
+    );
+  },
+  CY: (body) => {
+    if (body.startsWith("12")) return false;
+    const oddValues = [1, 0, 5, 7, 9, 13, 15, 17, 19, 21];
+    const sum = body
+      .slice(0, 8)
+      .split("")
+      .reduce((total, digit, index) => total + (index % 2 ? Number(digit) : oddValues[Number(digit)]), 0);
+    return String.fromCharCode(65 + (sum % 26)) === body[8];
+  },
+  CZ: (body) => {
+    if (body.length === 8) {
+      if (body[0] === "9") return false;
+      const check = (11 - (weightedSum(body, [8, 7, 6, 5, 4, 3, 2]) % 11)) % 11;
+      return (check || 1) % 10 === Number(body[7]);
+    }
+    if (body.length === 9) return null;
+    return Number(body) % 11 === 0 || (Number(body.slice(0, 9)) % 11 === 10 && body[9] === "0");
+  },
+  DE: (body) => passesIso7064Mod1110(body),
+  DK: (body) => body[0] !== "0" && weightedSum(body, [2, 7, 6, 5, 4, 3, 2, 1]) % 11 === 0,
+  EE: (body) => weightedSum(body, [3, 7, 1, 3, 7, 1, 3, 7, 1]) % 10 === 0,
+  EL: (body) => weightedSum(body, [256, 128, 64, 32, 16, 8, 4, 2]) % 11 % 10 === Number(body[8]),
+  ES: (body) => {
+    const last = body[8];
+    if (/^\d{8}[A-Z]$/.test(body)) return SPANISH_ID_LETTERS[Number(body.slice(0, 8)) % 23] === last;
+    if (/^[XYZ]\d{7}[A-Z]$/.test(body)) {
+      return SPANISH_ID_LETTERS[Number(`${"XYZ".indexOf(body[0])}${body.slice(1, 8)}`) % 23] === last;
+    }
+    if (/^[KLM]\d{7}[A-Z]$/.test(body)) return SPANISH_ID_LETTERS[Number(body.slice(1, 8)) % 23] === last;
+    if (/^[A-HJNP-SUVW]\d{7}[0-9A-J]$/.test(body)) {
+      const check = luhnCheckDigit(body.slice(1, 8));
+      return last === String(check) || last === "JABCDEFGHI"[check];
+    }
+    return false;
+  },
+  FI: (body) => weightedSum(body, [7, 9, 10, 5, 8, 4, 2, 1]) % 11 === 0,
+  FR: (body) => {
+    if (!body.slice(2).startsWith("000") && !passesLuhn(body.slice(2))) return false;
+    if (!/^\d{2}/.test(body)) return true;
+    return (12 + 3 * (Number(body.slice(2)) % 97)) % 97 === Number(body.slice(0, 2));
+  },
+  HR: (body) => passesIso7064Mod1110(body),
+  HU: (body) => weightedSum(body, [9, 7, 3, 1, 9, 7, 3, 1]) % 10 === 0,
+  IE: (body) => {
+    const modern = /^\d[A-Z+*]/.test(body) ? `0${body.slice(2, 7)}${body[0]}${body.slice(7)}` : body;
+    const extra = modern[8] ? IRISH_VAT_LETTERS.indexOf(modern[8]) : 0;
+    return IRISH_VAT_LETTERS[(weightedSum(modern, [8, 7, 6, 5, 4, 3, 2]) + 9 * extra) % 23] === modern[7];
+  },
+  IT: (body) => passesLuhn(body),
+  LT: (body) => {
+    const digits = body.slice(0, -1);
+    if (digits[digits.length - 1] !== "1") return false;
+    let check = digits.split("").reduce((sum, digit, index) => sum + (1 + (index % 9)) * Number(digit), 0) % 11;
+    if (check === 10) check = digits.split("").reduce((sum, digit, index) => sum + (1 + ((index + 2) % 9)) * Number(digit), 0) % 11;
+    return check % 10 === Number(body[body.length - 1]);
+  },
+  LU: (body) => Number(body.slice(0, 6)) % 89 === Number(body.slice(6)),
+  LV: (body) => {
+    if (Number(body[0]) > 3) return weightedSum(body, [9, 1, 4, 8, 3, 10, 2, 5, 7, 6, 1]) % 11 === 3;
+    if (body.startsWith("32")) return null;
+    const check = (1 + weightedSum(body, [10, 5, 8, 4, 2, 1, 6, 3, 7, 9])) % 11;
+    return check !== 10 && check === Number(body[10]);
+  },
+  MT: (body) => body[0] !== "0" && weightedSum(body, [3, 4, 6, 7, 8, 9, 10, 1]) % 37 === 0,
+  NL: (body) => {
+    const digits = body.slice(0, 9);
+    if ((weightedSum(digits, [9, 8, 7, 6, 5, 4, 3, 2]) - Number(digits[8])) % 11 === 0) return true;
+    const numeric = `NL${body}`.replace(/[A-Z]/g, (letter) => String(letter.charCodeAt(0) - 55));
+    return mod97(numeric) === 1;
+  },
+  PL: (body) => weightedSum(body, [6, 5, 7, 2, 3, 4, 5, 6, 7]) % 11 === Number(body[9]),
+  PT: (body) => {
+    const check = 11 - (weightedSum(body, [9, 8, 7, 6, 5, 4, 3, 2]) % 11);
+    return (check >= 10 ? 0 : check) === Number(body[8]);
+  },
+  RO: (body) => {
+    const digits = body.slice(0, -1).padStart(9, "0");
+    return ((10 * weightedSum(digits, [7, 5, 3, 2, 1, 7, 5, 3, 2])) % 11) % 10 === Number(body[body.length - 1]);
+  },
+  SE: (body) => passesLuhn(body.slice(0, 10)),
+  SI: (body) => {
+    if (body[0] === "0") return false;
+    const check = 11 - (weightedSum(body, [8, 7, 6, 5, 4, 3, 2]) % 11);
+    return check !== 11 && check % 10 === Number(body[7]);
+  },
+  SK: (body) => body[0] !== "0" && Number(body) % 11 === 0,
+};
+
+function getEuVatCheckResult(value: string): boolean | null {
+  const compact = value.replace(/[\s.-]/g, "").toUpperCase();
+  const country = compact.slice(0, 2);
+  const body = compact.slice(2);
+  const format = EU_VAT_FORMATS[country];
+  if (!format || !format.test(body)) return false;
+  return EU_VAT_CHECKS[country](body);
+}
+
+function isPlausibleDateOfBirth(value: string): boolean {
+  const numeric = value.match(/^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})$/);
+  if (numeric) {
+    const parts = [numeric[1], numeric[2], numeric[3]].map(Number);
+    const year = numeric[1].length === 4 ? parts[0] : parts[2];
+    const dayMonth = numeric[1].length === 4 ? [parts[1], parts[2]] : [parts[0], parts[1]];
+    if (dayMonth.some((part) => part < 1 || part > 31) || Math.min(...dayMonth) > 12) return false;
+    return numeric[3].length === 2 || (year >= 1900 && year <= new Date().getFullYear());
+  }
+  const lower = value.toLowerCase();
+  return MONTH_NAMES.some((month) => lower.includes(month));
+}
+
+function isValidMrzDocumentNumber(value: string): boolean {
+  const weights = [7, 3, 1];
+  const charValue = (character: string) => {
+    if (character === "<") return 0;
+    if (/\d/.test(character)) return Number(character);
+    return character.charCodeAt(0) - 55;
+  };
+  const number = value.slice(0, 9);
+  const sum = number.split("").reduce((total, character, index) => total + charValue(character) * weights[index % 3], 0);
+  return sum % 10 === Number(value[9]);
+}
+
 const PII_PATTERNS: PiiPatternDefinition[] = [
   {
     type: "email",
@@ -46,21 +488,11 @@ const PII_PATTERNS: PiiPatternDefinition[] = [
     label: "Card number",
     severity: "high",
     regex: /\b(?:\d[ -]*?){13,19}\b/g,
+    checksum: true,
     validate: (value) => {
       const digits = value.replace(/\D/g, "");
       if (digits.length < 13 || digits.length > 19) return false;
-      let sum = 0;
-      let shouldDouble = false;
-      for (let index = digits.length - 1; index >= 0; index -= 1) {
-        let digit = Number(digits[index]);
-        if (shouldDouble) {
-          digit *= 2;
-          if (digit > 9) digit -= 9;
-        }
-        sum += digit;
-        shouldDouble = !shouldDouble;
-      }
-      return sum % 10 === 0;
+      return passesLuhn(digits);
     },
   },
   {
@@ -87,8 +519,138 @@ const PII_PATTERNS: PiiPatternDefinition[] = [
     severity: "medium",
     regex: /\b(?:https?:\/\/|www\.)[^\s<>"')]+/gi,
   },
+  {
+    type: "person-name",
+    label: "Person name",
+    severity: "medium",
+    regex: new RegExp(`\\b(?:${NAME_TITLES})\\.?[ \\t]+${NAME_WORD}(?:[ \\t]+${NAME_WORD}){0,2}`, "g"),
+  },
+  {
+    type: "person-name",
+    label: "Person name",
+    severity: "medium",
+    regex: /\b(?:full name|name|customer|client|patient|employee|applicant|tenant|contact|account holder|beneficiary|signed by|attn)\s*[:\-]\s*([^\s,;:\d]+(?:[ \t]+[^\s,;:\d]+){1,3})/gi,
+    group: 1,
+    validate: (value) => value.split(/\s+/).every((word) => /^[A-Z][a-z\u00e0-\u00ff'\u2019.-]*$/.test(word)),
+  },
+  {
+    type: "person-name",
+    label: "Person name",
+    severity: "medium",
+    regex: new RegExp(`\\b(?:${COMMON_FIRST_NAMES.join("|")})(?:[ \\t]+[A-Z]\\.)?[ \\t]+${NAME_WORD}(?:[ \\t]+${NAME_WORD})?`, "g"),
+  },
+  {
+    type: "postal-address",
+    label: "Postal address",
+    severity: "medium",
+    regex:
+      /\b\d{1,5}[A-Za-z]?,?[ \t]+(?:[A-Z][A-Za-z'\u2019.-]*[ \t]+){1,4}(?:Street|St\.?|Road|Rd\.?|Avenue|Ave\.?|Lane|Ln\.?|Drive|Dr\.?|Boulevard|Blvd\.?|Way|Close|Court|Ct\.?|Place|Pl\.?|Terrace|Crescent|Highway|Hwy\.?|Square|Sq\.?|Parkway|Gardens)\b(?:,?[ \t]+(?:Apt|Apartment|Suite|Unit|Flat)\.?[ \t]*#?[A-Za-z0-9-]+)?(?:,[ \t]*[A-Z][a-z]+(?:[ \t][A-Z][a-z]+){0,2}){0,2}(?:,?[ \t]+(?:[A-Z]{2}[ \t]+\d{5}(?:-\d{4})?|[A-Z]{1,2}\d[A-Z\d]?[ \t]*\d[A-Z]{2}))?/g,
+  },
+  {
+    type: "postal-address",
+    label: "Postal address",
+    severity: "medium",
+    regex:
+      /\b(?:Rua|Avenida|Av\.|Calle|Carrer|Via|Viale|Rue|Travessa|Alameda)[ \t]+(?:[A-Za-z\u00c0-\u00ff'\u2019.-]+[ \t]+){0,4}[A-Za-z\u00c0-\u00ff'\u2019.-]+,?[ \t]*(?:n[\u00ba\u00b0o.]?[ \t]*)?\d{1,5}[A-Za-z]?\b/g,
+  },
+  {
+    type: "postal-address",
+    label: "Postal address",
+    severity: "medium",
+    regex: /\b[A-Z\u00c4\u00d6\u00dc][a-z\u00e4\u00f6\u00fc\u00df]+(?:stra\u00dfe|strasse|str\.|weg|gasse|platz|allee|ring)\s+\d{1,4}[a-z]?\b/g,
+  },
+  {
+    type: "postal-address",
+    label: "Postal address",
+    severity: "medium",
+    regex: /\b(?:[Pp]\.? ?[Oo]\.? ?[Bb]ox|Post Office Box|Private Bag)[ \t]+\d{1,6}(?:[ \t]*[-\u2013][ \t]*\d{5})?(?:,[ \t]*[A-Z][a-z]+(?:[ \t][A-Z][a-z]+)?)?/g,
+  },
+  {
+    type: "date-of-birth",
+    label: "Date of birth",
+    severity: "high",
+    regex:
+      /\b(?:DOB|D\.O\.B\.?|date of birth|birth ?date|born(?: on)?|geburtsdatum|data de nascimento|fecha de nacimiento|date de naissance)\s*[:\-]?\s*(\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}|\d{4}-\d{2}-\d{2}|\d{1,2}(?:st|nd|rd|th)?\s+[A-Za-z]{3,9}\.?,?\s+\d{4}|[A-Za-z]{3,9}\.?\s+\d{1,2}(?:st|nd|rd|th)?,?\s+\d{4})/gi,
+    group: 1,
+    validate: isPlausibleDateOfBirth,
+  },
+  {
+    type: "passport",
+    label: "Passport number",
+    severity: "high",
+    regex: /\bpassport(?:\s*(?:no\.?|number|num|#))?\s*[:\-]?\s*([A-Z0-9]{6,9})\b/gi,
+    group: 1,
+    validate: (value) => /\d/.test(value),
+  },
+  {
+    type: "passport",
+    label: "Passport MRZ",
+    severity: "high",
+    regex: /\b[A-Z0-9<]{9}\d[A-Z<]{3}\d{6}\d[MFX<]\d{6}\d[A-Z0-9<]{14}[0-9<]\d\b/g,
+    checksum: true,
+    validate: isValidMrzDocumentNumber,
+  },
+  {
+    type: "uk-nino",
+    label: "UK National Insurance number",
+    severity: "high",
+    regex: /\b(?!BG|GB|NK|KN|TN|NT|ZZ)[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z] ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/g,
+  },
+  {
+    type: "in-aadhaar",
+    label: "Indian Aadhaar number",
+    severity: "high",
+    regex: /\b[2-9]\d{3}[ -]?\d{4}[ -]?\d{4}\b/g,
+    checksum: true,
+    validate: (value) => passesVerhoeff(value.replace(/\D/g, "")),
+  },
+  {
+    type: "in-pan",
+    label: "Indian PAN",
+    severity: "high",
+    regex: /\b[A-Z]{3}[ABCFGHJLPT][A-Z]\d{4}[A-Z]\b/g,
+  },
+  {
+    type: "ke-nin",
+    label: "Kenyan national ID",
+    severity: "high",
+    regex: /\b(?:national id(?: no\.?| number)?|id (?:card )?(?:no\.?|number)|huduma namba|maisha namba)\s*[:\-#]?\s*(\d{7,9})\b/gi,
+    group: 1,
+  },
+  {
+    type: "ug-nin",
+    label: "Ugandan NIN",
+    severity: "high",
+    regex: /\b[CA][MF]\d{2}[0-9A-Z]{10}\b/g,
+    validate: (value) => (value.match(/\d/g) ?? []).length >= 6,
+  },
+  {
+    type: "br-cpf",
+    label: "Brazilian CPF",
+    severity: "high",
+    regex: /\b\d{3}\.?\d{3}\.?\d{3}-?\d{2}\b/g,
+    checksum: true,
+    validate: isValidCpf,
+  },
+  {
+    type: "eu-vat",
+    label: "EU VAT ID",
+    severity: "high",
+    regex: EU_VAT_REGEX,
+    checksum: true,
+    validate: (value) => getEuVatCheckResult(value) === true,
+  },
+  {
+    type: "eu-vat",
+    label: "EU VAT ID (format only)",
+    severity: "high",
+    regex: EU_VAT_REGEX,
+    validate: (value) => getEuVatCheckResult(value) === null,
+  },
 ];
 
+const CHECKSUM_LABELS = new Set(PII_PATTERNS.filter((pattern) => pattern.checksum).map((pattern) => pattern.label));
+
 function escapeRegExp(value: string): string {
   return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
@@ -102,6 +664,8 @@ function overlaps(left: PiiFinding, right: PiiFinding): boolean {
 }
 
 function shouldReplaceExisting(existing: PiiFinding, next: PiiFinding): boolean {
+  const existingChecked = CHECKSUM_LABELS.has(existing.label);
+  if (existingChecked !== CHECKSUM_LABELS.has(next.label)) return !existingChecked;
   const existingLength = existing.end - existing.start;
   const nextLength = next.end - next.start;
   if (nextLength !== existingLength) return nextLength > existingLength;
@@ -121,8 +685,195 @@ function insertFinding(findings: PiiFinding[], nextFinding: PiiFinding) {
   findings.push(nextFinding);
 }
 
-function buildReplacement(value: string, finding: PiiFinding, mode: PiiReplacementMode): string {
+const PSEUDONYM_PREFIXES: Record<PiiFindingType, string> = {
+  email: "EMAIL",
+  phone: "PHONE",
+  "credit-card": "CARD",
+  iban: "IBAN",
+  ssn: "SSN",
+  "ip-address": "IP",
+  url: "URL",
+  "person-name": "PERSON",
+  "postal-address": "ADDRESS",
+  "date-of-birth": "DOB",
+  passport: "PASSPORT",
+  "uk-nino": "NINO",
+  "in-aadhaar": "AADHAAR",
+  "in-pan": "PAN",
+  "ke-nin": "KE_ID",
+  "ug-nin": "UG_NIN",
+  "br-cpf": "CPF",
+  "eu-vat": "VAT_ID",
+  "custom-term": "TERM",
+};
+
+const IDENTIFIER_TYPES = new Set<PiiFindingType>([
+  "phone",
+  "credit-card",
+  "iban",
+  "ssn",
+  "passport",
+  "uk-nino",
+  "in-aadhaar",
+  "in-pan",
+  "ke-nin",
+  "ug-nin",
+  "br-cpf",
+  "eu-vat",
+]);
+
+const PII_VAULT_FORMAT = "utiliora-pii-vault";
+const PII_VAULT_ITERATIONS = 250_000;
+
+function getPseudonymKey(type: PiiFindingType, value: string): string {
+  const normalized = value.trim().toLowerCase().replace(/\s+/g, " ");
+  return `${type}:${IDENTIFIER_TYPES.has(type) ? normalized.replace(/[^a-z0-9]/g, "") : normalized}`;
+}
+
+function hashPseudonymSeed(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+function formatPseudonymToken(type: PiiFindingType, counter: number, key: string): string {
+  const padded = String(counter).padStart(3, "0");
+  if (type === "email") return `email_${hashPseudonymSeed(key).slice(0, 4)}@example.invalid`;
+  if (type === "ip-address" && counter <= 254) return `192.0.2.${counter}`;
+  if (type === "url") return `https://example.invalid/url_${padded}`;
+  return `${PSEUDONYM_PREFIXES[type]}_${padded}`;
+}
+
+export function createPseudonymVault(): PiiPseudonymVault {
+  return { version: 1, createdAt: new Date().toISOString(), entries: {}, counters: {} };
+}
+
+export function getPseudonym(vault: PiiPseudonymVault, finding: Pick<PiiFinding, "type" | "value">): string | null {
+  return vault.entries[getPseudonymKey(finding.type, finding.value)]?.token ?? null;
+}
+
+export function assignPseudonyms(vault: PiiPseudonymVault, findings: Array<Pick<PiiFinding, "type" | "value">>): PiiPseudonymVault {
+  const missing = findings.filter((finding) => finding.value.trim() && !getPseudonym(vault, finding));
+  if (!missing.length) return vault;
+
+  const next: PiiPseudonymVault = { ...vault, entries: { ...vault.entries }, counters: { ...vault.counters } };
+  const usedTokens = new Set(Object.values(next.entries).map((entry) => entry.token));
+  missing.forEach((finding) => {
+    const key = getPseudonymKey(finding.type, finding.value);
+    if (next.entries[key]) return;
+    const counter = (next.counters[finding.type] ?? 0) + 1;
+    next.counters[finding.type] = counter;
+    let token = formatPseudonymToken(finding.type, counter, key);
+    if (usedTokens.has(token)) {
+      token = finding.type === "email" ? `email_${hashPseudonymSeed(key).slice(0, 4)}_${counter}@example.invalid` : `${token}_${counter}`;
+    }
+    usedTokens.add(token);
+    next.entries[key] = { token, value: finding.value.trim(), type: finding.type };
+  });
+  return next;
+}
+
+export function reidentifyPseudonymizedText(text: string, vault: PiiPseudonymVault): { text: string; replaced: number } {
+  const entries = Object.values(vault.entries).sort((left, right) => right.token.length - left.token.length);
+  if (!entries.length) return { text, replaced: 0 };
+  const lookup = new Map(entries.map((entry) => [entry.token, entry.value]));
+  let replaced = 0;
+  const restored = text.replace(new RegExp(entries.map((entry) => escapeRegExp(entry.token)).join("|"), "g"), (token) => {
+    replaced += 1;
+    return lookup.get(token) ?? token;
+  });
+  return { text: restored, replaced };
+}
+
+export function sanitizePseudonymVault(value: unknown): PiiPseudonymVault {
+  const vault = createPseudonymVault();
+  if (!value || typeof value !== "object") return vault;
+  const candidate = value as Partial<PiiPseudonymVault>;
+  if (typeof candidate.createdAt === "string") vault.createdAt = candidate.createdAt;
+  Object.entries(candidate.entries ?? {}).forEach(([key, entry]) => {
+    if (!entry || typeof entry.token !== "string" || typeof entry.value !== "string" || !(entry.type in PSEUDONYM_PREFIXES)) return;
+    vault.entries[key] = { token: entry.token, value: entry.value, type: entry.type };
+  });
+  Object.entries(candidate.counters ?? {}).forEach(([type, counter]) => {
+    if (type in PSEUDONYM_PREFIXES && typeof counter === "number" && Number.isFinite(counter)) {
+      vault.counters[type as PiiFindingType] = Math.max(0, Math.floor(counter));
+    }
+  });
+  return vault;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function base64ToBytes(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index += 1) bytes[index] = binary.charCodeAt(index);
+  return bytes;
+}
+
+async function derivePiiVaultKey(password: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(password), "PBKDF2", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+export async function encryptPseudonymVault(vault: PiiPseudonymVault, password: string): Promise<string> {
+  if (password.length < 8) throw new Error("Use a vault password with at least 8 characters.");
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await derivePiiVaultKey(password, salt, PII_VAULT_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(JSON.stringify(vault)));
+  return JSON.stringify(
+    {
+      format: PII_VAULT_FORMAT,
+      version: 1,
+      kdf: "PBKDF2-SHA256",
+      iterations: PII_VAULT_ITERATIONS,
+      salt: bytesToBase64(salt),
+      iv: bytesToBase64(iv),
+      ciphertext: bytesToBase64(new Uint8Array(ciphertext)),
+    },
+    null,
+    2,
+  );
+}
+
+export async function decryptPseudonymVault(payload: string, password: string): Promise<PiiPseudonymVault> {
+  let envelope: { format?: string; iterations?: number; salt?: string; iv?: string; ciphertext?: string };
+  try {
+    envelope = JSON.parse(payload);
+  } catch {
+    throw new Error("This is not a pseudonymization vault file.");
+  }
+  if (envelope.format !== PII_VAULT_FORMAT || !envelope.salt || !envelope.iv || !envelope.ciphertext) {
+    throw new Error("This is not a pseudonymization vault file.");
+  }
+  try {
+    const key = await derivePiiVaultKey(password, base64ToBytes(envelope.salt), envelope.iterations ?? PII_VAULT_ITERATIONS);
+    const plaintext = await crypto.subtle.decrypt({ name: "AES-GCM", iv: base64ToBytes(envelope.iv) }, key, base64ToBytes(envelope.ciphertext));
+    return sanitizePseudonymVault(JSON.parse(new TextDecoder().decode(plaintext)));
+  } catch {
+    throw new Error("Incorrect password or damaged vault file.");
+  }
+}
+
+function buildReplacement(value: string, finding: PiiFinding, mode: PiiReplacementMode, vault?: PiiPseudonymVault): string {
   if (mode === "block") return "[REDACTED]";
+  if (mode === "pseudonym") return (vault && getPseudonym(vault, finding)) ?? `[${finding.label.toUpperCase()}]`;
   if (mode === "label") return `[${finding.label.toUpperCase()}]`;
 
   const trimmed = value.trim();
@@ -138,15 +889,21 @@ function buildReplacement(value: string, finding: PiiFinding, mode: PiiReplaceme
   return `${prefix}${"*".repeat(Math.max(3, trimmed.length - 4))}${suffix}`;
 }
 
-export function detectPiiFindings(text: string, customTerms: string[] = []): PiiFinding[] {
+export function detectPiiFindings(
+  text: string,
+  customTerms: string[] = [],
+  enabledTypes: PiiDetectorType[] = PII_DETECTOR_TYPES,
+): PiiFinding[] {
   const source = normalizeWhitespace(text);
   const findings: PiiFinding[] = [];
+  const enabled = new Set(enabledTypes);
 
   PII_PATTERNS.forEach((pattern) => {
+    if (!enabled.has(pattern.type)) return;
     const regex = new RegExp(pattern.regex.source, pattern.regex.flags);
     for (const match of source.matchAll(regex)) {
-      const value = match[0] ?? "";
-      const start = match.index ?? -1;
+      const value = (pattern.group ? match[pattern.group] : match[0]) ?? "";
+      const start = (match.index ?? -1) + (pattern.group ? match[0].lastIndexOf(value) : 0);
       if (!value || start < 0) continue;
       if (pattern.validate && !pattern.validate(value)) continue;
       insertFinding(findings, {
@@ -190,6 +947,7 @@ export function applyPiiRedactions(
   findings: PiiFinding[],
   selectedIds: string[],
   mode: PiiReplacementMode,
+  vault?: PiiPseudonymVault,
 ): string {
   const source = normalizeWhitespace(text);
   const selected = findings.filter((finding) => selectedIds.includes(finding.id)).sort((left, right) => left.start - right.start);
@@ -200,13 +958,69 @@ export function applyPiiRedactions(
   selected.forEach((finding) => {
     if (finding.start < cursor) return;
     parts.push(source.slice(cursor, finding.start));
-    parts.push(buildReplacement(source.slice(finding.start, finding.end), finding, mode));
+    parts.push(buildReplacement(source.slice(finding.start, finding.end), finding, mode, vault));
     cursor = finding.end;
   });
   parts.push(source.slice(cursor));
   return parts.join("");
 }
 
+export function maskPiiValue(finding: PiiFinding): string {
+  return buildReplacement(finding.value, finding, "partial");
+}
+
+export function buildPiiLayoutLine(tokens: PiiLayoutToken[]): PiiLayoutLine {
+  const spans: Array<[number, number]> = [];
+  let text = "";
+  tokens.forEach((token, index) => {
+    if (index > 0) text += " ";
+    spans.push([text.length, text.length + token.text.length]);
+    text += token.text;
+  });
+  return { text, tokens, spans };
+}
+
+export function locatePiiFindingBox(line: PiiLayoutLine, finding: Pick<PiiFinding, "start" | "end">): PiiBoundingBox | null {
+  const boxes = line.tokens
+    .filter((_, index) => line.spans[index][0] < finding.end && finding.start < line.spans[index][1])
+    .map((token) => token.bbox);
+  if (!boxes.length) return null;
+  const left = Math.min(...boxes.map((box) => box.x));
+  const top = Math.min(...boxes.map((box) => box.y));
+  const right = Math.max(...boxes.map((box) => box.x + box.width));
+  const bottom = Math.max(...boxes.map((box) => box.y + box.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+export function groupPiiLayoutTokens(tokens: PiiLayoutToken[]): PiiLayoutToken[][] {
+  const sorted = [...tokens].sort((left, right) => left.bbox.y + left.bbox.height - (right.bbox.y + right.bbox.height));
+  const lines: PiiLayoutToken[][] = [];
+  sorted.forEach((token) => {
+    const baseline = token.bbox.y + token.bbox.height;
+    const line = lines.find((candidate) => {
+      const reference = candidate[0].bbox;
+      return Math.abs(reference.y + reference.height - baseline) <= Math.max(2, Math.min(reference.height, token.bbox.height) * 0.5);
+    });
+    if (line) line.push(token);
+    else lines.push([token]);
+  });
+  return lines.map((line) => line.sort((left, right) => left.bbox.x - right.bbox.x));
+}
+
+export function sanitizePiiRedactionProfiles(value: unknown): PiiRedactionProfile[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((entry): entry is Partial<PiiRedactionProfile> => Boolean(entry) && typeof entry === "object")
+    .map((entry) => ({
+      id: typeof entry.id === "string" && entry.id ? entry.id : crypto.randomUUID(),
+      label: typeof entry.label === "string" && entry.label.trim() ? entry.label.trim() : "Custom profile",
+      types: Array.isArray(entry.types)
+        ? entry.types.filter((type): type is PiiDetectorType => PII_DETECTOR_TYPES.includes(type as PiiDetectorType))
+        : [],
+    }))
+    .filter((entry) => entry.types.length > 0);
+}
+
 export function summarizePiiCounts(findings: PiiFinding[]): Array<{ label: string; count: number }> {
   const counts = new Map<string, number>();
   findings.forEach((finding) => {
@@ -216,3 +1030,315 @@ export function summarizePiiCounts(findings: PiiFinding[]): Array<{ label: strin
     .sort((left, right) => right[1] - left[1] || left[0].localeCompare(right[0]))
     .map(([label, count]) => ({ label, count }));
 }
+
+const PII_DATASET_SAMPLE_ROWS = 5000;
+const DIRECT_IDENTIFIER_TYPES = new Set<PiiFindingType>(["email", "phone", "person-name", "custom-term"]);
+
+interface PiiDatasetColumnAccumulator {
+  path: string;
+  filledCells: number;
+  piiCells: number;
+  wholeValueCells: number;
+  numeric: boolean;
+  findings: PiiFinding[];
+}
+
+function getPathKeyWords(path: string): string {
+  const key = path.split(/[.[\]]+/).filter(Boolean).pop() ?? path;
+  return key
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .replace(/[_\-]+/g, " ")
+    .trim();
+}
+
+function detectPiiInCell(path: string, value: string, customTerms: string[], enabledTypes: PiiDetectorType[]): PiiFinding[] {
+  const context = `${getPathKeyWords(path)}: `;
+  return detectPiiFindings(`${context}${value}`, customTerms, enabledTypes)
+    .filter((finding) => finding.start >= context.length)
+    .map((finding) => ({
+      ...finding,
+      id: `${finding.type}-${finding.start - context.length}-${finding.end - context.length}`,
+      start: finding.start - context.length,
+      end: finding.end - context.length,
+    }));
+}
+
+function createColumnAccumulator(path: string): PiiDatasetColumnAccumulator {
+  return { path, filledCells: 0, piiCells: 0, wholeValueCells: 0, numeric: true, findings: [] };
+}
+
+function recordDatasetCell(
+  accumulator: PiiDatasetColumnAccumulator,
+  value: string,
+  customTerms: string[],
+  enabledTypes: PiiDetectorType[],
+): PiiFinding[] {
+  if (!value.trim()) return [];
+  accumulator.filledCells += 1;
+  if (!/^-?\d+(?:\.\d+)?$/.test(value.trim())) accumulator.numeric = false;
+  const findings = detectPiiInCell(accumulator.path, value, customTerms, enabledTypes);
+  if (findings.length) {
+    accumulator.piiCells += 1;
+    accumulator.findings.push(...findings);
+    const coversValue = findings.some(
+      (finding) => /^[\s"'(<]*$/.test(value.slice(0, finding.start)) && /^[\s"'.,;:)>]*$/.test(value.slice(finding.end)),
+    );
+    if (coversValue) accumulator.wholeValueCells += 1;
+  }
+  return findings;
+}
+
+function getPrimaryFindingType(findings: PiiFinding[]): PiiFindingType | null {
+  const counts = new Map<PiiFindingType, number>();
+  findings.forEach((finding) => counts.set(finding.type, (counts.get(finding.type) ?? 0) + 1));
+  return [...counts.entries()].sort((left, right) => right[1] - left[1])[0]?.[0] ?? null;
+}
+
+function suggestColumnPolicy(report: Omit<PiiDatasetColumnReport, "suggestedPolicy">, wholeValueCells: number): PiiColumnPolicy {
+  if (!report.piiCells) return report.numeric && /\bage\b/i.test(getPathKeyWords(report.path)) ? "age-bucket" : "keep";
+  if (report.density <= 0.5 || wholeValueCells / report.piiCells < 0.8) return "redact";
+  if (report.primaryType === "date-of-birth") return "year";
+  if (report.primaryType && DIRECT_IDENTIFIER_TYPES.has(report.primaryType)) return "pseudonym";
+  return report.severity === "high" ? "hash" : "mask";
+}
+
+function buildColumnReport(accumulator: PiiDatasetColumnAccumulator): PiiDatasetColumnReport {
+  const report = {
+    path: accumulator.path,
+    filledCells: accumulator.filledCells,
+    piiCells: accumulator.piiCells,
+    density: accumulator.filledCells ? accumulator.piiCells / accumulator.filledCells : 0,
+    severity: accumulator.findings.length
+      ? accumulator.findings.some((finding) => finding.severity === "high")
+        ? ("high" as const)
+        : ("medium" as const)
+      : null,
+    primaryType: getPrimaryFindingType(accumulator.findings),
+    counts: summarizePiiCounts(accumulator.findings),
+    numeric: accumulator.numeric && accumulator.filledCells > 0,
+  };
+  return { ...report, suggestedPolicy: suggestColumnPolicy(report, accumulator.wholeValueCells) };
+}
+
+function visitJsonLeaves(value: unknown, path: string, visit: (path: string, value: string) => void) {
+  if (Array.isArray(value)) {
+    value.forEach((item) => visitJsonLeaves(item, `${path}[]`, visit));
+    return;
+  }
+  if (value && typeof value === "object") {
+    Object.entries(value).forEach(([key, child]) => visitJsonLeaves(child, path ? `${path}.${key}` : key, visit));
+    return;
+  }
+  if (typeof value === "string" || typeof value === "number") visit(path || "$", String(value));
+}
+
+function generalizeDateToYear(value: string): string {
+  const fullYear = value.match(/\b(1[89]\d{2}|20\d{2})\b/);
+  if (fullYear) return fullYear[1];
+  const shortYear = value.trim().match(/^\d{1,2}[/.-]\d{1,2}[/.-](\d{2})$/);
+  if (!shortYear) return "";
+  const year = Number(shortYear[1]);
+  return String(year > new Date().getFullYear() % 100 ? 1900 + year : 2000 + year);
+}
+
+function bucketAgeValue(value: string): string {
+  const age = Number(value.trim());
+  if (!Number.isFinite(age) || age < 0 || age > 130) return "";
+  if (age >= 90) return "90+";
+  const lower = Math.floor(age / 10) * 10;
+  return `${lower}-${lower + 9}`;
+}
+
+function createDatasetSanitizer(kind: PiiDatasetScan["kind"], options: PiiDatasetSanitizeOptions, scan: PiiDatasetScan) {
+  const customTerms = options.customTerms ?? [];
+  const enabledTypes = options.enabledTypes ?? PII_DETECTOR_TYPES;
+  const accumulators = new Map<string, PiiDatasetColumnAccumulator>();
+  const changedCells = new Map<string, number>();
+  const hashCache = new Map<string, string>();
+  const columnTypes = new Map(scan.columns.map((column) => [column.path, column.primaryType ?? "custom-term"]));
+  let vault = options.vault ?? createPseudonymVault();
+  let hashKey: Promise<CryptoKey> | null = null;
+
+  if (Object.values(options.policies).includes("hash") && !options.salt?.trim()) {
+    throw new Error("Enter a salt before hashing columns.");
+  }
+
+  const hashValue = async (type: PiiFindingType, value: string) => {
+    const key = getPseudonymKey(type, value);
+    const cached = hashCache.get(key);
+    if (cached) return cached;
+    hashKey ??= crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode(options.salt ?? ""),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign"],
+    );
+    const signature = new Uint8Array(await crypto.subtle.sign("HMAC", await hashKey, new TextEncoder().encode(key)));
+    const digest = [...signature.slice(0, 8)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+    hashCache.set(key, digest);
+    return digest;
+  };
+
+  const transform = async (path: string, value: string): Promise<string> => {
+    let accumulator = accumulators.get(path);
+    if (!accumulator) {
+      accumulator = createColumnAccumulator(path);
+      accumulators.set(path, accumulator);
+    }
+    const findings = recordDatasetCell(accumulator, value, customTerms, enabledTypes);
+    const policy = options.policies[path] ?? "keep";
+    if (policy === "keep" || policy === "drop" || !value.trim()) return value;
+
+    const type = columnTypes.get(path) ?? "custom-term";
+    let next = value;
+    if (policy === "redact") {
+      next = applyPiiRedactions(value, findings, findings.map((finding) => finding.id), "label");
+    } else if (policy === "mask") {
+      next = buildReplacement(value, { id: "", type, label: "", value, start: 0, end: value.length, severity: "medium" }, "partial");
+    } else if (policy === "hash") {
+      next = await hashValue(type, value);
+    } else if (policy === "pseudonym") {
+      vault = assignPseudonyms(vault, [{ type, value }]);
+      next = getPseudonym(vault, { type, value }) ?? value;
+    } else if (policy === "year") {
+      next = generalizeDateToYear(value);
+    } else if (policy === "age-bucket") {
+      next = bucketAgeValue(value);
+    }
+    if (next !== value) changedCells.set(path, (changedCells.get(path) ?? 0) + 1);
+    return next;
+  };
+
+  const finish = (records: number, droppedPaths: string[]): PiiDatasetSanitizeSummary => {
+    const columns = [...accumulators.values()];
+    return {
+      kind,
+      records,
+      sanitizedAt: new Date().toISOString(),
+      detected: summarizePiiCounts(columns.flatMap((column) => column.findings)),
+      columns: columns.map((column) => ({
+        path: column.path,
+        policy: options.policies[column.path] ?? "keep",
+        piiCells: column.piiCells,
+        changedCells: changedCells.get(column.path) ?? 0,
+      })),
+      droppedPaths,
+    };
+  };
+
+  return { transform, finish, getVault: () => vault };
+}
+
+export function getCsvColumnPaths(headers: string[]): string[] {
+  const seen = new Map<string, number>();
+  return headers.map((header, index) => {
+    const base = header.trim() || `Column ${index + 1}`;
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return count === 1 ? base : `${base} (${count})`;
+  });
+}
+
+export function scanCsvDatasetPii(dataset: CsvDataset, options: PiiDatasetScanOptions = {}): PiiDatasetScan {
+  const customTerms = options.customTerms ?? [];
+  const enabledTypes = options.enabledTypes ?? PII_DETECTOR_TYPES;
+  const accumulators = getCsvColumnPaths(dataset.headers).map(createColumnAccumulator);
+  const rows = dataset.rows.slice(0, options.sampleRows ?? PII_DATASET_SAMPLE_ROWS);
+  rows.forEach((row) => {
+    accumulators.forEach((accumulator, index) => recordDatasetCell(accumulator, row[index] ?? "", customTerms, enabledTypes));
+  });
+  return {
+    kind: "csv",
+    records: dataset.rows.length,
+    scannedRecords: rows.length,
+    columns: accumulators.map(buildColumnReport),
+    summary: summarizePiiCounts(accumulators.flatMap((accumulator) => accumulator.findings)),
+  };
+}
+
+export function scanJsonDocumentPii(document: unknown, options: PiiDatasetScanOptions = {}): PiiDatasetScan {
+  const customTerms = options.customTerms ?? [];
+  const enabledTypes = options.enabledTypes ?? PII_DETECTOR_TYPES;
+  const accumulators = new Map<string, PiiDatasetColumnAccumulator>();
+  const records = Array.isArray(document) ? document : [document];
+  const sampled = records.slice(0, options.sampleRows ?? PII_DATASET_SAMPLE_ROWS);
+  visitJsonLeaves(Array.isArray(document) ? sampled : document, "", (path, value) => {
+    let accumulator = accumulators.get(path);
+    if (!accumulator) {
+      accumulator = createColumnAccumulator(path);
+      accumulators.set(path, accumulator);
+    }
+    recordDatasetCell(accumulator, value, customTerms, enabledTypes);
+  });
+  const columns = [...accumulators.values()];
+  return {
+    kind: "json",
+    records: records.length,
+    scannedRecords: sampled.length,
+    columns: columns.map(buildColumnReport),
+    summary: summarizePiiCounts(columns.flatMap((accumulator) => accumulator.findings)),
+  };
+}
+
+export async function sanitizeCsvDatasetPii(
+  dataset: CsvDataset,
+  options: PiiDatasetSanitizeOptions,
+): Promise<{ dataset: CsvDataset; summary: PiiDatasetSanitizeSummary; vault: PiiPseudonymVault }> {
+  const sanitizer = createDatasetSanitizer("csv", options, scanCsvDatasetPii(dataset, { ...options, sampleRows: Infinity }));
+  const paths = getCsvColumnPaths(dataset.headers);
+  const keptIndexes = paths.map((_, index) => index).filter((index) => options.policies[paths[index]] !== "drop");
+  const rows: string[][] = [];
+  for (const row of dataset.rows) {
+    const next: string[] = [];
+    for (let index = 0; index < paths.length; index += 1) {
+      const value = await sanitizer.transform(paths[index], row[index] ?? "");
+      if (keptIndexes.includes(index)) next.push(value);
+    }
+    rows.push(next);
+  }
+  return {
+    dataset: { delimiter: dataset.delimiter, headers: keptIndexes.map((index) => dataset.headers[index]), rows },
+    summary: sanitizer.finish(dataset.rows.length, paths.filter((path) => options.policies[path] === "drop")),
+    vault: sanitizer.getVault(),
+  };
+}
+
+export async function sanitizeJsonDocumentPii(
+  document: unknown,
+  options: PiiDatasetSanitizeOptions,
+): Promise<{ document: unknown; summary: PiiDatasetSanitizeSummary; vault: PiiPseudonymVault }> {
+  const sanitizer = createDatasetSanitizer("json", options, scanJsonDocumentPii(document, { ...options, sampleRows: Infinity }));
+  const droppedPaths = new Set<string>();
+
+  const transform = async (value: unknown, path: string): Promise<unknown> => {
+    if (Array.isArray(value)) {
+      const items: unknown[] = [];
+      for (const item of value) items.push(await transform(item, `${path}[]`));
+      return options.policies[`${path}[]`] === "drop" ? [] : items;
+    }
+    if (value && typeof value === "object") {
+      const next: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(value)) {
+        const childPath = path ? `${path}.${key}` : key;
+        const transformed = await transform(child, childPath);
+        if (options.policies[childPath] === "drop") droppedPaths.add(childPath);
+        else next[key] = transformed;
+      }
+      return next;
+    }
+    if (typeof value !== "string" && typeof value !== "number") return value;
+    const leafPath = path || "$";
+    const sanitized = await sanitizer.transform(leafPath, String(value));
+    if (options.policies[leafPath] === "drop") droppedPaths.add(leafPath);
+    if (sanitized === String(value)) return value;
+    return sanitized;
+  };
+
+  const sanitized = await transform(document, "");
+  return {
+    document: sanitized,
+    summary: sanitizer.finish(Array.isArray(document) ? document.length : 1, [...droppedPaths]),
+    vault: sanitizer.getVault(),
+  };
+}
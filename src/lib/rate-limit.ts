@@ -0,0 +1,142 @@
+export interface RateLimitPolicy {
+  id: string;
+  capacity: number;
+  refillPerMinute: number;
+}
+
+export interface RateLimitBucketResult {
+  allowed: boolean;
+  tokens: number;
+}
+
+export interface RateLimitStore {
+  consume(key: string, policy: RateLimitPolicy, cost: number): Promise<RateLimitBucketResult>;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  policy: RateLimitPolicy;
+  remaining: number;
+  resetSeconds: number;
+  retryAfterSeconds: number;
+}
+
+export const DEFAULT_API_RATE_LIMIT: RateLimitPolicy = { id: "api", capacity: 120, refillPerMinute: 60 };
+
+export const API_RATE_LIMIT_POLICIES: Record<string, RateLimitPolicy> = {
+  "/api/text-translate": { id: "text-translate", capacity: 60, refillPerMinute: 30 },
+  "/api/ai-humanize": { id: "ai-humanize", capacity: 10, refillPerMinute: 5 },
+  "/api/ssl-check": { id: "ssl-check", capacity: 20, refillPerMinute: 10 },
+  "/api/dns-lookup": { id: "dns-lookup", capacity: 40, refillPerMinute: 20 },
+  "/api/dns-propagation": { id: "dns-propagation", capacity: 15, refillPerMinute: 6 },
+  "/api/email-deliverability": { id: "email-deliverability", capacity: 30, refillPerMinute: 12 },
+  "/api/whois": { id: "whois", capacity: 15, refillPerMinute: 6 },
+  "/api/scam-shield-inspect": { id: "scam-shield-inspect", capacity: 20, refillPerMinute: 10 },
+  "/api/http-status": { id: "http-status", capacity: 30, refillPerMinute: 15 },
+  "/api/job-posting-scrape": { id: "job-posting-scrape", capacity: 20, refillPerMinute: 10 },
+  "/api/accessibility-audit": { id: "accessibility-audit", capacity: 20, refillPerMinute: 10 },
+  "/api/adsense-readiness": { id: "adsense-readiness", capacity: 6, refillPerMinute: 2 },
+  "/api/speed-test": { id: "speed-test", capacity: 40, refillPerMinute: 20 },
+  "/api/admin/login": { id: "admin-login", capacity: 5, refillPerMinute: 1 },
+  "/api/newsletter/subscribe": { id: "newsletter-subscribe", capacity: 5, refillPerMinute: 2 },
+};
+
+const RATE_LIMIT_EXEMPT_PATHS = ["/api/pdfjs-worker", "/api/pdf-font"];
+const MEMORY_STORE_MAX_KEYS = 10_000;
+
+function getRefillPerSecond(policy: RateLimitPolicy): number {
+  return policy.refillPerMinute / 60;
+}
+
+export function getRateLimitPolicy(pathname: string): RateLimitPolicy | null {
+  const path = pathname.replace(/\/+$/, "");
+  if (!path.startsWith("/api/") || RATE_LIMIT_EXEMPT_PATHS.some((exempt) => path.startsWith(exempt))) return null;
+  return API_RATE_LIMIT_POLICIES[path] ?? DEFAULT_API_RATE_LIMIT;
+}
+
+export function getClientIdentifier(headers: Headers, platformIp?: string): string {
+  const forwarded = headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+  return platformIp || headers.get("x-real-ip")?.trim() || forwarded || "anonymous";
+}
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  const prune = (now: number) => {
+    for (const [key, bucket] of buckets) {
+      if (buckets.size <= MEMORY_STORE_MAX_KEYS / 2) break;
+      if (now - bucket.updatedAt > 10 * 60_000) buckets.delete(key);
+    }
+    while (buckets.size > MEMORY_STORE_MAX_KEYS) {
+      const oldest = buckets.keys().next().value;
+      if (oldest === undefined) break;
+      buckets.delete(oldest);
+    }
+  };
+
+  return {
+    async consume(key, policy, cost) {
+      const now = Date.now();
+      const existing = buckets.get(key);
+      const elapsedSeconds = existing ? Math.max(0, now - existing.updatedAt) / 1000 : 0;
+      let tokens = existing
+        ? Math.min(policy.capacity, existing.tokens + elapsedSeconds * getRefillPerSecond(policy))
+        : policy.capacity;
+      const allowed = tokens >= cost;
+      if (allowed) tokens -= cost;
+      buckets.delete(key);
+      buckets.set(key, { tokens, updatedAt: now });
+      if (buckets.size > MEMORY_STORE_MAX_KEYS) prune(now);
+      return { allowed, tokens };
+    },
+  };
+}
+
+export function createSupabaseRateLimitStore(): RateLimitStore {
+  return {
+    async consume(key, policy, cost) {
+      const { createSupabaseServiceClient } = await import("@/lib/supabase");
+      const { data, error } = await createSupabaseServiceClient().rpc("rate_limit_consume", {
+        p_key: key,
+        p_capacity: policy.capacity,
+        p_refill_per_second: getRefillPerSecond(policy),
+        p_cost: cost,
+      });
+      if (error) throw new Error(`Rate limit store failed: ${error.message}`);
+      const row = (Array.isArray(data) ? data[0] : data) as { allowed?: boolean; tokens?: number } | null;
+      if (!row || typeof row.allowed !== "boolean" || typeof row.tokens !== "number") {
+        throw new Error("Rate limit store returned an unexpected response.");
+      }
+      return { allowed: row.allowed, tokens: row.tokens };
+    },
+  };
+}
+
+export async function consumeRateLimit(
+  store: RateLimitStore,
+  key: string,
+  policy: RateLimitPolicy,
+  cost = 1,
+): Promise<RateLimitDecision> {
+  const result = await store.consume(key, policy, cost);
+  const refillPerSecond = getRefillPerSecond(policy);
+  return {
+    allowed: result.allowed,
+    policy,
+    remaining: Math.max(0, Math.floor(result.tokens)),
+    resetSeconds: Math.max(0, Math.ceil((policy.capacity - result.tokens) / refillPerSecond)),
+    retryAfterSeconds: result.allowed ? 0 : Math.max(1, Math.ceil((cost - result.tokens) / refillPerSecond)),
+  };
+}
+
+export function buildRateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+  const windowSeconds = Math.round((decision.policy.capacity / decision.policy.refillPerMinute) * 60);
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": String(decision.policy.capacity),
+    "RateLimit-Remaining": String(decision.remaining),
+    "RateLimit-Reset": String(decision.allowed ? decision.resetSeconds : decision.retryAfterSeconds),
+    "RateLimit-Policy": `${decision.policy.capacity};w=${windowSeconds}`,
+  };
+  if (!decision.allowed) headers["Retry-After"] = String(decision.retryAfterSeconds);
+  return headers;
+}
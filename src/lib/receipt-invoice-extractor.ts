@@ -1,3 +1,6 @@
+import { buildCsvText } from "@/lib/csv-cleanup";
+import { buildUblInvoiceDocument } from "@/lib/ubl-invoice";
+
 export type ReceiptDocumentType = "receipt" | "invoice" | "unknown";
 
 export interface ExtractedPartyInfo {
@@ -65,6 +68,74 @@ export interface ReceiptInvoiceExtraction {
   bookkeepingRows: ExtractedBookkeepingRow[];
 }
 
+export type ReceiptReviewFlagKind = "missing-total" | "totals-mismatch" | "low-confidence-item" | "low-confidence";
+
+export interface ReceiptReviewFlag {
+  kind: ReceiptReviewFlagKind;
+  message: string;
+  lineItemId: string;
+}
+
+export interface ReceiptLedgerEntry {
+  source: string;
+  extraction: ReceiptInvoiceExtraction;
+  flags: ReceiptReviewFlag[];
+  reviewed: boolean;
+}
+
+export type AccountingExportFormat = "quickbooks-iif" | "xero-bill-csv" | "ubl-invoice";
+export type AccountingDateFormat = "dmy" | "mdy" | "iso";
+export type UblTaxCategory = "S" | "Z" | "E" | "AE" | "O";
+
+export interface AccountingExportMapping {
+  defaultExpenseAccount: string;
+  categoryAccounts: Record<string, string>;
+  payableAccount: string;
+  taxAccount: string;
+  taxCode: string;
+  taxRatePercent: number | null;
+  ublTaxCategory: UblTaxCategory;
+  xeroDateFormat: AccountingDateFormat;
+  buyerName: string;
+  buyerTaxId: string;
+  buyerCountry: string;
+  buyerEndpointId: string;
+  supplierCountry: string;
+  supplierEndpointId: string;
+  endpointScheme: string;
+}
+
+export interface AccountingExportResult {
+  format: AccountingExportFormat;
+  filename: string;
+  mimeType: string;
+  content: string;
+  warnings: string[];
+}
+
+interface AccountingExportLine {
+  description: string;
+  quantity: number;
+  unitAmount: number;
+  netAmount: number;
+  taxAmount: number;
+  accountCode: string;
+}
+
+interface AccountingExportDocument {
+  documentNumber: string;
+  issueDate: string;
+  dueDate: string;
+  supplier: string;
+  currency: string;
+  netTotal: number;
+  taxTotal: number;
+  grossTotal: number;
+  taxRatePercent: number;
+  lines: AccountingExportLine[];
+  warnings: string[];
+}
+
 interface AmountCandidate {
   amount: number;
   currency: string;
@@ -136,6 +207,11 @@ const CATEGORY_RULES: Array<{ category: string; terms: string[] }> = [
   { category: "Equipment", terms: ["laptop", "monitor", "keyboard", "mouse", "device", "hardware"] },
 ];
 
+export const RECEIPT_CATEGORY_OPTIONS = [...CATEGORY_RULES.map((entry) => entry.category), "General expense"];
+
+const UBL_TAX_CATEGORIES: UblTaxCategory[] = ["S", "Z", "E", "AE", "O"];
+const ACCOUNTING_DATE_FORMATS: AccountingDateFormat[] = ["dmy", "mdy", "iso"];
+
 function normalizeDocumentText(value: string): string {
   return value
     .replace(/\u0000/g, "")
@@ -579,3 +655,407 @@ export function analyzeReceiptInvoiceText(rawText: string): ReceiptInvoiceExtrac
     bookkeepingRows: buildBookkeepingRows(baseExtraction),
   };
 }
+
+function formatLedgerAmount(value: number | null): string {
+  return value === null ? "" : value.toFixed(2);
+}
+
+export function reviewReceiptExtraction(extraction: ReceiptInvoiceExtraction, tolerance = 0.02): ReceiptReviewFlag[] {
+  const flags: ReceiptReviewFlag[] = [];
+  const total = extraction.total.amount;
+
+  if (total === null) {
+    flags.push({ kind: "missing-total", message: "No total was found.", lineItemId: "" });
+  } else if (extraction.subtotal.amount !== null) {
+    const subtotal = extraction.subtotal.amount;
+    const tax = extraction.tax.amount ?? 0;
+    const adjustments =
+      (extraction.shipping.amount ?? 0) + (extraction.tip.amount ?? 0) - Math.abs(extraction.discount.amount ?? 0);
+    const taxExclusive = roundMoney(subtotal + tax + adjustments);
+    const taxInclusive = roundMoney(subtotal + adjustments);
+    if (Math.abs(taxExclusive - total) > tolerance && Math.abs(taxInclusive - total) > tolerance) {
+      flags.push({
+        kind: "totals-mismatch",
+        message: `Subtotal ${subtotal.toFixed(2)} + tax ${tax.toFixed(2)}${
+          adjustments ? ` + adjustments ${adjustments.toFixed(2)}` : ""
+        } = ${taxExclusive.toFixed(2)}, but the total is ${total.toFixed(2)}.`,
+        lineItemId: "",
+      });
+    }
+  }
+
+  extraction.lineItems
+    .filter((item) => item.confidence === "low")
+    .forEach((item) => {
+      flags.push({ kind: "low-confidence-item", message: `Low-confidence line item: ${item.sourceLine}`, lineItemId: item.id });
+    });
+
+  if (extraction.confidenceScore < 55) {
+    flags.push({
+      kind: "low-confidence",
+      message: `Overall extraction confidence is ${extraction.confidenceScore}%.`,
+      lineItemId: "",
+    });
+  }
+
+  return flags;
+}
+
+export function buildReceiptLedgerCsv(entries: ReceiptLedgerEntry[]): string {
+  return buildCsvText(
+    [
+      "Source",
+      "Review Status",
+      "Document Type",
+      "Merchant",
+      "Document Number",
+      "Transaction Date",
+      "Due Date",
+      "Category",
+      "Currency",
+      "Subtotal",
+      "Tax",
+      "Total",
+      "Payment Method",
+      "Confidence",
+      "Flags",
+    ],
+    entries.map(({ source, extraction, flags, reviewed }) => [
+      source,
+      reviewed ? "Reviewed" : flags.length ? "Needs review" : "OK",
+      extraction.documentType,
+      extraction.merchantName,
+      extraction.invoiceNumber,
+      extraction.purchaseDate,
+      extraction.dueDate,
+      extraction.categorySuggestion,
+      extraction.currency,
+      formatLedgerAmount(extraction.subtotal.amount),
+      formatLedgerAmount(extraction.tax.amount),
+      formatLedgerAmount(extraction.total.amount),
+      extraction.paymentMethod,
+      String(extraction.confidenceScore),
+      flags.map((flag) => flag.message).join(" | "),
+    ]),
+  );
+}
+
+export function createDefaultAccountingMapping(): AccountingExportMapping {
+  return {
+    defaultExpenseAccount: "429",
+    categoryAccounts: {},
+    payableAccount: "Accounts Payable",
+    taxAccount: "Sales Tax Payable",
+    taxCode: "INPUT",
+    taxRatePercent: null,
+    ublTaxCategory: "S",
+    xeroDateFormat: "dmy",
+    buyerName: "",
+    buyerTaxId: "",
+    buyerCountry: "",
+    buyerEndpointId: "",
+    supplierCountry: "",
+    supplierEndpointId: "",
+    endpointScheme: "0088",
+  };
+}
+
+export function sanitizeAccountingMapping(value: unknown): AccountingExportMapping {
+  const defaults = createDefaultAccountingMapping();
+  if (!value || typeof value !== "object") return defaults;
+  const source = value as Record<string, unknown>;
+  const readText = (key: keyof AccountingExportMapping) => {
+    const entry = source[key];
+    return typeof entry === "string" ? entry.trim() : (defaults[key] as string);
+  };
+  const categoryAccounts: Record<string, string> = {};
+  if (source.categoryAccounts && typeof source.categoryAccounts === "object") {
+    Object.entries(source.categoryAccounts as Record<string, unknown>).forEach(([category, account]) => {
+      if (typeof account === "string" && account.trim()) categoryAccounts[category] = account.trim();
+    });
+  }
+  const taxRate = typeof source.taxRatePercent === "number" && Number.isFinite(source.taxRatePercent) ? source.taxRatePercent : null;
+
+  return {
+    defaultExpenseAccount: readText("defaultExpenseAccount"),
+    categoryAccounts,
+    payableAccount: readText("payableAccount"),
+    taxAccount: readText("taxAccount"),
+    taxCode: readText("taxCode"),
+    taxRatePercent: taxRate === null ? null : Math.max(0, Math.min(100, taxRate)),
+    ublTaxCategory: UBL_TAX_CATEGORIES.includes(source.ublTaxCategory as UblTaxCategory)
+      ? (source.ublTaxCategory as UblTaxCategory)
+      : defaults.ublTaxCategory,
+    xeroDateFormat: ACCOUNTING_DATE_FORMATS.includes(source.xeroDateFormat as AccountingDateFormat)
+      ? (source.xeroDateFormat as AccountingDateFormat)
+      : defaults.xeroDateFormat,
+    buyerName: readText("buyerName"),
+    buyerTaxId: readText("buyerTaxId"),
+    buyerCountry: readText("buyerCountry").toUpperCase(),
+    buyerEndpointId: readText("buyerEndpointId"),
+    supplierCountry: readText("supplierCountry").toUpperCase(),
+    supplierEndpointId: readText("supplierEndpointId"),
+    endpointScheme: readText("endpointScheme"),
+  };
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function resolveExpenseAccount(mapping: AccountingExportMapping, category: string): string {
+  return mapping.categoryAccounts[category] || mapping.defaultExpenseAccount;
+}
+
+function buildAccountingDocument(extraction: ReceiptInvoiceExtraction, mapping: AccountingExportMapping): AccountingExportDocument {
+  if (extraction.total.amount === null) {
+    throw new Error("A total amount is required before exporting to an accounting format.");
+  }
+
+  const warnings: string[] = [];
+  const grossTotal = roundMoney(extraction.total.amount);
+  const taxTotal = roundMoney(extraction.tax.amount ?? 0);
+  const netTotal = roundMoney(grossTotal - taxTotal);
+  const accountCode = resolveExpenseAccount(mapping, extraction.categorySuggestion);
+  const taxRatePercent =
+    mapping.taxRatePercent ?? (netTotal > 0 && taxTotal > 0 ? Math.round((taxTotal / netTotal) * 10000) / 100 : 0);
+
+  const issueDate = extraction.purchaseDate || new Date().toISOString().slice(0, 10);
+  if (!extraction.purchaseDate) warnings.push("No document date was detected, so today's date was used.");
+  const documentNumber = extraction.invoiceNumber || `RCPT-${issueDate.replace(/-/g, "")}`;
+  if (!extraction.invoiceNumber) warnings.push(`No document number was detected, so ${documentNumber} was used.`);
+  if (!extraction.merchantName) warnings.push("No supplier name was detected. Set the contact before importing.");
+
+  const pricedItems = extraction.lineItems.filter((item) => item.total !== null);
+  const itemsTotal = roundMoney(pricedItems.reduce((sum, item) => sum + (item.total ?? 0), 0));
+  let lines: AccountingExportLine[];
+  if (pricedItems.length && Math.abs(itemsTotal - netTotal) <= 0.01) {
+    lines = pricedItems.map((item) => {
+      const netAmount = roundMoney(item.total ?? 0);
+      const quantity = item.quantity && item.quantity > 0 ? item.quantity : 1;
+      return {
+        description: item.description,
+        quantity,
+        unitAmount: roundMoney(netAmount / quantity),
+        netAmount,
+        taxAmount: 0,
+        accountCode,
+      };
+    });
+    lines[lines.length - 1].netAmount = roundMoney(lines[lines.length - 1].netAmount + netTotal - itemsTotal);
+    lines.forEach((line) => {
+      line.unitAmount = roundMoney(line.netAmount / line.quantity);
+      if (roundMoney(line.unitAmount * line.quantity) === line.netAmount) return;
+      warnings.push(`"${line.description}" does not divide into a whole-cent unit price, so it was exported as 1 x ${line.netAmount.toFixed(2)}.`);
+      line.description = `${line.description} (qty ${line.quantity})`;
+      line.quantity = 1;
+      line.unitAmount = line.netAmount;
+    });
+  } else {
+    if (pricedItems.length) {
+      warnings.push("Line items did not add up to the net amount, so a single summary line was exported.");
+    }
+    lines = [
+      {
+        description: [extraction.merchantName, extraction.categorySuggestion].filter(Boolean).join(" - ") || "Expense",
+        quantity: 1,
+        unitAmount: netTotal,
+        netAmount: netTotal,
+        taxAmount: 0,
+        accountCode,
+      },
+    ];
+  }
+
+  let allocatedTax = 0;
+  lines.forEach((line, index) => {
+    line.taxAmount =
+      index === lines.length - 1
+        ? roundMoney(taxTotal - allocatedTax)
+        : roundMoney(netTotal ? (taxTotal * line.netAmount) / netTotal : 0);
+    allocatedTax = roundMoney(allocatedTax + line.taxAmount);
+  });
+
+  return {
+    documentNumber,
+    issueDate,
+    dueDate: extraction.dueDate || issueDate,
+    supplier: extraction.merchantName || "Unknown supplier",
+    currency: extraction.currency || DEFAULT_CURRENCY,
+    netTotal,
+    taxTotal,
+    grossTotal,
+    taxRatePercent,
+    lines,
+    warnings,
+  };
+}
+
+function formatAccountingDate(isoDate: string, format: AccountingDateFormat): string {
+  const [year, month, day] = isoDate.split("-");
+  if (format === "iso") return isoDate;
+  return format === "mdy" ? `${month}/${day}/${year}` : `${day}/${month}/${year}`;
+}
+
+function cleanIifField(value: string): string {
+  return value.replace(/[\t\r\n"]+/g, " ").trim();
+}
+
+function buildQuickBooksIif(document: AccountingExportDocument, mapping: AccountingExportMapping): string {
+  const date = formatAccountingDate(document.issueDate, "mdy");
+  const dueDate = formatAccountingDate(document.dueDate, "mdy");
+  const name = cleanIifField(document.supplier);
+  const docNumber = cleanIifField(document.documentNumber);
+  const rows = [
+    ["!TRNS", "TRNSTYPE", "DATE", "ACCNT", "NAME", "AMOUNT", "DOCNUM", "MEMO", "DUEDATE"],
+    ["!SPL", "TRNSTYPE", "DATE", "ACCNT", "NAME", "AMOUNT", "DOCNUM", "MEMO"],
+    ["!ENDTRNS"],
+    ["TRNS", "BILL", date, cleanIifField(mapping.payableAccount), name, (-document.grossTotal).toFixed(2), docNumber, name, dueDate],
+    ...document.lines.map((line) => [
+      "SPL",
+      "BILL",
+      date,
+      cleanIifField(line.accountCode),
+      name,
+      line.netAmount.toFixed(2),
+      docNumber,
+      cleanIifField(line.description),
+    ]),
+  ];
+  if (document.taxTotal) {
+    rows.push(["SPL", "BILL", date, cleanIifField(mapping.taxAccount), name, document.taxTotal.toFixed(2), docNumber, "Tax"]);
+  }
+  rows.push(["ENDTRNS"]);
+  return `${rows.map((row) => row.join("\t")).join("\r\n")}\r\n`;
+}
+
+function buildXeroBillCsv(
+  document: AccountingExportDocument,
+  extraction: ReceiptInvoiceExtraction,
+  mapping: AccountingExportMapping,
+): string {
+  const headers = [
+    "*ContactName",
+    "EmailAddress",
+    "POAddressLine1",
+    "*InvoiceNumber",
+    "*InvoiceDate",
+    "*DueDate",
+    "Description",
+    "*Quantity",
+    "*UnitAmount",
+    "*AccountCode",
+    "*TaxType",
+    "TaxAmount",
+    "Currency",
+  ];
+  const rows = document.lines.map((line) => [
+    document.supplier,
+    extraction.vendor.email,
+    extraction.vendor.address,
+    document.documentNumber,
+    formatAccountingDate(document.issueDate, mapping.xeroDateFormat),
+    formatAccountingDate(document.dueDate, mapping.xeroDateFormat),
+    line.description,
+    String(line.quantity),
+    line.unitAmount.toFixed(2),
+    line.accountCode,
+    mapping.taxCode,
+    line.taxAmount.toFixed(2),
+    document.currency,
+  ]);
+  return buildCsvText(headers, rows);
+}
+
+function buildUblInvoice(
+  document: AccountingExportDocument,
+  extraction: ReceiptInvoiceExtraction,
+  mapping: AccountingExportMapping,
+): string {
+  const taxCategory = {
+    id: mapping.ublTaxCategory,
+    percent: mapping.ublTaxCategory === "S" ? document.taxRatePercent : 0,
+  };
+  return buildUblInvoiceDocument({
+    id: document.documentNumber,
+    issueDate: document.issueDate,
+    dueDate: document.dueDate,
+    currency: document.currency,
+    buyerReference: document.documentNumber,
+    supplier: {
+      name: document.supplier,
+      endpointId: mapping.supplierEndpointId,
+      endpointScheme: mapping.endpointScheme,
+      streetName: extraction.vendor.address,
+      countryCode: mapping.supplierCountry,
+      vatId: extraction.vendor.taxId,
+    },
+    customer: {
+      name: mapping.buyerName || "Buyer",
+      endpointId: mapping.buyerEndpointId,
+      endpointScheme: mapping.endpointScheme,
+      streetName: "",
+      countryCode: mapping.buyerCountry,
+      vatId: mapping.buyerTaxId,
+    },
+    taxTotal: document.taxTotal,
+    taxSubtotals: [{ taxableAmount: document.netTotal, taxAmount: document.taxTotal, taxCategory }],
+    lineExtensionAmount: document.netTotal,
+    taxExclusiveAmount: document.netTotal,
+    taxInclusiveAmount: document.grossTotal,
+    payableAmount: document.grossTotal,
+    lines: document.lines.map((line) => ({
+      quantity: line.quantity,
+      lineExtensionAmount: line.netAmount,
+      priceAmount: line.unitAmount,
+      name: line.description,
+      accountingCost: line.accountCode,
+      taxCategory,
+    })),
+  });
+}
+
+export function buildAccountingExport(
+  extraction: ReceiptInvoiceExtraction,
+  format: AccountingExportFormat,
+  mapping: AccountingExportMapping,
+): AccountingExportResult {
+  const document = buildAccountingDocument(extraction, mapping);
+  const baseName = `bill-${document.documentNumber.replace(/[^A-Za-z0-9-]+/g, "-").toLowerCase()}`;
+  const warnings = [...document.warnings];
+
+  if (format === "quickbooks-iif") {
+    return {
+      format,
+      filename: `${baseName}.iif`,
+      mimeType: "text/plain;charset=utf-8;",
+      content: buildQuickBooksIif(document, mapping),
+      warnings,
+    };
+  }
+
+  if (format === "xero-bill-csv") {
+    warnings.push("Choose \"Tax exclusive\" amounts when importing this file into Xero.");
+    return {
+      format,
+      filename: `${baseName}-xero.csv`,
+      mimeType: "text/csv;charset=utf-8;",
+      content: buildXeroBillCsv(document, extraction, mapping),
+      warnings,
+    };
+  }
+
+  if (!/^[A-Z]{2}$/.test(mapping.supplierCountry)) warnings.push("Peppol requires a two-letter supplier country code.");
+  if (!/^[A-Z]{2}$/.test(mapping.buyerCountry)) warnings.push("Peppol requires a two-letter buyer country code.");
+  if (!mapping.supplierEndpointId || !mapping.buyerEndpointId) {
+    warnings.push("Peppol delivery needs electronic address (endpoint) IDs for both supplier and buyer.");
+  }
+  if (!mapping.buyerName) warnings.push("No buyer name was set, so \"Buyer\" was used.");
+  return {
+    format,
+    filename: `${baseName}-ubl.xml`,
+    mimeType: "application/xml;charset=utf-8;",
+    content: buildUblInvoice(document, extraction, mapping),
+    warnings,
+  };
+}
@@ -0,0 +1,412 @@
+import { lookup } from "node:dns/promises";
+import http, { type IncomingMessage } from "node:http";
+import https from "node:https";
+import net, { type LookupFunction } from "node:net";
+import zlib from "node:zlib";
+
+export type SafeFetchErrorCode =
+  | "invalid-url"
+  | "unsupported-protocol"
+  | "blocked-host"
+  | "dns-failure"
+  | "redirect-blocked"
+  | "too-many-redirects"
+  | "timeout"
+  | "network-error";
+
+export interface SafeFetchOptions {
+  method?: "GET" | "HEAD";
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  maxBytes?: number;
+  maxRedirects?: number;
+  followRedirects?: boolean;
+  readBody?: boolean | ((contentType: string) => boolean);
+}
+
+export interface SafeFetchHop {
+  url: string;
+  status: number;
+  statusText: string;
+  address: string;
+  location: string | null;
+  headers: Headers;
+  cookies: string[];
+}
+
+export interface SafeFetchResponse {
+  requestedUrl: string;
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Headers;
+  address: string;
+  redirected: boolean;
+  hops: SafeFetchHop[];
+  body: string;
+  truncated: boolean;
+  timingMs: number;
+}
+
+export class SafeFetchError extends Error {
+  readonly code: SafeFetchErrorCode;
+
+  constructor(code: SafeFetchErrorCode, message: string) {
+    super(message);
+    this.name = "SafeFetchError";
+    this.code = code;
+  }
+}
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+const BLOCKED_HOST_SUFFIXES = [".localhost", ".local", ".internal", ".home.arpa"];
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_MAX_BYTES = 1_000_000;
+const DEFAULT_MAX_REDIRECTS = 5;
+
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+];
+
+function ipv4ToNumber(address: string): number {
+  return address.split(".").reduce((total, part) => total * 256 + Number.parseInt(part, 10), 0);
+}
+
+function isBlockedIpv4(address: string): boolean {
+  const value = ipv4ToNumber(address);
+  return BLOCKED_IPV4_RANGES.some(([base, bits]) => {
+    const size = 2 ** (32 - bits);
+    const start = ipv4ToNumber(base);
+    return value >= start && value < start + size;
+  });
+}
+
+function expandIpv6(address: string): number[] | null {
+  let normalized = address.toLowerCase().split("%")[0];
+  const dotted = normalized.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    if (!net.isIPv4(dotted[1])) return null;
+    const value = ipv4ToNumber(dotted[1]);
+    normalized = `${normalized.slice(0, -dotted[1].length)}${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+  }
+  const [head, tail] = normalized.split("::");
+  const headParts = head ? head.split(":") : [];
+  const tailParts = tail ? tail.split(":") : [];
+  const missing = 8 - headParts.length - tailParts.length;
+  if (normalized.includes("::") ? missing < 0 : missing !== 0) return null;
+  const parts = [...headParts, ...new Array(normalized.includes("::") ? missing : 0).fill("0"), ...tailParts];
+  const hextets = parts.map((part) => Number.parseInt(part, 16));
+  return hextets.length === 8 && hextets.every((value) => Number.isInteger(value) && value >= 0 && value <= 0xffff)
+    ? hextets
+    : null;
+}
+
+function embeddedIpv4(high: number, low: number): string {
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".");
+}
+
+function isBlockedIpv6(address: string): boolean {
+  const hextets = expandIpv6(address);
+  if (!hextets) return true;
+  const [first, second] = hextets;
+  const leadingZeros = hextets.slice(0, 5).every((value) => value === 0);
+  if (leadingZeros && hextets[5] === 0xffff) return isBlockedIpv4(embeddedIpv4(hextets[6], hextets[7]));
+  if (leadingZeros && hextets[5] === 0) {
+    return hextets[6] === 0 && hextets[7] <= 1 ? true : isBlockedIpv4(embeddedIpv4(hextets[6], hextets[7]));
+  }
+  if (first === 0x64 && second === 0xff9b) return isBlockedIpv4(embeddedIpv4(hextets[6], hextets[7]));
+  if (first === 0x2002) return isBlockedIpv4(embeddedIpv4(second, hextets[2]));
+  if (first === 0x2001 && second === 0x0db8) return true;
+  if ((first & 0xfe00) === 0xfc00) return true;
+  if ((first & 0xffc0) === 0xfe80) return true;
+  if ((first & 0xff00) === 0xff00) return true;
+  return false;
+}
+
+export function isPrivateIpAddress(address: string): boolean {
+  const version = net.isIP(address);
+  if (version === 4) return isBlockedIpv4(address);
+  if (version === 6) return isBlockedIpv6(address);
+  return true;
+}
+
+function stripIpv6Brackets(host: string): string {
+  return host.startsWith("[") && host.endsWith("]") ? host.slice(1, -1) : host;
+}
+
+export function isBlockedHostname(value: string): boolean {
+  const host = stripIpv6Brackets(value.trim().toLowerCase()).replace(/\.$/, "");
+  if (!host) return true;
+  if (host === "localhost" || BLOCKED_HOST_SUFFIXES.some((suffix) => host.endsWith(suffix))) return true;
+  if (net.isIP(host)) return isPrivateIpAddress(host);
+  return !host.includes(".");
+}
+
+export function normalizePublicHttpUrl(value: string, defaultProtocol: "https" | null = "https"): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const normalized = /^[a-zA-Z][\w+.-]*:/.test(trimmed) || !defaultProtocol ? trimmed : `${defaultProtocol}://${trimmed}`;
+  try {
+    const parsed = new URL(normalized);
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return null;
+    if (parsed.username || parsed.password) return null;
+    if (isBlockedHostname(parsed.hostname)) return null;
+    parsed.hash = "";
+    return parsed.toString();
+  } catch {
+    return null;
+  }
+}
+
+export async function resolvePublicAddress(hostname: string): Promise<{ address: string; family: 4 | 6; addresses: string[] }> {
+  const host = stripIpv6Brackets(hostname.trim().toLowerCase());
+  if (isBlockedHostname(host)) {
+    throw new SafeFetchError("blocked-host", "Local and private network hosts are blocked for security reasons.");
+  }
+  const literal = net.isIP(host);
+  if (literal) return { address: host, family: literal === 6 ? 6 : 4, addresses: [host] };
+
+  let entries: Array<{ address: string; family: number }>;
+  try {
+    entries = await lookup(host, { all: true, verbatim: true });
+  } catch {
+    throw new SafeFetchError("dns-failure", `Could not resolve ${host}.`);
+  }
+  if (!entries.length) throw new SafeFetchError("dns-failure", `Could not resolve ${host}.`);
+  if (entries.some((entry) => isPrivateIpAddress(entry.address))) {
+    throw new SafeFetchError("blocked-host", "The host resolves to a private network address and is blocked.");
+  }
+  return {
+    address: entries[0].address,
+    family: entries[0].family === 6 ? 6 : 4,
+    addresses: [...new Set(entries.map((entry) => entry.address))],
+  };
+}
+
+function toHeaders(raw: IncomingMessage["headers"]): Headers {
+  const headers = new Headers();
+  Object.entries(raw).forEach(([name, value]) => {
+    if (value === undefined) return;
+    (Array.isArray(value) ? value : [value]).forEach((entry) => headers.append(name, entry));
+  });
+  return headers;
+}
+
+function decodeBody(chunks: Buffer[], contentType: string): string {
+  const charset = contentType.match(/charset=["']?([\w-]+)/i)?.[1] ?? "utf-8";
+  try {
+    return new TextDecoder(charset).decode(Buffer.concat(chunks));
+  } catch {
+    return new TextDecoder("utf-8").decode(Buffer.concat(chunks));
+  }
+}
+
+function readLimitedBody(response: IncomingMessage, maxBytes: number): Promise<{ chunks: Buffer[]; truncated: boolean }> {
+  const encoding = (response.headers["content-encoding"] ?? "").toLowerCase();
+  const stream =
+    encoding === "gzip" || encoding === "x-gzip"
+      ? response.pipe(zlib.createGunzip())
+      : encoding === "deflate"
+        ? response.pipe(zlib.createInflate())
+        : encoding === "br"
+          ? response.pipe(zlib.createBrotliDecompress())
+          : response;
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let received = 0;
+    let settled = false;
+    const finish = (truncated: boolean) => {
+      if (settled) return;
+      settled = true;
+      resolve({ chunks, truncated });
+    };
+    stream.on("data", (chunk: Buffer) => {
+      if (settled) return;
+      const remaining = maxBytes - received;
+      chunks.push(chunk.length > remaining ? chunk.subarray(0, remaining) : chunk);
+      received += Math.min(chunk.length, remaining);
+      if (received >= maxBytes) {
+        finish(true);
+        response.destroy();
+      }
+    });
+    const fail = (error: Error) => {
+      if (settled) return;
+      settled = true;
+      reject(error);
+    };
+    stream.on("end", () => finish(false));
+    stream.on("error", fail);
+    if (stream !== response) response.on("error", fail);
+    response.on("aborted", () => fail(new Error("Response aborted.")));
+  });
+}
+
+function requestPinned(
+  target: URL,
+  pinned: { address: string; family: 4 | 6 },
+  options: { method: "GET" | "HEAD"; headers: Record<string, string>; signal: AbortSignal },
+): Promise<IncomingMessage> {
+  const pinnedLookup: LookupFunction = (_hostname, lookupOptions, callback) => {
+    if (lookupOptions.all) {
+      callback(null, [{ address: pinned.address, family: pinned.family }]);
+      return;
+    }
+    callback(null, pinned.address, pinned.family);
+  };
+  const hostname = stripIpv6Brackets(target.hostname);
+  const transport = target.protocol === "https:" ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const request = transport.request(
+      {
+        protocol: target.protocol,
+        hostname,
+        port: target.port || undefined,
+        path: `${target.pathname}${target.search}`,
+        method: options.method,
+        headers: options.headers,
+        lookup: pinnedLookup,
+        servername: net.isIP(hostname) ? undefined : hostname,
+        signal: options.signal,
+      },
+      resolve,
+    );
+    request.on("error", reject);
+    request.end();
+  });
+}
+
+export async function safeFetch(rawUrl: string, options: SafeFetchOptions = {}): Promise<SafeFetchResponse> {
+  let current: URL;
+  try {
+    current = new URL(rawUrl);
+  } catch {
+    throw new SafeFetchError("invalid-url", "Please provide a valid HTTP/HTTPS URL.");
+  }
+  if (current.protocol !== "http:" && current.protocol !== "https:") {
+    throw new SafeFetchError("unsupported-protocol", "Only HTTP and HTTPS URLs can be fetched.");
+  }
+
+  const method = options.method ?? "GET";
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  const headers = { "accept-encoding": "gzip, deflate, br", ...options.headers };
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  const started = Date.now();
+  const hops: SafeFetchHop[] = [];
+
+  try {
+    for (;;) {
+      let pinned: Awaited<ReturnType<typeof resolvePublicAddress>>;
+      try {
+        pinned = await resolvePublicAddress(current.hostname);
+      } catch (error) {
+        if (hops.length && error instanceof SafeFetchError && error.code === "blocked-host") {
+          throw new SafeFetchError("redirect-blocked", "Redirected to a blocked host.");
+        }
+        throw error;
+      }
+
+      const response = await requestPinned(current, pinned, { method, headers, signal: controller.signal });
+      const status = response.statusCode ?? 0;
+      const location = typeof response.headers.location === "string" ? response.headers.location : null;
+      const hop: SafeFetchHop = {
+        url: current.toString(),
+        status,
+        statusText: response.statusMessage ?? "",
+        address: pinned.address,
+        location,
+        headers: toHeaders(response.headers),
+        cookies: response.headers["set-cookie"] ?? [],
+      };
+      hops.push(hop);
+
+      if (REDIRECT_STATUSES.has(status) && location && options.followRedirects !== false) {
+        response.resume();
+        if (hops.length > maxRedirects) {
+          throw new SafeFetchError("too-many-redirects", `Stopped after ${maxRedirects} redirects.`);
+        }
+        let next: URL;
+        try {
+          next = new URL(location, current);
+        } catch {
+          throw new SafeFetchError("redirect-blocked", "Redirected to an invalid location.");
+        }
+        if (next.protocol !== "http:" && next.protocol !== "https:") {
+          throw new SafeFetchError("redirect-blocked", "Redirected to a non-HTTP location.");
+        }
+        current = next;
+        continue;
+      }
+
+      const contentType = (hop.headers.get("content-type") ?? "").toLowerCase();
+      const shouldRead =
+        method !== "HEAD" &&
+        (typeof options.readBody === "function" ? options.readBody(contentType) : options.readBody !== false);
+      let body = "";
+      let truncated = false;
+      if (shouldRead) {
+        const read = await readLimitedBody(response, options.maxBytes ?? DEFAULT_MAX_BYTES);
+        body = decodeBody(read.chunks, contentType);
+        truncated = read.truncated;
+      } else {
+        response.destroy();
+      }
+
+      return {
+        requestedUrl: rawUrl,
+        url: hop.url,
+        status,
+        statusText: hop.statusText,
+        headers: hop.headers,
+        address: pinned.address,
+        redirected: hops.length > 1,
+        hops,
+        body,
+        truncated,
+        timingMs: Date.now() - started,
+      };
+    }
+  } catch (error) {
+    if (error instanceof SafeFetchError) throw error;
+    if (controller.signal.aborted) {
+      throw new SafeFetchError("timeout", `Request timed out after ${timeoutMs} ms.`);
+    }
+    throw new SafeFetchError("network-error", "Unable to reach URL. It may be blocked or unavailable.");
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+export function describeSafeFetchError(
+  error: unknown,
+  fallback: string,
+): { code: SafeFetchErrorCode; error: string; status: number } {
+  if (!(error instanceof SafeFetchError)) return { code: "network-error", error: fallback, status: 502 };
+  const clientError =
+    error.code === "invalid-url" ||
+    error.code === "unsupported-protocol" ||
+    error.code === "blocked-host" ||
+    error.code === "redirect-blocked";
+  return {
+    code: error.code,
+    error: error.code === "network-error" ? fallback : error.message,
+    status: clientError ? 400 : 502,
+  };
+}
@@ -0,0 +1,191 @@
+import type { SubtitleWordTiming } from "@/lib/transcript-subtitle";
+
+export const SPEECH_SAMPLE_RATE = 16_000;
+export const SPEECH_MAX_DURATION_SECONDS = 60 * 60;
+
+export interface SpeechModelOption {
+  id: string;
+  label: string;
+  approxDownloadMb: number;
+  multilingual: boolean;
+}
+
+export const SPEECH_MODEL_OPTIONS: SpeechModelOption[] = [
+  { id: "Xenova/whisper-tiny.en", label: "Whisper tiny (English)", approxDownloadMb: 40, multilingual: false },
+  { id: "Xenova/whisper-base.en", label: "Whisper base (English)", approxDownloadMb: 80, multilingual: false },
+  { id: "Xenova/whisper-tiny", label: "Whisper tiny (multilingual)", approxDownloadMb: 40, multilingual: true },
+  { id: "Xenova/whisper-base", label: "Whisper base (multilingual)", approxDownloadMb: 80, multilingual: true },
+  { id: "Xenova/whisper-small", label: "Whisper small (multilingual, slow)", approxDownloadMb: 250, multilingual: true },
+];
+
+export interface SpeechLanguageOption {
+  code: string;
+  label: string;
+}
+
+export const SPEECH_LANGUAGE_OPTIONS: SpeechLanguageOption[] = [
+  { code: "af", label: "Afrikaans" },
+  { code: "sq", label: "Albanian" },
+  { code: "am", label: "Amharic" },
+  { code: "ar", label: "Arabic" },
+  { code: "hy", label: "Armenian" },
+  { code: "as", label: "Assamese" },
+  { code: "az", label: "Azerbaijani" },
+  { code: "ba", label: "Bashkir" },
+  { code: "eu", label: "Basque" },
+  { code: "be", label: "Belarusian" },
+  { code: "bn", label: "Bengali" },
+  { code: "bs", label: "Bosnian" },
+  { code: "br", label: "Breton" },
+  { code: "bg", label: "Bulgarian" },
+  { code: "my", label: "Burmese" },
+  { code: "ca", label: "Catalan" },
+  { code: "zh", label: "Chinese" },
+  { code: "hr", label: "Croatian" },
+  { code: "cs", label: "Czech" },
+  { code: "da", label: "Danish" },
+  { code: "nl", label: "Dutch" },
+  { code: "en", label: "English" },
+  { code: "et", label: "Estonian" },
+  { code: "fo", label: "Faroese" },
+  { code: "fi", label: "Finnish" },
+  { code: "fr", label: "French" },
+  { code: "gl", label: "Galician" },
+  { code: "ka", label: "Georgian" },
+  { code: "de", label: "German" },
+  { code: "el", label: "Greek" },
+  { code: "gu", label: "Gujarati" },
+  { code: "ht", label: "Haitian Creole" },
+  { code: "ha", label: "Hausa" },
+  { code: "haw", label: "Hawaiian" },
+  { code: "he", label: "Hebrew" },
+  { code: "hi", label: "Hindi" },
+  { code: "hu", label: "Hungarian" },
+  { code: "is", label: "Icelandic" },
+  { code: "id", label: "Indonesian" },
+  { code: "it", label: "Italian" },
+  { code: "ja", label: "Japanese" },
+  { code: "jw", label: "Javanese" },
+  { code: "kn", label: "Kannada" },
+  { code: "kk", label: "Kazakh" },
+  { code: "km", label: "Khmer" },
+  { code: "ko", label: "Korean" },
+  { code: "lo", label: "Lao" },
+  { code: "la", label: "Latin" },
+  { code: "lv", label: "Latvian" },
+  { code: "ln", label: "Lingala" },
+  { code: "lt", label: "Lithuanian" },
+  { code: "lb", label: "Luxembourgish" },
+  { code: "mk", label: "Macedonian" },
+  { code: "mg", label: "Malagasy" },
+  { code: "ms", label: "Malay" },
+  { code: "ml", label: "Malayalam" },
+  { code: "mt", label: "Maltese" },
+  { code: "mi", label: "Maori" },
+  { code: "mr", label: "Marathi" },
+  { code: "mn", label: "Mongolian" },
+  { code: "ne", label: "Nepali" },
+  { code: "no", label: "Norwegian" },
+  { code: "nn", label: "Nynorsk" },
+  { code: "oc", label: "Occitan" },
+  { code: "ps", label: "Pashto" },
+  { code: "fa", label: "Persian" },
+  { code: "pl", label: "Polish" },
+  { code: "pt", label: "Portuguese" },
+  { code: "pa", label: "Punjabi" },
+  { code: "ro", label: "Romanian" },
+  { code: "ru", label: "Russian" },
+  { code: "sa", label: "Sanskrit" },
+  { code: "sr", label: "Serbian" },
+  { code: "sn", label: "Shona" },
+  { code: "sd", label: "Sindhi" },
+  { code: "si", label: "Sinhala" },
+  { code: "sk", label: "Slovak" },
+  { code: "sl", label: "Slovenian" },
+  { code: "so", label: "Somali" },
+  { code: "es", label: "Spanish" },
+  { code: "su", label: "Sundanese" },
+  { code: "sw", label: "Swahili" },
+  { code: "sv", label: "Swedish" },
+  { code: "tl", label: "Tagalog" },
+  { code: "tg", label: "Tajik" },
+  { code: "ta", label: "Tamil" },
+  { code: "tt", label: "Tatar" },
+  { code: "te", label: "Telugu" },
+  { code: "th", label: "Thai" },
+  { code: "bo", label: "Tibetan" },
+  { code: "tr", label: "Turkish" },
+  { code: "tk", label: "Turkmen" },
+  { code: "uk", label: "Ukrainian" },
+  { code: "ur", label: "Urdu" },
+  { code: "uz", label: "Uzbek" },
+  { code: "vi", label: "Vietnamese" },
+  { code: "cy", label: "Welsh" },
+  { code: "yi", label: "Yiddish" },
+  { code: "yo", label: "Yoruba" },
+];
+
+export function toWhisperLanguage(code: string): string | null {
+  const base = code.trim().toLowerCase().split(/[-_]/)[0] ?? "";
+  return SPEECH_LANGUAGE_OPTIONS.some((option) => option.code === base) ? base : null;
+}
+
+export type SpeechWorkerRequest = {
+  type: "transcribe";
+  requestId: string;
+  model: string;
+  language: string;
+  audio: Float32Array;
+};
+
+export type SpeechWorkerResponse =
+  | { type: "download"; requestId: string; file: string; progress: number }
+  | { type: "status"; requestId: string; message: string }
+  | { type: "result"; requestId: string; text: string; words: SubtitleWordTiming[] }
+  | { type: "error"; requestId: string; message: string };
+
+export interface WhisperChunk {
+  text: string;
+  timestamp: [number | null, number | null];
+}
+
+export function normalizeWhisperWords(chunks: WhisperChunk[]): SubtitleWordTiming[] {
+  const words: SubtitleWordTiming[] = [];
+  chunks.forEach((chunk) => {
+    const text = chunk.text.trim();
+    if (!text) return;
+    const previousEnd = words[words.length - 1]?.endMs ?? 0;
+    const startMs = Math.max(previousEnd, Math.round((chunk.timestamp[0] ?? previousEnd / 1000) * 1000));
+    const endMs = Math.max(startMs + 1, Math.round((chunk.timestamp[1] ?? startMs / 1000 + 0.3) * 1000));
+    words.push({ text, startMs, endMs });
+  });
+  return words;
+}
+
+export async function decodeMediaToMonoPcm(file: File): Promise<Float32Array> {
+  const AudioContextClass =
+    window.AudioContext ?? (window as typeof window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  if (!AudioContextClass || typeof OfflineAudioContext === "undefined") {
+    throw new Error("This browser cannot decode audio for transcription.");
+  }
+  const context = new AudioContextClass();
+  let decoded: AudioBuffer;
+  try {
+    decoded = await context.decodeAudioData(await file.arrayBuffer());
+  } catch {
+    throw new Error("Could not decode the audio track of this file.");
+  } finally {
+    void context.close();
+  }
+  if (decoded.duration > SPEECH_MAX_DURATION_SECONDS) {
+    throw new Error(`Media longer than ${SPEECH_MAX_DURATION_SECONDS / 60} minutes is not supported for in-browser transcription.`);
+  }
+
+  const offline = new OfflineAudioContext(1, Math.max(1, Math.ceil(decoded.duration * SPEECH_SAMPLE_RATE)), SPEECH_SAMPLE_RATE);
+  const source = offline.createBufferSource();
+  source.buffer = decoded;
+  source.connect(offline.destination);
+  source.start();
+  const rendered = await offline.startRendering();
+  return rendered.getChannelData(0);
+}
@@ -0,0 +1,617 @@
+import { calculatorFields } from "@/lib/calculator-fields";
+import { getCalculatorInsights, runCalculator, type ResultRow } from "@/lib/calculations";
+import { convertNumber, convertUnitValue, getUnitsForQuantity } from "@/lib/converters";
+import {
+  applyCleanupPreset,
+  buildCsvText,
+  cleanupCsvDataset,
+  mapCsvRows,
+  parseDelimitedText,
+  parseTargetSchema,
+  suggestColumnMappings,
+  type CsvCleanupOptions,
+  type CsvCleanupPresetId,
+  type CsvDelimiter,
+} from "@/lib/csv-cleanup";
+import { buildDocumentCompareMarkdown, compareDocumentTexts } from "@/lib/document-compare";
+import {
+  applyPiiRedactions,
+  detectPiiFindings,
+  summarizePiiCounts,
+  type PiiReplacementMode,
+} from "@/lib/pii-redaction";
+import {
+  beautifyHtml,
+  countCharacters,
+  countWords,
+  generateLoremIpsum,
+  generateRobotsTxt,
+  generateSitemapXml,
+  keywordDensity,
+  markdownToHtml,
+  minifyCss,
+  minifyJs,
+  safeJsonFormat,
+  slugify,
+  type SitemapChangeFrequency,
+} from "@/lib/text-tools";
+import { getAllTools } from "@/lib/tools";
+import type { ToolDefinition, ToolEngine } from "@/lib/types";
+
+export const TOOL_ENGINE_API_VERSION = "v1";
+
+const MAX_TEXT_INPUT_LENGTH = 500_000;
+const MAX_LIST_INPUT_ITEMS = 5_000;
+
+export type ToolEngineFieldType = "number" | "string" | "boolean" | "enum" | "date" | "string-list";
+
+export interface ToolEngineField {
+  name: string;
+  type: ToolEngineFieldType;
+  required: boolean;
+  description: string;
+  defaultValue?: string | number | boolean | string[];
+  options?: string[];
+  min?: number;
+  max?: number;
+}
+
+export interface ToolEngineSchema {
+  version: string;
+  category: string;
+  slug: string;
+  title: string;
+  engine: ToolEngine;
+  fields: ToolEngineField[];
+}
+
+export interface ToolEngineResult {
+  rows: ResultRow[];
+  output?: unknown;
+}
+
+export interface ToolEngineValidationIssue {
+  field: string;
+  message: string;
+}
+
+export type ToolEngineRunOutcome =
+  | { ok: true; result: ToolEngineResult }
+  | { ok: false; issues: ToolEngineValidationIssue[] };
+
+type ToolEngineValues = Record<string, unknown>;
+
+interface ToolEngineAdapter {
+  fields: ToolEngineField[];
+  run: (values: ToolEngineValues) => ToolEngineResult;
+}
+
+function field(
+  name: string,
+  type: ToolEngineFieldType,
+  description: string,
+  extra: Partial<Omit<ToolEngineField, "name" | "type" | "description">> = {},
+): ToolEngineField {
+  return { name, type, description, required: extra.required ?? false, ...extra };
+}
+
+function textField(name: string, description: string): ToolEngineField {
+  return field(name, "string", description, { required: true });
+}
+
+const CSV_DELIMITER_OPTIONS = ["auto", "comma", "tab", "semicolon", "pipe"];
+const CSV_DELIMITERS: Record<string, CsvDelimiter | undefined> = {
+  auto: undefined,
+  comma: ",",
+  tab: "\t",
+  semicolon: ";",
+  pipe: "|",
+};
+const CSV_PRESET_OPTIONS: CsvCleanupPresetId[] = ["merchant-name-cleanup", "dedupe-contacts", "normalize-ecommerce-exports"];
+const SITEMAP_FREQUENCIES: SitemapChangeFrequency[] = ["always", "hourly", "daily", "weekly", "monthly", "yearly", "never"];
+
+function formatCount(value: number): string {
+  return new Intl.NumberFormat("en-US").format(value);
+}
+
+function textToolAdapter(id: string): ToolEngineAdapter | null {
+  switch (id) {
+    case "word-counter":
+      return {
+        fields: [textField("text", "Text to analyze.")],
+        run: (values) => {
+          const text = String(values.text);
+          const words = countWords(text);
+          const sentences = text.split(/[.!?]+/).filter((part) => part.trim()).length;
+          const paragraphs = text.split(/\n\s*\n/).filter((part) => part.trim()).length;
+          const readingMinutes = words / 200;
+          return {
+            rows: [
+              { label: "Words", value: formatCount(words) },
+              { label: "Characters", value: formatCount(countCharacters(text, true)) },
+              { label: "Characters (no spaces)", value: formatCount(countCharacters(text, false)) },
+              { label: "Sentences", value: formatCount(sentences) },
+              { label: "Paragraphs", value: formatCount(paragraphs) },
+              { label: "Reading time", value: `${Math.max(1, Math.ceil(readingMinutes))} min` },
+            ],
+            output: { words, sentences, paragraphs, readingMinutes },
+          };
+        },
+      };
+    case "character-counter":
+      return {
+        fields: [
+          textField("text", "Text to count."),
+          field("includeSpaces", "boolean", "Count whitespace as characters.", { defaultValue: true }),
+        ],
+        run: (values) => {
+          const text = String(values.text);
+          const characters = countCharacters(text, values.includeSpaces !== false);
+          return {
+            rows: [
+              { label: "Characters", value: formatCount(characters) },
+              { label: "Words", value: formatCount(countWords(text)) },
+            ],
+            output: { characters, words: countWords(text) },
+          };
+        },
+      };
+    case "keyword-density-checker":
+      return {
+        fields: [
+          textField("text", "Content to analyze."),
+          field("topN", "number", "Number of keywords to return.", { defaultValue: 8, min: 1, max: 50 }),
+          field("nGram", "enum", "Phrase length to count.", { defaultValue: "1", options: ["1", "2", "3"] }),
+          field("minLength", "number", "Minimum word length.", { defaultValue: 3, min: 1, max: 20 }),
+          field("excludeStopWords", "boolean", "Ignore common stop words.", { defaultValue: true }),
+        ],
+        run: (values) => {
+          const rows = keywordDensity(String(values.text), Number(values.topN ?? 8), {
+            nGram: Number(values.nGram ?? 1) as 1 | 2 | 3,
+            minLength: Number(values.minLength ?? 3),
+            excludeStopWords: values.excludeStopWords !== false,
+          });
+          return {
+            rows: rows.map((row) => ({ label: row.keyword, value: `${row.count} (${row.density})` })),
+            output: rows,
+          };
+        },
+      };
+    case "slug-generator":
+      return {
+        fields: [
+          textField("text", "Title or phrase to convert."),
+          field("separator", "enum", "Word separator.", { defaultValue: "-", options: ["-", "_"] }),
+          field("lowercase", "boolean", "Lowercase the slug.", { defaultValue: true }),
+          field("maxLength", "number", "Maximum slug length (0 for no limit).", { defaultValue: 0, min: 0, max: 300 }),
+          field("removeStopWords", "boolean", "Drop common stop words.", { defaultValue: false }),
+        ],
+        run: (values) => {
+          const slug = slugify(String(values.text), {
+            separator: (values.separator as "-" | "_" | undefined) ?? "-",
+            lowercase: values.lowercase !== false,
+            maxLength: Number(values.maxLength ?? 0) || undefined,
+            removeStopWords: values.removeStopWords === true,
+          });
+          return { rows: [{ label: "Slug", value: slug }], output: { slug } };
+        },
+      };
+    case "html-beautifier":
+      return {
+        fields: [
+          textField("html", "HTML markup to format."),
+          field("indentSize", "number", "Spaces per indent level.", { defaultValue: 2, min: 1, max: 8 }),
+        ],
+        run: (values) => {
+          const html = beautifyHtml(String(values.html), Number(values.indentSize ?? 2));
+          return { rows: [{ label: "Formatted lines", value: formatCount(html.split("\n").length) }], output: { html } };
+        },
+      };
+    case "json-formatter":
+      return {
+        fields: [
+          textField("json", "JSON text to validate and format."),
+          field("minify", "boolean", "Minify instead of pretty-printing.", { defaultValue: false }),
+          field("sortKeys", "boolean", "Sort object keys alphabetically.", { defaultValue: false }),
+          field("indent", "number", "Indent width when pretty-printing.", { defaultValue: 2, min: 0, max: 8 }),
+        ],
+        run: (values) => {
+          const result = safeJsonFormat(String(values.json), {
+            minify: values.minify === true,
+            sortKeys: values.sortKeys === true,
+            indent: Number(values.indent ?? 2),
+          });
+          return {
+            rows: [
+              { label: "Valid JSON", value: result.ok ? "Yes" : "No", hint: result.error },
+              { label: "Size before", value: `${formatCount(result.sizeBefore)} bytes` },
+              ...(typeof result.sizeAfter === "number"
+                ? [{ label: "Size after", value: `${formatCount(result.sizeAfter)} bytes` }]
+                : []),
+            ],
+            output: result,
+          };
+        },
+      };
+    case "xml-sitemap-generator":
+      return {
+        fields: [
+          field("urls", "string-list", "Absolute URLs to include.", { required: true }),
+          field("changefreq", "enum", "Change frequency for every URL.", { options: SITEMAP_FREQUENCIES }),
+          field("priority", "number", "Priority for every URL.", { min: 0, max: 1 }),
+          field("lastmod", "date", "Last modification date (YYYY-MM-DD)."),
+        ],
+        run: (values) => {
+          const urls = values.urls as string[];
+          const xml = generateSitemapXml(
+            urls.map((url) => ({
+              url,
+              lastmod: values.lastmod as string | undefined,
+              changefreq: values.changefreq as SitemapChangeFrequency | undefined,
+              priority: values.priority as number | undefined,
+            })),
+          );
+          const included = (xml.match(/<loc>/g) ?? []).length;
+          return {
+            rows: [
+              { label: "URLs included", value: formatCount(included) },
+              { label: "URLs skipped", value: formatCount(urls.length - included) },
+            ],
+            output: { xml },
+          };
+        },
+      };
+    case "robots-txt-generator":
+      return {
+        fields: [
+          field("userAgent", "string", "User-agent the rules apply to.", { defaultValue: "*" }),
+          field("allowPaths", "string-list", "Paths to allow."),
+          field("disallowPaths", "string-list", "Paths to disallow."),
+          field("crawlDelay", "number", "Crawl-delay in seconds.", { min: 0, max: 120 }),
+          field("sitemapUrls", "string-list", "Sitemap URLs to advertise."),
+          field("host", "string", "Preferred host."),
+        ],
+        run: (values) => {
+          const robots = generateRobotsTxt({
+            userAgent: values.userAgent as string | undefined,
+            allowPaths: values.allowPaths as string[] | undefined,
+            disallowPaths: values.disallowPaths as string[] | undefined,
+            crawlDelay: values.crawlDelay as number | undefined,
+            sitemapUrls: values.sitemapUrls as string[] | undefined,
+            host: values.host as string | undefined,
+          });
+          return { rows: [{ label: "Lines", value: formatCount(robots.split("\n").length) }], output: { robotsTxt: robots } };
+        },
+      };
+    case "css-minifier":
+    case "js-minifier": {
+      const minify = id === "css-minifier" ? minifyCss : minifyJs;
+      return {
+        fields: [textField("code", id === "css-minifier" ? "CSS source to minify." : "JavaScript source to minify.")],
+        run: (values) => {
+          const source = String(values.code);
+          const minified = minify(source);
+          const saved = source.length ? ((source.length - minified.length) / source.length) * 100 : 0;
+          return {
+            rows: [
+              { label: "Original size", value: `${formatCount(source.length)} chars` },
+              { label: "Minified size", value: `${formatCount(minified.length)} chars` },
+              { label: "Saved", value: `${saved.toFixed(1)}%` },
+            ],
+            output: { code: minified },
+          };
+        },
+      };
+    }
+    case "lorem-ipsum-generator":
+      return {
+        fields: [field("paragraphs", "number", "Paragraph count.", { defaultValue: 3, min: 1, max: 50 })],
+        run: (values) => {
+          const text = generateLoremIpsum(Number(values.paragraphs ?? 3));
+          return { rows: [{ label: "Words", value: formatCount(countWords(text)) }], output: { text } };
+        },
+      };
+    default:
+      return null;
+  }
+}
+
+function productivityToolAdapter(id: string): ToolEngineAdapter | null {
+  switch (id) {
+    case "csv-cleanup-mapping-studio":
+      return {
+        fields: [
+          textField("csv", "CSV or TSV text including a header row."),
+          field("delimiter", "enum", "Source delimiter.", { defaultValue: "auto", options: CSV_DELIMITER_OPTIONS }),
+          field("preset", "enum", "Cleanup preset applied before individual overrides.", {
+            options: CSV_PRESET_OPTIONS,
+          }),
+          field("trimCells", "boolean", "Trim leading and trailing whitespace."),
+          field("collapseWhitespace", "boolean", "Collapse repeated whitespace."),
+          field("normalizeHeaders", "boolean", "Normalize header labels."),
+          field("fillMissingHeaders", "boolean", "Name empty headers."),
+          field("dropEmptyRows", "boolean", "Remove rows with no values."),
+          field("dedupeRows", "boolean", "Remove duplicate rows."),
+          field("textCase", "enum", "Cell casing.", { options: ["keep", "lower", "upper", "title"] }),
+          field("normalizeDetectedTypes", "boolean", "Rewrite detected dates, numbers, emails, phones and booleans to canonical formats."),
+          field("dateOrder", "enum", "Day/month order for ambiguous dates.", { defaultValue: "auto", options: ["auto", "dmy", "mdy", "ymd"] }),
+          field("decimalSeparator", "enum", "Decimal separator for numbers.", { defaultValue: "auto", options: ["auto", ".", ","] }),
+          field("targetSchema", "string", "Target headers separated by commas or new lines."),
+        ],
+        run: (values) => {
+          const dataset = parseDelimitedText(String(values.csv), CSV_DELIMITERS[String(values.delimiter ?? "auto")]);
+          const base = applyCleanupPreset(
+            (values.preset as CsvCleanupPresetId | undefined) ?? "normalize-ecommerce-exports",
+          );
+          const options: CsvCleanupOptions = { ...base };
+          (["trimCells", "collapseWhitespace", "normalizeHeaders", "fillMissingHeaders", "dropEmptyRows", "dedupeRows"] as const).forEach(
+            (key) => {
+              if (typeof values[key] === "boolean") options[key] = values[key] as boolean;
+            },
+          );
+          if (typeof values.textCase === "string") options.textCase = values.textCase as CsvCleanupOptions["textCase"];
+          if (typeof values.normalizeDetectedTypes === "boolean") options.normalizeDetectedTypes = values.normalizeDetectedTypes;
+          if (typeof values.dateOrder === "string") options.dateOrder = values.dateOrder as CsvCleanupOptions["dateOrder"];
+          if (typeof values.decimalSeparator === "string") {
+            options.decimalSeparator = values.decimalSeparator as CsvCleanupOptions["decimalSeparator"];
+          }
+
+          const cleaned = cleanupCsvDataset(dataset, options);
+          const targetHeaders = parseTargetSchema(String(values.targetSchema ?? ""));
+          const suggestions = targetHeaders.length ? suggestColumnMappings(cleaned.headers, targetHeaders) : [];
+          const mapping = Object.fromEntries(suggestions.map((entry) => [entry.targetHeader, entry.sourceHeader]));
+          const mappedRows = targetHeaders.length ? mapCsvRows(cleaned.headers, cleaned.rows, mapping, targetHeaders) : [];
+
+          return {
+            rows: [
+              { label: "Columns", value: formatCount(cleaned.headers.length) },
+              { label: "Rows", value: formatCount(cleaned.rows.length) },
+              { label: "Duplicates removed", value: formatCount(cleaned.duplicateRowsRemoved) },
+              { label: "Empty rows removed", value: formatCount(cleaned.emptyRowsRemoved) },
+              { label: "Changed cells", value: formatCount(cleaned.changedCells) },
+              { label: "Normalized cells", value: formatCount(cleaned.validation.normalizedCells) },
+            ],
+            output: {
+              options,
+              cleaned,
+              cleanedCsv: buildCsvText(cleaned.headers, cleaned.rows, ","),
+              mapping: targetHeaders.length ? { targetHeaders, suggestions, rows: mappedRows } : null,
+              mappedCsv: targetHeaders.length ? buildCsvText(targetHeaders, mappedRows, ",") : null,
+            },
+          };
+        },
+      };
+    case "pii-redaction-studio":
+      return {
+        fields: [
+          textField("text", "Text to scan for personal data."),
+          field("customTerms", "string-list", "Extra terms to always redact."),
+          field("mode", "enum", "Replacement style.", { defaultValue: "block", options: ["block", "label", "partial"] }),
+        ],
+        run: (values) => {
+          const text = String(values.text);
+          const findings = detectPiiFindings(text, (values.customTerms as string[] | undefined) ?? []);
+          const redactedText = applyPiiRedactions(
+            text,
+            findings,
+            findings.map((finding) => finding.id),
+            (values.mode as PiiReplacementMode | undefined) ?? "block",
+          );
+          const summary = summarizePiiCounts(findings);
+          return {
+            rows: [
+              { label: "Findings", value: formatCount(findings.length) },
+              ...summary.map((entry) => ({ label: entry.label, value: formatCount(entry.count) })),
+            ],
+            output: { findings, summary, redactedText },
+          };
+        },
+      };
+    case "document-compare-redline":
+      return {
+        fields: [textField("beforeText", "Original document text."), textField("afterText", "Revised document text.")],
+        run: (values) => {
+          const result = compareDocumentTexts(String(values.beforeText), String(values.afterText));
+          return {
+            rows: [
+              { label: "Added", value: formatCount(result.counts.added) },
+              { label: "Removed", value: formatCount(result.counts.removed) },
+              { label: "Modified", value: formatCount(result.counts.modified) },
+              { label: "Unchanged", value: formatCount(result.counts.unchanged) },
+              { label: "Risk flags", value: formatCount(result.riskFlags.length) },
+            ],
+            output: { ...result, markdown: buildDocumentCompareMarkdown(result) },
+          };
+        },
+      };
+    default:
+      return null;
+  }
+}
+
+function resolveToolEngineAdapter(engine: ToolEngine): ToolEngineAdapter | null {
+  switch (engine.kind) {
+    case "calculator": {
+      const id = engine.id;
+      return {
+        fields: [
+          ...calculatorFields[id].map((entry) => {
+            if (entry.type === "select") {
+              return field(entry.name, "enum", entry.helper ?? entry.label, {
+                defaultValue: entry.defaultValue,
+                options: (entry.options ?? []).map((option) => option.value),
+              });
+            }
+            if (entry.type === "date") {
+              return field(entry.name, "date", entry.helper ?? entry.label, { defaultValue: entry.defaultValue });
+            }
+            if (entry.type === "text") {
+              return field(entry.name, "string", entry.helper ?? entry.label, { defaultValue: entry.defaultValue });
+            }
+            const numericDefault = Number.parseFloat(entry.defaultValue);
+            return field(entry.name, "number", entry.helper ?? entry.label, {
+              defaultValue: Number.isFinite(numericDefault) ? numericDefault : undefined,
+              min: entry.min,
+            });
+          }),
+          field("currency", "string", "ISO 4217 currency code used to format money values.", { defaultValue: "USD" }),
+        ],
+        run: (values) => {
+          const defaults = Object.fromEntries(calculatorFields[id].map((entry) => [entry.name, entry.defaultValue]));
+          const rawValues = { ...defaults, ...values };
+          const options = { currency: typeof values.currency === "string" ? values.currency.toUpperCase() : undefined };
+          return {
+            rows: runCalculator(id, rawValues, options),
+            output: { insights: getCalculatorInsights(id, rawValues, options) },
+          };
+        },
+      };
+    }
+    case "unit-converter": {
+      const units = getUnitsForQuantity(engine.quantity).map((unit) => unit.value);
+      return {
+        fields: [
+          field("value", "number", "Value to convert.", { required: true }),
+          field("from", "enum", "Source unit.", { required: true, options: units }),
+          field("to", "enum", "Target unit.", { required: true, options: units }),
+        ],
+        run: (values) => {
+          const converted = convertUnitValue(engine.quantity, Number(values.value), String(values.from), String(values.to));
+          return {
+            rows: [{ label: `${values.value} ${values.from}`, value: `${Number(converted.toPrecision(12))} ${values.to}` }],
+            output: { value: converted, from: values.from, to: values.to },
+          };
+        },
+      };
+    }
+    case "number-converter":
+      return {
+        fields: [textField("input", "Number to convert.")],
+        run: (values) => {
+          const result = convertNumber(engine.mode, String(values.input));
+          return {
+            rows: [
+              { label: "Result", value: result.primary },
+              ...(result.secondary ? [{ label: "Details", value: result.secondary }] : []),
+            ],
+            output: result,
+          };
+        },
+      };
+    case "text-tool":
+      return textToolAdapter(engine.id);
+    case "developer-tool":
+      if (engine.id !== "markdown-to-html") return null;
+      return {
+        fields: [textField("markdown", "Markdown source to convert.")],
+        run: (values) => {
+          const html = markdownToHtml(String(values.markdown));
+          return { rows: [{ label: "HTML length", value: `${formatCount(html.length)} chars` }], output: { html } };
+        },
+      };
+    case "productivity-tool":
+      return productivityToolAdapter(engine.id);
+    default:
+      return null;
+  }
+}
+
+export function getToolEngineSchema(tool: ToolDefinition): ToolEngineSchema | null {
+  const adapter = resolveToolEngineAdapter(tool.engine);
+  if (!adapter) return null;
+  return {
+    version: TOOL_ENGINE_API_VERSION,
+    category: tool.category,
+    slug: tool.slug,
+    title: tool.title,
+    engine: tool.engine,
+    fields: adapter.fields,
+  };
+}
+
+export function listHeadlessToolSchemas(): ToolEngineSchema[] {
+  return getAllTools()
+    .map((tool) => getToolEngineSchema(tool))
+    .filter((schema): schema is ToolEngineSchema => schema !== null);
+}
+
+function coerceFieldValue(definition: ToolEngineField, raw: unknown): { value?: unknown; error?: string } {
+  switch (definition.type) {
+    case "number": {
+      const value = typeof raw === "number" ? raw : typeof raw === "string" && raw.trim() ? Number(raw) : Number.NaN;
+      if (!Number.isFinite(value)) return { error: "must be a finite number" };
+      if (typeof definition.min === "number" && value < definition.min) return { error: `must be >= ${definition.min}` };
+      if (typeof definition.max === "number" && value > definition.max) return { error: `must be <= ${definition.max}` };
+      return { value };
+    }
+    case "boolean":
+      if (typeof raw === "boolean") return { value: raw };
+      if (raw === "true" || raw === "false") return { value: raw === "true" };
+      return { error: "must be a boolean" };
+    case "enum": {
+      const value = typeof raw === "number" ? String(raw) : raw;
+      if (typeof value !== "string" || !(definition.options ?? []).includes(value)) {
+        return { error: `must be one of: ${(definition.options ?? []).join(", ")}` };
+      }
+      return { value };
+    }
+    case "date":
+      if (typeof raw !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(raw) || Number.isNaN(Date.parse(raw))) {
+        return { error: "must be a date in YYYY-MM-DD format" };
+      }
+      return { value: raw };
+    case "string-list": {
+      const list = typeof raw === "string" ? raw.split(/\r?\n/) : raw;
+      if (!Array.isArray(list) || list.some((entry) => typeof entry !== "string")) {
+        return { error: "must be an array of strings or newline-separated text" };
+      }
+      if (list.length > MAX_LIST_INPUT_ITEMS) return { error: `must contain at most ${MAX_LIST_INPUT_ITEMS} items` };
+      return { value: (list as string[]).map((entry) => entry.trim()).filter(Boolean) };
+    }
+    default:
+      if (typeof raw !== "string") return { error: "must be a string" };
+      if (raw.length > MAX_TEXT_INPUT_LENGTH) return { error: `must be at most ${MAX_TEXT_INPUT_LENGTH} characters` };
+      return { value: raw };
+  }
+}
+
+export function validateToolEngineInput(
+  schema: Pick<ToolEngineSchema, "fields">,
+  input: unknown,
+): { values: ToolEngineValues; issues: ToolEngineValidationIssue[] } {
+  const issues: ToolEngineValidationIssue[] = [];
+  const values: ToolEngineValues = {};
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return { values, issues: [{ field: "input", message: "must be a JSON object" }] };
+  }
+
+  const record = input as Record<string, unknown>;
+  const known = new Set(schema.fields.map((entry) => entry.name));
+  Object.keys(record).forEach((key) => {
+    if (!known.has(key)) issues.push({ field: key, message: "is not a recognized input for this tool" });
+  });
+
+  schema.fields.forEach((definition) => {
+    const raw = record[definition.name];
+    if (raw === undefined || raw === null || raw === "") {
+      if (definition.required) issues.push({ field: definition.name, message: "is required" });
+      return;
+    }
+    const coerced = coerceFieldValue(definition, raw);
+    if (coerced.error) {
+      issues.push({ field: definition.name, message: coerced.error });
+      return;
+    }
+    values[definition.name] = coerced.value;
+  });
+
+  return { values, issues };
+}
+
+export function runToolEngine(tool: ToolDefinition, input: unknown): ToolEngineRunOutcome | null {
+  const adapter = resolveToolEngineAdapter(tool.engine);
+  if (!adapter) return null;
+  const { values, issues } = validateToolEngineInput(adapter, input);
+  if (issues.length) return { ok: false, issues };
+  return { ok: true, result: adapter.run(values) };
+}
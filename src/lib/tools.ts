@@ -1021,7 +1021,7 @@ const imageTools: ToolDefinition[] = [
     title: "PDF Merge",
     summary: "Merge multiple PDF files into one downloadable PDF in your browser.",
     description:
-      "Combine PDF documents in your preferred order with page-count validation and client-side export.",
+      "Combine PDF documents in your preferred order with per-file page ranges, while keeping selectable text, links, bookmarks, and form fields.",
     keywords: ["pdf merge", "merge pdf files", "combine pdf", "pdf merger"],
     engine: { kind: "image-tool", id: "pdf-merge" },
     faq: baseFaq("PDF Merge"),
@@ -1030,9 +1030,9 @@ const imageTools: ToolDefinition[] = [
     slug: "pdf-split",
     category: "image-tools",
     title: "PDF Split",
-    summary: "Split PDFs by custom page range, chunk size, or single-page exports.",
+    summary: "Split or reorder PDFs by custom page range, chunk size, or single-page exports.",
     description:
-      "Extract selected pages or split a PDF into multiple files with range, single-page, and fixed-chunk modes.",
+      "Extract, reorder, or split PDF pages with range, single-page, and fixed-chunk modes without flattening text or bookmarks.",
     keywords: ["pdf split", "split pdf pages", "extract pages from pdf", "pdf page splitter"],
     engine: { kind: "image-tool", id: "pdf-split" },
     faq: baseFaq("PDF Split"),
@@ -1234,10 +1234,17 @@ const developerTools: ToolDefinition[] = [
     slug: "http-status-checker",
     category: "developer-tools",
     title: "HTTP Status Checker",
-    summary: "Run single or batch HTTP status checks with timing and redirect insight.",
+    summary: "Trace redirect chains, inspect response headers, and grade security headers for up to 30 URLs.",
     description:
-      "Validate endpoint accessibility with method control, response timing, final URL tracking, and reusable check history.",
-    keywords: ["http status checker", "url status code", "website status"],
+      "Follow redirects hop by hop with status, Location, and timing per hop, catch redirect loops, review full response headers, grade HSTS, CSP, framing, referrer, permissions, and cookie flags with fixes, and export bulk results to CSV.",
+    keywords: [
+      "http status checker",
+      "url status code",
+      "website status",
+      "redirect chain checker",
+      "security headers checker",
+      "bulk url checker",
+    ],
     engine: { kind: "developer-tool", id: "http-status-checker" },
     faq: baseFaq("HTTP Status Checker"),
   },
@@ -1245,13 +1252,41 @@ const developerTools: ToolDefinition[] = [
     slug: "dns-lookup",
     category: "developer-tools",
     title: "DNS Lookup",
-    summary: "Run deep DNS queries across major record types with resolver controls and diagnostics.",
+    summary: "Run deep DNS queries, validate the DNSSEC chain of trust, and diff record snapshots over time.",
     description:
-      "Inspect A, AAAA, CNAME, MX, TXT, NS, SOA, and CAA records with DNSSEC indicators, response metadata, and exportable lookup history.",
-    keywords: ["dns lookup", "dns checker", "dns records", "mx lookup", "txt lookup"],
+      "Inspect A, AAAA, CNAME, MX, TXT, NS, SOA, CAA, DS, DNSKEY, RRSIG, SRV, PTR, HTTPS, SVCB, and TLSA records, trace DNSSEC from the root to the zone with signature expiry warnings, run reverse lookups for IPs, and diff saved snapshots.",
+    keywords: [
+      "dns lookup",
+      "dns checker",
+      "dns records",
+      "mx lookup",
+      "txt lookup",
+      "dnssec checker",
+      "reverse dns lookup",
+      "dns diff",
+    ],
     engine: { kind: "developer-tool", id: "dns-lookup" },
     faq: baseFaq("DNS Lookup"),
   },
+  {
+    slug: "email-deliverability-checker",
+    category: "developer-tools",
+    title: "Email Deliverability Checker",
+    summary: "Audit SPF, DKIM, DMARC, MTA-STS, TLS-RPT, and BIMI for one or many sending domains.",
+    description:
+      "Expand SPF includes against the 10-lookup limit, validate DMARC policy tags and report authorization, check DKIM selectors and key sizes, fetch MTA-STS policies, and get a prioritized fix list with CSV export.",
+    keywords: [
+      "email deliverability checker",
+      "spf checker",
+      "dmarc checker",
+      "dkim checker",
+      "mta-sts checker",
+      "bimi checker",
+      "spf lookup limit",
+    ],
+    engine: { kind: "developer-tool", id: "email-deliverability-checker" },
+    faq: baseFaq("Email Deliverability Checker"),
+  },
   {
     slug: "ssl-checker",
     category: "developer-tools",
@@ -1359,7 +1394,7 @@ const productivityTools: ToolDefinition[] = [
     title: "PII Redaction Studio",
     summary: "Detect sensitive personal data in text, screenshots, and PDFs, then export share-safe redacted output.",
     description:
-      "Scan pasted text or uploaded files for emails, phone numbers, card numbers, bank identifiers, IDs, URLs, IP addresses, and custom terms, review detections, and produce redacted outputs for safer sharing.",
+      "Scan pasted text or uploaded files for emails, phone numbers, card numbers, bank identifiers, names, postal addresses, dates of birth, passports, national IDs (checksum-validated Aadhaar, CPF and EU VAT numbers; format-matched UK NINO, PAN, Kenyan and Ugandan IDs), URLs, IP addresses, and custom terms with per-country redaction profiles, review detections, replace values with consistent reversible pseudonyms backed by a password-encrypted vault, profile PII density per column in CSV and JSON exports and sanitize them with drop, hash, mask, year, and age-bucket policies, burn word-level redaction boxes into flattened, metadata-free PDFs and images, and export a per-page redaction log.",
     keywords: [
       "pii redaction",
       "redact personal information",
@@ -1367,6 +1402,10 @@ const productivityTools: ToolDefinition[] = [
       "pdf redaction online",
       "image redaction",
       "sensitive data masking",
+      "national id redaction",
+      "gdpr redaction",
+      "pseudonymization tool",
+      "csv pii scanner",
     ],
     engine: { kind: "productivity-tool", id: "pii-redaction-studio" },
     faq: baseFaq("PII Redaction Studio"),
@@ -1377,9 +1416,12 @@ const productivityTools: ToolDefinition[] = [
     title: "Receipt & Invoice Extractor",
     summary: "Extract merchant, totals, taxes, dates, payment method, and line items from receipts or invoices.",
     description:
-      "Upload receipt photos, PDFs, scans, or invoice files to extract structured bookkeeping fields, detect currency, suggest expense categories, and export JSON or CSV-ready rows.",
+      "Upload receipt photos, PDFs, scans, or invoice files to extract structured bookkeeping fields, detect currency, suggest expense categories, and export JSON, CSV, QuickBooks IIF, Xero bill CSV, or UBL/Peppol XML.",
     keywords: [
       "receipt extractor",
+      "receipt to quickbooks iif",
+      "xero bill import csv",
+      "ubl peppol invoice xml",
       "invoice data extraction",
       "receipt to csv",
       "invoice parser",
@@ -1413,7 +1455,7 @@ const productivityTools: ToolDefinition[] = [
     title: "Transcript & Subtitle Studio",
     summary: "Turn transcripts into timed subtitles, speaker notes, meeting minutes, and translated caption tracks.",
     description:
-      "Upload audio or video for preview, import or paste a transcript, generate subtitle cues, edit timings, translate caption tracks, and export SRT, VTT, transcript, or meeting-minute outputs.",
+      "Upload audio or video for preview or in-browser speech-to-text, import or paste a transcript, generate word-timed subtitle cues, edit timings, translate caption tracks, and resync with shift, stretch or frame-rate conversion, and export SRT, VTT, ASS/SSA, TTML, SBV, SCC, transcript, or meeting-minute outputs.",
     keywords: [
       "subtitle generator",
       "transcript studio",
@@ -1421,6 +1463,11 @@ const productivityTools: ToolDefinition[] = [
       "vtt generator",
       "subtitle translator",
       "meeting transcript tool",
+      "ass subtitle converter",
+      "scc caption converter",
+      "subtitle resync",
+      "speech to text",
+      "audio transcription",
     ],
     engine: { kind: "productivity-tool", id: "transcript-subtitle-studio" },
     faq: baseFaq("Transcript & Subtitle Studio"),
@@ -1449,7 +1496,7 @@ const productivityTools: ToolDefinition[] = [
     title: "Bank Statement Normalizer & Expense Intelligence",
     summary: "Normalize statement rows, categorize spending, and detect subscriptions, spikes, duplicate charges, and fee patterns.",
     description:
-      "Import bank-statement CSV, TSV, PDF, or pasted text to standardize dates and merchants, infer debit-credit polarity, group spend by merchant, and surface recurring charges, spikes, duplicates, and hidden fees.",
+      "Import bank-statement CSV, TSV, OFX/QFX, CAMT.053 XML, MT940, PDF, or pasted text to standardize dates and merchants, infer debit-credit polarity, group spend by merchant, and surface recurring charges, spikes, duplicates, and hidden fees.",
     keywords: [
       "bank statement analyzer",
       "expense intelligence tool",
@@ -1457,6 +1504,9 @@ const productivityTools: ToolDefinition[] = [
       "subscription detector",
       "duplicate charge finder",
       "merchant spend analysis",
+      "ofx to csv",
+      "camt.053 viewer",
+      "mt940 parser",
     ],
     engine: { kind: "productivity-tool", id: "bank-statement-normalizer-expense-intelligence" },
     faq: baseFaq("Bank Statement Normalizer & Expense Intelligence"),
@@ -1467,7 +1517,7 @@ const productivityTools: ToolDefinition[] = [
     title: "Document Compare & Redline",
     summary: "Compare two texts or files, highlight additions/removals/modifications, and flag risky clause changes.",
     description:
-      "Import two documents or paste text, run block-level comparison, review human-readable change summaries, and surface payment, deadline, cancellation, and obligation changes before final approval.",
+      "Import two documents or paste text, run word- or character-level redlines with moved-text detection, export tracked-changes DOCX or colored PDF redlines, run three-way template/markup/final checks against your own clause library, review human-readable change summaries, and surface payment, deadline, cancellation, and obligation changes before final approval.",
     keywords: [
       "document compare tool",
       "contract redline viewer",
@@ -1475,6 +1525,10 @@ const productivityTools: ToolDefinition[] = [
       "agreement comparison",
       "document change summary",
       "redline contract tool",
+      "tracked changes docx",
+      "word level diff",
+      "three way contract compare",
+      "clause playbook",
     ],
     engine: { kind: "productivity-tool", id: "document-compare-redline" },
     faq: baseFaq("Document Compare & Redline"),
@@ -1585,8 +1639,8 @@ const productivityTools: ToolDefinition[] = [
     title: "Invoice Generator",
     summary: "Generate branded invoices with global currencies, workspace history, taxes, and PDF export.",
     description:
-      "Create client-ready invoices with logo branding, multiple saved invoice workspaces, full currency selection including African currencies, and robust billing/export workflows.",
-    keywords: ["invoice generator", "invoice template", "invoice pdf", "billing tool"],
+      "Create client-ready invoices with logo branding, multiple saved invoice workspaces, full currency selection including African currencies, and robust billing/export workflows including numbering sequences, recurring schedules, payment tracking, receivables aging and Factur-X/ZUGFeRD or Peppol UBL e-invoices.",
+    keywords: ["invoice generator", "invoice template", "invoice pdf", "billing tool", "recurring invoices", "invoice aging report", "factur-x", "zugferd", "ubl e-invoice"],
     engine: { kind: "productivity-tool", id: "invoice-generator" },
     faq: baseFaq("Invoice Generator"),
   },
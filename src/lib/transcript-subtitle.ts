@@ -1,9 +1,49 @@
+import { escapeXml } from "@/lib/xml";
+
+export type SubtitleFormat = "srt" | "vtt" | "ass" | "ssa" | "ttml" | "sbv" | "scc";
+export type SubtitleFrameRate = "23.976" | "24" | "25" | "29.97" | "29.97df" | "30";
+export type SubtitleAlign = "left" | "center" | "right";
+export type SubtitlePosition = "top" | "middle" | "bottom";
+
+export interface SubtitleCueStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  color?: string;
+  align?: SubtitleAlign;
+  position?: SubtitlePosition;
+}
+
 export interface SubtitleCue {
   id: string;
   startMs: number;
   endMs: number;
   text: string;
   speaker: string;
+  style?: SubtitleCueStyle;
+}
+
+export interface SubtitleFrameRateDefinition {
+  label: string;
+  fps: number;
+  timecodeBase: number;
+  dropFrame: boolean;
+}
+
+export interface SubtitleExportOptions {
+  language?: string;
+  title?: string;
+}
+
+export interface SubtitleRetimeOptions {
+  offsetMs?: number;
+  factor?: number;
+  anchorMs?: number;
+}
+
+export interface SubtitleSyncPoint {
+  sourceMs: number;
+  targetMs: number;
 }
 
 export interface SpeakerSegment {
@@ -12,6 +52,12 @@ export interface SpeakerSegment {
   wordCount: number;
 }
 
+export interface SubtitleWordTiming {
+  text: string;
+  startMs: number;
+  endMs: number;
+}
+
 export interface SubtitleGenerationOptions {
   mediaDurationSeconds?: number;
   targetCharsPerCue?: number;
@@ -19,6 +65,45 @@ export interface SubtitleGenerationOptions {
   maxCueSeconds?: number;
 }
 
+export const SUBTITLE_FORMAT_LABELS: Record<SubtitleFormat, string> = {
+  srt: "SubRip (.srt)",
+  vtt: "WebVTT (.vtt)",
+  ass: "Advanced SubStation Alpha (.ass)",
+  ssa: "SubStation Alpha (.ssa)",
+  ttml: "TTML / DFXP (.ttml)",
+  sbv: "YouTube SubViewer (.sbv)",
+  scc: "Scenarist SCC (.scc)",
+};
+
+export const SUBTITLE_FORMAT_EXTENSIONS: Record<SubtitleFormat, string> = {
+  srt: "srt",
+  vtt: "vtt",
+  ass: "ass",
+  ssa: "ssa",
+  ttml: "ttml",
+  sbv: "sbv",
+  scc: "scc",
+};
+
+export const SUBTITLE_FORMAT_MIME_TYPES: Record<SubtitleFormat, string> = {
+  srt: "application/x-subrip;charset=utf-8;",
+  vtt: "text/vtt;charset=utf-8;",
+  ass: "text/x-ssa;charset=utf-8;",
+  ssa: "text/x-ssa;charset=utf-8;",
+  ttml: "application/ttml+xml;charset=utf-8;",
+  sbv: "text/plain;charset=utf-8;",
+  scc: "text/plain;charset=utf-8;",
+};
+
+export const SUBTITLE_FRAME_RATES: Record<SubtitleFrameRate, SubtitleFrameRateDefinition> = {
+  "23.976": { label: "23.976 fps", fps: 24000 / 1001, timecodeBase: 24, dropFrame: false },
+  "24": { label: "24 fps", fps: 24, timecodeBase: 24, dropFrame: false },
+  "25": { label: "25 fps (PAL)", fps: 25, timecodeBase: 25, dropFrame: false },
+  "29.97": { label: "29.97 fps non-drop", fps: 30000 / 1001, timecodeBase: 30, dropFrame: false },
+  "29.97df": { label: "29.97 fps drop-frame", fps: 30000 / 1001, timecodeBase: 30, dropFrame: true },
+  "30": { label: "30 fps", fps: 30, timecodeBase: 30, dropFrame: false },
+};
+
 const SPEAKER_PATTERN = /^([A-Za-z][\w .'-]{0,30}|Speaker\s+\d+|Host|Moderator|Interviewer|Guest)\s*:\s*(.+)$/i;
 
 function normalizeText(value: string): string {
@@ -150,10 +235,181 @@ export function generateSubtitleCues(transcript: string, options: SubtitleGenera
   });
 }
 
+const NAMED_COLORS: Record<string, string> = {
+  white: "#ffffff",
+  black: "#000000",
+  red: "#ff0000",
+  green: "#00ff00",
+  lime: "#00ff00",
+  blue: "#0000ff",
+  yellow: "#ffff00",
+  cyan: "#00ffff",
+  magenta: "#ff00ff",
+};
+
+function normalizeColor(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim().toLowerCase();
+  if (NAMED_COLORS[trimmed]) return NAMED_COLORS[trimmed];
+  const hex = trimmed.replace(/^#/, "");
+  if (/^[0-9a-f]{3}$/.test(hex)) return `#${hex.split("").map((char) => `${char}${char}`).join("")}`;
+  if (/^[0-9a-f]{6}$/.test(hex)) return `#${hex}`;
+  if (/^[0-9a-f]{8}$/.test(hex)) return `#${hex.slice(0, 6)}`;
+  return undefined;
+}
+
+export function normalizeCueStyle(style: SubtitleCueStyle | undefined): SubtitleCueStyle | undefined {
+  if (!style) return undefined;
+  const next: SubtitleCueStyle = {};
+  if (style.bold) next.bold = true;
+  if (style.italic) next.italic = true;
+  if (style.underline) next.underline = true;
+  const color = normalizeColor(style.color);
+  if (color && color !== "#ffffff") next.color = color;
+  if (style.align && style.align !== "center") next.align = style.align;
+  if (style.position && style.position !== "bottom") next.position = style.position;
+  return Object.keys(next).length ? next : undefined;
+}
+
+function buildCue(index: number, startMs: number, endMs: number, body: string, style?: SubtitleCueStyle, speaker?: string): SubtitleCue {
+  const trimmed = body.trim();
+  const speakerMatch = speaker ? null : trimmed.match(SPEAKER_PATTERN);
+  const cue: SubtitleCue = {
+    id: `cue-${index + 1}`,
+    startMs: Math.max(0, Math.round(startMs)),
+    endMs: Math.max(0, Math.round(endMs)),
+    text: speakerMatch?.[2]?.trim() || trimmed,
+    speaker: speaker?.trim() || speakerMatch?.[1]?.trim() || "Speaker",
+  };
+  const normalizedStyle = normalizeCueStyle(style);
+  if (normalizedStyle) cue.style = normalizedStyle;
+  return cue;
+}
+
+function formatCueBody(cue: SubtitleCue): string {
+  return cue.speaker && cue.speaker !== "Speaker" ? `${cue.speaker}: ${cue.text}` : cue.text;
+}
+
+function getNumpadAlignment(style: SubtitleCueStyle | undefined): number {
+  const base = style?.position === "top" ? 7 : style?.position === "middle" ? 4 : 1;
+  return base + (style?.align === "left" ? 0 : style?.align === "right" ? 2 : 1);
+}
+
+function applyNumpadAlignment(style: SubtitleCueStyle, value: number) {
+  if (!Number.isFinite(value) || value < 1 || value > 9) return;
+  style.position = value >= 7 ? "top" : value >= 4 ? "middle" : "bottom";
+  const column = (value - 1) % 3;
+  style.align = column === 0 ? "left" : column === 2 ? "right" : "center";
+}
+
+function wrapInlineMarkup(text: string, style: SubtitleCueStyle | undefined, format: "srt" | "vtt"): string {
+  let body = text;
+  if (!style) return body;
+  if (style.color) {
+    body = format === "srt" ? `<font color="${style.color}">${body}</font>` : `<c.c-${style.color.slice(1)}>${body}</c>`;
+  }
+  if (style.underline) body = `<u>${body}</u>`;
+  if (style.italic) body = `<i>${body}</i>`;
+  if (style.bold) body = `<b>${body}</b>`;
+  if (format === "srt") {
+    const alignment = getNumpadAlignment(style);
+    if (alignment !== 2) body = `{\\an${alignment}}${body}`;
+  }
+  return body;
+}
+
+function parseInlineMarkup(raw: string): { text: string; style: SubtitleCueStyle; speaker: string } {
+  const style: SubtitleCueStyle = {};
+  let speaker = "";
+  if (/<b>/i.test(raw)) style.bold = true;
+  if (/<i>/i.test(raw)) style.italic = true;
+  if (/<u>/i.test(raw)) style.underline = true;
+  const fontColor = raw.match(/<font[^>]*color\s*=\s*["']?([#\w]+)/i);
+  const classColor = raw.match(/<c\.(?:c-)?([0-9a-f]{6}|white|black|red|green|lime|blue|yellow|cyan|magenta)\b/i);
+  const color = normalizeColor(fontColor?.[1] ?? classColor?.[1]);
+  if (color) style.color = color;
+  const voice = raw.match(/<v(?:\.[\w.-]+)?\s+([^>]+)>/i);
+  if (voice) speaker = voice[1].trim();
+  const alignment = raw.match(/\{\\an?(\d)\}/);
+  if (alignment) applyNumpadAlignment(style, Number.parseInt(alignment[1], 10));
+  const text = raw
+    .replace(/\{\\[^}]*\}/g, "")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .trim();
+  return { text, style, speaker };
+}
+
+function formatVttSettings(style: SubtitleCueStyle | undefined): string {
+  const settings: string[] = [];
+  if (style?.position === "top") settings.push("line:10%");
+  if (style?.position === "middle") settings.push("line:50%");
+  if (style?.align === "left" || style?.align === "right") settings.push(`align:${style.align}`);
+  return settings.length ? ` ${settings.join(" ")}` : "";
+}
+
+function applyVttSettings(style: SubtitleCueStyle, settings: string) {
+  const align = settings.match(/\balign:(\w+)/)?.[1];
+  if (align === "left" || align === "start") style.align = "left";
+  if (align === "right" || align === "end") style.align = "right";
+  const line = settings.match(/\bline:(-?[\d.]+)(%?)/);
+  if (!line) return;
+  const value = Number.parseFloat(line[1]);
+  if (line[2] === "%") {
+    style.position = value < 34 ? "top" : value < 67 ? "middle" : "bottom";
+  } else if (value >= 0 && value <= 2) {
+    style.position = "top";
+  }
+}
+
+export function generateSubtitleCuesFromWords(
+  words: SubtitleWordTiming[],
+  options: Omit<SubtitleGenerationOptions, "mediaDurationSeconds"> = {},
+): SubtitleCue[] {
+  const targetChars = Math.max(28, Math.min(160, Math.round(options.targetCharsPerCue ?? 84)));
+  const minCueMs = Math.max(1.2, Math.min(10, options.minCueSeconds ?? 2)) * 1000;
+  const maxCueMs = Math.max(minCueMs, Math.min(14, options.maxCueSeconds ?? 6) * 1000);
+  const groups: SubtitleWordTiming[][] = [];
+  let current: SubtitleWordTiming[] = [];
+
+  words.forEach((word) => {
+    const text = word.text.trim();
+    if (!text) return;
+    const previous = current[current.length - 1];
+    if (previous) {
+      const length = current.map((entry) => entry.text).join(" ").length + 1 + text.length;
+      const pauseMs = word.startMs - previous.endMs;
+      const sentenceBreak = /[.!?]["')\]]*$/.test(previous.text) && length > targetChars / 2;
+      if (length > targetChars || pauseMs > 700 || word.endMs - current[0].startMs > maxCueMs || sentenceBreak) {
+        groups.push(current);
+        current = [];
+      }
+    }
+    current.push({ ...word, text });
+  });
+  if (current.length) groups.push(current);
+
+  return groups.map((group, index) => {
+    const startMs = group[0].startMs;
+    const nextStart = groups[index + 1]?.[0].startMs ?? Number.POSITIVE_INFINITY;
+    const spokenEnd = group[group.length - 1].endMs;
+    const endMs = Math.max(spokenEnd, Math.min(startMs + minCueMs, nextStart));
+    return {
+      id: `cue-${index + 1}`,
+      startMs,
+      endMs,
+      text: group.map((word) => word.text).join(" "),
+      speaker: "Speaker",
+    };
+  });
+}
+
 export function exportSrt(cues: SubtitleCue[]): string {
   return cues
     .map((cue, index) => {
-      const body = cue.speaker && cue.speaker !== "Speaker" ? `${cue.speaker}: ${cue.text}` : cue.text;
+      const body = wrapInlineMarkup(formatCueBody(cue), normalizeCueStyle(cue.style), "srt");
       return `${index + 1}\n${formatSubtitleTimestamp(cue.startMs, "srt")} --> ${formatSubtitleTimestamp(cue.endMs, "srt")}\n${body}`;
     })
     .join("\n\n")
@@ -161,19 +417,25 @@ export function exportSrt(cues: SubtitleCue[]): string {
 }
 
 export function exportVtt(cues: SubtitleCue[]): string {
+  const colors = [...new Set(cues.map((cue) => normalizeCueStyle(cue.style)?.color).filter((color): color is string => Boolean(color)))];
+  const styleBlock = colors.length
+    ? `STYLE\n${colors.map((color) => `::cue(.c-${color.slice(1)}) { color: ${color}; }`).join("\n")}\n\n`
+    : "";
   const body = cues
     .map((cue) => {
-      const line = cue.speaker && cue.speaker !== "Speaker" ? `${cue.speaker}: ${cue.text}` : cue.text;
-      return `${formatSubtitleTimestamp(cue.startMs, "vtt")} --> ${formatSubtitleTimestamp(cue.endMs, "vtt")}\n${line}`;
+      const style = normalizeCueStyle(cue.style);
+      const line = wrapInlineMarkup(formatCueBody(cue), style, "vtt");
+      return `${formatSubtitleTimestamp(cue.startMs, "vtt")} --> ${formatSubtitleTimestamp(cue.endMs, "vtt")}${formatVttSettings(style)}\n${line}`;
     })
     .join("\n\n")
     .trim();
-  return `WEBVTT\n\n${body}`;
+  return `WEBVTT\n\n${styleBlock}${body}`;
 }
 
 function parseTimestampToMs(value: string): number {
   const normalized = value.trim().replace(",", ".");
   const parts = normalized.split(":");
+  if (parts.length === 2) parts.unshift("0");
   if (parts.length !== 3) return 0;
   const [hours, minutes, secondsPart] = parts;
   const [seconds, milliseconds = "0"] = secondsPart.split(".");
@@ -185,8 +447,23 @@ function parseTimestampToMs(value: string): number {
   );
 }
 
-export function parseSubtitleFile(raw: string): SubtitleCue[] {
-  const normalized = normalizeText(raw).replace(/^WEBVTT\s*/i, "").trim();
+export function detectSubtitleFormat(raw: string, fileName = ""): SubtitleFormat {
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  if (extension === "dfxp" || extension === "xml") return "ttml";
+  if ((Object.keys(SUBTITLE_FORMAT_EXTENSIONS) as SubtitleFormat[]).includes(extension as SubtitleFormat)) {
+    return extension as SubtitleFormat;
+  }
+  const head = raw.replace(/^\ufeff/, "").trimStart().slice(0, 2000);
+  if (/^Scenarist_SCC/i.test(head)) return "scc";
+  if (/^\[Script Info\]/im.test(head)) return /ScriptType:\s*v4\.00\+/i.test(head) || /\[V4\+ Styles\]/i.test(head) ? "ass" : "ssa";
+  if (/<tt[\s>]/i.test(head)) return "ttml";
+  if (/^WEBVTT/.test(head)) return "vtt";
+  if (/^\d+:\d{2}:\d{2}\.\d{3},\d+:\d{2}:\d{2}\.\d{3}\s*$/m.test(head)) return "sbv";
+  return "srt";
+}
+
+function parseSrtOrVtt(raw: string): SubtitleCue[] {
+  const normalized = normalizeText(raw).replace(/^WEBVTT[^\n]*/i, "").trim();
   if (!normalized) return [];
   const blocks = normalized.split(/\n{2,}/).map((block) => block.trim()).filter(Boolean);
   const cues: SubtitleCue[] = [];
@@ -195,23 +472,849 @@ export function parseSubtitleFile(raw: string): SubtitleCue[] {
     const lines = block.split("\n").map((line) => line.trim()).filter(Boolean);
     const timeLineIndex = lines.findIndex((line) => line.includes("-->"));
     if (timeLineIndex < 0) return;
-    const [startRaw, endRaw] = lines[timeLineIndex].split("-->").map((line) => line.trim());
+    const [startRaw, endPart] = lines[timeLineIndex].split("-->").map((line) => line.trim());
+    const [endRaw, ...settings] = (endPart ?? "").split(/\s+/);
     const textLines = lines.slice(timeLineIndex + 1);
     if (!startRaw || !endRaw || !textLines.length) return;
-    const body = textLines.join(" ").trim();
-    const speakerMatch = body.match(SPEAKER_PATTERN);
-    cues.push({
-      id: `cue-${index + 1}`,
-      startMs: parseTimestampToMs(startRaw),
-      endMs: parseTimestampToMs(endRaw),
-      text: speakerMatch?.[2]?.trim() || body,
-      speaker: speakerMatch?.[1]?.trim() || "Speaker",
+    const markup = parseInlineMarkup(textLines.join(" "));
+    applyVttSettings(markup.style, settings.join(" "));
+    cues.push(buildCue(index, parseTimestampToMs(startRaw), parseTimestampToMs(endRaw), markup.text, markup.style, markup.speaker));
+  });
+
+  return cues;
+}
+
+function formatAssTimestamp(ms: number): string {
+  const centiseconds = Math.max(0, Math.round(ms / 10));
+  const hours = Math.floor(centiseconds / 360_000);
+  const minutes = Math.floor((centiseconds % 360_000) / 6000);
+  const seconds = Math.floor((centiseconds % 6000) / 100);
+  return `${hours}:${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}.${String(centiseconds % 100).padStart(2, "0")}`;
+}
+
+function toAssColor(color: string): string {
+  const hex = color.slice(1);
+  return `&H${hex.slice(4, 6)}${hex.slice(2, 4)}${hex.slice(0, 2)}&`.toUpperCase();
+}
+
+function fromAssColor(value: string): string | undefined {
+  const hex = value.replace(/^&H/i, "").replace(/&$/, "").padStart(6, "0");
+  if (!/^[0-9a-f]{6,8}$/i.test(hex)) return undefined;
+  const bgr = hex.slice(-6);
+  return `#${bgr.slice(4, 6)}${bgr.slice(2, 4)}${bgr.slice(0, 2)}`.toLowerCase();
+}
+
+export function exportAss(cues: SubtitleCue[], options: SubtitleExportOptions & { variant?: "ass" | "ssa" } = {}): string {
+  const ssa = options.variant === "ssa";
+  const header = [
+    "[Script Info]",
+    `Title: ${options.title || "Subtitles"}`,
+    `ScriptType: ${ssa ? "v4.00" : "v4.00+"}`,
+    "PlayResX: 1920",
+    "PlayResY: 1080",
+    ...(ssa ? [] : ["WrapStyle: 0", "ScaledBorderAndShadow: yes"]),
+    "",
+    ssa ? "[V4 Styles]" : "[V4+ Styles]",
+    ssa
+      ? "Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, TertiaryColour, BackColour, Bold, Italic, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, AlphaLevel, Encoding"
+      : "Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding",
+    ssa
+      ? "Style: Default,Arial,54,16777215,255,0,0,0,0,1,2,1,2,40,40,40,0,1"
+      : "Style: Default,Arial,54,&H00FFFFFF,&H000000FF,&H00000000,&H64000000,0,0,0,0,100,100,0,0,1,2,1,2,40,40,40,1",
+    "",
+    "[Events]",
+    ssa
+      ? "Format: Marked, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text"
+      : "Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text",
+  ];
+  const events = cues.map((cue) => {
+    const style = normalizeCueStyle(cue.style);
+    const overrides: string[] = [];
+    if (style?.bold) overrides.push("\\b1");
+    if (style?.italic) overrides.push("\\i1");
+    if (style?.underline) overrides.push("\\u1");
+    if (style?.color) overrides.push(`\\c${toAssColor(style.color)}`);
+    const alignment = getNumpadAlignment(style);
+    if (alignment !== 2) {
+      overrides.push(ssa ? `\\a${alignment >= 7 ? alignment - 2 : alignment >= 4 ? alignment + 5 : alignment}` : `\\an${alignment}`);
+    }
+    const text = `${overrides.length ? `{${overrides.join("")}}` : ""}${cue.text.replace(/\r?\n/g, "\\N")}`;
+    const speaker = cue.speaker && cue.speaker !== "Speaker" ? cue.speaker.replace(/,/g, " ") : "";
+    return `Dialogue: ${ssa ? "Marked=0" : "0"},${formatAssTimestamp(cue.startMs)},${formatAssTimestamp(cue.endMs)},Default,${speaker},0,0,0,,${text}`;
+  });
+  return [...header, ...events].join("\n");
+}
+
+function parseAssBoolean(value: string | undefined): boolean {
+  return value === "-1" || value === "1";
+}
+
+function parseAss(raw: string): SubtitleCue[] {
+  const lines = normalizeText(raw).replace(/^\ufeff/, "").split("\n");
+  const styles = new Map<string, SubtitleCueStyle>();
+  let section = "";
+  let styleFormat: string[] = [];
+  let eventFormat: string[] = [];
+  const cues: SubtitleCue[] = [];
+
+  lines.forEach((rawLine) => {
+    const line = rawLine.trim();
+    const sectionMatch = line.match(/^\[(.+)\]$/);
+    if (sectionMatch) {
+      section = sectionMatch[1].toLowerCase();
+      return;
+    }
+    const separator = line.indexOf(":");
+    if (separator < 0) return;
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (section.includes("styles")) {
+      if (key === "format") {
+        styleFormat = value.split(",").map((field) => field.trim().toLowerCase());
+        return;
+      }
+      if (key !== "style" || !styleFormat.length) return;
+      const fields = value.split(",").map((field) => field.trim());
+      const field = (name: string) => fields[styleFormat.indexOf(name)];
+      const style: SubtitleCueStyle = {
+        bold: parseAssBoolean(field("bold")),
+        italic: parseAssBoolean(field("italic")),
+        underline: parseAssBoolean(field("underline")),
+      };
+      const primary = field("primarycolour");
+      if (primary) {
+        style.color = /^&H/i.test(primary)
+          ? fromAssColor(primary)
+          : fromAssColor(`&H${Number.parseInt(primary, 10).toString(16).padStart(6, "0")}`);
+      }
+      const alignment = Number.parseInt(field("alignment") ?? "", 10);
+      if (Number.isFinite(alignment)) {
+        applyNumpadAlignment(
+          style,
+          section.includes("v4+") ? alignment : alignment >= 9 ? alignment - 5 : alignment >= 5 ? alignment + 2 : alignment,
+        );
+      }
+      styles.set((field("name") ?? "").toLowerCase(), style);
+      return;
+    }
+
+    if (!section.includes("events")) return;
+    if (key === "format") {
+      eventFormat = value.split(",").map((field) => field.trim().toLowerCase());
+      return;
+    }
+    if (key !== "dialogue") return;
+    const format = eventFormat.length
+      ? eventFormat
+      : ["layer", "start", "end", "style", "name", "marginl", "marginr", "marginv", "effect", "text"];
+    const fields = value.split(",");
+    const textIndex = format.indexOf("text");
+    const text = fields.slice(textIndex).join(",");
+    const field = (name: string) => fields[format.indexOf(name)]?.trim() ?? "";
+    const style: SubtitleCueStyle = { ...(styles.get(field("style").toLowerCase()) ?? {}) };
+
+    (text.match(/\{[^}]*\}/g) ?? []).forEach((block) => {
+      block
+        .slice(1, -1)
+        .split("\\")
+        .filter(Boolean)
+        .forEach((tag) => {
+          const flag = tag.match(/^([biu])(\d)/);
+          if (flag) {
+            const enabled = flag[2] !== "0";
+            if (flag[1] === "b") style.bold = enabled;
+            if (flag[1] === "i") style.italic = enabled;
+            if (flag[1] === "u") style.underline = enabled;
+            return;
+          }
+          const color = tag.match(/^1?c(&H[0-9a-f]+&?)/i);
+          if (color) {
+            style.color = fromAssColor(color[1]);
+            return;
+          }
+          const numpad = tag.match(/^an(\d)/);
+          if (numpad) {
+            applyNumpadAlignment(style, Number.parseInt(numpad[1], 10));
+            return;
+          }
+          const legacy = tag.match(/^a(\d+)/);
+          if (legacy) {
+            const value = Number.parseInt(legacy[1], 10);
+            applyNumpadAlignment(style, value >= 9 ? value - 5 : value >= 5 ? value + 2 : value);
+          }
+        });
     });
+
+    const plain = text
+      .replace(/\{[^}]*\}/g, "")
+      .replace(/\\N/gi, "\n")
+      .replace(/\\h/g, " ")
+      .trim();
+    if (!plain) return;
+    cues.push(
+      buildCue(cues.length, parseTimestampToMs(field("start")), parseTimestampToMs(field("end")), plain, style, field("name")),
+    );
+  });
+
+  return cues;
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number.parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCharCode(Number.parseInt(code, 16)))
+    .replace(/&amp;/g, "&");
+}
+
+function readXmlAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = decodeXmlEntities(match[3] ?? match[4] ?? "");
+  }
+  return attributes;
+}
+
+function readTtmlStyle(attributes: Record<string, string>, style: SubtitleCueStyle) {
+  if (attributes["tts:fontWeight"]) style.bold = attributes["tts:fontWeight"] === "bold";
+  if (attributes["tts:fontStyle"]) style.italic = attributes["tts:fontStyle"] === "italic";
+  if (attributes["tts:textDecoration"]) style.underline = attributes["tts:textDecoration"].includes("underline");
+  if (attributes["tts:color"]) style.color = normalizeColor(attributes["tts:color"]) ?? style.color;
+  const textAlign = attributes["tts:textAlign"];
+  if (textAlign === "left" || textAlign === "start") style.align = "left";
+  if (textAlign === "right" || textAlign === "end") style.align = "right";
+  if (textAlign === "center") style.align = "center";
+  const displayAlign = attributes["tts:displayAlign"];
+  if (displayAlign === "before") style.position = "top";
+  if (displayAlign === "center") style.position = "middle";
+  if (displayAlign === "after") style.position = "bottom";
+}
+
+function parseTtmlTime(value: string | undefined, frameRate: number, tickRate: number): number | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  const clock = trimmed.match(/^(\d+):(\d{2}):(\d{2})(?:([.:])(\d+))?$/);
+  if (clock) {
+    const base = Number(clock[1]) * 3_600_000 + Number(clock[2]) * 60_000 + Number(clock[3]) * 1000;
+    if (!clock[4]) return base;
+    return clock[4] === ":"
+      ? base + (Number(clock[5]) / frameRate) * 1000
+      : base + Number(`0.${clock[5]}`) * 1000;
+  }
+  const offset = trimmed.match(/^([\d.]+)(h|ms|m|s|f|t)$/);
+  if (!offset) return null;
+  const amount = Number.parseFloat(offset[1]);
+  switch (offset[2]) {
+    case "h":
+      return amount * 3_600_000;
+    case "m":
+      return amount * 60_000;
+    case "s":
+      return amount * 1000;
+    case "ms":
+      return amount;
+    case "f":
+      return (amount / frameRate) * 1000;
+    default:
+      return (amount / tickRate) * 1000;
+  }
+}
+
+export function exportTtml(cues: SubtitleCue[], options: SubtitleExportOptions = {}): string {
+  const speakers = [...new Set(cues.map((cue) => cue.speaker).filter((speaker) => speaker && speaker !== "Speaker"))];
+  const agentIds = new Map(speakers.map((speaker, index) => [speaker, `speaker-${index + 1}`]));
+  const regions: Array<[SubtitlePosition, string, string]> = [
+    ["top", "10% 5%", "before"],
+    ["middle", "10% 40%", "center"],
+    ["bottom", "10% 75%", "after"],
+  ];
+  const paragraphs = cues.map((cue) => {
+    const style = normalizeCueStyle(cue.style);
+    const attributes = [
+      `begin="${formatSubtitleTimestamp(cue.startMs, "vtt")}"`,
+      `end="${formatSubtitleTimestamp(cue.endMs, "vtt")}"`,
+      ...(style?.position ? [`region="${style.position}"`] : []),
+      ...(agentIds.has(cue.speaker) ? [`ttm:agent="${agentIds.get(cue.speaker)}"`] : []),
+      ...(style?.bold ? ['tts:fontWeight="bold"'] : []),
+      ...(style?.italic ? ['tts:fontStyle="italic"'] : []),
+      ...(style?.underline ? ['tts:textDecoration="underline"'] : []),
+      ...(style?.color ? [`tts:color="${style.color}"`] : []),
+      ...(style?.align ? [`tts:textAlign="${style.align}"`] : []),
+    ];
+    const text = cue.text.split(/\r?\n/).map(escapeXml).join("<br/>");
+    return `      <p ${attributes.join(" ")}>${text}</p>`;
   });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tt xmlns="http://www.w3.org/ns/ttml" xmlns:tts="http://www.w3.org/ns/ttml#styling" xmlns:ttm="http://www.w3.org/ns/ttml#metadata" xmlns:ttp="http://www.w3.org/ns/ttml#parameter" ttp:timeBase="media" xml:lang="${escapeXml(options.language || "en")}">`,
+    "  <head>",
+    "    <metadata>",
+    `      <ttm:title>${escapeXml(options.title || "Subtitles")}</ttm:title>`,
+    ...speakers.map(
+      (speaker) =>
+        `      <ttm:agent xml:id="${agentIds.get(speaker)}" type="person"><ttm:name type="full">${escapeXml(speaker)}</ttm:name></ttm:agent>`,
+    ),
+    "    </metadata>",
+    "    <layout>",
+    ...regions.map(
+      ([id, origin, displayAlign]) =>
+        `      <region xml:id="${id}" tts:origin="${origin}" tts:extent="80% 20%" tts:displayAlign="${displayAlign}" tts:textAlign="center"/>`,
+    ),
+    "    </layout>",
+    "  </head>",
+    '  <body region="bottom">',
+    "    <div>",
+    ...paragraphs,
+    "    </div>",
+    "  </body>",
+    "</tt>",
+  ].join("\n");
+}
+
+function parseTtml(raw: string): SubtitleCue[] {
+  const source = normalizeText(raw);
+  const root = readXmlAttributes(source.match(/<tt\b[^>]*>/i)?.[0] ?? "");
+  const frameRate =
+    Number.parseFloat(root["ttp:frameRate"] ?? "30") *
+    (root["ttp:frameRateMultiplier"]
+      ? Number(root["ttp:frameRateMultiplier"].split(/\s+/)[0]) / Number(root["ttp:frameRateMultiplier"].split(/\s+/)[1] || 1)
+      : 1);
+  const tickRate = Number.parseFloat(root["ttp:tickRate"] ?? "") || frameRate || 1;
+
+  const namedStyles = new Map<string, SubtitleCueStyle>();
+  for (const match of source.matchAll(/<(?:style|region)\b[^>]*xml:id\s*=[^>]*>/gi)) {
+    const attributes = readXmlAttributes(match[0]);
+    const style: SubtitleCueStyle = {};
+    readTtmlStyle(attributes, style);
+    namedStyles.set(attributes["xml:id"], style);
+  }
+  const agents = new Map<string, string>();
+  for (const match of source.matchAll(/<ttm:agent\b([^>]*)>([\s\S]*?)<\/ttm:agent>/gi)) {
+    const id = readXmlAttributes(match[1])["xml:id"];
+    const name = match[2].match(/<ttm:name[^>]*>([\s\S]*?)<\/ttm:name>/i)?.[1];
+    if (id) agents.set(id, decodeXmlEntities((name ?? id).trim()));
+  }
+  const bodyRegion = readXmlAttributes(source.match(/<body\b[^>]*>/i)?.[0] ?? "").region;
+
+  const cues: SubtitleCue[] = [];
+  for (const match of source.matchAll(/<p\b([^>]*)>([\s\S]*?)<\/p>/gi)) {
+    const attributes = readXmlAttributes(match[1]);
+    const start = parseTtmlTime(attributes.begin, frameRate, tickRate);
+    const end = parseTtmlTime(attributes.end, frameRate, tickRate);
+    const duration = parseTtmlTime(attributes.dur, frameRate, tickRate);
+    if (start === null || (end === null && duration === null)) continue;
 
+    const style: SubtitleCueStyle = {};
+    [attributes.region ?? bodyRegion, ...(attributes.style ?? "").split(/\s+/)]
+      .filter((id): id is string => Boolean(id))
+      .forEach((id) => Object.assign(style, namedStyles.get(id) ?? {}));
+    readTtmlStyle(attributes, style);
+    for (const span of match[2].matchAll(/<span\b([^>]*)>/gi)) {
+      const spanAttributes = readXmlAttributes(span[1]);
+      (spanAttributes.style ?? "").split(/\s+/).forEach((id) => Object.assign(style, namedStyles.get(id) ?? {}));
+      readTtmlStyle(spanAttributes, style);
+    }
+
+    const text = decodeXmlEntities(
+      match[2]
+        .replace(/<br\s*\/?>/gi, "\n")
+        .replace(/<[^>]+>/g, "")
+        .split("\n")
+        .map((line) => line.replace(/\s+/g, " ").trim())
+        .join("\n"),
+    ).trim();
+    if (!text) continue;
+    const agent = attributes["ttm:agent"];
+    cues.push(
+      buildCue(cues.length, start, end ?? start + (duration ?? 0), text, style, agent ? agents.get(agent) ?? agent : ""),
+    );
+  }
   return cues;
 }
 
+function formatSbvTimestamp(ms: number): string {
+  return formatSubtitleTimestamp(ms, "vtt").replace(/^0(\d)/, "$1");
+}
+
+export function exportSbv(cues: SubtitleCue[]): string {
+  return cues
+    .map((cue) => `${formatSbvTimestamp(cue.startMs)},${formatSbvTimestamp(cue.endMs)}\n${formatCueBody(cue)}`)
+    .join("\n\n")
+    .trim();
+}
+
+function parseSbv(raw: string): SubtitleCue[] {
+  const blocks = normalizeText(raw).split(/\n{2,}/).map((block) => block.trim()).filter(Boolean);
+  const cues: SubtitleCue[] = [];
+  blocks.forEach((block) => {
+    const [timeLine, ...textLines] = block.split("\n").map((line) => line.trim());
+    const times = timeLine.match(/^(\d+:\d{2}:\d{2}\.\d{1,3}),(\d+:\d{2}:\d{2}\.\d{1,3})$/);
+    if (!times || !textLines.length) return;
+    cues.push(buildCue(cues.length, parseTimestampToMs(times[1]), parseTimestampToMs(times[2]), textLines.join("\n").replace(/^>>\s*/, "")));
+  });
+  return cues;
+}
+
+const SCC_CHARACTER_OVERRIDES: Record<number, string> = {
+  0x2a: "á",
+  0x5c: "é",
+  0x5e: "í",
+  0x5f: "ó",
+  0x60: "ú",
+  0x7b: "ç",
+  0x7c: "÷",
+  0x7d: "Ñ",
+  0x7e: "ñ",
+  0x7f: "█",
+};
+
+const SCC_SPECIAL_CHARACTERS: Record<number, string> = {
+  0x30: "®",
+  0x31: "°",
+  0x32: "½",
+  0x33: "¿",
+  0x34: "™",
+  0x35: "¢",
+  0x36: "£",
+  0x37: "♪",
+  0x38: "à",
+  0x39: " ",
+  0x3a: "è",
+  0x3b: "â",
+  0x3c: "ê",
+  0x3d: "î",
+  0x3e: "ô",
+  0x3f: "û",
+};
+
+const SCC_PAC_ROWS: Array<[number, number]> = [
+  [0x11, 0x40],
+  [0x11, 0x60],
+  [0x12, 0x40],
+  [0x12, 0x60],
+  [0x15, 0x40],
+  [0x15, 0x60],
+  [0x16, 0x40],
+  [0x16, 0x60],
+  [0x17, 0x40],
+  [0x17, 0x60],
+  [0x10, 0x40],
+  [0x13, 0x40],
+  [0x13, 0x60],
+  [0x14, 0x40],
+  [0x14, 0x60],
+];
+
+const SCC_COLORS = ["#ffffff", "#00ff00", "#0000ff", "#00ffff", "#ff0000", "#ffff00", "#ff00ff"];
+const SCC_LINE_LENGTH = 32;
+
+function withOddParity(value: number): number {
+  let bits = 0;
+  for (let bit = 0; bit < 7; bit += 1) bits += (value >> bit) & 1;
+  return bits % 2 === 0 ? value | 0x80 : value;
+}
+
+function sccWord(first: number, second: number): string {
+  return `${withOddParity(first).toString(16).padStart(2, "0")}${withOddParity(second).toString(16).padStart(2, "0")}`;
+}
+
+function nearestSccColor(color: string | undefined): number {
+  if (!color) return 0;
+  const target = [1, 3, 5].map((offset) => Number.parseInt(color.slice(offset, offset + 2), 16));
+  let best = 0;
+  let bestDistance = Number.POSITIVE_INFINITY;
+  SCC_COLORS.forEach((candidate, index) => {
+    const values = [1, 3, 5].map((offset) => Number.parseInt(candidate.slice(offset, offset + 2), 16));
+    const distance = values.reduce((sum, value, channel) => sum + (value - target[channel]) ** 2, 0);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = index;
+    }
+  });
+  return best;
+}
+
+function encodeSccText(text: string): number[] {
+  const reverseOverrides = new Map(Object.entries(SCC_CHARACTER_OVERRIDES).map(([code, char]) => [char, Number(code)]));
+  const reverseSpecial = new Map(Object.entries(SCC_SPECIAL_CHARACTERS).map(([code, char]) => [char, Number(code)]));
+  const bytes: number[] = [];
+  [...text].forEach((char) => {
+    if (reverseOverrides.has(char)) {
+      bytes.push(reverseOverrides.get(char) ?? 0x20);
+      return;
+    }
+    if (reverseSpecial.has(char) && char !== " ") {
+      bytes.push(0x100 + (reverseSpecial.get(char) ?? 0x39));
+      return;
+    }
+    const code = char.charCodeAt(0);
+    if (code >= 0x20 && code < 0x7f && !(code in SCC_CHARACTER_OVERRIDES)) {
+      bytes.push(code);
+      return;
+    }
+    const plain = char.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+    const plainCode = plain.charCodeAt(0);
+    bytes.push(plainCode >= 0x20 && plainCode < 0x7f && !(plainCode in SCC_CHARACTER_OVERRIDES) ? plainCode : 0x20);
+  });
+  return bytes;
+}
+
+function wrapSccLines(text: string): string[] {
+  const lines: string[] = [];
+  text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .forEach((paragraph) => {
+      let current = "";
+      paragraph.split(/\s+/).filter(Boolean).forEach((word) => {
+        const candidate = current ? `${current} ${word}` : word;
+        if (candidate.length <= SCC_LINE_LENGTH) {
+          current = candidate;
+          return;
+        }
+        if (current) lines.push(current);
+        current = word.slice(0, SCC_LINE_LENGTH);
+      });
+      if (current) lines.push(current);
+    });
+  return lines.slice(0, 4);
+}
+
+export function exportScc(cues: SubtitleCue[]): string {
+  const frameRate: SubtitleFrameRate = "29.97df";
+  const fps = SUBTITLE_FRAME_RATES[frameRate].fps;
+  const control = (first: number, second: number) => {
+    const word = sccWord(first, second);
+    return [word, word];
+  };
+  const entries: string[] = [];
+  const emit = (frame: number, words: string[]) => {
+    entries.push(`${formatFrameTimecode((frame / fps) * 1000, frameRate)}\t${words.join(" ")}`);
+    return frame + words.length;
+  };
+  let cursor = 0;
+  let pendingClear: number | null = null;
+
+  cues.forEach((cue, index) => {
+    const style = normalizeCueStyle(cue.style);
+    const lines = wrapSccLines(formatCueBody(cue));
+    if (!lines.length) return;
+    const colorIndex = nearestSccColor(style?.color);
+    const words: string[] = [...control(0x14, 0x20), ...control(0x14, 0x2e)];
+    const firstRow = style?.position === "top" ? 0 : style?.position === "middle" ? 6 : 15 - lines.length;
+
+    lines.forEach((line, lineIndex) => {
+      const column =
+        style?.align === "left" ? 0 : style?.align === "right" ? SCC_LINE_LENGTH - line.length : Math.floor((SCC_LINE_LENGTH - line.length) / 2);
+      const [rowFirst, rowSecond] = SCC_PAC_ROWS[Math.min(14, firstRow + lineIndex)];
+      const indent = Math.floor(column / 4);
+      const attribute = indent > 0 ? 0x10 + indent * 2 : style?.italic ? 0x0e : colorIndex * 2;
+      words.push(...control(rowFirst, rowSecond + attribute + (style?.underline ? 1 : 0)));
+      if (column % 4) words.push(...control(0x17, 0x20 + (column % 4)));
+      if (indent > 0 && (style?.italic || colorIndex)) {
+        words.push(...control(0x11, style?.italic ? 0x2e + (style?.underline ? 1 : 0) : 0x20 + colorIndex * 2 + (style?.underline ? 1 : 0)));
+      }
+      const pending: number[] = [];
+      const flushCharacters = () => {
+        for (let pair = 0; pair < pending.length; pair += 2) {
+          words.push(sccWord(pending[pair], pending[pair + 1] ?? 0));
+        }
+        pending.length = 0;
+      };
+      encodeSccText(line).forEach((code) => {
+        if (code >= 0x100) {
+          flushCharacters();
+          words.push(...control(0x11, code - 0x100));
+          return;
+        }
+        pending.push(code);
+      });
+      flushCharacters();
+    });
+
+    const startFrame = Math.round((cue.startMs / 1000) * fps);
+    const desiredLoad = startFrame - words.length;
+    let loaded = false;
+    if (pendingClear !== null) {
+      if (pendingClear + 2 > desiredLoad && pendingClear - words.length >= cursor) {
+        emit(pendingClear - words.length, words);
+        loaded = true;
+      }
+      cursor = emit(Math.max(cursor, pendingClear), control(0x14, 0x2c));
+      pendingClear = null;
+    }
+    if (!loaded) cursor = emit(Math.max(cursor, desiredLoad), words);
+    cursor = emit(Math.max(cursor, startFrame), control(0x14, 0x2f));
+
+    const endFrame = Math.max(cursor, Math.round((cue.endMs / 1000) * fps));
+    const next = cues[index + 1];
+    if (!next || Math.round((next.startMs / 1000) * fps) > endFrame + 2) pendingClear = endFrame;
+  });
+  if (pendingClear !== null) emit(Math.max(cursor, pendingClear), control(0x14, 0x2c));
+
+  return `Scenarist_SCC V1.0\n\n${entries.join("\n\n")}\n`;
+}
+
+interface SccDisplayedCaption {
+  startMs: number;
+  text: string;
+  style: SubtitleCueStyle;
+}
+
+function parseScc(raw: string): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  let displayed = null as SccDisplayedCaption | null;
+  let buffer = { rows: new Map<number, string>(), row: 14, style: {} as SubtitleCueStyle, column: -1 };
+  let mode: "pop-on" | "roll-up" | "paint-on" = "pop-on";
+  let lastControl = "";
+  let channelOne = true;
+
+  const resetBuffer = () => {
+    buffer = { rows: new Map<number, string>(), row: 14, style: {}, column: -1 };
+  };
+  const bufferText = () =>
+    [...buffer.rows.entries()]
+      .sort((left, right) => left[0] - right[0])
+      .map(([, text]) => text.trim())
+      .filter(Boolean)
+      .join("\n");
+  const finishDisplayed = (timeMs: number) => {
+    if (displayed?.text) {
+      cues.push(buildCue(cues.length, displayed.startMs, Math.max(timeMs, displayed.startMs), displayed.text, displayed.style));
+    }
+    displayed = null;
+  };
+  const showBuffer = (timeMs: number) => {
+    const rows = [...buffer.rows.keys()];
+    const style = { ...buffer.style };
+    if (rows.length) {
+      const top = Math.min(...rows);
+      style.position = top <= 3 ? "top" : top <= 9 ? "middle" : "bottom";
+      if (buffer.column >= 0) {
+        const width = (buffer.rows.get(top) ?? "").trim().length;
+        const centered = Math.floor((SCC_LINE_LENGTH - width) / 2);
+        style.align = Math.abs(buffer.column - centered) <= 2 ? "center" : buffer.column < centered ? "left" : "right";
+      }
+    }
+    displayed = { startMs: timeMs, text: bufferText(), style };
+  };
+  const append = (text: string) => {
+    buffer.rows.set(buffer.row, `${buffer.rows.get(buffer.row) ?? ""}${text}`);
+  };
+
+  normalizeText(raw)
+    .split("\n")
+    .forEach((line) => {
+      const match = line.trim().match(/^(\d{2}:\d{2}:\d{2}[:;.,]\d{2})\s+(.+)$/);
+      if (!match) return;
+      const dropFrame = /[;.,]\d{2}$/.test(match[1]);
+      const baseMs = parseFrameTimecode(match[1], dropFrame ? "29.97df" : "29.97");
+      match[2]
+        .trim()
+        .split(/\s+/)
+        .forEach((word, wordIndex) => {
+          if (!/^[0-9a-f]{4}$/i.test(word)) return;
+          const timeMs = baseMs + (wordIndex * 1001) / 30;
+          const first = Number.parseInt(word.slice(0, 2), 16) & 0x7f;
+          const second = Number.parseInt(word.slice(2, 4), 16) & 0x7f;
+
+          if (first >= 0x10 && first <= 0x1f) {
+            if (word.toLowerCase() === lastControl) {
+              lastControl = "";
+              return;
+            }
+            lastControl = word.toLowerCase();
+            channelOne = first < 0x18;
+            if (!channelOne) return;
+            const code = first & 0x17;
+            if ((code === 0x14 || code === 0x15) && second >= 0x20 && second <= 0x2f) {
+              switch (second) {
+                case 0x20:
+                  mode = "pop-on";
+                  break;
+                case 0x25:
+                case 0x26:
+                case 0x27:
+                  mode = "roll-up";
+                  break;
+                case 0x29:
+                  mode = "paint-on";
+                  break;
+                case 0x2c:
+                  if (mode !== "pop-on") {
+                    showBuffer(displayed?.startMs ?? timeMs);
+                    resetBuffer();
+                  }
+                  finishDisplayed(timeMs);
+                  break;
+                case 0x2d:
+                  if (mode === "roll-up") {
+                    finishDisplayed(timeMs);
+                    resetBuffer();
+                  }
+                  break;
+                case 0x2e:
+                  resetBuffer();
+                  break;
+                case 0x2f:
+                  finishDisplayed(timeMs);
+                  showBuffer(timeMs);
+                  resetBuffer();
+                  break;
+                case 0x21:
+                  buffer.rows.set(buffer.row, (buffer.rows.get(buffer.row) ?? "").slice(0, -1));
+                  break;
+                default:
+                  break;
+              }
+              return;
+            }
+            if (code === 0x17 && second >= 0x21 && second <= 0x23) {
+              if (buffer.column >= 0 && !buffer.rows.get(buffer.row)) buffer.column += second - 0x20;
+              return;
+            }
+            if (code === 0x11 && second >= 0x30 && second <= 0x3f) {
+              if (mode !== "pop-on" && !displayed) displayed = { startMs: timeMs, text: "", style: {} };
+              append(SCC_SPECIAL_CHARACTERS[second] ?? "");
+              return;
+            }
+            if (code === 0x11 && second >= 0x20 && second <= 0x2f) {
+              if (second >= 0x2e) buffer.style.italic = true;
+              else if (second > 0x21) buffer.style.color = SCC_COLORS[(second - 0x20) >> 1];
+              if (second & 1) buffer.style.underline = true;
+              append(" ");
+              return;
+            }
+            if (second >= 0x40) {
+              const rowIndex = SCC_PAC_ROWS.findIndex(([rowFirst, rowSecond]) => rowFirst === code && rowSecond === (second & 0x60));
+              if (rowIndex >= 0) buffer.row = rowIndex;
+              const attribute = second & 0x1f;
+              if (attribute & 1) buffer.style.underline = true;
+              if (attribute >= 0x10) {
+                if (buffer.column < 0 || !buffer.rows.size) buffer.column = ((attribute - 0x10) >> 1) * 4;
+              } else {
+                if (buffer.column < 0) buffer.column = 0;
+                if ((attribute & 0x0e) === 0x0e) buffer.style.italic = true;
+                else if (attribute > 1) buffer.style.color = SCC_COLORS[attribute >> 1];
+              }
+            }
+            return;
+          }
+
+          lastControl = "";
+          if (!channelOne) return;
+          if (mode !== "pop-on" && !displayed) displayed = { startMs: timeMs, text: "", style: {} };
+          [first, second]
+            .filter((value) => value >= 0x20)
+            .forEach((value) => append(SCC_CHARACTER_OVERRIDES[value] ?? String.fromCharCode(value)));
+        });
+    });
+
+  if (displayed) finishDisplayed(displayed.startMs + 3000);
+  return cues;
+}
+
+export function parseSubtitleFile(raw: string, format?: SubtitleFormat): SubtitleCue[] {
+  const resolved = format ?? detectSubtitleFormat(raw);
+  switch (resolved) {
+    case "ass":
+    case "ssa":
+      return parseAss(raw);
+    case "ttml":
+      return parseTtml(raw);
+    case "sbv":
+      return parseSbv(raw);
+    case "scc":
+      return parseScc(raw);
+    default:
+      return parseSrtOrVtt(raw);
+  }
+}
+
+export function exportSubtitles(cues: SubtitleCue[], format: SubtitleFormat, options: SubtitleExportOptions = {}): string {
+  switch (format) {
+    case "vtt":
+      return exportVtt(cues);
+    case "ass":
+    case "ssa":
+      return exportAss(cues, { ...options, variant: format });
+    case "ttml":
+      return exportTtml(cues, options);
+    case "sbv":
+      return exportSbv(cues);
+    case "scc":
+      return exportScc(cues);
+    default:
+      return exportSrt(cues);
+  }
+}
+
+export function formatFrameTimecode(ms: number, frameRate: SubtitleFrameRate): string {
+  const definition = SUBTITLE_FRAME_RATES[frameRate];
+  let frames = Math.max(0, Math.round((ms / 1000) * definition.fps));
+  if (definition.dropFrame) {
+    const blocks = Math.floor(frames / 17_982);
+    const remainder = frames % 17_982;
+    frames += 18 * blocks + (remainder < 2 ? 0 : 2 * Math.floor((remainder - 2) / 1798));
+  }
+  const base = definition.timecodeBase;
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${pad(Math.floor(frames / (base * 3600)))}:${pad(Math.floor(frames / (base * 60)) % 60)}:${pad(
+    Math.floor(frames / base) % 60,
+  )}${definition.dropFrame ? ";" : ":"}${pad(frames % base)}`;
+}
+
+export function parseFrameTimecode(value: string, frameRate: SubtitleFrameRate): number {
+  const match = value.trim().match(/^(\d+):(\d{2}):(\d{2})[:;.,](\d{2})$/);
+  if (!match) return 0;
+  const definition = SUBTITLE_FRAME_RATES[frameRate];
+  const [hours, minutes, seconds, frameNumber] = match.slice(1).map(Number);
+  const base = definition.timecodeBase;
+  let frames = ((hours * 60 + minutes) * 60 + seconds) * base + frameNumber;
+  if (definition.dropFrame) {
+    const totalMinutes = hours * 60 + minutes;
+    frames -= 2 * (totalMinutes - Math.floor(totalMinutes / 10));
+  }
+  return Math.round((frames / definition.fps) * 1000);
+}
+
+export function snapCuesToFrameRate(cues: SubtitleCue[], frameRate: SubtitleFrameRate): SubtitleCue[] {
+  const { fps } = SUBTITLE_FRAME_RATES[frameRate];
+  const snap = (ms: number) => Math.round((Math.round((ms / 1000) * fps) / fps) * 1000);
+  return cues.map((cue) => {
+    const startMs = snap(cue.startMs);
+    return { ...cue, startMs, endMs: Math.max(startMs, snap(cue.endMs)) };
+  });
+}
+
+export function getFrameRateConversionFactor(from: SubtitleFrameRate, to: SubtitleFrameRate): number {
+  return SUBTITLE_FRAME_RATES[from].fps / SUBTITLE_FRAME_RATES[to].fps;
+}
+
+export function deriveRetimeFromSyncPoints(first: SubtitleSyncPoint, second: SubtitleSyncPoint): SubtitleRetimeOptions {
+  const sourceSpan = second.sourceMs - first.sourceMs;
+  if (!sourceSpan) {
+    return { offsetMs: first.targetMs - first.sourceMs, factor: 1, anchorMs: 0 };
+  }
+  const factor = (second.targetMs - first.targetMs) / sourceSpan;
+  return { offsetMs: first.targetMs - first.sourceMs * factor, factor, anchorMs: 0 };
+}
+
+export function retimeSubtitleCues(cues: SubtitleCue[], options: SubtitleRetimeOptions): SubtitleCue[] {
+  const factor = options.factor && Number.isFinite(options.factor) && options.factor > 0 ? options.factor : 1;
+  const offsetMs = Number.isFinite(options.offsetMs) ? options.offsetMs ?? 0 : 0;
+  const anchorMs = Number.isFinite(options.anchorMs) ? options.anchorMs ?? 0 : 0;
+  const transform = (ms: number) => Math.max(0, Math.round(anchorMs + (ms - anchorMs) * factor + offsetMs));
+  return cues.map((cue) => {
+    const startMs = transform(cue.startMs);
+    return { ...cue, startMs, endMs: Math.max(startMs, transform(cue.endMs)) };
+  });
+}
+
 export function cuesToTranscript(cues: SubtitleCue[]): string {
   return cues
     .map((cue) => {
@@ -267,3 +1370,238 @@ export function buildMeetingMinutes(cues: SubtitleCue[]): string {
     ...(highlights.length ? highlights.map((line) => `- ${line}`) : ["- No explicit action lines were detected."]),
   ].join("\n");
 }
+
+export type SubtitleLintRule = "reading-speed" | "line-length" | "line-count" | "overlap" | "zero-length" | "short-gap";
+
+export interface SubtitleLintOptions {
+  maxCharsPerSecond?: number;
+  maxLineLength?: number;
+  maxLines?: number;
+  minGapMs?: number;
+  minDurationMs?: number;
+  maxDurationMs?: number;
+}
+
+export interface SubtitleLintIssue {
+  cueId: string;
+  cueIndex: number;
+  rule: SubtitleLintRule;
+  severity: "error" | "warning";
+  message: string;
+}
+
+export const SUBTITLE_LINT_RULE_LABELS: Record<SubtitleLintRule, string> = {
+  "reading-speed": "Reading speed",
+  "line-length": "Line length",
+  "line-count": "Line count",
+  overlap: "Overlap",
+  "zero-length": "Zero length",
+  "short-gap": "Short gap",
+};
+
+function resolveLintOptions(options: SubtitleLintOptions): Required<SubtitleLintOptions> {
+  return {
+    maxCharsPerSecond: Math.max(5, options.maxCharsPerSecond ?? 17),
+    maxLineLength: Math.max(16, Math.round(options.maxLineLength ?? 42)),
+    maxLines: Math.max(1, Math.round(options.maxLines ?? 2)),
+    minGapMs: Math.max(0, options.minGapMs ?? 83),
+    minDurationMs: Math.max(200, options.minDurationMs ?? 833),
+    maxDurationMs: Math.max(1000, options.maxDurationMs ?? 7000),
+  };
+}
+
+function getCueLines(cue: SubtitleCue): string[] {
+  return formatCueBody(cue)
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+export function getCueCharsPerSecond(cue: SubtitleCue): number {
+  const characters = getCueLines(cue).join("").length;
+  const seconds = (cue.endMs - cue.startMs) / 1000;
+  return seconds > 0 ? characters / seconds : Number.POSITIVE_INFINITY;
+}
+
+export function lintSubtitleCues(cues: SubtitleCue[], options: SubtitleLintOptions = {}): SubtitleLintIssue[] {
+  const settings = resolveLintOptions(options);
+  const issues: SubtitleLintIssue[] = [];
+  const push = (cue: SubtitleCue, cueIndex: number, rule: SubtitleLintRule, severity: SubtitleLintIssue["severity"], message: string) => {
+    issues.push({ cueId: cue.id, cueIndex, rule, severity, message });
+  };
+
+  cues.forEach((cue, index) => {
+    const durationMs = cue.endMs - cue.startMs;
+    if (durationMs <= 0) {
+      push(cue, index, "zero-length", "error", `Cue ends ${durationMs < 0 ? "before" : "at the same time as"} it starts.`);
+    } else {
+      const cps = getCueCharsPerSecond(cue);
+      if (cps > settings.maxCharsPerSecond) {
+        push(cue, index, "reading-speed", "warning", `${cps.toFixed(1)} characters per second (max ${settings.maxCharsPerSecond}).`);
+      }
+    }
+
+    const lines = getCueLines(cue);
+    const longest = Math.max(0, ...lines.map((line) => line.length));
+    if (longest > settings.maxLineLength) {
+      push(cue, index, "line-length", "warning", `Line has ${longest} characters (max ${settings.maxLineLength}).`);
+    }
+    if (lines.length > settings.maxLines) {
+      push(cue, index, "line-count", "warning", `${lines.length} lines (max ${settings.maxLines}).`);
+    }
+
+    const next = cues[index + 1];
+    if (!next) return;
+    const gapMs = next.startMs - cue.endMs;
+    if (gapMs < 0) {
+      push(cue, index, "overlap", "error", `Overlaps cue ${index + 2} by ${formatNumberMs(-gapMs)}.`);
+    } else if (gapMs < settings.minGapMs) {
+      push(cue, index, "short-gap", "warning", `Only ${formatNumberMs(gapMs)} before cue ${index + 2} (min ${formatNumberMs(settings.minGapMs)}).`);
+    }
+  });
+
+  return issues;
+}
+
+function formatNumberMs(value: number): string {
+  return value >= 1000 ? `${(value / 1000).toFixed(2)} s` : `${Math.round(value)} ms`;
+}
+
+function wrapWordsToWidth(words: string[], width: number): string[] {
+  const lines: string[] = [];
+  let current = "";
+  words.forEach((word) => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length <= width || !current) {
+      current = candidate;
+      return;
+    }
+    lines.push(current);
+    current = word;
+  });
+  if (current) lines.push(current);
+  return lines;
+}
+
+export function rebalanceSubtitleText(text: string, maxLineLength = 42): string {
+  const words = text.split(/\s+/).filter(Boolean);
+  const flat = words.join(" ");
+  if (flat.length <= maxLineLength) return flat;
+  const lineCount = Math.ceil(flat.length / maxLineLength);
+  for (let width = Math.ceil(flat.length / lineCount); width <= maxLineLength; width += 1) {
+    const lines = wrapWordsToWidth(words, width);
+    if (lines.length <= lineCount) return lines.join("\n");
+  }
+  return wrapWordsToWidth(words, maxLineLength).join("\n");
+}
+
+function rebalanceCue(cue: SubtitleCue, maxLineLength: number): SubtitleCue {
+  const prefix = cue.speaker && cue.speaker !== "Speaker" ? `${cue.speaker}: ` : "";
+  const balanced = rebalanceSubtitleText(`${prefix}${cue.text}`, maxLineLength);
+  return { ...cue, text: balanced.slice(prefix.length).trim() };
+}
+
+export function fixSubtitleCues(
+  cues: SubtitleCue[],
+  options: SubtitleLintOptions = {},
+  rules: SubtitleLintRule[] = Object.keys(SUBTITLE_LINT_RULE_LABELS) as SubtitleLintRule[],
+): SubtitleCue[] {
+  const settings = resolveLintOptions(options);
+  const enabled = new Set(rules);
+  let working = [...cues].sort((left, right) => left.startMs - right.startMs).map((cue) => ({ ...cue }));
+
+  if (enabled.has("line-length") || enabled.has("line-count")) {
+    working = working.map((cue) => {
+      const lines = getCueLines(cue);
+      const needsFix =
+        lines.length > settings.maxLines || lines.some((line) => line.length > settings.maxLineLength);
+      return needsFix ? rebalanceCue(cue, settings.maxLineLength) : cue;
+    });
+  }
+
+  const fitsAfterMerge = (left: SubtitleCue, right: SubtitleCue) =>
+    left.speaker === right.speaker &&
+    rebalanceSubtitleText(`${formatCueBody(left)} ${right.text}`, settings.maxLineLength).split("\n").length <= settings.maxLines &&
+    right.endMs - left.startMs <= settings.maxDurationMs;
+  const merge = (left: SubtitleCue, right: SubtitleCue): SubtitleCue =>
+    rebalanceCue({ ...left, endMs: Math.max(left.endMs, right.endMs), text: `${left.text} ${right.text}`.trim() }, settings.maxLineLength);
+
+  if (enabled.has("zero-length")) {
+    const result: SubtitleCue[] = [];
+    working.forEach((cue, index) => {
+      if (cue.endMs > cue.startMs) {
+        result.push(cue);
+        return;
+      }
+      const next = working[index + 1];
+      const room = next ? next.startMs - settings.minGapMs - cue.startMs : settings.minDurationMs;
+      if (room > 0) {
+        result.push({ ...cue, endMs: cue.startMs + Math.min(settings.minDurationMs, room) });
+        return;
+      }
+      const previous = result[result.length - 1];
+      if (previous && previous.speaker === cue.speaker) {
+        result[result.length - 1] = merge(previous, cue);
+        return;
+      }
+      result.push({ ...cue, endMs: cue.startMs + settings.minDurationMs });
+    });
+    working = result;
+  }
+
+  if (enabled.has("overlap")) {
+    working = working.map((cue, index) => {
+      const next = working[index + 1];
+      if (!next || next.startMs >= cue.endMs) return cue;
+      const trimmedEnd = next.startMs - settings.minGapMs;
+      return trimmedEnd > cue.startMs ? { ...cue, endMs: trimmedEnd } : { ...cue, endMs: Math.max(cue.startMs + 1, next.startMs) };
+    });
+  }
+
+  if (enabled.has("short-gap")) {
+    working = working.map((cue, index) => {
+      const next = working[index + 1];
+      if (!next) return cue;
+      const gapMs = next.startMs - cue.endMs;
+      if (gapMs < 0 || gapMs >= settings.minGapMs) return cue;
+      const trimmedEnd = next.startMs - settings.minGapMs;
+      return trimmedEnd - cue.startMs >= Math.min(settings.minDurationMs, cue.endMs - cue.startMs)
+        ? { ...cue, endMs: trimmedEnd }
+        : cue;
+    });
+  }
+
+  if (enabled.has("reading-speed")) {
+    const result: SubtitleCue[] = [];
+    for (let index = 0; index < working.length; index += 1) {
+      let cue = working[index];
+      if (getCueCharsPerSecond(cue) > settings.maxCharsPerSecond) {
+        const characters = getCueLines(cue).join("").length;
+        const neededMs = Math.min(settings.maxDurationMs, Math.ceil((characters / settings.maxCharsPerSecond) * 1000));
+        const next = working[index + 1];
+        const latestEnd = Math.min(
+          cue.startMs + neededMs,
+          next ? next.startMs - settings.minGapMs : Number.POSITIVE_INFINITY,
+        );
+        cue = { ...cue, endMs: Math.max(cue.endMs, latestEnd) };
+        if (getCueCharsPerSecond(cue) > settings.maxCharsPerSecond) {
+          const previous = result[result.length - 1];
+          const earliestStart = previous ? previous.endMs + settings.minGapMs : 0;
+          cue = { ...cue, startMs: Math.max(earliestStart, Math.min(cue.startMs, cue.endMs - neededMs)) };
+        }
+        if (getCueCharsPerSecond(cue) > settings.maxCharsPerSecond && next && fitsAfterMerge(cue, next)) {
+          const merged = merge(cue, next);
+          if (getCueCharsPerSecond(merged) < getCueCharsPerSecond(cue)) {
+            result.push(merged);
+            index += 1;
+            continue;
+          }
+        }
+      }
+      result.push(cue);
+    }
+    working = result;
+  }
+
+  return working;
+}
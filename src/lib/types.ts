@@ -123,6 +123,7 @@ export type DeveloperToolId =
   | "cron-expression-generator"
   | "http-status-checker"
   | "dns-lookup"
+  | "email-deliverability-checker"
   | "ssl-checker"
   | "whois-lookup"
   | "dns-propagation-checker";
@@ -0,0 +1,195 @@
+import { escapeXml } from "@/lib/xml";
+
+export interface UblTaxCategory {
+  id: string;
+  percent: number;
+  exemptionReason?: string;
+}
+
+export interface UblParty {
+  name: string;
+  endpointId: string;
+  endpointScheme: string;
+  streetName: string;
+  additionalStreetName?: string;
+  countryCode: string;
+  vatId: string;
+  email?: string;
+}
+
+export interface UblAllowanceCharge {
+  charge: boolean;
+  reason: string;
+  amount: number;
+  taxCategory: UblTaxCategory;
+}
+
+export interface UblTaxSubtotal {
+  taxableAmount: number;
+  taxAmount: number;
+  taxCategory: UblTaxCategory;
+}
+
+export interface UblInvoiceLine {
+  quantity: number;
+  lineExtensionAmount: number;
+  priceAmount: number;
+  name: string;
+  accountingCost?: string;
+  taxCategory: UblTaxCategory;
+}
+
+export interface UblInvoice {
+  id: string;
+  issueDate: string;
+  dueDate?: string;
+  note?: string;
+  currency: string;
+  buyerReference: string;
+  supplier: UblParty;
+  customer: UblParty;
+  paymentTerms?: string;
+  allowanceCharges?: UblAllowanceCharge[];
+  taxTotal: number;
+  taxSubtotals: UblTaxSubtotal[];
+  lineExtensionAmount: number;
+  taxExclusiveAmount: number;
+  taxInclusiveAmount: number;
+  allowanceTotalAmount?: number;
+  chargeTotalAmount?: number;
+  payableAmount: number;
+  lines: UblInvoiceLine[];
+}
+
+function formatUblAmount(value: number): string {
+  return (Math.round(value * 100) / 100).toFixed(2);
+}
+
+function formatUblPrice(value: number): string {
+  return value.toFixed(4).replace(/0{1,2}$/, "");
+}
+
+function buildTaxCategory(tag: string, category: UblTaxCategory, indent: string): string[] {
+  return [
+    `${indent}<cac:${tag}>`,
+    `${indent}  <cbc:ID>${escapeXml(category.id)}</cbc:ID>`,
+    ...(category.id === "O" ? [] : [`${indent}  <cbc:Percent>${category.percent}</cbc:Percent>`]),
+    ...(category.exemptionReason
+      ? [`${indent}  <cbc:TaxExemptionReason>${escapeXml(category.exemptionReason)}</cbc:TaxExemptionReason>`]
+      : []),
+    `${indent}  <cac:TaxScheme>`,
+    `${indent}    <cbc:ID>VAT</cbc:ID>`,
+    `${indent}  </cac:TaxScheme>`,
+    `${indent}</cac:${tag}>`,
+  ];
+}
+
+function buildParty(party: UblParty, wrapper: string): string[] {
+  return [
+    `  <cac:${wrapper}>`,
+    "    <cac:Party>",
+    ...(party.endpointId
+      ? [`      <cbc:EndpointID schemeID="${escapeXml(party.endpointScheme)}">${escapeXml(party.endpointId)}</cbc:EndpointID>`]
+      : []),
+    "      <cac:PartyName>",
+    `        <cbc:Name>${escapeXml(party.name)}</cbc:Name>`,
+    "      </cac:PartyName>",
+    "      <cac:PostalAddress>",
+    ...(party.streetName ? [`        <cbc:StreetName>${escapeXml(party.streetName)}</cbc:StreetName>`] : []),
+    ...(party.additionalStreetName
+      ? [`        <cbc:AdditionalStreetName>${escapeXml(party.additionalStreetName)}</cbc:AdditionalStreetName>`]
+      : []),
+    "        <cac:Country>",
+    `          <cbc:IdentificationCode>${escapeXml(party.countryCode)}</cbc:IdentificationCode>`,
+    "        </cac:Country>",
+    "      </cac:PostalAddress>",
+    ...(party.vatId
+      ? [
+          "      <cac:PartyTaxScheme>",
+          `        <cbc:CompanyID>${escapeXml(party.vatId)}</cbc:CompanyID>`,
+          "        <cac:TaxScheme>",
+          "          <cbc:ID>VAT</cbc:ID>",
+          "        </cac:TaxScheme>",
+          "      </cac:PartyTaxScheme>",
+        ]
+      : []),
+    "      <cac:PartyLegalEntity>",
+    `        <cbc:RegistrationName>${escapeXml(party.name)}</cbc:RegistrationName>`,
+    "      </cac:PartyLegalEntity>",
+    ...(party.email
+      ? ["      <cac:Contact>", `        <cbc:ElectronicMail>${escapeXml(party.email)}</cbc:ElectronicMail>`, "      </cac:Contact>"]
+      : []),
+    "    </cac:Party>",
+    `  </cac:${wrapper}>`,
+  ];
+}
+
+export function buildUblInvoiceDocument(invoice: UblInvoice): string {
+  const currency = escapeXml(invoice.currency);
+  const amount = (tag: string, value: number, indent: string) =>
+    `${indent}<cbc:${tag} currencyID="${currency}">${formatUblAmount(value)}</cbc:${tag}>`;
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2"',
+    '  xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2"',
+    '  xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2">',
+    "  <cbc:CustomizationID>urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0</cbc:CustomizationID>",
+    "  <cbc:ProfileID>urn:fdc:peppol.eu:2017:poacc:billing:01:1.0</cbc:ProfileID>",
+    `  <cbc:ID>${escapeXml(invoice.id)}</cbc:ID>`,
+    `  <cbc:IssueDate>${invoice.issueDate}</cbc:IssueDate>`,
+    ...(invoice.dueDate ? [`  <cbc:DueDate>${invoice.dueDate}</cbc:DueDate>`] : []),
+    "  <cbc:InvoiceTypeCode>380</cbc:InvoiceTypeCode>",
+    ...(invoice.note ? [`  <cbc:Note>${escapeXml(invoice.note)}</cbc:Note>`] : []),
+    `  <cbc:DocumentCurrencyCode>${currency}</cbc:DocumentCurrencyCode>`,
+    `  <cbc:BuyerReference>${escapeXml(invoice.buyerReference)}</cbc:BuyerReference>`,
+    ...buildParty(invoice.supplier, "AccountingSupplierParty"),
+    ...buildParty(invoice.customer, "AccountingCustomerParty"),
+    ...(invoice.paymentTerms
+      ? ["  <cac:PaymentTerms>", `    <cbc:Note>${escapeXml(invoice.paymentTerms)}</cbc:Note>`, "  </cac:PaymentTerms>"]
+      : []),
+    ...(invoice.allowanceCharges ?? []).flatMap((entry) => [
+      "  <cac:AllowanceCharge>",
+      `    <cbc:ChargeIndicator>${entry.charge}</cbc:ChargeIndicator>`,
+      `    <cbc:AllowanceChargeReason>${escapeXml(entry.reason)}</cbc:AllowanceChargeReason>`,
+      amount("Amount", entry.amount, "    "),
+      ...buildTaxCategory("TaxCategory", entry.taxCategory, "    "),
+      "  </cac:AllowanceCharge>",
+    ]),
+    "  <cac:TaxTotal>",
+    amount("TaxAmount", invoice.taxTotal, "    "),
+    ...invoice.taxSubtotals.flatMap((subtotal) => [
+      "    <cac:TaxSubtotal>",
+      amount("TaxableAmount", subtotal.taxableAmount, "      "),
+      amount("TaxAmount", subtotal.taxAmount, "      "),
+      ...buildTaxCategory("TaxCategory", subtotal.taxCategory, "      "),
+      "    </cac:TaxSubtotal>",
+    ]),
+    "  </cac:TaxTotal>",
+    "  <cac:LegalMonetaryTotal>",
+    amount("LineExtensionAmount", invoice.lineExtensionAmount, "    "),
+    amount("TaxExclusiveAmount", invoice.taxExclusiveAmount, "    "),
+    amount("TaxInclusiveAmount", invoice.taxInclusiveAmount, "    "),
+    ...(invoice.allowanceTotalAmount ? [amount("AllowanceTotalAmount", invoice.allowanceTotalAmount, "    ")] : []),
+    ...(invoice.chargeTotalAmount ? [amount("ChargeTotalAmount", invoice.chargeTotalAmount, "    ")] : []),
+    amount("PayableAmount", invoice.payableAmount, "    "),
+    "  </cac:LegalMonetaryTotal>",
+    ...invoice.lines.flatMap((line, index) => [
+      "  <cac:InvoiceLine>",
+      `    <cbc:ID>${index + 1}</cbc:ID>`,
+      `    <cbc:InvoicedQuantity unitCode="C62">${line.quantity}</cbc:InvoicedQuantity>`,
+      amount("LineExtensionAmount", line.lineExtensionAmount, "    "),
+      ...(line.accountingCost ? [`    <cbc:AccountingCost>${escapeXml(line.accountingCost)}</cbc:AccountingCost>`] : []),
+      "    <cac:Item>",
+      `      <cbc:Name>${escapeXml(line.name)}</cbc:Name>`,
+      ...buildTaxCategory("ClassifiedTaxCategory", line.taxCategory, "      "),
+      "    </cac:Item>",
+      "    <cac:Price>",
+      `      <cbc:PriceAmount currencyID="${currency}">${formatUblPrice(line.priceAmount)}</cbc:PriceAmount>`,
+      "    </cac:Price>",
+      "  </cac:InvoiceLine>",
+    ]),
+    "</Invoice>",
+  ];
+  return `${lines.join("\n")}\n`;
+}
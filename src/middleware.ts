@@ -0,0 +1,59 @@
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  buildRateLimitHeaders,
+  consumeRateLimit,
+  createMemoryRateLimitStore,
+  createSupabaseRateLimitStore,
+  getClientIdentifier,
+  getRateLimitPolicy,
+  type RateLimitDecision,
+  type RateLimitStore,
+} from "@/lib/rate-limit";
+
+const memoryStore = createMemoryRateLimitStore();
+let sharedStore: RateLimitStore | null = null;
+
+function getRateLimitStore(): RateLimitStore {
+  const configured = process.env.RATE_LIMIT_STORE?.trim().toLowerCase();
+  const useSupabase =
+    configured === "supabase" ||
+    (!configured && process.env.NODE_ENV === "production" && Boolean(process.env.SUPABASE_SERVICE_ROLE_KEY?.trim()));
+  if (!useSupabase) return memoryStore;
+  sharedStore ??= createSupabaseRateLimitStore();
+  return sharedStore;
+}
+
+export async function middleware(request: NextRequest) {
+  if (request.method === "OPTIONS") return NextResponse.next();
+  const policy = getRateLimitPolicy(request.nextUrl.pathname);
+  if (!policy) return NextResponse.next();
+
+  const key = `${policy.id}:${getClientIdentifier(request.headers, request.ip)}`;
+  let decision: RateLimitDecision;
+  try {
+    decision = await consumeRateLimit(getRateLimitStore(), key, policy);
+  } catch {
+    decision = await consumeRateLimit(memoryStore, key, policy);
+  }
+
+  const headers = buildRateLimitHeaders(decision);
+  if (!decision.allowed) {
+    return NextResponse.json(
+      {
+        ok: false,
+        code: "rate-limited",
+        error: `Too many requests. Try again in ${decision.retryAfterSeconds} second${decision.retryAfterSeconds === 1 ? "" : "s"}.`,
+        retryAfterSeconds: decision.retryAfterSeconds,
+      },
+      { status: 429, headers: { ...headers, "Cache-Control": "no-store" } },
+    );
+  }
+
+  const response = NextResponse.next();
+  Object.entries(headers).forEach(([name, value]) => response.headers.set(name, value));
+  return response;
+}
+
+export const config = {
+  matcher: "/api/:path*",
+};
@@ -0,0 +1,76 @@
+import { env, pipeline } from "@huggingface/transformers";
+import {
+  normalizeWhisperWords,
+  toWhisperLanguage,
+  type SpeechWorkerRequest,
+  type SpeechWorkerResponse,
+  type WhisperChunk,
+} from "@/lib/speech-transcription";
+
+type SpeechRecognizer = (
+  audio: Float32Array,
+  options: Record<string, unknown>,
+) => Promise<{ text: string; chunks?: WhisperChunk[] } | Array<{ text: string; chunks?: WhisperChunk[] }>>;
+
+type ProgressEvent = { status?: string; file?: string; progress?: number };
+
+const createRecognizer = pipeline as unknown as (
+  task: "automatic-speech-recognition",
+  model: string,
+  options: Record<string, unknown>,
+) => Promise<SpeechRecognizer>;
+
+env.allowLocalModels = false;
+
+let loaded: { model: string; recognizer: Promise<SpeechRecognizer> } | null = null;
+
+function post(message: SpeechWorkerResponse) {
+  self.postMessage(message);
+}
+
+function getRecognizer(model: string, requestId: string): Promise<SpeechRecognizer> {
+  if (!loaded || loaded.model !== model) {
+    const recognizer = createRecognizer("automatic-speech-recognition", model, {
+      device: "wasm",
+      progress_callback: (event: ProgressEvent) => {
+        if (event.status === "progress" && event.file) {
+          post({ type: "download", requestId, file: event.file, progress: Math.round(event.progress ?? 0) });
+        }
+      },
+    });
+    recognizer.catch(() => {
+      loaded = null;
+    });
+    loaded = { model, recognizer };
+  }
+  return loaded.recognizer;
+}
+
+self.addEventListener("message", async (event: MessageEvent<SpeechWorkerRequest>) => {
+  const request = event.data;
+  if (!request || request.type !== "transcribe") return;
+  try {
+    post({ type: "status", requestId: request.requestId, message: "Loading speech model..." });
+    const recognizer = await getRecognizer(request.model, request.requestId);
+    post({ type: "status", requestId: request.requestId, message: "Transcribing audio..." });
+    const output = await recognizer(request.audio, {
+      return_timestamps: "word",
+      chunk_length_s: 30,
+      stride_length_s: 5,
+      ...(request.model.endsWith(".en") ? {} : { task: "transcribe", language: toWhisperLanguage(request.language) }),
+    });
+    const result = Array.isArray(output) ? output[0] : output;
+    post({
+      type: "result",
+      requestId: request.requestId,
+      text: (result?.text ?? "").trim(),
+      words: normalizeWhisperWords(result?.chunks ?? []),
+    });
+  } catch (error) {
+    post({
+      type: "error",
+      requestId: request.requestId,
+      message: error instanceof Error && error.message ? error.message : "Speech recognition failed.",
+    });
+  }
+});
@@ -92,3 +92,74 @@ begin
       with check (auth.role() = 'service_role');
   end if;
 end$$;
+
+create table if not exists public.api_rate_limits (
+  bucket_key text primary key,
+  tokens double precision not null,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists api_rate_limits_updated_at_idx on public.api_rate_limits (updated_at);
+
+alter table public.api_rate_limits enable row level security;
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_policies
+    where schemaname = 'public'
+      and tablename = 'api_rate_limits'
+      and policyname = 'Allow service role full access api rate limits'
+  ) then
+    create policy "Allow service role full access api rate limits"
+      on public.api_rate_limits
+      for all
+      using (auth.role() = 'service_role')
+      with check (auth.role() = 'service_role');
+  end if;
+end$$;
+
+-- Token bucket consumed atomically per key; the API middleware calls this through the service role.
+create or replace function public.rate_limit_consume(
+  p_key text,
+  p_capacity double precision,
+  p_refill_per_second double precision,
+  p_cost double precision default 1
+)
+returns table (allowed boolean, tokens double precision)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_now timestamptz := clock_timestamp();
+  v_tokens double precision;
+  v_updated_at timestamptz;
+begin
+  insert into public.api_rate_limits as bucket (bucket_key, tokens, updated_at)
+  values (p_key, p_capacity, v_now)
+  on conflict (bucket_key) do nothing;
+
+  select bucket.tokens, bucket.updated_at
+    into v_tokens, v_updated_at
+    from public.api_rate_limits as bucket
+    where bucket.bucket_key = p_key
+    for update;
+
+  v_tokens := least(p_capacity, v_tokens + greatest(0, extract(epoch from (v_now - v_updated_at))) * p_refill_per_second);
+  allowed := v_tokens >= p_cost;
+  if allowed then
+    v_tokens := v_tokens - p_cost;
+  end if;
+
+  update public.api_rate_limits as bucket
+    set tokens = v_tokens, updated_at = v_now
+    where bucket.bucket_key = p_key;
+
+  tokens := v_tokens;
+  return next;
+end;
+$$;
+
+revoke all on function public.rate_limit_consume(text, double precision, double precision, double precision) from public, anon, authenticated;